@@ -5,6 +5,7 @@
 import { Request, Response, NextFunction } from 'express'; // express@^4.18.2
 import { AnalyticsService } from '../../services/analytics.service'; // Import the analytics service for handling business logic
 import { AnalyticsRepository } from '../../repositories/analytics.repository'; // Import the analytics repository for dependency injection
+import { createReportScheduleService } from '../../services/report-schedule.service'; // Import the factory for the report schedule service
 import { 
   MetricsRequestDTO, 
   MetricsResponse, 
@@ -14,7 +15,9 @@ import {
   ReportResponse, 
   ExportRequestDTO, 
   ExportResponse, 
-  AnalyticsEventDTO 
+  AnalyticsEventDTO, 
+  CreateReportScheduleDTO, 
+  UpdateReportScheduleDTO 
 } from '../../types/analytics.types'; // Import type definitions for analytics request and response objects
 import { AuthenticatedRequest } from '../../interfaces/auth.interface'; // Import authenticated request interface for type safety
 import { logger } from '../../utils/logger'; // Import logger utility for request and error logging
@@ -22,6 +25,9 @@ import { logger } from '../../utils/logger'; // Import logger utility for reques
 // Create a new instance of the AnalyticsService with the AnalyticsRepository
 const analyticsService = new AnalyticsService(new AnalyticsRepository());
 
+// Create the service for saved report definitions delivered on a schedule
+const reportScheduleService = createReportScheduleService();
+
 /**
  * Handles requests for analytics metrics based on provided query parameters
  * @param req Express Request object
@@ -283,11 +289,138 @@ const trackEvent = async (req: AuthenticatedRequest, res: Response, next: NextFu
   }
 };
 
+/**
+ * Handles requests to save a report definition with a delivery schedule
+ * @param req Express Request object
+ * @param res Express Response object
+ * @param next Express NextFunction for error handling
+ * @returns Sends HTTP response with the created schedule
+ */
+const createReportSchedule = async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const scheduleData: CreateReportScheduleDTO = req.body;
+
+    const schedule = await reportScheduleService.createSchedule(scheduleData, req.user.userId);
+
+    res.status(201).json(schedule);
+  } catch (error) {
+    logger.error('Error creating report schedule', { 
+      error: error instanceof Error ? error.message : String(error),
+      userId: req.user?.userId
+    });
+
+    next(error);
+  }
+};
+
+/**
+ * Handles requests to list the report schedules visible to the user
+ * @param req Express Request object
+ * @param res Express Response object
+ * @param next Express NextFunction for error handling
+ * @returns Sends HTTP response with the schedules
+ */
+const getReportSchedules = async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const schedules = await reportScheduleService.getSchedules(req.user.userId, req.user.role);
+
+    res.status(200).json(schedules);
+  } catch (error) {
+    logger.error('Error retrieving report schedules', { 
+      error: error instanceof Error ? error.message : String(error),
+      userId: req.user?.userId
+    });
+
+    next(error);
+  }
+};
+
+/**
+ * Handles requests for a single report schedule
+ * @param req Express Request object
+ * @param res Express Response object
+ * @param next Express NextFunction for error handling
+ * @returns Sends HTTP response with the schedule
+ */
+const getReportSchedule = async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const schedule = await reportScheduleService.getScheduleById(req.params.id, req.user.userId, req.user.role);
+
+    res.status(200).json(schedule);
+  } catch (error) {
+    logger.error('Error retrieving report schedule', { 
+      error: error instanceof Error ? error.message : String(error),
+      userId: req.user?.userId,
+      scheduleId: req.params.id
+    });
+
+    next(error);
+  }
+};
+
+/**
+ * Handles requests to update a report schedule
+ * @param req Express Request object
+ * @param res Express Response object
+ * @param next Express NextFunction for error handling
+ * @returns Sends HTTP response with the updated schedule
+ */
+const updateReportSchedule = async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const scheduleData: UpdateReportScheduleDTO = req.body;
+
+    const schedule = await reportScheduleService.updateSchedule(
+      req.params.id,
+      scheduleData,
+      req.user.userId,
+      req.user.role
+    );
+
+    res.status(200).json(schedule);
+  } catch (error) {
+    logger.error('Error updating report schedule', { 
+      error: error instanceof Error ? error.message : String(error),
+      userId: req.user?.userId,
+      scheduleId: req.params.id
+    });
+
+    next(error);
+  }
+};
+
+/**
+ * Handles requests to delete a report schedule
+ * @param req Express Request object
+ * @param res Express Response object
+ * @param next Express NextFunction for error handling
+ * @returns Sends an empty HTTP response on success
+ */
+const deleteReportSchedule = async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    await reportScheduleService.deleteSchedule(req.params.id, req.user.userId, req.user.role);
+
+    res.status(204).send();
+  } catch (error) {
+    logger.error('Error deleting report schedule', { 
+      error: error instanceof Error ? error.message : String(error),
+      userId: req.user?.userId,
+      scheduleId: req.params.id
+    });
+
+    next(error);
+  }
+};
+
 // Export controller functions for analytics-related API endpoints
 export default {
   getMetrics,
   getDashboard,
   generateReport,
   exportData,
-  trackEvent
+  trackEvent,
+  createReportSchedule,
+  getReportSchedules,
+  getReportSchedule,
+  updateReportSchedule,
+  deleteReportSchedule
 };
\ No newline at end of file
@@ -0,0 +1,78 @@
+import { Request, Response, NextFunction } from 'express'; // express@^4.18.2
+import { IAuditService } from '../../interfaces/audit.interface';
+import { createAuditService } from '../../services/audit.service';
+import { getAuditContext } from '../middlewares/audit.middleware';
+import { AuditLog, AuditLogFilterParams } from '../../models/audit-log.model';
+import { PaginatedResponse } from '../../types/response.types';
+import { logger } from '../../utils/logger';
+
+/**
+ * Controller that handles HTTP requests for the audit trail
+ */
+export class AuditLogsController {
+  private auditService: IAuditService;
+
+  /**
+   * Creates a new AuditLogsController instance
+   * @param auditService
+   */
+  constructor(auditService: IAuditService = createAuditService()) {
+    this.auditService = auditService;
+  }
+
+  /**
+   * Retrieves audit log entries matching the query filters
+   * @param req
+   * @param res
+   * @param next
+   */
+  async getAuditLogs(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Extract validated filter parameters from request query
+      const filters = req.query as unknown as AuditLogFilterParams;
+
+      const { auditLogs, total, page, limit, totalPages } = await this.auditService.getAuditLogs(filters);
+
+      res.status(200).json({
+        success: true,
+        message: 'Audit logs retrieved successfully',
+        data: auditLogs,
+        pagination: {
+          page,
+          limit,
+          totalItems: total,
+          totalPages,
+        },
+      } as PaginatedResponse<AuditLog>);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Exports audit log entries matching the query filters as a file download
+   * @param req
+   * @param res
+   * @param next
+   */
+  async exportAuditLogs(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Separate the export format from the filter parameters
+      const { format, ...filters } = req.query as Record<string, any>;
+
+      const auditLogExport = await this.auditService.exportAuditLogs(
+        filters as AuditLogFilterParams,
+        format,
+        getAuditContext(req)
+      );
+
+      logger.info('Audit logs exported', { format, count: auditLogExport.count });
+
+      res.setHeader('Content-Type', auditLogExport.contentType);
+      res.setHeader('Content-Disposition', `attachment; filename="${auditLogExport.filename}"`);
+      res.status(200).send(auditLogExport.content);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -10,7 +10,10 @@ import {
   PasswordResetConfirmRequest,
   ChangePasswordRequest,
   AuthenticatedRequest,
+  MfaVerifyRequest,
+  MfaCodeRequest,
 } from '../../interfaces/auth.interface';
+import { Roles } from '../../constants/roles';
 import { AuthService, createAuthService } from '../../services/auth.service';
 import { errorFactory } from '../../utils/error-handler';
 import { logger } from '../../utils/logger';
@@ -81,6 +84,18 @@ export class AuthController {
       // Call authService.login with the credentials
       const authResponse = await this.authService.login(loginData);
 
+      // Return the MFA challenge without issuing tokens when a second factor is required
+      if ('mfaRequired' in authResponse) {
+        res.status(200).json({
+          success: true,
+          message: authResponse.enrollmentRequired
+            ? 'Multi-factor authentication enrollment required'
+            : 'Multi-factor authentication required',
+          data: authResponse,
+        });
+        return;
+      }
+
       // Set refresh token in HTTP-only cookie
       res.cookie('refreshToken', authResponse.refreshToken, COOKIE_OPTIONS);
 
@@ -102,6 +117,59 @@ export class AuthController {
     }
   }
 
+  /**
+   * Handles the second step of a login that requires multi-factor authentication
+   * @param req 
+   * @param res 
+   * @param next 
+   */
+  async verifyMfa(req: Request<{}, {}, MfaVerifyRequest>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Call authService.verifyMfaChallenge with the challenge token and code
+      const authResponse = await this.authService.verifyMfaChallenge(req.body);
+
+      // Set refresh token in HTTP-only cookie
+      res.cookie('refreshToken', authResponse.refreshToken, COOKIE_OPTIONS);
+
+      // Return 200 OK response with access token, user data and any newly issued recovery codes
+      res.status(200).json({
+        success: true,
+        message: 'User logged in successfully',
+        data: {
+          accessToken: authResponse.accessToken,
+          user: authResponse.user,
+          ...(authResponse.recoveryCodes ? { recoveryCodes: authResponse.recoveryCodes } : {}),
+        },
+      });
+    } catch (error) {
+      // Catch and forward any errors to the error handling middleware
+      next(error);
+    }
+  }
+
+  /**
+   * Handles MFA enrollment during login for users whose role requires MFA
+   * @param req 
+   * @param res 
+   * @param next 
+   */
+  async enrollMfa(req: Request<{}, {}, { mfaToken: string }>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Call authService.startMfaEnrollment with the challenge token
+      const setup = await this.authService.startMfaEnrollment(req.body.mfaToken);
+
+      // Return 200 OK response with the secret and otpauth URI
+      res.status(200).json({
+        success: true,
+        message: 'Multi-factor authentication enrollment started',
+        data: setup,
+      });
+    } catch (error) {
+      // Catch and forward any errors to the error handling middleware
+      next(error);
+    }
+  }
+
   /**
    * Handles token refresh requests
    * @param req 
@@ -310,6 +378,168 @@ export class AuthController {
     }
   }
   
+  /**
+   * Handles requests to get the authenticated user's MFA status
+   * @param req 
+   * @param res 
+   * @param next 
+   */
+  async getMfaStatus(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Call authService.getMfaStatus with the authenticated user ID
+      const status = await this.authService.getMfaStatus(req.user.userId);
+
+      // Return 200 OK response with the MFA status
+      res.status(200).json({
+        success: true,
+        message: 'Multi-factor authentication status retrieved successfully',
+        data: status,
+      });
+    } catch (error) {
+      // Catch and forward any errors to the error handling middleware
+      next(error);
+    }
+  }
+
+  /**
+   * Handles requests from authenticated users to start MFA enrollment
+   * @param req 
+   * @param res 
+   * @param next 
+   */
+  async setupMfa(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Call authService.setupMfa with the authenticated user ID
+      const setup = await this.authService.setupMfa(req.user.userId);
+
+      // Return 200 OK response with the secret and otpauth URI
+      res.status(200).json({
+        success: true,
+        message: 'Multi-factor authentication enrollment started',
+        data: setup,
+      });
+    } catch (error) {
+      // Catch and forward any errors to the error handling middleware
+      next(error);
+    }
+  }
+
+  /**
+   * Handles requests to confirm MFA enrollment
+   * @param req 
+   * @param res 
+   * @param next 
+   */
+  async enableMfa(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Call authService.enableMfa with the authenticated user ID and code
+      const { code } = req.body as { code: string };
+      const result = await this.authService.enableMfa(req.user.userId, code);
+
+      // Return 200 OK response with the recovery codes
+      res.status(200).json({
+        success: true,
+        message: 'Multi-factor authentication enabled successfully',
+        data: result,
+      });
+    } catch (error) {
+      // Catch and forward any errors to the error handling middleware
+      next(error);
+    }
+  }
+
+  /**
+   * Handles requests to disable MFA
+   * @param req 
+   * @param res 
+   * @param next 
+   */
+  async disableMfa(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Call authService.disableMfa with the authenticated user ID and second factor
+      await this.authService.disableMfa(req.user.userId, req.body as MfaCodeRequest);
+
+      // Return 200 OK response with success message
+      res.status(200).json({
+        success: true,
+        message: 'Multi-factor authentication disabled successfully',
+      });
+    } catch (error) {
+      // Catch and forward any errors to the error handling middleware
+      next(error);
+    }
+  }
+
+  /**
+   * Handles requests to replace MFA recovery codes
+   * @param req 
+   * @param res 
+   * @param next 
+   */
+  async regenerateRecoveryCodes(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Call authService.regenerateRecoveryCodes with the authenticated user ID and second factor
+      const result = await this.authService.regenerateRecoveryCodes(req.user.userId, req.body as MfaCodeRequest);
+
+      // Return 200 OK response with the new recovery codes
+      res.status(200).json({
+        success: true,
+        message: 'Recovery codes regenerated successfully',
+        data: result,
+      });
+    } catch (error) {
+      // Catch and forward any errors to the error handling middleware
+      next(error);
+    }
+  }
+
+  /**
+   * Handles requests to get the MFA policy of every role (admin access)
+   * @param req 
+   * @param res 
+   * @param next 
+   */
+  async getMfaPolicies(_req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Call authService.getMfaPolicies
+      const policies = await this.authService.getMfaPolicies();
+
+      // Return 200 OK response with the policies
+      res.status(200).json({
+        success: true,
+        message: 'Multi-factor authentication policies retrieved successfully',
+        data: policies,
+      });
+    } catch (error) {
+      // Catch and forward any errors to the error handling middleware
+      next(error);
+    }
+  }
+
+  /**
+   * Handles requests to require or stop requiring MFA for a role (admin access)
+   * @param req 
+   * @param res 
+   * @param next 
+   */
+  async updateMfaPolicy(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Call authService.updateMfaPolicy with the role, requirement and acting administrator
+      const { isRequired } = req.body as { isRequired: boolean };
+      const policy = await this.authService.updateMfaPolicy(req.params.role as Roles, isRequired, req.user.userId);
+
+      // Return 200 OK response with the updated policy
+      res.status(200).json({
+        success: true,
+        message: 'Multi-factor authentication policy updated successfully',
+        data: policy,
+      });
+    } catch (error) {
+      // Catch and forward any errors to the error handling middleware
+      next(error);
+    }
+  }
+
     /**
    * Handles requests to get the authenticated user's profile
    * @param req 
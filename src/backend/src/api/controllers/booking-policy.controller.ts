@@ -0,0 +1,119 @@
+import { Request, Response, NextFunction } from 'express'; // express@^4.18.2
+import { IBookingPolicyService } from '../../interfaces/booking-policy.interface';
+import { AuthenticatedRequest } from '../../interfaces/auth.interface';
+import { createBookingPolicyService } from '../../services/booking-policy.service';
+import { getAuditContext } from '../middlewares/audit.middleware';
+import { BookingPolicy, PolicyViolation, PolicyViolationFilters } from '../../types/booking-policy.types';
+import { ApiResponse } from '../../types/response.types';
+
+/**
+ * Controller that handles HTTP requests for providers' booking policies and the late
+ * cancellations and no-shows recorded under them
+ */
+export class BookingPolicyController {
+  private bookingPolicyService: IBookingPolicyService;
+
+  /**
+   * Creates a new BookingPolicyController instance
+   * @param bookingPolicyService
+   */
+  constructor(bookingPolicyService: IBookingPolicyService = createBookingPolicyService()) {
+    this.bookingPolicyService = bookingPolicyService;
+  }
+
+  /**
+   * Retrieves a provider's booking policy
+   * @param req
+   * @param res
+   * @param next
+   */
+  async getPolicy(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const policy = await this.bookingPolicyService.getPolicy(req.params.providerId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Booking policy retrieved successfully',
+        data: policy,
+      } as ApiResponse<BookingPolicy>);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Changes a provider's booking policy
+   * @param req
+   * @param res
+   * @param next
+   */
+  async updatePolicy(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { userId, role } = (req as AuthenticatedRequest).user;
+
+      const policy = await this.bookingPolicyService.updatePolicy(req.params.providerId, req.body, userId, role);
+
+      res.status(200).json({
+        success: true,
+        message: 'Booking policy updated successfully',
+        data: policy,
+      } as ApiResponse<BookingPolicy>);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Lists the late cancellations and no-shows visible to the current user
+   * @param req
+   * @param res
+   * @param next
+   */
+  async getViolations(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { userId, role } = (req as AuthenticatedRequest).user;
+
+      const violations = await this.bookingPolicyService.getViolations(
+        req.query as PolicyViolationFilters,
+        userId,
+        role
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Policy violations retrieved successfully',
+        data: violations,
+      } as ApiResponse<PolicyViolation[]>);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Waives a late cancellation or no-show as an exception
+   * @param req
+   * @param res
+   * @param next
+   */
+  async waiveViolation(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { userId, role } = (req as AuthenticatedRequest).user;
+
+      const violation = await this.bookingPolicyService.waiveViolation(
+        req.params.id,
+        req.body.reason,
+        userId,
+        role,
+        getAuditContext(req)
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Policy violation waived successfully',
+        data: violation,
+      } as ApiResponse<PolicyViolation>);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -0,0 +1,311 @@
+import { Request, Response, NextFunction } from 'express'; // express@^4.18.2
+import { IBookingService } from '../../interfaces/booking.interface';
+import { AuthenticatedRequest } from '../../interfaces/auth.interface';
+import { createBookingsService } from '../../services/bookings.service';
+import {
+  Booking,
+  BookingStatus,
+  BookingFilterParams,
+  BookingResponse,
+  CreateBookingDTO,
+  RescheduleBookingDTO,
+  CreateBookingSeriesDTO,
+  CreateBookingSeriesResponse,
+  BookingSeriesResponse,
+  SeriesScope
+} from '../../models/booking.model';
+import { ApiResponse, PaginatedResponse } from '../../types/response.types';
+import { logger } from '../../utils/logger';
+
+/**
+ * Controller that handles HTTP requests for booking operations
+ */
+export class BookingsController {
+  private bookingService: IBookingService;
+
+  /**
+   * Creates a new BookingsController instance
+   * @param bookingService
+   */
+  constructor(bookingService: IBookingService = createBookingsService()) {
+    this.bookingService = bookingService;
+  }
+
+  /**
+   * Creates a new booking
+   * @param req
+   * @param res
+   * @param next
+   */
+  async createBooking(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Extract booking data from request body
+      const bookingData: CreateBookingDTO = req.body;
+
+      // Extract user ID and role from authenticated request
+      const { userId, role } = (req as AuthenticatedRequest).user;
+
+      // Call booking service to create the booking
+      const booking = await this.bookingService.createBooking(bookingData, userId, role);
+
+      logger.info('Booking created successfully', { bookingId: booking.id });
+
+      res.status(201).json({
+        success: true,
+        message: 'Booking created successfully',
+        data: booking,
+      } as ApiResponse<Booking>);
+    } catch (error) {
+      // Catch and forward any errors to error middleware
+      next(error);
+    }
+  }
+
+  /**
+   * Creates a recurring booking series
+   * @param req
+   * @param res
+   * @param next
+   */
+  async createBookingSeries(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const seriesData: CreateBookingSeriesDTO = req.body;
+
+      const { userId, role } = (req as AuthenticatedRequest).user;
+
+      const result = await this.bookingService.createBookingSeries(seriesData, userId, role);
+
+      logger.info('Booking series created successfully', { seriesId: result.series.id });
+
+      res.status(201).json({
+        success: true,
+        message: 'Booking series created successfully',
+        data: result,
+      } as ApiResponse<CreateBookingSeriesResponse>);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Retrieves a recurring booking series with its bookings and progress
+   * @param req
+   * @param res
+   * @param next
+   */
+  async getBookingSeries(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { seriesId } = req.params;
+
+      const { userId, role } = (req as AuthenticatedRequest).user;
+
+      const result = await this.bookingService.getBookingSeries(seriesId, userId, role);
+
+      res.status(200).json({
+        success: true,
+        message: 'Booking series retrieved successfully',
+        data: result,
+      } as ApiResponse<BookingSeriesResponse>);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Retrieves bookings visible to the current user
+   * @param req
+   * @param res
+   * @param next
+   */
+  async getBookings(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Extract validated filter parameters from request query
+      const filters = req.query as unknown as BookingFilterParams;
+
+      const { userId, role } = (req as AuthenticatedRequest).user;
+
+      // Call booking service to retrieve scoped bookings
+      const { bookings, total, page, limit, totalPages } = await this.bookingService.getBookings(filters, userId, role);
+
+      res.status(200).json({
+        success: true,
+        message: 'Bookings retrieved successfully',
+        data: bookings,
+        pagination: {
+          page,
+          limit,
+          totalItems: total,
+          totalPages,
+        },
+      } as PaginatedResponse<Booking>);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Retrieves upcoming bookings for the current client or provider
+   * @param req
+   * @param res
+   * @param next
+   */
+  async getUpcomingBookings(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const limit = Number(req.query.limit) || 10;
+
+      const { userId, role } = (req as AuthenticatedRequest).user;
+
+      const { bookings } = await this.bookingService.getUpcomingBookings(userId, role, limit);
+
+      res.status(200).json({
+        success: true,
+        message: 'Upcoming bookings retrieved successfully',
+        data: bookings,
+      } as ApiResponse<Booking[]>);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Retrieves a booking by its ID
+   * @param req
+   * @param res
+   * @param next
+   */
+  async getBookingById(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const { userId, role } = (req as AuthenticatedRequest).user;
+
+      const booking = await this.bookingService.getBookingById(id, userId, role);
+
+      res.status(200).json({
+        success: true,
+        message: 'Booking retrieved successfully',
+        data: booking,
+      } as ApiResponse<BookingResponse>);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Reschedules a booking to a new time window
+   * @param req
+   * @param res
+   * @param next
+   */
+  async rescheduleBooking(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const rescheduleData: RescheduleBookingDTO = req.body;
+
+      const { userId, role } = (req as AuthenticatedRequest).user;
+
+      const newBooking = await this.bookingService.rescheduleBooking(id, rescheduleData, userId, role);
+
+      logger.info('Booking rescheduled successfully', { bookingId: id, newBookingId: newBooking.id });
+
+      res.status(200).json({
+        success: true,
+        message: 'Booking rescheduled successfully',
+        data: newBooking,
+      } as ApiResponse<Booking>);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Cancels a booking
+   * @param req
+   * @param res
+   * @param next
+   */
+  async cancelBooking(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { reason, scope } = req.body as { reason: string; scope: SeriesScope };
+
+      const { userId, role } = (req as AuthenticatedRequest).user;
+
+      const booking = await this.bookingService.cancelBooking(id, reason, userId, role, scope);
+
+      logger.info('Booking cancelled successfully', { bookingId: id });
+
+      res.status(200).json({
+        success: true,
+        message: 'Booking cancelled successfully',
+        data: booking,
+      } as ApiResponse<Booking>);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Marks a booking as in progress
+   * @param req
+   * @param res
+   * @param next
+   */
+  async markInProgress(req: Request, res: Response, next: NextFunction): Promise<void> {
+    await this.updateStatus(req, res, next, BookingStatus.IN_PROGRESS, 'Booking marked as in progress');
+  }
+
+  /**
+   * Marks a booking as completed
+   * @param req
+   * @param res
+   * @param next
+   */
+  async markCompleted(req: Request, res: Response, next: NextFunction): Promise<void> {
+    await this.updateStatus(req, res, next, BookingStatus.COMPLETED, 'Booking marked as completed');
+  }
+
+  /**
+   * Marks a booking as a client no-show
+   * @param req
+   * @param res
+   * @param next
+   */
+  async markNoShow(req: Request, res: Response, next: NextFunction): Promise<void> {
+    await this.updateStatus(req, res, next, BookingStatus.NO_SHOW, 'Booking marked as no-show');
+  }
+
+  /**
+   * Applies a delivery status update and sends the response
+   * @param req
+   * @param res
+   * @param next
+   * @param status
+   * @param message
+   */
+  private async updateStatus(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+    status: BookingStatus,
+    message: string
+  ): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const { userId, role } = (req as AuthenticatedRequest).user;
+
+      const booking = await this.bookingService.updateBookingStatus(id, status, userId, role);
+
+      logger.info('Booking status updated successfully', { bookingId: id, status });
+
+      res.status(200).json({
+        success: true,
+        message,
+        data: booking,
+      } as ApiResponse<Booking>);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
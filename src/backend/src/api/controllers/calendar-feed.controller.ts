@@ -0,0 +1,109 @@
+import { Request, Response, NextFunction } from 'express'; // express@^4.18.2
+import { ICalendarFeedService } from '../../interfaces/calendar-feed.interface';
+import { AuthenticatedRequest } from '../../interfaces/auth.interface';
+import { createCalendarFeedService } from '../../services/calendar/calendar-feed.service';
+import { CalendarFeedSubscription, CalendarFeedSummary } from '../../types/calendar.types';
+import { ApiResponse } from '../../types/response.types';
+
+/**
+ * Controller that handles HTTP requests for users' ICS booking feeds
+ */
+export class CalendarFeedController {
+  private calendarFeedService: ICalendarFeedService;
+
+  /**
+   * Creates a new CalendarFeedController instance
+   * @param calendarFeedService
+   */
+  constructor(calendarFeedService: ICalendarFeedService = createCalendarFeedService()) {
+    this.calendarFeedService = calendarFeedService;
+  }
+
+  /**
+   * Issues the current user a calendar feed, replacing any earlier one
+   * @param req
+   * @param res
+   * @param next
+   */
+  async createFeed(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { userId, role } = (req as AuthenticatedRequest).user;
+
+      const feed = await this.calendarFeedService.createFeed(userId, role);
+
+      res.status(201).json({
+        success: true,
+        message: 'Calendar feed created successfully',
+        data: feed,
+      } as ApiResponse<CalendarFeedSubscription>);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Retrieves the current user's calendar feed
+   * @param req
+   * @param res
+   * @param next
+   */
+  async getFeed(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { userId } = (req as AuthenticatedRequest).user;
+
+      const feed = await this.calendarFeedService.getFeed(userId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Calendar feed retrieved successfully',
+        data: feed,
+      } as ApiResponse<CalendarFeedSummary>);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Revokes the current user's calendar feed
+   * @param req
+   * @param res
+   * @param next
+   */
+  async revokeFeed(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { userId } = (req as AuthenticatedRequest).user;
+
+      await this.calendarFeedService.revokeFeed(userId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Calendar feed revoked successfully',
+        data: null,
+      } as ApiResponse<null>);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Serves a calendar feed to a calendar client; the token in the URL is the only credential
+   * @param req
+   * @param res
+   * @param next
+   */
+  async renderFeed(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { token } = req.params;
+
+      const calendar = await this.calendarFeedService.renderFeed(token);
+
+      res
+        .status(200)
+        .set('Cache-Control', 'private, no-store')
+        .type('text/calendar; charset=utf-8')
+        .send(calendar);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
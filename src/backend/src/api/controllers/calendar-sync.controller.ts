@@ -0,0 +1,180 @@
+import { Request, Response, NextFunction } from 'express'; // express@^4.18.2
+import { ICalendarSyncService } from '../../interfaces/calendar-sync.interface';
+import { AuthenticatedRequest } from '../../interfaces/auth.interface';
+import { createCalendarSyncService } from '../../services/calendar/calendar-sync.service';
+import {
+  CalendarConnectionSummary,
+  CalendarReconciliationReport,
+  ConnectCalendarDTO
+} from '../../types/calendar.types';
+import { ApiResponse } from '../../types/response.types';
+
+/**
+ * Controller that handles HTTP requests for two-way sync between provider availability
+ * and external calendars, including change notifications from the calendar providers
+ */
+export class CalendarSyncController {
+  private calendarSyncService: ICalendarSyncService;
+
+  /**
+   * Creates a new CalendarSyncController instance
+   * @param calendarSyncService
+   */
+  constructor(calendarSyncService: ICalendarSyncService = createCalendarSyncService()) {
+    this.calendarSyncService = calendarSyncService;
+  }
+
+  /**
+   * Connects an external calendar to a provider's availability
+   * @param req
+   * @param res
+   * @param next
+   */
+  async connectCalendar(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { providerId } = req.params;
+      const connectionData: ConnectCalendarDTO = req.body;
+
+      const { userId, role } = (req as AuthenticatedRequest).user;
+
+      const connection = await this.calendarSyncService.connectCalendar(providerId, connectionData, userId, role);
+
+      res.status(201).json({
+        success: true,
+        message: 'Calendar connected successfully',
+        data: connection,
+      } as ApiResponse<CalendarConnectionSummary>);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Retrieves a provider's calendar connections
+   * @param req
+   * @param res
+   * @param next
+   */
+  async getConnections(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { providerId } = req.params;
+
+      const { userId, role } = (req as AuthenticatedRequest).user;
+
+      const connections = await this.calendarSyncService.getConnections(providerId, userId, role);
+
+      res.status(200).json({
+        success: true,
+        message: 'Calendar connections retrieved successfully',
+        data: connections,
+      } as ApiResponse<CalendarConnectionSummary[]>);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Disconnects a provider's external calendar
+   * @param req
+   * @param res
+   * @param next
+   */
+  async disconnectCalendar(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { providerId, connectionId } = req.params;
+
+      const { userId, role } = (req as AuthenticatedRequest).user;
+
+      await this.calendarSyncService.disconnectCalendar(providerId, connectionId, userId, role);
+
+      res.status(200).json({
+        success: true,
+        message: 'Calendar disconnected successfully',
+        data: null,
+      } as ApiResponse<null>);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Reconciles a provider's calendar connection with Revolucare on demand
+   * @param req
+   * @param res
+   * @param next
+   */
+  async reconcileConnection(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { providerId, connectionId } = req.params;
+
+      const { userId, role } = (req as AuthenticatedRequest).user;
+
+      const report = await this.calendarSyncService.reconcileConnection(providerId, connectionId, userId, role);
+
+      res.status(200).json({
+        success: true,
+        message: 'Calendar reconciled successfully',
+        data: report,
+      } as ApiResponse<CalendarReconciliationReport>);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Retrieves a calendar connection's recent reconciliation reports
+   * @param req
+   * @param res
+   * @param next
+   */
+  async getReconciliationReports(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { providerId, connectionId } = req.params;
+
+      const { userId, role } = (req as AuthenticatedRequest).user;
+
+      const reports = await this.calendarSyncService.getReconciliationReports(providerId, connectionId, userId, role);
+
+      res.status(200).json({
+        success: true,
+        message: 'Calendar reconciliation reports retrieved successfully',
+        data: reports,
+      } as ApiResponse<CalendarReconciliationReport[]>);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Handles a change notification from Google Calendar or Microsoft Graph
+   * @param req
+   * @param res
+   * @param next
+   */
+  async handleCalendarWebhook(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { calendarProvider } = req.params;
+
+      // Microsoft Graph checks a new subscription's URL by expecting its token echoed back as plain text
+      const { validationToken } = req.query;
+      if (typeof validationToken === 'string') {
+        res.status(200).type('text/plain').send(validationToken);
+        return;
+      }
+
+      const synced = await this.calendarSyncService.handleWebhook(calendarProvider, {
+        body: req.body || {},
+        headers: req.headers as Record<string, string>,
+        timestamp: Date.now()
+      });
+
+      res.status(202).json({
+        success: true,
+        message: 'Calendar notification processed',
+        data: { synced },
+      } as ApiResponse<{ synced: number }>);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
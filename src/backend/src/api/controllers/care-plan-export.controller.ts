@@ -0,0 +1,46 @@
+import { Request, Response, NextFunction } from 'express'; // express@^4.18.2
+import { ICarePlanExportService } from '../../interfaces/care-plan.interface';
+import { AuthenticatedRequest } from '../../interfaces/auth.interface';
+import { createCarePlanExportService } from '../../services/care-plan-export.service';
+import { CarePlanExportFormat } from '../../types/care-plan.types';
+import { logger } from '../../utils/logger';
+
+/**
+ * Controller that handles HTTP requests for exporting care plans to physicians and payers
+ */
+export class CarePlanExportController {
+  private exportService: ICarePlanExportService;
+
+  /**
+   * Creates a new CarePlanExportController instance
+   * @param exportService
+   */
+  constructor(exportService: ICarePlanExportService = createCarePlanExportService()) {
+    this.exportService = exportService;
+  }
+
+  /**
+   * Exports a care plan as a file download in the requested format
+   * @param req
+   * @param res
+   * @param next
+   */
+  async exportCarePlan(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const format = (req.query.format as CarePlanExportFormat) || CarePlanExportFormat.PDF;
+
+      const { userId, role } = (req as AuthenticatedRequest).user;
+
+      const carePlanExport = await this.exportService.exportCarePlan(id, format, userId, role);
+
+      logger.info('Care plan exported', { carePlanId: id, format, userId });
+
+      res.setHeader('Content-Type', carePlanExport.contentType);
+      res.setHeader('Content-Disposition', `attachment; filename="${carePlanExport.filename}"`);
+      res.status(200).send(carePlanExport.content);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -0,0 +1,134 @@
+import { Request, Response, NextFunction } from 'express'; // express@^4.18.2
+import { ICarePlanProgressService } from '../../interfaces/care-plan.interface';
+import { AuthenticatedRequest } from '../../interfaces/auth.interface';
+import { createCarePlanProgressService } from '../../services/care-plan-progress.service';
+import {
+  GoalProgressEntry,
+  GoalProgressResponse,
+  InterventionSession,
+  InterventionSessionsResponse,
+  LogInterventionSessionDTO,
+  ProgressFilterParams,
+  RecordGoalProgressDTO
+} from '../../types/care-plan.types';
+import { ApiResponse } from '../../types/response.types';
+import { logger } from '../../utils/logger';
+
+/**
+ * Controller that handles HTTP requests for care plan goal progress and intervention sessions
+ */
+export class CarePlanProgressController {
+  private progressService: ICarePlanProgressService;
+
+  /**
+   * Creates a new CarePlanProgressController instance
+   * @param progressService
+   */
+  constructor(progressService: ICarePlanProgressService = createCarePlanProgressService()) {
+    this.progressService = progressService;
+  }
+
+  /**
+   * Records a progress observation against a care plan goal
+   * @param req
+   * @param res
+   * @param next
+   */
+  async recordGoalProgress(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id, goalId } = req.params;
+      const progressData: RecordGoalProgressDTO = req.body;
+
+      const { userId, role } = (req as AuthenticatedRequest).user;
+
+      const entry = await this.progressService.recordGoalProgress(id, goalId, progressData, userId, role);
+
+      logger.info('Goal progress recorded successfully', { carePlanId: id, goalId, entryId: entry.id });
+
+      res.status(201).json({
+        success: true,
+        message: 'Goal progress recorded successfully',
+        data: entry,
+      } as ApiResponse<GoalProgressEntry>);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Retrieves the progress recorded against a care plan goal
+   * @param req
+   * @param res
+   * @param next
+   */
+  async getGoalProgress(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id, goalId } = req.params;
+      const filters = req.query as ProgressFilterParams;
+
+      const { userId, role } = (req as AuthenticatedRequest).user;
+
+      const progress = await this.progressService.getGoalProgress(id, goalId, filters, userId, role);
+
+      res.status(200).json({
+        success: true,
+        message: 'Goal progress retrieved successfully',
+        data: progress,
+      } as ApiResponse<GoalProgressResponse>);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Logs a session of a care plan intervention
+   * @param req
+   * @param res
+   * @param next
+   */
+  async logInterventionSession(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id, interventionId } = req.params;
+      const sessionData: LogInterventionSessionDTO = req.body;
+
+      const { userId, role } = (req as AuthenticatedRequest).user;
+
+      const session = await this.progressService.logInterventionSession(id, interventionId, sessionData, userId, role);
+
+      logger.info('Intervention session logged successfully', { carePlanId: id, interventionId, sessionId: session.id });
+
+      res.status(201).json({
+        success: true,
+        message: 'Intervention session logged successfully',
+        data: session,
+      } as ApiResponse<InterventionSession>);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Retrieves the session logs of a care plan intervention
+   * @param req
+   * @param res
+   * @param next
+   */
+  async getInterventionSessions(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id, interventionId } = req.params;
+      const filters = req.query as ProgressFilterParams;
+
+      const { userId, role } = (req as AuthenticatedRequest).user;
+
+      const sessions = await this.progressService.getInterventionSessions(id, interventionId, filters, userId, role);
+
+      res.status(200).json({
+        success: true,
+        message: 'Intervention sessions retrieved successfully',
+        data: sessions,
+      } as ApiResponse<InterventionSessionsResponse>);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -0,0 +1,71 @@
+import { Request, Response, NextFunction } from 'express'; // express@^4.18.2
+import { IEligibilityService } from '../../interfaces/eligibility.interface';
+import { AuthenticatedRequest } from '../../interfaces/auth.interface';
+import { createEligibilityService } from '../../services/eligibility.service';
+import { EligibilityCheckSummary } from '../../types/eligibility.types';
+import { ApiResponse } from '../../types/response.types';
+
+/**
+ * Controller that handles HTTP requests for insurance eligibility checks of services plan
+ * funding sources
+ */
+export class EligibilityController {
+  private eligibilityService: IEligibilityService;
+
+  /**
+   * Creates a new EligibilityController instance
+   * @param eligibilityService
+   */
+  constructor(eligibilityService: IEligibilityService = createEligibilityService()) {
+    this.eligibilityService = eligibilityService;
+  }
+
+  /**
+   * Checks the client's insurance eligibility for a funding source
+   * @param req
+   * @param res
+   * @param next
+   */
+  async verifyFundingSource(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { userId, role } = (req as AuthenticatedRequest).user;
+
+      const check = await this.eligibilityService.verifyFundingSource(req.params.id, req.params.fundingSourceId, userId, role);
+
+      res.status(201).json({
+        success: true,
+        message: 'Eligibility checked successfully',
+        data: check,
+      } as ApiResponse<EligibilityCheckSummary>);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Retrieves the eligibility checks of a funding source
+   * @param req
+   * @param res
+   * @param next
+   */
+  async getEligibilityChecks(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { userId, role } = (req as AuthenticatedRequest).user;
+
+      const checks = await this.eligibilityService.getEligibilityChecks(
+        req.params.id,
+        req.params.fundingSourceId,
+        userId,
+        role
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Eligibility checks retrieved successfully',
+        data: checks,
+      } as ApiResponse<EligibilityCheckSummary[]>);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
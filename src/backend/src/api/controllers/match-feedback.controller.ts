@@ -0,0 +1,70 @@
+import { Request, Response, NextFunction } from 'express'; // express@^4.18.2
+import { IMatchFeedbackService } from '../../interfaces/provider.interface';
+import { AuthenticatedRequest } from '../../interfaces/auth.interface';
+import { createMatchFeedbackService } from '../../services/match-feedback.service';
+import { MatchFeedback, MatchFeedbackDTO, MatchSessionWithFeedback } from '../../types/provider.types';
+import { ApiResponse } from '../../types/response.types';
+
+/**
+ * Controller that handles HTTP requests for the decisions made about provider matches
+ */
+export class MatchFeedbackController {
+  private matchFeedbackService: IMatchFeedbackService;
+
+  /**
+   * Creates a new MatchFeedbackController instance
+   * @param matchFeedbackService
+   */
+  constructor(matchFeedbackService: IMatchFeedbackService = createMatchFeedbackService()) {
+    this.matchFeedbackService = matchFeedbackService;
+  }
+
+  /**
+   * Records a decision about a provider for a matching request
+   * @param req
+   * @param res
+   * @param next
+   */
+  async recordFeedback(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { sessionId } = req.params;
+      const feedbackData: MatchFeedbackDTO = req.body;
+
+      const { userId, role } = (req as AuthenticatedRequest).user;
+
+      const feedback = await this.matchFeedbackService.recordFeedback(sessionId, feedbackData, userId, role);
+
+      res.status(201).json({
+        success: true,
+        message: 'Match feedback recorded successfully',
+        data: feedback,
+      } as ApiResponse<MatchFeedback>);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Retrieves a matching request with the decisions made about it
+   * @param req
+   * @param res
+   * @param next
+   */
+  async getSessionFeedback(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { sessionId } = req.params;
+
+      const { userId, role } = (req as AuthenticatedRequest).user;
+
+      const session = await this.matchFeedbackService.getSessionFeedback(sessionId, userId, role);
+
+      res.status(200).json({
+        success: true,
+        message: 'Match feedback retrieved successfully',
+        data: session,
+      } as ApiResponse<MatchSessionWithFeedback>);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -0,0 +1,137 @@
+import { Request, Response, NextFunction } from 'express'; // express@^4.18.2
+import { IMatchingProfileService } from '../../interfaces/provider.interface';
+import { AuthenticatedRequest } from '../../interfaces/auth.interface';
+import { createMatchingProfileService } from '../../services/matching-profile.service';
+import {
+  CreateMatchingProfileDTO,
+  MatchingProfile,
+  UpdateMatchingProfileDTO
+} from '../../types/provider.types';
+import { ApiResponse } from '../../types/response.types';
+
+/**
+ * Controller that handles HTTP requests for the matching profiles that configure
+ * provider matching weights and filters
+ */
+export class MatchingProfilesController {
+  private matchingProfileService: IMatchingProfileService;
+
+  /**
+   * Creates a new MatchingProfilesController instance
+   * @param matchingProfileService
+   */
+  constructor(matchingProfileService: IMatchingProfileService = createMatchingProfileService()) {
+    this.matchingProfileService = matchingProfileService;
+  }
+
+  /**
+   * Creates a matching profile
+   * @param req
+   * @param res
+   * @param next
+   */
+  async createProfile(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const profileData: CreateMatchingProfileDTO = req.body;
+
+      const { userId } = (req as AuthenticatedRequest).user;
+
+      const profile = await this.matchingProfileService.createProfile(profileData, userId);
+
+      res.status(201).json({
+        success: true,
+        message: 'Matching profile created successfully',
+        data: profile,
+      } as ApiResponse<MatchingProfile>);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Retrieves all matching profiles
+   * @param _req
+   * @param res
+   * @param next
+   */
+  async getProfiles(_req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const profiles = await this.matchingProfileService.getProfiles();
+
+      res.status(200).json({
+        success: true,
+        message: 'Matching profiles retrieved successfully',
+        data: profiles,
+      } as ApiResponse<MatchingProfile[]>);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Retrieves a matching profile by ID
+   * @param req
+   * @param res
+   * @param next
+   */
+  async getProfileById(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { profileId } = req.params;
+
+      const profile = await this.matchingProfileService.getProfileById(profileId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Matching profile retrieved successfully',
+        data: profile,
+      } as ApiResponse<MatchingProfile>);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Updates a matching profile
+   * @param req
+   * @param res
+   * @param next
+   */
+  async updateProfile(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { profileId } = req.params;
+      const profileData: UpdateMatchingProfileDTO = req.body;
+
+      const profile = await this.matchingProfileService.updateProfile(profileId, profileData);
+
+      res.status(200).json({
+        success: true,
+        message: 'Matching profile updated successfully',
+        data: profile,
+      } as ApiResponse<MatchingProfile>);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Deletes a matching profile
+   * @param req
+   * @param res
+   * @param next
+   */
+  async deleteProfile(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { profileId } = req.params;
+
+      await this.matchingProfileService.deleteProfile(profileId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Matching profile deleted successfully',
+        data: null,
+      } as ApiResponse<null>);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -0,0 +1,108 @@
+import { Request, Response, NextFunction } from 'express'; // express@^4.18.2
+import { IMedicalHistoryService } from '../../interfaces/medical-history.interface';
+import { AuthenticatedRequest } from '../../interfaces/auth.interface';
+import { createMedicalHistoryService } from '../../services/medical-history.service';
+import {
+  ImportMedicalHistoryDTO,
+  MedicalHistoryConflict,
+  MedicalHistoryConflictStatus,
+  MedicalHistoryImportResult,
+  ResolveMedicalHistoryConflictDTO
+} from '../../types/medical-history.types';
+import { ApiResponse } from '../../types/response.types';
+import { logger } from '../../utils/logger';
+
+/**
+ * Controller that handles HTTP requests for importing client medical history and
+ * reviewing the conflicts imports raise
+ */
+export class MedicalHistoryController {
+  private medicalHistoryService: IMedicalHistoryService;
+
+  /**
+   * Creates a new MedicalHistoryController instance
+   * @param medicalHistoryService
+   */
+  constructor(medicalHistoryService: IMedicalHistoryService = createMedicalHistoryService()) {
+    this.medicalHistoryService = medicalHistoryService;
+  }
+
+  /**
+   * Imports a FHIR bundle into a client's profile
+   * @param req
+   * @param res
+   * @param next
+   */
+  async importMedicalHistory(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const bundle: ImportMedicalHistoryDTO = req.body;
+
+      const { userId, role } = (req as AuthenticatedRequest).user;
+
+      const result = await this.medicalHistoryService.importMedicalHistory(id, bundle, userId, role);
+
+      logger.info('Medical history import completed', { clientId: id, importId: result.import.id });
+
+      res.status(201).json({
+        success: true,
+        message: result.conflicts.length > 0
+          ? 'Medical history imported with conflicts for review'
+          : 'Medical history imported successfully',
+        data: result,
+      } as ApiResponse<MedicalHistoryImportResult>);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Retrieves the medical history conflicts raised for a client
+   * @param req
+   * @param res
+   * @param next
+   */
+  async getConflicts(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const status = req.query.status as MedicalHistoryConflictStatus | undefined;
+
+      const { userId, role } = (req as AuthenticatedRequest).user;
+
+      const conflicts = await this.medicalHistoryService.getConflicts(id, status, userId, role);
+
+      res.status(200).json({
+        success: true,
+        message: 'Medical history conflicts retrieved successfully',
+        data: conflicts,
+      } as ApiResponse<MedicalHistoryConflict[]>);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Resolves a medical history conflict
+   * @param req
+   * @param res
+   * @param next
+   */
+  async resolveConflict(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id, conflictId } = req.params;
+      const resolution: ResolveMedicalHistoryConflictDTO = req.body;
+
+      const { userId, role } = (req as AuthenticatedRequest).user;
+
+      const conflict = await this.medicalHistoryService.resolveConflict(id, conflictId, resolution, userId, role);
+
+      res.status(200).json({
+        success: true,
+        message: 'Medical history conflict resolved successfully',
+        data: conflict,
+      } as ApiResponse<MedicalHistoryConflict>);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -0,0 +1,216 @@
+import { Request, Response, NextFunction } from 'express'; // express@^4.18.2
+import { IMessagingService } from '../../interfaces/message.interface';
+import { AuthenticatedRequest } from '../../interfaces/auth.interface';
+import { getMessagingService } from '../../services/messaging.service';
+import {
+  ConversationFilterParams,
+  ConversationSummary,
+  CreateConversationDTO,
+  Message,
+  MessageAttachmentUpload,
+  MessageFilterParams,
+  ReadReceiptResult
+} from '../../models/message.model';
+import { ApiResponse, PaginatedResponse } from '../../types/response.types';
+import { logger } from '../../utils/logger';
+
+/**
+ * Controller that handles HTTP requests for secure messaging
+ */
+export class MessagesController {
+  private messagingService: IMessagingService;
+
+  /**
+   * Creates a new MessagesController instance
+   * @param messagingService
+   */
+  constructor(messagingService: IMessagingService = getMessagingService()) {
+    this.messagingService = messagingService;
+  }
+
+  /**
+   * Starts a new conversation
+   * @param req
+   * @param res
+   * @param next
+   */
+  async createConversation(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const conversationData: CreateConversationDTO = req.body;
+
+      const { userId, role } = (req as AuthenticatedRequest).user;
+
+      const conversation = await this.messagingService.createConversation(conversationData, userId, role);
+
+      logger.info('Conversation created successfully', { conversationId: conversation.conversation.id });
+
+      res.status(201).json({
+        success: true,
+        message: 'Conversation created successfully',
+        data: conversation,
+      } as ApiResponse<ConversationSummary>);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Retrieves the conversations of the current user
+   * @param req
+   * @param res
+   * @param next
+   */
+  async getConversations(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const filters = req.query as unknown as ConversationFilterParams;
+
+      const { userId } = (req as AuthenticatedRequest).user;
+
+      const { conversations, total, page, limit, totalPages } = await this.messagingService.getConversations(filters, userId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Conversations retrieved successfully',
+        data: conversations,
+        pagination: {
+          page,
+          limit,
+          totalItems: total,
+          totalPages,
+        },
+      } as PaginatedResponse<ConversationSummary>);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Retrieves a conversation by its ID
+   * @param req
+   * @param res
+   * @param next
+   */
+  async getConversationById(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const { userId, role } = (req as AuthenticatedRequest).user;
+
+      const conversation = await this.messagingService.getConversation(id, userId, role);
+
+      res.status(200).json({
+        success: true,
+        message: 'Conversation retrieved successfully',
+        data: conversation,
+      } as ApiResponse<ConversationSummary>);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Retrieves messages of a conversation, newest first
+   * @param req
+   * @param res
+   * @param next
+   */
+  async getMessages(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const filters = req.query as unknown as MessageFilterParams;
+
+      const { userId, role } = (req as AuthenticatedRequest).user;
+
+      const messages = await this.messagingService.getMessages(id, filters, userId, role);
+
+      res.status(200).json({
+        success: true,
+        message: 'Messages retrieved successfully',
+        data: messages,
+      } as ApiResponse<Message[]>);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Sends a message, with any files uploaded as multipart attachments
+   * @param req
+   * @param res
+   * @param next
+   */
+  async sendMessage(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const files = Array.isArray(req.files) ? req.files : [];
+
+      const attachments: MessageAttachmentUpload[] = files.map(file => ({
+        fileName: file.originalname,
+        mimeType: file.mimetype,
+        size: file.size,
+        buffer: file.buffer,
+      }));
+
+      const { userId, role } = (req as AuthenticatedRequest).user;
+
+      const message = await this.messagingService.sendMessage(id, { body: req.body.body, attachments }, userId, role);
+
+      res.status(201).json({
+        success: true,
+        message: 'Message sent successfully',
+        data: message,
+      } as ApiResponse<Message>);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Records read receipts for the current user's unread messages in a conversation
+   * @param req
+   * @param res
+   * @param next
+   */
+  async markAsRead(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { readAt } = req.body;
+
+      const { userId, role } = (req as AuthenticatedRequest).user;
+
+      const result = await this.messagingService.markAsRead(id, userId, role, readAt);
+
+      res.status(200).json({
+        success: true,
+        message: 'Messages marked as read',
+        data: result,
+      } as ApiResponse<ReadReceiptResult>);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Generates a short-lived download URL for a message attachment
+   * @param req
+   * @param res
+   * @param next
+   */
+  async getAttachmentUrl(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id, attachmentId } = req.params;
+
+      const { userId, role } = (req as AuthenticatedRequest).user;
+
+      const url = await this.messagingService.getAttachmentUrl(id, attachmentId, userId, role);
+
+      res.status(200).json({
+        success: true,
+        message: 'Attachment URL generated successfully',
+        data: { url },
+      } as ApiResponse<{ url: string }>);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
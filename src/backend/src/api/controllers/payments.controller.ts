@@ -0,0 +1,224 @@
+import { Request, Response, NextFunction } from 'express'; // express@^4.18.2
+import { IPaymentProcessingService } from '../../interfaces/payment.interface';
+import { AuthenticatedRequest } from '../../interfaces/auth.interface';
+import { PaymentProcessingService } from '../../services/payment/payment-processing.service';
+import {
+  CancelPaymentDTO,
+  CreateServiceItemsPaymentDTO,
+  PaymentCancellationResult,
+  PaymentIntentResult,
+  PaymentProcessingResult,
+  PaymentStatusResult,
+  RefundPaymentDTO,
+  RefundResult
+} from '../../models/payment.model';
+import { WebhookResult } from '../../models/webhook-event.model';
+import { ApiResponse } from '../../types/response.types';
+import { errorFactory } from '../../utils/error-handler';
+import { logger } from '../../utils/logger';
+
+/**
+ * Controller that handles HTTP requests for payments and payment provider webhooks
+ */
+export class PaymentsController {
+  private paymentService: IPaymentProcessingService;
+
+  /**
+   * Creates a new PaymentsController instance
+   * @param paymentService
+   */
+  constructor(paymentService: IPaymentProcessingService = new PaymentProcessingService()) {
+    this.paymentService = paymentService;
+  }
+
+  /**
+   * Starts a payment for service items of a services plan
+   * @param req
+   * @param res
+   * @param next
+   */
+  async createServiceItemsPayment(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const paymentData: CreateServiceItemsPaymentDTO = req.body;
+
+      const { userId, role } = (req as AuthenticatedRequest).user;
+
+      const paymentIntent = await this.paymentService.createServiceItemsPaymentIntent(paymentData, userId, role);
+
+      logger.info('Service items payment created successfully', { paymentIntentId: paymentIntent.paymentIntentId });
+
+      res.status(201).json({
+        success: true,
+        message: 'Payment created successfully',
+        data: paymentIntent,
+      } as ApiResponse<PaymentIntentResult>);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Starts a payment for the service item delivered by a booking
+   * @param req
+   * @param res
+   * @param next
+   */
+  async createBookingPayment(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { bookingId } = req.params;
+
+      const { userId, role } = (req as AuthenticatedRequest).user;
+
+      const paymentIntent = await this.paymentService.createBookingPaymentIntent(bookingId, userId, role);
+
+      logger.info('Booking payment created successfully', { bookingId, paymentIntentId: paymentIntent.paymentIntentId });
+
+      res.status(201).json({
+        success: true,
+        message: 'Payment created successfully',
+        data: paymentIntent,
+      } as ApiResponse<PaymentIntentResult>);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Retrieves the status of a payment
+   * @param req
+   * @param res
+   * @param next
+   */
+  async getPaymentStatus(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { paymentIntentId } = req.params;
+
+      const { userId, role } = (req as AuthenticatedRequest).user;
+
+      await this.paymentService.assertPaymentAccess(paymentIntentId, userId, role);
+
+      const paymentStatus = await this.paymentService.getPaymentStatus(paymentIntentId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Payment status retrieved successfully',
+        data: paymentStatus,
+      } as ApiResponse<PaymentStatusResult>);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Records a payment the client has confirmed with Stripe without waiting for the webhook
+   * @param req
+   * @param res
+   * @param next
+   */
+  async confirmPayment(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { paymentIntentId } = req.params;
+
+      const { userId, role } = (req as AuthenticatedRequest).user;
+
+      await this.paymentService.assertPaymentAccess(paymentIntentId, userId, role);
+
+      const result = await this.paymentService.processPayment(paymentIntentId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Payment confirmed successfully',
+        data: result,
+      } as ApiResponse<PaymentProcessingResult>);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Cancels a payment that has not been completed
+   * @param req
+   * @param res
+   * @param next
+   */
+  async cancelPayment(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { paymentIntentId } = req.params;
+      const { reason }: CancelPaymentDTO = req.body;
+
+      const { userId, role } = (req as AuthenticatedRequest).user;
+
+      await this.paymentService.assertPaymentAccess(paymentIntentId, userId, role);
+
+      const result = await this.paymentService.cancelPayment(paymentIntentId, reason);
+
+      logger.info('Payment cancelled successfully', { paymentIntentId, userId });
+
+      res.status(200).json({
+        success: true,
+        message: 'Payment cancelled successfully',
+        data: result,
+      } as ApiResponse<PaymentCancellationResult>);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Refunds all or part of a completed payment
+   * @param req
+   * @param res
+   * @param next
+   */
+  async refundPayment(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { paymentIntentId } = req.params;
+      const { amount, reason }: RefundPaymentDTO = req.body;
+
+      const { userId } = (req as AuthenticatedRequest).user;
+
+      const result = await this.paymentService.refundPayment(paymentIntentId, amount, reason);
+
+      logger.info('Payment refunded successfully', { paymentIntentId, refundId: result.refundId, userId });
+
+      res.status(200).json({
+        success: true,
+        message: 'Payment refunded successfully',
+        data: result,
+      } as ApiResponse<RefundResult>);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Receives Stripe webhook deliveries. The body must be the unparsed request body
+   * because the signature is computed over the exact bytes Stripe sent.
+   * @param req
+   * @param res
+   * @param next
+   */
+  async handleStripeWebhook(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const signature = req.headers['stripe-signature'];
+
+      if (typeof signature !== 'string' || !signature) {
+        throw errorFactory.createValidationError('Missing Stripe-Signature header');
+      }
+
+      if (!Buffer.isBuffer(req.body)) {
+        throw errorFactory.createValidationError('Webhook payload must be the raw request body');
+      }
+
+      const result = await this.paymentService.handleWebhook(req.body, signature);
+
+      res.status(200).json({
+        success: true,
+        message: result.duplicate ? 'Webhook event already processed' : 'Webhook event processed',
+        data: { event: result.event, duplicate: Boolean(result.duplicate) },
+      } as ApiResponse<Pick<WebhookResult, 'event' | 'duplicate'>>);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -0,0 +1,111 @@
+import { Request, Response, NextFunction } from 'express'; // express@^4.18.2
+import { IPriorAuthorizationService } from '../../interfaces/prior-authorization.interface';
+import { AuthenticatedRequest } from '../../interfaces/auth.interface';
+import { createPriorAuthorizationService } from '../../services/prior-authorization.service';
+import { PriorAuthorizationSummary } from '../../types/prior-authorization.types';
+import { ApiResponse } from '../../types/response.types';
+
+/**
+ * Controller that handles HTTP requests for the prior authorizations of services plan
+ * service items
+ */
+export class PriorAuthorizationController {
+  private priorAuthorizationService: IPriorAuthorizationService;
+
+  /**
+   * Creates a new PriorAuthorizationController instance
+   * @param priorAuthorizationService
+   */
+  constructor(priorAuthorizationService: IPriorAuthorizationService = createPriorAuthorizationService()) {
+    this.priorAuthorizationService = priorAuthorizationService;
+  }
+
+  /**
+   * Lists the prior authorizations of a services plan
+   * @param req
+   * @param res
+   * @param next
+   */
+  async listPriorAuthorizations(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const authorizations = await this.priorAuthorizationService.listPriorAuthorizations(req.params.id);
+
+      res.status(200).json({
+        success: true,
+        message: 'Prior authorizations retrieved successfully',
+        data: authorizations,
+      } as ApiResponse<PriorAuthorizationSummary[]>);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Retrieves a prior authorization of a services plan
+   * @param req
+   * @param res
+   * @param next
+   */
+  async getPriorAuthorization(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const authorization = await this.priorAuthorizationService.getPriorAuthorization(
+        req.params.id,
+        req.params.priorAuthorizationId
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Prior authorization retrieved successfully',
+        data: authorization,
+      } as ApiResponse<PriorAuthorizationSummary>);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Records a prior authorization for a service item of a services plan
+   * @param req
+   * @param res
+   * @param next
+   */
+  async createPriorAuthorization(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { userId } = (req as AuthenticatedRequest).user;
+
+      const authorization = await this.priorAuthorizationService.createPriorAuthorization(req.params.id, req.body, userId);
+
+      res.status(201).json({
+        success: true,
+        message: 'Prior authorization recorded successfully',
+        data: authorization,
+      } as ApiResponse<PriorAuthorizationSummary>);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Changes a prior authorization of a services plan
+   * @param req
+   * @param res
+   * @param next
+   */
+  async updatePriorAuthorization(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const authorization = await this.priorAuthorizationService.updatePriorAuthorization(
+        req.params.id,
+        req.params.priorAuthorizationId,
+        req.body
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Prior authorization updated successfully',
+        data: authorization,
+      } as ApiResponse<PriorAuthorizationSummary>);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -1,6 +1,6 @@
-# src/backend/src/api/controllers/providers.controller.ts
 import { Request, Response, NextFunction } from 'express'; // express@^4.18.2
 import { ProvidersService } from '../../services/providers.service';
+import { createMatchFeedbackService } from '../../services/match-feedback.service';
 import {
   ProviderProfile,
   ProviderProfileUpdateDTO,
@@ -17,7 +17,6 @@ import {
 } from '../../types/provider.types';
 import {
   ProviderSearchParams,
-  ProviderMatchingDTO,
   UpdateProviderProfileDTO,
   UpdateAvailabilityDTO,
   CreateProviderReviewDTO
@@ -29,6 +28,7 @@ import {
   ProviderDTO,
   AvailabilityResponse,
   AvailabilityDTO,
+  TimeSlotDTO,
   ProviderMatchResponse,
   ProviderMatchDTO,
   ProviderReviewResponse,
@@ -38,24 +38,78 @@ import {
   ProviderServiceOptions,
   AvailabilityOptions,
   ReviewOptions,
-  CalendarSyncResult
+  CalendarSyncResult,
+  IMatchFeedbackService
 } from '../../interfaces/provider.interface';
+import { AuthenticatedRequest } from '../../interfaces/auth.interface';
 import { ServiceType } from '../../constants/service-types';
+import { Roles } from '../../constants/roles';
 import { errorFactory } from '../../utils/error-handler';
 import { logger } from '../../utils/logger';
+import { formatWithOffset } from '../../utils/date-time';
+
+/**
+ * Formats a time slot for a response with its times in the provider's timezone
+ * @param slot
+ * @param timezone
+ * @returns The time slot DTO
+ */
+function formatTimeSlot(slot: TimeSlot, timezone: string): TimeSlotDTO {
+  return {
+    ...slot,
+    startTime: formatWithOffset(new Date(slot.startTime), timezone),
+    endTime: formatWithOffset(new Date(slot.endTime), timezone)
+  };
+}
+
+/**
+ * Formats availability for a response so every time carries the UTC offset it has in
+ * the provider's timezone, which clients need to show slots correctly around DST changes
+ * @param availability
+ * @returns The availability DTO
+ */
+function formatAvailability(availability: Availability): AvailabilityDTO {
+  const { timezone } = availability;
+
+  return {
+    providerId: availability.providerId,
+    timezone,
+    slots: availability.slots.map(slot => formatTimeSlot(slot, timezone)),
+    recurringSchedule: availability.recurringSchedule,
+    exceptions: availability.exceptions.map(exception => ({
+      ...exception,
+      // Exception dates are calendar dates stored at UTC midnight
+      date: new Date(exception.date).toISOString().slice(0, 10),
+      alternativeSlots: exception.alternativeSlots
+        ? exception.alternativeSlots.map(slot => formatTimeSlot(slot, timezone))
+        : null
+    })),
+    busyPeriods: availability.busyPeriods.map(period => ({
+      startTime: formatWithOffset(new Date(period.startTime), timezone),
+      endTime: formatWithOffset(new Date(period.endTime), timezone)
+    })),
+    lastUpdated: formatWithOffset(new Date(availability.lastUpdated), timezone)
+  };
+}
 
 /**
  * Controller for handling provider-related API requests
  */
 export default class ProvidersController {
   private providersService: ProvidersService;
+  private matchFeedbackService: IMatchFeedbackService;
 
   /**
    * Creates a new ProvidersController instance
    * @param providersService
+   * @param matchFeedbackService - Records each matching request so decisions can be recorded against it
    */
-  constructor(providersService: ProvidersService) {
+  constructor(
+    providersService: ProvidersService,
+    matchFeedbackService: IMatchFeedbackService = createMatchFeedbackService()
+  ) {
     this.providersService = providersService;
+    this.matchFeedbackService = matchFeedbackService;
   }
 
   /**
@@ -70,9 +124,9 @@ export default class ProvidersController {
       const { providerId } = req.params;
 
       // Extract query parameters for options (includeServiceAreas, includeReviews, includeAvailability)
-      const includeServiceAreas = req.query.includeServiceAreas === 'true';
-      const includeReviews = req.query.includeReviews === 'true';
-      const includeAvailability = req.query.includeAvailability === 'true';
+      const includeServiceAreas = String(req.query.includeServiceAreas) === 'true';
+      const includeReviews = String(req.query.includeReviews) === 'true';
+      const includeAvailability = String(req.query.includeAvailability) === 'true';
 
       // Create ProviderServiceOptions object from query parameters
       const options: ProviderServiceOptions = {
@@ -110,6 +164,9 @@ export default class ProvidersController {
       // Extract providerId from request parameters
       const { providerId } = req.params;
 
+      // Ensure the current user may manage this provider
+      await this.ensureProviderAccess(req, providerId);
+
       // Extract update data from request body
       const updateData: UpdateProviderProfileDTO = req.body;
 
@@ -165,7 +222,7 @@ export default class ProvidersController {
       const response: AvailabilityResponse = {
         success: true,
         message: 'Provider availability retrieved successfully',
-        data: availability as AvailabilityDTO
+        data: formatAvailability(availability)
       };
 
       // Send the formatted response to the client
@@ -187,6 +244,9 @@ export default class ProvidersController {
       // Extract providerId from request parameters
       const { providerId } = req.params;
 
+      // Ensure the current user may manage this provider
+      await this.ensureProviderAccess(req, providerId);
+
       // Extract update data from request body
       const updateData: UpdateAvailabilityDTO = req.body;
 
@@ -197,7 +257,7 @@ export default class ProvidersController {
       const response: AvailabilityResponse = {
         success: true,
         message: 'Provider availability updated successfully',
-        data: updatedAvailability as AvailabilityDTO
+        data: formatAvailability(updatedAvailability)
       };
 
       // Send the formatted response to the client
@@ -216,11 +276,11 @@ export default class ProvidersController {
    */
   async searchProviders(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
-      // Extract search criteria from request query parameters
+      // Extract validated search criteria from request query parameters
       const {
         serviceTypes,
         location,
-        radius,
+        distance,
         zipCode,
         availability,
         insurance,
@@ -230,32 +290,31 @@ export default class ProvidersController {
         limit,
         sortBy,
         sortOrder
-      } = req.query;
-
-      // Parse and validate search parameters (serviceTypes, location, radius, etc.)
-      const serviceTypesArray = (serviceTypes as string)?.split(',') as ServiceType[];
-      const latitude = location ? parseFloat((location as string).split(',')[0]) : undefined;
-      const longitude = location ? parseFloat((location as string).split(',')[1]) : undefined;
-      const radiusNumber = radius ? parseFloat(radius as string) : undefined;
-      const minRatingNumber = minRating ? parseFloat(minRating as string) : undefined;
-      const specializationsArray = (specializations as string)?.split(',') as string[];
-      const pageNumber = page ? parseInt(page as string, 10) : 1;
-      const limitNumber = limit ? parseInt(limit as string, 10) : 10;
-
-      // Convert string parameters to appropriate types (numbers, arrays, dates)
+      } = req.query as Record<string, any>;
+
+      // Build the search criteria, defaulting omitted filters to null
       const searchCriteria: ProviderSearchCriteria = {
-        serviceTypes: serviceTypesArray,
-        location: latitude && longitude ? { latitude, longitude, address: '', city: '', state: '', zipCode: '' } : null,
-        distance: radiusNumber || null,
-        zipCode: zipCode as string || null,
-        availability: availability ? { startDate: new Date(), endDate: new Date() } : null, // TODO: Implement date parsing
-        insurance: insurance as string || null,
-        minRating: minRatingNumber || null,
-        specializations: specializationsArray || null,
-        page: pageNumber,
-        limit: limitNumber,
-        sortBy: sortBy as string || 'createdAt',
-        sortOrder: sortOrder as 'asc' | 'desc' || 'desc'
+        serviceTypes: serviceTypes || [],
+        location: location
+          ? {
+              latitude: location.latitude,
+              longitude: location.longitude,
+              address: location.address || '',
+              city: location.city || '',
+              state: location.state || '',
+              zipCode: location.zipCode || ''
+            }
+          : null,
+        distance: distance ?? null,
+        zipCode: zipCode ?? null,
+        availability: availability ?? null,
+        insurance: insurance ?? null,
+        minRating: minRating ?? null,
+        specializations: specializations ?? null,
+        page,
+        limit,
+        sortBy,
+        sortOrder
       };
 
       // Call providersService.searchProviders with the search criteria
@@ -285,30 +344,31 @@ export default class ProvidersController {
    */
   async matchProviders(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
-      // Extract matching criteria from request body
-      const matchingCriteria: ProviderMatchingDTO = req.body;
+      // Extract validated matching criteria from request body
+      const { location, ...matchingCriteria } = req.body;
 
-      // Validate required fields (clientId, serviceTypes)
-      if (!matchingCriteria.clientId || !matchingCriteria.serviceTypes) {
-        throw errorFactory.createValidationError('clientId and serviceTypes are required');
-      }
+      const { userId, role } = (req as AuthenticatedRequest).user;
 
       // Create ProviderMatchingCriteria object from request data
       const criteria: ProviderMatchingCriteria = {
-        clientId: matchingCriteria.clientId,
-        serviceTypes: matchingCriteria.serviceTypes,
-        location: matchingCriteria.location,
-        distance: matchingCriteria.distance,
-        availability: matchingCriteria.requiredAvailability,
-        insurance: matchingCriteria.insuranceAccepted,
-        genderPreference: matchingCriteria.clientPreferences?.genderPreference,
-        languagePreference: matchingCriteria.clientPreferences?.languagePreference,
-        experienceLevel: matchingCriteria.clientPreferences?.experienceLevel,
-        additionalPreferences: matchingCriteria.clientPreferences?.additionalPreferences || {}
+        ...matchingCriteria,
+        location: location
+          ? {
+              latitude: location.latitude,
+              longitude: location.longitude,
+              address: location.address || '',
+              city: location.city || '',
+              state: location.state || '',
+              zipCode: location.zipCode || ''
+            }
+          : null
       };
 
-      // Call providersService.matchProviders with the matching criteria
-      const providerMatches: ProviderMatch[] = await this.providersService.matchProviders(criteria);
+      // Call providersService.matchProviders with the matching criteria; it checks that the user may match for the client
+      const providerMatches: ProviderMatch[] = await this.providersService.matchProviders(criteria, userId, role);
+
+      // Record the ranking so that accept, reject and override decisions can be recorded against it
+      const session = await this.matchFeedbackService.recordSession(criteria, providerMatches, userId);
 
       // Format the matching results as a ProviderMatchResponse
       const response: ProviderMatchResponse = {
@@ -316,7 +376,8 @@ export default class ProvidersController {
         message: 'Providers matched successfully',
         data: {
           matches: providerMatches as ProviderMatchDTO[],
-          totalMatches: providerMatches.length
+          totalMatches: providerMatches.length,
+          matchSessionId: session.id
         }
       };
 
@@ -384,16 +445,22 @@ export default class ProvidersController {
    */
   async submitReview(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
+      // Extract providerId from request parameters
+      const { providerId } = req.params;
+
       // Extract review data from request body
       const reviewData: CreateProviderReviewDTO = req.body;
 
-      // Get clientId from authenticated user in request
-      const clientId = 'user-123'; // TODO: Replace with actual user ID from authentication
+      // Get clientId from authenticated user in request; only clients can review providers
+      const { userId: clientId, role } = (req as AuthenticatedRequest).user;
+      if (role !== Roles.CLIENT) {
+        throw errorFactory.createForbiddenError('Only clients can submit provider reviews');
+      }
 
       // Create ReviewSubmissionDTO with clientId and review data
       const reviewSubmission: ReviewSubmissionDTO = {
-        providerId: reviewData.providerId,
-        clientId: clientId,
+        providerId,
+        clientId,
         rating: reviewData.rating,
         comment: reviewData.comment,
         serviceDate: reviewData.serviceDate,
@@ -458,6 +525,9 @@ export default class ProvidersController {
       // Extract providerId from request parameters
       const { providerId } = req.params;
 
+      // Ensure the current user may manage this provider
+      await this.ensureProviderAccess(req, providerId);
+
       // Extract service areas data from request body
       const serviceAreas: ServiceArea[] = req.body;
 
@@ -490,11 +560,14 @@ export default class ProvidersController {
       // Extract providerId from request parameters
       const { providerId } = req.params;
 
-      // Extract calendar provider and calendar ID from request body
-      const { calendarProvider, calendarId } = req.body;
+      // Ensure the current user may manage this provider
+      await this.ensureProviderAccess(req, providerId);
+
+      // Extract calendar type and calendar ID from request body
+      const { calendarType, calendarId } = req.body;
 
-      // Call providersService.syncCalendar with providerId, calendar provider, and calendar ID
-      const syncResult: CalendarSyncResult = await this.providersService.syncCalendar(providerId, calendarProvider, calendarId);
+      // Call providersService.syncCalendar with providerId, calendar type, and calendar ID
+      const syncResult: CalendarSyncResult = await this.providersService.syncCalendar(providerId, calendarType, calendarId);
 
       // Format the synchronization result as an ApiResponse
       const response: ApiResponse<CalendarSyncResult> = {
@@ -593,4 +666,24 @@ export default class ProvidersController {
       next(error);
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Ensures the current user may manage the given provider's profile
+   * @param req
+   * @param providerId
+   */
+  private async ensureProviderAccess(req: Request, providerId: string): Promise<void> {
+    const { userId, role } = (req as AuthenticatedRequest).user;
+
+    // Administrators may manage any provider
+    if (role === Roles.ADMINISTRATOR) {
+      return;
+    }
+
+    // Providers may only manage their own profile
+    const providerProfile = await this.providersService.getProviderProfile(providerId);
+    if (role !== Roles.PROVIDER || providerProfile.userId !== userId) {
+      throw errorFactory.createForbiddenError('You do not have permission to manage this provider');
+    }
+  }
+}
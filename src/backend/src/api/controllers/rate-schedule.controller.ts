@@ -0,0 +1,123 @@
+import { Request, Response, NextFunction } from 'express'; // express@^4.18.2
+import { IRateScheduleService } from '../../interfaces/rate-schedule.interface';
+import { AuthenticatedRequest } from '../../interfaces/auth.interface';
+import { createRateScheduleService } from '../../services/rate-schedule.service';
+import { RateSchedule, RateScheduleFilters } from '../../types/rate-schedule.types';
+import { ApiResponse } from '../../types/response.types';
+
+/**
+ * Controller that handles HTTP requests for the rate schedules used to estimate service costs
+ */
+export class RateScheduleController {
+  private rateScheduleService: IRateScheduleService;
+
+  /**
+   * Creates a new RateScheduleController instance
+   * @param rateScheduleService
+   */
+  constructor(rateScheduleService: IRateScheduleService = createRateScheduleService()) {
+    this.rateScheduleService = rateScheduleService;
+  }
+
+  /**
+   * Lists rate schedules
+   * @param req
+   * @param res
+   * @param next
+   */
+  async listRateSchedules(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const schedules = await this.rateScheduleService.listRateSchedules(req.query as RateScheduleFilters);
+
+      res.status(200).json({
+        success: true,
+        message: 'Rate schedules retrieved successfully',
+        data: schedules,
+      } as ApiResponse<RateSchedule[]>);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Retrieves a rate schedule
+   * @param req
+   * @param res
+   * @param next
+   */
+  async getRateSchedule(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const schedule = await this.rateScheduleService.getRateSchedule(req.params.id);
+
+      res.status(200).json({
+        success: true,
+        message: 'Rate schedule retrieved successfully',
+        data: schedule,
+      } as ApiResponse<RateSchedule>);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Creates a rate schedule
+   * @param req
+   * @param res
+   * @param next
+   */
+  async createRateSchedule(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { userId } = (req as AuthenticatedRequest).user;
+
+      const schedule = await this.rateScheduleService.createRateSchedule(req.body, userId);
+
+      res.status(201).json({
+        success: true,
+        message: 'Rate schedule created successfully',
+        data: schedule,
+      } as ApiResponse<RateSchedule>);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Changes a rate schedule
+   * @param req
+   * @param res
+   * @param next
+   */
+  async updateRateSchedule(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const schedule = await this.rateScheduleService.updateRateSchedule(req.params.id, req.body);
+
+      res.status(200).json({
+        success: true,
+        message: 'Rate schedule updated successfully',
+        data: schedule,
+      } as ApiResponse<RateSchedule>);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Deletes a rate schedule
+   * @param req
+   * @param res
+   * @param next
+   */
+  async deleteRateSchedule(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      await this.rateScheduleService.deleteRateSchedule(req.params.id);
+
+      res.status(200).json({
+        success: true,
+        message: 'Rate schedule deleted successfully',
+        data: null,
+      } as ApiResponse<null>);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
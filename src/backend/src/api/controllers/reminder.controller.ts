@@ -0,0 +1,55 @@
+import { Request, Response, NextFunction } from 'express'; // express@^4.18.2
+import { IReminderService } from '../../interfaces/reminder.interface';
+import { createReminderService } from '../../services/reminder.service';
+
+/**
+ * Escapes text for use as XML content
+ * @param text - The text
+ * @returns The escaped text
+ */
+const escapeXml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+/**
+ * Controller that handles clients' SMS replies to appointment reminders
+ */
+export class ReminderController {
+  private reminderService: IReminderService;
+
+  /**
+   * Creates a new ReminderController instance
+   * @param reminderService
+   */
+  constructor(reminderService: IReminderService = createReminderService()) {
+    this.reminderService = reminderService;
+  }
+
+  /**
+   * Handles an inbound SMS from Twilio and replies to the client with TwiML
+   * @param req
+   * @param res
+   * @param next
+   */
+  async handleSmsReply(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const reply = await this.reminderService.handleSmsReply({
+        body: req.body || {},
+        // Twilio signs the full URL it posted to, so the path is passed on for verification
+        headers: { ...(req.headers as Record<string, string>), 'x-original-url': req.originalUrl },
+        timestamp: Date.now()
+      });
+
+      res
+        .status(200)
+        .type('text/xml')
+        .send(`<?xml version="1.0" encoding="UTF-8"?><Response><Message>${escapeXml(reply)}</Message></Response>`);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -12,7 +12,13 @@ import {
   ApproveServicesPlanDTO,
   GenerateServicesPlanDTO,
   ServicesPlanFilterParams,
+  ServiceItemUtilization,
 } from '../../types/services-plan.types';
+import {
+  AssessmentInstrumentCode,
+  AssessmentInstrumentSummary,
+  InstrumentScoreTrend,
+} from '../../types/assessment-instrument.types';
 import {
   ApiResponse, ServicesPlanResponse, NeedsAssessmentResponse, PaginatedResponse
 } from '../../types/response.types';
@@ -114,6 +120,82 @@ export class ServicesPlanController {
     }
   }
 
+  /**
+   * Retrieves a client's standardized instrument scores trended across their needs assessments
+   * @param req 
+   * @param res 
+   * @param next 
+   */
+  async getAssessmentScoreTrends(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Extract client ID from request parameters
+      const { clientId } = req.params;
+
+      // Call service to trend the client's instrument scores
+      const trends = await this.servicesPlanService.getAssessmentScoreTrends(clientId);
+
+      // Return success response with score trends
+      res.status(200).json({
+        success: true,
+        message: 'Assessment score trends retrieved successfully',
+        data: trends,
+      } as ApiResponse<InstrumentScoreTrend[]>);
+    } catch (error) {
+      // Catch and forward any errors to error middleware
+      next(error);
+    }
+  }
+
+  /**
+   * Lists the standardized assessment instruments with the JSON schemas of their responses
+   * @param _req 
+   * @param res 
+   * @param next 
+   */
+  getAssessmentInstruments(_req: Request, res: Response, next: NextFunction): void {
+    try {
+      // Call service to list the latest version of each instrument
+      const instruments = this.servicesPlanService.getAssessmentInstruments();
+
+      // Return success response with instruments
+      res.status(200).json({
+        success: true,
+        message: 'Assessment instruments retrieved successfully',
+        data: instruments,
+      } as ApiResponse<AssessmentInstrumentSummary[]>);
+    } catch (error) {
+      // Catch and forward any errors to error middleware
+      next(error);
+    }
+  }
+
+  /**
+   * Retrieves a version of a standardized assessment instrument
+   * @param req 
+   * @param res 
+   * @param next 
+   */
+  getAssessmentInstrument(req: Request, res: Response, next: NextFunction): void {
+    try {
+      // Extract instrument code from request parameters and version from the query
+      const code = req.params.code as AssessmentInstrumentCode;
+      const version = req.query.version !== undefined ? Number(req.query.version) : undefined;
+
+      // Call service to retrieve the instrument
+      const instrument = this.servicesPlanService.getAssessmentInstrument(code, version);
+
+      // Return success response with instrument
+      res.status(200).json({
+        success: true,
+        message: 'Assessment instrument retrieved successfully',
+        data: instrument,
+      } as ApiResponse<AssessmentInstrumentSummary>);
+    } catch (error) {
+      // Catch and forward any errors to error middleware
+      next(error);
+    }
+  }
+
   /**
    * Creates a new services plan
    * @param req 
@@ -337,6 +419,32 @@ export class ServicesPlanController {
     }
   }
 
+  /**
+   * Retrieves the planned and delivered units of each item of a services plan
+   * @param req 
+   * @param res 
+   * @param next 
+   */
+  async getServiceItemUtilization(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Extract services plan ID from request parameters
+      const { id } = req.params;
+
+      // Call service to compare planned and delivered units
+      const utilization = await this.servicesPlanService.getServiceItemUtilization(id);
+
+      // Return success response with the utilization of each service item
+      res.status(200).json({
+        success: true,
+        message: 'Service utilization retrieved successfully',
+        data: utilization,
+      } as ApiResponse<ServiceItemUtilization[]>);
+    } catch (error) {
+      // Catch and forward any errors to error middleware
+      next(error);
+    }
+  }
+
   /**
    * Identifies potential funding sources for a client's services plan
    * @param req 
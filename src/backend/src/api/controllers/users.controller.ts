@@ -450,6 +450,44 @@ export const reactivateUser = async (
   }
 };
 
+/**
+ * Changes the role of a user (admin access).
+ *
+ * @param req - The Express Request object, extended with user information from authentication middleware.
+ * @param res - The Express Response object.
+ * @param next - The Express NextFunction for error handling.
+ * @returns A Promise that resolves to void, sending a JSON response with the updated user.
+ */
+export const updateUserRole = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    // Extract target user ID from request parameters
+    const userId = req.params.id;
+
+    // Extract the new role from request body
+    const { role } = req.body;
+
+    // Call userService.changeUserRole with target user ID, new role and the acting administrator
+    const updatedUser: UserWithoutPassword = await userService.changeUserRole(userId, role, req.user.userId);
+
+    // Transform the result into an ApiResponse
+    const response: ApiResponse<UserWithoutPassword> = {
+      success: true,
+      message: 'User role updated successfully',
+      data: updatedUser,
+    };
+
+    // Send the response with 200 status code
+    res.status(200).json(response);
+  } catch (error: any) {
+    // Catch and forward any errors to the error handling middleware
+    handleError(error, next);
+  }
+};
+
 /**
  * Helper function to handle and log errors in controller functions.
  *
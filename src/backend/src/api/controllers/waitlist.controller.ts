@@ -0,0 +1,221 @@
+import { Request, Response, NextFunction } from 'express'; // express@^4.18.2
+import { IWaitlistService } from '../../interfaces/waitlist.interface';
+import { AuthenticatedRequest } from '../../interfaces/auth.interface';
+import { createWaitlistService } from '../../services/waitlist.service';
+import { createBookingsService } from '../../services/bookings.service';
+import { ServiceType } from '../../constants/service-types';
+import {
+  CreateWaitlistEntryDTO,
+  WaitlistEntry,
+  WaitlistEntryFilters,
+  WaitlistEntryWithEstimate,
+  WaitlistOffer,
+  WaitlistOfferFilters,
+  WaitTimeEstimate
+} from '../../types/waitlist.types';
+import { ApiResponse } from '../../types/response.types';
+
+/**
+ * Controller that handles HTTP requests for provider waitlists and the slots offered from them
+ */
+export class WaitlistController {
+  private waitlistService: IWaitlistService;
+
+  /**
+   * Creates a new WaitlistController instance
+   * @param waitlistService
+   */
+  constructor(waitlistService: IWaitlistService = createWaitlistService(createBookingsService())) {
+    this.waitlistService = waitlistService;
+  }
+
+  /**
+   * Adds a client to a provider's waitlist
+   * @param req
+   * @param res
+   * @param next
+   */
+  async joinWaitlist(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const entryData: CreateWaitlistEntryDTO = req.body;
+
+      const { userId, role } = (req as AuthenticatedRequest).user;
+
+      const entry = await this.waitlistService.joinWaitlist(entryData, userId, role);
+
+      res.status(201).json({
+        success: true,
+        message: 'Client added to waitlist successfully',
+        data: entry,
+      } as ApiResponse<WaitlistEntryWithEstimate>);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Retrieves waitlist entries visible to the current user
+   * @param req
+   * @param res
+   * @param next
+   */
+  async getEntries(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const filters = req.query as unknown as WaitlistEntryFilters;
+
+      const { userId, role } = (req as AuthenticatedRequest).user;
+
+      const entries = await this.waitlistService.getEntries(filters, userId, role);
+
+      res.status(200).json({
+        success: true,
+        message: 'Waitlist entries retrieved successfully',
+        data: entries,
+      } as ApiResponse<WaitlistEntry[]>);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Retrieves a waitlist entry with its place in the queue and estimated wait
+   * @param req
+   * @param res
+   * @param next
+   */
+  async getEntryById(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { entryId } = req.params;
+
+      const { userId, role } = (req as AuthenticatedRequest).user;
+
+      const entry = await this.waitlistService.getEntryById(entryId, userId, role);
+
+      res.status(200).json({
+        success: true,
+        message: 'Waitlist entry retrieved successfully',
+        data: entry,
+      } as ApiResponse<WaitlistEntryWithEstimate>);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Removes a client from a waitlist
+   * @param req
+   * @param res
+   * @param next
+   */
+  async cancelEntry(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { entryId } = req.params;
+
+      const { userId, role } = (req as AuthenticatedRequest).user;
+
+      const entry = await this.waitlistService.cancelEntry(entryId, userId, role);
+
+      res.status(200).json({
+        success: true,
+        message: 'Waitlist entry cancelled successfully',
+        data: entry,
+      } as ApiResponse<WaitlistEntry>);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Estimates how long a client joining a provider's waitlist now would wait
+   * @param req
+   * @param res
+   * @param next
+   */
+  async getWaitEstimate(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { providerId, serviceType } = req.query as unknown as { providerId: string; serviceType: ServiceType };
+
+      const estimate = await this.waitlistService.estimateWaitTime(providerId, serviceType);
+
+      res.status(200).json({
+        success: true,
+        message: 'Wait time estimated successfully',
+        data: estimate,
+      } as ApiResponse<WaitTimeEstimate>);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Retrieves waitlist offers visible to the current user
+   * @param req
+   * @param res
+   * @param next
+   */
+  async getOffers(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const filters = req.query as unknown as WaitlistOfferFilters;
+
+      const { userId, role } = (req as AuthenticatedRequest).user;
+
+      const offers = await this.waitlistService.getOffers(filters, userId, role);
+
+      res.status(200).json({
+        success: true,
+        message: 'Waitlist offers retrieved successfully',
+        data: offers,
+      } as ApiResponse<WaitlistOffer[]>);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Books the slot held by a waitlist offer
+   * @param req
+   * @param res
+   * @param next
+   */
+  async acceptOffer(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { offerId } = req.params;
+
+      const { userId, role } = (req as AuthenticatedRequest).user;
+
+      const offer = await this.waitlistService.acceptOffer(offerId, userId, role);
+
+      res.status(200).json({
+        success: true,
+        message: 'Waitlist offer accepted successfully',
+        data: offer,
+      } as ApiResponse<WaitlistOffer>);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Declines a waitlist offer
+   * @param req
+   * @param res
+   * @param next
+   */
+  async declineOffer(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { offerId } = req.params;
+
+      const { userId, role } = (req as AuthenticatedRequest).user;
+
+      const offer = await this.waitlistService.declineOffer(offerId, userId, role);
+
+      res.status(200).json({
+        success: true,
+        message: 'Waitlist offer declined successfully',
+        data: offer,
+      } as ApiResponse<WaitlistOffer>);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
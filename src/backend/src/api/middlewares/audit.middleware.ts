@@ -0,0 +1,128 @@
+/**
+ * Audit trail middleware for the Revolucare platform.
+ *
+ * Records who read or changed protected records (client records, care plans,
+ * services plans, documents and user roles) once the response has been sent
+ * successfully, including a before/after diff for changes.
+ */
+
+import { Request, Response, NextFunction, RequestHandler } from 'express'; // express@4.18.2
+import { AuditContext, IAuditService } from '../../interfaces/audit.interface';
+import { AuthenticatedRequest } from '../../interfaces/auth.interface';
+import { AuditAction, AuditResourceType } from '../../models/audit-log.model';
+import { createAuditService } from '../../services/audit.service';
+import { getCorrelationId, logger } from '../../utils/logger';
+
+import { asyncHandler } from './error.middleware';
+
+/**
+ * Options describing what a route's audit entry should record
+ */
+export interface AuditTrailOptions {
+  action: AuditAction;
+  resourceType: AuditResourceType;
+  // Resolves the resource ID; defaults to the `id` route parameter or the ID of the returned record
+  getResourceId?: (req: Request, data: any) => string | null | undefined;
+  // Resolves the client the record belongs to; defaults to `clientId` of the record or route
+  getSubjectId?: (req: Request, data: any, before: Record<string, any> | null) => string | null | undefined;
+  // Loads the resource before it is changed so the entry can include a before/after diff
+  loadBefore?: (req: Request) => Promise<Record<string, any> | null>;
+}
+
+// Shared audit service used when routes do not supply their own
+let defaultAuditService: IAuditService | null = null;
+
+/**
+ * Extracts the actor and request details recorded with every audit entry
+ *
+ * @param req - Express request object
+ * @returns Audit context for the request
+ */
+export function getAuditContext(req: Request): AuditContext {
+  const user = (req as AuthenticatedRequest).user;
+
+  return {
+    actorId: user?.userId || null,
+    actorRole: user?.role || null,
+    ipAddress: req.ip || null,
+    userAgent: (req.headers['user-agent'] as string) || null,
+    requestId: getCorrelationId() || (req.headers['x-request-id'] as string) || null
+  };
+}
+
+/**
+ * Middleware factory that records an audit entry for successful requests
+ *
+ * @param options - What the audit entry should record
+ * @param auditService - Audit service to record with (defaults to a shared instance)
+ * @returns Middleware function that records the request in the audit trail
+ */
+export function auditTrail(options: AuditTrailOptions, auditService?: IAuditService): RequestHandler {
+  return asyncHandler(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const service = auditService || (defaultAuditService = defaultAuditService || createAuditService());
+
+    // Snapshot the resource before it is changed
+    let before: Record<string, any> | null = null;
+    if (options.loadBefore) {
+      try {
+        before = await options.loadBefore(req);
+      } catch (error) {
+        logger.warn('Unable to load resource state for audit trail', {
+          resourceType: options.resourceType,
+          path: req.originalUrl,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+
+    // Capture the response payload so the entry reflects what was returned or stored
+    let responseBody: any;
+    const originalJson = res.json.bind(res);
+    res.json = (body: any) => {
+      responseBody = body;
+      return originalJson(body);
+    };
+
+    res.on('finish', () => {
+      // Only successful requests disclosed or changed anything
+      if (res.statusCode >= 400) {
+        return;
+      }
+
+      const data = responseBody?.data ?? null;
+      const record = data && !Array.isArray(data) ? data : null;
+
+      const resourceId = options.getResourceId
+        ? options.getResourceId(req, data)
+        : req.params.id || req.params.documentId || record?.id;
+
+      const subjectId = options.getSubjectId
+        ? options.getSubjectId(req, data, before)
+        : record?.clientId || before?.clientId || req.params.clientId;
+
+      const entry = {
+        ...getAuditContext(req),
+        action: options.action,
+        resourceType: options.resourceType,
+        resourceId: resourceId || null,
+        subjectId: subjectId || null,
+        metadata: {
+          method: req.method,
+          path: req.originalUrl,
+          statusCode: res.statusCode,
+          // For list reads, record exactly which records were disclosed
+          ...(Array.isArray(data) ? { resultIds: data.map((item: any) => item?.id).filter(Boolean) } : {})
+        }
+      };
+
+      const write = options.action === AuditAction.READ
+        ? service.record(entry)
+        : service.recordChange(entry, before, options.action === AuditAction.DELETE ? null : record);
+
+      // The audit service logs its own failures; never let them surface here
+      write.catch(() => undefined);
+    });
+
+    next();
+  });
+}
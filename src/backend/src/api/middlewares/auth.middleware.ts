@@ -13,12 +13,17 @@ import { errorFactory } from '../../utils/error-handler';
 import { ErrorCodes } from '../../constants/error-codes';
 import { Roles, RoleHierarchy } from '../../constants/roles';
 import { UserContext, AuthenticatedRequest } from '../../interfaces/auth.interface';
+import { IPermissionService } from '../../interfaces/permission.interface';
+import { createPermissionService, getRolePermissions } from '../../services/permissions.service';
 import { logger } from '../../utils/logger';
 
 // Constants for token retrieval
 const TOKEN_HEADER = 'Authorization';
 const TOKEN_PREFIX = 'Bearer ';
 
+// Permission service shared by permission checks, created on first use
+let sharedPermissionService: IPermissionService | null = null;
+
 /**
  * Middleware that authenticates requests by verifying JWT tokens
  * 
@@ -55,9 +60,8 @@ export function authenticate(req: Request, res: Response, next: NextFunction): v
     // Extract user context from token payload
     const { userId, email, role, isVerified } = verificationResult.payload;
     
-    // Get the permissions for this role (would normally come from a permissions service)
-    // For now we'll just use an empty array since we don't have the actual permissions implementation
-    const permissions: string[] = [];
+    // Get the default permissions for this role; administrator grants are resolved by requirePermission
+    const permissions = getRolePermissions(role);
     
     // Create user context
     const userContext: UserContext = {
@@ -180,6 +184,77 @@ export function hasPermission(requiredPermissions: string[]) {
   };
 }
 
+/**
+ * Middleware factory that creates permission-based authorization middleware using the
+ * user's effective permissions: role defaults, permissions inherited through the role
+ * hierarchy and permissions granted to administrators on their admin profile.
+ * 
+ * @param requiredPermissions - Permissions the user must all hold, e.g. 'edit:care-plans'
+ * @returns Middleware function that checks if user has required permissions
+ */
+export function requirePermission(...requiredPermissions: string[]) {
+  return (req: Request, _res: Response, next: NextFunction): void => {
+    // Check if request has been authenticated
+    const authReq = req as AuthenticatedRequest;
+    if (!authReq.user) {
+      logger.debug('Permission check failed: User not authenticated');
+      next(errorFactory.createUnauthorizedError(
+        'Authentication required', 
+        { source: req.originalUrl }
+      ));
+      return;
+    }
+
+    const { userId, role } = authReq.user;
+
+    getPermissionService()
+      .hasPermissions(userId, role, requiredPermissions)
+      .then(hasAllPermissions => {
+        if (!hasAllPermissions) {
+          logger.debug('Permission check failed: Missing required permissions', {
+            userId,
+            userRole: role,
+            requiredPermissions,
+            source: req.originalUrl
+          });
+          throw errorFactory.createForbiddenError(
+            'You do not have the required permissions to access this resource',
+            { requiredPermissions }
+          );
+        }
+
+        logger.debug('Permission check successful', { 
+          userId, 
+          requiredPermissions 
+        });
+        next();
+      })
+      .catch(next);
+  };
+}
+
+/**
+ * Replaces the permission service used by requirePermission
+ * 
+ * @param permissionService - Permission service to use
+ */
+export function setPermissionService(permissionService: IPermissionService): void {
+  sharedPermissionService = permissionService;
+}
+
+/**
+ * Gets the permission service used by requirePermission, creating it on first use
+ * 
+ * @returns Shared permission service
+ */
+function getPermissionService(): IPermissionService {
+  if (!sharedPermissionService) {
+    sharedPermissionService = createPermissionService();
+  }
+
+  return sharedPermissionService;
+}
+
 /**
  * Helper function to extract JWT token from request
  * 
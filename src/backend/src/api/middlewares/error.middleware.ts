@@ -7,7 +7,7 @@
  * @module api/middlewares/error.middleware
  */
 
-import { Request, Response, NextFunction } from 'express'; // express@4.18.2
+import { Request, Response, NextFunction, RequestHandler } from 'express'; // express@4.18.2
 import { isAppError, formatErrorResponse, logError, errorFactory } from '../../utils/error-handler';
 import { AppError, ErrorHandlerOptions } from '../../interfaces/error.interface';
 import { ErrorCodes, ErrorCategories } from '../../constants/error-codes';
@@ -96,4 +96,19 @@ export const notFoundMiddleware = (
   
   // Pass the error to the next middleware (which will be the error handler)
   next(notFoundError);
-};
\ No newline at end of file
+};
+/**
+ * Wraps an async route handler or middleware for use with Express, which ignores the
+ * promise a handler returns. A rejected promise is passed to the next middleware so
+ * that it reaches the error handler.
+ * 
+ * @param handler - Async route handler or middleware
+ * @returns Express request handler that runs the async handler
+ */
+export const asyncHandler = <Req extends Request = Request>(
+  handler: (req: Req, res: Response, next: NextFunction) => Promise<unknown>
+): RequestHandler => {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    handler(req as Req, res, next).catch(next);
+  };
+};
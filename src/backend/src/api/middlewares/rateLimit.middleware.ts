@@ -18,12 +18,22 @@ const DEFAULT_RATE_LIMIT_OPTIONS = {
 };
 
 // Endpoint-specific rate limits
-const ENDPOINT_SPECIFIC_LIMITS = {
+const ENDPOINT_SPECIFIC_LIMITS: Record<string, RateLimitOptions> = {
   '/api/auth/login': {
     limit: 20,
     windowSeconds: 60,
     burstLimit: 5
   },
+  '/api/auth/mfa/verify': {
+    limit: 20,
+    windowSeconds: 60,
+    burstLimit: 5
+  },
+  '/api/auth/mfa/enroll': {
+    limit: 20,
+    windowSeconds: 60,
+    burstLimit: 5
+  },
   '/api/auth/register': {
     limit: 10,
     windowSeconds: 60,
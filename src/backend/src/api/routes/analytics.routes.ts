@@ -1,15 +1,18 @@
 import express from 'express'; // express@^4.18.2
 import analyticsController from '../controllers/analytics.controller';
-import { authenticate, authorize } from '../middlewares/auth.middleware';
-import { validateQuery, validateBody } from '../middlewares/validation.middleware';
+import { authenticate, requirePermission } from '../middlewares/auth.middleware';
+import { asyncHandler } from '../middlewares/error.middleware';
+import { validateQuery, validateBody, validateParams } from '../middlewares/validation.middleware';
 import { 
   metricsRequestSchema, 
   dashboardRequestSchema, 
   reportRequestSchema, 
   exportRequestSchema, 
-  analyticsEventSchema 
+  analyticsEventSchema, 
+  createReportScheduleSchema, 
+  updateReportScheduleSchema, 
+  reportScheduleParamsSchema 
 } from '../validators/analytics.validator';
-import { Roles } from '../../constants/roles';
 
 /**
  * Creates and configures the Express router for analytics endpoints
@@ -23,7 +26,7 @@ function createAnalyticsRouter(): express.Router {
   router.get(
     '/metrics',
     authenticate,
-    authorize([Roles.ADMINISTRATOR, Roles.CASE_MANAGER, Roles.PROVIDER, Roles.CLIENT]),
+    requirePermission('view:own-analytics'),
     validateQuery(metricsRequestSchema),
     analyticsController.getMetrics
   );
@@ -32,7 +35,7 @@ function createAnalyticsRouter(): express.Router {
   router.get(
     '/dashboard',
     authenticate,
-    authorize([Roles.ADMINISTRATOR, Roles.CASE_MANAGER, Roles.PROVIDER, Roles.CLIENT]),
+    requirePermission('view:own-analytics'),
     validateQuery(dashboardRequestSchema),
     analyticsController.getDashboard
   );
@@ -41,16 +44,57 @@ function createAnalyticsRouter(): express.Router {
   router.post(
     '/reports',
     authenticate,
-    authorize([Roles.ADMINISTRATOR, Roles.CASE_MANAGER]),
+    requirePermission('generate:reports'),
     validateBody(reportRequestSchema),
     analyticsController.generateReport
   );
 
+  // Configure report schedule endpoints for saved report definitions delivered by email
+  router.post(
+    '/reports/schedules',
+    authenticate,
+    requirePermission('generate:reports'),
+    validateBody(createReportScheduleSchema),
+    asyncHandler(analyticsController.createReportSchedule)
+  );
+
+  router.get(
+    '/reports/schedules',
+    authenticate,
+    requirePermission('generate:reports'),
+    asyncHandler(analyticsController.getReportSchedules)
+  );
+
+  router.get(
+    '/reports/schedules/:id',
+    authenticate,
+    requirePermission('generate:reports'),
+    validateParams(reportScheduleParamsSchema),
+    asyncHandler(analyticsController.getReportSchedule)
+  );
+
+  router.put(
+    '/reports/schedules/:id',
+    authenticate,
+    requirePermission('generate:reports'),
+    validateParams(reportScheduleParamsSchema),
+    validateBody(updateReportScheduleSchema),
+    asyncHandler(analyticsController.updateReportSchedule)
+  );
+
+  router.delete(
+    '/reports/schedules/:id',
+    authenticate,
+    requirePermission('generate:reports'),
+    validateParams(reportScheduleParamsSchema),
+    asyncHandler(analyticsController.deleteReportSchedule)
+  );
+
   // Configure POST /export endpoint with authentication, authorization, validation, and controller
   router.post(
     '/export',
     authenticate,
-    authorize([Roles.ADMINISTRATOR, Roles.CASE_MANAGER]),
+    requirePermission('generate:reports'),
     validateBody(exportRequestSchema),
     analyticsController.exportData
   );
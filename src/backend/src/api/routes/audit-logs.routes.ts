@@ -0,0 +1,43 @@
+import { Router } from 'express'; // express@^4.18.2
+import { AuditLogsController } from '../controllers/audit-logs.controller';
+import { authenticate, requirePermission } from '../middlewares/auth.middleware';
+import { asyncHandler } from '../middlewares/error.middleware';
+import { validateQuery } from '../middlewares/validation.middleware';
+import { auditLogFilterSchema, auditLogExportSchema } from '../validators/audit-logs.validator';
+import { createAuditService } from '../../services/audit.service';
+
+/**
+ * Creates and configures an Express router for audit log endpoints
+ * @returns Configured Express router with audit log routes
+ */
+const createAuditLogsRouter = (): Router => {
+  // Create a new Express Router instance
+  const router = Router();
+
+  // Initialize the audit logs controller with the audit service
+  const auditLogsController = new AuditLogsController(createAuditService());
+
+  // Route for querying the audit trail with filtering and pagination
+  router.get(
+    '/',
+    authenticate,
+    requirePermission('view:audit-logs'),
+    validateQuery(auditLogFilterSchema),
+    asyncHandler((req, res, next) => auditLogsController.getAuditLogs(req, res, next))
+  );
+
+  // Route for exporting the audit trail as CSV or JSON
+  router.get(
+    '/export',
+    authenticate,
+    requirePermission('view:audit-logs'),
+    validateQuery(auditLogExportSchema),
+    asyncHandler((req, res, next) => auditLogsController.exportAuditLogs(req, res, next))
+  );
+
+  // Return the configured router
+  return router;
+};
+
+// Export the router factory function as the default export
+export default createAuditLogsRouter;
@@ -1,7 +1,9 @@
 import express, { Router } from 'express'; // express@^4.18.2
 import { AuthController, createAuthController } from '../controllers/auth.controller';
-import { authenticate, authorize } from '../middlewares/auth.middleware';
-import { validateBody } from '../middlewares/validation.middleware';
+import { authenticate, requirePermission } from '../middlewares/auth.middleware';
+import { asyncHandler } from '../middlewares/error.middleware';
+import { rateLimitMiddleware } from '../middlewares/rateLimit.middleware';
+import { validateBody, validateParams } from '../middlewares/validation.middleware';
 import {
   registerSchema,
   loginSchema,
@@ -11,8 +13,13 @@ import {
   passwordResetConfirmSchema,
   changePasswordSchema,
   resendVerificationEmailSchema,
+  mfaVerifySchema,
+  mfaEnrollSchema,
+  mfaEnableSchema,
+  mfaCodeSchema,
+  mfaPolicyParamsSchema,
+  mfaPolicyUpdateSchema,
 } from '../validators/auth.validator';
-import { Roles } from '../../constants/roles';
 
 /**
  * Creates and configures the authentication router with all auth-related endpoints
@@ -40,6 +47,22 @@ export default function createAuthRouter(AuthService: any): Router {
     (req, res, next) => authController.login(req, res, next)
   );
 
+  // Define POST /mfa/verify route with rate limiting and validation for completing a two-step login
+  router.post(
+    '/mfa/verify',
+    asyncHandler(rateLimitMiddleware()),
+    validateBody(mfaVerifySchema),
+    asyncHandler((req, res, next) => authController.verifyMfa(req, res, next))
+  );
+
+  // Define POST /mfa/enroll route with rate limiting and validation for enrolling in MFA during login when the user's role requires it
+  router.post(
+    '/mfa/enroll',
+    asyncHandler(rateLimitMiddleware()),
+    validateBody(mfaEnrollSchema),
+    asyncHandler((req, res, next) => authController.enrollMfa(req, res, next))
+  );
+
   // Define POST /refresh-token route with validation for token refresh
   router.post(
     '/refresh-token',
@@ -85,7 +108,7 @@ export default function createAuthRouter(AuthService: any): Router {
   router.post(
     '/change-password',
     authenticate,
-    authorize([Roles.CLIENT, Roles.PROVIDER, Roles.CASE_MANAGER, Roles.ADMINISTRATOR]),
+    requirePermission('edit:own-profile'),
     validateBody(changePasswordSchema),
     (req, res, next) => authController.changePassword(req, res, next)
   );
@@ -97,6 +120,62 @@ export default function createAuthRouter(AuthService: any): Router {
     (req, res, next) => authController.getProfile(req, res, next)
   );
 
+  // Define GET /mfa route with authentication for retrieving the user's MFA status
+  router.get(
+    '/mfa',
+    authenticate,
+    asyncHandler((req, res, next) => authController.getMfaStatus(req, res, next))
+  );
+
+  // Define POST /mfa/setup route with authentication for starting MFA enrollment
+  router.post(
+    '/mfa/setup',
+    authenticate,
+    asyncHandler((req, res, next) => authController.setupMfa(req, res, next))
+  );
+
+  // Define POST /mfa/enable route with authentication and validation for confirming MFA enrollment
+  router.post(
+    '/mfa/enable',
+    authenticate,
+    validateBody(mfaEnableSchema),
+    asyncHandler((req, res, next) => authController.enableMfa(req, res, next))
+  );
+
+  // Define POST /mfa/disable route with authentication and validation for disabling MFA
+  router.post(
+    '/mfa/disable',
+    authenticate,
+    validateBody(mfaCodeSchema),
+    asyncHandler((req, res, next) => authController.disableMfa(req, res, next))
+  );
+
+  // Define POST /mfa/recovery-codes route with authentication and validation for replacing recovery codes
+  router.post(
+    '/mfa/recovery-codes',
+    authenticate,
+    validateBody(mfaCodeSchema),
+    asyncHandler((req, res, next) => authController.regenerateRecoveryCodes(req, res, next))
+  );
+
+  // Define GET /mfa/policies route with administrator authorization for retrieving per-role MFA requirements
+  router.get(
+    '/mfa/policies',
+    authenticate,
+    requirePermission('configure:system'),
+    asyncHandler((req, res, next) => authController.getMfaPolicies(req, res, next))
+  );
+
+  // Define PUT /mfa/policies/:role route with administrator authorization for requiring MFA per role
+  router.put(
+    '/mfa/policies/:role',
+    authenticate,
+    requirePermission('configure:system'),
+    validateParams(mfaPolicyParamsSchema),
+    validateBody(mfaPolicyUpdateSchema),
+    asyncHandler((req, res, next) => authController.updateMfaPolicy(req, res, next))
+  );
+
   // Return the configured router
   return router;
 }
\ No newline at end of file
@@ -0,0 +1,189 @@
+import { Router } from 'express'; // express@^4.18.2
+import { BookingsController } from '../controllers/bookings.controller';
+import { authenticate, requirePermission } from '../middlewares/auth.middleware';
+import { asyncHandler } from '../middlewares/error.middleware';
+import { validateBody, validateParams, validateQuery } from '../middlewares/validation.middleware';
+import {
+  createBookingSchema,
+  rescheduleBookingSchema,
+  cancelBookingSchema,
+  bookingParamsSchema,
+  bookingFilterSchema,
+  upcomingBookingsQuerySchema,
+  createBookingSeriesSchema,
+  bookingSeriesParamsSchema,
+  calendarFeedParamsSchema,
+  policyViolationParamsSchema,
+  policyViolationFilterSchema,
+  waivePolicyViolationSchema
+} from '../validators/bookings.validator';
+import { CalendarFeedController } from '../controllers/calendar-feed.controller';
+import { BookingPolicyController } from '../controllers/booking-policy.controller';
+import { createBookingsService } from '../../services/bookings.service';
+
+/**
+ * Creates and configures an Express router for booking endpoints
+ * @returns Configured Express router with booking routes
+ */
+const createBookingsRouter = (): Router => {
+  // Create a new Express Router instance
+  const router = Router();
+
+  // Initialize the bookings controller with the bookings service
+  const bookingsController = new BookingsController(createBookingsService());
+  const calendarFeedController = new CalendarFeedController();
+  const bookingPolicyController = new BookingPolicyController();
+
+  // Route for creating a new booking
+  router.post(
+    '/',
+    authenticate,
+    requirePermission('schedule:appointments'),
+    validateBody(createBookingSchema),
+    asyncHandler((req, res, next) => bookingsController.createBooking(req, res, next))
+  );
+
+  // Route for listing bookings with filtering and pagination
+  router.get(
+    '/',
+    authenticate,
+    requirePermission('view:own-appointments'),
+    validateQuery(bookingFilterSchema),
+    asyncHandler((req, res, next) => bookingsController.getBookings(req, res, next))
+  );
+
+  // Route for the current client's or provider's upcoming bookings
+  router.get(
+    '/upcoming',
+    authenticate,
+    requirePermission('view:own-appointments'),
+    validateQuery(upcomingBookingsQuerySchema),
+    asyncHandler((req, res, next) => bookingsController.getUpcomingBookings(req, res, next))
+  );
+
+  // Routes for the current client's or provider's ICS feed of upcoming bookings
+  router.post(
+    '/calendar-feed',
+    authenticate,
+    requirePermission('view:own-appointments'),
+    asyncHandler((req, res, next) => calendarFeedController.createFeed(req, res, next))
+  );
+
+  router.get(
+    '/calendar-feed',
+    authenticate,
+    requirePermission('view:own-appointments'),
+    asyncHandler((req, res, next) => calendarFeedController.getFeed(req, res, next))
+  );
+
+  router.delete(
+    '/calendar-feed',
+    authenticate,
+    requirePermission('view:own-appointments'),
+    asyncHandler((req, res, next) => calendarFeedController.revokeFeed(req, res, next))
+  );
+
+  // Route calendar clients poll for a feed; they cannot sign in, so the token in the URL authorizes it
+  router.get(
+    '/calendar-feed/:token.ics',
+    validateParams(calendarFeedParamsSchema),
+    asyncHandler((req, res, next) => calendarFeedController.renderFeed(req, res, next))
+  );
+
+  // Route for creating a recurring booking series
+  router.post(
+    '/series',
+    authenticate,
+    requirePermission('schedule:appointments'),
+    validateBody(createBookingSeriesSchema),
+    asyncHandler((req, res, next) => bookingsController.createBookingSeries(req, res, next))
+  );
+
+  // Route for getting a recurring booking series with its bookings and progress
+  router.get(
+    '/series/:seriesId',
+    authenticate,
+    requirePermission('view:own-appointments'),
+    validateParams(bookingSeriesParamsSchema),
+    asyncHandler((req, res, next) => bookingsController.getBookingSeries(req, res, next))
+  );
+
+  // Routes for the late cancellations and no-shows recorded under providers' booking policies.
+  // Waivers are limited to the client's case managers and administrators, which the service checks.
+  router.get(
+    '/policy-violations',
+    authenticate,
+    requirePermission('view:own-appointments'),
+    validateQuery(policyViolationFilterSchema),
+    asyncHandler((req, res, next) => bookingPolicyController.getViolations(req, res, next))
+  );
+
+  router.post(
+    '/policy-violations/:id/waive',
+    authenticate,
+    requirePermission('waive:policy-violations'),
+    validateParams(policyViolationParamsSchema),
+    validateBody(waivePolicyViolationSchema),
+    asyncHandler((req, res, next) => bookingPolicyController.waiveViolation(req, res, next))
+  );
+
+  // Route for getting a booking by its ID
+  router.get(
+    '/:id',
+    authenticate,
+    requirePermission('view:own-appointments'),
+    validateParams(bookingParamsSchema),
+    asyncHandler((req, res, next) => bookingsController.getBookingById(req, res, next))
+  );
+
+  // Route for rescheduling a booking
+  router.post(
+    '/:id/reschedule',
+    authenticate,
+    requirePermission('reschedule:appointments'),
+    validateParams(bookingParamsSchema),
+    validateBody(rescheduleBookingSchema),
+    asyncHandler((req, res, next) => bookingsController.rescheduleBooking(req, res, next))
+  );
+
+  // Route for cancelling a booking
+  router.post(
+    '/:id/cancel',
+    authenticate,
+    requirePermission('cancel:own-appointments'),
+    validateParams(bookingParamsSchema),
+    validateBody(cancelBookingSchema),
+    asyncHandler((req, res, next) => bookingsController.cancelBooking(req, res, next))
+  );
+
+  // Routes for recording service delivery status
+  router.post(
+    '/:id/start',
+    authenticate,
+    requirePermission('update:service-status'),
+    validateParams(bookingParamsSchema),
+    asyncHandler((req, res, next) => bookingsController.markInProgress(req, res, next))
+  );
+
+  router.post(
+    '/:id/complete',
+    authenticate,
+    requirePermission('update:service-status'),
+    validateParams(bookingParamsSchema),
+    asyncHandler((req, res, next) => bookingsController.markCompleted(req, res, next))
+  );
+
+  router.post(
+    '/:id/no-show',
+    authenticate,
+    requirePermission('update:service-status'),
+    validateParams(bookingParamsSchema),
+    asyncHandler((req, res, next) => bookingsController.markNoShow(req, res, next))
+  );
+
+  // Return the configured router
+  return router;
+};
+
+// Export the router factory function as the default export
+export default createBookingsRouter;
@@ -1,11 +1,31 @@
-import express from 'express'; // express@^4.18.2
+import express, { Request } from 'express'; // express@^4.18.2
 const { Router } = express;
 import CarePlansController from '../controllers/care-plans.controller';
-import { authenticate, authorize } from '../middlewares/auth.middleware';
+import { CarePlanProgressController } from '../controllers/care-plan-progress.controller';
+import { CarePlanExportController } from '../controllers/care-plan-export.controller';
+import { authenticate, requirePermission } from '../middlewares/auth.middleware';
+import { asyncHandler } from '../middlewares/error.middleware';
 import { validateBody, validateParams, validateQuery } from '../middlewares/validation.middleware';
-import { createCarePlanSchema, updateCarePlanSchema, approveCarePlanSchema, generateCarePlanSchema, carePlanParamsSchema, carePlanFilterSchema } from '../validators/care-plans.validator';
-import { Roles } from '../../constants/roles';
+import { auditTrail } from '../middlewares/audit.middleware';
+import {
+  createCarePlanSchema,
+  updateCarePlanSchema,
+  approveCarePlanSchema,
+  generateCarePlanSchema,
+  carePlanParamsSchema,
+  carePlanFilterSchema,
+  goalParamsSchema,
+  interventionParamsSchema,
+  recordGoalProgressSchema,
+  logInterventionSessionSchema,
+  progressFilterSchema,
+  carePlanExportSchema
+} from '../validators/care-plans.validator';
+import { AuditAction, AuditResourceType } from '../../models/audit-log.model';
+import { CarePlanRepository } from '../../repositories/care-plan.repository';
 import { createCarePlansService } from '../../services/care-plans.service';
+import { createCarePlanProgressService } from '../../services/care-plan-progress.service';
+import { createCarePlanExportService } from '../../services/care-plan-export.service';
 
 /**
  * Creates and configures an Express router for care plan endpoints
@@ -21,27 +41,39 @@ const createCarePlansRouter = () => {
   // Create a new CarePlansController instance with the service
   const carePlansController = new CarePlansController(carePlansService);
 
+  // Goal progress and intervention sessions are handled by their own controller
+  const progressController = new CarePlanProgressController(createCarePlanProgressService());
+
+  // Exports for physicians and payers are handled by their own controller
+  const exportController = new CarePlanExportController(createCarePlanExportService());
+
+  // Load care plans before changes so the audit trail can record a before/after diff
+  const carePlanRepository = new CarePlanRepository();
+  const loadCarePlan = (req: Request) => carePlanRepository.findById(req.params.id);
+
   // Define routes with appropriate middleware chains
   router.get(
     '/',
     authenticate,
-    authorize([Roles.ADMINISTRATOR, Roles.CASE_MANAGER, Roles.PROVIDER, Roles.CLIENT]),
+    requirePermission('view:own-care-plans'),
     validateQuery(carePlanFilterSchema),
+    auditTrail({ action: AuditAction.READ, resourceType: AuditResourceType.CARE_PLAN }),
     carePlansController.getCarePlans
   );
 
   router.post(
     '/',
     authenticate,
-    authorize([Roles.ADMINISTRATOR, Roles.CASE_MANAGER]),
+    requirePermission('create:care-plans'),
     validateBody(createCarePlanSchema),
+    auditTrail({ action: AuditAction.CREATE, resourceType: AuditResourceType.CARE_PLAN }),
     carePlansController.createCarePlan
   );
 
   router.post(
     '/generate',
     authenticate,
-    authorize([Roles.ADMINISTRATOR, Roles.CASE_MANAGER]),
+    requirePermission('create:care-plans'),
     validateBody(generateCarePlanSchema),
     carePlansController.generateCarePlanOptions
   );
@@ -49,45 +81,100 @@ const createCarePlansRouter = () => {
   router.get(
     '/:id',
     authenticate,
-    authorize([Roles.ADMINISTRATOR, Roles.CASE_MANAGER, Roles.PROVIDER, Roles.CLIENT]),
+    requirePermission('view:own-care-plans'),
     validateParams(carePlanParamsSchema),
+    auditTrail({ action: AuditAction.READ, resourceType: AuditResourceType.CARE_PLAN }),
     carePlansController.getCarePlanById
   );
 
   router.put(
     '/:id',
     authenticate,
-    authorize([Roles.ADMINISTRATOR, Roles.CASE_MANAGER]),
+    requirePermission('edit:care-plans'),
     validateParams(carePlanParamsSchema),
     validateBody(updateCarePlanSchema),
+    auditTrail({ action: AuditAction.UPDATE, resourceType: AuditResourceType.CARE_PLAN, loadBefore: loadCarePlan }),
     carePlansController.updateCarePlan
   );
 
   router.delete(
     '/:id',
     authenticate,
-    authorize([Roles.ADMINISTRATOR, Roles.CASE_MANAGER]),
+    requirePermission('edit:care-plans'),
     validateParams(carePlanParamsSchema),
+    auditTrail({ action: AuditAction.DELETE, resourceType: AuditResourceType.CARE_PLAN, loadBefore: loadCarePlan }),
     carePlansController.deleteCarePlan
   );
 
   router.post(
     '/:id/approve',
     authenticate,
-    authorize([Roles.ADMINISTRATOR, Roles.CASE_MANAGER]),
+    requirePermission('approve:care-plans'),
     validateParams(carePlanParamsSchema),
     validateBody(approveCarePlanSchema),
+    auditTrail({ action: AuditAction.UPDATE, resourceType: AuditResourceType.CARE_PLAN, loadBefore: loadCarePlan }),
     carePlansController.approveCarePlan
   );
 
   router.get(
     '/:id/history',
     authenticate,
-    authorize([Roles.ADMINISTRATOR, Roles.CASE_MANAGER, Roles.PROVIDER]),
+    requirePermission('view:service-history'),
     validateParams(carePlanParamsSchema),
+    auditTrail({ action: AuditAction.READ, resourceType: AuditResourceType.CARE_PLAN, loadBefore: loadCarePlan }),
     carePlansController.getCarePlanHistory
   );
 
+  router.get(
+    '/:id/export',
+    authenticate,
+    requirePermission('export:care-plans'),
+    validateParams(carePlanParamsSchema),
+    validateQuery(carePlanExportSchema),
+    auditTrail({ action: AuditAction.EXPORT, resourceType: AuditResourceType.CARE_PLAN }),
+    asyncHandler((req, res, next) => exportController.exportCarePlan(req, res, next))
+  );
+
+  router.post(
+    '/:id/goals/:goalId/progress',
+    authenticate,
+    requirePermission('record:care-progress'),
+    validateParams(goalParamsSchema),
+    validateBody(recordGoalProgressSchema),
+    auditTrail({ action: AuditAction.CREATE, resourceType: AuditResourceType.CARE_PLAN }),
+    asyncHandler((req, res, next) => progressController.recordGoalProgress(req, res, next))
+  );
+
+  router.get(
+    '/:id/goals/:goalId/progress',
+    authenticate,
+    requirePermission('view:own-care-plans'),
+    validateParams(goalParamsSchema),
+    validateQuery(progressFilterSchema),
+    auditTrail({ action: AuditAction.READ, resourceType: AuditResourceType.CARE_PLAN }),
+    asyncHandler((req, res, next) => progressController.getGoalProgress(req, res, next))
+  );
+
+  router.post(
+    '/:id/interventions/:interventionId/sessions',
+    authenticate,
+    requirePermission('record:care-progress'),
+    validateParams(interventionParamsSchema),
+    validateBody(logInterventionSessionSchema),
+    auditTrail({ action: AuditAction.CREATE, resourceType: AuditResourceType.CARE_PLAN }),
+    asyncHandler((req, res, next) => progressController.logInterventionSession(req, res, next))
+  );
+
+  router.get(
+    '/:id/interventions/:interventionId/sessions',
+    authenticate,
+    requirePermission('view:own-care-plans'),
+    validateParams(interventionParamsSchema),
+    validateQuery(progressFilterSchema),
+    auditTrail({ action: AuditAction.READ, resourceType: AuditResourceType.CARE_PLAN }),
+    asyncHandler((req, res, next) => progressController.getInterventionSessions(req, res, next))
+  );
+
   // Return the configured router
   return router;
 };
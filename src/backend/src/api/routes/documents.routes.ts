@@ -1,8 +1,9 @@
-import express, { Router } from 'express'; // express@^4.18.2
+import express, { Router, Request } from 'express'; // express@^4.18.2
 import multer from 'multer'; // multer@^1.4.5-lts.1
 import { DocumentsController } from '../controllers/documents.controller';
-import { authenticate, authorize } from '../middlewares/auth.middleware';
+import { authenticate, requirePermission } from '../middlewares/auth.middleware';
 import { validateBody, validateParams, validateQuery, validateFile } from '../middlewares/validation.middleware';
+import { auditTrail } from '../middlewares/audit.middleware';
 import { 
   documentIdParamSchema,
   documentAnalysisIdParamSchema,
@@ -13,7 +14,8 @@ import {
   documentDeleteSchema,
   signedUrlOptionsSchema
 } from '../validators/documents.validator';
-import { Roles } from '../../constants/roles';
+import { AuditAction, AuditResourceType } from '../../models/audit-log.model';
+import { DocumentRepository } from '../../repositories/document.repository';
 import { DocumentService } from '../../services/documents.service';
 
 /**
@@ -28,6 +30,12 @@ export default function createDocumentsRouter(documentService: DocumentService):
   // Initialize DocumentsController with the provided document service
   const documentsController = new DocumentsController(documentService);
 
+  // Load documents so the audit trail can record their owner and a before/after diff
+  const documentRepository = new DocumentRepository();
+  const loadDocument = (req: Request) => documentRepository.findById(req.params.documentId);
+  const getDocumentOwnerId = (req: Request, data: any, before: Record<string, any> | null) =>
+    data?.ownerId || before?.ownerId || req.query.ownerId as string | undefined;
+
   // Configure multer for file uploads with appropriate storage and limits
   const upload = multer({ 
     storage: multer.memoryStorage(), // Store files in memory for processing
@@ -39,10 +47,11 @@ export default function createDocumentsRouter(documentService: DocumentService):
   router.post(
     '/',
     authenticate,
-    authorize([Roles.CLIENT, Roles.PROVIDER, Roles.CASE_MANAGER]),
+    requirePermission('upload:own-documents'),
     upload.single('file'), // Use multer middleware to handle file upload
     validateFile, // Validate the uploaded file
     validateBody(documentUploadSchema), // Validate the request body
+    auditTrail({ action: AuditAction.CREATE, resourceType: AuditResourceType.DOCUMENT, getSubjectId: getDocumentOwnerId }),
     documentsController.uploadDocument.bind(documentsController) // Bind the controller method to the controller instance
   );
 
@@ -50,8 +59,9 @@ export default function createDocumentsRouter(documentService: DocumentService):
   router.get(
     '/:documentId',
     authenticate,
-    authorize([Roles.CLIENT, Roles.PROVIDER, Roles.CASE_MANAGER]),
+    requirePermission('view:own-documents'),
     validateParams(documentIdParamSchema), // Validate the document ID parameter
+    auditTrail({ action: AuditAction.READ, resourceType: AuditResourceType.DOCUMENT, getSubjectId: getDocumentOwnerId }),
     documentsController.getDocument.bind(documentsController) // Bind the controller method to the controller instance
   );
 
@@ -59,8 +69,9 @@ export default function createDocumentsRouter(documentService: DocumentService):
   router.get(
     '/',
     authenticate,
-    authorize([Roles.CLIENT, Roles.PROVIDER, Roles.CASE_MANAGER, Roles.ADMINISTRATOR]),
+    requirePermission('view:own-documents'),
     validateQuery(documentFilterSchema), // Validate the query parameters
+    auditTrail({ action: AuditAction.READ, resourceType: AuditResourceType.DOCUMENT, getSubjectId: getDocumentOwnerId }),
     documentsController.listDocuments.bind(documentsController) // Bind the controller method to the controller instance
   );
 
@@ -68,8 +79,9 @@ export default function createDocumentsRouter(documentService: DocumentService):
   router.delete(
     '/:documentId',
     authenticate,
-    authorize([Roles.CLIENT, Roles.PROVIDER, Roles.CASE_MANAGER, Roles.ADMINISTRATOR]),
+    requirePermission('delete:own-documents'),
     validateParams(documentDeleteSchema), // Validate the document ID parameter
+    auditTrail({ action: AuditAction.DELETE, resourceType: AuditResourceType.DOCUMENT, getSubjectId: getDocumentOwnerId, loadBefore: loadDocument }),
     documentsController.deleteDocument.bind(documentsController) // Bind the controller method to the controller instance
   );
 
@@ -77,9 +89,10 @@ export default function createDocumentsRouter(documentService: DocumentService):
   router.post(
     '/:documentId/analyze',
     authenticate,
-    authorize([Roles.CASE_MANAGER, Roles.ADMINISTRATOR]),
+    requirePermission('view:client-records'),
     validateParams(documentIdParamSchema), // Validate the document ID parameter
     validateBody(documentAnalysisSchema), // Validate the request body
+    auditTrail({ action: AuditAction.CREATE, resourceType: AuditResourceType.DOCUMENT, getSubjectId: getDocumentOwnerId, loadBefore: loadDocument }),
     documentsController.analyzeDocument.bind(documentsController) // Bind the controller method to the controller instance
   );
 
@@ -87,8 +100,9 @@ export default function createDocumentsRouter(documentService: DocumentService):
   router.get(
     '/:documentId/analysis/:analysisId',
     authenticate,
-    authorize([Roles.CASE_MANAGER, Roles.ADMINISTRATOR]),
+    requirePermission('view:client-records'),
     validateParams(documentAnalysisIdParamSchema), // Validate the document and analysis ID parameters
+    auditTrail({ action: AuditAction.READ, resourceType: AuditResourceType.DOCUMENT, getSubjectId: getDocumentOwnerId, loadBefore: loadDocument }),
     documentsController.getDocumentAnalysis.bind(documentsController) // Bind the controller method to the controller instance
   );
 
@@ -96,9 +110,10 @@ export default function createDocumentsRouter(documentService: DocumentService):
   router.put(
     '/:documentId',
     authenticate,
-    authorize([Roles.CLIENT, Roles.PROVIDER, Roles.CASE_MANAGER]),
+    requirePermission('upload:own-documents'),
     validateParams(documentIdParamSchema), // Validate the document ID parameter
     validateBody(documentMetadataSchema), // Validate the request body
+    auditTrail({ action: AuditAction.UPDATE, resourceType: AuditResourceType.DOCUMENT, getSubjectId: getDocumentOwnerId, loadBefore: loadDocument }),
     documentsController.updateDocumentMetadata.bind(documentsController) // Bind the controller method to the controller instance
   );
 
@@ -106,9 +121,10 @@ export default function createDocumentsRouter(documentService: DocumentService):
   router.get(
     '/:documentId/signed-url',
     authenticate,
-    authorize([Roles.CLIENT, Roles.PROVIDER, Roles.CASE_MANAGER]),
+    requirePermission('view:own-documents'),
     validateParams(documentIdParamSchema), // Validate the document ID parameter
     validateQuery(signedUrlOptionsSchema), // Validate the query parameters
+    auditTrail({ action: AuditAction.READ, resourceType: AuditResourceType.DOCUMENT, getSubjectId: getDocumentOwnerId, loadBefore: loadDocument }),
     documentsController.generateSignedUrl.bind(documentsController) // Bind the controller method to the controller instance
   );
 
@@ -116,8 +132,9 @@ export default function createDocumentsRouter(documentService: DocumentService):
   router.get(
     '/:documentId/download',
     authenticate,
-    authorize([Roles.CLIENT, Roles.PROVIDER, Roles.CASE_MANAGER]),
+    requirePermission('view:own-documents'),
     validateParams(documentIdParamSchema), // Validate the document ID parameter
+    auditTrail({ action: AuditAction.READ, resourceType: AuditResourceType.DOCUMENT, getSubjectId: getDocumentOwnerId, loadBefore: loadDocument }),
     documentsController.downloadDocument.bind(documentsController) // Bind the controller method to the controller instance
   );
 
@@ -7,6 +7,13 @@ import createProviderRoutes from './providers.routes';
 import createAnalyticsRouter from './analytics.routes';
 import createDocumentsRouter from './documents.routes';
 import createNotificationsRouter from './notifications.routes';
+import createBookingsRouter from './bookings.routes';
+import createWaitlistRouter from './waitlist.routes';
+import createAuditLogsRouter from './audit-logs.routes';
+import createMessagesRouter from './messages.routes';
+import createPaymentsRouter from './payments.routes';
+import createRateSchedulesRouter from './rate-schedules.routes';
+import createWebhooksRouter from './webhooks.routes';
 import { AuthService } from '../../services/auth.service';
 import { UsersService } from '../../services/users.service';
 import { CarePlansService } from '../../services/care-plans.service';
@@ -37,6 +44,13 @@ function createApiRouter(services: { AuthService: AuthService; UsersService: Use
   const analyticsRouter = createAnalyticsRouter();
   const documentsRouter = createDocumentsRouter();
   const notificationsRouter = createNotificationsRouter();
+  const bookingsRouter = createBookingsRouter();
+  const waitlistRouter = createWaitlistRouter();
+  const auditLogsRouter = createAuditLogsRouter();
+  const messagesRouter = createMessagesRouter();
+  const paymentsRouter = createPaymentsRouter();
+  const rateSchedulesRouter = createRateSchedulesRouter();
+  const webhooksRouter = createWebhooksRouter();
 
   // Mount the auth router at /auth
   router.use('/auth', authRouter);
@@ -62,6 +76,27 @@ function createApiRouter(services: { AuthService: AuthService; UsersService: Use
   // Mount the notifications router at /notifications
   router.use('/notifications', notificationsRouter);
 
+  // Mount the bookings router at /bookings
+  router.use('/bookings', bookingsRouter);
+
+  // Mount the waitlist router at /waitlist
+  router.use('/waitlist', waitlistRouter);
+
+  // Mount the audit logs router at /audit-logs
+  router.use('/audit-logs', auditLogsRouter);
+
+  // Mount the messages router at /conversations
+  router.use('/conversations', messagesRouter);
+
+  // Mount the payments router at /payments
+  router.use('/payments', paymentsRouter);
+
+  // Mount the rate schedules router at /rate-schedules
+  router.use('/rate-schedules', rateSchedulesRouter);
+
+  // Mount the webhooks router at /webhooks
+  router.use('/webhooks', webhooksRouter);
+
   // Return the configured main router
   return router;
 }
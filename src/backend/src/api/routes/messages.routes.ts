@@ -0,0 +1,125 @@
+import { Router, Request, Response, NextFunction } from 'express'; // express@^4.18.2
+import multer from 'multer'; // multer@^1.4.5-lts.1
+import { MessagesController } from '../controllers/messages.controller';
+import { authenticate, requirePermission } from '../middlewares/auth.middleware';
+import { asyncHandler } from '../middlewares/error.middleware';
+import { validateBody, validateParams, validateQuery, validateFile } from '../middlewares/validation.middleware';
+import {
+  MAX_MESSAGE_ATTACHMENTS,
+  createConversationSchema,
+  sendMessageSchema,
+  markReadSchema,
+  conversationParamsSchema,
+  attachmentParamsSchema,
+  conversationFilterSchema,
+  messageFilterSchema
+} from '../validators/messages.validator';
+import { MessagingService, getMessagingService } from '../../services/messaging.service';
+
+/**
+ * Validates attachments when the message was sent as multipart form data with files
+ * @param req
+ * @param res
+ * @param next
+ */
+const validateAttachments = (req: Request, res: Response, next: NextFunction): void => {
+  if (Array.isArray(req.files) && req.files.length > 0) {
+    validateFile(req, res, next);
+    return;
+  }
+
+  next();
+};
+
+/**
+ * Creates and configures an Express router for secure messaging endpoints
+ * @param messagingService - Messaging service shared with the messaging socket
+ * @returns Configured Express router with messaging routes
+ */
+const createMessagesRouter = (messagingService: MessagingService = getMessagingService()): Router => {
+  // Create a new Express Router instance
+  const router = Router();
+
+  // Initialize the messages controller with the messaging service
+  const messagesController = new MessagesController(messagingService);
+
+  // Keep attachments in memory until they are written to blob storage
+  const upload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: 10 * 1024 * 1024, files: MAX_MESSAGE_ATTACHMENTS }
+  });
+
+  // Route for starting a conversation
+  router.post(
+    '/',
+    authenticate,
+    requirePermission('message:care-team'),
+    validateBody(createConversationSchema),
+    asyncHandler((req, res, next) => messagesController.createConversation(req, res, next))
+  );
+
+  // Route for listing the current user's conversations
+  router.get(
+    '/',
+    authenticate,
+    requirePermission('message:care-team'),
+    validateQuery(conversationFilterSchema),
+    asyncHandler((req, res, next) => messagesController.getConversations(req, res, next))
+  );
+
+  // Route for getting a conversation by its ID
+  router.get(
+    '/:id',
+    authenticate,
+    requirePermission('message:care-team'),
+    validateParams(conversationParamsSchema),
+    asyncHandler((req, res, next) => messagesController.getConversationById(req, res, next))
+  );
+
+  // Route for paging through the messages of a conversation
+  router.get(
+    '/:id/messages',
+    authenticate,
+    requirePermission('message:care-team'),
+    validateParams(conversationParamsSchema),
+    validateQuery(messageFilterSchema),
+    asyncHandler((req, res, next) => messagesController.getMessages(req, res, next))
+  );
+
+  // Route for sending a message, optionally with attachments
+  router.post(
+    '/:id/messages',
+    authenticate,
+    requirePermission('message:care-team'),
+    validateParams(conversationParamsSchema),
+    upload.array('attachments', MAX_MESSAGE_ATTACHMENTS),
+    validateAttachments,
+    validateBody(sendMessageSchema),
+    asyncHandler((req, res, next) => messagesController.sendMessage(req, res, next))
+  );
+
+  // Route for recording read receipts
+  router.post(
+    '/:id/read',
+    authenticate,
+    requirePermission('message:care-team'),
+    validateParams(conversationParamsSchema),
+    validateBody(markReadSchema),
+    asyncHandler((req, res, next) => messagesController.markAsRead(req, res, next))
+  );
+
+  // Route for getting a download URL for an attachment
+  router.get(
+    '/:id/attachments/:attachmentId',
+    authenticate,
+    requirePermission('message:care-team'),
+    validateParams(attachmentParamsSchema),
+    asyncHandler((req, res, next) => messagesController.getAttachmentUrl(req, res, next))
+  );
+
+  // Return the configured router
+  return router;
+};
+
+// Export the router factory function as the default export
+export default createMessagesRouter;
@@ -1,10 +1,9 @@
 import { Router } from 'express'; // express@^4.18.2
 import { NotificationsController } from '../controllers/notifications.controller';
 import { NotificationService } from '../../services/notifications.service';
-import { authenticate, authorize } from '../middlewares/auth.middleware';
+import { authenticate, requirePermission } from '../middlewares/auth.middleware';
 import { validateBody, validateParams, validateQuery } from '../middlewares/validation.middleware';
 import { createNotificationSchema, notificationFilterSchema, notificationIdParamSchema, notificationPreferencesSchema, paginationSchema } from '../validators/notifications.validator';
-import { Roles } from '../../constants/roles';
 
 /**
  * Creates and configures a router for notification-related endpoints
@@ -23,7 +22,7 @@ const createNotificationsRouter = (notificationService: NotificationService): Ro
   router.post(
     '/',
     authenticate,
-    authorize([Roles.ADMINISTRATOR, Roles.CASE_MANAGER]),
+    requirePermission('message:clients'),
     validateBody(createNotificationSchema),
     (req, res) => notificationsController.createNotification(req, res)
   );
@@ -32,7 +31,7 @@ const createNotificationsRouter = (notificationService: NotificationService): Ro
   router.get(
     '/',
     authenticate,
-    authorize([Roles.ADMINISTRATOR, Roles.CASE_MANAGER, Roles.PROVIDER, Roles.CLIENT]),
+    requirePermission('view:own-notifications'),
     validateQuery(notificationFilterSchema.merge(paginationSchema)),
     (req, res) => notificationsController.getNotifications(req, res)
   );
@@ -41,7 +40,7 @@ const createNotificationsRouter = (notificationService: NotificationService): Ro
   router.get(
     '/:id',
     authenticate,
-    authorize([Roles.ADMINISTRATOR, Roles.CASE_MANAGER, Roles.PROVIDER, Roles.CLIENT]),
+    requirePermission('view:own-notifications'),
     validateParams(notificationIdParamSchema),
     (req, res) => notificationsController.getNotificationById(req, res)
   );
@@ -50,7 +49,7 @@ const createNotificationsRouter = (notificationService: NotificationService): Ro
   router.put(
     '/:id/read',
     authenticate,
-    authorize([Roles.ADMINISTRATOR, Roles.CASE_MANAGER, Roles.PROVIDER, Roles.CLIENT]),
+    requirePermission('view:own-notifications'),
     validateParams(notificationIdParamSchema),
     (req, res) => notificationsController.markAsRead(req, res)
   );
@@ -59,7 +58,7 @@ const createNotificationsRouter = (notificationService: NotificationService): Ro
   router.put(
     '/read-all',
     authenticate,
-    authorize([Roles.ADMINISTRATOR, Roles.CASE_MANAGER, Roles.PROVIDER, Roles.CLIENT]),
+    requirePermission('view:own-notifications'),
     (req, res) => notificationsController.markAllAsRead(req, res)
   );
 
@@ -67,7 +66,7 @@ const createNotificationsRouter = (notificationService: NotificationService): Ro
   router.delete(
     '/:id',
     authenticate,
-    authorize([Roles.ADMINISTRATOR, Roles.CASE_MANAGER, Roles.PROVIDER, Roles.CLIENT]),
+    requirePermission('view:own-notifications'),
     validateParams(notificationIdParamSchema),
     (req, res) => notificationsController.deleteNotification(req, res)
   );
@@ -76,7 +75,7 @@ const createNotificationsRouter = (notificationService: NotificationService): Ro
   router.get(
     '/stats',
     authenticate,
-    authorize([Roles.ADMINISTRATOR, Roles.CASE_MANAGER, Roles.PROVIDER, Roles.CLIENT]),
+    requirePermission('view:own-notifications'),
     (req, res) => notificationsController.getNotificationStats(req, res)
   );
 
@@ -84,7 +83,7 @@ const createNotificationsRouter = (notificationService: NotificationService): Ro
   router.get(
     '/preferences',
     authenticate,
-    authorize([Roles.ADMINISTRATOR, Roles.CASE_MANAGER, Roles.PROVIDER, Roles.CLIENT]),
+    requirePermission('view:own-notifications'),
     (req, res) => notificationsController.getNotificationPreferences(req, res)
   );
 
@@ -92,7 +91,7 @@ const createNotificationsRouter = (notificationService: NotificationService): Ro
   router.put(
     '/preferences',
     authenticate,
-    authorize([Roles.ADMINISTRATOR, Roles.CASE_MANAGER, Roles.PROVIDER, Roles.CLIENT]),
+    requirePermission('view:own-notifications'),
     validateBody(notificationPreferencesSchema),
     (req, res) => notificationsController.updateNotificationPreferences(req, res)
   );
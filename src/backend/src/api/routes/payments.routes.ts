@@ -0,0 +1,87 @@
+import { Router } from 'express'; // express@^4.18.2
+import { PaymentsController } from '../controllers/payments.controller';
+import { authenticate, requirePermission } from '../middlewares/auth.middleware';
+import { asyncHandler } from '../middlewares/error.middleware';
+import { validateBody, validateParams } from '../middlewares/validation.middleware';
+import {
+  serviceItemsPaymentSchema,
+  bookingPaymentParamsSchema,
+  paymentParamsSchema,
+  cancelPaymentSchema,
+  refundPaymentSchema
+} from '../validators/payments.validator';
+import { PaymentProcessingService } from '../../services/payment/payment-processing.service';
+
+/**
+ * Creates and configures an Express router for payment endpoints
+ * @returns Configured Express router with payment routes
+ */
+const createPaymentsRouter = (): Router => {
+  // Create a new Express Router instance
+  const router = Router();
+
+  // Initialize the payments controller with the payment processing service
+  const paymentsController = new PaymentsController(new PaymentProcessingService());
+
+  // Route for paying for service items of a services plan
+  router.post(
+    '/service-items',
+    authenticate,
+    requirePermission('make:payments'),
+    validateBody(serviceItemsPaymentSchema),
+    asyncHandler((req, res, next) => paymentsController.createServiceItemsPayment(req, res, next))
+  );
+
+  // Route for paying for a booking's service item
+  router.post(
+    '/bookings/:bookingId',
+    authenticate,
+    requirePermission('make:payments'),
+    validateParams(bookingPaymentParamsSchema),
+    asyncHandler((req, res, next) => paymentsController.createBookingPayment(req, res, next))
+  );
+
+  // Route for getting the status of a payment
+  router.get(
+    '/:paymentIntentId',
+    authenticate,
+    requirePermission('make:payments'),
+    validateParams(paymentParamsSchema),
+    asyncHandler((req, res, next) => paymentsController.getPaymentStatus(req, res, next))
+  );
+
+  // Route for recording a payment confirmed on the client
+  router.post(
+    '/:paymentIntentId/confirm',
+    authenticate,
+    requirePermission('make:payments'),
+    validateParams(paymentParamsSchema),
+    asyncHandler((req, res, next) => paymentsController.confirmPayment(req, res, next))
+  );
+
+  // Route for cancelling a payment
+  router.post(
+    '/:paymentIntentId/cancel',
+    authenticate,
+    requirePermission('make:payments'),
+    validateParams(paymentParamsSchema),
+    validateBody(cancelPaymentSchema),
+    asyncHandler((req, res, next) => paymentsController.cancelPayment(req, res, next))
+  );
+
+  // Route for refunding a payment (administrators only)
+  router.post(
+    '/:paymentIntentId/refund',
+    authenticate,
+    requirePermission('refund:payments'),
+    validateParams(paymentParamsSchema),
+    validateBody(refundPaymentSchema),
+    asyncHandler((req, res, next) => paymentsController.refundPayment(req, res, next))
+  );
+
+  // Return the configured router
+  return router;
+};
+
+// Export the router factory function as the default export
+export default createPaymentsRouter;
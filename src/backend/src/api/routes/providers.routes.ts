@@ -0,0 +1,303 @@
+import { Router } from 'express'; // express@^4.18.2
+import ProvidersController from '../controllers/providers.controller';
+import { authenticate, requirePermission } from '../middlewares/auth.middleware';
+import { asyncHandler } from '../middlewares/error.middleware';
+import { validateBody, validateParams, validateQuery } from '../middlewares/validation.middleware';
+import {
+  providerIdSchema,
+  providerProfileQuerySchema,
+  providerProfileUpdateSchema,
+  availabilityQuerySchema,
+  availabilityUpdateSchema,
+  providerSearchSchema,
+  providerMatchingSchema,
+  reviewFilterSchema,
+  reviewSubmissionSchema,
+  serviceAreasUpdateSchema,
+  calendarSyncSchema,
+  calendarConnectionIdSchema,
+  connectCalendarSchema,
+  availabilityCheckSchema,
+  findAvailableProvidersSchema,
+  createMatchingProfileSchema,
+  updateMatchingProfileSchema,
+  matchingProfileIdSchema,
+  matchSessionIdSchema,
+  matchFeedbackSchema,
+  bookingPolicyUpdateSchema
+} from '../validators/providers.validator';
+import { MatchingProfilesController } from '../controllers/matching-profiles.controller';
+import { MatchFeedbackController } from '../controllers/match-feedback.controller';
+import { CalendarSyncController } from '../controllers/calendar-sync.controller';
+import { BookingPolicyController } from '../controllers/booking-policy.controller';
+import { createProvidersService } from '../../services/providers.service';
+import { CalendarIntegrationService } from '../../services/calendar/calendar-integration.service';
+
+/**
+ * Creates and configures an Express router for provider endpoints
+ * @returns Configured Express router with provider routes
+ */
+const createProviderRoutes = (): Router => {
+  // Create a new Express Router instance
+  const router = Router();
+
+  // Initialize the providers controller with the providers service
+  const providersController = new ProvidersController(createProvidersService(new CalendarIntegrationService()));
+  const matchingProfilesController = new MatchingProfilesController();
+  const matchFeedbackController = new MatchFeedbackController();
+  const calendarSyncController = new CalendarSyncController();
+  const bookingPolicyController = new BookingPolicyController();
+
+  // Route for searching providers by service type, location, rating and other filters
+  router.get(
+    '/search',
+    authenticate,
+    requirePermission('view:matched-providers'),
+    validateQuery(providerSearchSchema),
+    asyncHandler((req, res, next) => providersController.searchProviders(req, res, next))
+  );
+
+  // Route for AI-assisted matching of providers to a client
+  router.post(
+    '/match',
+    authenticate,
+    requirePermission('view:matched-providers'),
+    validateBody(providerMatchingSchema),
+    asyncHandler((req, res, next) => providersController.matchProviders(req, res, next))
+  );
+
+  // Routes for recording why matches were accepted, rejected or overridden. Overrides
+  // additionally require the override:matching permission, which the service checks.
+  router.post(
+    '/match/:sessionId/feedback',
+    authenticate,
+    requirePermission('view:matched-providers'),
+    validateParams(matchSessionIdSchema),
+    validateBody(matchFeedbackSchema),
+    asyncHandler((req, res, next) => matchFeedbackController.recordFeedback(req, res, next))
+  );
+
+  router.get(
+    '/match/:sessionId/feedback',
+    authenticate,
+    requirePermission('view:matched-providers'),
+    validateParams(matchSessionIdSchema),
+    asyncHandler((req, res, next) => matchFeedbackController.getSessionFeedback(req, res, next))
+  );
+
+  // Routes for the matching profiles that configure factor weights and hard filters.
+  // Case managers may list profiles to choose one; only administrators may change them.
+  router.get(
+    '/matching-profiles',
+    authenticate,
+    requirePermission('assign:providers'),
+    asyncHandler((req, res, next) => matchingProfilesController.getProfiles(req, res, next))
+  );
+
+  router.post(
+    '/matching-profiles',
+    authenticate,
+    requirePermission('manage:matching-profiles'),
+    validateBody(createMatchingProfileSchema),
+    asyncHandler((req, res, next) => matchingProfilesController.createProfile(req, res, next))
+  );
+
+  router.get(
+    '/matching-profiles/:profileId',
+    authenticate,
+    requirePermission('assign:providers'),
+    validateParams(matchingProfileIdSchema),
+    asyncHandler((req, res, next) => matchingProfilesController.getProfileById(req, res, next))
+  );
+
+  router.put(
+    '/matching-profiles/:profileId',
+    authenticate,
+    requirePermission('manage:matching-profiles'),
+    validateParams(matchingProfileIdSchema),
+    validateBody(updateMatchingProfileSchema),
+    asyncHandler((req, res, next) => matchingProfilesController.updateProfile(req, res, next))
+  );
+
+  router.delete(
+    '/matching-profiles/:profileId',
+    authenticate,
+    requirePermission('manage:matching-profiles'),
+    validateParams(matchingProfileIdSchema),
+    asyncHandler((req, res, next) => matchingProfilesController.deleteProfile(req, res, next))
+  );
+
+  // Route for finding providers with availability in a date range
+  router.get(
+    '/available',
+    authenticate,
+    requirePermission('view:matched-providers'),
+    validateQuery(findAvailableProvidersSchema),
+    asyncHandler((req, res, next) => providersController.findAvailableProviders(req, res, next))
+  );
+
+  // Route for getting a provider profile by its ID
+  router.get(
+    '/:providerId',
+    authenticate,
+    requirePermission('view:matched-providers'),
+    validateParams(providerIdSchema),
+    validateQuery(providerProfileQuerySchema),
+    asyncHandler((req, res, next) => providersController.getProviderProfile(req, res, next))
+  );
+
+  // Route for updating a provider profile (own profile only, or administrators)
+  router.put(
+    '/:providerId',
+    authenticate,
+    requirePermission('edit:provider-profile'),
+    validateParams(providerIdSchema),
+    validateBody(providerProfileUpdateSchema),
+    asyncHandler((req, res, next) => providersController.updateProviderProfile(req, res, next))
+  );
+
+  // Routes for reading and updating provider availability
+  router.get(
+    '/:providerId/availability',
+    authenticate,
+    requirePermission('view:matched-providers'),
+    validateParams(providerIdSchema),
+    validateQuery(availabilityQuerySchema),
+    asyncHandler((req, res, next) => providersController.getAvailability(req, res, next))
+  );
+
+  router.put(
+    '/:providerId/availability',
+    authenticate,
+    requirePermission('manage:availability'),
+    validateParams(providerIdSchema),
+    validateBody(availabilityUpdateSchema),
+    asyncHandler((req, res, next) => providersController.updateAvailability(req, res, next))
+  );
+
+  // Route for checking whether a provider is free for a specific time slot
+  router.get(
+    '/:providerId/check-availability',
+    authenticate,
+    requirePermission('view:matched-providers'),
+    validateParams(providerIdSchema),
+    validateQuery(availabilityCheckSchema),
+    asyncHandler((req, res, next) => providersController.checkAvailability(req, res, next))
+  );
+
+  // Routes for reading and submitting provider reviews
+  router.get(
+    '/:providerId/reviews',
+    authenticate,
+    requirePermission('view:matched-providers'),
+    validateParams(providerIdSchema),
+    validateQuery(reviewFilterSchema),
+    asyncHandler((req, res, next) => providersController.getProviderReviews(req, res, next))
+  );
+
+  router.post(
+    '/:providerId/reviews',
+    authenticate,
+    requirePermission('rate:providers'),
+    validateParams(providerIdSchema),
+    validateBody(reviewSubmissionSchema),
+    asyncHandler((req, res, next) => providersController.submitReview(req, res, next))
+  );
+
+  // Routes for reading and updating a provider's late cancellation and no-show policy
+  // (own policy only, or administrators)
+  router.get(
+    '/:providerId/booking-policy',
+    authenticate,
+    requirePermission('view:matched-providers'),
+    validateParams(providerIdSchema),
+    asyncHandler((req, res, next) => bookingPolicyController.getPolicy(req, res, next))
+  );
+
+  router.put(
+    '/:providerId/booking-policy',
+    authenticate,
+    requirePermission('edit:provider-profile'),
+    validateParams(providerIdSchema),
+    validateBody(bookingPolicyUpdateSchema),
+    asyncHandler((req, res, next) => bookingPolicyController.updatePolicy(req, res, next))
+  );
+
+  // Routes for reading and updating provider service areas
+  router.get(
+    '/:providerId/service-areas',
+    authenticate,
+    requirePermission('view:matched-providers'),
+    validateParams(providerIdSchema),
+    asyncHandler((req, res, next) => providersController.getServiceAreas(req, res, next))
+  );
+
+  router.put(
+    '/:providerId/service-areas',
+    authenticate,
+    requirePermission('manage:availability'),
+    validateParams(providerIdSchema),
+    validateBody(serviceAreasUpdateSchema),
+    asyncHandler((req, res, next) => providersController.updateServiceAreas(req, res, next))
+  );
+
+  // Route for synchronizing provider availability with an external calendar
+  router.post(
+    '/:providerId/sync-calendar',
+    authenticate,
+    requirePermission('manage:own-calendar'),
+    validateParams(providerIdSchema),
+    validateBody(calendarSyncSchema),
+    asyncHandler((req, res, next) => providersController.syncCalendar(req, res, next))
+  );
+
+  // Routes for two-way calendar connections: personal events block slots and bookings are
+  // written to the calendar. Providers manage only their own connections, which the service checks.
+  router.post(
+    '/:providerId/calendar/connections',
+    authenticate,
+    requirePermission('manage:own-calendar'),
+    validateParams(providerIdSchema),
+    validateBody(connectCalendarSchema),
+    asyncHandler((req, res, next) => calendarSyncController.connectCalendar(req, res, next))
+  );
+
+  router.get(
+    '/:providerId/calendar/connections',
+    authenticate,
+    requirePermission('manage:own-calendar'),
+    validateParams(providerIdSchema),
+    asyncHandler((req, res, next) => calendarSyncController.getConnections(req, res, next))
+  );
+
+  router.delete(
+    '/:providerId/calendar/connections/:connectionId',
+    authenticate,
+    requirePermission('manage:own-calendar'),
+    validateParams(calendarConnectionIdSchema),
+    asyncHandler((req, res, next) => calendarSyncController.disconnectCalendar(req, res, next))
+  );
+
+  // Routes for reconciling a connection on demand and reviewing the drift reports
+  router.post(
+    '/:providerId/calendar/connections/:connectionId/reconcile',
+    authenticate,
+    requirePermission('manage:own-calendar'),
+    validateParams(calendarConnectionIdSchema),
+    asyncHandler((req, res, next) => calendarSyncController.reconcileConnection(req, res, next))
+  );
+
+  router.get(
+    '/:providerId/calendar/connections/:connectionId/reports',
+    authenticate,
+    requirePermission('manage:own-calendar'),
+    validateParams(calendarConnectionIdSchema),
+    asyncHandler((req, res, next) => calendarSyncController.getReconciliationReports(req, res, next))
+  );
+
+  // Return the configured router
+  return router;
+};
+
+// Export the router factory function as the default export
+export default createProviderRoutes;
@@ -0,0 +1,74 @@
+import { Router } from 'express'; // express@^4.18.2
+import { RateScheduleController } from '../controllers/rate-schedule.controller';
+import { authenticate, requirePermission } from '../middlewares/auth.middleware';
+import { asyncHandler } from '../middlewares/error.middleware';
+import { validateBody, validateParams, validateQuery } from '../middlewares/validation.middleware';
+import {
+  createRateScheduleSchema,
+  updateRateScheduleSchema,
+  rateScheduleParamsSchema,
+  rateScheduleFilterSchema
+} from '../validators/rate-schedules.validator';
+
+/**
+ * Creates and configures an Express router for the rate schedules administrators maintain
+ * to price services plans
+ * @returns Configured Express router with rate schedule routes
+ */
+const createRateSchedulesRouter = (): Router => {
+  // Create a new Express Router instance
+  const router = Router();
+
+  // Initialize the rate schedule controller
+  const rateScheduleController = new RateScheduleController();
+
+  // Route for listing rate schedules
+  router.get(
+    '/',
+    authenticate,
+    requirePermission('manage:services'),
+    validateQuery(rateScheduleFilterSchema),
+    asyncHandler((req, res, next) => rateScheduleController.listRateSchedules(req, res, next))
+  );
+
+  // Route for creating a rate schedule
+  router.post(
+    '/',
+    authenticate,
+    requirePermission('manage:services'),
+    validateBody(createRateScheduleSchema),
+    asyncHandler((req, res, next) => rateScheduleController.createRateSchedule(req, res, next))
+  );
+
+  // Routes for a single rate schedule
+  router.get(
+    '/:id',
+    authenticate,
+    requirePermission('manage:services'),
+    validateParams(rateScheduleParamsSchema),
+    asyncHandler((req, res, next) => rateScheduleController.getRateSchedule(req, res, next))
+  );
+
+  router.put(
+    '/:id',
+    authenticate,
+    requirePermission('manage:services'),
+    validateParams(rateScheduleParamsSchema),
+    validateBody(updateRateScheduleSchema),
+    asyncHandler((req, res, next) => rateScheduleController.updateRateSchedule(req, res, next))
+  );
+
+  router.delete(
+    '/:id',
+    authenticate,
+    requirePermission('manage:services'),
+    validateParams(rateScheduleParamsSchema),
+    asyncHandler((req, res, next) => rateScheduleController.deleteRateSchedule(req, res, next))
+  );
+
+  // Return the configured router
+  return router;
+};
+
+// Export the router factory function as the default export
+export default createRateSchedulesRouter;
@@ -1,8 +1,12 @@
-import express from 'express'; // express@^4.18.2
+import express, { Request } from 'express'; // express@^4.18.2
 import { ServicesPlanController } from '../controllers/services-plans.controller';
+import { EligibilityController } from '../controllers/eligibility.controller';
+import { PriorAuthorizationController } from '../controllers/prior-authorization.controller';
 import { IServicesPlanService } from '../../interfaces/services-plan.interface';
-import { authenticate, authorize } from '../middlewares/auth.middleware';
+import { authenticate, requirePermission } from '../middlewares/auth.middleware';
+import { asyncHandler } from '../middlewares/error.middleware';
 import { validateBody, validateParams, validateQuery } from '../middlewares/validation.middleware';
+import { auditTrail } from '../middlewares/audit.middleware';
 import {
   createNeedsAssessmentSchema,
   createServicesPlanSchema,
@@ -11,8 +15,16 @@ import {
   generateServicesPlanSchema,
   servicesPlanParamsSchema,
   servicesPlanFilterSchema,
+  clientParamsSchema,
+  fundingSourceParamsSchema,
+  priorAuthorizationParamsSchema,
+  createPriorAuthorizationSchema,
+  updatePriorAuthorizationSchema,
+  assessmentInstrumentParamsSchema,
+  assessmentInstrumentQuerySchema,
 } from '../validators/services-plans.validator';
-import { Roles } from '../../constants/roles';
+import { AuditAction, AuditResourceType } from '../../models/audit-log.model';
+import { ServicesPlanRepository } from '../../repositories/services-plan.repository';
 
 /**
  * Creates and configures an Express router with all services plan related endpoints
@@ -25,80 +37,121 @@ export default function createServicesPlanRouter(servicesPlanService: IServicesP
 
   // 2. Initialize the ServicesPlanController with the provided service
   const servicesPlanController = new ServicesPlanController(servicesPlanService);
+  const eligibilityController = new EligibilityController();
+  const priorAuthorizationController = new PriorAuthorizationController();
+
+  // Load services plans before changes so the audit trail can record a before/after diff
+  const servicesPlanRepository = new ServicesPlanRepository();
+  const loadServicesPlan = (req: Request) => servicesPlanRepository.findById(req.params.id);
 
   // 3. Define routes for needs assessment operations
   router.post(
     '/needs-assessments',
     authenticate,
-    authorize([Roles.CASE_MANAGER]),
+    requirePermission('assess:client-needs'),
     validateBody(createNeedsAssessmentSchema),
+    auditTrail({ action: AuditAction.CREATE, resourceType: AuditResourceType.SERVICES_PLAN }),
     (req, res, next) => servicesPlanController.createNeedsAssessment(req, res, next)
   );
 
   router.get(
     '/needs-assessments/:id',
     authenticate,
-    authorize([Roles.CASE_MANAGER, Roles.CLIENT]),
+    requirePermission('view:own-service-plans'),
     validateParams(servicesPlanParamsSchema),
+    auditTrail({ action: AuditAction.READ, resourceType: AuditResourceType.SERVICES_PLAN }),
     (req, res, next) => servicesPlanController.getNeedsAssessment(req, res, next)
   );
 
   router.get(
     '/clients/:clientId/needs-assessments',
     authenticate,
-    authorize([Roles.CASE_MANAGER, Roles.CLIENT]),
+    requirePermission('view:own-service-plans'),
     validateParams(servicesPlanParamsSchema),
+    auditTrail({ action: AuditAction.READ, resourceType: AuditResourceType.SERVICES_PLAN }),
     (req, res, next) => servicesPlanController.getNeedsAssessmentsByClientId(req, res, next)
   );
 
+  router.get(
+    '/clients/:clientId/needs-assessments/score-trends',
+    authenticate,
+    requirePermission('view:own-service-plans'),
+    validateParams(clientParamsSchema),
+    auditTrail({ action: AuditAction.READ, resourceType: AuditResourceType.SERVICES_PLAN }),
+    asyncHandler((req, res, next) => servicesPlanController.getAssessmentScoreTrends(req, res, next))
+  );
+
+  // Standardized assessment instruments that needs assessments can include
+  router.get(
+    '/assessment-instruments',
+    authenticate,
+    requirePermission('assess:client-needs'),
+    (req, res, next) => servicesPlanController.getAssessmentInstruments(req, res, next)
+  );
+
+  router.get(
+    '/assessment-instruments/:code',
+    authenticate,
+    requirePermission('assess:client-needs'),
+    validateParams(assessmentInstrumentParamsSchema),
+    validateQuery(assessmentInstrumentQuerySchema),
+    (req, res, next) => servicesPlanController.getAssessmentInstrument(req, res, next)
+  );
+
   // 4. Define routes for services plan CRUD operations
   router.post(
     '/',
     authenticate,
-    authorize([Roles.CASE_MANAGER]),
+    requirePermission('create:service-plans'),
     validateBody(createServicesPlanSchema),
+    auditTrail({ action: AuditAction.CREATE, resourceType: AuditResourceType.SERVICES_PLAN }),
     (req, res, next) => servicesPlanController.createServicesPlan(req, res, next)
   );
 
   router.get(
     '/:id',
     authenticate,
-    authorize([Roles.CASE_MANAGER, Roles.CLIENT]),
+    requirePermission('view:own-service-plans'),
     validateParams(servicesPlanParamsSchema),
+    auditTrail({ action: AuditAction.READ, resourceType: AuditResourceType.SERVICES_PLAN }),
     (req, res, next) => servicesPlanController.getServicesPlanById(req, res, next)
   );
 
   router.get(
     '/',
     authenticate,
-    authorize([Roles.CASE_MANAGER, Roles.CLIENT]),
+    requirePermission('view:own-service-plans'),
     validateQuery(servicesPlanFilterSchema),
+    auditTrail({ action: AuditAction.READ, resourceType: AuditResourceType.SERVICES_PLAN }),
     (req, res, next) => servicesPlanController.getServicesPlans(req, res, next)
   );
 
   router.put(
     '/:id',
     authenticate,
-    authorize([Roles.CASE_MANAGER]),
+    requirePermission('edit:service-plans'),
     validateParams(servicesPlanParamsSchema),
     validateBody(updateServicesPlanSchema),
+    auditTrail({ action: AuditAction.UPDATE, resourceType: AuditResourceType.SERVICES_PLAN, loadBefore: loadServicesPlan }),
     (req, res, next) => servicesPlanController.updateServicesPlan(req, res, next)
   );
 
   router.post(
     '/:id/approve',
     authenticate,
-    authorize([Roles.ADMINISTRATOR, Roles.CASE_MANAGER]),
+    requirePermission('approve:service-requests'),
     validateParams(servicesPlanParamsSchema),
     validateBody(approveServicesPlanSchema),
+    auditTrail({ action: AuditAction.UPDATE, resourceType: AuditResourceType.SERVICES_PLAN, loadBefore: loadServicesPlan }),
     (req, res, next) => servicesPlanController.approveServicesPlan(req, res, next)
   );
 
   router.delete(
     '/:id',
     authenticate,
-    authorize([Roles.ADMINISTRATOR]),
+    requirePermission('delete:records'),
     validateParams(servicesPlanParamsSchema),
+    auditTrail({ action: AuditAction.DELETE, resourceType: AuditResourceType.SERVICES_PLAN, loadBefore: loadServicesPlan }),
     (req, res, next) => servicesPlanController.deleteServicesPlan(req, res, next)
   );
 
@@ -106,7 +159,7 @@ export default function createServicesPlanRouter(servicesPlanService: IServicesP
   router.post(
     '/generate',
     authenticate,
-    authorize([Roles.CASE_MANAGER, Roles.CLIENT]),
+    requirePermission('request:services'),
     validateBody(generateServicesPlanSchema),
     (req, res, next) => servicesPlanController.generateServicesPlanOptions(req, res, next)
   );
@@ -114,19 +167,82 @@ export default function createServicesPlanRouter(servicesPlanService: IServicesP
   router.get(
     '/:id/costs',
     authenticate,
-    authorize([Roles.CASE_MANAGER, Roles.CLIENT]),
+    requirePermission('view:own-service-plans'),
     validateParams(servicesPlanParamsSchema),
     (req, res, next) => servicesPlanController.estimateCosts(req, res, next)
   );
 
+  router.get(
+    '/:id/utilization',
+    authenticate,
+    requirePermission('view:own-service-plans'),
+    validateParams(servicesPlanParamsSchema),
+    asyncHandler((req, res, next) => servicesPlanController.getServiceItemUtilization(req, res, next))
+  );
+
   router.get(
     '/clients/:clientId/services-plans/:id/funding',
     authenticate,
-    authorize([Roles.CASE_MANAGER, Roles.CLIENT]),
+    requirePermission('view:own-service-plans'),
     validateParams(servicesPlanParamsSchema),
     (req, res, next) => servicesPlanController.identifyFundingSources(req, res, next)
   );
 
+  // Insurance eligibility checks of a plan's funding sources
+  router.post(
+    '/:id/funding-sources/:fundingSourceId/eligibility',
+    authenticate,
+    requirePermission('edit:service-plans'),
+    validateParams(fundingSourceParamsSchema),
+    auditTrail({ action: AuditAction.UPDATE, resourceType: AuditResourceType.SERVICES_PLAN, loadBefore: loadServicesPlan }),
+    asyncHandler((req, res, next) => eligibilityController.verifyFundingSource(req, res, next))
+  );
+
+  router.get(
+    '/:id/funding-sources/:fundingSourceId/eligibility',
+    authenticate,
+    requirePermission('view:own-service-plans'),
+    validateParams(fundingSourceParamsSchema),
+    asyncHandler((req, res, next) => eligibilityController.getEligibilityChecks(req, res, next))
+  );
+
+  // Prior authorizations of a plan's service items
+  router.get(
+    '/:id/prior-authorizations',
+    authenticate,
+    requirePermission('view:own-service-plans'),
+    validateParams(servicesPlanParamsSchema),
+    asyncHandler((req, res, next) => priorAuthorizationController.listPriorAuthorizations(req, res, next))
+  );
+
+  router.post(
+    '/:id/prior-authorizations',
+    authenticate,
+    requirePermission('edit:service-plans'),
+    validateParams(servicesPlanParamsSchema),
+    validateBody(createPriorAuthorizationSchema),
+    auditTrail({ action: AuditAction.UPDATE, resourceType: AuditResourceType.SERVICES_PLAN, loadBefore: loadServicesPlan }),
+    asyncHandler((req, res, next) => priorAuthorizationController.createPriorAuthorization(req, res, next))
+  );
+
+  router.get(
+    '/:id/prior-authorizations/:priorAuthorizationId',
+    authenticate,
+    requirePermission('view:own-service-plans'),
+    validateParams(priorAuthorizationParamsSchema),
+    asyncHandler((req, res, next) => priorAuthorizationController.getPriorAuthorization(req, res, next))
+  );
+
+  router.put(
+    '/:id/prior-authorizations/:priorAuthorizationId',
+    authenticate,
+    requirePermission('edit:service-plans'),
+    validateParams(priorAuthorizationParamsSchema),
+    validateBody(updatePriorAuthorizationSchema),
+    auditTrail({ action: AuditAction.UPDATE, resourceType: AuditResourceType.SERVICES_PLAN, loadBefore: loadServicesPlan }),
+    asyncHandler((req, res, next) => priorAuthorizationController.updatePriorAuthorization(req, res, next))
+  );
+
   // 6. Apply appropriate middleware to each route (authentication, authorization, validation)
 
   // 7. Return the configured router
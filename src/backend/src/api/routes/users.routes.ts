@@ -1,8 +1,8 @@
-# src/backend/src/api/routes/users.routes.ts
-```typescript
-import { Router } from 'express'; // express@4.18.2
-import { authenticate, authorize } from '../middlewares/auth.middleware';
+import { Router, Request } from 'express'; // express@4.18.2
+import { authenticate, requirePermission } from '../middlewares/auth.middleware';
+import { asyncHandler } from '../middlewares/error.middleware';
 import { validateBody, validateParams, validateQuery } from '../middlewares/validation.middleware';
+import { auditTrail } from '../middlewares/audit.middleware';
 import { 
   getUserProfile, 
   getUserById,
@@ -12,17 +12,57 @@ import {
   deleteUser, 
   searchUsers,
   getUsersByRole,
-  reactivateUser
+  reactivateUser,
+  updateUserRole
 } from '../controllers/users.controller';
+import { MedicalHistoryController } from '../controllers/medical-history.controller';
 import { 
   userIdSchema, 
   profileUpdateSchema, 
   userPreferencesSchema, 
   userSearchSchema, 
   userRoleSchema,
-  paginationSchema
+  paginationSchema,
+  medicalHistoryBundleSchema,
+  medicalHistoryConflictParamsSchema,
+  medicalHistoryConflictFilterSchema,
+  resolveMedicalHistoryConflictSchema
 } from '../validators/users.validator';
-import { Roles } from '../../constants/roles';
+import { AuditAction, AuditResourceType } from '../../models/audit-log.model';
+import { AuthenticatedRequest } from '../../interfaces/auth.interface';
+import { UserRepository } from '../../repositories/user.repository';
+import { createMedicalHistoryService } from '../../services/medical-history.service';
+
+/**
+ * Loads a user's account and profile in the shape returned by the profile endpoints,
+ * so the audit trail can record a before/after diff
+ * @param userRepository Repository used to load the user
+ * @param userId ID of the user to load
+ * @returns The user and their role-specific profile, or null if not found
+ */
+async function loadClientRecord(userRepository: UserRepository, userId: string): Promise<Record<string, any> | null> {
+  const userWithProfile = await userRepository.findWithProfile({ id: userId });
+  if (!userWithProfile) {
+    return null;
+  }
+
+  const { user } = userWithProfile;
+  return {
+    user: {
+      id: user.id,
+      email: user.email,
+      firstName: user.firstName,
+      lastName: user.lastName,
+      role: user.role,
+      isVerified: user.isVerified,
+      createdAt: user.createdAt,
+    },
+    profile: userWithProfile.clientProfile ||
+      userWithProfile.providerProfile ||
+      userWithProfile.caseManagerProfile ||
+      userWithProfile.adminProfile,
+  };
+}
 
 /**
  * Creates and configures the Express router for user-related API endpoints
@@ -32,23 +72,141 @@ function createUserRouter(): Router {
   // Create a new Express Router instance
   const router = Router();
 
+  // Load users before changes so the audit trail can record a before/after diff
+  const userRepository = new UserRepository();
+  const getSelfId = (req: Request): string => (req as AuthenticatedRequest).user.userId;
+  const getTargetId = (req: Request): string => req.params.id;
+  const loadUser = async (req: Request): Promise<Record<string, any> | null> => {
+    const user = await userRepository.findById(req.params.id);
+    if (!user) {
+      return null;
+    }
+    const { passwordHash, ...userWithoutPassword } = user;
+    return userWithoutPassword;
+  };
+
   // Configure routes for user profile management
   router.get('/profile', authenticate, getUserProfile);
-  router.put('/profile', authenticate, validateBody(profileUpdateSchema), updateUserProfile);
+  router.put(
+    '/profile',
+    authenticate,
+    validateBody(profileUpdateSchema),
+    auditTrail({
+      action: AuditAction.UPDATE,
+      resourceType: AuditResourceType.CLIENT_RECORD,
+      getResourceId: getSelfId,
+      getSubjectId: getSelfId,
+      loadBefore: (req) => loadClientRecord(userRepository, getSelfId(req))
+    }),
+    asyncHandler(updateUserProfile)
+  );
 
   // Configure routes for user preferences management
   router.get('/preferences', authenticate, getUserProfile);
   router.put('/preferences', authenticate, validateBody(userPreferencesSchema), updateUserPreferences);
 
   // Configure routes for user search and filtering
-  router.get('/', authenticate, authorize([Roles.ADMINISTRATOR, Roles.CASE_MANAGER]), validateQuery(userSearchSchema), searchUsers);
+  router.get('/', authenticate, requirePermission('view:client-records'), validateQuery(userSearchSchema), asyncHandler(searchUsers));
 
   // Configure routes for administrative user operations
-  router.get('/:id', authenticate, authorize([Roles.ADMINISTRATOR]), validateParams(userIdSchema), getUserById);
-  router.put('/:id', authenticate, authorize([Roles.ADMINISTRATOR]), validateParams(userIdSchema), validateBody(profileUpdateSchema), updateUser);
-  router.delete('/:id', authenticate, authorize([Roles.ADMINISTRATOR]), validateParams(userIdSchema), deleteUser);
-  router.put('/:id/reactivate', authenticate, authorize([Roles.ADMINISTRATOR]), validateParams(userIdSchema), reactivateUser);
-  router.get('/role/:role', authenticate, authorize([Roles.ADMINISTRATOR]), validateParams(userRoleSchema), validateQuery(paginationSchema), getUsersByRole);
+  router.get(
+    '/:id',
+    authenticate,
+    requirePermission('manage:users'),
+    validateParams(userIdSchema),
+    auditTrail({ action: AuditAction.READ, resourceType: AuditResourceType.CLIENT_RECORD, getSubjectId: getTargetId }),
+    asyncHandler(getUserById)
+  );
+  router.put(
+    '/:id',
+    authenticate,
+    requirePermission('manage:users'),
+    validateParams(userIdSchema),
+    validateBody(profileUpdateSchema),
+    auditTrail({
+      action: AuditAction.UPDATE,
+      resourceType: AuditResourceType.CLIENT_RECORD,
+      getSubjectId: getTargetId,
+      loadBefore: (req) => loadClientRecord(userRepository, req.params.id)
+    }),
+    asyncHandler(updateUser)
+  );
+  router.delete(
+    '/:id',
+    authenticate,
+    requirePermission('delete:records'),
+    validateParams(userIdSchema),
+    auditTrail({
+      action: AuditAction.DELETE,
+      resourceType: AuditResourceType.CLIENT_RECORD,
+      getSubjectId: getTargetId,
+      loadBefore: (req) => loadClientRecord(userRepository, req.params.id)
+    }),
+    asyncHandler(deleteUser)
+  );
+  router.put(
+    '/:id/reactivate',
+    authenticate,
+    requirePermission('manage:users'),
+    validateParams(userIdSchema),
+    auditTrail({ action: AuditAction.UPDATE, resourceType: AuditResourceType.CLIENT_RECORD, getSubjectId: getTargetId }),
+    asyncHandler(reactivateUser)
+  );
+  router.put(
+    '/:id/role',
+    authenticate,
+    requirePermission('manage:permissions'),
+    validateParams(userIdSchema),
+    validateBody(userRoleSchema),
+    auditTrail({
+      action: AuditAction.UPDATE,
+      resourceType: AuditResourceType.USER_ROLE,
+      getSubjectId: getTargetId,
+      loadBefore: loadUser
+    }),
+    asyncHandler(updateUserRole)
+  );
+  router.get('/role/:role', authenticate, requirePermission('manage:users'), validateParams(userRoleSchema), validateQuery(paginationSchema), asyncHandler(getUsersByRole));
+
+  // Configure routes for importing client medical history and reviewing import conflicts
+  const medicalHistoryController = new MedicalHistoryController(createMedicalHistoryService());
+  router.post(
+    '/:id/medical-history/import',
+    authenticate,
+    requirePermission('manage:medical-history'),
+    validateParams(userIdSchema),
+    validateBody(medicalHistoryBundleSchema),
+    auditTrail({
+      action: AuditAction.UPDATE,
+      resourceType: AuditResourceType.CLIENT_RECORD,
+      getSubjectId: getTargetId,
+      loadBefore: (req) => loadClientRecord(userRepository, req.params.id)
+    }),
+    asyncHandler((req, res, next) => medicalHistoryController.importMedicalHistory(req, res, next))
+  );
+  router.get(
+    '/:id/medical-history/conflicts',
+    authenticate,
+    requirePermission('manage:medical-history'),
+    validateParams(userIdSchema),
+    validateQuery(medicalHistoryConflictFilterSchema),
+    auditTrail({ action: AuditAction.READ, resourceType: AuditResourceType.CLIENT_RECORD, getSubjectId: getTargetId }),
+    asyncHandler((req, res, next) => medicalHistoryController.getConflicts(req, res, next))
+  );
+  router.post(
+    '/:id/medical-history/conflicts/:conflictId/resolve',
+    authenticate,
+    requirePermission('manage:medical-history'),
+    validateParams(medicalHistoryConflictParamsSchema),
+    validateBody(resolveMedicalHistoryConflictSchema),
+    auditTrail({
+      action: AuditAction.UPDATE,
+      resourceType: AuditResourceType.CLIENT_RECORD,
+      getSubjectId: getTargetId,
+      loadBefore: (req) => loadClientRecord(userRepository, req.params.id)
+    }),
+    asyncHandler((req, res, next) => medicalHistoryController.resolveConflict(req, res, next))
+  );
 
   // Return the configured router
   return router;
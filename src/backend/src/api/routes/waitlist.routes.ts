@@ -0,0 +1,103 @@
+import { Router } from 'express'; // express@^4.18.2
+import { WaitlistController } from '../controllers/waitlist.controller';
+import { authenticate, requirePermission } from '../middlewares/auth.middleware';
+import { asyncHandler } from '../middlewares/error.middleware';
+import { validateBody, validateParams, validateQuery } from '../middlewares/validation.middleware';
+import {
+  createWaitlistEntrySchema,
+  waitlistEntryParamsSchema,
+  waitlistOfferParamsSchema,
+  waitlistEntryFilterSchema,
+  waitlistOfferFilterSchema,
+  waitEstimateQuerySchema
+} from '../validators/waitlist.validator';
+import { createWaitlistService } from '../../services/waitlist.service';
+import { createBookingsService } from '../../services/bookings.service';
+
+/**
+ * Creates and configures an Express router for waitlist endpoints
+ * @returns Configured Express router with waitlist routes
+ */
+const createWaitlistRouter = (): Router => {
+  // Create a new Express Router instance
+  const router = Router();
+
+  // Initialize the waitlist controller with a waitlist service that can book accepted offers
+  const waitlistController = new WaitlistController(createWaitlistService(createBookingsService()));
+
+  // Route for adding a client to a provider's waitlist
+  router.post(
+    '/',
+    authenticate,
+    requirePermission('schedule:appointments'),
+    validateBody(createWaitlistEntrySchema),
+    asyncHandler((req, res, next) => waitlistController.joinWaitlist(req, res, next))
+  );
+
+  // Route for listing waitlist entries
+  router.get(
+    '/',
+    authenticate,
+    requirePermission('view:own-appointments'),
+    validateQuery(waitlistEntryFilterSchema),
+    asyncHandler((req, res, next) => waitlistController.getEntries(req, res, next))
+  );
+
+  // Route for estimating the wait for a provider before joining their waitlist
+  router.get(
+    '/estimate',
+    authenticate,
+    requirePermission('view:matched-providers'),
+    validateQuery(waitEstimateQuerySchema),
+    asyncHandler((req, res, next) => waitlistController.getWaitEstimate(req, res, next))
+  );
+
+  // Routes for the slots offered to waitlisted clients
+  router.get(
+    '/offers',
+    authenticate,
+    requirePermission('view:own-appointments'),
+    validateQuery(waitlistOfferFilterSchema),
+    asyncHandler((req, res, next) => waitlistController.getOffers(req, res, next))
+  );
+
+  router.post(
+    '/offers/:offerId/accept',
+    authenticate,
+    requirePermission('schedule:appointments'),
+    validateParams(waitlistOfferParamsSchema),
+    asyncHandler((req, res, next) => waitlistController.acceptOffer(req, res, next))
+  );
+
+  router.post(
+    '/offers/:offerId/decline',
+    authenticate,
+    requirePermission('schedule:appointments'),
+    validateParams(waitlistOfferParamsSchema),
+    asyncHandler((req, res, next) => waitlistController.declineOffer(req, res, next))
+  );
+
+  // Route for getting a waitlist entry with its estimated wait
+  router.get(
+    '/:entryId',
+    authenticate,
+    requirePermission('view:own-appointments'),
+    validateParams(waitlistEntryParamsSchema),
+    asyncHandler((req, res, next) => waitlistController.getEntryById(req, res, next))
+  );
+
+  // Route for leaving a waitlist
+  router.post(
+    '/:entryId/cancel',
+    authenticate,
+    requirePermission('schedule:appointments'),
+    validateParams(waitlistEntryParamsSchema),
+    asyncHandler((req, res, next) => waitlistController.cancelEntry(req, res, next))
+  );
+
+  // Return the configured router
+  return router;
+};
+
+// Export the router factory function as the default export
+export default createWaitlistRouter;
@@ -0,0 +1,53 @@
+import { Router } from 'express'; // express@^4.18.2
+import { PaymentsController } from '../controllers/payments.controller';
+import { CalendarSyncController } from '../controllers/calendar-sync.controller';
+import { ReminderController } from '../controllers/reminder.controller';
+import { asyncHandler } from '../middlewares/error.middleware';
+import { validateParams } from '../middlewares/validation.middleware';
+import { calendarWebhookParamsSchema } from '../validators/providers.validator';
+import { jsonBodyParser, rawBodyParser, urlencodedParser } from '../../middleware/body-parser.middleware';
+import { PaymentProcessingService } from '../../services/payment/payment-processing.service';
+
+/**
+ * Creates and configures an Express router for inbound webhooks from external providers.
+ * Webhooks are not authenticated with user tokens; each delivery is verified by its signature,
+ * or for calendar notifications by the secret set when the subscription was created.
+ * @returns Configured Express router with webhook routes
+ */
+const createWebhooksRouter = (): Router => {
+  // Create a new Express Router instance
+  const router = Router();
+
+  // Initialize the payments controller with the payment processing service
+  const paymentsController = new PaymentsController(new PaymentProcessingService());
+  const calendarSyncController = new CalendarSyncController();
+  const reminderController = new ReminderController();
+
+  // Route for Stripe events; the raw body is kept for signature verification
+  router.post(
+    '/stripe',
+    rawBodyParser(),
+    asyncHandler((req, res, next) => paymentsController.handleStripeWebhook(req, res, next))
+  );
+
+  // Route for change notifications from connected Google and Microsoft calendars
+  router.post(
+    '/calendar/:calendarProvider',
+    jsonBodyParser(),
+    validateParams(calendarWebhookParamsSchema),
+    asyncHandler((req, res, next) => calendarSyncController.handleCalendarWebhook(req, res, next))
+  );
+
+  // Route for clients' SMS replies to appointment reminders; Twilio posts form-encoded bodies
+  router.post(
+    '/twilio/sms',
+    urlencodedParser(),
+    asyncHandler((req, res, next) => reminderController.handleSmsReply(req, res, next))
+  );
+
+  // Return the configured router
+  return router;
+};
+
+// Export the router factory function as the default export
+export default createWebhooksRouter;
@@ -8,7 +8,8 @@ import {
   METRIC_CATEGORIES, 
   TIME_PERIODS, 
   DASHBOARD_WIDGET_TYPES, 
-  REPORT_FORMATS 
+  REPORT_FORMATS, 
+  REPORT_SCHEDULE_FREQUENCIES 
 } from '../../constants/metrics';
 import { Roles } from '../../constants/roles';
 
@@ -53,6 +54,44 @@ export const reportRequestSchema = z.object({
   filters: z.record(z.any()).optional()
 });
 
+/**
+ * Validation schema for the fields shared by report schedule requests
+ * The saved definition omits the reporting range, which each delivery derives from the schedule
+ */
+const reportScheduleFieldsSchema = z.object({
+  definition: reportRequestSchema.omit({ startDate: true, endDate: true, format: true }),
+  frequency: z.enum(REPORT_SCHEDULE_FREQUENCIES),
+  dayOfWeek: z.number().int().min(0).max(6).optional(),
+  dayOfMonth: z.number().int().min(1).max(28).optional(),
+  hour: z.number().int().min(0).max(23).default(8),
+  recipients: z.array(z.string().email()).min(1).max(50),
+  format: z.enum(REPORT_FORMATS).default('pdf'),
+  isActive: z.boolean().optional()
+});
+
+/**
+ * Validation schema for creating a report schedule
+ * Weekly schedules need a day of the week; monthly and quarterly schedules a day of the month
+ */
+export const createReportScheduleSchema = reportScheduleFieldsSchema.refine(
+  data => data.frequency === 'weekly' ? data.dayOfWeek !== undefined : data.dayOfMonth !== undefined,
+  { message: 'Weekly schedules require dayOfWeek; monthly and quarterly schedules require dayOfMonth' }
+);
+
+/**
+ * Validation schema for updating a report schedule
+ */
+export const updateReportScheduleSchema = reportScheduleFieldsSchema
+  .extend({ hour: z.number().int().min(0).max(23) })
+  .partial();
+
+/**
+ * Validation schema for report schedule route parameters
+ */
+export const reportScheduleParamsSchema = z.object({
+  id: z.string().uuid()
+});
+
 /**
  * Validation schema for data export request parameters
  * Used to validate requests for exporting analytics data
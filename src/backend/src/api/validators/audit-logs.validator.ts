@@ -0,0 +1,65 @@
+/**
+ * Zod validation schemas for audit log API requests
+ *
+ * This file defines validation schemas for querying and exporting the audit
+ * trail. Exports share the query filters but are not paginated.
+ */
+
+import { z } from 'zod'; // zod@3.22.2
+import { AuditAction, AuditExportFormat, AuditResourceType } from '../../models/audit-log.model';
+import { validateId } from '../../utils/validation';
+
+/**
+ * Schema for audit log filters shared by queries and exports
+ */
+const auditLogFiltersSchema = z.object({
+  // Optional actor filter
+  actorId: z.string().refine(validateId, {
+    message: 'Actor ID must be a valid UUID'
+  }).optional(),
+
+  // Optional action filter
+  action: z.nativeEnum(AuditAction).optional(),
+
+  // Optional resource filters
+  resourceType: z.nativeEnum(AuditResourceType).optional(),
+  resourceId: z.coerce.string().optional(),
+
+  // Optional client filter for access accounting
+  subjectId: z.string().refine(validateId, {
+    message: 'Subject ID must be a valid UUID'
+  }).optional(),
+
+  // Optional request correlation filter
+  requestId: z.coerce.string().optional(),
+
+  // Optional date range filters
+  startDate: z.coerce.date().optional(),
+  endDate: z.coerce.date().optional()
+});
+
+/**
+ * Schema for validating audit log query parameters
+ */
+export const auditLogFilterSchema = auditLogFiltersSchema.extend({
+  // Pagination parameters
+  page: z.coerce.number().int().positive().default(1),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+
+  // Sorting by creation time
+  sortOrder: z.enum(['asc', 'desc']).default('desc')
+}).refine(data => !data.startDate || !data.endDate || data.endDate >= data.startDate, {
+  message: 'End date must be on or after start date',
+  path: ['endDate']
+});
+
+/**
+ * Schema for validating audit log export parameters
+ */
+export const auditLogExportSchema = auditLogFiltersSchema.extend({
+  // Export file format
+  format: z.nativeEnum(AuditExportFormat).default(AuditExportFormat.CSV)
+}).refine(data => !data.startDate || !data.endDate || data.endDate >= data.startDate, {
+  message: 'End date must be on or after start date',
+  path: ['endDate']
+});
@@ -156,4 +156,81 @@ export const resendVerificationEmailSchema = z.object({
       (value) => validateEmail(value),
       { message: 'Please provide a valid email address' }
     )
-});
\ No newline at end of file
+});
+/**
+ * Validation schema for a TOTP code from an authenticator app.
+ */
+const totpCodeSchema = z
+  .string({ required_error: 'Verification code is required' })
+  .trim()
+  .regex(/^\d{6}$/, 'Verification code must be 6 digits');
+
+/**
+ * Validation schema for a single-use MFA recovery code.
+ */
+const recoveryCodeSchema = z
+  .string({ required_error: 'Recovery code is required' })
+  .trim()
+  .min(1, 'Recovery code cannot be empty')
+  .max(32, 'Recovery code is too long');
+
+/**
+ * Validation schema for MFA challenge tokens returned by login.
+ */
+const mfaTokenSchema = z
+  .string({ required_error: 'MFA token is required' })
+  .min(1, 'MFA token cannot be empty');
+
+/**
+ * Validation schema for requests proving possession of the second factor.
+ * Exactly one of a TOTP code or a recovery code must be provided.
+ */
+export const mfaCodeSchema = z.object({
+  code: totpCodeSchema.optional(),
+  recoveryCode: recoveryCodeSchema.optional()
+}).refine(
+  (data) => !!data.code !== !!data.recoveryCode,
+  { message: 'Provide either a verification code or a recovery code', path: ['code'] }
+);
+
+/**
+ * Validation schema for MFA enrollment confirmation requests.
+ */
+export const mfaEnableSchema = z.object({
+  code: totpCodeSchema
+});
+
+/**
+ * Validation schema for completing a two-step login.
+ */
+export const mfaVerifySchema = z.object({
+  mfaToken: mfaTokenSchema,
+  code: totpCodeSchema.optional(),
+  recoveryCode: recoveryCodeSchema.optional()
+}).refine(
+  (data) => !!data.code !== !!data.recoveryCode,
+  { message: 'Provide either a verification code or a recovery code', path: ['code'] }
+);
+
+/**
+ * Validation schema for starting MFA enrollment during login.
+ */
+export const mfaEnrollSchema = z.object({
+  mfaToken: mfaTokenSchema
+});
+
+/**
+ * Validation schema for the role parameter of MFA policy requests.
+ */
+export const mfaPolicyParamsSchema = z.object({
+  role: z.nativeEnum(Roles, {
+    errorMap: () => ({ message: 'Please select a valid role' })
+  })
+});
+
+/**
+ * Validation schema for MFA policy updates.
+ */
+export const mfaPolicyUpdateSchema = z.object({
+  isRequired: z.boolean({ required_error: 'isRequired is required' })
+});
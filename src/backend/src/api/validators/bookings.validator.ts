@@ -0,0 +1,277 @@
+/**
+ * Zod validation schemas for booking-related API requests
+ *
+ * This file defines validation schemas for booking creation, recurring series,
+ * rescheduling, cancellation, status updates, filtering and policy violations. These schemas ensure that all
+ * data sent to the API conforms to the expected formats before processing.
+ */
+
+import { z } from 'zod'; // zod@3.22.2
+import { BookingStatus, RecurrenceFrequency, SeriesScope } from '../../models/booking.model';
+import { ServiceType } from '../../constants/service-types';
+import { DayOfWeek } from '../../types/provider.types';
+import { PolicyViolationStatus, PolicyViolationType } from '../../types/booking-policy.types';
+import { validateId } from '../../utils/validation';
+
+/**
+ * Schema for validating a booking time window
+ *
+ * Shared by creation and rescheduling to enforce ordering of start and end times.
+ */
+const bookingTimeWindowSchema = z.object({
+  // Appointment start time
+  startTime: z.coerce.date().refine(date => date > new Date(), {
+    message: 'Start time must be in the future'
+  }),
+
+  // Appointment end time
+  endTime: z.coerce.date(),
+
+  // Type of service being booked, used to match provider availability
+  serviceType: z.nativeEnum(ServiceType, {
+    errorMap: () => ({ message: 'Service type must be a valid service type' })
+  })
+});
+
+/**
+ * Schema for the reason a case manager gives to book beyond a service item's authorized units
+ */
+const authorizationOverrideReasonSchema = z.string().trim().min(3, {
+  message: 'Override reason must be at least 3 characters'
+}).max(500, {
+  message: 'Override reason must not exceed 500 characters'
+}).nullable().optional().default(null);
+
+/**
+ * Schema for the fields of a new booking, shared by single bookings and recurring series
+ */
+const createBookingFieldsSchema = bookingTimeWindowSchema.extend({
+  // Client receiving the service
+  clientId: z.string().refine(validateId, {
+    message: 'Client ID is required and must be a valid UUID'
+  }),
+
+  // Provider delivering the service
+  providerId: z.string().refine(validateId, {
+    message: 'Provider ID is required and must be a valid UUID'
+  }),
+
+  // Optional service item from the client's services plan
+  serviceItemId: z.string().refine(validateId, {
+    message: 'Service item ID must be a valid UUID'
+  }).nullable().optional().default(null),
+
+  // Optional notes about the booking
+  notes: z.string().max(1000, {
+    message: 'Notes must not exceed 1000 characters'
+  }).nullable().optional().default(null),
+
+  // Optional location details for the appointment
+  location: z.record(z.any()).nullable().optional().default(null),
+
+  // Why the booking may go beyond the service item's authorized units, given by a case manager
+  authorizationOverrideReason: authorizationOverrideReasonSchema
+});
+
+/**
+ * Schema for validating booking creation requests
+ */
+export const createBookingSchema = createBookingFieldsSchema.refine(data => data.endTime > data.startTime, {
+  message: 'End time must be after start time',
+  path: ['endTime']
+});
+
+/**
+ * Schema for validating how a booking series repeats
+ */
+const recurrenceSchema = z.object({
+  frequency: z.nativeEnum(RecurrenceFrequency, {
+    errorMap: () => ({ message: 'Frequency must be DAILY, WEEKLY or MONTHLY' })
+  }),
+
+  // Repeat every N periods, e.g. 2 for fortnightly
+  interval: z.number().int().min(1).max(12).default(1),
+
+  // Weekdays a weekly series falls on; empty repeats on the first occurrence's weekday
+  byDay: z.array(z.nativeEnum(DayOfWeek)).max(7).default([]),
+
+  // The series ends after a number of occurrences or on a date
+  count: z.number().int().min(1).max(104).nullable().optional().default(null),
+  until: z.coerce.date().nullable().optional().default(null)
+}).refine(data => (data.count === null) !== (data.until === null), {
+  message: 'Exactly one of count or until is required',
+  path: ['count']
+}).refine(data => data.byDay.length === 0 || data.frequency === RecurrenceFrequency.WEEKLY, {
+  message: 'Days of the week can only be set for weekly series',
+  path: ['byDay']
+});
+
+/**
+ * Schema for validating recurring booking series creation requests
+ */
+export const createBookingSeriesSchema = createBookingFieldsSchema.extend({
+  recurrence: recurrenceSchema,
+
+  // Book the remaining occurrences when some conflict, instead of rejecting the series
+  skipConflicts: z.boolean().default(false)
+}).refine(data => data.endTime > data.startTime, {
+  message: 'End time must be after start time',
+  path: ['endTime']
+}).refine(data => !data.recurrence.until || data.recurrence.until >= data.startTime, {
+  message: 'Series end date must not be before the first occurrence',
+  path: ['recurrence', 'until']
+});
+
+/**
+ * Schema for validating which occurrences of a recurring series an edit applies to
+ */
+const seriesScopeSchema = z.nativeEnum(SeriesScope).default(SeriesScope.OCCURRENCE);
+
+/**
+ * Schema for validating booking reschedule requests
+ */
+export const rescheduleBookingSchema = bookingTimeWindowSchema.extend({
+  // Optional reason for rescheduling
+  reason: z.string().max(500, {
+    message: 'Reason must not exceed 500 characters'
+  }).nullable().optional().default(null),
+
+  // Which occurrences of a recurring series to move
+  scope: seriesScopeSchema,
+
+  // Why the moved bookings may go beyond the service item's authorized units, given by a case manager
+  authorizationOverrideReason: authorizationOverrideReasonSchema
+}).refine(data => data.endTime > data.startTime, {
+  message: 'End time must be after start time',
+  path: ['endTime']
+});
+
+/**
+ * Schema for validating booking cancellation requests
+ */
+export const cancelBookingSchema = z.object({
+  // Reason for cancellation
+  reason: z.string().min(3, {
+    message: 'Cancellation reason is required and must be at least 3 characters'
+  }).max(500, {
+    message: 'Cancellation reason must not exceed 500 characters'
+  }),
+
+  // Which occurrences of a recurring series to cancel
+  scope: seriesScopeSchema
+});
+
+/**
+ * Schema for validating booking URL parameters
+ */
+export const bookingParamsSchema = z.object({
+  // Booking ID in URL params
+  id: z.string().refine(validateId, {
+    message: 'Booking ID is required and must be a valid UUID'
+  })
+});
+
+/**
+ * Schema for validating booking series URL parameters
+ */
+export const bookingSeriesParamsSchema = z.object({
+  seriesId: z.string().refine(validateId, {
+    message: 'Booking series ID is required and must be a valid UUID'
+  })
+});
+
+/**
+ * Schema for validating policy violation URL parameters
+ */
+export const policyViolationParamsSchema = z.object({
+  id: z.string().refine(validateId, {
+    message: 'Policy violation ID is required and must be a valid UUID'
+  })
+});
+
+/**
+ * Schema for validating policy violation filters
+ */
+export const policyViolationFilterSchema = z.object({
+  clientId: z.string().refine(validateId, {
+    message: 'Client ID must be a valid UUID'
+  }).optional(),
+  providerId: z.string().refine(validateId, {
+    message: 'Provider ID must be a valid UUID'
+  }).optional(),
+  type: z.nativeEnum(PolicyViolationType).optional(),
+  status: z.nativeEnum(PolicyViolationStatus).optional()
+});
+
+/**
+ * Schema for validating policy violation waivers
+ */
+export const waivePolicyViolationSchema = z.object({
+  // Reason for the exception, recorded in the audit trail
+  reason: z.string().trim().min(10, {
+    message: 'Waiver reason is required and must be at least 10 characters'
+  }).max(1000, {
+    message: 'Waiver reason must not exceed 1000 characters'
+  })
+});
+
+/**
+ * Schema for validating calendar feed URL parameters
+ */
+export const calendarFeedParamsSchema = z.object({
+  // Secret token from the feed URL
+  token: z.string().min(1).max(128).regex(/^[A-Za-z0-9]+$/, {
+    message: 'Calendar feed token is invalid'
+  })
+});
+
+/**
+ * Schema for validating upcoming bookings query parameters
+ */
+export const upcomingBookingsQuerySchema = z.object({
+  // Maximum number of upcoming bookings to return
+  limit: z.coerce.number().int().min(1).max(50).default(10)
+});
+
+/**
+ * Schema for validating booking filter and pagination parameters
+ */
+export const bookingFilterSchema = z.object({
+  // Optional client ID filter
+  clientId: z.string().refine(validateId, {
+    message: 'Client ID must be a valid UUID'
+  }).optional(),
+
+  // Optional provider ID filter
+  providerId: z.string().refine(validateId, {
+    message: 'Provider ID must be a valid UUID'
+  }).optional(),
+
+  // Optional service item ID filter
+  serviceItemId: z.string().refine(validateId, {
+    message: 'Service item ID must be a valid UUID'
+  }).optional(),
+
+  // Optional recurring series ID filter
+  seriesId: z.string().refine(validateId, {
+    message: 'Booking series ID must be a valid UUID'
+  }).optional(),
+
+  // Optional status filter
+  status: z.nativeEnum(BookingStatus).optional(),
+
+  // Optional date range filters
+  startDate: z.coerce.date().optional(),
+  endDate: z.coerce.date().optional(),
+
+  // Pagination parameters
+  page: z.coerce.number().int().positive().default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(10),
+
+  // Sorting parameters
+  sortBy: z.enum(['startTime', 'endTime', 'createdAt', 'status']).default('startTime'),
+  sortOrder: z.enum(['asc', 'desc']).default('asc')
+}).refine(data => !data.startDate || !data.endDate || data.endDate >= data.startDate, {
+  message: 'End date must be on or after start date',
+  path: ['endDate']
+});
@@ -8,7 +8,7 @@
 
 import { z } from 'zod'; // zod@3.22.2
 import { PlanStatus } from '../../constants/plan-statuses';
-import { GoalStatus, InterventionStatus } from '../../types/care-plan.types';
+import { CarePlanExportFormat, GoalStatus, InterventionStatus } from '../../types/care-plan.types';
 import { validateId } from '../../utils/validation';
 
 /**
@@ -271,4 +271,136 @@ export const carePlanFilterSchema = z.object({
   // Sorting parameters
   sortBy: z.enum(['createdAt', 'updatedAt', 'title', 'status']).default('createdAt'),
   sortOrder: z.enum(['asc', 'desc']).default('desc')
-});
\ No newline at end of file
+});
+/**
+ * Schema for validating care plan goal URL parameters
+ * 
+ * Validates the care plan and goal IDs used in goal progress endpoints.
+ */
+export const goalParamsSchema = z.object({
+  // Care plan ID in URL params
+  id: z.string().refine(validateId, {
+    message: 'Care plan ID is required and must be a valid UUID'
+  }),
+  
+  // Goal ID in URL params
+  goalId: z.string().refine(validateId, {
+    message: 'Goal ID is required and must be a valid UUID'
+  })
+});
+
+/**
+ * Schema for validating care plan intervention URL parameters
+ * 
+ * Validates the care plan and intervention IDs used in intervention session endpoints.
+ */
+export const interventionParamsSchema = z.object({
+  // Care plan ID in URL params
+  id: z.string().refine(validateId, {
+    message: 'Care plan ID is required and must be a valid UUID'
+  }),
+  
+  // Intervention ID in URL params
+  interventionId: z.string().refine(validateId, {
+    message: 'Intervention ID is required and must be a valid UUID'
+  })
+});
+
+/**
+ * Schema for validating goal progress recording requests
+ * 
+ * Validates a measured observation against a goal and an optional change of the goal's status.
+ */
+export const recordGoalProgressSchema = z.object({
+  // Measured value of the observation
+  value: z.number({
+    required_error: 'Value is required',
+    invalid_type_error: 'Value must be a number'
+  }).finite(),
+  
+  // Optional time of the observation, which cannot be in the future
+  recordedAt: z.coerce.date().optional().refine(
+    date => !date || date <= new Date(), {
+      message: 'Recorded date cannot be in the future'
+    }
+  ),
+  
+  // Optional goal measure the observation applies to
+  measure: z.string().min(1).max(200, {
+    message: 'Measure must not exceed 200 characters'
+  }).optional(),
+  
+  // Optional note describing the observation
+  note: z.string().max(1000, {
+    message: 'Note must not exceed 1000 characters'
+  }).optional(),
+  
+  // Optional new status of the goal
+  goalStatus: z.nativeEnum(GoalStatus).optional()
+});
+
+/**
+ * Schema for validating intervention session logging requests
+ * 
+ * Validates when a session took place, whether the client attended and how effective it was.
+ */
+export const logInterventionSessionSchema = z.object({
+  // Time of the session, which cannot be in the future
+  sessionDate: z.coerce.date({
+    required_error: 'Session date is required'
+  }).refine(
+    date => date <= new Date(), {
+      message: 'Session date cannot be in the future'
+    }
+  ),
+  
+  // Optional length of the session in minutes
+  durationMinutes: z.number().int().min(1).max(1440, {
+    message: 'Duration must not exceed 24 hours'
+  }).optional(),
+  
+  // Whether the client attended the session
+  attended: z.boolean({
+    required_error: 'Attendance is required'
+  }),
+  
+  // Optional effectiveness rating from 1 to 5
+  effectivenessRating: z.number().int().min(1, {
+    message: 'Effectiveness rating must be between 1 and 5'
+  }).max(5, {
+    message: 'Effectiveness rating must be between 1 and 5'
+  }).optional(),
+  
+  // Optional note describing the session
+  note: z.string().max(1000, {
+    message: 'Note must not exceed 1000 characters'
+  }).optional()
+});
+
+/**
+ * Schema for validating progress and session date range filters
+ * 
+ * Validates query parameters used for limiting progress entries and session logs to a date range.
+ */
+export const progressFilterSchema = z.object({
+  // Optional date range filters
+  fromDate: z.coerce.date().optional(),
+  toDate: z.coerce.date().optional()
+}).refine(
+  data => !data.fromDate || !data.toDate || data.fromDate <= data.toDate, {
+    message: 'From date must be before to date',
+    path: ['fromDate']
+  }
+);
+
+/**
+ * Schema for validating care plan export requests
+ * 
+ * Validates the requested export format, defaulting to a printable PDF.
+ */
+export const carePlanExportSchema = z.object({
+  // Export format: a printable PDF or a FHIR R4 CarePlan resource
+  format: z.nativeEnum(CarePlanExportFormat, {
+    errorMap: () => ({ message: 'Format must be either pdf or fhir' })
+  }).default(CarePlanExportFormat.PDF)
+});
@@ -0,0 +1,106 @@
+/**
+ * Zod validation schemas for messaging API requests
+ *
+ * This file defines validation schemas for starting conversations, sending
+ * messages, recording read receipts and paging through conversations and
+ * messages. Attachments arrive as multipart files and are validated separately.
+ */
+
+import { z } from 'zod'; // zod@3.22.2
+import { validateId } from '../../utils/validation';
+
+// Maximum length of a single message
+export const MAX_MESSAGE_LENGTH = 5000;
+
+// Maximum number of files attached to a single message
+export const MAX_MESSAGE_ATTACHMENTS = 5;
+
+/**
+ * Schema for validating conversation creation requests
+ */
+export const createConversationSchema = z.object({
+  // Client the conversation is about
+  clientId: z.string().refine(validateId, {
+    message: 'Client ID is required and must be a valid UUID'
+  }),
+
+  // Other users to include; the client is always included
+  participantIds: z.array(z.string().refine(validateId, {
+    message: 'Participant IDs must be valid UUIDs'
+  })).max(20, {
+    message: 'A conversation can have at most 20 participants'
+  }).default([]),
+
+  // Optional subject line
+  subject: z.string().trim().max(200, {
+    message: 'Subject must not exceed 200 characters'
+  }).nullable().optional().default(null),
+
+  // Optional first message
+  body: z.string().trim().max(MAX_MESSAGE_LENGTH, {
+    message: `Message must not exceed ${MAX_MESSAGE_LENGTH} characters`
+  }).nullable().optional().default(null)
+});
+
+/**
+ * Schema for validating message bodies. Text may be empty when files are attached.
+ */
+export const sendMessageSchema = z.object({
+  // Message text
+  body: z.string().max(MAX_MESSAGE_LENGTH, {
+    message: `Message must not exceed ${MAX_MESSAGE_LENGTH} characters`
+  }).optional().default('')
+});
+
+/**
+ * Schema for validating read receipt requests
+ */
+export const markReadSchema = z.object({
+  // Messages sent up to this time are marked as read; defaults to now
+  readAt: z.coerce.date().optional()
+});
+
+/**
+ * Schema for validating conversation URL parameters
+ */
+export const conversationParamsSchema = z.object({
+  // Conversation ID in URL params
+  id: z.string().refine(validateId, {
+    message: 'Conversation ID is required and must be a valid UUID'
+  })
+});
+
+/**
+ * Schema for validating attachment URL parameters
+ */
+export const attachmentParamsSchema = conversationParamsSchema.extend({
+  // Attachment ID in URL params
+  attachmentId: z.string().refine(validateId, {
+    message: 'Attachment ID is required and must be a valid UUID'
+  })
+});
+
+/**
+ * Schema for validating conversation list query parameters
+ */
+export const conversationFilterSchema = z.object({
+  // Optional client ID filter
+  clientId: z.string().refine(validateId, {
+    message: 'Client ID must be a valid UUID'
+  }).optional(),
+
+  // Pagination parameters
+  page: z.coerce.number().int().positive().default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20)
+});
+
+/**
+ * Schema for validating message list query parameters
+ */
+export const messageFilterSchema = z.object({
+  // Only return messages sent before this time
+  before: z.coerce.date().optional(),
+
+  // Maximum number of messages to return
+  limit: z.coerce.number().int().min(1).max(100).default(50)
+});
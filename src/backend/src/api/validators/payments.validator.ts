@@ -0,0 +1,73 @@
+/**
+ * Zod validation schemas for payment API requests
+ *
+ * This file defines validation schemas for paying for service items and bookings,
+ * and for cancelling and refunding payments. Stripe webhook deliveries are verified
+ * by their signature instead and have no schema.
+ */
+
+import { z } from 'zod'; // zod@3.22.2
+import { validateId } from '../../utils/validation';
+
+// Stripe payment intent IDs, e.g. pi_3MtwBwLkdIwHu7ix28a3tqPa
+const PAYMENT_INTENT_ID_PATTERN = /^pi_[A-Za-z0-9]+$/;
+
+/**
+ * Schema for validating requests to pay for service items of a services plan
+ */
+export const serviceItemsPaymentSchema = z.object({
+  // Services plan the items belong to
+  servicesPlanId: z.string().refine(validateId, {
+    message: 'Services plan ID is required and must be a valid UUID'
+  }),
+
+  // Items to pay for; all items awaiting payment when omitted
+  serviceItemIds: z.array(z.string().refine(validateId, {
+    message: 'Service item IDs must be valid UUIDs'
+  })).min(1, {
+    message: 'At least one service item ID is required when service items are specified'
+  }).max(50, {
+    message: 'At most 50 service items can be paid for at once'
+  }).optional()
+});
+
+/**
+ * Schema for validating booking URL parameters
+ */
+export const bookingPaymentParamsSchema = z.object({
+  // Booking ID in URL params
+  bookingId: z.string().refine(validateId, {
+    message: 'Booking ID is required and must be a valid UUID'
+  })
+});
+
+/**
+ * Schema for validating payment URL parameters
+ */
+export const paymentParamsSchema = z.object({
+  // Stripe payment intent ID in URL params
+  paymentIntentId: z.string().regex(PAYMENT_INTENT_ID_PATTERN, {
+    message: 'Payment intent ID is required and must be a valid Stripe payment intent ID'
+  })
+});
+
+/**
+ * Schema for validating payment cancellation requests
+ */
+export const cancelPaymentSchema = z.object({
+  // Optional cancellation reason accepted by Stripe
+  reason: z.enum(['abandoned', 'duplicate', 'fraudulent', 'requested_by_customer']).optional()
+});
+
+/**
+ * Schema for validating refund requests
+ */
+export const refundPaymentSchema = z.object({
+  // Amount to refund in cents; the full amount when omitted
+  amount: z.number().int().positive({
+    message: 'Refund amount must be a positive number of cents'
+  }).optional(),
+
+  // Optional refund reason accepted by Stripe
+  reason: z.enum(['duplicate', 'fraudulent', 'requested_by_customer']).optional()
+});
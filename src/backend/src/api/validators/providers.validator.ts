@@ -9,7 +9,8 @@
 
 import { z } from 'zod'; // zod version 3.21.4
 import { ServiceType } from '../../constants/service-types';
-import { addressSchema } from './users.validator';
+import { DayOfWeek, MatchDecision, MatchFactorName } from '../../types/provider.types';
+import { addressSchema, timezoneSchema } from './users.validator';
 
 // Regular expression patterns for validation
 const PHONE_REGEX = /^\+?[1-9]\d{1,14}$/; // E.164 format
@@ -40,6 +41,46 @@ const validateTimeSlot = (timeSlot: any): boolean => {
   return durationMinutes >= 15 && durationMinutes <= 720;
 };
 
+/**
+ * Normalizes a query list sent either as repeated parameters or comma-separated values
+ */
+const parseQueryList = (value: unknown): unknown => {
+  if (typeof value === 'string') {
+    return value.split(',').map(item => item.trim()).filter(Boolean);
+  }
+
+  return value;
+};
+
+/**
+ * Parses a JSON-encoded query object, leaving other values for the schema to reject
+ */
+const parseQueryJson = (value: unknown): unknown => {
+  if (typeof value !== 'string') {
+    return value;
+  }
+
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+};
+
+/**
+ * Parses a query location sent as a JSON object or a "latitude,longitude" pair
+ */
+const parseQueryLocation = (value: unknown): unknown => {
+  const parsed = parseQueryJson(value);
+
+  if (typeof parsed === 'string' && parsed.includes(',')) {
+    const [latitude, longitude] = parsed.split(',');
+    return { latitude, longitude };
+  }
+
+  return parsed;
+};
+
 /**
  * Schema for geographic location data (latitude/longitude)
  */
@@ -52,8 +93,8 @@ export const geoLocationSchema = z.object({
  * Schema for time slots (appointment blocks)
  */
 export const timeSlotSchema = z.object({
-  startTime: z.string().datetime('Invalid start time format'),
-  endTime: z.string().datetime('Invalid end time format')
+  startTime: z.string().datetime({ offset: true, message: 'Invalid start time format' }),
+  endTime: z.string().datetime({ offset: true, message: 'Invalid end time format' })
 }).refine(
   validateTimeSlot,
   {
@@ -65,11 +106,15 @@ export const timeSlotSchema = z.object({
  * Schema for recurring schedule (weekly availability)
  */
 export const recurringScheduleSchema = z.object({
-  dayOfWeek: z.enum(['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'], {
-    errorMap: () => ({ message: 'Invalid day of week' })
-  }),
+  dayOfWeek: z.preprocess(
+    (value) => typeof value === 'string' ? value.toUpperCase() : value,
+    z.nativeEnum(DayOfWeek, {
+      errorMap: () => ({ message: 'Invalid day of week' })
+    })
+  ),
   startTime: z.string().regex(/^([01]\d|2[0-3]):([0-5]\d)$/, 'Start time must be in HH:MM 24-hour format'),
   endTime: z.string().regex(/^([01]\d|2[0-3]):([0-5]\d)$/, 'End time must be in HH:MM 24-hour format'),
+  serviceTypes: z.array(z.nativeEnum(ServiceType)).optional(),
   isAvailable: z.boolean().default(true)
 }).refine(
   (data) => {
@@ -155,6 +200,7 @@ export const providerProfileSchema = z.object({
   specializations: z.array(z.string()).default([]),
   address: addressSchema,
   phone: z.string().regex(PHONE_REGEX, 'Invalid phone number format'),
+  timezone: timezoneSchema.optional(),
   email: z.string().email('Invalid email format'),
   website: z.string().url('Invalid website URL').optional(),
   yearsOfExperience: z.number().int().nonnegative().optional()
@@ -169,6 +215,11 @@ export const providerProfileUpdateSchema = providerProfileSchema.partial().stric
  * Schema for provider availability updates
  */
 export const availabilityUpdateSchema = z.object({
+  slots: z.array(z.object({
+    startTime: z.coerce.date(),
+    endTime: z.coerce.date(),
+    serviceType: z.nativeEnum(ServiceType).optional()
+  })).optional(),
   recurringSchedule: z.array(recurringScheduleSchema).optional(),
   exceptions: z.array(availabilityExceptionSchema).optional(),
   defaultAppointmentDuration: z.number().int().min(15, 'Minimum duration is 15 minutes').max(240, 'Maximum duration is 240 minutes').optional(),
@@ -176,78 +227,159 @@ export const availabilityUpdateSchema = z.object({
   maxDailyAppointments: z.number().int().positive().max(50, 'Maximum appointments per day cannot exceed 50').optional()
 }).strict();
 
+/**
+ * Schema for coordinates supplied in query strings or request bodies
+ */
+const coordinatesSchema = z.object({
+  latitude: z.coerce.number().min(-90, 'Invalid latitude').max(90, 'Invalid latitude'),
+  longitude: z.coerce.number().min(-180, 'Invalid longitude').max(180, 'Invalid longitude'),
+  address: z.string().optional(),
+  city: z.string().optional(),
+  state: z.string().optional(),
+  zipCode: z.coerce.string().optional()
+});
+
+/**
+ * Schema for a date range supplied in query strings or request bodies
+ */
+const dateRangeSchema = z.object({
+  startDate: z.coerce.date(),
+  endDate: z.coerce.date()
+}).refine(data => data.endDate >= data.startDate, {
+  message: 'End date must be on or after start date',
+  path: ['endDate']
+});
+
+/**
+ * Schema for a service type filter
+ */
+const serviceTypeSchema = z.nativeEnum(ServiceType, {
+  errorMap: () => ({ message: 'Invalid service type' })
+});
+
+/**
+ * Schema for provider profile retrieval options
+ */
+export const providerProfileQuerySchema = z.object({
+  includeServiceAreas: z.boolean().default(false),
+  includeReviews: z.boolean().default(false),
+  includeAvailability: z.boolean().default(false)
+});
+
 /**
  * Schema for provider search parameters
+ *
+ * Lists may be sent as repeated `key[]` parameters or comma-separated values,
+ * and objects as JSON strings, matching how the web client serializes queries.
  */
 export const providerSearchSchema = z.object({
-  query: z.string().optional(),
-  serviceType: z.enum(Object.values(ServiceType) as [string, ...string[]]).optional(),
-  location: z.object({
-    latitude: z.string().regex(LATITUDE_REGEX, 'Invalid latitude format'),
-    longitude: z.string().regex(LONGITUDE_REGEX, 'Invalid longitude format'),
-    radius: z.number().positive().max(100, 'Search radius cannot exceed 100 miles')
-  }).optional(),
-  availability: z.object({
-    startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Start date must be in YYYY-MM-DD format').optional(),
-    endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'End date must be in YYYY-MM-DD format').optional(),
-    dayOfWeek: z.enum(['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday']).optional()
-  }).optional(),
-  insurance: z.string().optional(),
-  rating: z.number().min(1).max(5).optional(),
-  yearsOfExperience: z.number().int().nonnegative().optional(),
+  serviceTypes: z.preprocess(parseQueryList, z.array(serviceTypeSchema)).optional(),
+  location: z.preprocess(parseQueryLocation, coordinatesSchema).optional(),
+  distance: z.number().positive().max(100, 'Search radius cannot exceed 100 miles').optional(),
+  zipCode: z.coerce.string().regex(/^\d{5}(-\d{4})?$/, 'Invalid ZIP code format').optional(),
+  availability: z.preprocess(parseQueryJson, dateRangeSchema).optional(),
+  insurance: z.coerce.string().optional(),
+  minRating: z.number().min(1).max(5).optional(),
+  specializations: z.preprocess(parseQueryList, z.array(z.coerce.string())).optional(),
   page: z.number().int().positive().default(1),
   limit: z.number().int().positive().max(100).default(10),
-  sortBy: z.string().default('rating'),
+  sortBy: z.enum(['rating', 'distance', 'createdAt', 'organizationName']).default('rating'),
   sortOrder: z.enum(['asc', 'desc']).default('desc')
-}).strict();
+});
 
 /**
  * Schema for provider matching criteria
  */
 export const providerMatchingSchema = z.object({
   clientId: z.string().uuid('Invalid client ID format'),
-  serviceTypes: z.array(
-    z.enum(Object.values(ServiceType) as [string, ...string[]], {
-      errorMap: () => ({ message: 'Invalid service type' })
-    })
-  ).min(1, 'At least one service type is required'),
-  location: z.object({
-    latitude: z.string().regex(LATITUDE_REGEX, 'Invalid latitude format'),
-    longitude: z.string().regex(LONGITUDE_REGEX, 'Invalid longitude format'),
-    maxDistance: z.number().positive().max(100, 'Maximum distance cannot exceed 100 miles')
-  }),
-  availability: z.object({
-    startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Start date must be in YYYY-MM-DD format'),
-    endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'End date must be in YYYY-MM-DD format').optional(),
-    preferredDays: z.array(
-      z.enum(['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'])
-    ).optional(),
-    preferredTimeRanges: z.array(
-      z.object({
-        startTime: z.string().regex(/^([01]\d|2[0-3]):([0-5]\d)$/, 'Start time must be in HH:MM 24-hour format'),
-        endTime: z.string().regex(/^([01]\d|2[0-3]):([0-5]\d)$/, 'End time must be in HH:MM 24-hour format')
-      })
-    ).optional()
-  }).optional(),
-  insurance: z.array(z.string()).optional(),
-  preferredGender: z.string().optional(),
-  preferredLanguages: z.array(z.string()).optional(),
-  specializations: z.array(z.string()).optional(),
-  minExperience: z.number().int().nonnegative().optional(),
-  maxResults: z.number().int().positive().max(50).default(10)
+  serviceTypes: z.array(serviceTypeSchema).min(1, 'At least one service type is required'),
+  location: coordinatesSchema.nullable().default(null),
+  distance: z.number().positive().max(100, 'Maximum distance cannot exceed 100 miles').nullable().default(null),
+  availability: dateRangeSchema.nullable().default(null),
+  insurance: z.string().nullable().default(null),
+  genderPreference: z.string().nullable().default(null),
+  languagePreference: z.array(z.string()).nullable().default(null),
+  experienceLevel: z.string().nullable().default(null),
+  additionalPreferences: z.record(z.string()).default({}),
+  matchingProfileId: z.string().uuid('Invalid matching profile ID format').nullable().default(null)
+}).strict();
+
+/**
+ * Schema for the weight of each match factor
+ */
+const matchFactorWeightsSchema = z.record(
+  z.nativeEnum(MatchFactorName),
+  z.number().min(0, 'Weights cannot be negative').max(1, 'Weights cannot exceed 1')
+);
+
+/**
+ * Schema for the hard filters of a matching profile
+ */
+const matchingProfileFiltersSchema = z.object({
+  maxDistance: z.number().positive().max(100, 'Maximum distance cannot exceed 100 miles').nullable().optional(),
+  minRating: z.number().min(1).max(5).nullable().optional(),
+  minReviewCount: z.number().int().min(0).nullable().optional(),
+  requireInsuranceAccepted: z.boolean().optional(),
+  requiredSpecializations: z.array(z.string().min(1)).optional()
+}).strict();
+
+/**
+ * Schema for creating a matching profile
+ */
+export const createMatchingProfileSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(100, 'Name is too long'),
+  description: z.string().max(500, 'Description is too long').optional(),
+  weights: matchFactorWeightsSchema,
+  filters: matchingProfileFiltersSchema.default({}),
+  serviceTypeOverrides: z.record(
+    serviceTypeSchema,
+    z.object({
+      weights: matchFactorWeightsSchema.optional(),
+      filters: matchingProfileFiltersSchema.optional()
+    }).strict()
+  ).default({}),
+  isDefault: z.boolean().default(false)
+}).strict();
+
+/**
+ * Schema for updating a matching profile
+ */
+export const updateMatchingProfileSchema = createMatchingProfileSchema.partial().strict();
+
+/**
+ * Schema for matching profile route parameters
+ */
+export const matchingProfileIdSchema = z.object({
+  profileId: z.string().uuid('Invalid matching profile ID format')
+});
+
+/**
+ * Schema for match session route parameters
+ */
+export const matchSessionIdSchema = z.object({
+  sessionId: z.string().uuid('Invalid match session ID format')
+});
+
+/**
+ * Schema for recording a decision about a provider match
+ */
+export const matchFeedbackSchema = z.object({
+  providerId: z.string().uuid('Invalid provider ID format'),
+  decision: z.nativeEnum(MatchDecision),
+  reason: z.string().max(1000, 'Reason is too long').optional()
 }).strict();
 
 /**
  * Schema for provider review submission
  */
 export const reviewSubmissionSchema = z.object({
-  providerId: z.string().uuid('Invalid provider ID format'),
+  providerId: z.string().uuid('Invalid provider ID format').optional(),
   rating: z.number().min(1, 'Minimum rating is 1').max(5, 'Maximum rating is 5'),
-  comment: z.string().max(1000, 'Comment is too long').optional(),
-  serviceDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Service date must be in YYYY-MM-DD format'),
-  serviceType: z.enum(Object.values(ServiceType) as [string, ...string[]], {
-    errorMap: () => ({ message: 'Invalid service type' })
+  comment: z.string().max(1000, 'Comment is too long').default(''),
+  serviceDate: z.coerce.date().refine(date => date <= new Date(), {
+    message: 'Service date cannot be in the future'
   }),
+  serviceType: serviceTypeSchema,
   anonymous: z.boolean().default(false)
 }).strict();
 
@@ -255,24 +387,46 @@ export const reviewSubmissionSchema = z.object({
  * Schema for review filtering parameters
  */
 export const reviewFilterSchema = z.object({
-  providerId: z.string().uuid('Invalid provider ID format'),
   minRating: z.number().min(1).max(5).optional(),
-  maxRating: z.number().min(1).max(5).optional(),
-  serviceType: z.enum(Object.values(ServiceType) as [string, ...string[]]).optional(),
-  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Start date must be in YYYY-MM-DD format').optional(),
-  endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'End date must be in YYYY-MM-DD format').optional(),
+  serviceType: serviceTypeSchema.optional(),
   page: z.number().int().positive().default(1),
   limit: z.number().int().positive().max(100).default(10),
-  sortBy: z.string().default('createdAt'),
+  sortBy: z.enum(['createdAt', 'rating', 'serviceDate']).default('createdAt'),
   sortOrder: z.enum(['asc', 'desc']).default('desc')
-}).strict();
+});
+
+/**
+ * Schema for service area updates submitted as a complete list
+ */
+export const serviceAreasUpdateSchema = z.array(z.object({
+  id: z.string().uuid('Invalid service area ID format').optional(),
+  location: coordinatesSchema,
+  radius: z.number().positive().max(100, 'Service radius cannot exceed 100 miles'),
+  zipCodes: z.array(z.string().regex(/^\d{5}(-\d{4})?$/, 'Invalid ZIP code format')).default([])
+})).max(50, 'A provider cannot have more than 50 service areas');
+
+/**
+ * Schema for booking policy updates; fees are in cents and settings left out are unchanged
+ */
+export const bookingPolicyUpdateSchema = z.object({
+  cancellationWindowHours: z.number().int().min(0).max(168, 'Cancellation window cannot exceed 168 hours').optional(),
+  lateCancellationFee: z.number().int().min(0).max(100000, 'Late cancellation fee cannot exceed 1000.00').optional(),
+  noShowFee: z.number().int().min(0).max(100000, 'No-show fee cannot exceed 1000.00').optional(),
+  strikeThreshold: z.number().int().min(1).max(20).optional(),
+  strikeWindowDays: z.number().int().min(1).max(365).optional()
+}).strict().refine(data => Object.keys(data).length > 0, {
+  message: 'At least one booking policy setting must be provided'
+});
 
 /**
  * Schema for calendar synchronization parameters
  */
 export const calendarSyncSchema = z.object({
-  providerId: z.string().uuid('Invalid provider ID format'),
+  providerId: z.string().uuid('Invalid provider ID format').optional(),
   calendarType: z.enum(['google', 'microsoft', 'apple']),
+  calendarId: z.string().min(1).default('primary'),
+  syncDirection: z.enum(['import', 'export', 'both']).default('both'),
+  dateRange: dateRangeSchema.optional(),
   syncToken: z.string().optional(),
   authCode: z.string().optional(),
   refreshToken: z.string().optional()
@@ -286,43 +440,61 @@ export const providerIdSchema = z.object({
 }).strict();
 
 /**
- * Schema for checking provider availability
+ * Schema for calendar connection route parameters
  */
-export const availabilityCheckSchema = z.object({
+export const calendarConnectionIdSchema = z.object({
   providerId: z.string().uuid('Invalid provider ID format'),
-  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Start date must be in YYYY-MM-DD format'),
-  endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'End date must be in YYYY-MM-DD format').optional(),
-  serviceType: z.enum(Object.values(ServiceType) as [string, ...string[]], {
-    errorMap: () => ({ message: 'Invalid service type' })
-  }).optional()
+  connectionId: z.string().uuid('Invalid calendar connection ID format')
+}).strict();
+
+/**
+ * Schema for connecting a provider's external calendar for two-way sync
+ */
+export const connectCalendarSchema = z.object({
+  calendarProvider: z.enum(['google', 'microsoft']),
+  code: z.string().min(1, 'Authorization code is required').max(2048),
+  calendarId: z.string().min(1).max(255).default('primary')
 }).strict();
 
+/**
+ * Schema for the calendar provider of an inbound calendar change notification
+ */
+export const calendarWebhookParamsSchema = z.object({
+  calendarProvider: z.enum(['google', 'microsoft'])
+});
+
+/**
+ * Schema for checking provider availability for a specific time slot
+ */
+export const availabilityCheckSchema = z.object({
+  startTime: z.coerce.date(),
+  endTime: z.coerce.date(),
+  serviceType: serviceTypeSchema
+}).refine(data => data.endTime > data.startTime, {
+  message: 'End time must be after start time',
+  path: ['endTime']
+});
+
 /**
  * Schema for querying provider availability
  */
 export const availabilityQuerySchema = z.object({
-  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Start date must be in YYYY-MM-DD format'),
-  endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'End date must be in YYYY-MM-DD format').optional(),
-  providerId: z.string().uuid('Invalid provider ID format')
-}).strict();
+  startDate: z.coerce.date().optional(),
+  endDate: z.coerce.date().optional(),
+  serviceType: serviceTypeSchema.optional()
+}).refine(data => !data.startDate || !data.endDate || data.endDate >= data.startDate, {
+  message: 'End date must be on or after start date',
+  path: ['endDate']
+});
 
 /**
  * Schema for finding available providers
  */
 export const findAvailableProvidersSchema = z.object({
-  serviceType: z.enum(Object.values(ServiceType) as [string, ...string[]], {
-    errorMap: () => ({ message: 'Invalid service type' })
-  }),
-  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Start date must be in YYYY-MM-DD format'),
-  startTime: z.string().regex(/^([01]\d|2[0-3]):([0-5]\d)$/, 'Start time must be in HH:MM 24-hour format').optional(),
-  endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'End date must be in YYYY-MM-DD format').optional(),
-  endTime: z.string().regex(/^([01]\d|2[0-3]):([0-5]\d)$/, 'End time must be in HH:MM 24-hour format').optional(),
-  location: z.object({
-    latitude: z.string().regex(LATITUDE_REGEX, 'Invalid latitude format'),
-    longitude: z.string().regex(LONGITUDE_REGEX, 'Invalid longitude format'),
-    radius: z.number().positive().max(100, 'Search radius cannot exceed 100 miles')
-  }).optional(),
-  insurance: z.string().optional(),
-  page: z.number().int().positive().default(1),
-  limit: z.number().int().positive().max(100).default(10)
-}).strict();
\ No newline at end of file
+  startDate: z.coerce.date(),
+  endDate: z.coerce.date(),
+  serviceType: serviceTypeSchema.optional()
+}).refine(data => data.endDate >= data.startDate, {
+  message: 'End date must be on or after start date',
+  path: ['endDate']
+});
@@ -0,0 +1,114 @@
+/**
+ * Zod validation schemas for rate schedule API requests
+ *
+ * This file defines validation schemas for creating, changing and listing the rate
+ * schedules that make up the fee tables used to estimate services plan costs.
+ */
+
+import { z } from 'zod'; // zod@3.22.2
+import { ServiceType } from '../../constants/service-types';
+import { FundingSourceType } from '../../models/funding-source.model';
+import { RateUnit } from '../../types/rate-schedule.types';
+import { validateId } from '../../utils/validation';
+
+/**
+ * Schema for validating an ISO date in "YYYY-MM-DD" format
+ */
+const isoDateSchema = z.string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format')
+  .refine(date => !isNaN(Date.parse(date)), { message: 'Date must be a valid date' });
+
+/**
+ * Schema for validating the service type a rate applies to
+ */
+const serviceTypeSchema = z.nativeEnum(ServiceType, {
+  errorMap: () => ({ message: 'Service type must be a valid service type' })
+});
+
+/**
+ * Schema for validating the funding source type a rate applies to
+ */
+const fundingSourceTypeSchema = z.nativeEnum(FundingSourceType, {
+  errorMap: () => ({ message: 'Funding source type must be a valid funding source type' })
+});
+
+/**
+ * Schema for validating a region, given as a two-letter state code
+ */
+const regionSchema = z.string()
+  .regex(/^[A-Za-z]{2}$/, 'Region must be a two-letter state code')
+  .transform(region => region.toUpperCase());
+
+/**
+ * Schema for validating the provider a rate applies to
+ */
+const providerIdSchema = z.string().refine(validateId, {
+  message: 'Provider ID must be a valid UUID'
+});
+
+/**
+ * Schema for validating rate schedule fields that may be changed
+ */
+const rateScheduleFieldsSchema = z.object({
+  serviceType: serviceTypeSchema,
+
+  // Scope of the rate; left out or null applies it to every funding source, region or provider
+  fundingSourceType: fundingSourceTypeSchema.nullable(),
+  region: regionSchema.nullable(),
+  providerId: providerIdSchema.nullable(),
+
+  unit: z.nativeEnum(RateUnit, {
+    errorMap: () => ({ message: 'Unit must be per_15_minutes, per_hour, per_visit or per_day' })
+  }),
+
+  // Amount charged per unit
+  rate: z.number()
+    .nonnegative('Rate cannot be negative')
+    .max(100000, 'Rate must not exceed 100000'),
+
+  effectiveFrom: isoDateSchema,
+  effectiveTo: isoDateSchema.nullable()
+});
+
+/**
+ * Schema for validating requests to create a rate schedule
+ */
+export const createRateScheduleSchema = rateScheduleFieldsSchema.extend({
+  fundingSourceType: fundingSourceTypeSchema.nullable().default(null),
+  region: regionSchema.nullable().default(null),
+  providerId: providerIdSchema.nullable().default(null),
+  effectiveTo: isoDateSchema.nullable().default(null)
+}).refine(data => data.effectiveTo === null || data.effectiveTo >= data.effectiveFrom, {
+  message: 'Effective to date must not be before the effective from date',
+  path: ['effectiveTo']
+});
+
+/**
+ * Schema for validating requests to change a rate schedule
+ */
+export const updateRateScheduleSchema = rateScheduleFieldsSchema.partial()
+  .refine(data => Object.keys(data).length > 0, {
+    message: 'At least one field must be provided'
+  });
+
+/**
+ * Schema for validating rate schedule URL parameters
+ */
+export const rateScheduleParamsSchema = z.object({
+  id: z.string().refine(validateId, {
+    message: 'Rate schedule ID is required and must be a valid UUID'
+  })
+});
+
+/**
+ * Schema for validating rate schedule filters
+ */
+export const rateScheduleFilterSchema = z.object({
+  serviceType: serviceTypeSchema.optional(),
+  fundingSourceType: fundingSourceTypeSchema.optional(),
+  region: regionSchema.optional(),
+  providerId: providerIdSchema.optional(),
+
+  // Lists only the schedules in effect on this date
+  activeOn: isoDateSchema.optional()
+});
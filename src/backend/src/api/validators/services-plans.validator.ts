@@ -9,23 +9,91 @@
 import { z } from 'zod'; // zod@3.21.4
 import { PlanStatus } from '../../constants/plan-statuses';
 import { ServiceType } from '../../constants/service-types';
+import { CadencePeriod } from '../../types/services-plan.types';
+import { AssessmentInstrumentCode } from '../../types/assessment-instrument.types';
+import { PriorAuthorizationStatus } from '../../types/prior-authorization.types';
 import { validateId } from '../../utils/validation';
 
 /**
- * Schema for validating needs assessment creation data
+ * Schema for validating the answers to one standardized assessment instrument. The
+ * answers themselves are checked against the instrument when the assessment is scored.
+ */
+export const instrumentResponseSetSchema = z.object({
+  instrumentCode: z.nativeEnum(AssessmentInstrumentCode, {
+    errorMap: () => ({ message: 'Invalid assessment instrument' })
+  }),
+  version: z.number()
+    .int('Version must be a whole number')
+    .positive('Version must be positive')
+    .optional(),
+  responses: z.record(z.number()),
+});
+
+/**
+ * Schema for validating needs assessment creation data. An assessment needs free-form
+ * assessment data, standardized instrument responses, or both.
  */
 export const createNeedsAssessmentSchema = z.object({
   clientId: z.string()
     .refine(validateId, {
       message: 'Client ID is required and must be a valid UUID'
     }),
-  assessmentData: z.record(z.any())
-    .refine(data => data && Object.keys(data).length > 0, {
-      message: 'Assessment data is required'
-    }),
+  assessmentData: z.record(z.any()).default({}),
+  instrumentResponses: z.array(instrumentResponseSetSchema)
+    .max(20, 'Cannot include more than 20 instruments')
+    .refine(sets => new Set(sets.map(set => set.instrumentCode)).size === sets.length, {
+      message: 'Each instrument may only be answered once per assessment'
+    })
+    .optional(),
   notes: z.string()
     .max(1000, 'Notes must be less than 1000 characters')
     .optional(),
+}).refine(data => Object.keys(data.assessmentData).length > 0 || (data.instrumentResponses?.length ?? 0) > 0, {
+  message: 'Assessment data is required',
+  path: ['assessmentData']
+});
+
+const cadenceDateSchema = z.string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format')
+  .refine(date => !isNaN(Date.parse(date)), { message: 'Date must be a valid date' });
+
+/**
+ * Schema for validating the structured schedule of a service item. The service is bounded
+ * by an end date or a number of periods, or by neither if it is ongoing.
+ */
+export const serviceCadenceSchema = z.object({
+  unitsPerPeriod: z.number()
+    .positive('Units per period must be a positive number')
+    .max(100, 'Units per period must be at most 100'),
+  period: z.nativeEnum(CadencePeriod, {
+    errorMap: () => ({ message: 'Period must be day, week or month' })
+  }),
+  periodInterval: z.number()
+    .int('Period interval must be a whole number')
+    .min(1, 'Period interval must be at least 1')
+    .max(52, 'Period interval must be at most 52')
+    .default(1),
+  startDate: cadenceDateSchema.nullable().default(null),
+  endDate: cadenceDateSchema.nullable().default(null),
+  periodCount: z.number()
+    .positive('Period count must be a positive number')
+    .max(1000, 'Period count must be at most 1000')
+    .nullable()
+    .default(null),
+  sessionMinutes: z.number()
+    .int('Session length must be a whole number of minutes')
+    .positive('Session length must be a positive number')
+    .max(1440, 'Session length must be at most 1440 minutes')
+    .nullable()
+    .default(null),
+})
+.refine(cadence => cadence.endDate === null || cadence.periodCount === null, {
+  message: 'Provide either an end date or a period count, not both',
+  path: ['periodCount']
+})
+.refine(cadence => !cadence.startDate || !cadence.endDate || cadence.endDate >= cadence.startDate, {
+  message: 'End date must not be before start date',
+  path: ['endDate']
 });
 
 /**
@@ -49,6 +117,11 @@ export const createServiceItemSchema = z.object({
   duration: z.string()
     .min(3, 'Duration is required and must be between 3-100 characters')
     .max(100, 'Duration must be less than 100 characters'),
+  cadence: serviceCadenceSchema.nullable().optional(),
+  unitCost: z.number()
+    .nonnegative('Unit cost must not be negative')
+    .nullable()
+    .optional(),
   estimatedCost: z.number()
     .positive('Estimated cost is required and must be a positive number'),
 });
@@ -130,6 +203,11 @@ export const updateServiceItemSchema = z.object({
     .min(3, 'Duration must be between 3-100 characters')
     .max(100, 'Duration must be less than 100 characters')
     .optional(),
+  cadence: serviceCadenceSchema.nullable().optional(),
+  unitCost: z.number()
+    .nonnegative('Unit cost must not be negative')
+    .nullable()
+    .optional(),
   estimatedCost: z.number()
     .positive('Estimated cost must be a positive number')
     .optional(),
@@ -202,6 +280,65 @@ export const approveServicesPlanSchema = z.object({
     .optional(),
 });
 
+/**
+ * Fields of a prior authorization, shared by its creation and update schemas
+ */
+const priorAuthorizationFieldsSchema = z.object({
+  authNumber: z.string()
+    .trim()
+    .min(1, 'Authorization number is required')
+    .max(50, 'Authorization number must be less than 50 characters'),
+  approvedUnits: z.number()
+    .int('Approved units must be a whole number')
+    .positive('Approved units must be a positive number')
+    .max(10000, 'Approved units must be at most 10000'),
+  startDate: cadenceDateSchema,
+  endDate: cadenceDateSchema,
+  status: z.nativeEnum(PriorAuthorizationStatus, {
+    errorMap: () => ({ message: 'Status must be pending, approved, denied or cancelled' })
+  }),
+  documentIds: z.array(z.string().refine(validateId, {
+    message: 'Document ID must be a valid UUID'
+  }))
+    .max(20, 'At most 20 documents can be attached'),
+  notes: z.string()
+    .max(1000, 'Notes must be less than 1000 characters')
+    .nullable(),
+});
+
+/**
+ * Schema for validating prior authorization creation data
+ */
+export const createPriorAuthorizationSchema = priorAuthorizationFieldsSchema.extend({
+  serviceItemId: z.string()
+    .refine(validateId, {
+      message: 'Service item ID is required and must be a valid UUID'
+    }),
+  fundingSourceId: z.string()
+    .refine(validateId, {
+      message: 'Funding source ID is required and must be a valid UUID'
+    }),
+  status: priorAuthorizationFieldsSchema.shape.status.optional(),
+  documentIds: priorAuthorizationFieldsSchema.shape.documentIds.optional(),
+  notes: priorAuthorizationFieldsSchema.shape.notes.optional(),
+})
+.refine(data => data.endDate >= data.startDate, {
+  message: 'End date must not be before start date',
+  path: ['endDate']
+});
+
+/**
+ * Schema for validating prior authorization update data
+ */
+export const updatePriorAuthorizationSchema = priorAuthorizationFieldsSchema.partial()
+  .refine(data => !data.startDate || !data.endDate || data.endDate >= data.startDate, {
+    message: 'End date must not be before start date',
+    path: ['endDate']
+  })
+  .refine(data => Object.keys(data).length > 0, {
+    message: 'At least one field must be provided'
+  });
+
 /**
  * Schema for validating AI services plan generation data
  */
@@ -233,6 +370,55 @@ export const servicesPlanParamsSchema = z.object({
     }),
 });
 
+/**
+ * Schema for validating client ID parameters in URLs
+ */
+export const clientParamsSchema = z.object({
+  clientId: z.string()
+    .refine(validateId, {
+      message: 'Client ID is required and must be a valid UUID'
+    }),
+});
+
+/**
+ * Schema for validating services plan funding source parameters in URLs
+ */
+export const fundingSourceParamsSchema = servicesPlanParamsSchema.extend({
+  fundingSourceId: z.string()
+    .refine(validateId, {
+      message: 'Funding source ID is required and must be a valid UUID'
+    }),
+});
+
+/**
+ * Schema for validating services plan prior authorization parameters in URLs
+ */
+export const priorAuthorizationParamsSchema = servicesPlanParamsSchema.extend({
+  priorAuthorizationId: z.string()
+    .refine(validateId, {
+      message: 'Prior authorization ID is required and must be a valid UUID'
+    }),
+});
+
+/**
+ * Schema for validating assessment instrument parameters in URLs
+ */
+export const assessmentInstrumentParamsSchema = z.object({
+  code: z.nativeEnum(AssessmentInstrumentCode, {
+    errorMap: () => ({ message: 'Invalid assessment instrument' })
+  }),
+});
+
+/**
+ * Schema for validating the optional version query parameter of an assessment instrument
+ */
+export const assessmentInstrumentQuerySchema = z.object({
+  version: z.coerce.number()
+    .int('Version must be a whole number')
+    .positive('Version must be positive')
+    .optional(),
+});
+
 /**
  * Schema for validating services plan filter and pagination parameters
  */
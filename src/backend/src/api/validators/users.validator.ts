@@ -7,6 +7,11 @@
 
 import { z } from 'zod'; // zod version 3.21.4
 import { Roles } from '../../constants/roles';
+import { isValidTimeZone } from '../../utils/date-time';
+import {
+  MedicalHistoryConflictResolution,
+  MedicalHistoryConflictStatus
+} from '../../types/medical-history.types';
 
 /**
  * Validates user ID parameter in URL paths
@@ -69,12 +74,20 @@ export const insuranceSchema = z.object({
   coverageDetails: z.record(z.string()).optional()
 }).strict();
 
+/**
+ * Validates an IANA timezone name such as "America/Chicago"
+ */
+export const timezoneSchema = z.string().max(64).refine(isValidTimeZone, {
+  message: 'Timezone must be a valid IANA timezone name, e.g. America/Chicago'
+});
+
 /**
  * Validates client-specific profile information
  */
 export const clientProfileSchema = z.object({
   dateOfBirth: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date of birth must be in YYYY-MM-DD format'),
   gender: z.string().max(50, 'Gender description is too long').optional(),
+  timezone: timezoneSchema.optional(),
   emergencyContact: emergencyContactSchema.optional(),
   medicalInformation: medicalInformationSchema.optional(),
   insurance: insuranceSchema.optional(),
@@ -91,7 +104,8 @@ export const providerProfileSchema = z.object({
   serviceTypes: z.array(z.string()).min(1, 'At least one service type is required'),
   bio: z.string().max(1000, 'Bio is too long').optional(),
   specializations: z.array(z.string()).default([]),
-  insuranceAccepted: z.array(z.string()).default([])
+  insuranceAccepted: z.array(z.string()).default([]),
+  timezone: timezoneSchema.optional()
 }).strict();
 
 /**
@@ -194,4 +208,91 @@ export const paginationSchema = z.object({
   limit: z.number().int().positive().max(100).default(10),
   sortBy: z.string().default('createdAt'),
   sortOrder: z.enum(['asc', 'desc']).default('desc')
-}).strict();
\ No newline at end of file
+}).strict();
+
+/**
+ * Validates coded concepts in imported FHIR resources
+ */
+const fhirCodeableConceptSchema = z.object({
+  coding: z.array(z.object({
+    system: z.string().optional(),
+    code: z.string().optional(),
+    display: z.string().optional()
+  }).passthrough()).optional(),
+  text: z.string().optional()
+}).passthrough();
+
+/**
+ * Validates references in imported FHIR resources
+ */
+const fhirReferenceSchema = z.object({
+  reference: z.string().optional(),
+  display: z.string().optional()
+}).passthrough();
+
+/**
+ * Validates the elements of imported FHIR resources that are read during import;
+ * other elements are accepted and ignored
+ */
+const fhirResourceSchema = z.object({
+  resourceType: z.string().min(1, 'Resource type is required'),
+  id: z.string().optional(),
+  name: z.array(z.object({
+    use: z.string().optional(),
+    text: z.string().optional(),
+    family: z.string().optional(),
+    given: z.array(z.string()).optional()
+  }).passthrough()).optional(),
+  gender: z.string().optional(),
+  birthDate: z.string().regex(/^(\d{4}|\d{4}-\d{2}|\d{4}-\d{2}-\d{2})$/, 'Birth date must be a FHIR date').optional(),
+  clinicalStatus: fhirCodeableConceptSchema.optional(),
+  verificationStatus: fhirCodeableConceptSchema.optional(),
+  code: fhirCodeableConceptSchema.optional(),
+  criticality: z.string().optional(),
+  status: z.string().optional(),
+  medicationCodeableConcept: fhirCodeableConceptSchema.optional(),
+  medicationReference: fhirReferenceSchema.optional(),
+  subject: fhirReferenceSchema.optional(),
+  patient: fhirReferenceSchema.optional(),
+  onsetDateTime: z.string().optional(),
+  effectiveDateTime: z.string().optional(),
+  dosage: z.array(z.object({ text: z.string().optional() }).passthrough()).optional()
+}).passthrough();
+
+/**
+ * Validates FHIR R4 bundles of client medical history
+ */
+export const medicalHistoryBundleSchema = z.object({
+  resourceType: z.literal('Bundle', {
+    errorMap: () => ({ message: 'Resource type must be Bundle' })
+  }),
+  id: z.string().optional(),
+  type: z.string().optional(),
+  entry: z.array(z.object({
+    fullUrl: z.string().optional(),
+    resource: fhirResourceSchema
+  }).passthrough()).min(1, 'Bundle must contain at least one entry').max(1000, 'Bundle contains too many entries')
+}).passthrough();
+
+/**
+ * Validates medical history conflict URL parameters
+ */
+export const medicalHistoryConflictParamsSchema = z.object({
+  id: z.string().uuid('Invalid user ID format'),
+  conflictId: z.string().uuid('Invalid conflict ID format')
+});
+
+/**
+ * Validates filters for listing medical history conflicts
+ */
+export const medicalHistoryConflictFilterSchema = z.object({
+  status: z.nativeEnum(MedicalHistoryConflictStatus).optional()
+}).strict();
+
+/**
+ * Validates medical history conflict resolutions
+ */
+export const resolveMedicalHistoryConflictSchema = z.object({
+  resolution: z.nativeEnum(MedicalHistoryConflictResolution),
+  note: z.string().max(1000, 'Note is too long').optional()
+}).strict();
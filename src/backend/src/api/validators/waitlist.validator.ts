@@ -0,0 +1,138 @@
+/**
+ * Zod validation schemas for waitlist-related API requests
+ *
+ * This file defines validation schemas for joining a provider's waitlist, listing
+ * entries and offers, and estimating wait times.
+ */
+
+import { z } from 'zod'; // zod@3.22.2
+import { ServiceType } from '../../constants/service-types';
+import { DayOfWeek } from '../../types/provider.types';
+import { WaitlistEntryStatus, WaitlistOfferStatus } from '../../types/waitlist.types';
+import { validateId } from '../../utils/validation';
+
+/**
+ * Schema for validating a time of day in 24-hour "HH:MM" format
+ */
+const timeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, {
+  message: 'Time must be in HH:MM 24-hour format'
+});
+
+/**
+ * Schema for validating the service type of a waitlist
+ */
+const serviceTypeSchema = z.nativeEnum(ServiceType, {
+  errorMap: () => ({ message: 'Service type must be a valid service type' })
+});
+
+/**
+ * Schema for validating a client's waitlist preferences
+ */
+const waitlistPreferencesSchema = z.object({
+  // Days the client can attend; empty accepts any day
+  daysOfWeek: z.array(z.nativeEnum(DayOfWeek)).max(7).default([]),
+
+  // Times of day the client can attend; empty accepts any time
+  timeWindows: z.array(z.object({
+    startTime: timeOfDaySchema,
+    endTime: timeOfDaySchema
+  }).refine(window => window.endTime > window.startTime, {
+    message: 'End time must be after start time',
+    path: ['endTime']
+  })).max(10).default([]),
+
+  // Furthest the client will travel, in miles
+  maxDistance: z.number().positive().max(500).nullable().default(null)
+});
+
+/**
+ * Schema for validating requests to join a provider's waitlist
+ */
+export const createWaitlistEntrySchema = z.object({
+  // Provider the client is waiting for
+  providerId: z.string().refine(validateId, {
+    message: 'Provider ID is required and must be a valid UUID'
+  }),
+
+  // Client joining the waitlist
+  clientId: z.string().refine(validateId, {
+    message: 'Client ID is required and must be a valid UUID'
+  }),
+
+  serviceType: serviceTypeSchema,
+
+  preferences: waitlistPreferencesSchema.default({}),
+
+  // Queue priority set by staff; higher priorities are offered slots first
+  priority: z.number().int().min(0).max(100).optional(),
+
+  // Optional notes about the client's needs
+  notes: z.string().max(1000, {
+    message: 'Notes must not exceed 1000 characters'
+  }).nullable().optional().default(null)
+});
+
+/**
+ * Schema for validating waitlist entry URL parameters
+ */
+export const waitlistEntryParamsSchema = z.object({
+  entryId: z.string().refine(validateId, {
+    message: 'Waitlist entry ID is required and must be a valid UUID'
+  })
+});
+
+/**
+ * Schema for validating waitlist offer URL parameters
+ */
+export const waitlistOfferParamsSchema = z.object({
+  offerId: z.string().refine(validateId, {
+    message: 'Waitlist offer ID is required and must be a valid UUID'
+  })
+});
+
+/**
+ * Schema for validating waitlist entry filters
+ */
+export const waitlistEntryFilterSchema = z.object({
+  providerId: z.string().refine(validateId, {
+    message: 'Provider ID must be a valid UUID'
+  }).optional(),
+
+  clientId: z.string().refine(validateId, {
+    message: 'Client ID must be a valid UUID'
+  }).optional(),
+
+  serviceType: serviceTypeSchema.optional(),
+
+  status: z.nativeEnum(WaitlistEntryStatus).optional()
+});
+
+/**
+ * Schema for validating waitlist offer filters
+ */
+export const waitlistOfferFilterSchema = z.object({
+  providerId: z.string().refine(validateId, {
+    message: 'Provider ID must be a valid UUID'
+  }).optional(),
+
+  clientId: z.string().refine(validateId, {
+    message: 'Client ID must be a valid UUID'
+  }).optional(),
+
+  entryId: z.string().refine(validateId, {
+    message: 'Waitlist entry ID must be a valid UUID'
+  }).optional(),
+
+  status: z.nativeEnum(WaitlistOfferStatus).optional()
+});
+
+/**
+ * Schema for validating wait time estimate requests
+ */
+export const waitEstimateQuerySchema = z.object({
+  providerId: z.string().refine(validateId, {
+    message: 'Provider ID is required and must be a valid UUID'
+  }),
+
+  serviceType: serviceTypeSchema
+});
@@ -22,6 +22,13 @@ dotenv.config();
 export const GOOGLE_CALENDAR_PROVIDER = 'google';
 export const MICROSOFT_GRAPH_PROVIDER = 'microsoft';
 
+// Public base URL that calendar providers deliver change notifications to; the
+// provider name is appended, e.g. https://api.example.com/api/webhooks/calendar/google
+export const CALENDAR_WEBHOOK_BASE_URL = process.env.CALENDAR_WEBHOOK_BASE_URL || 'http://localhost:3001/api/webhooks/calendar';
+
+// Public base URL of users' ICS booking feeds; the feed token and .ics are appended
+export const CALENDAR_FEED_BASE_URL = process.env.CALENDAR_FEED_BASE_URL || 'http://localhost:3001/api/bookings/calendar-feed';
+
 /**
  * Google Calendar API configuration
  */
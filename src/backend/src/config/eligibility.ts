@@ -0,0 +1,70 @@
+/**
+ * Insurance Eligibility Configuration
+ *
+ * This file contains the settings for checking clients' insurance eligibility with X12
+ * 270/271 transactions. Inquiries go through a clearinghouse: either an HTTP endpoint or,
+ * for development and offline testing, a local directory that stands in for one.
+ */
+
+import path from 'path'; // path@built-in
+import dotenv from 'dotenv'; // dotenv v16.0.3
+
+// Load environment variables
+dotenv.config();
+
+// Clearinghouse adapter identifiers
+export const FILE_CLEARINGHOUSE = 'file';
+export const HTTP_CLEARINGHOUSE = 'http';
+
+/**
+ * Reads the clearinghouse adapter that inquiries are sent through. Production must name one
+ * explicitly so that inquiries are never answered by the local stand-in by accident.
+ * @returns The clearinghouse adapter identifier
+ * @throws Error if the adapter is unknown, or not configured in production
+ */
+const loadClearinghouse = (): string => {
+  const clearinghouse = process.env.ELIGIBILITY_CLEARINGHOUSE;
+
+  if (!clearinghouse) {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('ELIGIBILITY_CLEARINGHOUSE environment variable is required in production');
+    }
+
+    return FILE_CLEARINGHOUSE;
+  }
+
+  if (clearinghouse !== FILE_CLEARINGHOUSE && clearinghouse !== HTTP_CLEARINGHOUSE) {
+    throw new Error(`Unsupported eligibility clearinghouse: ${clearinghouse}`);
+  }
+
+  return clearinghouse;
+};
+
+/**
+ * Eligibility inquiry settings
+ */
+export const eligibilityConfig = {
+  // Clearinghouse adapter that inquiries are sent through: "file" or "http". Defaults to
+  // "file" outside production and must be set in production.
+  clearinghouse: loadClearinghouse(),
+
+  // Directory of the local stand-in clearinghouse. Inquiries are written to its outbox
+  // directory and canned responses are read from its inbox directory, named by member ID.
+  fileDirectory: process.env.ELIGIBILITY_FILE_DIRECTORY || path.join(process.cwd(), 'clearinghouse'),
+
+  // Endpoint the HTTP clearinghouse accepts X12 270 inquiries at
+  endpoint: process.env.ELIGIBILITY_CLEARINGHOUSE_URL || '',
+  apiKey: process.env.ELIGIBILITY_CLEARINGHOUSE_API_KEY || '',
+  timeout: parseInt(process.env.ELIGIBILITY_CLEARINGHOUSE_TIMEOUT || '30000', 10),
+
+  // Interchange sender and receiver IDs agreed with the clearinghouse
+  senderId: process.env.ELIGIBILITY_SENDER_ID || 'REVOLUCARE',
+  receiverId: process.env.ELIGIBILITY_RECEIVER_ID || 'CLEARINGHOUSE',
+
+  // The organization inquiring, as the information receiver of the 270
+  providerName: process.env.ELIGIBILITY_PROVIDER_NAME || 'REVOLUCARE',
+  providerNpi: process.env.ELIGIBILITY_PROVIDER_NPI || '',
+
+  // "P" for production interchanges, "T" for test interchanges
+  usageIndicator: process.env.NODE_ENV === 'production' ? 'P' : 'T'
+};
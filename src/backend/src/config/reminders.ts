@@ -0,0 +1,55 @@
+/**
+ * Appointment Reminder Configuration
+ *
+ * This file contains the rules for the reminders clients are sent before their bookings.
+ * Each rule sends one reminder through one channel a set time before the booking starts,
+ * e.g. "48h:email,2h:sms" emails 48 hours ahead and texts 2 hours ahead.
+ */
+
+import dotenv from 'dotenv'; // dotenv v16.0.3
+import { NOTIFICATION_CHANNELS } from '../constants/notification-types';
+import { ReminderChannel, ReminderRule } from '../types/reminder.types';
+
+// Load environment variables
+dotenv.config();
+
+export const DEFAULT_REMINDER_RULES = '48h:email,2h:sms';
+
+const REMINDER_CHANNELS: string[] = [NOTIFICATION_CHANNELS.EMAIL, NOTIFICATION_CHANNELS.SMS];
+
+const MINUTES_PER_UNIT: Record<string, number> = { h: 60, m: 1 };
+
+/**
+ * Parses reminder rules written as comma-separated <offset>:<channel> pairs
+ *
+ * @param value - The rules, e.g. "48h:email,2h:sms"
+ * @returns The rules, earliest reminder first
+ * @throws Error if a rule is malformed, so a misconfigured server fails at startup
+ */
+export function parseReminderRules(value: string): ReminderRule[] {
+  const rules = value
+    .split(',')
+    .map(rule => rule.trim())
+    .filter(rule => rule.length > 0)
+    .map((rule): ReminderRule => {
+      const match = /^(\d+)([hm]):(\w+)$/.exec(rule);
+
+      if (!match || Number(match[1]) === 0 || !REMINDER_CHANNELS.includes(match[3])) {
+        throw new Error(`Invalid appointment reminder rule "${rule}"; expected e.g. 48h:email or 30m:sms`);
+      }
+
+      return {
+        offsetMinutes: Number(match[1]) * MINUTES_PER_UNIT[match[2]],
+        channel: match[3] as ReminderChannel
+      };
+    });
+
+  return rules.sort((a, b) => b.offsetMinutes - a.offsetMinutes);
+}
+
+/**
+ * Reminder rules applied to every booking
+ */
+export const reminderRules: ReminderRule[] = parseReminderRules(
+  process.env.APPOINTMENT_REMINDER_RULES ?? DEFAULT_REMINDER_RULES
+);
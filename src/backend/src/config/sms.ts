@@ -37,7 +37,7 @@ const loadSMSConfig = (): SMSServiceConfig => {
 
   // SMS templates for different notification types
   const templates: Record<string, string> = {
-    [NOTIFICATION_TYPES.APPOINTMENT_REMINDER]: 'Revolucare: Reminder for your appointment on {{date}} at {{time}} with {{provider}}. Reply HELP for help or STOP to unsubscribe.',
+    [NOTIFICATION_TYPES.APPOINTMENT_REMINDER]: 'Revolucare: Reminder for your appointment on {{date}} at {{time}} with {{provider}}. Reply C to confirm or X to cancel. Reply HELP for help or STOP to unsubscribe.',
     [NOTIFICATION_TYPES.CARE_PLAN_APPROVED]: 'Revolucare: Your care plan has been approved. Please log in to view the details. Reply HELP for help or STOP to unsubscribe.',
     [NOTIFICATION_TYPES.SERVICE_PLAN_APPROVED]: 'Revolucare: Your service plan has been approved. Please log in to view the details. Reply HELP for help or STOP to unsubscribe.',
     [NOTIFICATION_TYPES.PROVIDER_MATCHED]: 'Revolucare: We\'ve found a provider match for your needs. Please log in to view the details. Reply HELP for help or STOP to unsubscribe.',
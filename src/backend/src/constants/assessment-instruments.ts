@@ -0,0 +1,238 @@
+/**
+ * Assessment Instruments for the Revolucare platform
+ *
+ * This file defines the library of standardized, versioned assessment instruments that
+ * can be administered as part of a needs assessment: their items, the answers each item
+ * accepts with the points they score, and the score bands used to interpret totals.
+ * A new version of an instrument is added alongside the old one so that assessments
+ * scored under earlier versions remain interpretable.
+ */
+
+import {
+  AssessmentInstrument,
+  AssessmentInstrumentCode,
+  AssessmentRiskLevel,
+  InstrumentResponseOption
+} from '../types/assessment-instrument.types';
+
+const INDEPENDENCE_OPTIONS: InstrumentResponseOption[] = [
+  { value: 1, label: 'Independent' },
+  { value: 0, label: 'Needs help or unable' }
+];
+
+const FREQUENCY_OPTIONS: InstrumentResponseOption[] = [
+  { value: 0, label: 'Not at all' },
+  { value: 1, label: 'Several days' },
+  { value: 2, label: 'More than half the days' },
+  { value: 3, label: 'Nearly every day' }
+];
+
+const BURDEN_OPTIONS: InstrumentResponseOption[] = [
+  { value: 0, label: 'Never' },
+  { value: 1, label: 'Rarely' },
+  { value: 2, label: 'Sometimes' },
+  { value: 3, label: 'Quite frequently' },
+  { value: 4, label: 'Nearly always' }
+];
+
+/**
+ * Builds yes/no answers where "yes" scores the given points
+ * @param points - Points scored by a "yes" answer
+ * @returns The response options
+ */
+function yesNoOptions(points: number): InstrumentResponseOption[] {
+  return [
+    { value: 0, label: 'No' },
+    { value: points, label: 'Yes' }
+  ];
+}
+
+/**
+ * All versions of all assessment instruments
+ */
+export const ASSESSMENT_INSTRUMENTS: AssessmentInstrument[] = [
+  {
+    code: AssessmentInstrumentCode.KATZ_ADL,
+    version: 1,
+    name: 'Katz Index of Independence in Activities of Daily Living',
+    description: 'Independence in six basic activities of daily living.',
+    higherScoreIsWorse: false,
+    items: [
+      { id: 'bathing', text: 'Bathing', options: INDEPENDENCE_OPTIONS },
+      { id: 'dressing', text: 'Dressing', options: INDEPENDENCE_OPTIONS },
+      { id: 'toileting', text: 'Toileting', options: INDEPENDENCE_OPTIONS },
+      { id: 'transferring', text: 'Transferring', options: INDEPENDENCE_OPTIONS },
+      { id: 'continence', text: 'Continence', options: INDEPENDENCE_OPTIONS },
+      { id: 'feeding', text: 'Feeding', options: INDEPENDENCE_OPTIONS }
+    ],
+    bands: [
+      { min: 0, max: 2, label: 'Severe functional impairment', riskLevel: AssessmentRiskLevel.HIGH },
+      { min: 3, max: 5, label: 'Moderate functional impairment', riskLevel: AssessmentRiskLevel.MODERATE },
+      { min: 6, max: 6, label: 'Full function', riskLevel: AssessmentRiskLevel.LOW }
+    ]
+  },
+  {
+    code: AssessmentInstrumentCode.LAWTON_IADL,
+    version: 1,
+    name: 'Lawton Instrumental Activities of Daily Living Scale',
+    description: 'Independence in eight instrumental activities needed to live independently.',
+    higherScoreIsWorse: false,
+    items: [
+      { id: 'telephone', text: 'Ability to use the telephone', options: INDEPENDENCE_OPTIONS },
+      { id: 'shopping', text: 'Shopping', options: INDEPENDENCE_OPTIONS },
+      { id: 'food_preparation', text: 'Food preparation', options: INDEPENDENCE_OPTIONS },
+      { id: 'housekeeping', text: 'Housekeeping', options: INDEPENDENCE_OPTIONS },
+      { id: 'laundry', text: 'Laundry', options: INDEPENDENCE_OPTIONS },
+      { id: 'transportation', text: 'Mode of transportation', options: INDEPENDENCE_OPTIONS },
+      { id: 'medications', text: 'Responsibility for own medications', options: INDEPENDENCE_OPTIONS },
+      { id: 'finances', text: 'Ability to handle finances', options: INDEPENDENCE_OPTIONS }
+    ],
+    bands: [
+      { min: 0, max: 3, label: 'Dependent', riskLevel: AssessmentRiskLevel.HIGH },
+      { min: 4, max: 7, label: 'Partially dependent', riskLevel: AssessmentRiskLevel.MODERATE },
+      { min: 8, max: 8, label: 'Independent', riskLevel: AssessmentRiskLevel.LOW }
+    ]
+  },
+  {
+    code: AssessmentInstrumentCode.PHQ_9,
+    version: 1,
+    name: 'Patient Health Questionnaire (PHQ-9)',
+    description: 'Depression severity over the last two weeks.',
+    higherScoreIsWorse: true,
+    items: [
+      { id: 'interest', text: 'Little interest or pleasure in doing things', options: FREQUENCY_OPTIONS },
+      { id: 'mood', text: 'Feeling down, depressed, or hopeless', options: FREQUENCY_OPTIONS },
+      { id: 'sleep', text: 'Trouble falling or staying asleep, or sleeping too much', options: FREQUENCY_OPTIONS },
+      { id: 'energy', text: 'Feeling tired or having little energy', options: FREQUENCY_OPTIONS },
+      { id: 'appetite', text: 'Poor appetite or overeating', options: FREQUENCY_OPTIONS },
+      {
+        id: 'self_worth',
+        text: 'Feeling bad about yourself, or that you are a failure or have let yourself or your family down',
+        options: FREQUENCY_OPTIONS
+      },
+      {
+        id: 'concentration',
+        text: 'Trouble concentrating on things, such as reading the newspaper or watching television',
+        options: FREQUENCY_OPTIONS
+      },
+      {
+        id: 'psychomotor',
+        text: 'Moving or speaking so slowly that other people could have noticed, or being so fidgety or restless that you have been moving around a lot more than usual',
+        options: FREQUENCY_OPTIONS
+      },
+      {
+        id: 'self_harm',
+        text: 'Thoughts that you would be better off dead, or of hurting yourself',
+        options: FREQUENCY_OPTIONS,
+        critical: true
+      }
+    ],
+    bands: [
+      { min: 0, max: 4, label: 'Minimal depression', riskLevel: AssessmentRiskLevel.LOW },
+      { min: 5, max: 9, label: 'Mild depression', riskLevel: AssessmentRiskLevel.LOW },
+      { min: 10, max: 14, label: 'Moderate depression', riskLevel: AssessmentRiskLevel.MODERATE },
+      { min: 15, max: 19, label: 'Moderately severe depression', riskLevel: AssessmentRiskLevel.HIGH },
+      { min: 20, max: 27, label: 'Severe depression', riskLevel: AssessmentRiskLevel.HIGH }
+    ]
+  },
+  {
+    code: AssessmentInstrumentCode.GAD_7,
+    version: 1,
+    name: 'Generalized Anxiety Disorder Scale (GAD-7)',
+    description: 'Anxiety severity over the last two weeks.',
+    higherScoreIsWorse: true,
+    items: [
+      { id: 'nervous', text: 'Feeling nervous, anxious, or on edge', options: FREQUENCY_OPTIONS },
+      { id: 'uncontrolled_worry', text: 'Not being able to stop or control worrying', options: FREQUENCY_OPTIONS },
+      { id: 'excessive_worry', text: 'Worrying too much about different things', options: FREQUENCY_OPTIONS },
+      { id: 'relaxing', text: 'Trouble relaxing', options: FREQUENCY_OPTIONS },
+      { id: 'restless', text: 'Being so restless that it is hard to sit still', options: FREQUENCY_OPTIONS },
+      { id: 'irritable', text: 'Becoming easily annoyed or irritable', options: FREQUENCY_OPTIONS },
+      { id: 'afraid', text: 'Feeling afraid, as if something awful might happen', options: FREQUENCY_OPTIONS }
+    ],
+    bands: [
+      { min: 0, max: 4, label: 'Minimal anxiety', riskLevel: AssessmentRiskLevel.LOW },
+      { min: 5, max: 9, label: 'Mild anxiety', riskLevel: AssessmentRiskLevel.LOW },
+      { min: 10, max: 14, label: 'Moderate anxiety', riskLevel: AssessmentRiskLevel.MODERATE },
+      { min: 15, max: 21, label: 'Severe anxiety', riskLevel: AssessmentRiskLevel.HIGH }
+    ]
+  },
+  {
+    code: AssessmentInstrumentCode.STEADI_FALL_RISK,
+    version: 1,
+    name: 'STEADI Stay Independent Fall Risk Screener',
+    description: 'Self-reported risk of falling. A score of 4 or more indicates the client may be at risk.',
+    higherScoreIsWorse: true,
+    items: [
+      { id: 'fallen', text: 'I have fallen in the past year', options: yesNoOptions(2) },
+      { id: 'walking_aid', text: 'I use or have been advised to use a cane or walker to get around safely', options: yesNoOptions(2) },
+      { id: 'unsteady', text: 'Sometimes I feel unsteady when I am walking', options: yesNoOptions(1) },
+      { id: 'holds_furniture', text: 'I steady myself by holding onto furniture when walking at home', options: yesNoOptions(1) },
+      { id: 'worried', text: 'I am worried about falling', options: yesNoOptions(1) },
+      { id: 'push_to_stand', text: 'I need to push with my hands to stand up from a chair', options: yesNoOptions(1) },
+      { id: 'curb', text: 'I have some trouble stepping up onto a curb', options: yesNoOptions(1) },
+      { id: 'toilet_urgency', text: 'I often have to rush to the toilet', options: yesNoOptions(1) },
+      { id: 'foot_feeling', text: 'I have lost some feeling in my feet', options: yesNoOptions(1) },
+      {
+        id: 'dizzying_medication',
+        text: 'I take medicine that sometimes makes me feel light-headed or more tired than usual',
+        options: yesNoOptions(1)
+      },
+      { id: 'sleep_mood_medication', text: 'I take medicine to help me sleep or improve my mood', options: yesNoOptions(1) },
+      { id: 'sad', text: 'I often feel sad or depressed', options: yesNoOptions(1) }
+    ],
+    bands: [
+      { min: 0, max: 3, label: 'Not at increased fall risk', riskLevel: AssessmentRiskLevel.LOW },
+      { min: 4, max: 7, label: 'At risk of falling', riskLevel: AssessmentRiskLevel.MODERATE },
+      { min: 8, max: 14, label: 'High risk of falling', riskLevel: AssessmentRiskLevel.HIGH }
+    ]
+  },
+  {
+    code: AssessmentInstrumentCode.ZARIT_BURDEN,
+    version: 1,
+    name: 'Zarit Burden Interview (12-item short form)',
+    description: 'Burden experienced by the client\'s primary caregiver, answered by the caregiver.',
+    higherScoreIsWorse: true,
+    items: [
+      { id: 'time_for_self', text: 'Not enough time for yourself because of the time spent caring', options: BURDEN_OPTIONS },
+      { id: 'stressed', text: 'Stressed between caring and meeting other responsibilities', options: BURDEN_OPTIONS },
+      { id: 'angry', text: 'Angry when around the person you care for', options: BURDEN_OPTIONS },
+      { id: 'relationships', text: 'Caring affects your relationships with family or friends negatively', options: BURDEN_OPTIONS },
+      { id: 'strained', text: 'Strained when around the person you care for', options: BURDEN_OPTIONS },
+      { id: 'health', text: 'Your health has suffered because of caring', options: BURDEN_OPTIONS },
+      { id: 'privacy', text: 'Not as much privacy as you would like', options: BURDEN_OPTIONS },
+      { id: 'social_life', text: 'Your social life has suffered because of caring', options: BURDEN_OPTIONS },
+      { id: 'lost_control', text: 'Lost control of your life since the illness', options: BURDEN_OPTIONS },
+      { id: 'uncertain', text: 'Uncertain about what to do for the person you care for', options: BURDEN_OPTIONS },
+      { id: 'should_do_more', text: 'Should be doing more for the person you care for', options: BURDEN_OPTIONS },
+      { id: 'could_do_better', text: 'Could do a better job in caring', options: BURDEN_OPTIONS }
+    ],
+    bands: [
+      { min: 0, max: 10, label: 'Little or no burden', riskLevel: AssessmentRiskLevel.LOW },
+      { min: 11, max: 20, label: 'Mild to moderate burden', riskLevel: AssessmentRiskLevel.MODERATE },
+      { min: 21, max: 48, label: 'High burden', riskLevel: AssessmentRiskLevel.HIGH }
+    ]
+  }
+];
+
+/**
+ * Looks up a version of an assessment instrument
+ * @param code - The instrument code
+ * @param version - The version, or the latest version if omitted
+ * @returns The instrument, or undefined if the code or version is unknown
+ */
+export function getAssessmentInstrument(
+  code: AssessmentInstrumentCode,
+  version?: number
+): AssessmentInstrument | undefined {
+  const versions = ASSESSMENT_INSTRUMENTS.filter(instrument => instrument.code === code);
+
+  if (version !== undefined) {
+    return versions.find(instrument => instrument.version === version);
+  }
+
+  return versions.reduce<AssessmentInstrument | undefined>(
+    (latest, instrument) => (!latest || instrument.version > latest.version ? instrument : latest),
+    undefined
+  );
+}
@@ -48,7 +48,9 @@ export const PROVIDER_METRICS = [
   'booking_rate',        // Percentage of available slots that are booked
   'response_time',       // Average time for providers to respond to requests
   'rating_avg',          // Average provider rating
-  'match_success_rate'   // Percentage of successful client-provider matches
+  'match_success_rate',  // Percentage of successful client-provider matches
+  'no_show_rate',        // Percentage of concluded appointments the client did not attend
+  'late_cancellation_rate' // Percentage of concluded appointments the client cancelled late
 ] as const;
 
 /**
@@ -129,6 +131,15 @@ export const REPORT_FORMATS = [
   'json'    // JSON data format
 ] as const;
 
+/**
+ * Frequencies at which saved report definitions can be delivered
+ */
+export const REPORT_SCHEDULE_FREQUENCIES = [
+  'weekly',     // Delivered every week on a set weekday
+  'monthly',    // Delivered every month on a set day
+  'quarterly'   // Delivered on a set day of the first month of each quarter
+] as const;
+
 /**
  * Default time-to-live for cached metrics in seconds (1 hour)
  */
@@ -11,12 +11,16 @@
  */
 export const NOTIFICATION_TYPES = {
   APPOINTMENT_REMINDER: 'appointment_reminder',
+  POLICY_VIOLATION: 'policy_violation',
+  POLICY_REVIEW_REQUIRED: 'policy_review_required',
   CARE_PLAN_CREATED: 'care_plan_created',
   CARE_PLAN_UPDATED: 'care_plan_updated',
   CARE_PLAN_APPROVED: 'care_plan_approved',
   SERVICE_PLAN_CREATED: 'service_plan_created',
   SERVICE_PLAN_UPDATED: 'service_plan_updated',
   SERVICE_PLAN_APPROVED: 'service_plan_approved',
+  PRIOR_AUTHORIZATION_LOW_UNITS: 'prior_authorization_low_units',
+  PRIOR_AUTHORIZATION_EXPIRING: 'prior_authorization_expiring',
   PROVIDER_MATCHED: 'provider_matched',
   PROVIDER_AVAILABILITY: 'provider_availability',
   DOCUMENT_UPLOADED: 'document_uploaded',
@@ -83,6 +87,14 @@ export const NOTIFICATION_TYPE_MAPPING = {
     category: NOTIFICATION_CATEGORIES.APPOINTMENT,
     defaultPriority: NOTIFICATION_PRIORITIES.HIGH
   },
+  policy_violation: {
+    category: NOTIFICATION_CATEGORIES.APPOINTMENT,
+    defaultPriority: NOTIFICATION_PRIORITIES.HIGH
+  },
+  policy_review_required: {
+    category: NOTIFICATION_CATEGORIES.APPOINTMENT,
+    defaultPriority: NOTIFICATION_PRIORITIES.HIGH
+  },
   care_plan_created: {
     category: NOTIFICATION_CATEGORIES.CARE_PLAN,
     defaultPriority: NOTIFICATION_PRIORITIES.NORMAL
@@ -107,6 +119,14 @@ export const NOTIFICATION_TYPE_MAPPING = {
     category: NOTIFICATION_CATEGORIES.SERVICE_PLAN,
     defaultPriority: NOTIFICATION_PRIORITIES.HIGH
   },
+  prior_authorization_low_units: {
+    category: NOTIFICATION_CATEGORIES.SERVICE_PLAN,
+    defaultPriority: NOTIFICATION_PRIORITIES.HIGH
+  },
+  prior_authorization_expiring: {
+    category: NOTIFICATION_CATEGORIES.SERVICE_PLAN,
+    defaultPriority: NOTIFICATION_PRIORITIES.HIGH
+  },
   provider_matched: {
     category: NOTIFICATION_CATEGORIES.PROVIDER,
     defaultPriority: NOTIFICATION_PRIORITIES.HIGH
@@ -0,0 +1,85 @@
+/**
+ * Payment Status Constants
+ *
+ * This file defines the enum for the payment statuses of service items in the Revolucare platform.
+ * Payment status is tracked separately from a service item's delivery status, so paying for a
+ * service never changes whether it is scheduled, active or completed.
+ */
+
+/**
+ * Enum representing the possible payment statuses of a service item.
+ */
+export enum PaymentStatus {
+  /**
+   * No payment has been attempted for the service item.
+   */
+  UNPAID = 'unpaid',
+
+  /**
+   * A payment intent has been created and is awaiting confirmation by the payer.
+   */
+  PENDING = 'pending',
+
+  /**
+   * Payment has been received.
+   */
+  PAID = 'paid',
+
+  /**
+   * The most recent payment attempt was declined or otherwise failed.
+   */
+  PAYMENT_FAILED = 'payment_failed',
+
+  /**
+   * The payment intent was cancelled before payment was received.
+   */
+  PAYMENT_CANCELLED = 'payment_cancelled',
+
+  /**
+   * The full payment has been refunded.
+   */
+  REFUNDED = 'refunded',
+
+  /**
+   * Part of the payment has been refunded.
+   */
+  PARTIALLY_REFUNDED = 'partially_refunded'
+}
+
+/**
+ * Allowed payment status transitions for a service item.
+ * Updates that are not listed are ignored, so late or replayed payment events
+ * cannot, for example, mark a paid service item as failed.
+ */
+export const PaymentStatusTransitions: Record<PaymentStatus, PaymentStatus[]> = {
+  [PaymentStatus.UNPAID]: [
+    PaymentStatus.PENDING,
+    PaymentStatus.PAID,
+    PaymentStatus.PAYMENT_FAILED,
+    PaymentStatus.PAYMENT_CANCELLED
+  ],
+  [PaymentStatus.PENDING]: [
+    PaymentStatus.PAID,
+    PaymentStatus.PAYMENT_FAILED,
+    PaymentStatus.PAYMENT_CANCELLED
+  ],
+  [PaymentStatus.PAYMENT_FAILED]: [
+    PaymentStatus.PENDING,
+    PaymentStatus.PAID,
+    PaymentStatus.PAYMENT_CANCELLED
+  ],
+  [PaymentStatus.PAYMENT_CANCELLED]: [
+    PaymentStatus.PENDING,
+    PaymentStatus.PAID
+  ],
+  [PaymentStatus.PAID]: [
+    PaymentStatus.REFUNDED,
+    PaymentStatus.PARTIALLY_REFUNDED
+  ],
+  [PaymentStatus.PARTIALLY_REFUNDED]: [
+    PaymentStatus.REFUNDED
+  ],
+  [PaymentStatus.REFUNDED]: [
+    PaymentStatus.PENDING
+  ]
+};
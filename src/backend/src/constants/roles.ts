@@ -42,6 +42,7 @@ export const DefaultRolePermissions = {
 /**
  * Maps each role to its specific permissions for fine-grained access control.
  * These permissions are in addition to those inherited through the role hierarchy.
+ * Administrators can additionally be granted individual permissions on their admin profile.
  * The permission format follows a resource:action pattern for clarity and consistency.
  */
 export const RolePermissions: Record<Roles, string[]> = {
@@ -52,10 +53,16 @@ export const RolePermissions: Record<Roles, string[]> = {
     'rate:providers',
     'view:matched-providers',
     'schedule:appointments',
+    'reschedule:appointments',
     'upload:own-documents',
     'view:own-notifications',
     'provide:feedback',
-    'cancel:own-appointments'
+    'cancel:own-appointments',
+    'view:own-appointments',
+    'delete:own-documents',
+    'view:own-analytics',
+    'make:payments',
+    'message:care-team'
   ],
   
   [Roles.PROVIDER]: [
@@ -68,23 +75,34 @@ export const RolePermissions: Record<Roles, string[]> = {
     'upload:service-documents',
     'view:own-schedule',
     'message:assigned-clients',
-    'view:service-history'
+    'view:service-history',
+    'edit:provider-profile',
+    'record:care-progress',
+    'upload:own-documents'
   ],
   
   [Roles.CASE_MANAGER]: [
     'create:care-plans',
     'edit:care-plans',
+    'approve:care-plans',
+    'export:care-plans',
     'assign:providers',
     'generate:reports',
     'override:matching',
     'view:client-records',
     'create:service-plans',
+    'edit:service-plans',
     'assess:client-needs',
+    'manage:medical-history',
     'monitor:client-outcomes',
     'approve:service-requests',
     'message:clients',
     'message:providers',
-    'view:client-analytics'
+    'view:client-analytics',
+    'waive:policy-violations',
+    'schedule:appointments',
+    'make:payments',
+    'upload:own-documents'
   ],
   
   [Roles.ADMINISTRATOR]: [
@@ -102,6 +120,21 @@ export const RolePermissions: Record<Roles, string[]> = {
     'manage:case-managers',
     'view:system-health',
     'configure:notifications',
-    'manage:integrations'
+    'manage:integrations',
+    'manage:matching-profiles',
+    'refund:payments',
+    'schedule:appointments',
+    'make:payments'
   ]
-};
\ No newline at end of file
+};
+
+/**
+ * Permissions that are not inherited through the role hierarchy, for routes whose audience
+ * must not grow with it. Only the roles that list one of these in RolePermissions hold it.
+ */
+export const NonInheritedPermissions: string[] = [
+  'schedule:appointments',
+  'make:payments',
+  'upload:own-documents',
+  'rate:providers'
+];
\ No newline at end of file
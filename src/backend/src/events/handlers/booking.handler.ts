@@ -0,0 +1,243 @@
+/**
+ * Implements event handlers for booking events in the Revolucare platform.
+ * This file keeps providers' connected external calendars in step with their bookings,
+ * writing an event for each booking and updating or deleting it as the booking changes,
+ * emails clients and providers iCalendar invitations and cancellations, queues and
+ * removes clients' appointment reminders, and applies providers' late cancellation and
+ * no-show policies.
+ */
+
+import { logger } from '../../utils/logger';
+import { ICalendarSyncService } from '../../interfaces/calendar-sync.interface';
+import { ICalendarFeedService } from '../../interfaces/calendar-feed.interface';
+import { IReminderService } from '../../interfaces/reminder.interface';
+import { IBookingPolicyService } from '../../interfaces/booking-policy.interface';
+import { BookingStatus } from '../../models/booking.model';
+import { createCalendarSyncService } from '../../services/calendar/calendar-sync.service';
+import { createCalendarFeedService } from '../../services/calendar/calendar-feed.service';
+import { createReminderService } from '../../services/reminder.service';
+import { createBookingPolicyService } from '../../services/booking-policy.service';
+import { reminderQueue } from '../../queue';
+
+// Shared so that calendar writes for all booking events are serialized by the one service instance
+let calendarSyncService: ICalendarSyncService | null = null;
+
+/**
+ * Returns the calendar sync service, creating it on first use
+ * @returns The calendar sync service
+ */
+function getCalendarSyncService(): ICalendarSyncService {
+  if (!calendarSyncService) {
+    calendarSyncService = createCalendarSyncService();
+  }
+  return calendarSyncService;
+}
+
+let calendarFeedService: ICalendarFeedService | null = null;
+
+/**
+ * Returns the calendar feed service, creating it on first use
+ * @returns The calendar feed service
+ */
+function getCalendarFeedService(): ICalendarFeedService {
+  if (!calendarFeedService) {
+    calendarFeedService = createCalendarFeedService();
+  }
+  return calendarFeedService;
+}
+
+let reminderService: IReminderService | null = null;
+
+/**
+ * Returns the reminder service, creating it on first use
+ * @returns The reminder service
+ */
+function getReminderService(): IReminderService {
+  if (!reminderService) {
+    reminderService = createReminderService(reminderQueue);
+  }
+  return reminderService;
+}
+
+let bookingPolicyService: IBookingPolicyService | null = null;
+
+/**
+ * Returns the booking policy service, creating it on first use
+ * @returns The booking policy service
+ */
+function getBookingPolicyService(): IBookingPolicyService {
+  if (!bookingPolicyService) {
+    bookingPolicyService = createBookingPolicyService();
+  }
+  return bookingPolicyService;
+}
+
+/**
+ * Records a late cancellation or no-show under the provider's booking policy. Kept apart
+ * from calendar sync, invitations and reminders so that a failure in one does not skip the others.
+ * @param eventType - The booking event being handled
+ * @param bookingId - ID of the booking concerned
+ * @param record - Records the violation
+ */
+async function enforceBookingPolicy(
+  eventType: string,
+  bookingId: string,
+  record: (service: IBookingPolicyService) => Promise<unknown>
+): Promise<void> {
+  try {
+    await record(getBookingPolicyService());
+  } catch (error) {
+    logger.error(`Error applying booking policy for ${eventType} event`, {
+      bookingId,
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+}
+
+/**
+ * Queues or removes the appointment reminders of a booking event's bookings. Kept apart
+ * from calendar sync and invitations so that a failure in one does not skip the others.
+ * @param eventType - The booking event being handled
+ * @param bookingIds - IDs of the bookings concerned
+ * @param update - Queues or removes the reminders
+ */
+async function updateReminders(
+  eventType: string,
+  bookingIds: string[],
+  update: (service: IReminderService) => Promise<unknown>
+): Promise<void> {
+  try {
+    await update(getReminderService());
+  } catch (error) {
+    logger.error(`Error updating appointment reminders for ${eventType} event`, {
+      bookingIds,
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+}
+
+/**
+ * Emails a booking event's iCalendar attachments to the booking's client and provider.
+ * Kept apart from calendar sync so that a failure in one does not skip the other.
+ * @param eventType - The booking event being handled
+ * @param bookingIds - IDs of the bookings concerned
+ * @param send - Sends the emails
+ */
+async function emailCalendarInvitations(
+  eventType: string,
+  bookingIds: string[],
+  send: (service: ICalendarFeedService) => Promise<void>
+): Promise<void> {
+  try {
+    await send(getCalendarFeedService());
+  } catch (error) {
+    logger.error(`Error emailing calendar invitations for ${eventType} event`, {
+      bookingIds,
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+}
+
+/**
+ * Writes bookings to their providers' connected calendars
+ * @param eventType - The booking event being handled
+ * @param bookingIds - IDs of the bookings to write
+ */
+async function syncBookingsToCalendars(eventType: string, bookingIds: string[]): Promise<void> {
+  try {
+    logger.info(`Handling ${eventType} event`, { bookingIds });
+
+    for (const bookingId of bookingIds) {
+      await getCalendarSyncService().syncBooking(bookingId);
+    }
+
+    logger.info(`Successfully handled ${eventType} event`, { bookingIds });
+  } catch (error) {
+    logger.error(`Error handling ${eventType} event`, {
+      bookingIds,
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+}
+
+/**
+ * Handles the booking.created event by writing the booking to the provider's calendars,
+ * emailing an invitation and queuing the client's reminders
+ * @param payload - The event payload
+ */
+export async function handleBookingCreated(payload: { bookingId: string }): Promise<void> {
+  await syncBookingsToCalendars('booking.created', [payload.bookingId]);
+  await emailCalendarInvitations('booking.created', [payload.bookingId], service =>
+    service.sendBookingInvitations([payload.bookingId])
+  );
+  await updateReminders('booking.created', [payload.bookingId], service =>
+    service.scheduleReminders([payload.bookingId])
+  );
+}
+
+/**
+ * Handles the booking.rescheduled event by deleting the original booking's calendar events,
+ * writing the replacement booking, emailing the updated invitation and moving the client's
+ * reminders to the new time
+ * @param payload - The event payload
+ */
+export async function handleBookingRescheduled(payload: { bookingId: string; newBookingId: string }): Promise<void> {
+  await syncBookingsToCalendars('booking.rescheduled', [payload.bookingId, payload.newBookingId]);
+  await emailCalendarInvitations('booking.rescheduled', [payload.bookingId, payload.newBookingId], service =>
+    service.sendRescheduleInvitation(payload.bookingId, payload.newBookingId)
+  );
+  await updateReminders('booking.rescheduled', [payload.bookingId, payload.newBookingId], async service => {
+    await service.cancelReminders(payload.bookingId);
+    await service.scheduleReminders([payload.newBookingId]);
+  });
+}
+
+/**
+ * Handles the booking.cancelled event by deleting the booking's calendar events, emailing
+ * a cancellation, removing the client's reminders and recording a late cancellation if the
+ * client cancelled inside the provider's cancellation window
+ * @param payload - The event payload
+ */
+export async function handleBookingCancelled(payload: { bookingId: string }): Promise<void> {
+  await syncBookingsToCalendars('booking.cancelled', [payload.bookingId]);
+  await emailCalendarInvitations('booking.cancelled', [payload.bookingId], service =>
+    service.sendCancellation(payload.bookingId)
+  );
+  await updateReminders('booking.cancelled', [payload.bookingId], service =>
+    service.cancelReminders(payload.bookingId)
+  );
+  await enforceBookingPolicy('booking.cancelled', payload.bookingId, service =>
+    service.recordLateCancellation(payload.bookingId)
+  );
+}
+
+/**
+ * Handles the booking.status-changed event by updating the booking's calendar events and
+ * recording a no-show under the provider's booking policy
+ * @param payload - The event payload
+ */
+export async function handleBookingStatusChanged(payload: { bookingId: string; status?: BookingStatus }): Promise<void> {
+  await syncBookingsToCalendars('booking.status-changed', [payload.bookingId]);
+
+  if (payload.status === BookingStatus.NO_SHOW) {
+    await enforceBookingPolicy('booking.status-changed', payload.bookingId, service =>
+      service.recordNoShow(payload.bookingId)
+    );
+  }
+}
+
+/**
+ * Handles the booking.series-created event by writing each occurrence to the provider's
+ * calendars, emailing one message with an invitation for each occurrence and queuing the
+ * client's reminders for each occurrence
+ * @param payload - The event payload
+ */
+export async function handleBookingSeriesCreated(payload: { seriesId: string; bookingIds: string[] }): Promise<void> {
+  await syncBookingsToCalendars('booking.series-created', payload.bookingIds);
+  await emailCalendarInvitations('booking.series-created', payload.bookingIds, service =>
+    service.sendBookingInvitations(payload.bookingIds)
+  );
+  await updateReminders('booking.series-created', payload.bookingIds, service =>
+    service.scheduleReminders(payload.bookingIds)
+  );
+}
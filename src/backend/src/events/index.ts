@@ -9,11 +9,13 @@
 
 import { logger } from '../utils/logger';
 import { initializeAuthSubscribers, AUTH_EVENTS } from './subscribers/auth.subscriber';
+import { initializeBookingSubscribers } from './subscribers/booking.subscriber';
 import { initializeCarePlanSubscribers } from './subscribers/care-plan.subscriber';
 import { initializeDocumentSubscribers } from './subscribers/document.subscriber';
 import { initializeNotificationSubscribers } from './subscribers/notification.subscriber';
 import { initializeProviderSubscribers, PROVIDER_EVENTS } from './subscribers/provider.subscriber';
 import { initializeServicesPlanSubscribers } from './subscribers/services-plan.subscriber';
+import { BOOKING_EVENTS } from '../services/bookings.service';
 
 /**
  * @global
@@ -22,6 +24,7 @@ import { initializeServicesPlanSubscribers } from './subscribers/services-plan.s
 export const EVENTS = {
   AUTH: AUTH_EVENTS,
   PROVIDER: PROVIDER_EVENTS,
+  BOOKING: BOOKING_EVENTS,
   CARE_PLAN: {
     CARE_PLAN_CREATED: 'care-plan.created',
     CARE_PLAN_UPDATED: 'care-plan.updated',
@@ -59,6 +62,9 @@ export async function initializeEventSystem(): Promise<void> {
     // Initialize authentication event subscribers
     await initializeAuthSubscribers();
 
+    // Initialize booking event subscribers
+    await initializeBookingSubscribers();
+
     // Initialize care plan event subscribers
     await initializeCarePlanSubscribers();
 
@@ -0,0 +1,121 @@
+/**
+ * Implements booking event subscribers for the Revolucare platform.
+ * This file sets up Redis pub/sub subscribers for booking events and connects them to the appropriate event handlers,
+ * enabling bookings to be written out to providers' connected calendars and emailed as calendar invitations as they change.
+ */
+
+import { redisClient } from '../../config/redis'; // ioredis@5.3.2
+import { logger } from '../../utils/logger';
+import { BOOKING_EVENTS } from '../../services/bookings.service';
+import {
+  handleBookingCreated,
+  handleBookingRescheduled,
+  handleBookingCancelled,
+  handleBookingStatusChanged,
+  handleBookingSeriesCreated
+} from '../handlers/booking.handler';
+
+/**
+ * Subscribes to booking-related Redis channels
+ * @returns Promise that resolves when all subscriptions are established
+ */
+async function subscribeToBookingEvents(): Promise<void> {
+  try {
+    for (const channel of Object.values(BOOKING_EVENTS)) {
+      await redisClient.subscribe(channel, (err) => {
+        if (err) {
+          logger.error(`Failed to subscribe to ${channel} channel: ${err.message}`);
+        } else {
+          logger.info(`Subscribed to ${channel} channel`);
+        }
+      });
+    }
+
+    // Log successful subscription to all booking events
+    logger.info('Successfully subscribed to all booking events');
+  } catch (error) {
+    // Catch and log any errors during subscription
+    logger.error('Error subscribing to booking events', {
+      error: error instanceof Error ? error.message : String(error)
+    });
+    throw error;
+  }
+}
+
+/**
+ * Sets up message listeners for booking events
+ * @returns void No return value
+ */
+function setupBookingEventListeners(): void {
+  // Set up message listener for Redis pub/sub messages
+  redisClient.on('message', async (channel: string, message: string) => {
+    // The connection is shared with other domains' subscribers, which handle their own channels
+    if (!Object.values(BOOKING_EVENTS).includes(channel)) {
+      return;
+    }
+
+    try {
+      // Parse the received message payload
+      const payload = JSON.parse(message);
+
+      // Determine the channel/event type
+      switch (channel) {
+        case BOOKING_EVENTS.BOOKING_CREATED:
+          await handleBookingCreated(payload);
+          break;
+
+        case BOOKING_EVENTS.BOOKING_RESCHEDULED:
+          await handleBookingRescheduled(payload);
+          break;
+
+        case BOOKING_EVENTS.BOOKING_CANCELLED:
+          await handleBookingCancelled(payload);
+          break;
+
+        case BOOKING_EVENTS.BOOKING_STATUS_CHANGED:
+          await handleBookingStatusChanged(payload);
+          break;
+
+        case BOOKING_EVENTS.BOOKING_SERIES_CREATED:
+          await handleBookingSeriesCreated(payload);
+          break;
+      }
+    } catch (error) {
+      // Catch and log any errors during event handling
+      logger.error('Error handling booking event', {
+        channel,
+        message,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+}
+
+/**
+ * Initializes all booking event subscribers
+ * @returns Promise that resolves when initialization is complete
+ */
+async function initializeBookingSubscribers(): Promise<void> {
+  try {
+    // Log the start of booking subscribers initialization
+    logger.info('Initializing booking subscribers...');
+
+    // Set up booking event listeners
+    setupBookingEventListeners();
+
+    // Subscribe to booking event channels
+    await subscribeToBookingEvents();
+
+    // Log successful initialization of booking subscribers
+    logger.info('Successfully initialized booking subscribers');
+  } catch (error) {
+    // Catch and log any errors during initialization
+    logger.error('Error initializing booking subscribers', {
+      error: error instanceof Error ? error.message : String(error)
+    });
+    throw error;
+  }
+}
+
+// Export function to initialize booking event subscribers during application startup
+export { initializeBookingSubscribers };
@@ -0,0 +1,137 @@
+/**
+ * Clearinghouse Integration
+ *
+ * This module provides the adapters that relay X12 270 eligibility inquiries to payers
+ * and return their 271 responses: one for clearinghouses that accept inquiries over HTTP,
+ * and a local stand-in backed by a directory of files so that eligibility checks can be
+ * developed and tested offline.
+ *
+ * @module integrations/clearinghouse
+ */
+
+import fs from 'fs'; // built-in
+import path from 'path'; // built-in
+import axios from 'axios'; // axios@1.4.0
+import { eligibilityConfig, HTTP_CLEARINGHOUSE } from '../config/eligibility';
+import { ClearinghouseAdapter } from '../interfaces/eligibility.interface';
+import { ErrorCodes } from '../constants/error-codes';
+import { errorFactory } from '../utils/error-handler';
+import { logger } from '../utils/logger';
+
+/**
+ * Local stand-in for a clearinghouse. Each inquiry is written to the outbox directory as
+ * <control number>.270 and answered with the canned response in the inbox directory
+ * named after the member asked about, <member ID>.271.
+ */
+export class FileClearinghouseAdapter implements ClearinghouseAdapter {
+  readonly name = 'file';
+
+  /**
+   * Creates a new FileClearinghouseAdapter
+   * @param directory - Directory holding the outbox and inbox directories
+   */
+  constructor(private directory: string = eligibilityConfig.fileDirectory) {
+    this.directory = directory;
+  }
+
+  /**
+   * Writes an inquiry to the outbox and reads the member's canned response
+   * @param request - The X12 270 interchange
+   * @param inquiry - The interchange control number and member ID
+   * @returns The X12 271 interchange
+   */
+  async submitInquiry(request: string, inquiry: { controlNumber: string; memberId: string }): Promise<string> {
+    const outbox = path.join(this.directory, 'outbox');
+    // Member IDs are reduced to safe characters so they cannot point outside the inbox
+    const responsePath = path.join(this.directory, 'inbox', `${inquiry.memberId.replace(/[^\w-]/g, '_')}.271`);
+
+    await fs.promises.mkdir(outbox, { recursive: true });
+    await fs.promises.writeFile(path.join(outbox, `${inquiry.controlNumber}.270`), request, 'utf8');
+
+    try {
+      return await fs.promises.readFile(responsePath, 'utf8');
+    } catch (error) {
+      logger.warn('No canned eligibility response for member', { controlNumber: inquiry.controlNumber, responsePath });
+      throw errorFactory.createError(
+        'The clearinghouse has no response for this member',
+        ErrorCodes.EXTERNAL_SERVICE_ERROR,
+        { clearinghouse: this.name, controlNumber: inquiry.controlNumber },
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+}
+
+/**
+ * Adapter for clearinghouses that accept X12 270 inquiries posted over HTTP and answer
+ * with the 271 response in the response body
+ */
+export class HttpClearinghouseAdapter implements ClearinghouseAdapter {
+  readonly name = 'http';
+
+  /**
+   * Creates a new HttpClearinghouseAdapter
+   * @param endpoint - URL inquiries are posted to
+   * @param apiKey - Key the clearinghouse issued
+   * @param timeout - Request timeout in milliseconds
+   */
+  constructor(
+    private endpoint: string = eligibilityConfig.endpoint,
+    private apiKey: string = eligibilityConfig.apiKey,
+    private timeout: number = eligibilityConfig.timeout
+  ) {
+    this.endpoint = endpoint;
+    this.apiKey = apiKey;
+    this.timeout = timeout;
+  }
+
+  /**
+   * Posts an inquiry to the clearinghouse
+   * @param request - The X12 270 interchange
+   * @param inquiry - The interchange control number and member ID
+   * @returns The X12 271 interchange
+   */
+  async submitInquiry(request: string, inquiry: { controlNumber: string; memberId: string }): Promise<string> {
+    if (!this.endpoint) {
+      throw errorFactory.createError(
+        'Clearinghouse endpoint is not configured',
+        ErrorCodes.SERVICE_UNAVAILABLE,
+        { clearinghouse: this.name }
+      );
+    }
+
+    try {
+      const response = await axios.post<string>(this.endpoint, request, {
+        headers: {
+          'Content-Type': 'application/edi-x12',
+          Authorization: `Bearer ${this.apiKey}`
+        },
+        responseType: 'text',
+        timeout: this.timeout
+      });
+
+      return response.data;
+    } catch (error) {
+      logger.error('Clearinghouse eligibility inquiry failed', {
+        controlNumber: inquiry.controlNumber,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      throw errorFactory.createError(
+        'The clearinghouse could not be reached',
+        ErrorCodes.EXTERNAL_SERVICE_ERROR,
+        { clearinghouse: this.name, controlNumber: inquiry.controlNumber },
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+}
+
+/**
+ * Creates the clearinghouse adapter selected in the eligibility configuration
+ * @returns The clearinghouse adapter
+ */
+export const createClearinghouseAdapter = (): ClearinghouseAdapter => {
+  return eligibilityConfig.clearinghouse === HTTP_CLEARINGHOUSE
+    ? new HttpClearinghouseAdapter()
+    : new FileClearinghouseAdapter();
+};
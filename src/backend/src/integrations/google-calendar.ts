@@ -593,11 +593,13 @@ export class GoogleCalendarIntegration implements ExternalServiceInterface {
    * Sets up webhook notifications for calendar changes
    * @param calendarId ID of the calendar to watch for changes
    * @param notificationUrl URL to send notifications to
+   * @param channelToken Secret echoed back in the X-Goog-Channel-Token header of each notification
    * @returns Promise that resolves with webhook details
    */
   async setupWebhookNotifications(
     calendarId: string,
-    notificationUrl: string
+    notificationUrl: string,
+    channelToken?: string
   ): Promise<{
     id: string;
     resourceId?: string;
@@ -617,6 +619,7 @@ export class GoogleCalendarIntegration implements ExternalServiceInterface {
           id: channelId,
           type: 'web_hook',
           address: notificationUrl,
+          token: channelToken,
           // Set expiration to 7 days (max allowed)
           expiration: String(Date.now() + 7 * 24 * 60 * 60 * 1000),
         },
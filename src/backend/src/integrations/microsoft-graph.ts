@@ -568,20 +568,19 @@ export class MicrosoftGraphIntegration implements ExternalServiceInterface {
    * Sets up webhook notifications for calendar changes
    * @param calendarId - ID of the calendar
    * @param notificationUrl - URL to receive webhook notifications
+   * @param clientState - Secret echoed back in each notification; generated if omitted
    * @returns Promise that resolves with webhook details
    */
   async setupWebhookNotifications(
     calendarId: string,
-    notificationUrl: string
+    notificationUrl: string,
+    clientState: string = crypto.randomBytes(16).toString('hex')
   ): Promise<{ id: string; resourceId?: string; expirationTime: string }> {
     try {
       // Calculate expiration time (max 4230 minutes / ~3 days)
       const expirationDateTime = new Date();
       expirationDateTime.setDate(expirationDateTime.getDate() + 3);
       
-      // Generate a random client state for webhook validation
-      const clientState = crypto.randomBytes(16).toString('hex');
-      
       const subscription = await this.request<any>(
         '/subscriptions',
         {
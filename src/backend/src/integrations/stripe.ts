@@ -240,7 +240,7 @@ const retrieveCustomer = async (
  * @returns Promise resolving to the constructed Stripe event
  */
 const constructWebhookEvent = async (
-  payload: string,
+  payload: string | Buffer,
   signature: string
 ): Promise<Stripe.Event> => {
   try {
@@ -362,6 +362,7 @@ const handleStripeError = (error: Error): never => {
         break;
       case 'idempotency_error':
       case 'invalid_request_error':
+      case 'StripeSignatureVerificationError':
         errorCode = ErrorCodes.BAD_REQUEST;
         break;
     }
@@ -520,7 +521,7 @@ class StripeService implements ExternalServiceInterface {
    * @returns Promise resolving to the constructed Stripe event
    */
   async constructWebhookEvent(
-    payload: string,
+    payload: string | Buffer,
     signature: string
   ): Promise<Stripe.Event> {
     return constructWebhookEvent(payload, signature);
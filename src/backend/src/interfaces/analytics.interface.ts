@@ -14,11 +14,18 @@ import {
   DashboardResponse,
   ReportRequestDTO,
   ReportResponse,
+  RenderedReport,
+  ReportSchedule,
+  CreateReportScheduleDTO,
+  UpdateReportScheduleDTO,
   ExportRequestDTO,
   ExportResponse,
   AnalyticsEventDTO,
   Dashboard,
-  Metric
+  Metric,
+  CarePlanOutcomeData,
+  InterventionEffectivenessData,
+  ProviderPerformanceData
 } from '../types/analytics.types';
 
 /**
@@ -47,6 +54,14 @@ export interface IAnalyticsService {
    */
   generateReport(request: ReportRequestDTO): Promise<ReportResponse>;
   
+  /**
+   * Builds the file for a report without storing it
+   * @param request The report generation request parameters
+   * @param generatedAt Generation time used in the file name
+   * @returns Promise resolving to the generated report file
+   */
+  renderReport(request: ReportRequestDTO, generatedAt?: Date): Promise<RenderedReport>;
+  
   /**
    * Exports data in a specified format
    * @param request The data export request parameters
@@ -111,6 +126,27 @@ export interface IAnalyticsRepository {
    * @returns Promise resolving to an array of metric history points
    */
   getMetricHistory(metricId: string, startDate: Date, endDate: Date): Promise<{ date: Date; value: number }[]>;
+  
+  /**
+   * Retrieves the outcomes of care plan goals with activity in a date range
+   * @param filters Filters including startDate, endDate, clientId and carePlanId
+   * @returns Promise resolving to one outcome per goal
+   */
+  getCarePlanOutcomeData(filters: Record<string, any>): Promise<CarePlanOutcomeData[]>;
+  
+  /**
+   * Retrieves the effectiveness of care plan interventions with sessions in a date range
+   * @param filters Filters including startDate, endDate, clientId and carePlanId
+   * @returns Promise resolving to one effectiveness summary per intervention
+   */
+  getInterventionEffectivenessData(filters: Record<string, any>): Promise<InterventionEffectivenessData[]>;
+  
+  /**
+   * Retrieves attendance at providers' appointments in a date range
+   * @param filters Filters including startDate, endDate and providerId
+   * @returns Promise resolving to one attendance summary per provider
+   */
+  getProviderPerformanceData(filters: Record<string, any>): Promise<ProviderPerformanceData[]>;
 }
 
 /**
@@ -163,4 +199,72 @@ export interface IAnalyticsCache {
    * @returns Promise resolving when cache invalidation is complete
    */
   invalidateDashboard(userId: string): Promise<void>;
-}
\ No newline at end of file
+}
+
+/**
+ * Interface for the report schedule service responsible for saved report definitions
+ * that are delivered to recipients by email on a recurring schedule.
+ */
+export interface IReportScheduleService {
+  /**
+   * Saves a report definition with its delivery schedule
+   * @param data The report schedule data
+   * @param userId ID of the creating user
+   * @returns Promise resolving to the created schedule
+   */
+  createSchedule(data: CreateReportScheduleDTO, userId: string): Promise<ReportSchedule>;
+  
+  /**
+   * Retrieves the report schedules visible to a user
+   * @param userId ID of the requesting user
+   * @param userRole Role of the requesting user
+   * @returns Promise resolving to the schedules, ordered by next delivery
+   */
+  getSchedules(userId: string, userRole: string): Promise<ReportSchedule[]>;
+  
+  /**
+   * Retrieves a report schedule by ID
+   * @param id The schedule ID
+   * @param userId ID of the requesting user
+   * @param userRole Role of the requesting user
+   * @returns Promise resolving to the schedule
+   */
+  getScheduleById(id: string, userId: string, userRole: string): Promise<ReportSchedule>;
+  
+  /**
+   * Updates a report schedule, recalculating its next delivery when the timing changes
+   * @param id The schedule ID
+   * @param data The fields to update
+   * @param userId ID of the requesting user
+   * @param userRole Role of the requesting user
+   * @returns Promise resolving to the updated schedule
+   */
+  updateSchedule(id: string, data: UpdateReportScheduleDTO, userId: string, userRole: string): Promise<ReportSchedule>;
+  
+  /**
+   * Deletes a report schedule
+   * @param id The schedule ID
+   * @param userId ID of the requesting user
+   * @param userRole Role of the requesting user
+   * @returns Promise resolving when the schedule is deleted
+   */
+  deleteSchedule(id: string, userId: string, userRole: string): Promise<void>;
+  
+  /**
+   * Queues a delivery job for every active schedule that is due
+   * @param now Reference time used to find due schedules
+   * @returns Promise resolving to the number of deliveries queued
+   */
+  enqueueDueSchedules(now?: Date): Promise<number>;
+  
+  /**
+   * Generates a scheduled report, emails it to the schedule's recipients and advances
+   * the schedule to its next delivery. When the final attempt fails the schedule still
+   * advances, so one failed delivery does not stop the schedule.
+   * @param scheduleId The schedule ID
+   * @param runAt The delivery slot being processed
+   * @param finalAttempt Whether the queue will not retry the delivery if it fails
+   * @returns Promise resolving when the delivery has been attempted
+   */
+  deliverScheduledReport(scheduleId: string, runAt: Date, finalAttempt?: boolean): Promise<void>;
+}
@@ -0,0 +1,71 @@
+import {
+  AuditLog,
+  AuditLogExport,
+  AuditLogFilterParams,
+  AuditLogListResponse,
+  AuditExportFormat,
+  CreateAuditLogDTO
+} from '../models/audit-log.model';
+
+/**
+ * Request context captured alongside every audit log entry.
+ */
+export interface AuditContext {
+  actorId: string | null;
+  actorRole: string | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  requestId: string | null;
+}
+
+/**
+ * Interface defining the contract for the Audit Service.
+ *
+ * This service maintains the append-only audit trail of access to and changes of
+ * protected health information, and exposes it to administrators for compliance review.
+ */
+export interface IAuditService {
+  /**
+   * Records an entry in the audit trail.
+   *
+   * @param entry - The entry to record
+   * @returns The recorded entry, or null if it could not be persisted
+   */
+  record(entry: CreateAuditLogDTO): Promise<AuditLog | null>;
+
+  /**
+   * Records a change to a resource, deriving the field-level diff from its before and after state.
+   *
+   * @param entry - The entry to record, without changes
+   * @param before - State of the resource before the change (null for creations)
+   * @param after - State of the resource after the change (null for deletions)
+   * @returns The recorded entry, or null if it could not be persisted
+   */
+  recordChange(
+    entry: Omit<CreateAuditLogDTO, 'changes'>,
+    before: Record<string, any> | null,
+    after: Record<string, any> | null
+  ): Promise<AuditLog | null>;
+
+  /**
+   * Retrieves audit log entries matching the filter parameters.
+   *
+   * @param filters - Filter and pagination parameters
+   * @returns Paginated list of audit log entries
+   */
+  getAuditLogs(filters: AuditLogFilterParams): Promise<AuditLogListResponse>;
+
+  /**
+   * Exports audit log entries matching the filter parameters. The export itself is audited.
+   *
+   * @param filters - Filter parameters
+   * @param format - Export file format
+   * @param context - Context of the administrator requesting the export
+   * @returns The export file contents
+   */
+  exportAuditLogs(
+    filters: AuditLogFilterParams,
+    format: AuditExportFormat,
+    context: AuditContext
+  ): Promise<AuditLogExport>;
+}
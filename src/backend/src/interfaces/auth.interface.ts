@@ -9,6 +9,7 @@
 
 import { User, UserWithoutPassword } from '../types/user.types';
 import { Roles } from '../constants/roles';
+import { MfaPolicy } from '../models/mfa.model';
 import { Request } from 'express';
 
 /**
@@ -25,9 +26,76 @@ export interface IAuthService {
   /**
    * Authenticates a user with email and password
    * @param credentials Email and password credentials
+   * @returns Authentication tokens and user data, or an MFA challenge when a second factor is required
+   */
+  login(credentials: LoginRequest): Promise<AuthResponse | MfaChallengeResponse>;
+
+  /**
+   * Completes a two-step login by answering an MFA challenge
+   * @param verifyData The challenge token and a TOTP or recovery code
    * @returns Authentication tokens and user data
    */
-  login(credentials: LoginRequest): Promise<AuthResponse>;
+  verifyMfaChallenge(verifyData: MfaVerifyRequest): Promise<AuthResponse>;
+
+  /**
+   * Starts MFA enrollment for a user whose role requires MFA, during login
+   * @param mfaToken The challenge token returned by login
+   * @returns The TOTP secret and otpauth URI to enroll in an authenticator app
+   */
+  startMfaEnrollment(mfaToken: string): Promise<MfaSetupResponse>;
+
+  /**
+   * Starts MFA enrollment for an authenticated user
+   * @param userId The authenticated user's ID
+   * @returns The TOTP secret and otpauth URI to enroll in an authenticator app
+   */
+  setupMfa(userId: string): Promise<MfaSetupResponse>;
+
+  /**
+   * Confirms MFA enrollment with a code from the authenticator app
+   * @param userId The authenticated user's ID
+   * @param code The current TOTP code
+   * @returns Recovery codes to store safely (shown only once)
+   */
+  enableMfa(userId: string, code: string): Promise<MfaRecoveryCodesResponse>;
+
+  /**
+   * Disables MFA for an authenticated user
+   * @param userId The authenticated user's ID
+   * @param codeData A TOTP or recovery code proving possession of the second factor
+   * @returns Success indication
+   */
+  disableMfa(userId: string, codeData: MfaCodeRequest): Promise<boolean>;
+
+  /**
+   * Replaces a user's recovery codes
+   * @param userId The authenticated user's ID
+   * @param codeData A TOTP or recovery code proving possession of the second factor
+   * @returns The new recovery codes (shown only once)
+   */
+  regenerateRecoveryCodes(userId: string, codeData: MfaCodeRequest): Promise<MfaRecoveryCodesResponse>;
+
+  /**
+   * Retrieves the MFA status of a user
+   * @param userId The authenticated user's ID
+   * @returns Whether MFA is enabled and required, and how many recovery codes remain
+   */
+  getMfaStatus(userId: string): Promise<MfaStatus>;
+
+  /**
+   * Retrieves the MFA policy of every role
+   * @returns MFA policies for all roles
+   */
+  getMfaPolicies(): Promise<MfaPolicy[]>;
+
+  /**
+   * Sets whether MFA is mandatory for a role
+   * @param role The role to update
+   * @param isRequired Whether MFA is mandatory
+   * @param adminId The administrator making the change
+   * @returns The updated policy
+   */
+  updateMfaPolicy(role: Roles, isRequired: boolean, adminId: string): Promise<MfaPolicy>;
   
   /**
    * Refreshes the authentication tokens using a valid refresh token
@@ -121,6 +189,58 @@ export interface AuthResponse {
   refreshToken: string;
   expiresIn: number; // Token expiration time in seconds
   user: UserWithoutPassword;
+  recoveryCodes?: string[]; // Issued when MFA enrollment is completed during login
+}
+
+/**
+ * MFA challenge returned by login when a second factor is required before tokens are issued
+ */
+export interface MfaChallengeResponse {
+  mfaRequired: true;
+  mfaToken: string; // Short-lived token identifying the pending login
+  expiresIn: number; // Challenge expiration time in seconds
+  enrollmentRequired: boolean; // The user's role requires MFA but the user has not enrolled yet
+}
+
+/**
+ * MFA challenge verification request data structure
+ */
+export interface MfaVerifyRequest {
+  mfaToken: string;
+  code?: string;
+  recoveryCode?: string;
+}
+
+/**
+ * Second factor proof for MFA management requests
+ */
+export interface MfaCodeRequest {
+  code?: string;
+  recoveryCode?: string;
+}
+
+/**
+ * MFA enrollment data for authenticator apps
+ */
+export interface MfaSetupResponse {
+  secret: string;
+  otpauthUri: string;
+}
+
+/**
+ * Newly issued MFA recovery codes
+ */
+export interface MfaRecoveryCodesResponse {
+  recoveryCodes: string[];
+}
+
+/**
+ * MFA status of a user
+ */
+export interface MfaStatus {
+  isEnabled: boolean;
+  isRequired: boolean; // MFA is mandatory for the user's role
+  recoveryCodesRemaining: number;
 }
 
 /**
@@ -0,0 +1,81 @@
+import { AuditContext } from './audit.interface';
+import {
+  BookingPolicy,
+  PolicyViolation,
+  PolicyViolationFilters,
+  UpdateBookingPolicyDTO
+} from '../types/booking-policy.types';
+
+/**
+ * Interface defining the contract for the Booking Policy Service.
+ *
+ * This service applies each provider's late cancellation and no-show policy: it records
+ * violations against clients, charges the provider's fees, refers clients who reach the
+ * strike threshold to their case managers and lets case managers waive violations.
+ */
+export interface IBookingPolicyService {
+  /**
+   * Retrieves a provider's booking policy, or the default policy if they have not set one.
+   *
+   * @param providerId - The provider ID
+   * @returns The provider's booking policy
+   */
+  getPolicy(providerId: string): Promise<BookingPolicy>;
+
+  /**
+   * Changes a provider's booking policy.
+   *
+   * @param providerId - The provider ID
+   * @param data - The settings to change
+   * @param userId - ID of the requesting user
+   * @param userRole - Role of the requesting user
+   * @returns The updated policy
+   */
+  updatePolicy(providerId: string, data: UpdateBookingPolicyDTO, userId: string, userRole: string): Promise<BookingPolicy>;
+
+  /**
+   * Records a late cancellation if a client cancelled a booking inside the provider's
+   * cancellation window.
+   *
+   * @param bookingId - The cancelled booking's ID
+   * @returns The recorded violation, or null if the cancellation was not late
+   */
+  recordLateCancellation(bookingId: string): Promise<PolicyViolation | null>;
+
+  /**
+   * Records a no-show for a booking the client did not attend.
+   *
+   * @param bookingId - The booking's ID
+   * @returns The recorded violation, or null if the booking is not a no-show
+   */
+  recordNoShow(bookingId: string): Promise<PolicyViolation | null>;
+
+  /**
+   * Retrieves policy violations visible to the requesting user.
+   *
+   * @param filters - Filters for the violations
+   * @param userId - ID of the requesting user
+   * @param userRole - Role of the requesting user
+   * @returns The matching violations
+   */
+  getViolations(filters: PolicyViolationFilters, userId: string, userRole: string): Promise<PolicyViolation[]>;
+
+  /**
+   * Waives a violation as an exception, voiding its fee and removing it from the client's
+   * strike count. The reason is recorded in the audit trail.
+   *
+   * @param id - The violation ID
+   * @param reason - Why the exception is granted
+   * @param userId - ID of the requesting user
+   * @param userRole - Role of the requesting user
+   * @param auditContext - Request context recorded with the exception
+   * @returns The waived violation
+   */
+  waiveViolation(
+    id: string,
+    reason: string,
+    userId: string,
+    userRole: string,
+    auditContext: AuditContext
+  ): Promise<PolicyViolation>;
+}
@@ -0,0 +1,118 @@
+import {
+  Booking,
+  BookingStatus,
+  BookingFilterParams,
+  BookingResponse,
+  BookingListResponse,
+  CreateBookingDTO,
+  RescheduleBookingDTO,
+  CreateBookingSeriesDTO,
+  CreateBookingSeriesResponse,
+  BookingSeriesResponse,
+  SeriesScope
+} from '../models/booking.model';
+
+/**
+ * Interface defining the contract for the Booking Service.
+ *
+ * This service manages appointments between clients and providers, enforcing
+ * role-based access and provider availability throughout the booking lifecycle.
+ */
+export interface IBookingService {
+  /**
+   * Creates a new booking after verifying provider availability and conflicts.
+   *
+   * @param data - Data for the new booking
+   * @param userId - ID of the user creating the booking
+   * @param userRole - Role of the user creating the booking
+   * @returns The newly created booking
+   */
+  createBooking(data: CreateBookingDTO, userId: string, userRole: string): Promise<Booking>;
+
+  /**
+   * Creates a recurring booking series, checking every occurrence for conflicts and
+   * booking them all up front.
+   *
+   * @param data - The first occurrence and how the series repeats
+   * @param userId - ID of the user creating the series
+   * @param userRole - Role of the user creating the series
+   * @returns The series, its bookings, and any occurrences skipped because they conflicted
+   */
+  createBookingSeries(data: CreateBookingSeriesDTO, userId: string, userRole: string): Promise<CreateBookingSeriesResponse>;
+
+  /**
+   * Retrieves a recurring booking series with its bookings and delivery progress.
+   *
+   * @param seriesId - The series ID
+   * @param userId - ID of the requesting user
+   * @param userRole - Role of the requesting user
+   * @returns The series with its bookings and progress
+   */
+  getBookingSeries(seriesId: string, userId: string, userRole: string): Promise<BookingSeriesResponse>;
+
+  /**
+   * Retrieves a booking with client, provider and service item details.
+   *
+   * @param id - The booking ID
+   * @param userId - ID of the requesting user
+   * @param userRole - Role of the requesting user
+   * @returns The detailed booking
+   */
+  getBookingById(id: string, userId: string, userRole: string): Promise<BookingResponse>;
+
+  /**
+   * Retrieves bookings visible to the requesting user based on filter parameters.
+   *
+   * @param filters - Parameters for filtering, sorting, and pagination
+   * @param userId - ID of the requesting user
+   * @param userRole - Role of the requesting user
+   * @returns Paginated list of bookings
+   */
+  getBookings(filters: BookingFilterParams, userId: string, userRole: string): Promise<BookingListResponse>;
+
+  /**
+   * Retrieves upcoming scheduled bookings for the requesting client or provider.
+   *
+   * @param userId - ID of the requesting user
+   * @param userRole - Role of the requesting user
+   * @param limit - Maximum number of bookings to return
+   * @returns Paginated list of upcoming bookings
+   */
+  getUpcomingBookings(userId: string, userRole: string, limit: number): Promise<BookingListResponse>;
+
+  /**
+   * Moves a booking to a new time, creating a replacement booking. For an occurrence of a
+   * recurring series, the scope can also move every later occurrence or the whole series.
+   *
+   * @param id - The booking ID
+   * @param data - New time window, reason and scope
+   * @param userId - ID of the user rescheduling the booking
+   * @param userRole - Role of the user rescheduling the booking
+   * @returns The replacement booking
+   */
+  rescheduleBooking(id: string, data: RescheduleBookingDTO, userId: string, userRole: string): Promise<Booking>;
+
+  /**
+   * Cancels a booking and frees the provider's time slot. For an occurrence of a recurring
+   * series, the scope can also cancel every later occurrence or the whole series.
+   *
+   * @param id - The booking ID
+   * @param reason - Reason for cancellation
+   * @param userId - ID of the user cancelling the booking
+   * @param userRole - Role of the user cancelling the booking
+   * @param scope - Which occurrences of a series to cancel (defaults to this one)
+   * @returns The cancelled booking
+   */
+  cancelBooking(id: string, reason: string, userId: string, userRole: string, scope?: SeriesScope): Promise<Booking>;
+
+  /**
+   * Updates the delivery status of a booking (in progress, completed, no-show).
+   *
+   * @param id - The booking ID
+   * @param status - The new booking status
+   * @param userId - ID of the user updating the status
+   * @param userRole - Role of the user updating the status
+   * @returns The updated booking
+   */
+  updateBookingStatus(id: string, status: BookingStatus, userId: string, userRole: string): Promise<Booking>;
+}
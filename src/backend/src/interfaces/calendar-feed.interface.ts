@@ -0,0 +1,66 @@
+import { CalendarFeedSubscription, CalendarFeedSummary } from '../types/calendar.types';
+
+/**
+ * Interface defining the contract for the Calendar Feed Service.
+ *
+ * This service keeps any calendar client in step with Revolucare bookings without OAuth:
+ * users subscribe to a token-protected ICS feed of their upcoming bookings, and booking
+ * emails carry iCalendar invitations and cancellations.
+ */
+export interface ICalendarFeedService {
+  /**
+   * Issues a calendar feed for a client or provider, replacing any feed they already
+   * have so that earlier feed URLs stop working.
+   *
+   * @param userId - ID of the requesting user
+   * @param userRole - Role of the requesting user
+   * @returns The feed with the URLs to subscribe to
+   */
+  createFeed(userId: string, userRole: string): Promise<CalendarFeedSubscription>;
+
+  /**
+   * Retrieves the requesting user's calendar feed.
+   *
+   * @param userId - ID of the requesting user
+   * @returns The feed, without its URLs
+   */
+  getFeed(userId: string): Promise<CalendarFeedSummary>;
+
+  /**
+   * Revokes the requesting user's calendar feed.
+   *
+   * @param userId - ID of the requesting user
+   */
+  revokeFeed(userId: string): Promise<void>;
+
+  /**
+   * Renders the upcoming bookings of the feed a token belongs to as iCalendar data.
+   *
+   * @param token - The feed token from the feed URL
+   * @returns The iCalendar text
+   */
+  renderFeed(token: string): Promise<string>;
+
+  /**
+   * Emails the client and provider of newly made bookings an invitation for each.
+   *
+   * @param bookingIds - IDs of the bookings, all between the same client and provider
+   */
+  sendBookingInvitations(bookingIds: string[]): Promise<void>;
+
+  /**
+   * Emails the client and provider of a rescheduled booking a cancellation of the original
+   * time and an invitation for the new one.
+   *
+   * @param bookingId - ID of the original booking
+   * @param newBookingId - ID of the booking that replaced it
+   */
+  sendRescheduleInvitation(bookingId: string, newBookingId: string): Promise<void>;
+
+  /**
+   * Emails the client and provider of a cancelled booking a cancellation of its invitation.
+   *
+   * @param bookingId - ID of the booking
+   */
+  sendCancellation(bookingId: string): Promise<void>;
+}
@@ -0,0 +1,122 @@
+import { WebhookPayload } from './external-service.interface';
+import {
+  CalendarConnectionSummary,
+  CalendarInboundSyncResult,
+  CalendarReconciliationReport,
+  ConnectCalendarDTO
+} from '../types/calendar.types';
+
+/**
+ * Interface defining the contract for the Calendar Sync Service.
+ *
+ * This service keeps provider availability and connected external calendars in step in
+ * both directions: personal events in a provider's calendar block their Revolucare slots,
+ * and their bookings are written to the calendar as events. A periodic reconciliation
+ * finds and repairs anything the two sides disagree on.
+ */
+export interface ICalendarSyncService {
+  /**
+   * Connects a provider's external calendar, subscribes to its change notifications,
+   * blocks slots for its existing events and writes the provider's upcoming bookings to it.
+   *
+   * @param providerId - The provider ID
+   * @param data - The calendar provider, OAuth authorization code and calendar
+   * @param userId - ID of the requesting user
+   * @param userRole - Role of the requesting user
+   * @returns The new connection
+   */
+  connectCalendar(
+    providerId: string,
+    data: ConnectCalendarDTO,
+    userId: string,
+    userRole: string
+  ): Promise<CalendarConnectionSummary>;
+
+  /**
+   * Retrieves a provider's calendar connections.
+   *
+   * @param providerId - The provider ID
+   * @param userId - ID of the requesting user
+   * @param userRole - Role of the requesting user
+   * @returns The connections
+   */
+  getConnections(providerId: string, userId: string, userRole: string): Promise<CalendarConnectionSummary[]>;
+
+  /**
+   * Disconnects a calendar, stopping its change notifications and releasing the slots
+   * its events blocked. Events already written for bookings are left in the calendar.
+   *
+   * @param providerId - The provider ID
+   * @param connectionId - The connection ID
+   * @param userId - ID of the requesting user
+   * @param userRole - Role of the requesting user
+   */
+  disconnectCalendar(providerId: string, connectionId: string, userId: string, userRole: string): Promise<void>;
+
+  /**
+   * Handles a change notification from a calendar provider by re-reading the calendars
+   * it concerns.
+   *
+   * @param calendarProvider - The calendar provider that sent the notification
+   * @param payload - The notification headers and body
+   * @returns Number of calendars re-read
+   */
+  handleWebhook(calendarProvider: string, payload: WebhookPayload): Promise<number>;
+
+  /**
+   * Reads a connected calendar and blocks or unblocks slots for its personal events.
+   *
+   * @param connectionId - The connection ID
+   * @param now - The current time
+   * @returns The busy period changes made
+   */
+  syncInbound(connectionId: string, now?: Date): Promise<CalendarInboundSyncResult>;
+
+  /**
+   * Writes a booking to its provider's connected calendars, creating or updating its
+   * event while the booking stands and deleting it once cancelled or rescheduled.
+   *
+   * @param bookingId - The booking ID
+   */
+  syncBooking(bookingId: string): Promise<void>;
+
+  /**
+   * Compares a connected calendar with Revolucare, repairs drift and records a report.
+   *
+   * @param providerId - The provider ID
+   * @param connectionId - The connection ID
+   * @param userId - ID of the requesting user
+   * @param userRole - Role of the requesting user
+   * @returns The reconciliation report
+   */
+  reconcileConnection(
+    providerId: string,
+    connectionId: string,
+    userId: string,
+    userRole: string
+  ): Promise<CalendarReconciliationReport>;
+
+  /**
+   * Reconciles every calendar connection and renews expiring change notification subscriptions.
+   *
+   * @param now - The current time
+   * @returns The reconciliation reports
+   */
+  reconcileAll(now?: Date): Promise<CalendarReconciliationReport[]>;
+
+  /**
+   * Retrieves a connection's most recent reconciliation reports.
+   *
+   * @param providerId - The provider ID
+   * @param connectionId - The connection ID
+   * @param userId - ID of the requesting user
+   * @param userRole - Role of the requesting user
+   * @returns The reports, newest first
+   */
+  getReconciliationReports(
+    providerId: string,
+    connectionId: string,
+    userId: string,
+    userRole: string
+  ): Promise<CalendarReconciliationReport[]>;
+}
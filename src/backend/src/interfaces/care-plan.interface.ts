@@ -6,7 +6,16 @@ import {
   GenerateCarePlanDTO,
   CarePlanFilterParams,
   CarePlanOptionsResponse,
-  CarePlanVersion
+  CarePlanExport,
+  CarePlanExportFormat,
+  CarePlanVersion,
+  GoalProgressEntry,
+  GoalProgressResponse,
+  InterventionSession,
+  InterventionSessionsResponse,
+  LogInterventionSessionDTO,
+  ProgressFilterParams,
+  RecordGoalProgressDTO
 } from '../types/care-plan.types';
 import { PlanStatus } from '../constants/plan-statuses';
 
@@ -218,4 +227,106 @@ export interface ICarePlanGenerator {
    * @returns Analysis results with extracted medical information
    */
   analyzeDocuments(documentIds: string[]): Promise<Record<string, any>>;
-}
\ No newline at end of file
+}
+
+/**
+ * Interface defining the contract for the Care Plan Progress Service.
+ * 
+ * This service records progress observations against care plan goals and session logs
+ * for care plan interventions, which are used to measure care plan outcomes.
+ */
+export interface ICarePlanProgressService {
+  /**
+   * Records a progress observation against a goal of a care plan.
+   * 
+   * @param carePlanId - The care plan ID
+   * @param goalId - The goal ID
+   * @param data - The observation to record
+   * @param userId - ID of the user recording the observation
+   * @param userRole - Role of the user recording the observation
+   * @returns The recorded progress entry
+   */
+  recordGoalProgress(
+    carePlanId: string,
+    goalId: string,
+    data: RecordGoalProgressDTO,
+    userId: string,
+    userRole: string
+  ): Promise<GoalProgressEntry>;
+
+  /**
+   * Retrieves the progress recorded against a goal of a care plan.
+   * 
+   * @param carePlanId - The care plan ID
+   * @param goalId - The goal ID
+   * @param filters - Date range filters
+   * @param userId - ID of the requesting user
+   * @param userRole - Role of the requesting user
+   * @returns The goal with its progress entries and a summary of the change
+   */
+  getGoalProgress(
+    carePlanId: string,
+    goalId: string,
+    filters: ProgressFilterParams,
+    userId: string,
+    userRole: string
+  ): Promise<GoalProgressResponse>;
+
+  /**
+   * Logs a session of an intervention of a care plan.
+   * 
+   * @param carePlanId - The care plan ID
+   * @param interventionId - The intervention ID
+   * @param data - The session to log
+   * @param userId - ID of the user logging the session
+   * @param userRole - Role of the user logging the session
+   * @returns The logged session
+   */
+  logInterventionSession(
+    carePlanId: string,
+    interventionId: string,
+    data: LogInterventionSessionDTO,
+    userId: string,
+    userRole: string
+  ): Promise<InterventionSession>;
+
+  /**
+   * Retrieves the session logs of an intervention of a care plan.
+   * 
+   * @param carePlanId - The care plan ID
+   * @param interventionId - The intervention ID
+   * @param filters - Date range filters
+   * @param userId - ID of the requesting user
+   * @param userRole - Role of the requesting user
+   * @returns The intervention with its session logs and attendance and effectiveness summaries
+   */
+  getInterventionSessions(
+    carePlanId: string,
+    interventionId: string,
+    filters: ProgressFilterParams,
+    userId: string,
+    userRole: string
+  ): Promise<InterventionSessionsResponse>;
+}
+
+/**
+ * Interface for the care plan export service, which produces care plans in formats that
+ * can be shared outside the platform.
+ */
+export interface ICarePlanExportService {
+  /**
+   * Exports a care plan as a printable PDF or as a FHIR R4 CarePlan resource.
+   * 
+   * @param carePlanId - The care plan ID
+   * @param format - The export format
+   * @param userId - ID of the requesting user
+   * @param userRole - Role of the requesting user
+   * @returns The exported file
+   */
+  exportCarePlan(
+    carePlanId: string,
+    format: CarePlanExportFormat,
+    userId: string,
+    userRole: string
+  ): Promise<CarePlanExport>;
+}
@@ -0,0 +1,66 @@
+import { EligibilityCheckSummary } from '../types/eligibility.types';
+
+/**
+ * Interface for the clearinghouses that relay X12 eligibility inquiries to payers.
+ *
+ * Adapters take a 270 inquiry and return the payer's 271 response as-is, so that the
+ * way inquiries reach a payer can be swapped without changing how they are written or read.
+ */
+export interface ClearinghouseAdapter {
+  /**
+   * Name of the clearinghouse, recorded with the checks sent through it
+   */
+  readonly name: string;
+
+  /**
+   * Sends an eligibility inquiry and waits for the payer's response.
+   *
+   * @param request - The X12 270 interchange
+   * @param inquiry - Identifies the inquiry: its interchange control number and the member asked about
+   * @returns The X12 271 interchange
+   */
+  submitInquiry(request: string, inquiry: { controlNumber: string; memberId: string }): Promise<string>;
+}
+
+/**
+ * Interface defining the contract for the Eligibility Service.
+ *
+ * This service checks a client's insurance coverage with their payer before services are
+ * funded by it, and records what the payer reported on the services plan's funding source.
+ */
+export interface IEligibilityService {
+  /**
+   * Checks the client's insurance eligibility for a funding source of their services plan.
+   * The funding source is marked verified or denied according to the payer's response,
+   * and the coverage details, copays and remaining visits reported are kept in its details.
+   *
+   * @param servicesPlanId - The services plan ID
+   * @param fundingSourceId - The funding source ID
+   * @param userId - ID of the user requesting the check
+   * @param userRole - Role of the user requesting the check
+   * @returns The recorded check
+   */
+  verifyFundingSource(
+    servicesPlanId: string,
+    fundingSourceId: string,
+    userId: string,
+    userRole: string
+  ): Promise<EligibilityCheckSummary>;
+
+  /**
+   * Retrieves the eligibility checks of a funding source, most recent first. Only
+   * administrators, the plan's client and the client's case managers may see them.
+   *
+   * @param servicesPlanId - The services plan ID
+   * @param fundingSourceId - The funding source ID
+   * @param userId - ID of the user requesting the checks
+   * @param userRole - Role of the user requesting the checks
+   * @returns The checks
+   */
+  getEligibilityChecks(
+    servicesPlanId: string,
+    fundingSourceId: string,
+    userId: string,
+    userRole: string
+  ): Promise<EligibilityCheckSummary[]>;
+}
@@ -0,0 +1,67 @@
+import {
+  ImportMedicalHistoryDTO,
+  MedicalHistoryConflict,
+  MedicalHistoryConflictStatus,
+  MedicalHistoryImportResult,
+  ResolveMedicalHistoryConflictDTO
+} from '../types/medical-history.types';
+
+/**
+ * Interface defining the contract for the Medical History Service.
+ *
+ * This service merges client medical history from FHIR R4 bundles into client profiles,
+ * recording where each entry came from, and raises the differences it cannot merge
+ * safely as conflicts for case manager review.
+ */
+export interface IMedicalHistoryService {
+  /**
+   * Imports a FHIR bundle of Patient, Condition, AllergyIntolerance and MedicationStatement
+   * resources into a client's profile.
+   *
+   * @param clientId - User ID of the client
+   * @param bundle - The FHIR bundle
+   * @param userId - ID of the importing user
+   * @param userRole - Role of the importing user
+   * @returns The recorded import, merged medical information, conflicts and skipped resources
+   */
+  importMedicalHistory(
+    clientId: string,
+    bundle: ImportMedicalHistoryDTO,
+    userId: string,
+    userRole: string
+  ): Promise<MedicalHistoryImportResult>;
+
+  /**
+   * Retrieves the medical history conflicts raised for a client.
+   *
+   * @param clientId - User ID of the client
+   * @param status - Optional review state to filter by
+   * @param userId - ID of the requesting user
+   * @param userRole - Role of the requesting user
+   * @returns The client's conflicts, newest first
+   */
+  getConflicts(
+    clientId: string,
+    status: MedicalHistoryConflictStatus | undefined,
+    userId: string,
+    userRole: string
+  ): Promise<MedicalHistoryConflict[]>;
+
+  /**
+   * Resolves a medical history conflict.
+   *
+   * @param clientId - User ID of the client
+   * @param conflictId - ID of the conflict
+   * @param data - The resolution
+   * @param userId - ID of the resolving user
+   * @param userRole - Role of the resolving user
+   * @returns The resolved conflict
+   */
+  resolveConflict(
+    clientId: string,
+    conflictId: string,
+    data: ResolveMedicalHistoryConflictDTO,
+    userId: string,
+    userRole: string
+  ): Promise<MedicalHistoryConflict>;
+}
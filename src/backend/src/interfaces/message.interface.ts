@@ -0,0 +1,91 @@
+import {
+  ConversationFilterParams,
+  ConversationListResponse,
+  ConversationSummary,
+  CreateConversationDTO,
+  Message,
+  MessageFilterParams,
+  ReadReceiptResult,
+  SendMessageDTO
+} from '../models/message.model';
+
+/**
+ * Interface defining the contract for the Messaging Service.
+ *
+ * This service manages secure conversations between clients and their care team,
+ * restricting participants to users with a care relationship to the conversation's client.
+ */
+export interface IMessagingService {
+  /**
+   * Starts a conversation about a client, optionally with a first message.
+   *
+   * @param data - Client, participants, subject and optional first message
+   * @param userId - ID of the user starting the conversation
+   * @param userRole - Role of the user starting the conversation
+   * @returns The new conversation with its participants
+   */
+  createConversation(data: CreateConversationDTO, userId: string, userRole: string): Promise<ConversationSummary>;
+
+  /**
+   * Retrieves the conversations the requesting user takes part in.
+   *
+   * @param filters - Optional client filter and pagination
+   * @param userId - ID of the requesting user
+   * @returns Paginated conversation summaries with unread counts
+   */
+  getConversations(filters: ConversationFilterParams, userId: string): Promise<ConversationListResponse>;
+
+  /**
+   * Retrieves a single conversation the requesting user takes part in.
+   *
+   * @param id - The conversation ID
+   * @param userId - ID of the requesting user
+   * @param userRole - Role of the requesting user
+   * @returns The conversation with its participants and unread count
+   */
+  getConversation(id: string, userId: string, userRole: string): Promise<ConversationSummary>;
+
+  /**
+   * Retrieves messages of a conversation, newest first.
+   *
+   * @param conversationId - The conversation ID
+   * @param filters - Cursor and page size
+   * @param userId - ID of the requesting user
+   * @param userRole - Role of the requesting user
+   * @returns Messages with attachments and read receipts
+   */
+  getMessages(conversationId: string, filters: MessageFilterParams, userId: string, userRole: string): Promise<Message[]>;
+
+  /**
+   * Sends a message, storing any attachments and notifying the other participants.
+   *
+   * @param conversationId - The conversation ID
+   * @param data - Message text and optional attachments
+   * @param userId - ID of the sender
+   * @param userRole - Role of the sender
+   * @returns The sent message
+   */
+  sendMessage(conversationId: string, data: SendMessageDTO, userId: string, userRole: string): Promise<Message>;
+
+  /**
+   * Records read receipts for the user's unread messages in a conversation.
+   *
+   * @param conversationId - The conversation ID
+   * @param userId - ID of the reader
+   * @param userRole - Role of the reader
+   * @param readAt - Messages sent up to this time are marked as read
+   * @returns The messages that were marked as read
+   */
+  markAsRead(conversationId: string, userId: string, userRole: string, readAt?: Date): Promise<ReadReceiptResult>;
+
+  /**
+   * Generates a short-lived download URL for a message attachment.
+   *
+   * @param conversationId - The conversation ID
+   * @param attachmentId - The attachment ID
+   * @param userId - ID of the requesting user
+   * @param userRole - Role of the requesting user
+   * @returns Signed URL for the attachment
+   */
+  getAttachmentUrl(conversationId: string, attachmentId: string, userId: string, userRole: string): Promise<string>;
+}
@@ -0,0 +1,101 @@
+import {
+  CreateServiceItemsPaymentDTO,
+  PaymentCancellationResult,
+  PaymentIntentResult,
+  PaymentProcessingResult,
+  PaymentStatusResult,
+  PolicyFeePaymentDTO,
+  RefundResult
+} from '../models/payment.model';
+import { WebhookResult } from '../models/webhook-event.model';
+
+/**
+ * Interface defining the contract for the Payment Processing Service.
+ *
+ * This service takes payments for service items through Stripe, keeps the payment status
+ * of service items in step with Stripe and notifies clients of payment outcomes.
+ */
+export interface IPaymentProcessingService {
+  /**
+   * Creates a payment intent for service items on behalf of the requesting user.
+   *
+   * @param data - Services plan and the items to pay for
+   * @param userId - ID of the requesting user
+   * @param userRole - Role of the requesting user
+   * @returns Payment intent details for client-side confirmation
+   */
+  createServiceItemsPaymentIntent(data: CreateServiceItemsPaymentDTO, userId: string, userRole: string): Promise<PaymentIntentResult>;
+
+  /**
+   * Creates a payment intent for the service item delivered by a booking.
+   *
+   * @param bookingId - ID of the booking to pay for
+   * @param userId - ID of the requesting user
+   * @param userRole - Role of the requesting user
+   * @returns Payment intent details for client-side confirmation
+   */
+  createBookingPaymentIntent(bookingId: string, userId: string, userRole: string): Promise<PaymentIntentResult>;
+
+  /**
+   * Creates a payment intent charging a client the fee for a late cancellation or no-show.
+   *
+   * @param data - The violation, client and fee amount
+   * @returns Payment intent details for client-side confirmation
+   */
+  createPolicyFeePaymentIntent(data: PolicyFeePaymentDTO): Promise<PaymentIntentResult>;
+
+  /**
+   * Verifies the requesting user may view or act on a payment intent.
+   *
+   * @param paymentIntentId - ID of the payment intent
+   * @param userId - ID of the requesting user
+   * @param userRole - Role of the requesting user
+   * @throws NotFoundError if the payment intent is not a Revolucare service payment or policy fee
+   * @throws ForbiddenError if the user has no care relationship with the paying client
+   */
+  assertPaymentAccess(paymentIntentId: string, userId: string, userRole: string): Promise<void>;
+
+  /**
+   * Records a succeeded payment against its service items.
+   *
+   * @param paymentIntentId - ID of the succeeded payment intent
+   * @returns Payment processing result
+   */
+  processPayment(paymentIntentId: string): Promise<PaymentProcessingResult>;
+
+  /**
+   * Gets the current status of a payment intent.
+   *
+   * @param paymentIntentId - ID of the payment intent
+   * @returns Payment status details
+   */
+  getPaymentStatus(paymentIntentId: string): Promise<PaymentStatusResult>;
+
+  /**
+   * Cancels a payment intent that has not been paid.
+   *
+   * @param paymentIntentId - ID of the payment intent
+   * @param cancellationReason - Optional reason for cancellation
+   * @returns Cancellation result
+   */
+  cancelPayment(paymentIntentId: string, cancellationReason?: string): Promise<PaymentCancellationResult>;
+
+  /**
+   * Refunds all or part of a succeeded payment.
+   *
+   * @param paymentIntentId - ID of the payment intent
+   * @param amount - Optional amount to refund in cents
+   * @param reason - Optional reason for the refund
+   * @returns Refund result
+   */
+  refundPayment(paymentIntentId: string, amount?: number, reason?: string): Promise<RefundResult>;
+
+  /**
+   * Verifies and processes a Stripe webhook delivery. Each event is processed at most once.
+   *
+   * @param payload - Raw request body
+   * @param signature - Value of the Stripe-Signature header
+   * @returns Webhook processing result
+   */
+  handleWebhook(payload: string | Buffer, signature: string): Promise<WebhookResult>;
+}
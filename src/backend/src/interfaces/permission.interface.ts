@@ -0,0 +1,38 @@
+import { Roles } from '../constants/roles';
+
+/**
+ * Interface defining the contract for the Permission Service.
+ *
+ * This service resolves the fine-grained permissions a user holds. Effective permissions
+ * combine the permissions every authenticated user has, the permissions of the user's role
+ * and of the roles it inherits from through the role hierarchy, and, for administrators,
+ * permissions granted individually on their admin profile.
+ */
+export interface IPermissionService {
+  /**
+   * Gets the permissions a role holds by default, including inherited ones.
+   *
+   * @param role - The role
+   * @returns Default permissions of the role
+   */
+  getRolePermissions(role: Roles): string[];
+
+  /**
+   * Gets all permissions a user holds.
+   *
+   * @param userId - ID of the user
+   * @param role - Role of the user
+   * @returns Effective permissions of the user
+   */
+  getEffectivePermissions(userId: string, role: Roles): Promise<string[]>;
+
+  /**
+   * Checks whether a user holds all of the given permissions.
+   *
+   * @param userId - ID of the user
+   * @param role - Role of the user
+   * @param requiredPermissions - Permissions to check
+   * @returns True if the user holds every permission
+   */
+  hasPermissions(userId: string, role: Roles, requiredPermissions: string[]): Promise<boolean>;
+}
@@ -0,0 +1,110 @@
+import {
+  CreatePriorAuthorizationDTO,
+  PriorAuthorizationCheck,
+  PriorAuthorizationSummary,
+  UpdatePriorAuthorizationDTO
+} from '../types/prior-authorization.types';
+
+/**
+ * Interface defining the contract for the Prior Authorization Service.
+ *
+ * This service tracks the prior authorizations payers grant for service items: how many
+ * units are approved for which dates, and how many of them bookings have used. Bookings
+ * beyond the authorized units are blocked unless a case manager overrides the check, and
+ * case managers are alerted when units run low or an authorization nears its end.
+ */
+export interface IPriorAuthorizationService {
+  /**
+   * Lists the prior authorizations of a services plan with the units used.
+   *
+   * @param servicesPlanId - The services plan ID
+   * @returns The authorizations, latest ending first
+   */
+  listPriorAuthorizations(servicesPlanId: string): Promise<PriorAuthorizationSummary[]>;
+
+  /**
+   * Retrieves a prior authorization of a services plan with the units used.
+   *
+   * @param servicesPlanId - The services plan ID
+   * @param id - The prior authorization ID
+   * @returns The authorization
+   */
+  getPriorAuthorization(servicesPlanId: string, id: string): Promise<PriorAuthorizationSummary>;
+
+  /**
+   * Records a prior authorization for a service item of a services plan under one of
+   * the plan's funding sources.
+   *
+   * @param servicesPlanId - The services plan ID
+   * @param data - The authorization
+   * @param userId - ID of the user recording the authorization
+   * @returns The recorded authorization
+   */
+  createPriorAuthorization(
+    servicesPlanId: string,
+    data: CreatePriorAuthorizationDTO,
+    userId: string
+  ): Promise<PriorAuthorizationSummary>;
+
+  /**
+   * Changes a prior authorization, e.g. when the payer approves it or extends it.
+   *
+   * @param servicesPlanId - The services plan ID
+   * @param id - The prior authorization ID
+   * @param data - The fields to change
+   * @returns The updated authorization
+   */
+  updatePriorAuthorization(
+    servicesPlanId: string,
+    id: string,
+    data: UpdatePriorAuthorizationDTO
+  ): Promise<PriorAuthorizationSummary>;
+
+  /**
+   * Checks whether new bookings against a service item stay within its authorized units.
+   *
+   * @param serviceItemId - The service item ID
+   * @param startTimes - Start times of the new bookings
+   * @param excludedBookingIds - Bookings whose units are released, e.g. ones being rescheduled
+   * @returns Whether the bookings are authorized, and by how much they fall short if not
+   */
+  checkAuthorizedUnits(
+    serviceItemId: string,
+    startTimes: Date[],
+    excludedBookingIds?: string[]
+  ): Promise<PriorAuthorizationCheck>;
+
+  /**
+   * Records in the audit trail that a case manager booked beyond a service item's
+   * authorized units.
+   *
+   * @param serviceItemId - The service item ID
+   * @param check - The failed check that was overridden
+   * @param reason - Why the check was overridden
+   * @param userId - ID of the user overriding the check
+   * @param userRole - Role of the user overriding the check
+   */
+  recordOverride(
+    serviceItemId: string,
+    check: PriorAuthorizationCheck,
+    reason: string,
+    userId: string,
+    userRole: string
+  ): Promise<void>;
+
+  /**
+   * Alerts case managers if bookings against a service item have left its prior
+   * authorizations low on units.
+   *
+   * @param serviceItemId - The service item ID
+   */
+  alertOnUnitsUsed(serviceItemId: string): Promise<void>;
+
+  /**
+   * Alerts case managers to every current prior authorization that is low on units or
+   * ends soon and that they have not yet been alerted to.
+   *
+   * @returns The number of authorizations alerted on
+   */
+  sendAlerts(): Promise<number>;
+}
@@ -16,7 +16,16 @@ import {
   ProviderMatch,
   ProviderProfileUpdateDTO,
   ProviderAvailabilityUpdateDTO,
-  ReviewSubmissionDTO
+  ReviewSubmissionDTO,
+  MatchingProfile,
+  CreateMatchingProfileDTO,
+  UpdateMatchingProfileDTO,
+  MatchSession,
+  MatchFeedback,
+  MatchFeedbackDTO,
+  MatchSessionWithFeedback,
+  MatchEvaluationOptions,
+  MatchEvaluationReport
 } from '../types/provider.types';
 import { PaginatedResponse } from '../types/response.types';
 import { ServiceType } from '../constants/service-types';
@@ -74,9 +83,11 @@ export interface IProviderService {
    * Matches providers to client needs using AI algorithms
    * 
    * @param criteria - The matching criteria including client preferences
+   * @param userId - The ID of the user requesting the matches
+   * @param userRole - The role of the user requesting the matches
    * @returns Promise with matched providers and compatibility scores
    */
-  matchProviders(criteria: ProviderMatchingCriteria): Promise<ProviderMatch[]>;
+  matchProviders(criteria: ProviderMatchingCriteria, userId: string, userRole: string): Promise<ProviderMatch[]>;
 
   /**
    * Gets reviews for a provider
@@ -349,6 +360,53 @@ export interface IProviderMatchingService {
   getMatchFactors(): Promise<Record<string, { description: string; weight: number }>>;
 }
 
+/**
+ * Interface defining the contract for managing the matching profiles that configure
+ * provider matching weights, hard filters and per-service-type overrides
+ */
+export interface IMatchingProfileService {
+  /**
+   * Creates a matching profile
+   * 
+   * @param data - The profile data
+   * @param userId - ID of the creating administrator
+   * @returns Promise with the created profile
+   */
+  createProfile(data: CreateMatchingProfileDTO, userId: string): Promise<MatchingProfile>;
+
+  /**
+   * Retrieves all matching profiles
+   * 
+   * @returns Promise with the matching profiles
+   */
+  getProfiles(): Promise<MatchingProfile[]>;
+
+  /**
+   * Retrieves a matching profile by ID
+   * 
+   * @param id - The profile ID
+   * @returns Promise with the profile
+   */
+  getProfileById(id: string): Promise<MatchingProfile>;
+
+  /**
+   * Updates a matching profile
+   * 
+   * @param id - The profile ID
+   * @param data - The fields to update
+   * @returns Promise with the updated profile
+   */
+  updateProfile(id: string, data: UpdateMatchingProfileDTO): Promise<MatchingProfile>;
+
+  /**
+   * Deletes a matching profile
+   * 
+   * @param id - The profile ID
+   * @returns Promise that resolves when the profile is deleted
+   */
+  deleteProfile(id: string): Promise<void>;
+}
+
 /**
  * Options for provider service operations to control included data
  */
@@ -442,4 +500,78 @@ export interface CalendarSyncResult {
    * Additional details about the sync operation
    */
   details?: any;
-}
\ No newline at end of file
+}
+
+/**
+ * Interface defining the contract for recording matching requests, the decisions made
+ * about their results and the bookings and reviews that followed
+ */
+export interface IMatchFeedbackService {
+  /**
+   * Records a matching request and the ranking it returned
+   * 
+   * @param criteria - The matching criteria
+   * @param matches - The ranked matches
+   * @param userId - ID of the requesting user
+   * @returns Promise with the recorded session
+   */
+  recordSession(criteria: ProviderMatchingCriteria, matches: ProviderMatch[], userId: string): Promise<MatchSession>;
+
+  /**
+   * Records a decision about a provider for a matching request
+   * 
+   * @param sessionId - The match session ID
+   * @param data - The decision and its reason
+   * @param userId - ID of the recording user
+   * @param userRole - Role of the recording user
+   * @returns Promise with the recorded feedback
+   */
+  recordFeedback(sessionId: string, data: MatchFeedbackDTO, userId: string, userRole: string): Promise<MatchFeedback>;
+
+  /**
+   * Retrieves a matching request with the decisions made about it
+   * 
+   * @param sessionId - The match session ID
+   * @param userId - ID of the requesting user
+   * @param userRole - Role of the requesting user
+   * @returns Promise with the session and its feedback
+   */
+  getSessionFeedback(sessionId: string, userId: string, userRole: string): Promise<MatchSessionWithFeedback>;
+
+  /**
+   * Links a new booking to the most recent accepted or overridden match for the same
+   * client and provider
+   * 
+   * @param bookingId - The booking ID
+   * @param clientId - The client ID
+   * @param providerId - The provider ID
+   * @returns Promise with the linked feedback, or null if there was none to link
+   */
+  linkBooking(bookingId: string, clientId: string, providerId: string): Promise<MatchFeedback | null>;
+
+  /**
+   * Links a new review to the most recent accepted or overridden match for the same
+   * client and provider
+   * 
+   * @param reviewId - The review ID
+   * @param clientId - The client ID
+   * @param providerId - The provider ID
+   * @returns Promise with the linked feedback, or null if there was none to link
+   */
+  linkReview(reviewId: string, clientId: string, providerId: string): Promise<MatchFeedback | null>;
+}
+
+/**
+ * Interface defining the contract for replaying recorded matching requests against
+ * candidate matching profiles
+ */
+export interface IMatchEvaluationService {
+  /**
+   * Re-ranks recorded matching requests with each candidate profile's weights and scores
+   * the rankings against the recorded decisions
+   * 
+   * @param options - Candidate profiles, cutoff and date range
+   * @returns Promise with the ranking metrics of the recorded and candidate rankings
+   */
+  evaluateProfiles(options: MatchEvaluationOptions): Promise<MatchEvaluationReport>;
+}
@@ -0,0 +1,68 @@
+import {
+  AppliedRate,
+  CreateRateScheduleDTO,
+  RateSchedule,
+  RateScheduleFilters,
+  UpdateRateScheduleDTO
+} from '../types/rate-schedule.types';
+import { ServicesPlan } from '../types/services-plan.types';
+
+/**
+ * Interface defining the contract for the Rate Schedule Service.
+ *
+ * This service maintains the fee tables administrators set for each service type, per
+ * funding source type, region and provider, and finds the rate that prices each item
+ * of a services plan.
+ */
+export interface IRateScheduleService {
+  /**
+   * Lists rate schedules.
+   *
+   * @param filters - Filters for the schedules
+   * @returns The matching schedules
+   */
+  listRateSchedules(filters: RateScheduleFilters): Promise<RateSchedule[]>;
+
+  /**
+   * Retrieves a rate schedule.
+   *
+   * @param id - The rate schedule ID
+   * @returns The rate schedule
+   */
+  getRateSchedule(id: string): Promise<RateSchedule>;
+
+  /**
+   * Creates a rate schedule. Its effective dates may not overlap those of another
+   * schedule with the same scope.
+   *
+   * @param data - The rate schedule
+   * @param userId - ID of the administrator creating the schedule
+   * @returns The created rate schedule
+   */
+  createRateSchedule(data: CreateRateScheduleDTO, userId: string): Promise<RateSchedule>;
+
+  /**
+   * Changes a rate schedule.
+   *
+   * @param id - The rate schedule ID
+   * @param data - The fields to change
+   * @returns The updated rate schedule
+   */
+  updateRateSchedule(id: string, data: UpdateRateScheduleDTO): Promise<RateSchedule>;
+
+  /**
+   * Deletes a rate schedule.
+   *
+   * @param id - The rate schedule ID
+   */
+  deleteRateSchedule(id: string): Promise<void>;
+
+  /**
+   * Finds the rate that applies to each item of a services plan, given the plan's primary
+   * funding source, the client's region, the item's provider and the date it starts.
+   *
+   * @param servicesPlan - The services plan
+   * @returns Applied rates keyed by service item ID; items without a rate are left out
+   */
+  resolveRates(servicesPlan: ServicesPlan): Promise<Record<string, AppliedRate>>;
+}
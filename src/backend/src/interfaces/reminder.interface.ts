@@ -0,0 +1,44 @@
+import { WebhookPayload } from './external-service.interface';
+import { ReminderJobData } from '../types/reminder.types';
+
+/**
+ * Interface defining the contract for the Reminder Service.
+ *
+ * This service reminds clients of their bookings by email and SMS at the times set by the
+ * configured reminder rules, and lets clients confirm or cancel a booking by replying to
+ * an SMS reminder.
+ */
+export interface IReminderService {
+  /**
+   * Queues the reminders for newly made bookings. Reminders whose send time has already
+   * passed are not sent.
+   *
+   * @param bookingIds - IDs of the bookings
+   * @returns The number of reminders queued
+   */
+  scheduleReminders(bookingIds: string[]): Promise<number>;
+
+  /**
+   * Removes the queued reminders of a booking that was cancelled or rescheduled.
+   *
+   * @param bookingId - ID of the booking
+   */
+  cancelReminders(bookingId: string): Promise<void>;
+
+  /**
+   * Sends a queued reminder, unless the booking is no longer scheduled.
+   *
+   * @param data - The booking and the rule the reminder was queued for
+   * @returns True if the reminder was sent
+   */
+  sendReminder(data: ReminderJobData): Promise<boolean>;
+
+  /**
+   * Handles a client's SMS reply to a reminder, confirming or cancelling the booking
+   * the reminder was for.
+   *
+   * @param payload - The inbound message webhook from Twilio
+   * @returns The text to reply to the client with
+   */
+  handleSmsReply(payload: WebhookPayload): Promise<string>;
+}
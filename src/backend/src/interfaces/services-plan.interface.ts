@@ -9,8 +9,15 @@ import {
   ServicesPlanOptionsResponse, 
   CostEstimateResponse, 
   FundingSourcesResponse,
-  ServicesPlanFilterParams
+  ServicesPlanFilterParams,
+  ServiceItemUtilization
 } from '../types/services-plan.types';
+import {
+  AssessmentInstrumentCode,
+  AssessmentInstrumentSummary,
+  InstrumentScore,
+  InstrumentScoreTrend
+} from '../types/assessment-instrument.types';
 
 /**
  * Interface for the Services Plan Repository
@@ -84,9 +91,11 @@ export interface INeedsAssessmentRepository {
   /**
    * Create a new needs assessment
    * @param needsAssessmentData - The data for the new needs assessment
+   * @param createdById - The ID of the user creating the assessment
+   * @param scores - The scores of the assessment's instrument responses
    * @returns Promise resolving to the created needs assessment
    */
-  create(needsAssessmentData: CreateNeedsAssessmentDTO): Promise<NeedsAssessment>;
+  create(needsAssessmentData: CreateNeedsAssessmentDTO, createdById: string, scores?: InstrumentScore[]): Promise<NeedsAssessment>;
   
   /**
    * Update an existing needs assessment
@@ -132,6 +141,27 @@ export interface IServicesPlanService {
    */
   getNeedsAssessmentsByClientId(clientId: string): Promise<NeedsAssessment[]>;
   
+  /**
+   * Trend a client's standardized instrument scores across their needs assessments
+   * @param clientId - The ID of the client
+   * @returns Promise resolving to one score trend per instrument administered
+   */
+  getAssessmentScoreTrends(clientId: string): Promise<InstrumentScoreTrend[]>;
+  
+  /**
+   * List the latest version of every standardized assessment instrument
+   * @returns The instruments with the JSON schemas of their responses
+   */
+  getAssessmentInstruments(): AssessmentInstrumentSummary[];
+  
+  /**
+   * Get a version of a standardized assessment instrument
+   * @param code - The instrument code
+   * @param version - The version, or the latest version if omitted
+   * @returns The instrument with the JSON schema of its responses
+   */
+  getAssessmentInstrument(code: AssessmentInstrumentCode, version?: number): AssessmentInstrumentSummary;
+  
   /**
    * Create a new services plan
    * @param data - The data for the new services plan
@@ -192,6 +222,13 @@ export interface IServicesPlanService {
    */
   estimateCosts(planId: string): Promise<CostEstimateResponse>;
   
+  /**
+   * Compare the units planned for each item of a services plan with the units delivered
+   * @param planId - The ID of the services plan
+   * @returns Promise resolving to the planned and delivered units of each service item
+   */
+  getServiceItemUtilization(planId: string): Promise<ServiceItemUtilization[]>;
+  
   /**
    * Identify potential funding sources for a client's services plan
    * @param clientId - The ID of the client
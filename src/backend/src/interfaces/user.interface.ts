@@ -210,6 +210,15 @@ export interface IUserService {
    * @returns True if reactivated successfully
    */
   reactivateUser(userId: string): Promise<boolean>;
+
+  /**
+   * Changes the role of a user account
+   * @param userId The user's unique identifier
+   * @param role The new role
+   * @param changedById The administrator making the change
+   * @returns The updated user
+   */
+  changeUserRole(userId: string, role: Roles, changedById: string): Promise<UserWithoutPassword>;
 }
 
 /**
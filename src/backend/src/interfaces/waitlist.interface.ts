@@ -0,0 +1,136 @@
+import { ServiceType } from '../constants/service-types';
+import { Booking } from '../models/booking.model';
+import {
+  CreateWaitlistEntryDTO,
+  WaitlistEntry,
+  WaitlistEntryFilters,
+  WaitlistEntryWithEstimate,
+  WaitlistOffer,
+  WaitlistOfferFilters,
+  WaitTimeEstimate
+} from '../types/waitlist.types';
+
+/**
+ * Interface defining the contract for the Waitlist Service.
+ *
+ * This service keeps per-provider waitlists for fully booked providers, offers freed
+ * slots to waitlisted clients in priority order and holds each offered slot until the
+ * offer is accepted, declined or expires.
+ */
+export interface IWaitlistService {
+  /**
+   * Adds a client to a provider's waitlist for a service type.
+   *
+   * @param data - The provider, service type and preferences
+   * @param userId - ID of the user adding the client
+   * @param userRole - Role of the user adding the client
+   * @returns The new entry with its place in the queue and estimated wait
+   */
+  joinWaitlist(data: CreateWaitlistEntryDTO, userId: string, userRole: string): Promise<WaitlistEntryWithEstimate>;
+
+  /**
+   * Retrieves waitlist entries visible to the requesting user.
+   *
+   * @param filters - Filters for the entries
+   * @param userId - ID of the requesting user
+   * @param userRole - Role of the requesting user
+   * @returns The matching entries
+   */
+  getEntries(filters: WaitlistEntryFilters, userId: string, userRole: string): Promise<WaitlistEntry[]>;
+
+  /**
+   * Retrieves a waitlist entry with its place in the queue and estimated wait.
+   *
+   * @param id - The entry ID
+   * @param userId - ID of the requesting user
+   * @param userRole - Role of the requesting user
+   * @returns The entry with its estimate
+   */
+  getEntryById(id: string, userId: string, userRole: string): Promise<WaitlistEntryWithEstimate>;
+
+  /**
+   * Removes a client from a waitlist and withdraws any slot held for them.
+   *
+   * @param id - The entry ID
+   * @param userId - ID of the requesting user
+   * @param userRole - Role of the requesting user
+   * @returns The cancelled entry
+   */
+  cancelEntry(id: string, userId: string, userRole: string): Promise<WaitlistEntry>;
+
+  /**
+   * Estimates how long a client joining a provider's waitlist now would wait.
+   *
+   * @param providerId - The provider ID
+   * @param serviceType - The service type
+   * @returns The wait estimate
+   */
+  estimateWaitTime(providerId: string, serviceType: ServiceType): Promise<WaitTimeEstimate>;
+
+  /**
+   * Retrieves waitlist offers visible to the requesting user.
+   *
+   * @param filters - Filters for the offers
+   * @param userId - ID of the requesting user
+   * @param userRole - Role of the requesting user
+   * @returns The matching offers
+   */
+  getOffers(filters: WaitlistOfferFilters, userId: string, userRole: string): Promise<WaitlistOffer[]>;
+
+  /**
+   * Books the slot held by an offer.
+   *
+   * @param offerId - The offer ID
+   * @param userId - ID of the requesting user
+   * @param userRole - Role of the requesting user
+   * @returns The accepted offer, linked to its booking
+   */
+  acceptOffer(offerId: string, userId: string, userRole: string): Promise<WaitlistOffer>;
+
+  /**
+   * Declines an offer, returning the client to the waitlist and offering the slot to the
+   * next waitlisted client.
+   *
+   * @param offerId - The offer ID
+   * @param userId - ID of the requesting user
+   * @param userRole - Role of the requesting user
+   * @returns The declined offer
+   */
+  declineOffer(offerId: string, userId: string, userRole: string): Promise<WaitlistOffer>;
+
+  /**
+   * Offers a provider's open slots to waitlisted clients in priority order.
+   *
+   * @param providerId - The provider ID
+   * @param now - The current time
+   * @returns The offers made
+   */
+  offerOpenSlots(providerId: string, now?: Date): Promise<WaitlistOffer[]>;
+
+  /**
+   * Expires offers whose hold has lapsed and offers their slots to the next clients.
+   *
+   * @param now - The current time
+   * @returns The number of offers expired
+   */
+  expireOffers(now?: Date): Promise<number>;
+
+  /**
+   * Throws a conflict error if a booking window overlaps a slot held for another client.
+   *
+   * @param providerId - The provider ID
+   * @param clientId - The client the booking is for
+   * @param startTime - Start of the booking window
+   * @param endTime - End of the booking window
+   * @returns Promise that resolves when the window is not held for anyone else
+   */
+  ensureSlotNotHeld(providerId: string, clientId: string, startTime: Date, endTime: Date): Promise<void>;
+
+  /**
+   * Marks the offer held for a new booking's client and window as accepted.
+   *
+   * @param booking - The new booking
+   * @returns The accepted offer, or null if the booking was not for an offered slot
+   */
+  recordBooking(booking: Booking): Promise<WaitlistOffer | null>;
+}
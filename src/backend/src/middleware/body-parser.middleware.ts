@@ -38,6 +38,20 @@ export function urlencodedParser(): express.RequestHandler {
   });
 }
 
+/**
+ * Middleware that keeps JSON request bodies as raw Buffers.
+ * Used for webhook endpoints whose signatures are computed over the exact bytes
+ * received, so it must run instead of (not after) the JSON body parser.
+ * 
+ * @returns Express middleware function for raw body parsing
+ */
+export function rawBodyParser(): express.RequestHandler {
+  return bodyParser.raw({
+    type: 'application/json', // Webhook providers send JSON payloads
+    limit: '1mb',             // Webhook payloads are small; reject anything larger
+  });
+}
+
 /**
  * Middleware for handling errors that occur during body parsing.
  * Catches and standardizes errors from JSON parsing and form data parsing,
@@ -11,6 +11,7 @@
 import { 
   jsonBodyParser, 
   urlencodedParser, 
+  rawBodyParser,
   bodyParserErrorHandler 
 } from './body-parser.middleware';
 
@@ -31,6 +32,7 @@ export {
   // Body parsing middleware
   jsonBodyParser,
   urlencodedParser,
+  rawBodyParser,
   bodyParserErrorHandler,
   
   // Compression middleware
@@ -0,0 +1,115 @@
+/**
+ * Enum representing the kinds of actions recorded in the audit trail.
+ */
+export enum AuditAction {
+  READ = 'READ',       // A record was viewed or downloaded
+  CREATE = 'CREATE',   // A record was created
+  UPDATE = 'UPDATE',   // A record was modified
+  DELETE = 'DELETE',   // A record was deleted or deactivated
+  EXPORT = 'EXPORT'    // Records were exported out of the platform
+}
+
+/**
+ * Enum representing the protected resources whose access is recorded in the audit trail.
+ */
+export enum AuditResourceType {
+  CLIENT_RECORD = 'CLIENT_RECORD',   // User accounts and client profiles
+  CARE_PLAN = 'CARE_PLAN',           // Care plans and their history
+  SERVICES_PLAN = 'SERVICES_PLAN',   // Services plans and needs assessments
+  DOCUMENT = 'DOCUMENT',             // Uploaded documents and their analysis
+  USER_ROLE = 'USER_ROLE',           // Role assignments of user accounts
+  POLICY_VIOLATION = 'POLICY_VIOLATION', // Late cancellations and no-shows recorded against clients
+  AUDIT_LOG = 'AUDIT_LOG'            // The audit trail itself (exports are audited)
+}
+
+/**
+ * Supported formats for exporting audit log entries.
+ */
+export enum AuditExportFormat {
+  CSV = 'csv',
+  JSON = 'json'
+}
+
+/**
+ * A single field-level difference between the before and after state of a resource.
+ */
+export interface AuditChange {
+  field: string;  // Dot-separated path of the changed field
+  before: any;    // Value before the change (undefined when the field was added)
+  after: any;     // Value after the change (undefined when the field was removed)
+}
+
+/**
+ * Interface representing an audit log entry.
+ * Entries are append-only: once written they are never updated or deleted.
+ */
+export interface AuditLog {
+  id: string;                        // Unique identifier for the entry
+  actorId: string | null;            // ID of the user who performed the action (null for system actions)
+  actorRole: string | null;          // Role of the actor at the time of the action
+  action: AuditAction;               // Kind of action performed
+  resourceType: AuditResourceType;   // Type of resource that was accessed
+  resourceId: string | null;         // ID of the resource (null for list queries)
+  subjectId: string | null;          // ID of the client the record belongs to, for access accounting
+  changes: AuditChange[];            // Field-level before/after diff for changes
+  ipAddress: string | null;          // IP address the request originated from
+  userAgent: string | null;          // User agent of the request
+  requestId: string | null;          // Correlation ID of the request
+  metadata: Record<string, any>;     // Additional context (route, query, returned record IDs)
+  createdAt: Date;                   // Timestamp when the action was recorded
+}
+
+/**
+ * Data transfer object for recording a new audit log entry.
+ */
+export interface CreateAuditLogDTO {
+  actorId: string | null;
+  actorRole: string | null;
+  action: AuditAction;
+  resourceType: AuditResourceType;
+  resourceId: string | null;
+  subjectId?: string | null;
+  changes?: AuditChange[];
+  ipAddress?: string | null;
+  userAgent?: string | null;
+  requestId?: string | null;
+  metadata?: Record<string, any>;
+}
+
+/**
+ * Interface for filtering and paginating audit log entries.
+ */
+export interface AuditLogFilterParams {
+  actorId?: string;
+  action?: AuditAction;
+  resourceType?: AuditResourceType;
+  resourceId?: string;
+  subjectId?: string;
+  requestId?: string;
+  startDate?: Date;
+  endDate?: Date;
+  page?: number;
+  limit?: number;
+  sortOrder?: 'asc' | 'desc';
+}
+
+/**
+ * Interface for a paginated list of audit log entries.
+ */
+export interface AuditLogListResponse {
+  auditLogs: AuditLog[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+/**
+ * Interface for an exported audit log file.
+ */
+export interface AuditLogExport {
+  filename: string;
+  contentType: string;
+  content: string;
+  count: number;
+}
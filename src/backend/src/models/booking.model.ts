@@ -1,4 +1,6 @@
 import { PrismaClient } from '@prisma/client'; // v5.0+
+import { ServiceType } from '../constants/service-types';
+import { DayOfWeek } from '../types/provider.types';
 
 /**
  * Enum representing the possible statuses of a booking throughout its lifecycle.
@@ -14,6 +16,26 @@ export enum BookingStatus {
   INTERRUPTED = 'INTERRUPTED'    // Service delivery was interrupted and not completed
 }
 
+/**
+ * Allowed status transitions for a booking.
+ * Terminal statuses (COMPLETED, CANCELLED, RESCHEDULED, NO_SHOW) cannot be changed.
+ */
+export const BookingStatusTransitions: Record<BookingStatus, BookingStatus[]> = {
+  [BookingStatus.SCHEDULED]: [
+    BookingStatus.IN_PROGRESS,
+    BookingStatus.COMPLETED,
+    BookingStatus.CANCELLED,
+    BookingStatus.RESCHEDULED,
+    BookingStatus.NO_SHOW
+  ],
+  [BookingStatus.IN_PROGRESS]: [BookingStatus.COMPLETED, BookingStatus.INTERRUPTED],
+  [BookingStatus.INTERRUPTED]: [BookingStatus.IN_PROGRESS, BookingStatus.COMPLETED],
+  [BookingStatus.COMPLETED]: [],
+  [BookingStatus.CANCELLED]: [],
+  [BookingStatus.RESCHEDULED]: [],
+  [BookingStatus.NO_SHOW]: []
+};
+
 /**
  * Interface representing a booking entity in the Revolucare platform.
  * Maps to the database schema for bookings and contains all appointment information.
@@ -31,6 +53,8 @@ export interface Booking {
   cancelledBy: string | null;        // ID of the user who cancelled the booking
   location: Record<string, any> | null; // Location information for the appointment (flexible structure)
   rescheduledToId: string | null;    // ID of the new booking if this one was rescheduled
+  seriesId: string | null;           // Recurring series the booking is an occurrence of, if any
+  confirmedAt: Date | null;          // When the client confirmed they will attend, e.g. by replying to a reminder
   createdAt: Date;                   // Timestamp when the booking was created
   updatedAt: Date;                   // Timestamp when the booking was last updated
 }
@@ -43,10 +67,13 @@ export interface CreateBookingDTO {
   clientId: string;                 // ID of the client receiving service
   providerId: string;               // ID of the provider delivering service
   serviceItemId: string | null;     // Optional reference to a service item
+  serviceType: ServiceType;         // Type of service being booked, used for availability checks
   startTime: Date;                  // Appointment start time
   endTime: Date;                    // Appointment end time
   notes: string | null;             // Optional booking notes
   location: Record<string, any> | null; // Optional location information
+  seriesId?: string | null;         // Recurring series the booking belongs to, set by the series operations
+  authorizationOverrideReason?: string | null; // Why a case manager books beyond the service item's authorized units
 }
 
 /**
@@ -66,8 +93,10 @@ export interface UpdateBookingDTO {
  */
 export interface BookingFilterParams {
   clientId?: string;                // Filter by client ID
+  clientIds?: string[];             // Filter by any of several client IDs (e.g. a case manager's caseload)
   providerId?: string;              // Filter by provider ID
   serviceItemId?: string;           // Filter by service item ID
+  seriesId?: string;                // Filter by recurring series ID
   status?: BookingStatus;           // Filter by booking status
   startDate?: Date;                 // Filter by start date range (inclusive)
   endDate?: Date;                   // Filter by end date range (inclusive)
@@ -130,4 +159,122 @@ export interface CancellationInfo {
 export interface RescheduleInfo {
   newBookingId: string;             // ID of the new booking created from reschedule
   reason: string | null;            // Optional reason for reschedule
+}
+
+/**
+ * Data transfer object for rescheduling a booking through the API.
+ * The provider, client and service item are carried over from the original booking.
+ */
+export interface RescheduleBookingDTO {
+  startTime: Date;                  // New appointment start time
+  endTime: Date;                    // New appointment end time
+  serviceType: ServiceType;         // Type of service, used for availability checks
+  reason: string | null;            // Optional reason for reschedule
+  scope?: SeriesScope;              // Which occurrences of a recurring series to move (defaults to this one)
+  authorizationOverrideReason?: string | null; // Why a case manager moves bookings beyond the service item's authorized units
+}
+
+/**
+ * How often a recurring booking series repeats, following the RRULE FREQ values
+ */
+export enum RecurrenceFrequency {
+  DAILY = 'DAILY',
+  WEEKLY = 'WEEKLY',
+  MONTHLY = 'MONTHLY'
+}
+
+/**
+ * RRULE-style recurrence for a booking series. A series ends either after a number of
+ * occurrences or on a date, never both.
+ */
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;   // Repeat period
+  interval: number;                 // Repeat every N periods (e.g. 2 for fortnightly)
+  byDay: DayOfWeek[];               // Weekdays for weekly series; empty repeats on the first occurrence's weekday
+  count: number | null;             // Total number of occurrences
+  until: Date | null;               // Latest time an occurrence may start
+}
+
+/**
+ * Status of a recurring booking series
+ */
+export enum BookingSeriesStatus {
+  ACTIVE = 'ACTIVE',                // Occurrences are booked
+  CANCELLED = 'CANCELLED'           // Every remaining occurrence was cancelled
+}
+
+/**
+ * Which occurrences of a recurring series an edit or cancellation applies to
+ */
+export enum SeriesScope {
+  OCCURRENCE = 'OCCURRENCE',        // Only the selected occurrence
+  FOLLOWING = 'FOLLOWING',          // The selected occurrence and every later one
+  SERIES = 'SERIES'                 // Every remaining occurrence
+}
+
+/**
+ * A recurring booking series. The start and end times are those of the first
+ * occurrence; each occurrence is stored as its own booking.
+ */
+export interface BookingSeries {
+  id: string;                        // Unique identifier for the series
+  clientId: string;                  // Client receiving the service
+  providerId: string;                // Provider delivering the service
+  serviceItemId: string | null;      // Service item from the client's services plan the series delivers
+  serviceType: ServiceType;          // Type of service delivered at each occurrence
+  recurrence: RecurrenceRule;        // How the series repeats
+  startTime: Date;                   // Start time of the first occurrence
+  endTime: Date;                     // End time of the first occurrence
+  notes: string | null;              // Notes copied to each occurrence
+  location: Record<string, any> | null; // Location copied to each occurrence
+  status: BookingSeriesStatus;       // Current status of the series
+  createdById: string;               // User who created the series
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Data transfer object for creating a recurring booking series. The start and end
+ * times are those of the first occurrence.
+ */
+export interface CreateBookingSeriesDTO extends CreateBookingDTO {
+  recurrence: RecurrenceRule;       // How the series repeats
+  skipConflicts: boolean;           // Book the remaining occurrences when some conflict, instead of rejecting the series
+}
+
+/**
+ * An occurrence of a series that could not be booked
+ */
+export interface BookingOccurrenceConflict {
+  startTime: Date;                  // Start time of the occurrence
+  endTime: Date;                    // End time of the occurrence
+  reason: string;                   // Why the occurrence could not be booked
+}
+
+/**
+ * Delivery progress of a series, used to track delivered units against the services plan.
+ * Rescheduled occurrences are counted once, through their replacement booking.
+ */
+export interface BookingSeriesProgress {
+  total: number;                    // Occurrences booked, excluding rescheduled originals
+  scheduled: number;                // Occurrences still to be delivered
+  delivered: number;                // Occurrences completed
+  missed: number;                   // Occurrences the client did not attend or that were interrupted
+  cancelled: number;                // Occurrences cancelled
+}
+
+/**
+ * Response structure for a recurring series with its occurrences
+ */
+export interface BookingSeriesResponse {
+  series: BookingSeries;            // The series
+  bookings: Booking[];              // Every occurrence, earliest first
+  progress: BookingSeriesProgress;  // Delivery progress against the series
+}
+
+/**
+ * Response structure for a newly created series, listing occurrences that were skipped
+ */
+export interface CreateBookingSeriesResponse extends BookingSeriesResponse {
+  skipped: BookingOccurrenceConflict[]; // Occurrences not booked because they conflicted
 }
\ No newline at end of file
@@ -15,6 +15,7 @@ import {
 } from '../types/user.types';
 import { errorFactory } from '../utils/error-handler';
 import { validation } from '../utils/validation';
+import { DEFAULT_TIMEZONE, isValidTimeZone } from '../utils/date-time';
 
 /**
  * Model class for client profile data validation and transformation
@@ -63,6 +64,14 @@ export class ClientProfileModel {
       }
     }
     
+    // Validate timezone if provided
+    if (profileData.timezone !== undefined && !isValidTimeZone(profileData.timezone)) {
+      throw errorFactory.createValidationError(
+        'Invalid timezone',
+        { field: 'timezone', value: profileData.timezone }
+      );
+    }
+    
     // Validate address if provided
     if (profileData.address) {
       this.validateAddress(profileData.address);
@@ -181,6 +190,11 @@ export class ClientProfileModel {
       }
     }
     
+    // Profiles created before timezones were recorded schedule in the default timezone
+    if (!profileData.timezone) {
+      profileData.timezone = DEFAULT_TIMEZONE;
+    }
+    
     // Convert date strings to Date objects
     if (profileData.dateOfBirth && typeof profileData.dateOfBirth === 'string') {
       profileData.dateOfBirth = new Date(profileData.dateOfBirth);
@@ -380,6 +394,10 @@ export class ClientProfileModel {
       merged.phone = updateData.phone;
     }
     
+    if (updateData.timezone !== undefined) {
+      merged.timezone = updateData.timezone;
+    }
+    
     // Deep merge complex objects
     if (updateData.address) {
       merged.address = {
@@ -0,0 +1,149 @@
+import { Roles } from '../constants/roles';
+
+/**
+ * Interface representing a conversation thread between a client and members of their care team.
+ * Every conversation is anchored on a single client; the other participants must have a care
+ * relationship with that client (an assigned case manager or a provider the client has booked).
+ */
+export interface Conversation {
+  id: string;                        // Unique identifier for the conversation
+  clientId: string;                  // Client the conversation is about, used to scope participants
+  subject: string | null;            // Optional subject line for the thread
+  createdById: string;               // ID of the user who started the conversation
+  lastMessageAt: Date | null;        // Timestamp of the most recent message
+  createdAt: Date;                   // Timestamp when the conversation was created
+  updatedAt: Date;                   // Timestamp when the conversation was last updated
+}
+
+/**
+ * Interface representing a user's membership of a conversation
+ */
+export interface ConversationParticipant {
+  conversationId: string;            // Reference to the conversation
+  userId: string;                    // Reference to the participating user
+  role: Roles;                       // Role of the participant when they joined
+  joinedAt: Date;                    // Timestamp when the user joined the conversation
+}
+
+/**
+ * Interface representing a file attached to a message. Files are kept in blob storage
+ * and are only ever handed out through short-lived signed URLs.
+ */
+export interface MessageAttachment {
+  id: string;                        // Unique identifier for the attachment
+  messageId: string;                 // Reference to the message the file is attached to
+  fileName: string;                  // Sanitized original file name
+  mimeType: string;                  // MIME type of the file
+  size: number;                      // File size in bytes
+  storageUrl: string;                // Storage key of the file in blob storage
+  createdAt: Date;                   // Timestamp when the file was uploaded
+}
+
+/**
+ * Interface representing a read receipt for a message
+ */
+export interface MessageReceipt {
+  messageId: string;                 // Reference to the message that was read
+  userId: string;                    // ID of the user who read the message
+  readAt: Date;                      // Timestamp when the message was read
+}
+
+/**
+ * Interface representing a message in a conversation
+ */
+export interface Message {
+  id: string;                        // Unique identifier for the message
+  conversationId: string;            // Reference to the conversation
+  senderId: string;                  // ID of the user who sent the message
+  body: string;                      // Message text, may be empty when only attachments are sent
+  attachments: MessageAttachment[];  // Files attached to the message
+  receipts: MessageReceipt[];        // Read receipts from other participants
+  createdAt: Date;                   // Timestamp when the message was sent
+}
+
+/**
+ * Interface representing a conversation together with its participants and unread state
+ * for the requesting user
+ */
+export interface ConversationSummary {
+  conversation: Conversation;
+  participants: ConversationParticipant[];
+  lastMessage: Message | null;
+  unreadCount: number;
+}
+
+/**
+ * Data transfer object for starting a conversation
+ */
+export interface CreateConversationDTO {
+  clientId: string;                  // Client the conversation is about
+  participantIds: string[];          // Users to include besides the creator
+  subject: string | null;            // Optional subject line
+  body: string | null;               // Optional first message
+}
+
+/**
+ * A file uploaded with a message, before it is written to blob storage
+ */
+export interface MessageAttachmentUpload {
+  fileName: string;                  // Original file name
+  mimeType: string;                  // MIME type of the file
+  size: number;                      // File size in bytes
+  buffer: Buffer;                    // File contents
+}
+
+/**
+ * Data transfer object for sending a message
+ */
+export interface SendMessageDTO {
+  body: string;                      // Message text
+  attachments?: MessageAttachmentUpload[]; // Optional files to attach
+}
+
+/**
+ * Data used by the repository to persist a message and its stored attachments
+ */
+export interface CreateMessageDTO {
+  conversationId: string;
+  senderId: string;
+  body: string;
+  attachments: Omit<MessageAttachment, 'id' | 'messageId' | 'createdAt'>[];
+}
+
+/**
+ * Parameters for paging through conversations
+ */
+export interface ConversationFilterParams {
+  clientId?: string;                 // Only conversations about this client
+  page?: number;                     // Page number for pagination
+  limit?: number;                    // Number of items per page
+}
+
+/**
+ * Parameters for paging backwards through the messages of a conversation
+ */
+export interface MessageFilterParams {
+  before?: Date;                     // Only messages sent before this time
+  limit?: number;                    // Maximum number of messages to return
+}
+
+/**
+ * Paginated list of conversations
+ */
+export interface ConversationListResponse {
+  conversations: ConversationSummary[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+/**
+ * Result of marking messages in a conversation as read
+ */
+export interface ReadReceiptResult {
+  conversationId: string;
+  userId: string;
+  messageIds: string[];              // Messages that received a new read receipt
+  readAt: Date;
+}
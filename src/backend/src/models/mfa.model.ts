@@ -0,0 +1,27 @@
+import { Roles } from '../constants/roles';
+
+/**
+ * Interface representing a user's TOTP multi-factor authentication enrollment.
+ * A record exists but is not enabled while the user is part-way through enrollment.
+ */
+export interface UserMfa {
+  id: string;                     // Unique identifier for the enrollment
+  userId: string;                 // ID of the enrolled user
+  secret: string;                 // TOTP secret, encrypted at rest
+  isEnabled: boolean;             // Whether enrollment has been confirmed with a valid code
+  recoveryCodes: string[];        // SHA-256 hashes of unused recovery codes
+  lastUsedTimeStep: number | null; // Last accepted TOTP time step, used to reject replayed codes
+  enabledAt: Date | null;         // Timestamp when enrollment was confirmed
+  createdAt: Date;                // Timestamp when enrollment started
+  updatedAt: Date;                // Timestamp when the enrollment was last updated
+}
+
+/**
+ * Interface representing whether multi-factor authentication is mandatory for a role.
+ */
+export interface MfaPolicy {
+  role: Roles;                    // Role the policy applies to
+  isRequired: boolean;            // Whether users with the role must use MFA to sign in
+  updatedBy: string | null;       // ID of the administrator who last changed the policy
+  updatedAt: Date | null;         // Timestamp when the policy was last changed
+}
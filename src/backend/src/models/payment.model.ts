@@ -0,0 +1,78 @@
+/**
+ * Data transfer object for paying for service items of a services plan
+ */
+export interface CreateServiceItemsPaymentDTO {
+  servicesPlanId: string;           // Services plan the items belong to
+  serviceItemIds?: string[];        // Items to pay for; all unpaid items of the plan when omitted
+}
+
+/**
+ * Data transfer object for charging a client a late cancellation or no-show fee
+ */
+export interface PolicyFeePaymentDTO {
+  violationId: string;              // Policy violation the fee is charged for
+  bookingId: string;                // Booking that was cancelled late or missed
+  clientId: string;                 // Client charged the fee
+  providerId: string;               // Provider whose policy set the fee
+  feeType: string;                  // Kind of violation, e.g. late_cancellation or no_show
+  amount: number;                   // Fee in cents
+}
+
+/**
+ * Data transfer object for cancelling a payment
+ */
+export interface CancelPaymentDTO {
+  reason?: 'abandoned' | 'duplicate' | 'fraudulent' | 'requested_by_customer';
+}
+
+/**
+ * Data transfer object for refunding a payment
+ */
+export interface RefundPaymentDTO {
+  amount?: number;                  // Amount to refund in cents; the full amount when omitted
+  reason?: 'duplicate' | 'fraudulent' | 'requested_by_customer';
+}
+
+/**
+ * Payment intent details the client needs to complete payment
+ */
+export interface PaymentIntentResult {
+  clientSecret: string;             // Secret used by the client to confirm the payment
+  paymentIntentId: string;          // ID of the payment intent
+  amount: number;                   // Amount to charge in cents
+}
+
+/**
+ * Current state of a payment intent
+ */
+export interface PaymentStatusResult {
+  status: string;                   // Payment intent status as reported by Stripe
+  amount: number;                   // Amount in cents
+  metadata: Record<string, any>;    // Services plan, client and item details
+}
+
+/**
+ * Result of recording a completed payment
+ */
+export interface PaymentProcessingResult {
+  success: boolean;
+  servicesPlanId: string;
+  status: string;
+}
+
+/**
+ * Result of cancelling a payment
+ */
+export interface PaymentCancellationResult {
+  success: boolean;
+  status: string;
+}
+
+/**
+ * Result of refunding a payment
+ */
+export interface RefundResult {
+  success: boolean;
+  refundId: string;
+  amount: number;                   // Refunded amount in cents
+}
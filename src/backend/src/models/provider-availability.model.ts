@@ -4,33 +4,51 @@ import {
   TimeSlot, 
   RecurringSchedule, 
   AvailabilityException,
+  BusyPeriod,
   DayOfWeek,
   DateRange,
 } from '../types/provider.types';
 import { ServiceType, DefaultServiceDurations } from '../constants/service-types';
+import {
+  DEFAULT_TIMEZONE,
+  getZonedDateParts,
+  getZonedDayOfWeek,
+  isOverlapping,
+  zonedTimeToUtc
+} from '../utils/date-time';
 
 /**
- * Generates time slots based on recurring schedule patterns for a date range
+ * Generates time slots based on recurring schedule patterns for a date range. Schedule
+ * times are wall-clock times in the provider's timezone, so a slot keeps its local time
+ * across DST changes and a schedule loses or gains an hour of slots on the change day.
  * 
  * @param recurringSchedule - Array of recurring schedule patterns
  * @param dateRange - Date range to generate slots for
  * @param providerId - ID of the provider
+ * @param timezone - IANA timezone the schedule is kept in
  * @returns Array of generated time slots based on the recurring schedule
  */
 export function generateTimeSlots(
   recurringSchedule: RecurringSchedule[],
   dateRange: DateRange,
-  providerId: string
+  providerId: string,
+  timezone: string = DEFAULT_TIMEZONE
 ): TimeSlot[] {
   const result: TimeSlot[] = [];
   
-  // Calculate the number of days in the date range
-  const startDate = new Date(dateRange.startDate);
-  const endDate = new Date(dateRange.endDate);
+  // Walk the calendar days of the range as seen in the provider's timezone, holding
+  // each day at UTC midnight so stepping a day is never affected by DST
+  const start = getZonedDateParts(new Date(dateRange.startDate), timezone);
+  const end = getZonedDateParts(new Date(dateRange.endDate), timezone);
+  const currentDate = new Date(Date.UTC(start.year, start.month - 1, start.day));
+  const endDate = new Date(Date.UTC(end.year, end.month - 1, end.day));
   
   // Generate slots for each day in the date range
-  const currentDate = new Date(startDate);
   while (currentDate <= endDate) {
+    const year = currentDate.getUTCFullYear();
+    const month = currentDate.getUTCMonth() + 1;
+    const day = currentDate.getUTCDate();
+    
     // Get day of week for current date
     const dayOfWeek = getDayOfWeekFromDate(currentDate);
     
@@ -44,20 +62,17 @@ export function generateTimeSlots(
       const startTime = parseTimeString(schedule.startTime);
       const endTime = parseTimeString(schedule.endTime);
       
+      const scheduleStartTime = zonedTimeToUtc(year, month, day, startTime.hours, startTime.minutes, timezone);
+      const scheduleEndTime = zonedTimeToUtc(year, month, day, endTime.hours, endTime.minutes, timezone);
+      
       // Create slots for each service type in this schedule
       for (const serviceType of schedule.serviceTypes) {
         // Get default duration for this service type
-        const durationMinutes = DefaultServiceDurations[serviceType];
+        const durationMs = DefaultServiceDurations[serviceType] * 60 * 1000;
         
         // Calculate how many slots can fit in this schedule
-        let slotStartTime = new Date(currentDate);
-        slotStartTime.setHours(startTime.hours, startTime.minutes, 0, 0);
-        
-        let slotEndTime = new Date(currentDate);
-        slotEndTime.setHours(startTime.hours, startTime.minutes + durationMinutes, 0, 0);
-        
-        const scheduleEndTime = new Date(currentDate);
-        scheduleEndTime.setHours(endTime.hours, endTime.minutes, 0, 0);
+        let slotStartTime = scheduleStartTime;
+        let slotEndTime = new Date(slotStartTime.getTime() + durationMs);
         
         // Create slots while they fit within the schedule end time
         while (slotEndTime <= scheduleEndTime) {
@@ -74,22 +89,21 @@ export function generateTimeSlots(
           result.push(timeSlot);
           
           // Move to next slot
-          slotStartTime = new Date(slotEndTime);
-          slotEndTime = new Date(slotStartTime);
-          slotEndTime.setMinutes(slotStartTime.getMinutes() + durationMinutes);
+          slotStartTime = slotEndTime;
+          slotEndTime = new Date(slotStartTime.getTime() + durationMs);
         }
       }
     }
     
     // Move to next day
-    currentDate.setDate(currentDate.getDate() + 1);
+    currentDate.setUTCDate(currentDate.getUTCDate() + 1);
   }
   
   return result;
 }
 
 /**
- * Maps JavaScript Date's day of week to the DayOfWeek enum
+ * Maps a calendar date held at UTC midnight to the DayOfWeek enum
  * 
  * @param date - Date to get day of week from
  * @returns DayOfWeek enum value corresponding to the date
@@ -104,7 +118,30 @@ function getDayOfWeekFromDate(date: Date): DayOfWeek {
     5: DayOfWeek.FRIDAY,
     6: DayOfWeek.SATURDAY,
   };
-  return dayMap[date.getDay()];
+  return dayMap[date.getUTCDay()];
+}
+
+/**
+ * Gets a "YYYY-MM-DD" key for the calendar date an instant falls on in a timezone
+ * 
+ * @param date - The instant
+ * @param timezone - IANA timezone name
+ * @returns Calendar date key
+ */
+function getZonedDateKey(date: Date, timezone: string): string {
+  const { year, month, day } = getZonedDateParts(date, timezone);
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * Gets the "YYYY-MM-DD" key of an exception's date. Exception dates are calendar dates
+ * in the provider's timezone, stored at UTC midnight.
+ * 
+ * @param date - The exception date
+ * @returns Calendar date key
+ */
+function getExceptionDateKey(date: Date): string {
+  return new Date(date).toISOString().slice(0, 10);
 }
 
 /**
@@ -112,27 +149,25 @@ function getDayOfWeekFromDate(date: Date): DayOfWeek {
  * 
  * @param timeSlots - Array of time slots to apply exceptions to
  * @param exceptions - Array of availability exceptions
+ * @param timezone - IANA timezone the provider's calendar dates are kept in
  * @returns Modified time slots with exceptions applied
  */
 export function applyExceptions(
   timeSlots: TimeSlot[],
-  exceptions: AvailabilityException[]
+  exceptions: AvailabilityException[],
+  timezone: string = DEFAULT_TIMEZONE
 ): TimeSlot[] {
   // Create a copy of the time slots array
   let result = [...timeSlots];
   
   // Apply each exception
   for (const exception of exceptions) {
-    const exceptionDate = new Date(exception.date);
-    exceptionDate.setHours(0, 0, 0, 0);
+    const exceptionDate = getExceptionDateKey(exception.date);
     
-    // If the provider is not available on this date, remove all time slots for this date
+    // If the provider is not available on this date, remove all time slots that start
+    // on this date in the provider's timezone
     if (!exception.isAvailable) {
-      result = result.filter(slot => {
-        const slotDate = new Date(slot.startTime);
-        slotDate.setHours(0, 0, 0, 0);
-        return slotDate.getTime() !== exceptionDate.getTime();
-      });
+      result = result.filter(slot => getZonedDateKey(slot.startTime, timezone) !== exceptionDate);
     }
     
     // If there are alternative slots defined, add them to the result
@@ -144,6 +179,23 @@ export function applyExceptions(
   return result;
 }
 
+/**
+ * Removes time slots that overlap a busy period from the provider's external calendar
+ * 
+ * @param timeSlots - Array of time slots to filter
+ * @param busyPeriods - Busy periods read from connected calendars
+ * @returns Time slots that do not overlap any busy period
+ */
+export function applyBusyPeriods(timeSlots: TimeSlot[], busyPeriods: BusyPeriod[]): TimeSlot[] {
+  if (busyPeriods.length === 0) {
+    return timeSlots;
+  }
+  
+  return timeSlots.filter(slot => !busyPeriods.some(period =>
+    isOverlapping(slot.startTime, slot.endTime, period.startTime, period.endTime)
+  ));
+}
+
 /**
  * Checks if a time slot conflicts with existing time slots
  * 
@@ -310,6 +362,8 @@ export class ProviderAvailabilityModel implements Availability {
   slots: TimeSlot[];
   recurringSchedule: RecurringSchedule[];
   exceptions: AvailabilityException[];
+  busyPeriods: BusyPeriod[];
+  timezone: string;
   lastUpdated: Date;
   
   /**
@@ -322,6 +376,8 @@ export class ProviderAvailabilityModel implements Availability {
     this.slots = data.slots || [];
     this.recurringSchedule = data.recurringSchedule || [];
     this.exceptions = data.exceptions || [];
+    this.busyPeriods = data.busyPeriods || [];
+    this.timezone = data.timezone || DEFAULT_TIMEZONE;
     this.lastUpdated = data.lastUpdated ? new Date(data.lastUpdated) : new Date();
     
     // Convert string dates to Date objects if needed
@@ -340,6 +396,12 @@ export class ProviderAvailabilityModel implements Availability {
         endTime: slot.endTime instanceof Date ? slot.endTime : new Date(slot.endTime)
       })) : null
     }));
+    
+    this.busyPeriods = this.busyPeriods.map(period => ({
+      ...period,
+      startTime: period.startTime instanceof Date ? period.startTime : new Date(period.startTime),
+      endTime: period.endTime instanceof Date ? period.endTime : new Date(period.endTime)
+    }));
   }
   
   /**
@@ -427,6 +489,8 @@ export class ProviderAvailabilityModel implements Availability {
       slots: this.slots,
       recurringSchedule: this.recurringSchedule,
       exceptions: this.exceptions,
+      busyPeriods: this.busyPeriods,
+      timezone: this.timezone,
       lastUpdated: this.lastUpdated
     };
   }
@@ -607,11 +671,12 @@ export class ProviderAvailabilityModel implements Availability {
     const generatedSlots = generateTimeSlots(
       this.recurringSchedule,
       dateRange,
-      this.providerId
+      this.providerId,
+      this.timezone
     );
     
     // Apply exceptions to the generated slots
-    let availableSlots = applyExceptions(generatedSlots, this.exceptions);
+    let availableSlots = applyExceptions(generatedSlots, this.exceptions, this.timezone);
     
     // Add existing slots that are not booked and within the date range
     const existingAvailableSlots = this.slots.filter(slot => {
@@ -622,6 +687,9 @@ export class ProviderAvailabilityModel implements Availability {
     
     availableSlots = [...availableSlots, ...existingAvailableSlots];
     
+    // Remove slots the provider is busy for in a connected external calendar
+    availableSlots = applyBusyPeriods(availableSlots, this.busyPeriods);
+    
     // Filter by service type if specified
     if (serviceType) {
       availableSlots = availableSlots.filter(slot => slot.serviceType === serviceType);
@@ -659,15 +727,17 @@ export class ProviderAvailabilityModel implements Availability {
       return false;
     }
     
-    // Check for exceptions
-    const exceptionDate = new Date(startTime);
-    exceptionDate.setHours(0, 0, 0, 0);
+    // Check for personal events in a connected external calendar
+    if (applyBusyPeriods([testSlot], this.busyPeriods).length === 0) {
+      return false;
+    }
     
-    const relevantException = this.exceptions.find(exception => {
-      const exDate = new Date(exception.date);
-      exDate.setHours(0, 0, 0, 0);
-      return exDate.getTime() === exceptionDate.getTime();
-    });
+    // Check for exceptions on the slot's date in the provider's timezone
+    const slotDate = getZonedDateKey(startTime, this.timezone);
+    
+    const relevantException = this.exceptions.find(
+      exception => getExceptionDateKey(exception.date) === slotDate
+    );
     
     if (relevantException) {
       if (!relevantException.isAvailable) {
@@ -687,12 +757,10 @@ export class ProviderAvailabilityModel implements Availability {
       }
     }
     
-    // Check if there's a recurring schedule that covers this time slot
-    const dayOfWeek = getDayOfWeekFromDate(startTime);
-    const startHour = startTime.getHours();
-    const startMinute = startTime.getMinutes();
-    const endHour = endTime.getHours();
-    const endMinute = endTime.getMinutes();
+    // Check if there's a recurring schedule that covers this time slot on the slot's
+    // day in the provider's timezone
+    const dayOfWeek = getZonedDayOfWeek(startTime, this.timezone);
+    const { year, month, day } = getZonedDateParts(startTime, this.timezone);
     
     return this.recurringSchedule.some(schedule => {
       if (schedule.dayOfWeek !== dayOfWeek) {
@@ -707,11 +775,11 @@ export class ProviderAvailabilityModel implements Availability {
         const schStart = parseTimeString(schedule.startTime);
         const schEnd = parseTimeString(schedule.endTime);
         
+        const scheduleStart = zonedTimeToUtc(year, month, day, schStart.hours, schStart.minutes, this.timezone);
+        const scheduleEnd = zonedTimeToUtc(year, month, day, schEnd.hours, schEnd.minutes, this.timezone);
+        
         // Check if the requested time slot is within the schedule time range
-        if (
-          (startHour > schStart.hours || (startHour === schStart.hours && startMinute >= schStart.minutes)) &&
-          (endHour < schEnd.hours || (endHour === schEnd.hours && endMinute <= schEnd.minutes))
-        ) {
+        if (startTime >= scheduleStart && endTime <= scheduleEnd) {
           return true;
         }
       } catch (error) {
@@ -2,6 +2,7 @@ import { ProviderProfile } from '../types/provider.types';
 import { ServiceType } from '../constants/service-types';
 import { Roles } from '../constants/roles';
 import { Address } from '../types/user.types';
+import { DEFAULT_TIMEZONE, isValidTimeZone } from '../utils/date-time';
 
 /**
  * Model class representing a provider profile in the Revolucare platform
@@ -21,6 +22,7 @@ export class ProviderProfileModel implements ProviderProfile {
   insuranceAccepted: string[];
   address: Address | null;
   phone: string | null;
+  timezone: string;
   averageRating: number;
   reviewCount: number;
   createdAt: Date;
@@ -43,6 +45,7 @@ export class ProviderProfileModel implements ProviderProfile {
     this.insuranceAccepted = providerData.insuranceAccepted || [];
     this.address = providerData.address || null;
     this.phone = providerData.phone || null;
+    this.timezone = providerData.timezone || DEFAULT_TIMEZONE;
     this.averageRating = providerData.averageRating || 0;
     this.reviewCount = providerData.reviewCount || 0;
     this.createdAt = providerData.createdAt ? new Date(providerData.createdAt) : new Date();
@@ -80,6 +83,11 @@ export class ProviderProfileModel implements ProviderProfile {
       throw new Error('Invalid phone number format');
     }
 
+    // Validate the timezone is a known IANA timezone
+    if (!isValidTimeZone(this.timezone)) {
+      throw new Error('Invalid timezone');
+    }
+
     // Validate address structure if provided
     if (this.address) {
       if (!this.address.street || !this.address.city || !this.address.state || !this.address.zipCode) {
@@ -123,6 +131,7 @@ export class ProviderProfileModel implements ProviderProfile {
       insuranceAccepted: this.insuranceAccepted,
       address: this.address,
       phone: this.phone,
+      timezone: this.timezone,
       averageRating: this.averageRating,
       reviewCount: this.reviewCount,
       createdAt: this.createdAt,
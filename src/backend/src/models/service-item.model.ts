@@ -1,5 +1,6 @@
 import { ServiceType, ServiceTypeLabels, DefaultServiceDurations } from '../constants/service-types';
-import { ServiceItem, CreateServiceItemDTO, UpdateServiceItemDTO } from '../types/services-plan.types';
+import { PaymentStatus } from '../constants/payment-statuses';
+import { ServiceItem, ServiceCadence, CreateServiceItemDTO, UpdateServiceItemDTO } from '../types/services-plan.types';
 
 /**
  * Model class for service items that provides methods for creating, validating, 
@@ -13,8 +14,11 @@ export class ServiceItemModel implements ServiceItem {
   description: string;
   frequency: string;
   duration: string;
+  cadence: ServiceCadence | null;
+  unitCost: number | null;
   estimatedCost: number;
   status: string;
+  paymentStatus: PaymentStatus;
   createdAt: Date;
   updatedAt: Date;
 
@@ -31,8 +35,11 @@ export class ServiceItemModel implements ServiceItem {
     this.description = data.description;
     this.frequency = data.frequency;
     this.duration = data.duration;
+    this.cadence = data.cadence ?? null;
+    this.unitCost = data.unitCost ?? null;
     this.estimatedCost = data.estimatedCost;
     this.status = 'status' in data ? data.status : 'pending';
+    this.paymentStatus = 'paymentStatus' in data ? data.paymentStatus : PaymentStatus.UNPAID;
     this.createdAt = 'createdAt' in data ? data.createdAt : new Date();
     this.updatedAt = 'updatedAt' in data ? data.updatedAt : new Date();
   }
@@ -50,8 +57,11 @@ export class ServiceItemModel implements ServiceItem {
       description: this.description,
       frequency: this.frequency,
       duration: this.duration,
+      cadence: this.cadence,
+      unitCost: this.unitCost,
       estimatedCost: this.estimatedCost,
       status: this.status,
+      paymentStatus: this.paymentStatus,
       createdAt: this.createdAt,
       updatedAt: this.updatedAt
     };
@@ -106,6 +116,8 @@ export class ServiceItemModel implements ServiceItem {
     if (data.description !== undefined) this.description = data.description;
     if (data.frequency !== undefined) this.frequency = data.frequency;
     if (data.duration !== undefined) this.duration = data.duration;
+    if (data.cadence !== undefined) this.cadence = data.cadence;
+    if (data.unitCost !== undefined) this.unitCost = data.unitCost;
     if (data.estimatedCost !== undefined) this.estimatedCost = data.estimatedCost;
     if (data.status !== undefined) this.status = data.status;
     
@@ -153,6 +165,11 @@ export class ServiceItemModel implements ServiceItem {
       throw new Error('Duration cannot be empty');
     }
     
+    // Validate unit cost is a positive number if provided
+    if (this.unitCost !== null && this.unitCost < 0) {
+      throw new Error('Unit cost cannot be negative');
+    }
+    
     // Validate estimated cost is a positive number
     if (this.estimatedCost < 0) {
       throw new Error('Estimated cost cannot be negative');
@@ -179,6 +196,7 @@ export class ServiceItemModel implements ServiceItem {
       id: '', // Will be assigned by database
       servicesPlanId,
       status: 'pending',
+      paymentStatus: PaymentStatus.UNPAID,
       createdAt: new Date(),
       updatedAt: new Date()
     } as ServiceItem);
@@ -0,0 +1,32 @@
+/**
+ * Processing states of a received webhook event
+ */
+export enum WebhookEventStatus {
+  PROCESSING = 'processing',     // Event has been claimed and is being processed
+  PROCESSED = 'processed'        // Event was processed successfully; redeliveries are ignored
+}
+
+/**
+ * Interface representing a webhook event received from an external provider.
+ * One record exists per provider event so redelivered events are only processed once.
+ */
+export interface WebhookEvent {
+  id: string;                     // Unique identifier for the record
+  provider: string;               // Provider that sent the event, e.g. 'stripe'
+  eventId: string;                // The provider's ID for the event
+  type: string;                   // The provider's event type, e.g. 'payment_intent.succeeded'
+  status: WebhookEventStatus;     // Processing state of the event
+  processedAt: Date | null;       // Timestamp when processing completed
+  createdAt: Date;                // Timestamp when the event was first received
+  updatedAt: Date;                // Timestamp when the event was last claimed or updated
+}
+
+/**
+ * Result of handling a webhook delivery
+ */
+export interface WebhookResult {
+  success: boolean;               // Whether the delivery was accepted
+  event: string;                  // The provider's event type
+  data: Record<string, any>;      // The event's data object
+  duplicate?: boolean;            // True when the event had already been processed and was skipped
+}
@@ -2,27 +2,41 @@ import { Queue, QueueOptions } from 'bull'; // bull@^4.10.0
 import { redisClient } from '../config/redis';
 import { logger } from '../utils/logger';
 import {
-  analyticsEventJob, calculateMetricsJob, updateDashboardsJob
+  analyticsEventJob, calculateMetricsJob, updateDashboardsJob,
+  dispatchScheduledReportsJob, deliverScheduledReportJob
 } from './jobs/analytics.job';
+import { reconcileCalendarsJob } from './jobs/calendar.job';
 import { carePlanGenerationJob } from './jobs/care-plan-generation.job';
 import { documentAnalysisJob } from './jobs/document-analysis.job';
 import { emailJob } from './jobs/email.job';
 import { notificationJob } from './jobs/notification.job';
+import { sendPriorAuthorizationAlertsJob } from './jobs/prior-authorization.job';
+import { sendReminderJob } from './jobs/reminder.job';
+import { expireWaitlistOffersJob } from './jobs/waitlist.job';
 import {
-  processAnalyticsEvent, calculateMetrics, updateDashboards
+  processAnalyticsEvent, calculateMetrics, updateDashboards,
+  dispatchScheduledReports, deliverScheduledReport
 } from './processors/analytics.processor';
+import { reconcileCalendars } from './processors/calendar.processor';
 import { processCarePlanGeneration } from './processors/care-plan-generation.processor';
 import { processDocumentAnalysis } from './processors/document-analysis.processor';
 import { processEmail } from './processors/email.processor';
 import { processNotification } from './processors/notification.processor';
+import { sendPriorAuthorizationAlerts } from './processors/prior-authorization.processor';
+import { sendReminder } from './processors/reminder.processor';
+import { expireWaitlistOffers } from './processors/waitlist.processor';
 
 // Define queue names for different job types
 const QUEUE_NAMES = {
   ANALYTICS: 'analytics',
+  CALENDAR: 'calendar',
   CARE_PLAN: 'care-plan',
   DOCUMENT: 'document',
   EMAIL: 'email',
-  NOTIFICATION: 'notification'
+  NOTIFICATION: 'notification',
+  PRIOR_AUTHORIZATION: 'prior-authorization',
+  REMINDER: 'reminder',
+  WAITLIST: 'waitlist'
 };
 
 // Define default queue options for all queues
@@ -41,10 +55,14 @@ const DEFAULT_QUEUE_OPTIONS: QueueOptions = {
 
 // Create queue instances for different job types
 const analyticsQueue = new Queue(QUEUE_NAMES.ANALYTICS, DEFAULT_QUEUE_OPTIONS);
+const calendarQueue = new Queue(QUEUE_NAMES.CALENDAR, DEFAULT_QUEUE_OPTIONS);
 const carePlanQueue = new Queue(QUEUE_NAMES.CARE_PLAN, DEFAULT_QUEUE_OPTIONS);
 const documentQueue = new Queue(QUEUE_NAMES.DOCUMENT, DEFAULT_QUEUE_OPTIONS);
 const emailQueue = new Queue(QUEUE_NAMES.EMAIL, DEFAULT_QUEUE_OPTIONS);
 const notificationQueue = new Queue(QUEUE_NAMES.NOTIFICATION, DEFAULT_QUEUE_OPTIONS);
+const priorAuthorizationQueue = new Queue(QUEUE_NAMES.PRIOR_AUTHORIZATION, DEFAULT_QUEUE_OPTIONS);
+const reminderQueue = new Queue(QUEUE_NAMES.REMINDER, DEFAULT_QUEUE_OPTIONS);
+const waitlistQueue = new Queue(QUEUE_NAMES.WAITLIST, DEFAULT_QUEUE_OPTIONS);
 
 /**
  * Creates and configures a Bull queue with standard options
@@ -91,6 +109,14 @@ async function initializeQueues(): Promise<void> {
     analyticsQueue.process(analyticsEventJob.name, processAnalyticsEvent);
     analyticsQueue.process(calculateMetricsJob.name, calculateMetrics);
     analyticsQueue.process(updateDashboardsJob.name, updateDashboards);
+    analyticsQueue.process(dispatchScheduledReportsJob.name, dispatchScheduledReports);
+    analyticsQueue.process(deliverScheduledReportJob.name, deliverScheduledReport);
+
+    // Repeatable jobs are keyed by name and cron, so re-adding on startup does not duplicate them
+    await analyticsQueue.add(dispatchScheduledReportsJob.name, {}, dispatchScheduledReportsJob.options);
+
+    calendarQueue.process(reconcileCalendarsJob.name, reconcileCalendars);
+    await calendarQueue.add(reconcileCalendarsJob.name, {}, reconcileCalendarsJob.options);
 
     carePlanQueue.process(carePlanGenerationJob.name, processCarePlanGeneration);
 
@@ -101,6 +127,14 @@ async function initializeQueues(): Promise<void> {
 
     notificationQueue.process(notificationJob.name, processNotification);
 
+    priorAuthorizationQueue.process(sendPriorAuthorizationAlertsJob.name, sendPriorAuthorizationAlerts);
+    await priorAuthorizationQueue.add(sendPriorAuthorizationAlertsJob.name, {}, sendPriorAuthorizationAlertsJob.options);
+
+    reminderQueue.process(sendReminderJob.name, sendReminder);
+
+    waitlistQueue.process(expireWaitlistOffersJob.name, expireWaitlistOffers);
+    await waitlistQueue.add(expireWaitlistOffersJob.name, {}, expireWaitlistOffersJob.options);
+
     // Set up event handlers for queue events (completed, failed, etc.)
     // Log successful queue initialization
     logger.info('All queues initialized successfully');
@@ -119,10 +153,14 @@ async function shutdownQueues(): Promise<void> {
   try {
     // Close each queue with a graceful shutdown
     await analyticsQueue.close();
+    await calendarQueue.close();
     await carePlanQueue.close();
     await documentQueue.close();
     await emailQueue.close();
     await notificationQueue.close();
+    await priorAuthorizationQueue.close();
+    await reminderQueue.close();
+    await waitlistQueue.close();
 
     // Wait for all queues to complete processing current jobs
     // Log successful queue shutdown
@@ -137,10 +175,14 @@ async function shutdownQueues(): Promise<void> {
 // Export queue instances for use throughout the application
 export {
   analyticsQueue,
+  calendarQueue,
   carePlanQueue,
   documentQueue,
   emailQueue,
   notificationQueue,
+  priorAuthorizationQueue,
+  reminderQueue,
+  waitlistQueue,
   initializeQueues,
   shutdownQueues,
   createQueue
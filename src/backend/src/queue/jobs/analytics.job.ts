@@ -177,4 +177,30 @@ export const updateDashboardsJob = {
       throw error; // Re-throw to trigger Bull's retry mechanism
     }
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Repeating job configuration for dispatching scheduled reports.
+ * Every run queues a delivery job for each report schedule that has come due.
+ */
+export const dispatchScheduledReportsJob = {
+  name: 'analytics:dispatch-scheduled-reports',
+  options: {
+    ...DEFAULT_JOB_OPTIONS,
+    attempts: 1,
+    repeat: { cron: '*/15 * * * *' }
+  }
+};
+
+/**
+ * Job configuration for delivering a scheduled report.
+ * This job generates the report for the schedule's latest reporting range and emails it
+ * to the schedule's recipients.
+ */
+export const deliverScheduledReportJob = {
+  name: 'analytics:deliver-scheduled-report',
+  options: {
+    ...DEFAULT_JOB_OPTIONS,
+    removeOnFail: false
+  }
+};
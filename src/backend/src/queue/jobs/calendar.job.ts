@@ -0,0 +1,21 @@
+/**
+ * calendar.job.ts
+ * 
+ * Defines the job configurations for calendar sync background processing tasks in the
+ * Revolucare platform.
+ */
+
+/**
+ * Repeating job configuration for reconciling connected calendars.
+ * Every run compares each provider's external calendar with their Revolucare bookings and
+ * blocked slots, repairs and reports any drift, and renews expiring change notification
+ * subscriptions.
+ */
+export const reconcileCalendarsJob = {
+  name: 'calendar:reconcile',
+  options: {
+    attempts: 1,
+    removeOnComplete: true,
+    repeat: { cron: '0 * * * *' }
+  }
+};
@@ -0,0 +1,20 @@
+/**
+ * prior-authorization.job.ts
+ * 
+ * Defines the job configurations for prior authorization background processing tasks in
+ * the Revolucare platform.
+ */
+
+/**
+ * Repeating job configuration for prior authorization alerts.
+ * Every morning case managers are alerted to authorizations that run low on units or
+ * end soon, once for each condition.
+ */
+export const sendPriorAuthorizationAlertsJob = {
+  name: 'prior-authorization:send-alerts',
+  options: {
+    attempts: 1,
+    removeOnComplete: true,
+    repeat: { cron: '0 8 * * *' }
+  }
+};
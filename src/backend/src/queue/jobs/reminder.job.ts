@@ -0,0 +1,24 @@
+/**
+ * reminder.job.ts
+ * 
+ * Defines the job configurations for appointment reminder background processing tasks
+ * in the Revolucare platform.
+ */
+
+/**
+ * Delayed job configuration for sending one appointment reminder.
+ * Each booking has one job per reminder rule, delayed until the reminder is due; failed
+ * deliveries are retried and kept for inspection.
+ */
+export const sendReminderJob = {
+  name: 'reminder:send',
+  options: {
+    attempts: 3,
+    backoff: {
+      type: 'exponential' as const,
+      delay: 60000
+    },
+    removeOnComplete: true,
+    removeOnFail: false
+  }
+};
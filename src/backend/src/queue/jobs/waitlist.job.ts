@@ -0,0 +1,20 @@
+/**
+ * waitlist.job.ts
+ * 
+ * Defines the job configurations for waitlist background processing tasks in the
+ * Revolucare platform.
+ */
+
+/**
+ * Repeating job configuration for expiring waitlist offers.
+ * Every run expires offers whose hold has lapsed and offers their slots to the next
+ * waitlisted clients.
+ */
+export const expireWaitlistOffersJob = {
+  name: 'waitlist:expire-offers',
+  options: {
+    attempts: 1,
+    removeOnComplete: true,
+    repeat: { cron: '*/5 * * * *' }
+  }
+};
@@ -1,6 +1,7 @@
 import { Job } from 'bull'; // bull@^4.10.0
 import { AnalyticsRepository } from '../../repositories/analytics.repository';
-import { AnalyticsEventDTO, Metric, Dashboard } from '../../types/analytics.types';
+import { AnalyticsEventDTO, Metric, Dashboard, ScheduledReportJobData } from '../../types/analytics.types';
+import { createReportScheduleService } from '../../services/report-schedule.service';
 import { analyticsCache } from '../../cache/analytics.cache';
 import { METRIC_CATEGORIES, TIME_PERIODS } from '../../constants/metrics';
 import { logger } from '../../utils/logger';
@@ -107,10 +108,10 @@ export async function calculateMetrics(job: Job): Promise<void> {
         metricNames = ['active_users', 'new_registrations', 'session_duration', 'retention_rate'];
         break;
       case 'care_plan':
-        metricNames = ['plans_created', 'completion_rate', 'goal_achievement', 'time_to_create'];
+        metricNames = ['plans_created', 'completion_rate', 'goal_achievement', 'intervention_effectiveness', 'time_to_create'];
         break;
       case 'provider':
-        metricNames = ['provider_count', 'availability_rate', 'booking_rate', 'rating_avg'];
+        metricNames = ['provider_count', 'availability_rate', 'booking_rate', 'rating_avg', 'no_show_rate', 'late_cancellation_rate'];
         break;
       case 'service':
         metricNames = ['services_delivered', 'service_utilization', 'service_satisfaction'];
@@ -125,12 +126,27 @@ export async function calculateMetrics(job: Job): Promise<void> {
         metricNames = [];
     }
     
+    // Outcome metrics are calculated from recorded goal progress and intervention sessions
+    const outcomeData: Record<string, any[]> = {};
+    if (category === 'care_plan') {
+      const outcomeFilters = { ...(filters || {}), startDate: start, endDate: end };
+      outcomeData.goal_achievement = await repository.getCarePlanOutcomeData(outcomeFilters);
+      outcomeData.intervention_effectiveness = await repository.getInterventionEffectivenessData(outcomeFilters);
+    }
+    
+    // Attendance metrics are calculated from booking outcomes and recorded late cancellations
+    if (category === 'provider') {
+      const performanceData = await repository.getProviderPerformanceData({ ...(filters || {}), startDate: start, endDate: end });
+      outcomeData.no_show_rate = performanceData;
+      outcomeData.late_cancellation_rate = performanceData;
+    }
+    
     // Process and save each metric
     const processedMetrics: Metric[] = [];
     
     for (const metricName of metricNames) {
       // Calculate the current value
-      const currentValue = calculateMetricValue(metricName, rawData.metrics, category);
+      const currentValue = calculateMetricValue(metricName, outcomeData[metricName] || rawData.metrics, category);
       
       // Find the existing metric to get previous value
       const existingMetric = rawData.metrics.find(m => m.name === metricName);
@@ -377,6 +393,53 @@ export async function updateDashboards(job: Job): Promise<void> {
   }
 }
 
+/**
+ * Queues delivery jobs for the report schedules that have come due
+ * @param job The repeating Bull job that triggers the dispatch
+ * @returns Promise that resolves when due deliveries are queued
+ */
+export async function dispatchScheduledReports(job: Job): Promise<void> {
+  try {
+    const queued = await createReportScheduleService(job.queue).enqueueDueSchedules();
+    
+    logger.debug('Dispatched scheduled reports', { queued, jobId: job.id });
+  } catch (error) {
+    logger.error('Error dispatching scheduled reports', { 
+      error: error instanceof Error ? error.message : String(error),
+      jobId: job.id
+    });
+    throw error;
+  }
+}
+
+/**
+ * Generates a scheduled report and emails it to the schedule's recipients
+ * @param job The Bull job containing the schedule ID and delivery slot
+ * @returns Promise that resolves when the report is delivered
+ */
+export async function deliverScheduledReport(job: Job<ScheduledReportJobData>): Promise<void> {
+  try {
+    const { scheduleId, runAt } = job.data;
+    
+    if (!scheduleId || !runAt) {
+      throw new Error('Missing required parameters: scheduleId and runAt are required');
+    }
+    
+    // Bull counts attemptsMade after the processor returns, so this run is the last when
+    // it is the final one allowed
+    const finalAttempt = job.attemptsMade + 1 >= (job.opts.attempts ?? 1);
+
+    await createReportScheduleService().deliverScheduledReport(scheduleId, new Date(runAt), finalAttempt);
+  } catch (error) {
+    logger.error('Error delivering scheduled report', { 
+      error: error instanceof Error ? error.message : String(error),
+      jobId: job.id,
+      data: job.data
+    });
+    throw error;
+  }
+}
+
 /**
  * Calculates a specific metric value based on raw data
  * @param metricName The name of the metric to calculate
@@ -422,6 +485,11 @@ function calculateMetricValue(
       if (rawData.length === 0) return 0;
       const achieved = rawData.filter(item => item.isAchieved).length;
       return (achieved / rawData.length) * 100;
+    case 'intervention_effectiveness':
+      const effectiveness = rawData.map(item => item.effectiveness).filter(e => e > 0);
+      return effectiveness.length > 0 
+        ? effectiveness.reduce((sum, value) => sum + value, 0) / effectiveness.length 
+        : 0;
     case 'time_to_create':
       const times = rawData.map(item => item.timeToCreate).filter(t => t > 0);
       return times.length > 0 
@@ -445,6 +513,18 @@ function calculateMetricValue(
       return ratings.length > 0 
         ? ratings.reduce((sum, rating) => sum + rating, 0) / ratings.length 
         : 0;
+    case 'no_show_rate':
+    case 'late_cancellation_rate': {
+      const concluded = rawData.reduce(
+        (sum, item) => sum + (item.completedCount || 0) + (item.noShowCount || 0) + (item.lateCancellationCount || 0),
+        0
+      );
+      const missed = rawData.reduce(
+        (sum, item) => sum + ((metricName === 'no_show_rate' ? item.noShowCount : item.lateCancellationCount) || 0),
+        0
+      );
+      return concluded > 0 ? (missed / concluded) * 100 : 0;
+    }
       
     // Service metrics  
     case 'services_delivered':
@@ -0,0 +1,26 @@
+import { Job } from 'bull'; // bull@^4.10.0
+import { createCalendarSyncService } from '../../services/calendar/calendar-sync.service';
+import { logger } from '../../utils/logger';
+
+/**
+ * Reconciles every connected calendar with Revolucare and reports any drift found
+ * @param job The repeating Bull job that triggers the reconciliation
+ * @returns Promise that resolves when all connections are reconciled
+ */
+export async function reconcileCalendars(job: Job): Promise<void> {
+  try {
+    const reports = await createCalendarSyncService().reconcileAll();
+
+    logger.debug('Reconciled connected calendars', {
+      connections: reports.length,
+      drift: reports.reduce((total, report) => total + report.items.length, 0),
+      jobId: job.id
+    });
+  } catch (error) {
+    logger.error('Error reconciling connected calendars', {
+      error: error instanceof Error ? error.message : String(error),
+      jobId: job.id
+    });
+    throw error;
+  }
+}
@@ -0,0 +1,22 @@
+import { Job } from 'bull'; // bull@^4.10.0
+import { createPriorAuthorizationService } from '../../services/prior-authorization.service';
+import { logger } from '../../utils/logger';
+
+/**
+ * Alerts case managers to prior authorizations that run low on units or end soon
+ * @param job The repeating Bull job that triggers the alerts
+ * @returns Promise that resolves when the alerts are sent
+ */
+export async function sendPriorAuthorizationAlerts(job: Job): Promise<void> {
+  try {
+    const alerted = await createPriorAuthorizationService().sendAlerts();
+
+    logger.debug('Sent prior authorization alerts', { alerted, jobId: job.id });
+  } catch (error) {
+    logger.error('Error sending prior authorization alerts', {
+      error: error instanceof Error ? error.message : String(error),
+      jobId: job.id
+    });
+    throw error;
+  }
+}
@@ -0,0 +1,24 @@
+import { Job } from 'bull'; // bull@^4.10.0
+import { createReminderService } from '../../services/reminder.service';
+import { ReminderJobData } from '../../types/reminder.types';
+import { logger } from '../../utils/logger';
+
+/**
+ * Sends an appointment reminder that has come due
+ * @param job The Bull job containing the booking ID and reminder rule
+ * @returns Promise that resolves when the reminder is sent or skipped
+ */
+export async function sendReminder(job: Job<ReminderJobData>): Promise<void> {
+  try {
+    const sent = await createReminderService().sendReminder(job.data);
+
+    logger.debug('Processed appointment reminder', { sent, jobId: job.id });
+  } catch (error) {
+    logger.error('Error sending appointment reminder', {
+      error: error instanceof Error ? error.message : String(error),
+      jobId: job.id,
+      data: job.data
+    });
+    throw error;
+  }
+}
@@ -0,0 +1,22 @@
+import { Job } from 'bull'; // bull@^4.10.0
+import { createWaitlistService } from '../../services/waitlist.service';
+import { logger } from '../../utils/logger';
+
+/**
+ * Expires waitlist offers whose hold has lapsed and offers their slots to the next clients
+ * @param job The repeating Bull job that triggers the expiry
+ * @returns Promise that resolves when lapsed offers are expired
+ */
+export async function expireWaitlistOffers(job: Job): Promise<void> {
+  try {
+    const expired = await createWaitlistService().expireOffers();
+
+    logger.debug('Expired waitlist offers', { expired, jobId: job.id });
+  } catch (error) {
+    logger.error('Error expiring waitlist offers', {
+      error: error instanceof Error ? error.message : String(error),
+      jobId: job.id
+    });
+    throw error;
+  }
+}
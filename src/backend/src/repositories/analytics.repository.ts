@@ -9,8 +9,14 @@ import {
   MetricsResponse, 
   Dashboard, 
   Metric, 
-  AnalyticsEventDTO 
+  AnalyticsEventDTO,
+  CarePlanOutcomeData,
+  InterventionEffectivenessData,
+  ProviderPerformanceData
 } from '../types/analytics.types';
+import { GoalStatus } from '../types/care-plan.types';
+import { BookingStatus } from '../models/booking.model';
+import { PolicyViolationType } from '../types/booking-policy.types';
 import { prisma, executeWithTransaction } from '../config/database';
 import { logger } from '../utils/logger';
 import { METRIC_CATEGORIES, TIME_PERIODS } from '../constants/metrics';
@@ -414,6 +420,128 @@ export class AnalyticsRepository implements IAnalyticsRepository {
     }
   }
   
+  /**
+   * Retrieves the outcomes of care plan goals. Goals are included when they were updated
+   * or had progress recorded in the date range; discontinued goals are excluded because
+   * they can no longer be achieved.
+   * @param filters Filters including startDate, endDate, clientId and carePlanId
+   * @returns Promise resolving to one outcome per goal
+   */
+  async getCarePlanOutcomeData(filters: Record<string, any> = {}): Promise<CarePlanOutcomeData[]> {
+    try {
+      logger.info('Retrieving care plan outcome data', { filters });
+      
+      const dateRange = this.buildDateRange(filters.startDate, filters.endDate);
+      
+      const goals = await prisma.carePlanGoal.findMany({
+        where: {
+          status: { not: GoalStatus.DISCONTINUED },
+          ...this.buildCarePlanFilters(filters),
+          ...(dateRange
+            ? { OR: [{ updatedAt: dateRange }, { progressEntries: { some: { recordedAt: dateRange } } }] }
+            : {})
+        },
+        include: {
+          carePlan: { select: { clientId: true } },
+          progressEntries: {
+            where: dateRange ? { recordedAt: dateRange } : undefined,
+            orderBy: { recordedAt: 'asc' }
+          }
+        }
+      });
+      
+      return goals.map((goal: any) => {
+        const entries: { value: number }[] = goal.progressEntries || [];
+        const first = entries[0];
+        const latest = entries[entries.length - 1];
+        
+        return {
+          goalId: goal.id,
+          carePlanId: goal.carePlanId,
+          clientId: goal.carePlan?.clientId,
+          status: goal.status,
+          isAchieved: goal.status === GoalStatus.ACHIEVED,
+          progressEntryCount: entries.length,
+          firstValue: first ? first.value : null,
+          latestValue: latest ? latest.value : null,
+          change: entries.length > 1 ? latest.value - first.value : null
+        };
+      });
+    } catch (error) {
+      logger.error('Error retrieving care plan outcome data', { 
+        error: error instanceof Error ? error.message : String(error),
+        filters
+      });
+      throw error;
+    }
+  }
+  
+  /**
+   * Retrieves the effectiveness of care plan interventions that had sessions logged in
+   * the date range
+   * @param filters Filters including startDate, endDate, clientId and carePlanId
+   * @returns Promise resolving to one effectiveness summary per intervention
+   */
+  async getInterventionEffectivenessData(filters: Record<string, any> = {}): Promise<InterventionEffectivenessData[]> {
+    try {
+      logger.info('Retrieving intervention effectiveness data', { filters });
+      
+      const dateRange = this.buildDateRange(filters.startDate, filters.endDate);
+      
+      const sessions = await prisma.interventionSession.findMany({
+        where: {
+          ...this.buildCarePlanFilters(filters),
+          ...(dateRange ? { sessionDate: dateRange } : {})
+        },
+        select: {
+          interventionId: true,
+          carePlanId: true,
+          attended: true,
+          effectivenessRating: true
+        }
+      });
+      
+      // Group sessions by intervention
+      const byIntervention = new Map<string, InterventionEffectivenessData & { ratings: number[] }>();
+      
+      for (const session of sessions) {
+        let summary = byIntervention.get(session.interventionId);
+        if (!summary) {
+          summary = {
+            interventionId: session.interventionId,
+            carePlanId: session.carePlanId,
+            sessionCount: 0,
+            attendedCount: 0,
+            effectiveness: null,
+            ratings: []
+          };
+          byIntervention.set(session.interventionId, summary);
+        }
+        
+        summary.sessionCount++;
+        if (session.attended) {
+          summary.attendedCount++;
+        }
+        if (session.effectivenessRating !== null && session.effectivenessRating !== undefined) {
+          summary.ratings.push(session.effectivenessRating);
+        }
+      }
+      
+      return [...byIntervention.values()].map(({ ratings, ...summary }) => ({
+        ...summary,
+        effectiveness: ratings.length > 0 
+          ? ratings.reduce((sum, rating) => sum + rating, 0) / ratings.length 
+          : null
+      }));
+    } catch (error) {
+      logger.error('Error retrieving intervention effectiveness data', { 
+        error: error instanceof Error ? error.message : String(error),
+        filters
+      });
+      throw error;
+    }
+  }
+  
   /**
    * Builds a database query for retrieving metric data
    * @param category The metric category
@@ -500,4 +628,111 @@ export class AnalyticsRepository implements IAnalyticsRepository {
       changePercentage: Math.round(changePercentage * 100) / 100 // Round to 2 decimal places
     };
   }
-}
\ No newline at end of file
+  
+  /**
+   * Retrieves attendance at providers' appointments that started in the date range.
+   * Late cancellations are those recorded under the providers' booking policies.
+   * @param filters Filters including startDate, endDate and providerId
+   * @returns Promise resolving to one attendance summary per provider
+   */
+  async getProviderPerformanceData(filters: Record<string, any> = {}): Promise<ProviderPerformanceData[]> {
+    try {
+      logger.info('Retrieving provider performance data', { filters });
+      
+      const dateRange = this.buildDateRange(filters.startDate, filters.endDate);
+      const providerFilter = filters.providerId ? { providerId: filters.providerId } : {};
+      
+      const [bookingCounts, lateCancellationCounts] = await Promise.all([
+        prisma.booking.groupBy({
+          by: ['providerId', 'status'],
+          where: {
+            ...providerFilter,
+            status: { in: [BookingStatus.COMPLETED, BookingStatus.NO_SHOW] },
+            ...(dateRange ? { startTime: dateRange } : {})
+          },
+          _count: { _all: true }
+        }),
+        prisma.policyViolation.groupBy({
+          by: ['providerId'],
+          where: {
+            ...providerFilter,
+            type: PolicyViolationType.LATE_CANCELLATION,
+            ...(dateRange ? { occurredAt: dateRange } : {})
+          },
+          _count: { _all: true }
+        })
+      ]);
+      
+      // Group counts by provider
+      type AttendanceCounts = Omit<ProviderPerformanceData, 'providerId' | 'noShowRate' | 'lateCancellationRate'>;
+      const byProvider = new Map<string, AttendanceCounts>();
+      const getCounts = (providerId: string): AttendanceCounts => {
+        let counts = byProvider.get(providerId);
+        if (!counts) {
+          counts = { completedCount: 0, noShowCount: 0, lateCancellationCount: 0 };
+          byProvider.set(providerId, counts);
+        }
+        return counts;
+      };
+      
+      for (const row of bookingCounts) {
+        const counts = getCounts(row.providerId);
+        if (row.status === BookingStatus.COMPLETED) {
+          counts.completedCount += row._count._all;
+        } else {
+          counts.noShowCount += row._count._all;
+        }
+      }
+      
+      for (const row of lateCancellationCounts) {
+        getCounts(row.providerId).lateCancellationCount += row._count._all;
+      }
+      
+      return [...byProvider.entries()].map(([providerId, counts]) => {
+        const concludedCount = counts.completedCount + counts.noShowCount + counts.lateCancellationCount;
+        
+        return {
+          providerId,
+          ...counts,
+          noShowRate: concludedCount > 0 ? (counts.noShowCount / concludedCount) * 100 : 0,
+          lateCancellationRate: concludedCount > 0 ? (counts.lateCancellationCount / concludedCount) * 100 : 0
+        };
+      });
+    } catch (error) {
+      logger.error('Error retrieving provider performance data', { 
+        error: error instanceof Error ? error.message : String(error),
+        filters
+      });
+      throw error;
+    }
+  }
+  
+  /**
+   * Builds a date range condition for outcome queries
+   * @param startDate The start date (optional)
+   * @param endDate The end date (optional)
+   * @returns Date condition for Prisma, or undefined if no range was given
+   */
+  private buildDateRange(startDate?: Date | string, endDate?: Date | string): Record<string, Date> | undefined {
+    if (!startDate && !endDate) {
+      return undefined;
+    }
+    
+    return {
+      ...(startDate ? { gte: new Date(startDate) } : {}),
+      ...(endDate ? { lte: new Date(endDate) } : {})
+    };
+  }
+  
+  /**
+   * Builds client and care plan conditions for outcome queries
+   * @param filters Filters including clientId and carePlanId
+   * @returns Conditions for Prisma
+   */
+  private buildCarePlanFilters(filters: Record<string, any>): Record<string, any> {
+    return {
+      ...(filters.carePlanId ? { carePlanId: filters.carePlanId } : {}),
+      ...(filters.clientId ? { carePlan: { clientId: filters.clientId } } : {})
+    };
+  }
+}
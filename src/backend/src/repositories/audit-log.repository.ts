@@ -0,0 +1,202 @@
+import { v4 as uuidv4 } from 'uuid'; // uuid@^9.0.0
+import { prisma } from '../config/database';
+import {
+  AuditLog,
+  CreateAuditLogDTO,
+  AuditLogFilterParams,
+  AuditLogListResponse
+} from '../models/audit-log.model';
+import { ErrorCodes } from '../constants/error-codes';
+import { errorFactory } from '../utils/error-handler';
+import { logger } from '../utils/logger';
+
+/**
+ * Builds a Prisma where clause from audit log filter parameters
+ * @param filterParams - AuditLogFilterParams
+ * @returns Where clause for audit log queries
+ */
+function buildWhereClause(filterParams: AuditLogFilterParams): Record<string, any> {
+  const whereClause: Record<string, any> = {};
+
+  if (filterParams.actorId) {
+    whereClause.actorId = filterParams.actorId;
+  }
+  if (filterParams.action) {
+    whereClause.action = filterParams.action;
+  }
+  if (filterParams.resourceType) {
+    whereClause.resourceType = filterParams.resourceType;
+  }
+  if (filterParams.resourceId) {
+    whereClause.resourceId = filterParams.resourceId;
+  }
+  if (filterParams.subjectId) {
+    whereClause.subjectId = filterParams.subjectId;
+  }
+  if (filterParams.requestId) {
+    whereClause.requestId = filterParams.requestId;
+  }
+  if (filterParams.startDate || filterParams.endDate) {
+    whereClause.createdAt = {
+      ...(filterParams.startDate ? { gte: filterParams.startDate } : {}),
+      ...(filterParams.endDate ? { lte: filterParams.endDate } : {})
+    };
+  }
+
+  return whereClause;
+}
+
+/**
+ * Repository for the append-only audit trail.
+ * Deliberately exposes no update or delete operations so recorded entries cannot be altered.
+ */
+export class AuditLogRepository {
+  /**
+   * Appends a new entry to the audit trail
+   * @param auditLogData - The entry to record
+   * @returns The recorded audit log entry
+   */
+  async create(auditLogData: CreateAuditLogDTO): Promise<AuditLog> {
+    try {
+      const auditLog = await prisma.auditLog.create({
+        data: {
+          id: uuidv4(),
+          actorId: auditLogData.actorId,
+          actorRole: auditLogData.actorRole,
+          action: auditLogData.action,
+          resourceType: auditLogData.resourceType,
+          resourceId: auditLogData.resourceId,
+          subjectId: auditLogData.subjectId || null,
+          changes: auditLogData.changes || [],
+          ipAddress: auditLogData.ipAddress || null,
+          userAgent: auditLogData.userAgent || null,
+          requestId: auditLogData.requestId || null,
+          metadata: auditLogData.metadata || {},
+          createdAt: new Date()
+        }
+      });
+
+      return auditLog as AuditLog;
+    } catch (error) {
+      logger.error('Failed to record audit log entry', {
+        error: error instanceof Error ? error.message : String(error),
+        action: auditLogData.action,
+        resourceType: auditLogData.resourceType,
+        resourceId: auditLogData.resourceId
+      });
+      throw errorFactory.createError(
+        'Failed to record audit log entry',
+        ErrorCodes.DATABASE_ERROR,
+        { error: error instanceof Error ? error.message : 'Unknown error' },
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /**
+   * Finds an audit log entry by its ID
+   * @param id - The ID of the entry
+   * @returns The audit log entry if found, null otherwise
+   */
+  async findById(id: string): Promise<AuditLog | null> {
+    try {
+      const auditLog = await prisma.auditLog.findUnique({
+        where: { id }
+      });
+
+      return auditLog ? (auditLog as AuditLog) : null;
+    } catch (error) {
+      throw errorFactory.createError(
+        'Failed to find audit log entry',
+        ErrorCodes.DATABASE_ERROR,
+        { error: error instanceof Error ? error.message : 'Unknown error', id },
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /**
+   * Finds audit log entries with filtering and pagination
+   * @param filterParams - Filter and pagination parameters
+   * @returns Paginated list of audit log entries
+   */
+  async findAll(filterParams: AuditLogFilterParams): Promise<AuditLogListResponse> {
+    try {
+      const whereClause = buildWhereClause(filterParams);
+
+      // Apply pagination parameters (page, limit)
+      const page = filterParams.page || 1;
+      const limit = filterParams.limit || 50;
+      const skip = (page - 1) * limit;
+
+      // Execute query to get entries and total count
+      const [auditLogs, total] = await prisma.$transaction([
+        prisma.auditLog.findMany({
+          where: whereClause,
+          skip,
+          take: limit,
+          orderBy: { createdAt: filterParams.sortOrder || 'desc' }
+        }),
+        prisma.auditLog.count({ where: whereClause })
+      ]);
+
+      return {
+        auditLogs: auditLogs as AuditLog[],
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit)
+      };
+    } catch (error) {
+      throw errorFactory.createError(
+        'Failed to find audit log entries',
+        ErrorCodes.DATABASE_ERROR,
+        { error: error instanceof Error ? error.message : 'Unknown error' },
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /**
+   * Finds audit log entries for export, oldest first
+   * @param filterParams - Filter parameters (pagination is ignored)
+   * @param maxRows - Maximum number of entries to return
+   * @returns Matching audit log entries
+   */
+  async findForExport(filterParams: AuditLogFilterParams, maxRows: number): Promise<AuditLog[]> {
+    try {
+      const auditLogs = await prisma.auditLog.findMany({
+        where: buildWhereClause(filterParams),
+        take: maxRows,
+        orderBy: { createdAt: 'asc' }
+      });
+
+      return auditLogs as AuditLog[];
+    } catch (error) {
+      throw errorFactory.createError(
+        'Failed to export audit log entries',
+        ErrorCodes.DATABASE_ERROR,
+        { error: error instanceof Error ? error.message : 'Unknown error' },
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /**
+   * Counts audit log entries matching the filter parameters
+   * @param filterParams - Filter parameters
+   * @returns Number of matching entries
+   */
+  async count(filterParams: AuditLogFilterParams): Promise<number> {
+    try {
+      return await prisma.auditLog.count({ where: buildWhereClause(filterParams) });
+    } catch (error) {
+      throw errorFactory.createError(
+        'Failed to count audit log entries',
+        ErrorCodes.DATABASE_ERROR,
+        { error: error instanceof Error ? error.message : 'Unknown error' },
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+}
@@ -0,0 +1,269 @@
+import { v4 as uuidv4 } from 'uuid'; // uuid@^9.0.0
+import { prisma, executeWithTransaction } from '../config/database';
+import {
+  BookingPolicy,
+  BookingPolicySettings,
+  PolicyViolation,
+  PolicyViolationFilters,
+  PolicyViolationStatus,
+  PolicyViolationType,
+  ProviderAttendance
+} from '../types/booking-policy.types';
+import { BookingStatus } from '../models/booking.model';
+import { errorFactory } from '../utils/error-handler';
+import { logger } from '../utils/logger';
+
+/**
+ * Policy violation fields set when a late cancellation or no-show is recorded
+ */
+export type NewPolicyViolation = Omit<
+  PolicyViolation,
+  'id' | 'status' | 'paymentIntentId' | 'reviewRequestedAt' | 'waivedById' | 'waiverReason' | 'waivedAt' | 'createdAt' | 'updatedAt'
+>;
+
+/**
+ * Repository for providers' booking policies and the violations recorded against clients
+ */
+export class BookingPolicyRepository {
+  /**
+   * Retrieves the booking policy a provider has set
+   * @param providerId - ID of the provider
+   * @returns The policy, or null if the provider uses the default policy
+   */
+  async findPolicy(providerId: string): Promise<BookingPolicy | null> {
+    try {
+      const policy = await prisma.bookingPolicy.findUnique({ where: { providerId } });
+
+      return policy as BookingPolicy | null;
+    } catch (error) {
+      logger.error('Failed to retrieve booking policy', { providerId, error });
+      throw errorFactory.createInternalServerError('Failed to retrieve booking policy', { providerId }, error as Error);
+    }
+  }
+
+  /**
+   * Creates or replaces a provider's booking policy
+   * @param providerId - ID of the provider
+   * @param settings - The complete policy settings
+   * @param updatedById - ID of the user changing the policy
+   * @returns The stored policy
+   */
+  async upsertPolicy(providerId: string, settings: BookingPolicySettings, updatedById: string): Promise<BookingPolicy> {
+    try {
+      const data = { ...settings, updatedById, updatedAt: new Date() };
+      const policy = await prisma.bookingPolicy.upsert({
+        where: { providerId },
+        create: { providerId, ...data },
+        update: data
+      });
+
+      return policy as BookingPolicy;
+    } catch (error) {
+      logger.error('Failed to save booking policy', { providerId, error });
+      throw errorFactory.createInternalServerError('Failed to save booking policy', { providerId }, error as Error);
+    }
+  }
+
+  /**
+   * Records a policy violation
+   * @param data - The violation to record
+   * @returns The recorded violation
+   */
+  async createViolation(data: NewPolicyViolation): Promise<PolicyViolation> {
+    try {
+      const violation = await prisma.policyViolation.create({
+        data: {
+          ...data,
+          id: uuidv4(),
+          status: PolicyViolationStatus.ACTIVE,
+          paymentIntentId: null,
+          reviewRequestedAt: null,
+          waivedById: null,
+          waiverReason: null,
+          waivedAt: null
+        }
+      });
+
+      return violation as PolicyViolation;
+    } catch (error) {
+      logger.error('Failed to record policy violation', { bookingId: data.bookingId, type: data.type, error });
+      throw errorFactory.createInternalServerError('Failed to record policy violation', { bookingId: data.bookingId, type: data.type }, error as Error);
+    }
+  }
+
+  /**
+   * Retrieves a policy violation by its ID
+   * @param id - ID of the violation
+   * @returns The violation, or null if it does not exist
+   */
+  async findViolationById(id: string): Promise<PolicyViolation | null> {
+    try {
+      const violation = await prisma.policyViolation.findUnique({ where: { id } });
+
+      return violation as PolicyViolation | null;
+    } catch (error) {
+      logger.error('Failed to retrieve policy violation', { violationId: id, error });
+      throw errorFactory.createInternalServerError('Failed to retrieve policy violation', { violationId: id }, error as Error);
+    }
+  }
+
+  /**
+   * Retrieves the violation of a kind already recorded for a booking
+   * @param bookingId - ID of the booking
+   * @param type - Kind of violation
+   * @returns The violation, or null if none was recorded
+   */
+  async findViolationByBooking(bookingId: string, type: PolicyViolationType): Promise<PolicyViolation | null> {
+    try {
+      const violation = await prisma.policyViolation.findFirst({ where: { bookingId, type } });
+
+      return violation as PolicyViolation | null;
+    } catch (error) {
+      logger.error('Failed to retrieve policy violation', { bookingId, type, error });
+      throw errorFactory.createInternalServerError('Failed to retrieve policy violation', { bookingId, type }, error as Error);
+    }
+  }
+
+  /**
+   * Lists policy violations, most recent first
+   * @param filters - Filters for the violations
+   * @returns The matching violations
+   */
+  async findViolations(filters: PolicyViolationFilters): Promise<PolicyViolation[]> {
+    try {
+      const violations = await prisma.policyViolation.findMany({
+        where: {
+          ...(filters.clientId ? { clientId: filters.clientId } : {}),
+          ...(!filters.clientId && filters.clientIds ? { clientId: { in: filters.clientIds } } : {}),
+          ...(filters.providerId ? { providerId: filters.providerId } : {}),
+          ...(filters.type ? { type: filters.type } : {}),
+          ...(filters.status ? { status: filters.status } : {})
+        },
+        orderBy: { occurredAt: 'desc' }
+      });
+
+      return violations as PolicyViolation[];
+    } catch (error) {
+      logger.error('Failed to list policy violations', { filters, error });
+      throw errorFactory.createInternalServerError('Failed to list policy violations', { filters }, error as Error);
+    }
+  }
+
+  /**
+   * Counts a client's active violations with a provider since a point in time
+   * @param clientId - ID of the client
+   * @param providerId - ID of the provider
+   * @param since - Earliest violation time to count
+   * @returns Number of active violations
+   */
+  async countActiveViolations(clientId: string, providerId: string, since: Date): Promise<number> {
+    try {
+      return await prisma.policyViolation.count({
+        where: { clientId, providerId, status: PolicyViolationStatus.ACTIVE, occurredAt: { gte: since } }
+      });
+    } catch (error) {
+      logger.error('Failed to count policy violations', { clientId, providerId, error });
+      throw errorFactory.createInternalServerError('Failed to count policy violations', { clientId, providerId }, error as Error);
+    }
+  }
+
+  /**
+   * Links the payment intent created for a violation's fee
+   * @param id - ID of the violation
+   * @param paymentIntentId - ID of the payment intent
+   * @returns The updated violation
+   */
+  async setPaymentIntent(id: string, paymentIntentId: string): Promise<PolicyViolation> {
+    try {
+      const violation = await prisma.policyViolation.update({
+        where: { id },
+        data: { paymentIntentId }
+      });
+
+      return violation as PolicyViolation;
+    } catch (error) {
+      logger.error('Failed to link policy violation fee', { violationId: id, paymentIntentId, error });
+      throw errorFactory.createInternalServerError('Failed to link policy violation fee', { violationId: id, paymentIntentId }, error as Error);
+    }
+  }
+
+  /**
+   * Records that a violation took the client to the strike threshold and was sent for review
+   * @param id - ID of the violation
+   * @param requestedAt - When the review was requested
+   * @returns The updated violation
+   */
+  async markReviewRequested(id: string, requestedAt: Date): Promise<PolicyViolation> {
+    try {
+      const violation = await prisma.policyViolation.update({
+        where: { id },
+        data: { reviewRequestedAt: requestedAt }
+      });
+
+      return violation as PolicyViolation;
+    } catch (error) {
+      logger.error('Failed to record policy violation review', { violationId: id, error });
+      throw errorFactory.createInternalServerError('Failed to record policy violation review', { violationId: id }, error as Error);
+    }
+  }
+
+  /**
+   * Waives an active violation
+   * @param id - ID of the violation
+   * @param waivedById - ID of the user granting the exception
+   * @param waiverReason - Why the exception was granted
+   * @param waivedAt - When the exception was granted
+   * @returns The waived violation, or null if it was no longer active
+   */
+  async waive(id: string, waivedById: string, waiverReason: string, waivedAt: Date): Promise<PolicyViolation | null> {
+    try {
+      return await executeWithTransaction(async (tx) => {
+        const violation = await tx.policyViolation.findFirst({
+          where: { id, status: PolicyViolationStatus.ACTIVE }
+        });
+
+        if (!violation) {
+          return null;
+        }
+
+        const waived = await tx.policyViolation.update({
+          where: { id },
+          data: { status: PolicyViolationStatus.WAIVED, waivedById, waiverReason, waivedAt }
+        });
+
+        return waived as PolicyViolation;
+      });
+    } catch (error) {
+      logger.error('Failed to waive policy violation', { violationId: id, error });
+      throw errorFactory.createInternalServerError('Failed to waive policy violation', { violationId: id }, error as Error);
+    }
+  }
+
+  /**
+   * Counts how a provider's appointments since a point in time concluded. Waived violations
+   * are still counted because the appointment was missed either way.
+   * @param providerId - ID of the provider
+   * @param since - Earliest appointment start time to count
+   * @returns The provider's attendance counts
+   */
+  async getProviderAttendance(providerId: string, since: Date): Promise<ProviderAttendance> {
+    try {
+      const [completedCount, noShowCount, lateCancellationCount] = await Promise.all([
+        prisma.booking.count({
+          where: { providerId, status: BookingStatus.COMPLETED, startTime: { gte: since } }
+        }),
+        prisma.booking.count({
+          where: { providerId, status: BookingStatus.NO_SHOW, startTime: { gte: since } }
+        }),
+        prisma.policyViolation.count({
+          where: { providerId, type: PolicyViolationType.LATE_CANCELLATION, occurredAt: { gte: since } }
+        })
+      ]);
+
+      return { providerId, completedCount, noShowCount, lateCancellationCount };
+    } catch (error) {
+      logger.error('Failed to count provider attendance', { providerId, error });
+      throw errorFactory.createInternalServerError('Failed to count provider attendance', { providerId }, error as Error);
+    }
+  }
+}
@@ -0,0 +1,78 @@
+import { v4 as uuidv4 } from 'uuid'; // uuid@^9.0.0
+import { prisma } from '../config/database';
+import { BookingReminder, ReminderResponse } from '../types/reminder.types';
+import { NOTIFICATION_CHANNELS } from '../constants/notification-types';
+import { errorFactory } from '../utils/error-handler';
+import { logger } from '../utils/logger';
+
+/**
+ * Repository for the appointment reminders sent to clients and their replies
+ */
+export class BookingReminderRepository {
+  /**
+   * Records a reminder that was sent
+   * @param reminder - The reminder, without its ID, response or response time
+   * @returns The stored reminder
+   */
+  async create(
+    reminder: Omit<BookingReminder, 'id' | 'response' | 'respondedAt'>
+  ): Promise<BookingReminder> {
+    try {
+      const created = await prisma.bookingReminder.create({
+        data: { id: uuidv4(), ...reminder, response: null, respondedAt: null }
+      });
+
+      return created as BookingReminder;
+    } catch (error) {
+      logger.error('Failed to record booking reminder', { bookingId: reminder.bookingId, error });
+      throw errorFactory.createInternalServerError('Failed to record booking reminder', { bookingId: reminder.bookingId }, error as Error);
+    }
+  }
+
+  /**
+   * Retrieves the SMS reminder most recently sent to a phone number for a booking
+   * that has not started yet, which is the reminder a reply from the number answers
+   * @param phone - The phone number the reply came from
+   * @param now - The current time
+   * @returns The reminder, or null if none is awaiting a reply
+   */
+  async findLatestSmsReminder(phone: string, now: Date): Promise<BookingReminder | null> {
+    try {
+      const reminder = await prisma.bookingReminder.findFirst({
+        where: {
+          channel: NOTIFICATION_CHANNELS.SMS,
+          recipient: phone,
+          appointmentTime: { gt: now }
+        },
+        orderBy: { sentAt: 'desc' }
+      });
+
+      return reminder as BookingReminder | null;
+    } catch (error) {
+      // Phone numbers are personal details, so the number is left out of the error details
+      logger.error('Failed to retrieve SMS reminder', { error });
+      throw errorFactory.createInternalServerError('Failed to retrieve SMS reminder', {}, error as Error);
+    }
+  }
+
+  /**
+   * Records a client's reply to a reminder
+   * @param id - ID of the reminder
+   * @param response - What the client asked for
+   * @param respondedAt - When they replied
+   * @returns The updated reminder
+   */
+  async recordResponse(id: string, response: ReminderResponse, respondedAt: Date): Promise<BookingReminder> {
+    try {
+      const reminder = await prisma.bookingReminder.update({
+        where: { id },
+        data: { response, respondedAt }
+      });
+
+      return reminder as BookingReminder;
+    } catch (error) {
+      logger.error('Failed to record reminder response', { reminderId: id, error });
+      throw errorFactory.createInternalServerError('Failed to record reminder response', { reminderId: id }, error as Error);
+    }
+  }
+}
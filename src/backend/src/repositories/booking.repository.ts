@@ -10,11 +10,14 @@ import {
   BookingResponse,
   BookingListResponse,
   CancellationInfo,
-  RescheduleInfo
+  RescheduleInfo,
+  BookingSeries,
+  BookingSeriesStatus
 } from '../models/booking.model';
 import { TimeSlot, DateRange } from '../types/provider.types';
 import { ProviderAvailabilityRepository } from './provider-availability.repository';
-import { errorFactory } from '../utils/error-handler';
+import { ErrorCodes } from '../constants/error-codes';
+import { errorFactory, isAppError } from '../utils/error-handler';
 import { logger } from '../utils/logger';
 import { isOverlapping, calculateDuration } from '../utils/date-time';
 
@@ -149,6 +152,8 @@ export class BookingRepository {
           cancelledBy: booking.cancelledBy,
           location: booking.location,
           rescheduledToId: booking.rescheduledToId,
+          seriesId: booking.seriesId,
+          confirmedAt: booking.confirmedAt,
           createdAt: booking.createdAt,
           updatedAt: booking.updatedAt
         },
@@ -199,6 +204,8 @@ export class BookingRepository {
       const whereClause: any = {};
       if (filterParams.clientId) {
         whereClause.clientId = filterParams.clientId;
+      } else if (filterParams.clientIds) {
+        whereClause.clientId = { in: filterParams.clientIds };
       }
       if (filterParams.providerId) {
         whereClause.providerId = filterParams.providerId;
@@ -206,6 +213,9 @@ export class BookingRepository {
       if (filterParams.serviceItemId) {
         whereClause.serviceItemId = filterParams.serviceItemId;
       }
+      if (filterParams.seriesId) {
+        whereClause.seriesId = filterParams.seriesId;
+      }
       if (filterParams.status) {
         whereClause.status = filterParams.status;
       }
@@ -318,13 +328,25 @@ export class BookingRepository {
         bookingData.providerId,
         bookingData.startTime,
         bookingData.endTime,
-        'physical_therapy' // TODO: Replace with actual service type from bookingData
+        bookingData.serviceType
       );
 
       if (!isAvailable) {
         throw errorFactory.createValidationError('Provider is not available at the requested time');
       }
 
+      // Resolve the stored time slot that will hold this booking
+      const timeSlot = await this.providerAvailabilityRepository.findOrCreateTimeSlot(
+        bookingData.providerId,
+        bookingData.startTime,
+        bookingData.endTime,
+        bookingData.serviceType
+      );
+
+      if (!timeSlot) {
+        throw errorFactory.createValidationError('Provider has no availability configured', { providerId: bookingData.providerId });
+      }
+
       // Generate a unique ID for the booking
       const bookingId = uuidv4();
 
@@ -342,17 +364,28 @@ export class BookingRepository {
           endTime: bookingData.endTime,
           status: initialStatus,
           notes: bookingData.notes,
-          location: bookingData.location
+          location: bookingData.location,
+          seriesId: bookingData.seriesId ?? null
         }
       });
 
       // Update provider availability to mark the time slot as booked
-      await this.providerAvailabilityRepository.bookTimeSlot(
+      const isBooked = await this.providerAvailabilityRepository.bookTimeSlot(
         bookingData.providerId,
-        bookingId,
-        bookingId // TODO: Replace with actual timeSlotId
+        timeSlot.id,
+        bookingId
       );
 
+      // Roll back the booking if another request claimed the slot first
+      if (!isBooked) {
+        await prisma.booking.delete({ where: { id: bookingId } });
+        throw errorFactory.createError(
+          'The requested time slot is no longer available',
+          ErrorCodes.CONFLICT,
+          { providerId: bookingData.providerId, timeSlotId: timeSlot.id }
+        );
+      }
+
       // Invalidate related cache entries
       await this.invalidateCache(bookingId, bookingData.clientId, bookingData.providerId);
 
@@ -360,6 +393,9 @@ export class BookingRepository {
       return booking;
     } catch (error) {
       logger.error('Error creating booking', { bookingData, error });
+      if (isAppError(error)) {
+        throw error;
+      }
       throw errorFactory.createInternalServerError('Failed to create booking', { bookingData }, error as Error);
     }
   }
@@ -451,10 +487,43 @@ export class BookingRepository {
       return updatedBooking;
     } catch (error) {
       logger.error('Error updating booking status', { bookingId, status, error });
+      if (isAppError(error)) {
+        throw error;
+      }
       throw errorFactory.createInternalServerError('Failed to update booking status', { bookingId, status }, error as Error);
     }
   }
 
+  /**
+   * Records that the client confirmed they will attend a booking
+   * @param bookingId - The ID of the booking
+   * @param confirmedAt - When the client confirmed
+   * @returns The confirmed booking
+   */
+  async confirm(bookingId: string, confirmedAt: Date): Promise<Booking> {
+    try {
+      const existingBooking = await this.findById(bookingId);
+      if (!existingBooking) {
+        throw errorFactory.createNotFoundError('Booking not found', { bookingId });
+      }
+
+      const confirmedBooking = await prisma.booking.update({
+        where: { id: bookingId },
+        data: { confirmedAt }
+      });
+
+      await this.invalidateCache(bookingId, existingBooking.clientId, existingBooking.providerId);
+
+      return confirmedBooking;
+    } catch (error) {
+      logger.error('Error confirming booking', { bookingId, error });
+      if (isAppError(error)) {
+        throw error;
+      }
+      throw errorFactory.createInternalServerError('Failed to confirm booking', { bookingId }, error as Error);
+    }
+  }
+
   /**
    * Cancels a booking with a reason
    * @param bookingId - The ID of the booking
@@ -486,10 +555,7 @@ export class BookingRepository {
       });
 
       // Update provider availability to free up the time slot
-      await this.providerAvailabilityRepository.unbookTimeSlot(
-        existingBooking.providerId,
-        bookingId // TODO: Replace with actual timeSlotId
-      );
+      await this.releaseTimeSlot(existingBooking.providerId, bookingId);
 
       // Invalidate related cache entries
       await this.invalidateCache(bookingId, existingBooking.clientId, existingBooking.providerId);
@@ -498,6 +564,9 @@ export class BookingRepository {
       return cancelledBooking;
     } catch (error) {
       logger.error('Error cancelling booking', { bookingId, cancellationInfo, error });
+      if (isAppError(error)) {
+        throw error;
+      }
       throw errorFactory.createInternalServerError('Failed to cancel booking', { bookingId, cancellationInfo }, error as Error);
     }
   }
@@ -522,8 +591,20 @@ export class BookingRepository {
         throw errorFactory.createNotFoundError('Original booking not found', { bookingId });
       }
 
+      // Resolve the stored time slot that will hold the new booking
+      const timeSlot = await this.providerAvailabilityRepository.findOrCreateTimeSlot(
+        newBookingData.providerId,
+        newBookingData.startTime,
+        newBookingData.endTime,
+        newBookingData.serviceType
+      );
+
+      if (!timeSlot) {
+        throw errorFactory.createValidationError('Provider has no availability configured', { providerId: newBookingData.providerId });
+      }
+
       // Begin a database transaction
-      return await prisma.$transaction(async (tx) => {
+      const rescheduleInfo = await prisma.$transaction(async (tx) => {
         // Create a new booking with the provided data
         const newBookingId = uuidv4();
         const newBooking = await tx.booking.create({
@@ -536,7 +617,8 @@ export class BookingRepository {
             endTime: newBookingData.endTime,
             status: BookingStatus.SCHEDULED,
             notes: newBookingData.notes,
-            location: newBookingData.location
+            location: newBookingData.location,
+            seriesId: newBookingData.seriesId ?? null
           }
         });
 
@@ -550,32 +632,42 @@ export class BookingRepository {
           }
         });
 
-        // Update provider availability for both time slots
-        await this.providerAvailabilityRepository.bookTimeSlot(
+        // Book the new time slot, rolling back the transaction if it was claimed first
+        const isBooked = await this.providerAvailabilityRepository.bookTimeSlot(
           newBookingData.providerId,
-          newBookingId,
-          newBookingId // TODO: Replace with actual timeSlotId
-        );
-        await this.providerAvailabilityRepository.unbookTimeSlot(
-          originalBooking.providerId,
-          bookingId // TODO: Replace with actual timeSlotId
+          timeSlot.id,
+          newBookingId
         );
 
-        // Commit the transaction
-
-        // Invalidate related cache entries
-        await this.invalidateCache(bookingId, originalBooking.clientId, originalBooking.providerId);
-        await this.invalidateCache(newBookingId, newBookingData.clientId, newBookingData.providerId);
+        if (!isBooked) {
+          throw errorFactory.createError(
+            'The requested time slot is no longer available',
+            ErrorCodes.CONFLICT,
+            { providerId: newBookingData.providerId, timeSlotId: timeSlot.id }
+          );
+        }
 
         // Return the reschedule information with new booking ID
-        const rescheduleInfo: RescheduleInfo = {
+        const info: RescheduleInfo = {
           newBookingId: newBooking.id,
           reason: reason
         };
-        return rescheduleInfo;
+        return info;
       });
+
+      // Free up the time slot held by the original booking
+      await this.releaseTimeSlot(originalBooking.providerId, bookingId);
+
+      // Invalidate related cache entries
+      await this.invalidateCache(bookingId, originalBooking.clientId, originalBooking.providerId);
+      await this.invalidateCache(rescheduleInfo.newBookingId, newBookingData.clientId, newBookingData.providerId);
+
+      return rescheduleInfo;
     } catch (error) {
       logger.error('Error rescheduling booking', { bookingId, newBookingData, reason, error });
+      if (isAppError(error)) {
+        throw error;
+      }
       throw errorFactory.createInternalServerError('Failed to reschedule booking', { bookingId, newBookingData, reason }, error as Error);
     }
   }
@@ -608,10 +700,7 @@ export class BookingRepository {
       });
 
       // Update provider availability to free up the time slot
-      await this.providerAvailabilityRepository.unbookTimeSlot(
-        existingBooking.providerId,
-        bookingId // TODO: Replace with actual timeSlotId
-      );
+      await this.releaseTimeSlot(existingBooking.providerId, bookingId);
 
       // Invalidate related cache entries
       await this.invalidateCache(bookingId, existingBooking.clientId, existingBooking.providerId);
@@ -624,15 +713,216 @@ export class BookingRepository {
     }
   }
 
+  /**
+   * Creates a recurring series and books every occurrence. The occurrences are booked
+   * together: if any slot cannot be reserved, none of them are.
+   * @param seriesData - The series to create
+   * @param occurrences - Start and end times of each occurrence to book
+   * @returns The created series and its bookings, earliest first
+   */
+  async createSeries(
+    seriesData: Omit<BookingSeries, 'id' | 'status' | 'createdAt' | 'updatedAt'>,
+    occurrences: Array<{ startTime: Date; endTime: Date }>
+  ): Promise<{ series: BookingSeries; bookings: Booking[] }> {
+    // Time slots booked so far, released again if a later occurrence fails
+    const bookedSlots: string[] = [];
+
+    try {
+      if (occurrences.length === 0) {
+        throw errorFactory.createValidationError('A booking series needs at least one occurrence');
+      }
+
+      // Resolve the stored time slot for every occurrence before writing anything
+      const timeSlots: TimeSlot[] = [];
+      for (const occurrence of occurrences) {
+        const timeSlot = await this.providerAvailabilityRepository.findOrCreateTimeSlot(
+          seriesData.providerId,
+          occurrence.startTime,
+          occurrence.endTime,
+          seriesData.serviceType
+        );
+
+        if (!timeSlot) {
+          throw errorFactory.createValidationError('Provider has no availability configured', { providerId: seriesData.providerId });
+        }
+        timeSlots.push(timeSlot);
+      }
+
+      const result = await prisma.$transaction(async (tx) => {
+        const seriesId = uuidv4();
+        const series = await tx.bookingSeries.create({
+          data: {
+            ...seriesData,
+            id: seriesId,
+            status: BookingSeriesStatus.ACTIVE
+          }
+        });
+
+        const bookings: Booking[] = [];
+        for (let index = 0; index < occurrences.length; index++) {
+          const bookingId = uuidv4();
+          const booking = await tx.booking.create({
+            data: {
+              id: bookingId,
+              clientId: seriesData.clientId,
+              providerId: seriesData.providerId,
+              serviceItemId: seriesData.serviceItemId,
+              startTime: occurrences[index].startTime,
+              endTime: occurrences[index].endTime,
+              status: BookingStatus.SCHEDULED,
+              notes: seriesData.notes,
+              location: seriesData.location,
+              seriesId
+            }
+          });
+
+          // Book the occurrence's time slot, rolling back the series if it was claimed first
+          const isBooked = await this.providerAvailabilityRepository.bookTimeSlot(
+            seriesData.providerId,
+            timeSlots[index].id,
+            bookingId
+          );
+
+          if (!isBooked) {
+            throw errorFactory.createError(
+              'The requested time slot is no longer available',
+              ErrorCodes.CONFLICT,
+              { providerId: seriesData.providerId, timeSlotId: timeSlots[index].id, startTime: occurrences[index].startTime }
+            );
+          }
+          bookedSlots.push(timeSlots[index].id);
+          bookings.push(booking);
+        }
+
+        return { series: series as BookingSeries, bookings };
+      });
+
+      // Invalidate related cache entries
+      for (const booking of result.bookings) {
+        await this.invalidateCache(booking.id, booking.clientId, booking.providerId);
+      }
+
+      return result;
+    } catch (error) {
+      // Slots are booked outside the transaction, so free any the rolled-back bookings held
+      // A failed release is logged rather than thrown so the original error still reaches the caller
+      for (const timeSlotId of bookedSlots) {
+        try {
+          await this.providerAvailabilityRepository.unbookTimeSlot(seriesData.providerId, timeSlotId);
+        } catch (releaseError) {
+          logger.error('Error releasing time slot after failed series booking', { timeSlotId, error: releaseError });
+        }
+      }
+
+      logger.error('Error creating booking series', { seriesData, occurrences: occurrences.length, error });
+      if (isAppError(error)) {
+        throw error;
+      }
+      throw errorFactory.createInternalServerError('Failed to create booking series', { clientId: seriesData.clientId, providerId: seriesData.providerId }, error as Error);
+    }
+  }
+
+  /**
+   * Retrieves a recurring booking series by its ID
+   * @param seriesId - The ID of the series
+   * @returns The series if found, null otherwise
+   */
+  async findSeriesById(seriesId: string): Promise<BookingSeries | null> {
+    try {
+      const series = await prisma.bookingSeries.findUnique({ where: { id: seriesId } });
+
+      return series as BookingSeries | null;
+    } catch (error) {
+      logger.error('Error finding booking series by ID', { seriesId, error });
+      throw errorFactory.createInternalServerError('Failed to find booking series', { seriesId }, error as Error);
+    }
+  }
+
+  /**
+   * Retrieves every booking belonging to a recurring series, earliest first
+   * @param seriesId - The ID of the series
+   * @returns The series' bookings
+   */
+  async findSeriesBookings(seriesId: string): Promise<Booking[]> {
+    try {
+      return await prisma.booking.findMany({
+        where: { seriesId },
+        orderBy: { startTime: 'asc' }
+      });
+    } catch (error) {
+      logger.error('Error finding bookings for series', { seriesId, error });
+      throw errorFactory.createInternalServerError('Failed to find bookings for series', { seriesId }, error as Error);
+    }
+  }
+
+  /**
+   * Updates a recurring booking series
+   * @param seriesId - The ID of the series
+   * @param updateData - Fields to update
+   * @returns The updated series
+   */
+  async updateSeries(
+    seriesId: string,
+    updateData: Partial<Pick<BookingSeries, 'recurrence' | 'startTime' | 'endTime' | 'status'>>
+  ): Promise<BookingSeries> {
+    try {
+      const series = await prisma.bookingSeries.update({
+        where: { id: seriesId },
+        data: updateData
+      });
+
+      return series as BookingSeries;
+    } catch (error) {
+      logger.error('Error updating booking series', { seriesId, updateData, error });
+      throw errorFactory.createInternalServerError('Failed to update booking series', { seriesId }, error as Error);
+    }
+  }
+
+  /**
+   * Ends a recurring series early and starts a new series carrying on from it, used when
+   * an edit applies to an occurrence and every later one
+   * @param seriesId - The ID of the series to end
+   * @param recurrence - The ended series' recurrence, truncated before the split
+   * @param newSeriesData - The series that continues from the split
+   * @returns The new series
+   */
+  async splitSeries(
+    seriesId: string,
+    recurrence: BookingSeries['recurrence'],
+    newSeriesData: Omit<BookingSeries, 'id' | 'status' | 'createdAt' | 'updatedAt'>
+  ): Promise<BookingSeries> {
+    try {
+      return await prisma.$transaction(async (tx) => {
+        await tx.bookingSeries.update({
+          where: { id: seriesId },
+          data: { recurrence }
+        });
+
+        const series = await tx.bookingSeries.create({
+          data: {
+            ...newSeriesData,
+            id: uuidv4(),
+            status: BookingSeriesStatus.ACTIVE
+          }
+        });
+
+        return series as BookingSeries;
+      });
+    } catch (error) {
+      logger.error('Error splitting booking series', { seriesId, error });
+      throw errorFactory.createInternalServerError('Failed to split booking series', { seriesId }, error as Error);
+    }
+  }
+
   /**
    * Checks if a proposed booking conflicts with existing bookings
    * @param providerId - The ID of the provider
    * @param startTime - Date
    * @param endTime - Date
-   * @param excludeBookingId - string
+   * @param excludeBookingId - Booking, or bookings, to ignore, such as those being moved
    * @returns True if conflicts exist, false otherwise
    */
-  async checkForConflicts(providerId: string, startTime: Date, endTime: Date, excludeBookingId?: string): Promise<boolean> {
+  async checkForConflicts(providerId: string, startTime: Date, endTime: Date, excludeBookingId?: string | string[]): Promise<boolean> {
     try {
       // Query the database for bookings that overlap with the proposed time slot
       const overlappingBookings = await prisma.booking.findMany({
@@ -640,7 +930,9 @@ export class BookingRepository {
           providerId: providerId,
           startTime: { lt: endTime },
           endTime: { gt: startTime },
-          id: excludeBookingId ? { not: excludeBookingId } : undefined,
+          id: Array.isArray(excludeBookingId)
+            ? { notIn: excludeBookingId }
+            : excludeBookingId ? { not: excludeBookingId } : undefined,
           status: { in: [BookingStatus.SCHEDULED, BookingStatus.IN_PROGRESS] }
         }
       });
@@ -653,6 +945,117 @@ export class BookingRepository {
     }
   }
 
+  /**
+   * Checks whether a client has ever booked a provider, which establishes a care relationship between them
+   * @param providerId - The ID of the provider
+   * @param clientId - The ID of the client
+   * @returns True if at least one booking exists between the provider and client
+   */
+  async hasBookingBetween(providerId: string, clientId: string): Promise<boolean> {
+    try {
+      const count = await prisma.booking.count({
+        where: { providerId, clientId }
+      });
+
+      return count > 0;
+    } catch (error) {
+      logger.error('Error checking for bookings between provider and client', { providerId, clientId, error });
+      throw errorFactory.createInternalServerError('Failed to check for bookings', { providerId, clientId }, error as Error);
+    }
+  }
+
+  /**
+   * Counts the bookings made with a provider since a point in time, used to measure how quickly the provider's schedule fills
+   * @param providerId - The ID of the provider
+   * @param since - Earliest booking creation time to count
+   * @returns Number of bookings created since the given time
+   */
+  async countCreatedSince(providerId: string, since: Date): Promise<number> {
+    try {
+      return await prisma.booking.count({
+        where: { providerId, createdAt: { gte: since } }
+      });
+    } catch (error) {
+      logger.error('Error counting recent bookings for provider', { providerId, since, error });
+      throw errorFactory.createInternalServerError('Failed to count bookings', { providerId, since }, error as Error);
+    }
+  }
+
+  /**
+   * Counts the completed bookings of each service item, i.e. the units delivered against it
+   * @param serviceItemIds - The IDs of the service items
+   * @returns Number of completed bookings by service item ID; items without any are omitted
+   */
+  async countCompletedByServiceItem(serviceItemIds: string[]): Promise<Record<string, number>> {
+    if (serviceItemIds.length === 0) {
+      return {};
+    }
+
+    try {
+      const counts = await prisma.booking.groupBy({
+        by: ['serviceItemId'],
+        where: { serviceItemId: { in: serviceItemIds }, status: BookingStatus.COMPLETED },
+        _count: { _all: true }
+      });
+
+      return Object.fromEntries(
+        counts.map((row: { serviceItemId: string; _count: { _all: number } }) => [row.serviceItemId, row._count._all])
+      );
+    } catch (error) {
+      logger.error('Error counting completed bookings for service items', { serviceItemIds, error });
+      throw errorFactory.createInternalServerError('Failed to count bookings', { serviceItemIds }, error as Error);
+    }
+  }
+
+  /**
+   * Counts the bookings of a service item that start within a time range and use up its
+   * authorized units: those not cancelled, rescheduled or missed by the client
+   * @param serviceItemId - The ID of the service item
+   * @param startDate - Earliest start time to count
+   * @param endDate - Start times before this are counted
+   * @param excludedBookingIds - Bookings not to count, e.g. ones being rescheduled
+   * @returns Number of bookings
+   */
+  async countUnitsBookedBetween(
+    serviceItemId: string,
+    startDate: Date,
+    endDate: Date,
+    excludedBookingIds: string[] = []
+  ): Promise<number> {
+    try {
+      return await prisma.booking.count({
+        where: {
+          serviceItemId,
+          id: { notIn: excludedBookingIds },
+          startTime: { gte: startDate, lt: endDate },
+          status: { notIn: [BookingStatus.CANCELLED, BookingStatus.RESCHEDULED, BookingStatus.NO_SHOW] }
+        }
+      });
+    } catch (error) {
+      logger.error('Error counting booked units for service item', { serviceItemId, startDate, endDate, error });
+      throw errorFactory.createInternalServerError('Failed to count bookings', { serviceItemId, startDate, endDate }, error as Error);
+    }
+  }
+
+  /**
+   * Retrieves every booking of a provider that starts within a time range, whatever its status, bypassing the list cache
+   * @param providerId - The ID of the provider
+   * @param startDate - Earliest start time to include
+   * @param endDate - Latest start time to include
+   * @returns The bookings, earliest first
+   */
+  async findProviderBookingsBetween(providerId: string, startDate: Date, endDate: Date): Promise<Booking[]> {
+    try {
+      return await prisma.booking.findMany({
+        where: { providerId, startTime: { gte: startDate, lte: endDate } },
+        orderBy: { startTime: 'asc' }
+      });
+    } catch (error) {
+      logger.error('Error finding provider bookings in range', { providerId, startDate, endDate, error });
+      throw errorFactory.createInternalServerError('Failed to find bookings', { providerId, startDate, endDate }, error as Error);
+    }
+  }
+
   /**
    * Retrieves upcoming bookings for a client or provider
    * @param userId - The ID of the user
@@ -693,6 +1096,23 @@ export class BookingRepository {
     }
   }
 
+  /**
+   * Frees the time slot held by a booking, if one exists
+   * @param providerId - The ID of the provider
+   * @param bookingId - The ID of the booking
+   * @returns True if a time slot was released, false otherwise
+   */
+  private async releaseTimeSlot(providerId: string, bookingId: string): Promise<boolean> {
+    const timeSlot = await this.providerAvailabilityRepository.findTimeSlotByBookingId(providerId, bookingId);
+
+    if (!timeSlot) {
+      logger.warn('No time slot held by booking', { providerId, bookingId });
+      return false;
+    }
+
+    return this.providerAvailabilityRepository.unbookTimeSlot(providerId, timeSlot.id);
+  }
+
   /**
    * Invalidates cache entries related to bookings
    * @param bookingId - The ID of the booking
@@ -0,0 +1,95 @@
+import { v4 as uuidv4 } from 'uuid'; // uuid@^9.0.0
+import { prisma } from '../config/database';
+import { CalendarFeed } from '../types/calendar.types';
+import { errorFactory } from '../utils/error-handler';
+import { logger } from '../utils/logger';
+
+/**
+ * Repository for users' ICS booking feeds. Each user has at most one feed.
+ */
+export class CalendarFeedRepository {
+  /**
+   * Stores a user's feed, replacing the token of any feed they already have
+   * @param userId - ID of the user
+   * @param userRole - Role whose bookings the feed lists
+   * @param tokenHash - Hash of the feed's token
+   * @returns The stored feed
+   */
+  async saveFeed(userId: string, userRole: string, tokenHash: string): Promise<CalendarFeed> {
+    try {
+      const feed = await prisma.calendarFeed.upsert({
+        where: { userId },
+        create: { id: uuidv4(), userId, userRole, tokenHash, lastAccessedAt: null },
+        update: { userRole, tokenHash, lastAccessedAt: null, createdAt: new Date() }
+      });
+
+      return feed as CalendarFeed;
+    } catch (error) {
+      logger.error('Failed to save calendar feed', { userId, error });
+      throw errorFactory.createInternalServerError('Failed to save calendar feed', { userId }, error as Error);
+    }
+  }
+
+  /**
+   * Retrieves a user's feed
+   * @param userId - ID of the user
+   * @returns The feed, or null if the user has none
+   */
+  async findByUserId(userId: string): Promise<CalendarFeed | null> {
+    try {
+      const feed = await prisma.calendarFeed.findUnique({ where: { userId } });
+
+      return feed as CalendarFeed | null;
+    } catch (error) {
+      logger.error('Failed to retrieve calendar feed', { userId, error });
+      throw errorFactory.createInternalServerError('Failed to retrieve calendar feed', { userId }, error as Error);
+    }
+  }
+
+  /**
+   * Retrieves the feed a token belongs to
+   * @param tokenHash - Hash of the token
+   * @returns The feed, or null if no feed has the token
+   */
+  async findByTokenHash(tokenHash: string): Promise<CalendarFeed | null> {
+    try {
+      const feed = await prisma.calendarFeed.findUnique({ where: { tokenHash } });
+
+      return feed as CalendarFeed | null;
+    } catch (error) {
+      // The token is a secret, so it is left out of the error details
+      logger.error('Failed to retrieve calendar feed by token', { error });
+      throw errorFactory.createInternalServerError('Failed to retrieve calendar feed by token', {}, error as Error);
+    }
+  }
+
+  /**
+   * Records when a feed was last read by a calendar client
+   * @param id - ID of the feed
+   * @param accessedAt - When it was read
+   */
+  async recordAccess(id: string, accessedAt: Date): Promise<void> {
+    try {
+      await prisma.calendarFeed.update({ where: { id }, data: { lastAccessedAt: accessedAt } });
+    } catch (error) {
+      logger.error('Failed to record calendar feed access', { feedId: id, error });
+      throw errorFactory.createInternalServerError('Failed to record calendar feed access', { feedId: id }, error as Error);
+    }
+  }
+
+  /**
+   * Deletes a user's feed
+   * @param userId - ID of the user
+   * @returns True if a feed was deleted
+   */
+  async deleteByUserId(userId: string): Promise<boolean> {
+    try {
+      const { count } = await prisma.calendarFeed.deleteMany({ where: { userId } });
+
+      return count > 0;
+    } catch (error) {
+      logger.error('Failed to delete calendar feed', { userId, error });
+      throw errorFactory.createInternalServerError('Failed to delete calendar feed', { userId }, error as Error);
+    }
+  }
+}
@@ -0,0 +1,359 @@
+import { v4 as uuidv4 } from 'uuid'; // uuid@^9.0.0
+import { prisma, executeWithTransaction } from '../config/database';
+import {
+  CalendarConnection,
+  CalendarConnectionStatus,
+  CalendarCredentials,
+  CalendarEventLink,
+  CalendarReconciliationReport
+} from '../types/calendar.types';
+import { BusyPeriod } from '../types/provider.types';
+import { errorFactory } from '../utils/error-handler';
+import { decryptData, encryptData } from '../utils/security';
+import { logger } from '../utils/logger';
+
+/**
+ * Calendar connection fields set when a provider connects a calendar
+ */
+export type NewCalendarConnection = Omit<CalendarConnection, 'id' | 'lastSyncedAt' | 'lastError' | 'createdAt' | 'updatedAt'>;
+
+/**
+ * Calendar connection fields that change after it is created
+ */
+export type CalendarConnectionUpdate = Partial<Pick<
+  CalendarConnection,
+  'credentials' | 'subscriptionId' | 'resourceId' | 'subscriptionExpiresAt' | 'status' | 'lastSyncedAt' | 'lastError'
+>>;
+
+/**
+ * Busy period fields set when a personal event starts blocking slots
+ */
+export type NewBusyPeriod = Omit<BusyPeriod, 'id'>;
+
+/**
+ * Reconciliation report fields set when a report is recorded
+ */
+export type NewCalendarReconciliationReport = Omit<CalendarReconciliationReport, 'id' | 'createdAt'>;
+
+/**
+ * Maps a stored connection to the domain type. OAuth credentials are stored encrypted.
+ * @param record - The database record
+ * @returns The calendar connection
+ */
+function toCalendarConnection(record: any): CalendarConnection {
+  return {
+    ...record,
+    credentials: JSON.parse(decryptData(record.credentials)) as CalendarCredentials
+  };
+}
+
+/**
+ * Repository for providers' external calendar connections, the busy periods read from
+ * them, the events written to them for bookings, and reconciliation reports
+ */
+export class CalendarSyncRepository {
+  /**
+   * Stores a new calendar connection
+   * @param data - The connection to create
+   * @returns The created connection
+   */
+  async createConnection(data: NewCalendarConnection): Promise<CalendarConnection> {
+    try {
+      const connection = await prisma.calendarConnection.create({
+        data: {
+          ...data,
+          id: uuidv4(),
+          credentials: encryptData(JSON.stringify(data.credentials)),
+          lastSyncedAt: null,
+          lastError: null
+        }
+      });
+
+      return toCalendarConnection(connection);
+    } catch (error) {
+      logger.error('Failed to create calendar connection', {
+        providerId: data.providerId,
+        calendarProvider: data.calendarProvider,
+        error
+      });
+      throw errorFactory.createInternalServerError('Failed to create calendar connection', {
+        providerId: data.providerId,
+        calendarProvider: data.calendarProvider
+      }, error as Error);
+    }
+  }
+
+  /**
+   * Retrieves a calendar connection by its ID
+   * @param id - ID of the connection
+   * @returns The connection, or null if it does not exist
+   */
+  async findConnectionById(id: string): Promise<CalendarConnection | null> {
+    try {
+      const connection = await prisma.calendarConnection.findUnique({ where: { id } });
+
+      return connection ? toCalendarConnection(connection) : null;
+    } catch (error) {
+      logger.error('Failed to retrieve calendar connection', { connectionId: id, error });
+      throw errorFactory.createInternalServerError('Failed to retrieve calendar connection', { connectionId: id }, error as Error);
+    }
+  }
+
+  /**
+   * Retrieves the connection a change notification subscription belongs to
+   * @param calendarProvider - The calendar provider that sent the notification
+   * @param subscriptionId - Google channel ID or Microsoft Graph subscription ID
+   * @returns The connection, or null if no connection holds the subscription
+   */
+  async findConnectionBySubscription(calendarProvider: string, subscriptionId: string): Promise<CalendarConnection | null> {
+    try {
+      const connection = await prisma.calendarConnection.findFirst({
+        where: { calendarProvider, subscriptionId }
+      });
+
+      return connection ? toCalendarConnection(connection) : null;
+    } catch (error) {
+      logger.error('Failed to retrieve calendar connection', { calendarProvider, subscriptionId, error });
+      throw errorFactory.createInternalServerError('Failed to retrieve calendar connection', { calendarProvider, subscriptionId }, error as Error);
+    }
+  }
+
+  /**
+   * Retrieves calendar connections, oldest first
+   * @param filters - Provider and status to limit the connections to
+   * @returns The matching connections
+   */
+  async findConnections(filters: { providerId?: string; status?: CalendarConnectionStatus }): Promise<CalendarConnection[]> {
+    try {
+      const connections = await prisma.calendarConnection.findMany({
+        where: {
+          ...(filters.providerId ? { providerId: filters.providerId } : {}),
+          ...(filters.status ? { status: filters.status } : {})
+        },
+        orderBy: { createdAt: 'asc' }
+      });
+
+      return connections.map(toCalendarConnection);
+    } catch (error) {
+      logger.error('Failed to retrieve calendar connections', { filters, error });
+      throw errorFactory.createInternalServerError('Failed to retrieve calendar connections', { filters }, error as Error);
+    }
+  }
+
+  /**
+   * Updates a calendar connection
+   * @param id - ID of the connection
+   * @param data - The fields to update
+   * @returns The updated connection
+   */
+  async updateConnection(id: string, data: CalendarConnectionUpdate): Promise<CalendarConnection> {
+    try {
+      const { credentials, ...fields } = data;
+      const connection = await prisma.calendarConnection.update({
+        where: { id },
+        data: {
+          ...fields,
+          ...(credentials ? { credentials: encryptData(JSON.stringify(credentials)) } : {})
+        }
+      });
+
+      return toCalendarConnection(connection);
+    } catch (error) {
+      logger.error('Failed to update calendar connection', { connectionId: id, error });
+      throw errorFactory.createInternalServerError('Failed to update calendar connection', { connectionId: id }, error as Error);
+    }
+  }
+
+  /**
+   * Deletes a calendar connection with the busy periods read from it and its booking event links
+   * @param id - ID of the connection
+   */
+  async deleteConnection(id: string): Promise<void> {
+    try {
+      await executeWithTransaction(async (tx) => {
+        await tx.calendarBusyPeriod.deleteMany({ where: { connectionId: id } });
+        await tx.calendarEventLink.deleteMany({ where: { connectionId: id } });
+        await tx.calendarConnection.delete({ where: { id } });
+      });
+    } catch (error) {
+      logger.error('Failed to delete calendar connection', { connectionId: id, error });
+      throw errorFactory.createInternalServerError('Failed to delete calendar connection', { connectionId: id }, error as Error);
+    }
+  }
+
+  /**
+   * Retrieves the busy periods read from a connection that overlap a time range
+   * @param connectionId - ID of the connection
+   * @param rangeStart - Start of the range
+   * @param rangeEnd - End of the range
+   * @returns The busy periods, earliest first
+   */
+  async findBusyPeriods(connectionId: string, rangeStart: Date, rangeEnd: Date): Promise<BusyPeriod[]> {
+    try {
+      const periods = await prisma.calendarBusyPeriod.findMany({
+        where: { connectionId, startTime: { lt: rangeEnd }, endTime: { gt: rangeStart } },
+        orderBy: { startTime: 'asc' }
+      });
+
+      return periods as BusyPeriod[];
+    } catch (error) {
+      logger.error('Failed to retrieve busy periods', { connectionId, rangeStart, rangeEnd, error });
+      throw errorFactory.createInternalServerError('Failed to retrieve busy periods', { connectionId, rangeStart, rangeEnd }, error as Error);
+    }
+  }
+
+  /**
+   * Applies changes to a connection's busy periods in one transaction
+   * @param changes - Busy periods to create, move and delete
+   */
+  async applyBusyPeriodChanges(changes: {
+    create: NewBusyPeriod[];
+    update: Array<Pick<BusyPeriod, 'id' | 'startTime' | 'endTime'>>;
+    delete: string[];
+  }): Promise<void> {
+    try {
+      await executeWithTransaction(async (tx) => {
+        if (changes.create.length > 0) {
+          await tx.calendarBusyPeriod.createMany({
+            data: changes.create.map(period => ({ ...period, id: uuidv4() }))
+          });
+        }
+
+        for (const period of changes.update) {
+          await tx.calendarBusyPeriod.update({
+            where: { id: period.id },
+            data: { startTime: period.startTime, endTime: period.endTime }
+          });
+        }
+
+        if (changes.delete.length > 0) {
+          await tx.calendarBusyPeriod.deleteMany({ where: { id: { in: changes.delete } } });
+        }
+      });
+    } catch (error) {
+      logger.error('Failed to update busy periods', {
+        created: changes.create.length,
+        updated: changes.update.length,
+        deleted: changes.delete.length,
+        error
+      });
+      throw errorFactory.createInternalServerError('Failed to update busy periods', {
+        created: changes.create.length,
+        updated: changes.update.length,
+        deleted: changes.delete.length
+      }, error as Error);
+    }
+  }
+
+  /**
+   * Retrieves the booking event links for a connection
+   * @param connectionId - ID of the connection
+   * @returns The links
+   */
+  async findEventLinks(connectionId: string): Promise<CalendarEventLink[]> {
+    try {
+      const links = await prisma.calendarEventLink.findMany({ where: { connectionId } });
+
+      return links as CalendarEventLink[];
+    } catch (error) {
+      logger.error('Failed to retrieve calendar event links', { connectionId, error });
+      throw errorFactory.createInternalServerError('Failed to retrieve calendar event links', { connectionId }, error as Error);
+    }
+  }
+
+  /**
+   * Retrieves the event written for a booking in a connected calendar
+   * @param bookingId - ID of the booking
+   * @param connectionId - ID of the connection
+   * @returns The link, or null if no event has been written
+   */
+  async findEventLink(bookingId: string, connectionId: string): Promise<CalendarEventLink | null> {
+    try {
+      const link = await prisma.calendarEventLink.findFirst({ where: { bookingId, connectionId } });
+
+      return link as CalendarEventLink | null;
+    } catch (error) {
+      logger.error('Failed to retrieve calendar event link', { bookingId, connectionId, error });
+      throw errorFactory.createInternalServerError('Failed to retrieve calendar event link', { bookingId, connectionId }, error as Error);
+    }
+  }
+
+  /**
+   * Records the event written for a booking in a connected calendar, replacing any earlier event
+   * @param bookingId - ID of the booking
+   * @param connectionId - ID of the connection
+   * @param externalEventId - ID of the event in the external calendar
+   * @returns The link
+   */
+  async saveEventLink(bookingId: string, connectionId: string, externalEventId: string): Promise<CalendarEventLink> {
+    try {
+      const link = await prisma.calendarEventLink.upsert({
+        where: { bookingId_connectionId: { bookingId, connectionId } },
+        create: { id: uuidv4(), bookingId, connectionId, externalEventId },
+        update: { externalEventId }
+      });
+
+      return link as CalendarEventLink;
+    } catch (error) {
+      logger.error('Failed to save calendar event link', { bookingId, connectionId, error });
+      throw errorFactory.createInternalServerError('Failed to save calendar event link', { bookingId, connectionId }, error as Error);
+    }
+  }
+
+  /**
+   * Deletes a booking event link
+   * @param id - ID of the link
+   */
+  async deleteEventLink(id: string): Promise<void> {
+    try {
+      await prisma.calendarEventLink.delete({ where: { id } });
+    } catch (error) {
+      logger.error('Failed to delete calendar event link', { linkId: id, error });
+      throw errorFactory.createInternalServerError('Failed to delete calendar event link', { linkId: id }, error as Error);
+    }
+  }
+
+  /**
+   * Records the result of reconciling a connection
+   * @param data - The report to record
+   * @returns The recorded report
+   */
+  async createReconciliationReport(data: NewCalendarReconciliationReport): Promise<CalendarReconciliationReport> {
+    try {
+      const report = await prisma.calendarReconciliationReport.create({
+        data: { ...data, id: uuidv4() }
+      });
+
+      return report as CalendarReconciliationReport;
+    } catch (error) {
+      logger.error('Failed to record calendar reconciliation report', {
+        connectionId: data.connectionId,
+        error
+      });
+      throw errorFactory.createInternalServerError('Failed to record calendar reconciliation report', {
+        connectionId: data.connectionId
+      }, error as Error);
+    }
+  }
+
+  /**
+   * Retrieves a connection's most recent reconciliation reports
+   * @param connectionId - ID of the connection
+   * @param limit - Maximum number of reports
+   * @returns The reports, newest first
+   */
+  async findReconciliationReports(connectionId: string, limit: number): Promise<CalendarReconciliationReport[]> {
+    try {
+      const reports = await prisma.calendarReconciliationReport.findMany({
+        where: { connectionId },
+        orderBy: { createdAt: 'desc' },
+        take: limit
+      });
+
+      return reports as CalendarReconciliationReport[];
+    } catch (error) {
+      logger.error('Failed to retrieve calendar reconciliation reports', { connectionId, error });
+      throw errorFactory.createInternalServerError('Failed to retrieve calendar reconciliation reports', { connectionId }, error as Error);
+    }
+  }
+}
@@ -0,0 +1,120 @@
+import { prisma, executeWithTransaction } from '../config/database';
+import {
+  GoalProgressEntry,
+  GoalStatus,
+  InterventionSession,
+  ProgressFilterParams
+} from '../types/care-plan.types';
+import { errorFactory } from '../utils/error-handler';
+import { logger } from '../utils/logger';
+
+/**
+ * Builds a date range condition from progress filter parameters
+ * @param filters - The filter parameters
+ * @returns Prisma date condition, or undefined when no range was given
+ */
+function buildDateRange(filters: ProgressFilterParams): Record<string, Date> | undefined {
+  if (!filters.fromDate && !filters.toDate) {
+    return undefined;
+  }
+
+  return {
+    ...(filters.fromDate ? { gte: filters.fromDate } : {}),
+    ...(filters.toDate ? { lte: filters.toDate } : {})
+  };
+}
+
+/**
+ * Repository for the progress observations recorded against care plan goals and the
+ * session logs of care plan interventions
+ */
+export class CarePlanProgressRepository {
+  /**
+   * Records a progress observation against a goal, optionally updating the goal's status
+   * in the same transaction
+   * @param data - The progress entry to record
+   * @param goalStatus - New status of the goal, if it changes
+   * @returns The recorded progress entry
+   */
+  async createGoalProgress(
+    data: Omit<GoalProgressEntry, 'id' | 'createdAt'>,
+    goalStatus?: GoalStatus
+  ): Promise<GoalProgressEntry> {
+    try {
+      return await executeWithTransaction(async (tx) => {
+        const entry = await tx.goalProgressEntry.create({ data });
+
+        if (goalStatus) {
+          await tx.carePlanGoal.update({
+            where: { id: data.goalId },
+            data: { status: goalStatus }
+          });
+        }
+
+        return entry as GoalProgressEntry;
+      });
+    } catch (error) {
+      logger.error('Failed to record goal progress', { goalId: data.goalId, error });
+      throw errorFactory.createInternalServerError('Failed to record goal progress', { goalId: data.goalId }, error as Error);
+    }
+  }
+
+  /**
+   * Retrieves the progress entries of a goal in chronological order
+   * @param goalId - ID of the goal
+   * @param filters - Date range filters
+   * @returns The goal's progress entries
+   */
+  async findGoalProgress(goalId: string, filters: ProgressFilterParams = {}): Promise<GoalProgressEntry[]> {
+    try {
+      const entries = await prisma.goalProgressEntry.findMany({
+        where: { goalId, recordedAt: buildDateRange(filters) },
+        orderBy: { recordedAt: 'asc' }
+      });
+
+      return entries as GoalProgressEntry[];
+    } catch (error) {
+      logger.error('Failed to retrieve goal progress', { goalId, error });
+      throw errorFactory.createInternalServerError('Failed to retrieve goal progress', { goalId }, error as Error);
+    }
+  }
+
+  /**
+   * Logs a session of an intervention
+   * @param data - The session to log
+   * @returns The logged session
+   */
+  async createInterventionSession(data: Omit<InterventionSession, 'id' | 'createdAt'>): Promise<InterventionSession> {
+    try {
+      const session = await prisma.interventionSession.create({ data });
+
+      return session as InterventionSession;
+    } catch (error) {
+      logger.error('Failed to log intervention session', { interventionId: data.interventionId, error });
+      throw errorFactory.createInternalServerError('Failed to log intervention session', { interventionId: data.interventionId }, error as Error);
+    }
+  }
+
+  /**
+   * Retrieves the session logs of an intervention in chronological order
+   * @param interventionId - ID of the intervention
+   * @param filters - Date range filters
+   * @returns The intervention's session logs
+   */
+  async findInterventionSessions(
+    interventionId: string,
+    filters: ProgressFilterParams = {}
+  ): Promise<InterventionSession[]> {
+    try {
+      const sessions = await prisma.interventionSession.findMany({
+        where: { interventionId, sessionDate: buildDateRange(filters) },
+        orderBy: { sessionDate: 'asc' }
+      });
+
+      return sessions as InterventionSession[];
+    } catch (error) {
+      logger.error('Failed to retrieve intervention sessions', { interventionId, error });
+      throw errorFactory.createInternalServerError('Failed to retrieve intervention sessions', { interventionId }, error as Error);
+    }
+  }
+}
@@ -460,6 +460,37 @@ export class CaseManagerProfileRepository {
     }
   }
 
+  /**
+   * Finds the case manager profiles a client is assigned to
+   *
+   * @param clientId Client ID
+   * @returns The case manager profiles the client is assigned to
+   */
+  async findByAssignedClient(clientId: string): Promise<CaseManagerProfile[]> {
+    try {
+      // Narrow the search in the database, then confirm each match against the parsed client list
+      const profiles = await prisma.caseManagerProfile.findMany({
+        where: { assignedClients: { contains: clientId } }
+      });
+
+      return profiles
+        .map((profile: any) => new CaseManagerProfileModel({
+          ...profile,
+          assignedClients: profile.assignedClients ?
+            JSON.parse(profile.assignedClients as string) :
+            null
+        }))
+        .filter((profileModel: CaseManagerProfileModel) => profileModel.hasClient(clientId))
+        .map((profileModel: CaseManagerProfileModel) => profileModel.toJSON());
+    } catch (error) {
+      throw errorFactory.createInternalServerError(
+        'Failed to find case managers of client',
+        { clientId, error: error instanceof Error ? error.message : String(error) },
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
   /**
    * Checks if a client is assigned to a specific case manager
    *
@@ -0,0 +1,47 @@
+import { v4 as uuidv4 } from 'uuid'; // uuid@^9.0.0
+import { prisma } from '../config/database';
+import { EligibilityCheck } from '../types/eligibility.types';
+import { errorFactory } from '../utils/error-handler';
+import { logger } from '../utils/logger';
+
+/**
+ * Repository for the insurance eligibility checks made for services plan funding sources
+ */
+export class EligibilityCheckRepository {
+  /**
+   * Records an eligibility check
+   * @param data - The check
+   * @returns The recorded check
+   */
+  async create(data: Omit<EligibilityCheck, 'id' | 'createdAt'>): Promise<EligibilityCheck> {
+    try {
+      const check = await prisma.eligibilityCheck.create({
+        data: { ...data, id: uuidv4() }
+      });
+
+      return check as EligibilityCheck;
+    } catch (error) {
+      logger.error('Failed to record eligibility check', { fundingSourceId: data.fundingSourceId, error });
+      throw errorFactory.createInternalServerError('Failed to record eligibility check', { fundingSourceId: data.fundingSourceId }, error as Error);
+    }
+  }
+
+  /**
+   * Lists the eligibility checks of a funding source
+   * @param fundingSourceId - ID of the funding source
+   * @returns The checks, most recent first
+   */
+  async findByFundingSourceId(fundingSourceId: string): Promise<EligibilityCheck[]> {
+    try {
+      const checks = await prisma.eligibilityCheck.findMany({
+        where: { fundingSourceId },
+        orderBy: { createdAt: 'desc' }
+      });
+
+      return checks as EligibilityCheck[];
+    } catch (error) {
+      logger.error('Failed to list eligibility checks', { fundingSourceId, error });
+      throw errorFactory.createInternalServerError('Failed to list eligibility checks', { fundingSourceId }, error as Error);
+    }
+  }
+}
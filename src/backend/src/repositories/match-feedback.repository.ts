@@ -0,0 +1,173 @@
+import { v4 as uuidv4 } from 'uuid'; // uuid@^9.0.0
+import { prisma, executeWithTransaction } from '../config/database';
+import {
+  MatchDecision,
+  MatchFeedback,
+  MatchSession,
+  MatchSessionWithFeedback
+} from '../types/provider.types';
+import { errorFactory } from '../utils/error-handler';
+import { logger } from '../utils/logger';
+
+/**
+ * Match session fields set when a matching request is recorded
+ */
+export type NewMatchSession = Omit<MatchSession, 'id' | 'createdAt'>;
+
+/**
+ * Match feedback fields set when a decision is recorded
+ */
+export type NewMatchFeedback = Omit<MatchFeedback, 'id' | 'bookingId' | 'reviewId' | 'createdAt' | 'updatedAt'>;
+
+/**
+ * Decisions that lead to a booking, and so can be linked to one
+ */
+const LINKABLE_DECISIONS: MatchDecision[] = [MatchDecision.ACCEPTED, MatchDecision.OVERRIDDEN];
+
+/**
+ * Repository for recorded matching requests and the decisions made about their results
+ */
+export class MatchFeedbackRepository {
+  /**
+   * Records a matching request and its ranking
+   * @param data - The session to record
+   * @returns The recorded session
+   */
+  async createSession(data: NewMatchSession): Promise<MatchSession> {
+    try {
+      const session = await prisma.matchSession.create({
+        data: { ...data, id: uuidv4() }
+      });
+
+      return session as MatchSession;
+    } catch (error) {
+      logger.error('Failed to record match session', { clientId: data.clientId, error });
+      throw errorFactory.createInternalServerError('Failed to record match session', { clientId: data.clientId }, error as Error);
+    }
+  }
+
+  /**
+   * Retrieves a match session by its ID
+   * @param id - ID of the session
+   * @returns The session, or null if it does not exist
+   */
+  async findSessionById(id: string): Promise<MatchSession | null> {
+    try {
+      const session = await prisma.matchSession.findUnique({ where: { id } });
+
+      return session as MatchSession | null;
+    } catch (error) {
+      logger.error('Failed to retrieve match session', { sessionId: id, error });
+      throw errorFactory.createInternalServerError('Failed to retrieve match session', { sessionId: id }, error as Error);
+    }
+  }
+
+  /**
+   * Retrieves the match sessions that have at least one recorded decision, oldest first
+   * @param startDate - Earliest session creation time to include
+   * @param endDate - Latest session creation time to include
+   * @returns The sessions with their feedback
+   */
+  async findSessionsWithFeedback(startDate?: Date, endDate?: Date): Promise<MatchSessionWithFeedback[]> {
+    try {
+      const sessions = await prisma.matchSession.findMany({
+        where: {
+          feedback: { some: {} },
+          ...(startDate || endDate
+            ? { createdAt: { ...(startDate ? { gte: startDate } : {}), ...(endDate ? { lte: endDate } : {}) } }
+            : {})
+        },
+        include: { feedback: { orderBy: { createdAt: 'asc' } } },
+        orderBy: { createdAt: 'asc' }
+      });
+
+      return sessions as MatchSessionWithFeedback[];
+    } catch (error) {
+      logger.error('Failed to retrieve match sessions', { startDate, endDate, error });
+      throw errorFactory.createInternalServerError('Failed to retrieve match sessions', { startDate, endDate }, error as Error);
+    }
+  }
+
+  /**
+   * Records a decision about a provider for a match session
+   * @param data - The feedback to record
+   * @returns The recorded feedback
+   */
+  async createFeedback(data: NewMatchFeedback): Promise<MatchFeedback> {
+    try {
+      const feedback = await prisma.matchFeedback.create({
+        data: { ...data, id: uuidv4(), bookingId: null, reviewId: null }
+      });
+
+      return feedback as MatchFeedback;
+    } catch (error) {
+      logger.error('Failed to record match feedback', {
+        sessionId: data.matchSessionId,
+        providerId: data.providerId,
+        error
+      });
+      throw errorFactory.createInternalServerError('Failed to record match feedback', {
+        sessionId: data.matchSessionId,
+        providerId: data.providerId
+      }, error as Error);
+    }
+  }
+
+  /**
+   * Retrieves the decisions recorded for a match session, oldest first
+   * @param sessionId - ID of the session
+   * @returns The session's feedback
+   */
+  async findFeedbackBySession(sessionId: string): Promise<MatchFeedback[]> {
+    try {
+      const feedback = await prisma.matchFeedback.findMany({
+        where: { matchSessionId: sessionId },
+        orderBy: { createdAt: 'asc' }
+      });
+
+      return feedback as MatchFeedback[];
+    } catch (error) {
+      logger.error('Failed to retrieve match feedback', { sessionId, error });
+      throw errorFactory.createInternalServerError('Failed to retrieve match feedback', { sessionId }, error as Error);
+    }
+  }
+
+  /**
+   * Links a booking or review to the most recent accepted or overridden decision for a
+   * client and provider that is not linked to one yet
+   * @param field - Which link to set
+   * @param value - ID of the booking or review
+   * @param clientId - ID of the client
+   * @param providerId - ID of the provider
+   * @returns The linked feedback, or null if there was none to link
+   */
+  async linkLatestFeedback(
+    field: 'bookingId' | 'reviewId',
+    value: string,
+    clientId: string,
+    providerId: string
+  ): Promise<MatchFeedback | null> {
+    try {
+      return await executeWithTransaction(async (tx) => {
+        const feedback = await tx.matchFeedback.findFirst({
+          where: { clientId, providerId, decision: { in: LINKABLE_DECISIONS }, [field]: null },
+          orderBy: { createdAt: 'desc' }
+        });
+
+        if (!feedback) {
+          return null;
+        }
+
+        const linked = await tx.matchFeedback.update({
+          where: { id: feedback.id },
+          data: { [field]: value }
+        });
+
+        return linked as MatchFeedback;
+      });
+    } catch (error) {
+      logger.error('Failed to link match feedback', { field, value, clientId, providerId, error });
+      throw errorFactory.createInternalServerError('Failed to link match feedback', { field, value, clientId, providerId }, error as Error);
+    }
+  }
+}
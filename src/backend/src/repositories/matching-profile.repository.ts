@@ -0,0 +1,134 @@
+import { v4 as uuidv4 } from 'uuid'; // uuid@^9.0.0
+import { prisma, executeWithTransaction } from '../config/database';
+import { MatchingProfile } from '../types/provider.types';
+import { errorFactory } from '../utils/error-handler';
+import { logger } from '../utils/logger';
+
+/**
+ * Matching profile fields set when a profile is created
+ */
+export type NewMatchingProfile = Omit<MatchingProfile, 'id' | 'createdAt' | 'updatedAt'>;
+
+/**
+ * Matching profile fields that can be changed after creation
+ */
+export type MatchingProfileUpdate = Partial<Omit<MatchingProfile, 'id' | 'createdById' | 'createdAt' | 'updatedAt'>>;
+
+/**
+ * Repository for the matching profiles that configure provider matching
+ */
+export class MatchingProfileRepository {
+  /**
+   * Creates a matching profile. When the profile is the default, the previous default
+   * is unset in the same transaction.
+   * @param data - The profile to create
+   * @returns The created profile
+   */
+  async create(data: NewMatchingProfile): Promise<MatchingProfile> {
+    try {
+      return await executeWithTransaction(async (tx) => {
+        if (data.isDefault) {
+          await tx.matchingProfile.updateMany({ where: { isDefault: true }, data: { isDefault: false } });
+        }
+
+        const profile = await tx.matchingProfile.create({
+          data: { ...data, id: uuidv4() }
+        });
+
+        return profile as MatchingProfile;
+      });
+    } catch (error) {
+      logger.error('Failed to create matching profile', { name: data.name, error });
+      throw errorFactory.createInternalServerError('Failed to create matching profile', { name: data.name }, error as Error);
+    }
+  }
+
+  /**
+   * Retrieves a matching profile by its ID
+   * @param id - ID of the profile
+   * @returns The profile, or null if it does not exist
+   */
+  async findById(id: string): Promise<MatchingProfile | null> {
+    try {
+      const profile = await prisma.matchingProfile.findUnique({ where: { id } });
+
+      return profile as MatchingProfile | null;
+    } catch (error) {
+      logger.error('Failed to retrieve matching profile', { profileId: id, error });
+      throw errorFactory.createInternalServerError('Failed to retrieve matching profile', { profileId: id }, error as Error);
+    }
+  }
+
+  /**
+   * Retrieves the default matching profile
+   * @returns The default profile, or null if none is set
+   */
+  async findDefault(): Promise<MatchingProfile | null> {
+    try {
+      const profile = await prisma.matchingProfile.findFirst({ where: { isDefault: true } });
+
+      return profile as MatchingProfile | null;
+    } catch (error) {
+      logger.error('Failed to retrieve default matching profile', { error });
+      throw errorFactory.createInternalServerError('Failed to retrieve default matching profile', {}, error as Error);
+    }
+  }
+
+  /**
+   * Retrieves all matching profiles ordered by name
+   * @returns The matching profiles
+   */
+  async findAll(): Promise<MatchingProfile[]> {
+    try {
+      const profiles = await prisma.matchingProfile.findMany({ orderBy: { name: 'asc' } });
+
+      return profiles as MatchingProfile[];
+    } catch (error) {
+      logger.error('Failed to retrieve matching profiles', { error });
+      throw errorFactory.createInternalServerError('Failed to retrieve matching profiles', {}, error as Error);
+    }
+  }
+
+  /**
+   * Updates a matching profile. When the profile becomes the default, the previous
+   * default is unset in the same transaction.
+   * @param id - ID of the profile
+   * @param data - The fields to update
+   * @returns The updated profile
+   */
+  async update(id: string, data: MatchingProfileUpdate): Promise<MatchingProfile> {
+    try {
+      return await executeWithTransaction(async (tx) => {
+        if (data.isDefault) {
+          await tx.matchingProfile.updateMany({
+            where: { isDefault: true, id: { not: id } },
+            data: { isDefault: false }
+          });
+        }
+
+        const profile = await tx.matchingProfile.update({
+          where: { id },
+          data
+        });
+
+        return profile as MatchingProfile;
+      });
+    } catch (error) {
+      logger.error('Failed to update matching profile', { profileId: id, error });
+      throw errorFactory.createInternalServerError('Failed to update matching profile', { profileId: id }, error as Error);
+    }
+  }
+
+  /**
+   * Deletes a matching profile
+   * @param id - ID of the profile
+   */
+  async delete(id: string): Promise<void> {
+    try {
+      await prisma.matchingProfile.delete({ where: { id } });
+    } catch (error) {
+      logger.error('Failed to delete matching profile', { profileId: id, error });
+      throw errorFactory.createInternalServerError('Failed to delete matching profile', { profileId: id }, error as Error);
+    }
+  }
+}
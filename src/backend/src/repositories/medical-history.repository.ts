@@ -0,0 +1,164 @@
+import { v4 as uuidv4 } from 'uuid'; // uuid@^9.0.0
+import { prisma, executeWithTransaction } from '../config/database';
+import { ClientProfile } from '../types/user.types';
+import {
+  MedicalHistoryConflict,
+  MedicalHistoryConflictStatus,
+  MedicalHistoryImport
+} from '../types/medical-history.types';
+import { errorFactory } from '../utils/error-handler';
+import { logger } from '../utils/logger';
+
+/**
+ * Client profile fields that medical history imports and conflict resolutions change
+ */
+export type MedicalHistoryProfileUpdate = Partial<Pick<ClientProfile, 'medicalInformation' | 'dateOfBirth' | 'gender'>>;
+
+/**
+ * Conflict to record with an import
+ */
+export type NewMedicalHistoryConflict = Omit<
+  MedicalHistoryConflict,
+  'id' | 'importId' | 'status' | 'resolvedById' | 'resolvedAt' | 'resolutionNote' | 'createdAt'
+>;
+
+/**
+ * Converts a profile update to its database representation, where medical information is
+ * stored as serialized JSON
+ * @param update - The profile update
+ * @returns Data for the client profile update
+ */
+function toProfileData(update: MedicalHistoryProfileUpdate): Record<string, any> {
+  return {
+    ...update,
+    ...(update.medicalInformation ? { medicalInformation: JSON.stringify(update.medicalInformation) } : {})
+  };
+}
+
+/**
+ * Repository for FHIR medical history imports and the conflicts they raise
+ */
+export class MedicalHistoryRepository {
+  /**
+   * Records an import and its conflicts and applies the merged medical history to the
+   * client's profile in a single transaction
+   * @param profileId - ID of the client profile
+   * @param profileUpdate - Changes to the client profile
+   * @param data - The import to record
+   * @param conflicts - Conflicts raised by the import
+   * @returns The recorded import and conflicts
+   */
+  async saveImport(
+    profileId: string,
+    profileUpdate: MedicalHistoryProfileUpdate,
+    data: Omit<MedicalHistoryImport, 'createdAt'>,
+    conflicts: NewMedicalHistoryConflict[]
+  ): Promise<{ import: MedicalHistoryImport; conflicts: MedicalHistoryConflict[] }> {
+    try {
+      return await executeWithTransaction(async (tx) => {
+        const medicalHistoryImport = await tx.medicalHistoryImport.create({
+          data
+        });
+
+        const createdConflicts: MedicalHistoryConflict[] = [];
+        for (const conflict of conflicts) {
+          const created = await tx.medicalHistoryConflict.create({
+            data: {
+              ...conflict,
+              id: uuidv4(),
+              importId: medicalHistoryImport.id,
+              status: MedicalHistoryConflictStatus.PENDING,
+              resolvedById: null,
+              resolvedAt: null,
+              resolutionNote: null
+            }
+          });
+          createdConflicts.push(created as MedicalHistoryConflict);
+        }
+
+        await tx.clientProfile.update({
+          where: { id: profileId },
+          data: toProfileData(profileUpdate)
+        });
+
+        return { import: medicalHistoryImport as MedicalHistoryImport, conflicts: createdConflicts };
+      });
+    } catch (error) {
+      logger.error('Failed to save medical history import', { clientId: data.clientId, error });
+      throw errorFactory.createInternalServerError('Failed to save medical history import', { clientId: data.clientId }, error as Error);
+    }
+  }
+
+  /**
+   * Retrieves the conflicts raised for a client, newest first
+   * @param clientId - User ID of the client
+   * @param status - Optional review state to filter by
+   * @returns The client's conflicts
+   */
+  async findConflicts(clientId: string, status?: MedicalHistoryConflictStatus): Promise<MedicalHistoryConflict[]> {
+    try {
+      const conflicts = await prisma.medicalHistoryConflict.findMany({
+        where: { clientId, ...(status ? { status } : {}) },
+        orderBy: { createdAt: 'desc' }
+      });
+
+      return conflicts as MedicalHistoryConflict[];
+    } catch (error) {
+      logger.error('Failed to retrieve medical history conflicts', { clientId, error });
+      throw errorFactory.createInternalServerError('Failed to retrieve medical history conflicts', { clientId }, error as Error);
+    }
+  }
+
+  /**
+   * Retrieves a conflict by its ID
+   * @param id - ID of the conflict
+   * @returns The conflict, or null if it does not exist
+   */
+  async findConflictById(id: string): Promise<MedicalHistoryConflict | null> {
+    try {
+      const conflict = await prisma.medicalHistoryConflict.findUnique({ where: { id } });
+
+      return conflict as MedicalHistoryConflict | null;
+    } catch (error) {
+      logger.error('Failed to retrieve medical history conflict', { conflictId: id, error });
+      throw errorFactory.createInternalServerError('Failed to retrieve medical history conflict', { conflictId: id }, error as Error);
+    }
+  }
+
+  /**
+   * Records the resolution of a conflict, applying any resulting profile changes in the
+   * same transaction
+   * @param id - ID of the conflict
+   * @param resolution - The review outcome
+   * @param profileId - ID of the client profile
+   * @param profileUpdate - Changes to the client profile, if the imported value was accepted
+   * @returns The resolved conflict
+   */
+  async resolveConflict(
+    id: string,
+    resolution: Pick<MedicalHistoryConflict, 'status' | 'resolvedById' | 'resolvedAt' | 'resolutionNote'>,
+    profileId: string,
+    profileUpdate?: MedicalHistoryProfileUpdate
+  ): Promise<MedicalHistoryConflict> {
+    try {
+      return await executeWithTransaction(async (tx) => {
+        const conflict = await tx.medicalHistoryConflict.update({
+          where: { id },
+          data: resolution
+        });
+
+        if (profileUpdate) {
+          await tx.clientProfile.update({
+            where: { id: profileId },
+            data: toProfileData(profileUpdate)
+          });
+        }
+
+        return conflict as MedicalHistoryConflict;
+      });
+    } catch (error) {
+      logger.error('Failed to resolve medical history conflict', { conflictId: id, error });
+      throw errorFactory.createInternalServerError('Failed to resolve medical history conflict', { conflictId: id }, error as Error);
+    }
+  }
+}
@@ -0,0 +1,289 @@
+import { prisma } from '../config/database';
+import {
+  Conversation,
+  ConversationFilterParams,
+  ConversationListResponse,
+  ConversationParticipant,
+  ConversationSummary,
+  CreateMessageDTO,
+  Message,
+  MessageAttachment,
+  MessageFilterParams
+} from '../models/message.model';
+import { Roles } from '../constants/roles';
+import { errorFactory } from '../utils/error-handler';
+import { logger } from '../utils/logger';
+
+const DEFAULT_PAGE = 1;
+const DEFAULT_CONVERSATION_LIMIT = 20;
+const DEFAULT_MESSAGE_LIMIT = 50;
+
+// Relations loaded with every message
+const MESSAGE_INCLUDE = {
+  attachments: true,
+  receipts: true
+};
+
+/**
+ * Repository for conversations, messages, attachments and read receipts
+ */
+export class MessageRepository {
+  /**
+   * Creates a conversation together with its participants
+   * @param data - Conversation details
+   * @param participants - Users taking part in the conversation, including the creator
+   * @returns The created conversation
+   */
+  async createConversation(
+    data: Pick<Conversation, 'clientId' | 'subject' | 'createdById'>,
+    participants: Array<{ userId: string; role: Roles }>
+  ): Promise<Conversation> {
+    try {
+      const conversation = await prisma.conversation.create({
+        data: {
+          clientId: data.clientId,
+          subject: data.subject,
+          createdById: data.createdById,
+          lastMessageAt: null,
+          participants: {
+            create: participants.map(participant => ({
+              userId: participant.userId,
+              role: participant.role
+            }))
+          }
+        }
+      });
+
+      return conversation as Conversation;
+    } catch (error) {
+      logger.error('Failed to create conversation', { clientId: data.clientId, error });
+      throw errorFactory.createInternalServerError('Failed to create conversation', { clientId: data.clientId }, error as Error);
+    }
+  }
+
+  /**
+   * Finds a conversation by ID
+   * @param id - ID of the conversation
+   * @returns The conversation if found, null otherwise
+   */
+  async findConversationById(id: string): Promise<Conversation | null> {
+    try {
+      const conversation = await prisma.conversation.findUnique({
+        where: { id }
+      });
+
+      return conversation ? (conversation as Conversation) : null;
+    } catch (error) {
+      logger.error('Failed to find conversation', { conversationId: id, error });
+      throw errorFactory.createInternalServerError('Failed to find conversation', { conversationId: id }, error as Error);
+    }
+  }
+
+  /**
+   * Retrieves the participants of a conversation
+   * @param conversationId - ID of the conversation
+   * @returns Participants of the conversation
+   */
+  async findParticipants(conversationId: string): Promise<ConversationParticipant[]> {
+    try {
+      const participants = await prisma.conversationParticipant.findMany({
+        where: { conversationId },
+        orderBy: { joinedAt: 'asc' }
+      });
+
+      return participants as ConversationParticipant[];
+    } catch (error) {
+      logger.error('Failed to find conversation participants', { conversationId, error });
+      throw errorFactory.createInternalServerError('Failed to find conversation participants', { conversationId }, error as Error);
+    }
+  }
+
+  /**
+   * Retrieves the conversations a user takes part in, most recently active first
+   * @param userId - ID of the participating user
+   * @param filters - Optional client filter and pagination
+   * @returns Paginated conversation summaries with unread counts for the user
+   */
+  async findConversationsForUser(userId: string, filters: ConversationFilterParams = {}): Promise<ConversationListResponse> {
+    const page = filters.page || DEFAULT_PAGE;
+    const limit = filters.limit || DEFAULT_CONVERSATION_LIMIT;
+
+    try {
+      const where = {
+        participants: { some: { userId } },
+        ...(filters.clientId ? { clientId: filters.clientId } : {})
+      };
+
+      const [conversations, total] = await Promise.all([
+        prisma.conversation.findMany({
+          where,
+          include: {
+            participants: { orderBy: { joinedAt: 'asc' } },
+            messages: { orderBy: { createdAt: 'desc' }, take: 1, include: MESSAGE_INCLUDE }
+          },
+          orderBy: [{ lastMessageAt: { sort: 'desc', nulls: 'last' } }, { createdAt: 'desc' }],
+          skip: (page - 1) * limit,
+          take: limit
+        }),
+        prisma.conversation.count({ where })
+      ]);
+
+      const summaries: ConversationSummary[] = await Promise.all(
+        conversations.map(async ({ participants, messages, ...conversation }: any) => ({
+          conversation: conversation as Conversation,
+          participants: participants as ConversationParticipant[],
+          lastMessage: messages.length > 0 ? (messages[0] as Message) : null,
+          unreadCount: await this.countUnread(conversation.id, userId)
+        }))
+      );
+
+      return {
+        conversations: summaries,
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit)
+      };
+    } catch (error) {
+      logger.error('Failed to find conversations', { userId, error });
+      throw errorFactory.createInternalServerError('Failed to find conversations', { userId }, error as Error);
+    }
+  }
+
+  /**
+   * Persists a message with its attachments and bumps the conversation's activity time
+   * @param data - Message details and stored attachment metadata
+   * @returns The created message
+   */
+  async createMessage(data: CreateMessageDTO): Promise<Message> {
+    try {
+      return await prisma.$transaction(async (tx: any) => {
+        const message = await tx.message.create({
+          data: {
+            conversationId: data.conversationId,
+            senderId: data.senderId,
+            body: data.body,
+            attachments: { create: data.attachments }
+          },
+          include: MESSAGE_INCLUDE
+        });
+
+        await tx.conversation.update({
+          where: { id: data.conversationId },
+          data: { lastMessageAt: message.createdAt }
+        });
+
+        return message as Message;
+      });
+    } catch (error) {
+      logger.error('Failed to create message', { conversationId: data.conversationId, error });
+      throw errorFactory.createInternalServerError('Failed to create message', { conversationId: data.conversationId }, error as Error);
+    }
+  }
+
+  /**
+   * Retrieves messages of a conversation, newest first
+   * @param conversationId - ID of the conversation
+   * @param filters - Cursor and page size
+   * @returns Messages with their attachments and read receipts
+   */
+  async findMessages(conversationId: string, filters: MessageFilterParams = {}): Promise<Message[]> {
+    try {
+      const messages = await prisma.message.findMany({
+        where: {
+          conversationId,
+          ...(filters.before ? { createdAt: { lt: filters.before } } : {})
+        },
+        include: MESSAGE_INCLUDE,
+        orderBy: { createdAt: 'desc' },
+        take: filters.limit || DEFAULT_MESSAGE_LIMIT
+      });
+
+      return messages as Message[];
+    } catch (error) {
+      logger.error('Failed to find messages', { conversationId, error });
+      throw errorFactory.createInternalServerError('Failed to find messages', { conversationId }, error as Error);
+    }
+  }
+
+  /**
+   * Finds an attachment belonging to a conversation
+   * @param conversationId - ID of the conversation
+   * @param attachmentId - ID of the attachment
+   * @returns The attachment if it belongs to the conversation, null otherwise
+   */
+  async findAttachment(conversationId: string, attachmentId: string): Promise<MessageAttachment | null> {
+    try {
+      const attachment = await prisma.messageAttachment.findFirst({
+        where: {
+          id: attachmentId,
+          message: { conversationId }
+        }
+      });
+
+      return attachment ? (attachment as MessageAttachment) : null;
+    } catch (error) {
+      logger.error('Failed to find message attachment', { conversationId, attachmentId, error });
+      throw errorFactory.createInternalServerError('Failed to find message attachment', { conversationId, attachmentId }, error as Error);
+    }
+  }
+
+  /**
+   * Records read receipts for every message in a conversation the user has not read yet
+   * @param conversationId - ID of the conversation
+   * @param userId - ID of the reader
+   * @param readAt - Time of reading; messages sent after this time are left unread
+   * @returns IDs of the messages that received a new receipt
+   */
+  async markAsRead(conversationId: string, userId: string, readAt: Date): Promise<string[]> {
+    try {
+      return await prisma.$transaction(async (tx: any) => {
+        const unreadMessages = await tx.message.findMany({
+          where: {
+            conversationId,
+            senderId: { not: userId },
+            createdAt: { lte: readAt },
+            receipts: { none: { userId } }
+          },
+          select: { id: true }
+        });
+
+        const messageIds = unreadMessages.map((message: { id: string }) => message.id);
+        if (messageIds.length === 0) {
+          return [];
+        }
+
+        await tx.messageReceipt.createMany({
+          data: messageIds.map((messageId: string) => ({ messageId, userId, readAt })),
+          skipDuplicates: true
+        });
+
+        return messageIds;
+      });
+    } catch (error) {
+      logger.error('Failed to record read receipts', { conversationId, userId, error });
+      throw errorFactory.createInternalServerError('Failed to record read receipts', { conversationId, userId }, error as Error);
+    }
+  }
+
+  /**
+   * Counts messages in a conversation the user has not read
+   * @param conversationId - ID of the conversation
+   * @param userId - ID of the reader
+   * @returns Number of unread messages
+   */
+  async countUnread(conversationId: string, userId: string): Promise<number> {
+    try {
+      return await prisma.message.count({
+        where: {
+          conversationId,
+          senderId: { not: userId },
+          receipts: { none: { userId } }
+        }
+      });
+    } catch (error) {
+      logger.error('Failed to count unread messages', { conversationId, userId, error });
+      throw errorFactory.createInternalServerError('Failed to count unread messages', { conversationId, userId }, error as Error);
+    }
+  }
+}
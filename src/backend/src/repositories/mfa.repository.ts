@@ -0,0 +1,239 @@
+import { prisma } from '../config/database';
+import { MfaPolicy, UserMfa } from '../models/mfa.model';
+import { Roles } from '../constants/roles';
+import { errorFactory } from '../utils/error-handler';
+import { logger } from '../utils/logger';
+
+/**
+ * Repository for multi-factor authentication enrollments and per-role MFA policies
+ */
+export class MfaRepository {
+  /**
+   * Finds the MFA enrollment of a user
+   * @param userId - ID of the user
+   * @returns The enrollment if one exists, null otherwise
+   */
+  async findByUserId(userId: string): Promise<UserMfa | null> {
+    try {
+      const userMfa = await prisma.userMfa.findUnique({
+        where: { userId }
+      });
+
+      return userMfa ? (userMfa as UserMfa) : null;
+    } catch (error) {
+      logger.error('Failed to find MFA enrollment', { userId, error });
+      throw errorFactory.createInternalServerError('Failed to find MFA enrollment', { userId }, error as Error);
+    }
+  }
+
+  /**
+   * Starts (or restarts) enrollment with a new secret. Any unconfirmed enrollment is replaced.
+   * @param userId - ID of the user
+   * @param encryptedSecret - The encrypted TOTP secret
+   * @returns The pending enrollment
+   */
+  async savePendingEnrollment(userId: string, encryptedSecret: string): Promise<UserMfa> {
+    try {
+      const userMfa = await prisma.userMfa.upsert({
+        where: { userId },
+        create: {
+          userId,
+          secret: encryptedSecret,
+          isEnabled: false,
+          recoveryCodes: [],
+          lastUsedTimeStep: null,
+          enabledAt: null
+        },
+        update: {
+          secret: encryptedSecret,
+          isEnabled: false,
+          recoveryCodes: [],
+          lastUsedTimeStep: null,
+          enabledAt: null
+        }
+      });
+
+      return userMfa as UserMfa;
+    } catch (error) {
+      logger.error('Failed to save MFA enrollment', { userId, error });
+      throw errorFactory.createInternalServerError('Failed to save MFA enrollment', { userId }, error as Error);
+    }
+  }
+
+  /**
+   * Confirms a pending enrollment
+   * @param userId - ID of the user
+   * @param recoveryCodeHashes - Hashes of the issued recovery codes
+   * @param timeStep - The time step of the code used to confirm enrollment
+   * @returns The enabled enrollment
+   */
+  async enable(userId: string, recoveryCodeHashes: string[], timeStep: number): Promise<UserMfa> {
+    try {
+      const userMfa = await prisma.userMfa.update({
+        where: { userId },
+        data: {
+          isEnabled: true,
+          recoveryCodes: recoveryCodeHashes,
+          lastUsedTimeStep: timeStep,
+          enabledAt: new Date()
+        }
+      });
+
+      return userMfa as UserMfa;
+    } catch (error) {
+      logger.error('Failed to enable MFA', { userId, error });
+      throw errorFactory.createInternalServerError('Failed to enable MFA', { userId }, error as Error);
+    }
+  }
+
+  /**
+   * Records a TOTP time step as used, unless it (or a later step) was already used
+   * @param userId - ID of the user
+   * @param timeStep - The accepted time step
+   * @returns True if the time step was recorded, false if it had already been used
+   */
+  async markTimeStepUsed(userId: string, timeStep: number): Promise<boolean> {
+    try {
+      const result = await prisma.userMfa.updateMany({
+        where: {
+          userId,
+          OR: [{ lastUsedTimeStep: null }, { lastUsedTimeStep: { lt: timeStep } }]
+        },
+        data: { lastUsedTimeStep: timeStep }
+      });
+
+      return result.count > 0;
+    } catch (error) {
+      logger.error('Failed to record MFA code use', { userId, error });
+      throw errorFactory.createInternalServerError('Failed to record MFA code use', { userId }, error as Error);
+    }
+  }
+
+  /**
+   * Consumes a recovery code so it cannot be used again
+   * @param userId - ID of the user
+   * @param codeHash - Hash of the recovery code
+   * @returns True if the code was unused and has now been consumed
+   */
+  async consumeRecoveryCode(userId: string, codeHash: string): Promise<boolean> {
+    try {
+      return await prisma.$transaction(async (tx: any) => {
+        const userMfa = await tx.userMfa.findUnique({ where: { userId } });
+        if (!userMfa || !userMfa.recoveryCodes.includes(codeHash)) {
+          return false;
+        }
+
+        const result = await tx.userMfa.updateMany({
+          where: { userId, recoveryCodes: { has: codeHash } },
+          data: { recoveryCodes: userMfa.recoveryCodes.filter((hash: string) => hash !== codeHash) }
+        });
+
+        return result.count > 0;
+      });
+    } catch (error) {
+      logger.error('Failed to consume recovery code', { userId, error });
+      throw errorFactory.createInternalServerError('Failed to consume recovery code', { userId }, error as Error);
+    }
+  }
+
+  /**
+   * Replaces all recovery codes of a user
+   * @param userId - ID of the user
+   * @param recoveryCodeHashes - Hashes of the new recovery codes
+   * @returns The updated enrollment
+   */
+  async replaceRecoveryCodes(userId: string, recoveryCodeHashes: string[]): Promise<UserMfa> {
+    try {
+      const userMfa = await prisma.userMfa.update({
+        where: { userId },
+        data: { recoveryCodes: recoveryCodeHashes }
+      });
+
+      return userMfa as UserMfa;
+    } catch (error) {
+      logger.error('Failed to replace recovery codes', { userId, error });
+      throw errorFactory.createInternalServerError('Failed to replace recovery codes', { userId }, error as Error);
+    }
+  }
+
+  /**
+   * Removes the MFA enrollment of a user
+   * @param userId - ID of the user
+   * @returns True if an enrollment was removed
+   */
+  async deleteByUserId(userId: string): Promise<boolean> {
+    try {
+      const result = await prisma.userMfa.deleteMany({
+        where: { userId }
+      });
+
+      return result.count > 0;
+    } catch (error) {
+      logger.error('Failed to remove MFA enrollment', { userId, error });
+      throw errorFactory.createInternalServerError('Failed to remove MFA enrollment', { userId }, error as Error);
+    }
+  }
+
+  /**
+   * Retrieves the MFA policy of every role. Roles without a stored policy do not require MFA.
+   * @returns MFA policies for all roles
+   */
+  async findPolicies(): Promise<MfaPolicy[]> {
+    try {
+      const storedPolicies = await prisma.mfaPolicy.findMany();
+
+      return Object.values(Roles).map(role => {
+        const storedPolicy = storedPolicies.find((policy: any) => policy.role === role);
+        return {
+          role,
+          isRequired: storedPolicy?.isRequired ?? false,
+          updatedBy: storedPolicy?.updatedBy ?? null,
+          updatedAt: storedPolicy?.updatedAt ?? null
+        };
+      });
+    } catch (error) {
+      logger.error('Failed to find MFA policies', { error });
+      throw errorFactory.createInternalServerError('Failed to find MFA policies', {}, error as Error);
+    }
+  }
+
+  /**
+   * Checks whether MFA is mandatory for a role
+   * @param role - The role to check
+   * @returns True if users with the role must use MFA
+   */
+  async isRequiredForRole(role: Roles): Promise<boolean> {
+    try {
+      const policy = await prisma.mfaPolicy.findUnique({
+        where: { role }
+      });
+
+      return policy?.isRequired ?? false;
+    } catch (error) {
+      logger.error('Failed to find MFA policy', { role, error });
+      throw errorFactory.createInternalServerError('Failed to find MFA policy', { role }, error as Error);
+    }
+  }
+
+  /**
+   * Sets whether MFA is mandatory for a role
+   * @param role - The role to update
+   * @param isRequired - Whether MFA is mandatory
+   * @param updatedBy - ID of the administrator making the change
+   * @returns The updated policy
+   */
+  async savePolicy(role: Roles, isRequired: boolean, updatedBy: string): Promise<MfaPolicy> {
+    try {
+      const policy = await prisma.mfaPolicy.upsert({
+        where: { role },
+        create: { role, isRequired, updatedBy, updatedAt: new Date() },
+        update: { isRequired, updatedBy, updatedAt: new Date() }
+      });
+
+      return policy as MfaPolicy;
+    } catch (error) {
+      logger.error('Failed to save MFA policy', { role, error });
+      throw errorFactory.createInternalServerError('Failed to save MFA policy', { role }, error as Error);
+    }
+  }
+}
@@ -0,0 +1,146 @@
+import { v4 as uuidv4 } from 'uuid'; // uuid@^9.0.0
+import { prisma } from '../config/database';
+import {
+  PriorAuthorization,
+  PriorAuthorizationSettings,
+  PriorAuthorizationStatus
+} from '../types/prior-authorization.types';
+import { errorFactory } from '../utils/error-handler';
+import { logger } from '../utils/logger';
+
+/**
+ * Repository for the prior authorizations payers grant for service items
+ */
+export class PriorAuthorizationRepository {
+  /**
+   * Records a prior authorization
+   * @param data - The authorization, without the alerts sent for it
+   * @returns The recorded authorization
+   */
+  async create(
+    data: Omit<PriorAuthorization, 'id' | 'lowUnitsAlertedAt' | 'expiryAlertedAt' | 'createdAt' | 'updatedAt'>
+  ): Promise<PriorAuthorization> {
+    try {
+      const authorization = await prisma.priorAuthorization.create({
+        data: { ...data, id: uuidv4(), lowUnitsAlertedAt: null, expiryAlertedAt: null }
+      });
+
+      return authorization as PriorAuthorization;
+    } catch (error) {
+      logger.error('Failed to record prior authorization', { serviceItemId: data.serviceItemId, error });
+      throw errorFactory.createInternalServerError('Failed to record prior authorization', { serviceItemId: data.serviceItemId }, error as Error);
+    }
+  }
+
+  /**
+   * Retrieves a prior authorization by its ID
+   * @param id - ID of the prior authorization
+   * @returns The authorization, or null if it does not exist
+   */
+  async findById(id: string): Promise<PriorAuthorization | null> {
+    try {
+      const authorization = await prisma.priorAuthorization.findUnique({ where: { id } });
+
+      return authorization as PriorAuthorization | null;
+    } catch (error) {
+      logger.error('Failed to retrieve prior authorization', { priorAuthorizationId: id, error });
+      throw errorFactory.createInternalServerError('Failed to retrieve prior authorization', { priorAuthorizationId: id }, error as Error);
+    }
+  }
+
+  /**
+   * Lists the prior authorizations of a services plan
+   * @param servicesPlanId - ID of the services plan
+   * @returns The authorizations, latest ending first
+   */
+  async findByServicesPlanId(servicesPlanId: string): Promise<PriorAuthorization[]> {
+    try {
+      const authorizations = await prisma.priorAuthorization.findMany({
+        where: { servicesPlanId },
+        orderBy: { endDate: 'desc' }
+      });
+
+      return authorizations as PriorAuthorization[];
+    } catch (error) {
+      logger.error('Failed to list prior authorizations', { servicesPlanId, error });
+      throw errorFactory.createInternalServerError('Failed to list prior authorizations', { servicesPlanId }, error as Error);
+    }
+  }
+
+  /**
+   * Lists the prior authorizations of a service item
+   * @param serviceItemId - ID of the service item
+   * @returns The authorizations, soonest ending first
+   */
+  async findByServiceItemId(serviceItemId: string): Promise<PriorAuthorization[]> {
+    try {
+      const authorizations = await prisma.priorAuthorization.findMany({
+        where: { serviceItemId },
+        orderBy: { endDate: 'asc' }
+      });
+
+      return authorizations as PriorAuthorization[];
+    } catch (error) {
+      logger.error('Failed to list prior authorizations', { serviceItemId, error });
+      throw errorFactory.createInternalServerError('Failed to list prior authorizations', { serviceItemId }, error as Error);
+    }
+  }
+
+  /**
+   * Lists the approved prior authorizations that have not yet ended
+   * @param today - Today's ISO date
+   * @returns The authorizations
+   */
+  async findApprovedCurrent(today: string): Promise<PriorAuthorization[]> {
+    try {
+      const authorizations = await prisma.priorAuthorization.findMany({
+        where: { status: PriorAuthorizationStatus.APPROVED, endDate: { gte: today } }
+      });
+
+      return authorizations as PriorAuthorization[];
+    } catch (error) {
+      logger.error('Failed to list current prior authorizations', { error });
+      throw errorFactory.createInternalServerError('Failed to list current prior authorizations', {}, error as Error);
+    }
+  }
+
+  /**
+   * Changes a prior authorization
+   * @param id - ID of the prior authorization
+   * @param data - The complete new settings and when alerts were last sent
+   * @returns The updated authorization
+   */
+  async update(
+    id: string,
+    data: PriorAuthorizationSettings & Pick<PriorAuthorization, 'lowUnitsAlertedAt' | 'expiryAlertedAt'>
+  ): Promise<PriorAuthorization> {
+    try {
+      const authorization = await prisma.priorAuthorization.update({
+        where: { id },
+        data: { ...data, updatedAt: new Date() }
+      });
+
+      return authorization as PriorAuthorization;
+    } catch (error) {
+      logger.error('Failed to update prior authorization', { priorAuthorizationId: id, error });
+      throw errorFactory.createInternalServerError('Failed to update prior authorization', { priorAuthorizationId: id }, error as Error);
+    }
+  }
+
+  /**
+   * Records that case managers were alerted to a prior authorization
+   * @param id - ID of the prior authorization
+   * @param alertedAt - When each kind of alert was sent
+   */
+  async markAlerted(
+    id: string,
+    alertedAt: Partial<Pick<PriorAuthorization, 'lowUnitsAlertedAt' | 'expiryAlertedAt'>>
+  ): Promise<void> {
+    try {
+      await prisma.priorAuthorization.update({ where: { id }, data: alertedAt });
+    } catch (error) {
+      logger.error('Failed to record prior authorization alert', { priorAuthorizationId: id, error });
+      throw errorFactory.createInternalServerError('Failed to record prior authorization alert', { priorAuthorizationId: id }, error as Error);
+    }
+  }
+}
@@ -17,6 +17,7 @@ import {
 } from '../models/provider-availability.model';
 import { ServiceType } from '../constants/service-types';
 import { logger } from '../utils/logger';
+import { DEFAULT_TIMEZONE } from '../utils/date-time';
 
 /**
  * Generates a cache key for provider availability data
@@ -70,6 +71,18 @@ export class ProviderAvailabilityRepository implements IProviderAvailabilityRepo
         return null;
       }
       
+      // Recurring schedules are kept in the provider's timezone
+      const providerProfile = await prisma.providerProfile.findUnique({
+        where: { userId: providerId },
+        select: { timezone: true }
+      });
+      
+      // Personal events from connected external calendars that have not yet ended
+      const busyPeriods = await prisma.calendarBusyPeriod.findMany({
+        where: { providerId, endTime: { gt: new Date() } },
+        orderBy: { startTime: 'asc' }
+      });
+      
       // Transform database record to domain model
       const availability: Availability = {
         providerId: availabilityRecord.providerId,
@@ -106,6 +119,15 @@ export class ProviderAvailabilityRepository implements IProviderAvailabilityRepo
             bookingId: slot.bookingId
           }))
         })),
+        busyPeriods: busyPeriods.map(period => ({
+          id: period.id,
+          providerId: period.providerId,
+          connectionId: period.connectionId,
+          externalEventId: period.externalEventId,
+          startTime: period.startTime,
+          endTime: period.endTime
+        })),
+        timezone: providerProfile?.timezone || DEFAULT_TIMEZONE,
         lastUpdated: availabilityRecord.lastUpdated
       };
       
@@ -253,6 +275,8 @@ export class ProviderAvailabilityRepository implements IProviderAvailabilityRepo
             reason: exception.reason,
             alternativeSlots: exception.alternativeSlots || null
           })),
+          busyPeriods: availabilityModel.busyPeriods,
+          timezone: availabilityModel.timezone,
           lastUpdated: createdAvailability.lastUpdated
         };
         
@@ -668,6 +692,131 @@ export class ProviderAvailabilityRepository implements IProviderAvailabilityRepo
     }
   }
   
+  /**
+   * Finds an unbooked stored time slot covering the requested window, or stores a new one
+   * when the window is only covered by the provider's recurring schedule. A stored slot
+   * longer than the window is split, so that the rest of it stays open for other bookings.
+   *
+   * @param providerId - The ID of the provider
+   * @param startTime - Start time of the window
+   * @param endTime - End time of the window
+   * @param serviceType - Service type for the slot
+   * @returns Promise resolving to the stored time slot, or null if the provider has no availability record
+   */
+  async findOrCreateTimeSlot(
+    providerId: string,
+    startTime: Date,
+    endTime: Date,
+    serviceType: ServiceType
+  ): Promise<TimeSlot | null> {
+    try {
+      const availabilityRecord = await prisma.providerAvailability.findUnique({
+        where: { providerId }
+      });
+
+      if (!availabilityRecord) {
+        logger.warn('Provider availability record not found for time slot', { providerId });
+        return null;
+      }
+
+      // Prefer an existing unbooked slot that fully covers the requested window
+      const existingSlot = await prisma.timeSlot.findFirst({
+        where: {
+          providerId,
+          serviceType,
+          isBooked: false,
+          startTime: { lte: startTime },
+          endTime: { gte: endTime }
+        }
+      });
+
+      const openSlot = (slotStart: Date, slotEnd: Date): Record<string, unknown> => ({
+        id: uuidv4(),
+        providerId,
+        startTime: slotStart,
+        endTime: slotEnd,
+        serviceType,
+        isBooked: false,
+        bookingId: null,
+        providerAvailabilityId: availabilityRecord.id
+      });
+
+      let slot = existingSlot;
+      if (!slot) {
+        slot = await prisma.timeSlot.create({ data: openSlot(startTime, endTime) });
+      } else if (slot.startTime < startTime || slot.endTime > endTime) {
+        // Narrow the stored slot to the window and keep the time either side of it open
+        const [narrowed] = await prisma.$transaction([
+          prisma.timeSlot.update({ where: { id: slot.id }, data: { startTime, endTime } }),
+          ...(slot.startTime < startTime ? [prisma.timeSlot.create({ data: openSlot(slot.startTime, startTime) })] : []),
+          ...(slot.endTime > endTime ? [prisma.timeSlot.create({ data: openSlot(endTime, slot.endTime) })] : [])
+        ]);
+        slot = narrowed;
+      }
+
+      return {
+        id: slot.id,
+        providerId: slot.providerId,
+        startTime: slot.startTime,
+        endTime: slot.endTime,
+        serviceType: slot.serviceType as ServiceType,
+        isBooked: slot.isBooked,
+        bookingId: slot.bookingId
+      };
+    } catch (error) {
+      logger.error('Error finding or creating time slot', {
+        providerId,
+        startTime,
+        endTime,
+        serviceType,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Finds the time slot that is booked by a specific booking
+   *
+   * @param providerId - The ID of the provider
+   * @param bookingId - The ID of the booking
+   * @returns Promise resolving to the booked time slot if found, null otherwise
+   */
+  async findTimeSlotByBookingId(
+    providerId: string,
+    bookingId: string
+  ): Promise<TimeSlot | null> {
+    try {
+      const slot = await prisma.timeSlot.findFirst({
+        where: {
+          providerId,
+          bookingId
+        }
+      });
+
+      if (!slot) {
+        return null;
+      }
+
+      return {
+        id: slot.id,
+        providerId: slot.providerId,
+        startTime: slot.startTime,
+        endTime: slot.endTime,
+        serviceType: slot.serviceType as ServiceType,
+        isBooked: slot.isBooked,
+        bookingId: slot.bookingId
+      };
+    } catch (error) {
+      logger.error('Error finding time slot by booking', {
+        providerId,
+        bookingId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      throw error;
+    }
+  }
+
   /**
    * Finds providers that have availability within a specified date range and service type
    * 
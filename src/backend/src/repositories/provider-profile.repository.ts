@@ -36,6 +36,7 @@ function mapDbProviderToModel(dbProvider: any): ProviderProfile {
     insuranceAccepted: dbProvider.insuranceAccepted || [],
     address: dbProvider.address,
     phone: dbProvider.phone,
+    timezone: dbProvider.timezone,
     averageRating: dbProvider.averageRating || 0,
     reviewCount: dbProvider.reviewCount || 0,
     createdAt: dbProvider.createdAt,
@@ -187,6 +188,7 @@ export class ProviderProfileRepository implements IProviderRepository {
             insuranceAccepted: providerModel.insuranceAccepted,
             address: providerModel.address,
             phone: providerModel.phone,
+            timezone: providerModel.timezone,
             averageRating: providerModel.averageRating,
             reviewCount: providerModel.reviewCount,
             createdAt: providerModel.createdAt,
@@ -261,6 +263,7 @@ export class ProviderProfileRepository implements IProviderRepository {
             insuranceAccepted: providerModel.insuranceAccepted,
             address: providerModel.address,
             phone: providerModel.phone,
+            timezone: providerModel.timezone,
             updatedAt: providerModel.updatedAt
           }
         });
@@ -0,0 +1,189 @@
+import { v4 as uuidv4 } from 'uuid'; // uuid@^9.0.0
+import { prisma } from '../config/database';
+import { ServiceType } from '../constants/service-types';
+import { FundingSourceType } from '../models/funding-source.model';
+import { RateSchedule, RateScheduleFilters, RateScheduleSettings } from '../types/rate-schedule.types';
+import { errorFactory } from '../utils/error-handler';
+import { logger } from '../utils/logger';
+
+/**
+ * Builds a condition matching a field that equals a value or is unset, as unset scope
+ * fields of a rate schedule match everything
+ * @param field - Name of the field
+ * @param value - Value to match, or null to match only unset fields
+ * @returns Prisma where condition
+ */
+function matchesOrUnset(field: string, value: string | null): Record<string, any> {
+  return value === null ? { [field]: null } : { OR: [{ [field]: value }, { [field]: null }] };
+}
+
+/**
+ * Repository for the rate schedules that make up the fee tables used in cost estimates
+ */
+export class RateScheduleRepository {
+  /**
+   * Creates a rate schedule
+   * @param data - The rate schedule settings
+   * @param createdById - ID of the administrator creating the schedule
+   * @returns The created rate schedule
+   */
+  async create(data: RateScheduleSettings, createdById: string): Promise<RateSchedule> {
+    try {
+      const schedule = await prisma.rateSchedule.create({
+        data: { ...data, id: uuidv4(), createdById }
+      });
+
+      return schedule as RateSchedule;
+    } catch (error) {
+      logger.error('Failed to create rate schedule', { serviceType: data.serviceType, error });
+      throw errorFactory.createInternalServerError('Failed to create rate schedule', { serviceType: data.serviceType }, error as Error);
+    }
+  }
+
+  /**
+   * Retrieves a rate schedule by its ID
+   * @param id - ID of the rate schedule
+   * @returns The rate schedule, or null if it does not exist
+   */
+  async findById(id: string): Promise<RateSchedule | null> {
+    try {
+      const schedule = await prisma.rateSchedule.findUnique({ where: { id } });
+
+      return schedule as RateSchedule | null;
+    } catch (error) {
+      logger.error('Failed to retrieve rate schedule', { rateScheduleId: id, error });
+      throw errorFactory.createInternalServerError('Failed to retrieve rate schedule', { rateScheduleId: id }, error as Error);
+    }
+  }
+
+  /**
+   * Lists rate schedules
+   * @param filters - Filters for the schedules
+   * @returns The matching schedules, by service type and then most recent first
+   */
+  async findAll(filters: RateScheduleFilters = {}): Promise<RateSchedule[]> {
+    try {
+      const where: Record<string, any> = {};
+      if (filters.serviceType) {
+        where.serviceType = filters.serviceType;
+      }
+      if (filters.fundingSourceType) {
+        where.fundingSourceType = filters.fundingSourceType;
+      }
+      if (filters.region) {
+        where.region = filters.region;
+      }
+      if (filters.providerId) {
+        where.providerId = filters.providerId;
+      }
+      if (filters.activeOn) {
+        where.effectiveFrom = { lte: filters.activeOn };
+        where.OR = [{ effectiveTo: null }, { effectiveTo: { gte: filters.activeOn } }];
+      }
+
+      const schedules = await prisma.rateSchedule.findMany({
+        where,
+        orderBy: [{ serviceType: 'asc' }, { effectiveFrom: 'desc' }]
+      });
+
+      return schedules as RateSchedule[];
+    } catch (error) {
+      logger.error('Failed to list rate schedules', { filters, error });
+      throw errorFactory.createInternalServerError('Failed to list rate schedules', { filters }, error as Error);
+    }
+  }
+
+  /**
+   * Lists the rate schedules that could apply to services delivered under a funding source
+   * type in a region by some providers: those for the service types that match each scope
+   * field or leave it unset. Effective dates are not checked.
+   * @param serviceTypes - Service types to find rates for
+   * @param fundingSourceType - Type of funding source paying for the services
+   * @param region - Region the services are delivered in, if known
+   * @param providerIds - Providers delivering the services
+   * @returns The candidate schedules
+   */
+  async findCandidates(
+    serviceTypes: ServiceType[],
+    fundingSourceType: FundingSourceType,
+    region: string | null,
+    providerIds: string[]
+  ): Promise<RateSchedule[]> {
+    try {
+      const schedules = await prisma.rateSchedule.findMany({
+        where: {
+          serviceType: { in: serviceTypes },
+          AND: [
+            matchesOrUnset('fundingSourceType', fundingSourceType),
+            matchesOrUnset('region', region),
+            { OR: [{ providerId: { in: providerIds } }, { providerId: null }] }
+          ]
+        }
+      });
+
+      return schedules as RateSchedule[];
+    } catch (error) {
+      logger.error('Failed to find applicable rate schedules', { serviceTypes, fundingSourceType, region, error });
+      throw errorFactory.createInternalServerError('Failed to find applicable rate schedules', { serviceTypes, fundingSourceType, region }, error as Error);
+    }
+  }
+
+  /**
+   * Lists the rate schedules with exactly the same scope, so that overlapping effective
+   * dates can be detected
+   * @param settings - The scope to match
+   * @returns Schedules for the same service type, funding source type, region and provider
+   */
+  async findSameScope(
+    settings: Pick<RateScheduleSettings, 'serviceType' | 'fundingSourceType' | 'region' | 'providerId'>
+  ): Promise<RateSchedule[]> {
+    try {
+      const schedules = await prisma.rateSchedule.findMany({
+        where: {
+          serviceType: settings.serviceType,
+          fundingSourceType: settings.fundingSourceType,
+          region: settings.region,
+          providerId: settings.providerId
+        }
+      });
+
+      return schedules as RateSchedule[];
+    } catch (error) {
+      logger.error('Failed to find rate schedules', { serviceType: settings.serviceType, error });
+      throw errorFactory.createInternalServerError('Failed to find rate schedules', { serviceType: settings.serviceType }, error as Error);
+    }
+  }
+
+  /**
+   * Changes a rate schedule
+   * @param id - ID of the rate schedule
+   * @param data - The complete new settings
+   * @returns The updated rate schedule
+   */
+  async update(id: string, data: RateScheduleSettings): Promise<RateSchedule> {
+    try {
+      const schedule = await prisma.rateSchedule.update({
+        where: { id },
+        data: { ...data, updatedAt: new Date() }
+      });
+
+      return schedule as RateSchedule;
+    } catch (error) {
+      logger.error('Failed to update rate schedule', { rateScheduleId: id, error });
+      throw errorFactory.createInternalServerError('Failed to update rate schedule', { rateScheduleId: id }, error as Error);
+    }
+  }
+
+  /**
+   * Deletes a rate schedule
+   * @param id - ID of the rate schedule
+   */
+  async delete(id: string): Promise<void> {
+    try {
+      await prisma.rateSchedule.delete({ where: { id } });
+    } catch (error) {
+      logger.error('Failed to delete rate schedule', { rateScheduleId: id, error });
+      throw errorFactory.createInternalServerError('Failed to delete rate schedule', { rateScheduleId: id }, error as Error);
+    }
+  }
+}
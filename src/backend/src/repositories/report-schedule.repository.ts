@@ -0,0 +1,130 @@
+import { v4 as uuidv4 } from 'uuid'; // uuid@^9.0.0
+import { prisma } from '../config/database';
+import { ReportSchedule } from '../types/analytics.types';
+import { errorFactory } from '../utils/error-handler';
+import { logger } from '../utils/logger';
+
+/**
+ * Report schedule fields set when a schedule is created
+ */
+export type NewReportSchedule = Omit<ReportSchedule, 'id' | 'lastRunAt' | 'lastError' | 'createdAt' | 'updatedAt'>;
+
+/**
+ * Report schedule fields that can be changed after creation
+ */
+export type ReportScheduleUpdate = Partial<Omit<ReportSchedule, 'id' | 'createdById' | 'createdAt' | 'updatedAt'>>;
+
+/**
+ * Repository for saved report definitions and their delivery schedules
+ */
+export class ReportScheduleRepository {
+  /**
+   * Creates a report schedule
+   * @param data - The schedule to create
+   * @returns The created schedule
+   */
+  async create(data: NewReportSchedule): Promise<ReportSchedule> {
+    try {
+      const schedule = await prisma.reportSchedule.create({
+        data: {
+          ...data,
+          id: uuidv4(),
+          lastRunAt: null,
+          lastError: null
+        }
+      });
+
+      return schedule as ReportSchedule;
+    } catch (error) {
+      logger.error('Failed to create report schedule', { createdById: data.createdById, error });
+      throw errorFactory.createInternalServerError('Failed to create report schedule', { createdById: data.createdById }, error as Error);
+    }
+  }
+
+  /**
+   * Retrieves a report schedule by its ID
+   * @param id - ID of the schedule
+   * @returns The schedule, or null if it does not exist
+   */
+  async findById(id: string): Promise<ReportSchedule | null> {
+    try {
+      const schedule = await prisma.reportSchedule.findUnique({ where: { id } });
+
+      return schedule as ReportSchedule | null;
+    } catch (error) {
+      logger.error('Failed to retrieve report schedule', { scheduleId: id, error });
+      throw errorFactory.createInternalServerError('Failed to retrieve report schedule', { scheduleId: id }, error as Error);
+    }
+  }
+
+  /**
+   * Retrieves report schedules ordered by next delivery
+   * @param createdById - Optional creator to restrict the results to
+   * @returns The matching schedules
+   */
+  async findAll(createdById?: string): Promise<ReportSchedule[]> {
+    try {
+      const schedules = await prisma.reportSchedule.findMany({
+        where: createdById ? { createdById } : {},
+        orderBy: { nextRunAt: 'asc' }
+      });
+
+      return schedules as ReportSchedule[];
+    } catch (error) {
+      logger.error('Failed to retrieve report schedules', { createdById, error });
+      throw errorFactory.createInternalServerError('Failed to retrieve report schedules', { createdById }, error as Error);
+    }
+  }
+
+  /**
+   * Retrieves the active schedules whose next delivery is at or before the given time
+   * @param now - Reference time
+   * @returns The due schedules
+   */
+  async findDue(now: Date): Promise<ReportSchedule[]> {
+    try {
+      const schedules = await prisma.reportSchedule.findMany({
+        where: { isActive: true, nextRunAt: { lte: now } },
+        orderBy: { nextRunAt: 'asc' }
+      });
+
+      return schedules as ReportSchedule[];
+    } catch (error) {
+      logger.error('Failed to retrieve due report schedules', { error });
+      throw errorFactory.createInternalServerError('Failed to retrieve due report schedules', {}, error as Error);
+    }
+  }
+
+  /**
+   * Updates a report schedule
+   * @param id - ID of the schedule
+   * @param data - The fields to update
+   * @returns The updated schedule
+   */
+  async update(id: string, data: ReportScheduleUpdate): Promise<ReportSchedule> {
+    try {
+      const schedule = await prisma.reportSchedule.update({
+        where: { id },
+        data
+      });
+
+      return schedule as ReportSchedule;
+    } catch (error) {
+      logger.error('Failed to update report schedule', { scheduleId: id, error });
+      throw errorFactory.createInternalServerError('Failed to update report schedule', { scheduleId: id }, error as Error);
+    }
+  }
+
+  /**
+   * Deletes a report schedule
+   * @param id - ID of the schedule
+   */
+  async delete(id: string): Promise<void> {
+    try {
+      await prisma.reportSchedule.delete({ where: { id } });
+    } catch (error) {
+      logger.error('Failed to delete report schedule', { scheduleId: id, error });
+      throw errorFactory.createInternalServerError('Failed to delete report schedule', { scheduleId: id }, error as Error);
+    }
+  }
+}
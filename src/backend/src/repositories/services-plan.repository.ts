@@ -10,10 +10,13 @@ import {
   UpdateServicesPlanDTO,
   ServicesPlanFilterParams,
   ServiceItem,
+  ServiceCadence,
   FundingSource
 } from '../types/services-plan.types';
+import { InstrumentScore } from '../types/assessment-instrument.types';
 import { PlanStatus } from '../constants/plan-statuses';
 import { ServiceType } from '../constants/service-types';
+import { PaymentStatus, PaymentStatusTransitions } from '../constants/payment-statuses';
 import { prisma, executeWithTransaction } from '../config/database';
 import { errorFactory } from '../utils/error-handler';
 import { logger } from '../utils/logger';
@@ -69,6 +72,8 @@ export class ServicesPlanRepository implements IServicesPlanRepository {
                   description: item.description,
                   frequency: item.frequency,
                   duration: item.duration,
+                  cadence: item.cadence,
+                  unitCost: item.unitCost,
                   estimatedCost: item.estimatedCost,
                   status: 'pending',
                 },
@@ -332,6 +337,8 @@ export class ServicesPlanRepository implements IServicesPlanRepository {
                     description: item.description,
                     frequency: item.frequency,
                     duration: item.duration,
+                    cadence: item.cadence,
+                    unitCost: item.unitCost,
                     estimatedCost: item.estimatedCost,
                     status: item.status,
                   },
@@ -352,6 +359,8 @@ export class ServicesPlanRepository implements IServicesPlanRepository {
                     description: item.description,
                     frequency: item.frequency,
                     duration: item.duration,
+                    cadence: item.cadence,
+                    unitCost: item.unitCost,
                     estimatedCost: item.estimatedCost,
                     status: item.status,
                   },
@@ -717,6 +726,8 @@ export class ServicesPlanRepository implements IServicesPlanRepository {
           description: serviceItem.description,
           frequency: serviceItem.frequency,
           duration: serviceItem.duration,
+          cadence: serviceItem.cadence,
+          unitCost: serviceItem.unitCost,
           estimatedCost: serviceItem.estimatedCost,
           status: serviceItem.status || 'pending',
         },
@@ -765,6 +776,8 @@ export class ServicesPlanRepository implements IServicesPlanRepository {
           description: data.description,
           frequency: data.frequency,
           duration: data.duration,
+          cadence: data.cadence,
+          unitCost: data.unitCost,
           estimatedCost: data.estimatedCost,
           status: data.status,
         },
@@ -787,6 +800,108 @@ export class ServicesPlanRepository implements IServicesPlanRepository {
     }
   }
 
+  /**
+   * Finds a service item by ID
+   * @param serviceItemId The ID of the service item to find
+   * @returns The service item or null if not found
+   */
+  async findServiceItemById(serviceItemId: string): Promise<ServiceItem | null> {
+    try {
+      const serviceItem = await this.prisma.serviceItem.findUnique({
+        where: { id: serviceItemId },
+      });
+
+      return serviceItem ? (serviceItem as unknown as ServiceItem) : null;
+    } catch (error) {
+      logger.error('Error finding service item', { error, serviceItemId });
+      throw error;
+    }
+  }
+
+  /**
+   * Retrieves a batch of service items across all services plans, ordered by ID
+   * @param afterId The ID of the last item of the previous batch, or null for the first batch
+   * @param take The maximum number of items to retrieve
+   * @returns The service items
+   */
+  async findServiceItemBatch(afterId: string | null, take: number): Promise<ServiceItem[]> {
+    try {
+      const serviceItems = await this.prisma.serviceItem.findMany({
+        ...(afterId ? { cursor: { id: afterId }, skip: 1 } : {}),
+        orderBy: { id: 'asc' },
+        take,
+      });
+
+      return serviceItems as unknown as ServiceItem[];
+    } catch (error) {
+      logger.error('Error retrieving service items', { error, afterId });
+      throw error;
+    }
+  }
+
+  /**
+   * Sets the structured cadence of a service item
+   * @param serviceItemId The ID of the service item
+   * @param cadence The cadence
+   * @returns The updated service item
+   */
+  async updateServiceItemCadence(serviceItemId: string, cadence: ServiceCadence): Promise<ServiceItem> {
+    try {
+      const serviceItem = await this.prisma.serviceItem.update({
+        where: { id: serviceItemId },
+        data: { cadence },
+      });
+
+      return serviceItem as unknown as ServiceItem;
+    } catch (error) {
+      logger.error('Error updating service item cadence', { error, serviceItemId });
+      throw error;
+    }
+  }
+
+  /**
+   * Updates the payment status of service items in a services plan.
+   * Items whose current payment status cannot transition to the new status are left unchanged.
+   * @param servicesPlanId The ID of the services plan the items belong to
+   * @param serviceItemIds The IDs of the service items to update
+   * @param paymentStatus The new payment status
+   * @returns The number of service items that were updated
+   */
+  async updateServiceItemPaymentStatus(
+    servicesPlanId: string,
+    serviceItemIds: string[],
+    paymentStatus: PaymentStatus
+  ): Promise<number> {
+    try {
+      logger.info('Updating service item payment status', { servicesPlanId, serviceItemIds, paymentStatus });
+
+      // Only update items in a status that may move to the new payment status
+      const fromStatuses = Object.values(PaymentStatus).filter(status =>
+        PaymentStatusTransitions[status].includes(paymentStatus)
+      );
+
+      const result = await this.prisma.serviceItem.updateMany({
+        where: {
+          id: { in: serviceItemIds },
+          servicesPlanId,
+          paymentStatus: { in: fromStatuses },
+        },
+        data: { paymentStatus },
+      });
+
+      logger.info('Service item payment status updated', {
+        servicesPlanId,
+        paymentStatus,
+        updatedCount: result.count,
+      });
+
+      return result.count;
+    } catch (error) {
+      logger.error('Error updating service item payment status', { error, servicesPlanId, serviceItemIds });
+      throw error;
+    }
+  }
+
   /**
    * Removes a service item from a services plan
    * @param serviceItemId The ID of the service item to remove
@@ -1071,9 +1186,10 @@ export class NeedsAssessmentRepository implements INeedsAssessmentRepository {
    * Creates a new needs assessment in the database
    * @param data The data for the new needs assessment
    * @param createdById The ID of the user creating the assessment
+   * @param scores The scores of the assessment's instrument responses
    * @returns The created needs assessment
    */
-  async create(data: CreateNeedsAssessmentDTO, createdById: string): Promise<NeedsAssessment> {
+  async create(data: CreateNeedsAssessmentDTO, createdById: string, scores: InstrumentScore[] = []): Promise<NeedsAssessment> {
     try {
       logger.info('Creating new needs assessment', { clientId: data.clientId });
 
@@ -1082,6 +1198,8 @@ export class NeedsAssessmentRepository implements INeedsAssessmentRepository {
           clientId: data.clientId,
           createdById,
           assessmentData: data.assessmentData,
+          instrumentResponses: data.instrumentResponses || [],
+          scores,
           notes: data.notes,
         },
       });
@@ -1090,7 +1208,7 @@ export class NeedsAssessmentRepository implements INeedsAssessmentRepository {
         needsAssessmentId: needsAssessment.id 
       });
 
-      return needsAssessment as unknown as NeedsAssessment;
+      return this.toNeedsAssessment(needsAssessment);
     } catch (error) {
       logger.error('Error creating needs assessment', { error, data });
       throw error;
@@ -1110,7 +1228,7 @@ export class NeedsAssessmentRepository implements INeedsAssessmentRepository {
         where: { id },
       });
 
-      return needsAssessment as unknown as NeedsAssessment;
+      return needsAssessment ? this.toNeedsAssessment(needsAssessment) : null;
     } catch (error) {
       logger.error('Error finding needs assessment', { error, id });
       throw error;
@@ -1131,7 +1249,7 @@ export class NeedsAssessmentRepository implements INeedsAssessmentRepository {
         orderBy: { createdAt: 'desc' },
       });
 
-      return needsAssessments as unknown as NeedsAssessment[];
+      return needsAssessments.map((needsAssessment: any) => this.toNeedsAssessment(needsAssessment));
     } catch (error) {
       logger.error('Error finding needs assessments by client ID', { error, clientId });
       throw error;
@@ -1159,12 +1277,14 @@ export class NeedsAssessmentRepository implements INeedsAssessmentRepository {
         where: { id },
         data: {
           assessmentData: data.assessmentData,
+          instrumentResponses: data.instrumentResponses,
+          scores: data.scores,
           notes: data.notes,
         },
       });
 
       logger.info('Needs assessment updated successfully', { needsAssessmentId: id });
-      return updatedAssessment as unknown as NeedsAssessment;
+      return this.toNeedsAssessment(updatedAssessment);
     } catch (error) {
       logger.error('Error updating needs assessment', { error, id });
       throw error;
@@ -1197,4 +1317,18 @@ export class NeedsAssessmentRepository implements INeedsAssessmentRepository {
       throw error;
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Maps a needs assessment record to the domain model. Assessments recorded before
+   * instruments were introduced have no instrument responses or scores.
+   * @param record The database record
+   * @returns The needs assessment
+   */
+  private toNeedsAssessment(record: any): NeedsAssessment {
+    return {
+      ...record,
+      instrumentResponses: record.instrumentResponses || [],
+      scores: record.scores || [],
+    } as NeedsAssessment;
+  }
+}
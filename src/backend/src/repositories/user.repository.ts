@@ -180,6 +180,40 @@ export class UserRepository implements IUserRepository {
     }
   }
 
+  /**
+   * Changes a user's role, creating the role-specific profile if the user has never held the role
+   * @param id User ID to update
+   * @param role New role for the user
+   * @returns Updated user data
+   */
+  async updateRole(id: string, role: Roles): Promise<User> {
+    // Update the role on the user record
+    const updatedUser = await this.update(id, { role });
+
+    // Determine whether a profile for the new role already exists
+    const userWithProfile = await this.getUserWithProfileById(id);
+    const existingProfile = userWithProfile && {
+      [Roles.CLIENT]: userWithProfile.clientProfile,
+      [Roles.PROVIDER]: userWithProfile.providerProfile,
+      [Roles.CASE_MANAGER]: userWithProfile.caseManagerProfile,
+      [Roles.ADMINISTRATOR]: userWithProfile.adminProfile
+    }[role];
+
+    if (!existingProfile) {
+      try {
+        await this.createUserProfile(id, role);
+      } catch (error) {
+        throw errorFactory.createInternalServerError('Failed to create profile for new role', {
+          userId: id,
+          role,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        }, error instanceof Error ? error : undefined);
+      }
+    }
+
+    return updatedUser;
+  }
+
   /**
    * Deletes a user from the database
    * @param id User ID to delete
@@ -0,0 +1,307 @@
+import { v4 as uuidv4 } from 'uuid'; // uuid@^9.0.0
+import { prisma, executeWithTransaction } from '../config/database';
+import {
+  WaitlistEntry,
+  WaitlistEntryFilters,
+  WaitlistEntryStatus,
+  WaitlistOffer,
+  WaitlistOfferFilters,
+  WaitlistOfferStatus
+} from '../types/waitlist.types';
+import { ServiceType } from '../constants/service-types';
+import { errorFactory } from '../utils/error-handler';
+import { logger } from '../utils/logger';
+
+/**
+ * Waitlist entry fields set when a client joins a waitlist
+ */
+export type NewWaitlistEntry = Omit<WaitlistEntry, 'id' | 'status' | 'createdAt' | 'updatedAt'>;
+
+/**
+ * Waitlist offer fields set when a slot is offered
+ */
+export type NewWaitlistOffer = Omit<WaitlistOffer, 'id' | 'status' | 'bookingId' | 'respondedAt' | 'createdAt' | 'updatedAt'>;
+
+/**
+ * Entry statuses that still hold a place in the queue
+ */
+const ACTIVE_ENTRY_STATUSES: WaitlistEntryStatus[] = [WaitlistEntryStatus.WAITING, WaitlistEntryStatus.OFFERED];
+
+/**
+ * Repository for provider waitlists and the slots offered to waitlisted clients
+ */
+export class WaitlistRepository {
+  /**
+   * Adds a client to a waitlist
+   * @param data - The entry to create
+   * @returns The created entry
+   */
+  async createEntry(data: NewWaitlistEntry): Promise<WaitlistEntry> {
+    try {
+      const entry = await prisma.waitlistEntry.create({
+        data: { ...data, id: uuidv4(), status: WaitlistEntryStatus.WAITING }
+      });
+
+      return entry as WaitlistEntry;
+    } catch (error) {
+      logger.error('Failed to create waitlist entry', {
+        providerId: data.providerId,
+        clientId: data.clientId,
+        error
+      });
+      throw errorFactory.createInternalServerError('Failed to create waitlist entry', {
+        providerId: data.providerId,
+        clientId: data.clientId
+      }, error as Error);
+    }
+  }
+
+  /**
+   * Retrieves a waitlist entry by its ID
+   * @param id - ID of the entry
+   * @returns The entry, or null if it does not exist
+   */
+  async findEntryById(id: string): Promise<WaitlistEntry | null> {
+    try {
+      const entry = await prisma.waitlistEntry.findUnique({ where: { id } });
+
+      return entry as WaitlistEntry | null;
+    } catch (error) {
+      logger.error('Failed to retrieve waitlist entry', { entryId: id, error });
+      throw errorFactory.createInternalServerError('Failed to retrieve waitlist entry', { entryId: id }, error as Error);
+    }
+  }
+
+  /**
+   * Retrieves waitlist entries matching the filters, newest first
+   * @param filters - Filters for the entries
+   * @returns The matching entries
+   */
+  async findEntries(filters: WaitlistEntryFilters): Promise<WaitlistEntry[]> {
+    try {
+      const entries = await prisma.waitlistEntry.findMany({
+        where: {
+          ...(filters.providerId ? { providerId: filters.providerId } : {}),
+          ...(filters.clientId ? { clientId: filters.clientId } : {}),
+          ...(filters.clientIds ? { clientId: { in: filters.clientIds } } : {}),
+          ...(filters.serviceType ? { serviceType: filters.serviceType } : {}),
+          ...(filters.status ? { status: filters.status } : {})
+        },
+        orderBy: { createdAt: 'desc' }
+      });
+
+      return entries as WaitlistEntry[];
+    } catch (error) {
+      logger.error('Failed to retrieve waitlist entries', { filters, error });
+      throw errorFactory.createInternalServerError('Failed to retrieve waitlist entries', { filters }, error as Error);
+    }
+  }
+
+  /**
+   * Retrieves the entries still holding a place on a provider's waitlist, in the order
+   * they are offered slots: highest priority first, then earliest joined
+   * @param providerId - ID of the provider
+   * @param serviceType - Service type to limit the queue to
+   * @returns The queued entries
+   */
+  async findQueue(providerId: string, serviceType?: ServiceType): Promise<WaitlistEntry[]> {
+    try {
+      const entries = await prisma.waitlistEntry.findMany({
+        where: {
+          providerId,
+          status: { in: ACTIVE_ENTRY_STATUSES },
+          ...(serviceType ? { serviceType } : {})
+        },
+        orderBy: [{ priority: 'desc' }, { createdAt: 'asc' }]
+      });
+
+      return entries as WaitlistEntry[];
+    } catch (error) {
+      logger.error('Failed to retrieve waitlist queue', { providerId, serviceType, error });
+      throw errorFactory.createInternalServerError('Failed to retrieve waitlist queue', { providerId, serviceType }, error as Error);
+    }
+  }
+
+  /**
+   * Retrieves a client's entry that still holds a place on a provider's waitlist
+   * @param providerId - ID of the provider
+   * @param clientId - ID of the client
+   * @param serviceType - The service type
+   * @returns The active entry, or null if the client is not waiting
+   */
+  async findActiveEntry(providerId: string, clientId: string, serviceType: ServiceType): Promise<WaitlistEntry | null> {
+    try {
+      const entry = await prisma.waitlistEntry.findFirst({
+        where: { providerId, clientId, serviceType, status: { in: ACTIVE_ENTRY_STATUSES } }
+      });
+
+      return entry as WaitlistEntry | null;
+    } catch (error) {
+      logger.error('Failed to retrieve waitlist entry', { providerId, clientId, serviceType, error });
+      throw errorFactory.createInternalServerError('Failed to retrieve waitlist entry', { providerId, clientId, serviceType }, error as Error);
+    }
+  }
+
+  /**
+   * Updates the status of a waitlist entry
+   * @param id - ID of the entry
+   * @param status - The new status
+   * @returns The updated entry
+   */
+  async updateEntryStatus(id: string, status: WaitlistEntryStatus): Promise<WaitlistEntry> {
+    try {
+      const entry = await prisma.waitlistEntry.update({
+        where: { id },
+        data: { status }
+      });
+
+      return entry as WaitlistEntry;
+    } catch (error) {
+      logger.error('Failed to update waitlist entry', { entryId: id, status, error });
+      throw errorFactory.createInternalServerError('Failed to update waitlist entry', { entryId: id, status }, error as Error);
+    }
+  }
+
+  /**
+   * Offers a slot to a waitlisted client and marks their entry as offered
+   * @param data - The offer to create
+   * @returns The created offer
+   */
+  async createOffer(data: NewWaitlistOffer): Promise<WaitlistOffer> {
+    try {
+      return await executeWithTransaction(async (tx) => {
+        const offer = await tx.waitlistOffer.create({
+          data: {
+            ...data,
+            id: uuidv4(),
+            status: WaitlistOfferStatus.PENDING,
+            bookingId: null,
+            respondedAt: null
+          }
+        });
+
+        await tx.waitlistEntry.update({
+          where: { id: data.entryId },
+          data: { status: WaitlistEntryStatus.OFFERED }
+        });
+
+        return offer as WaitlistOffer;
+      });
+    } catch (error) {
+      logger.error('Failed to create waitlist offer', {
+        entryId: data.entryId,
+        startTime: data.startTime,
+        error
+      });
+      throw errorFactory.createInternalServerError('Failed to create waitlist offer', {
+        entryId: data.entryId,
+        startTime: data.startTime
+      }, error as Error);
+    }
+  }
+
+  /**
+   * Retrieves a waitlist offer by its ID
+   * @param id - ID of the offer
+   * @returns The offer, or null if it does not exist
+   */
+  async findOfferById(id: string): Promise<WaitlistOffer | null> {
+    try {
+      const offer = await prisma.waitlistOffer.findUnique({ where: { id } });
+
+      return offer as WaitlistOffer | null;
+    } catch (error) {
+      logger.error('Failed to retrieve waitlist offer', { offerId: id, error });
+      throw errorFactory.createInternalServerError('Failed to retrieve waitlist offer', { offerId: id }, error as Error);
+    }
+  }
+
+  /**
+   * Retrieves waitlist offers matching the filters, earliest slot first
+   * @param filters - Filters for the offers
+   * @returns The matching offers
+   */
+  async findOffers(filters: WaitlistOfferFilters): Promise<WaitlistOffer[]> {
+    try {
+      const offers = await prisma.waitlistOffer.findMany({
+        where: {
+          ...(filters.providerId ? { providerId: filters.providerId } : {}),
+          ...(filters.clientId ? { clientId: filters.clientId } : {}),
+          ...(filters.clientIds ? { clientId: { in: filters.clientIds } } : {}),
+          ...(filters.entryId ? { entryId: filters.entryId } : {}),
+          ...(filters.status ? { status: filters.status } : {}),
+          ...(filters.startsAfter ? { startTime: { gte: filters.startsAfter } } : {})
+        },
+        orderBy: { startTime: 'asc' }
+      });
+
+      return offers as WaitlistOffer[];
+    } catch (error) {
+      logger.error('Failed to retrieve waitlist offers', { filters, error });
+      throw errorFactory.createInternalServerError('Failed to retrieve waitlist offers', { filters }, error as Error);
+    }
+  }
+
+  /**
+   * Retrieves pending offers whose hold has lapsed
+   * @param now - The current time
+   * @returns The lapsed offers
+   */
+  async findLapsedOffers(now: Date): Promise<WaitlistOffer[]> {
+    try {
+      const offers = await prisma.waitlistOffer.findMany({
+        where: { status: WaitlistOfferStatus.PENDING, expiresAt: { lte: now } },
+        orderBy: { expiresAt: 'asc' }
+      });
+
+      return offers as WaitlistOffer[];
+    } catch (error) {
+      logger.error('Failed to retrieve lapsed waitlist offers', { now, error });
+      throw errorFactory.createInternalServerError('Failed to retrieve lapsed waitlist offers', { now }, error as Error);
+    }
+  }
+
+  /**
+   * Closes a pending offer and moves its entry to the matching status: booked when the
+   * offer was accepted, cancelled when it was withdrawn because the client left the
+   * waitlist, and back to waiting otherwise
+   * @param id - ID of the offer
+   * @param status - The offer's final status
+   * @param entryStatus - The entry's new status
+   * @param bookingId - ID of the booking made from the offer
+   * @returns The closed offer, or null if it was no longer pending
+   */
+  async closeOffer(
+    id: string,
+    status: WaitlistOfferStatus,
+    entryStatus: WaitlistEntryStatus,
+    bookingId: string | null = null
+  ): Promise<WaitlistOffer | null> {
+    try {
+      return await executeWithTransaction(async (tx) => {
+        const offer = await tx.waitlistOffer.findFirst({
+          where: { id, status: WaitlistOfferStatus.PENDING }
+        });
+
+        if (!offer) {
+          return null;
+        }
+
+        const closed = await tx.waitlistOffer.update({
+          where: { id },
+          data: { status, bookingId, respondedAt: new Date() }
+        });
+
+        await tx.waitlistEntry.update({
+          where: { id: offer.entryId },
+          data: { status: entryStatus }
+        });
+
+        return closed as WaitlistOffer;
+      });
+    } catch (error) {
+      logger.error('Failed to close waitlist offer', { offerId: id, status, error });
+      throw errorFactory.createInternalServerError('Failed to close waitlist offer', { offerId: id, status }, error as Error);
+    }
+  }
+}
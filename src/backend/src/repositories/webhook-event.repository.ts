@@ -0,0 +1,100 @@
+import { prisma } from '../config/database';
+import { WebhookEventStatus } from '../models/webhook-event.model';
+import { errorFactory } from '../utils/error-handler';
+import { logger } from '../utils/logger';
+
+// A claim older than this is assumed to belong to a crashed worker and may be taken over
+const STALE_CLAIM_MS = 5 * 60 * 1000;
+
+/**
+ * Repository that records received webhook events so each event is processed only once
+ */
+export class WebhookEventRepository {
+  /**
+   * Claims an event for processing. Only one caller can hold the claim for an event,
+   * and events that were already processed cannot be claimed again.
+   * @param provider - Provider that sent the event
+   * @param eventId - The provider's ID for the event
+   * @param type - The provider's event type
+   * @returns True if the caller should process the event, false if it is a duplicate
+   */
+  async claim(provider: string, eventId: string, type: string): Promise<boolean> {
+    try {
+      await prisma.webhookEvent.create({
+        data: {
+          provider,
+          eventId,
+          type,
+          status: WebhookEventStatus.PROCESSING,
+          processedAt: null
+        }
+      });
+
+      return true;
+    } catch (error) {
+      // Any error other than a unique constraint violation on (provider, eventId) is a real failure
+      if ((error as { code?: string }).code !== 'P2002') {
+        logger.error('Failed to claim webhook event', { provider, eventId, error });
+        throw errorFactory.createInternalServerError('Failed to claim webhook event', { provider, eventId }, error as Error);
+      }
+    }
+
+    try {
+      // The event was seen before; take over the claim only if an earlier attempt stalled
+      const { count } = await prisma.webhookEvent.updateMany({
+        where: {
+          provider,
+          eventId,
+          status: WebhookEventStatus.PROCESSING,
+          updatedAt: { lt: new Date(Date.now() - STALE_CLAIM_MS) }
+        },
+        data: { updatedAt: new Date() }
+      });
+
+      return count > 0;
+    } catch (error) {
+      logger.error('Failed to reclaim webhook event', { provider, eventId, error });
+      throw errorFactory.createInternalServerError('Failed to reclaim webhook event', { provider, eventId }, error as Error);
+    }
+  }
+
+  /**
+   * Marks a claimed event as processed
+   * @param provider - Provider that sent the event
+   * @param eventId - The provider's ID for the event
+   */
+  async markProcessed(provider: string, eventId: string): Promise<void> {
+    try {
+      await prisma.webhookEvent.update({
+        where: { provider_eventId: { provider, eventId } },
+        data: {
+          status: WebhookEventStatus.PROCESSED,
+          processedAt: new Date()
+        }
+      });
+    } catch (error) {
+      logger.error('Failed to mark webhook event as processed', { provider, eventId, error });
+      throw errorFactory.createInternalServerError('Failed to mark webhook event as processed', { provider, eventId }, error as Error);
+    }
+  }
+
+  /**
+   * Releases the claim on an event that failed to process so a redelivery can retry it
+   * @param provider - Provider that sent the event
+   * @param eventId - The provider's ID for the event
+   */
+  async release(provider: string, eventId: string): Promise<void> {
+    try {
+      await prisma.webhookEvent.deleteMany({
+        where: {
+          provider,
+          eventId,
+          status: WebhookEventStatus.PROCESSING
+        }
+      });
+    } catch (error) {
+      logger.error('Failed to release webhook event', { provider, eventId, error });
+      throw errorFactory.createInternalServerError('Failed to release webhook event', { provider, eventId }, error as Error);
+    }
+  }
+}
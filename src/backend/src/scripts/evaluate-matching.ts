@@ -0,0 +1,110 @@
+/**
+ * Offline evaluation of provider matching weights.
+ *
+ * Replays recorded matching requests against candidate matching profiles and prints the
+ * precision@k and NDCG@k of each, next to those of the rankings that were actually
+ * returned, so that matching weights can be tuned against recorded decisions.
+ *
+ * Usage:
+ *   npm run matching:evaluate -- --profile <id> [--profile <id> ...] [--k 5] [--since 2024-01-01] [--until 2024-06-30]
+ */
+
+import { connectDatabase, disconnectDatabase } from '../config/database';
+import { createMatchEvaluationService } from '../services/match-evaluation.service';
+import { MatchEvaluationOptions, MatchEvaluationResult } from '../types/provider.types';
+
+// Ranking cutoff used when --k is not given
+const DEFAULT_K = 5;
+
+/**
+ * Parses the command line arguments into evaluation options
+ * @param args - Arguments after the script name
+ * @returns The evaluation options
+ */
+function parseArguments(args: string[]): MatchEvaluationOptions {
+  const options: MatchEvaluationOptions = { profileIds: [], k: DEFAULT_K };
+
+  for (let index = 0; index < args.length; index++) {
+    const [flag, inlineValue] = args[index].split('=', 2);
+    const value = inlineValue ?? args[++index];
+    if (value === undefined) {
+      throw new Error(`Missing value for ${flag}`);
+    }
+
+    switch (flag) {
+      case '--profile':
+      case '--profiles':
+        options.profileIds.push(...value.split(',').map(id => id.trim()).filter(Boolean));
+        break;
+      case '--k':
+        options.k = Number(value);
+        break;
+      case '--since':
+        options.startDate = parseDate(flag, value);
+        break;
+      case '--until':
+        options.endDate = parseDate(flag, value);
+        break;
+      default:
+        throw new Error(`Unknown argument: ${flag}`);
+    }
+  }
+
+  if (options.profileIds.length === 0) {
+    throw new Error('At least one --profile is required');
+  }
+
+  return options;
+}
+
+/**
+ * Parses a date argument
+ * @param flag - The argument name, for error messages
+ * @param value - The argument value
+ * @returns The parsed date
+ */
+function parseDate(flag: string, value: string): Date {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid date for ${flag}: ${value}`);
+  }
+
+  return date;
+}
+
+/**
+ * Formats one row of the results table
+ * @param result - The ranking metrics
+ * @returns The formatted row
+ */
+function formatRow(result: MatchEvaluationResult): string {
+  const name = result.profileId ? `${result.profileName} (${result.profileId})` : result.profileName;
+
+  return `${name.padEnd(60)} ${result.precisionAtK.toFixed(3).padStart(12)} ${result.ndcgAtK.toFixed(3).padStart(10)}`;
+}
+
+/**
+ * Runs the evaluation and prints the results
+ */
+async function main(): Promise<void> {
+  const options = parseArguments(process.argv.slice(2));
+
+  await connectDatabase();
+
+  try {
+    const report = await createMatchEvaluationService().evaluateProfiles(options);
+
+    console.log(`Evaluated ${report.sessionCount} matching requests (${report.skippedSessionCount} skipped without an accepted or overridden provider)`);
+    console.log('');
+    console.log(`${'Weighting'.padEnd(60)} ${`Precision@${report.k}`.padStart(12)} ${`NDCG@${report.k}`.padStart(10)}`);
+    console.log(formatRow(report.baseline));
+    report.candidates.forEach(candidate => console.log(formatRow(candidate)));
+  } finally {
+    await disconnectDatabase();
+  }
+}
+
+main().catch((error) => {
+  console.error('Matching evaluation failed:', error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
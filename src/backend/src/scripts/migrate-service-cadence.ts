@@ -0,0 +1,81 @@
+/**
+ * Migration of service item schedules to structured cadences.
+ *
+ * Reads the free-text frequency and duration of every service item that has no cadence
+ * yet ("3x weekly", "8 weeks") into a structured cadence, and lists the items whose text
+ * could not be read so that their cadence can be entered by hand. Items that already have
+ * a cadence are left unchanged, so the migration can be run again safely.
+ *
+ * Usage:
+ *   npm run services:migrate-cadence -- [--dry-run]
+ */
+
+import { connectDatabase, disconnectDatabase } from '../config/database';
+import { ServicesPlanRepository } from '../repositories/services-plan.repository';
+import { parseCadence } from '../utils/service-cadence';
+
+// Service items read per query
+const BATCH_SIZE = 500;
+
+/**
+ * Runs the migration and prints a summary
+ */
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  const unknown = args.filter(arg => arg !== '--dry-run');
+  if (unknown.length > 0) {
+    throw new Error(`Unknown argument: ${unknown[0]}`);
+  }
+  const dryRun = args.includes('--dry-run');
+
+  await connectDatabase();
+
+  try {
+    const repository = new ServicesPlanRepository();
+    let migrated = 0;
+    let skipped = 0;
+    const unreadable: string[] = [];
+
+    let afterId: string | null = null;
+    for (;;) {
+      const batch = await repository.findServiceItemBatch(afterId, BATCH_SIZE);
+      if (batch.length === 0) {
+        break;
+      }
+
+      for (const item of batch) {
+        if (item.cadence) {
+          skipped++;
+          continue;
+        }
+
+        const cadence = parseCadence(item.frequency || '', item.duration || '');
+        if (!cadence) {
+          unreadable.push(`${item.id}  frequency: "${item.frequency}"  duration: "${item.duration}"`);
+          continue;
+        }
+
+        if (!dryRun) {
+          await repository.updateServiceItemCadence(item.id, cadence);
+        }
+        migrated++;
+      }
+
+      afterId = batch[batch.length - 1].id;
+    }
+
+    console.log(`${dryRun ? 'Would migrate' : 'Migrated'} ${migrated} service items (${skipped} already had a cadence)`);
+    if (unreadable.length > 0) {
+      console.log('');
+      console.log(`${unreadable.length} service items need a cadence entered by hand:`);
+      unreadable.forEach(line => console.log(`  ${line}`));
+    }
+  } finally {
+    await disconnectDatabase();
+  }
+}
+
+main().catch((error) => {
+  console.error('Service cadence migration failed:', error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
@@ -5,6 +5,9 @@ import { PlanStatus } from '../../constants/plan-statuses';
 import OpenAIService from '../../integrations/openai'; // openai@^4.0.0
 import DocumentAnalysisService from '../ai/document-analysis.service';
 import { CarePlanRepository } from '../../repositories/care-plan.repository';
+import { ClientProfileRepository } from '../../repositories/client-profile.repository';
+import { MedicalHistoryRepository } from '../../repositories/medical-history.repository';
+import { MedicalHistoryConflictStatus, MedicalHistoryInput } from '../../types/medical-history.types';
 import { errorFactory } from '../../utils/error-handler';
 import { logger } from '../../utils/logger';
 import { aiServiceConfig } from '../../config/ai';
@@ -32,6 +35,8 @@ export class CarePlanGeneratorService implements ICarePlanGenerator {
   private openAIService: OpenAIService;
   private documentAnalysisService: DocumentAnalysisService;
   private carePlanRepository: CarePlanRepository;
+  private clientProfileRepository: ClientProfileRepository;
+  private medicalHistoryRepository: MedicalHistoryRepository;
   private initialized: boolean;
 
   /**
@@ -39,16 +44,22 @@ export class CarePlanGeneratorService implements ICarePlanGenerator {
    * @param openAIService - OpenAI service for generating care plans
    * @param documentAnalysisService - Document analysis service for processing medical records
    * @param carePlanRepository - Care plan repository for database operations
+   * @param clientProfileRepository - Client profile repository for structured medical history
+   * @param medicalHistoryRepository - Medical history repository for unresolved import conflicts
    */
   constructor(
     openAIService: OpenAIService,
     documentAnalysisService: DocumentAnalysisService,
-    carePlanRepository: CarePlanRepository
+    carePlanRepository: CarePlanRepository,
+    clientProfileRepository: ClientProfileRepository = new ClientProfileRepository(),
+    medicalHistoryRepository: MedicalHistoryRepository = new MedicalHistoryRepository()
   ) {
     // Store the provided services and repositories
     this.openAIService = openAIService;
     this.documentAnalysisService = documentAnalysisService;
     this.carePlanRepository = carePlanRepository;
+    this.clientProfileRepository = clientProfileRepository;
+    this.medicalHistoryRepository = medicalHistoryRepository;
     // Set initialized flag to false initially
     this.initialized = false;
     // Initialize the service
@@ -113,6 +124,12 @@ export class CarePlanGeneratorService implements ICarePlanGenerator {
       // Analyze the client's medical documents
       const medicalInfo = await this.analyzeDocuments(params.documentIds);
 
+      // Include the client's structured medical history, such as records imported from FHIR
+      const medicalHistory = await this.getClientMedicalHistory(params.clientId);
+      if (medicalHistory) {
+        medicalInfo.clientMedicalHistory = medicalHistory;
+      }
+
       // Extract medical information from the documents
       const carePlanOptions = await this.generateCarePlans(medicalInfo, params.clientId, params.additionalContext);
 
@@ -193,6 +210,34 @@ export class CarePlanGeneratorService implements ICarePlanGenerator {
     }
   }
 
+  /**
+   * Retrieves a client's structured medical history from their profile
+   * @param clientId - string
+   * @returns Promise<MedicalHistoryInput | null> - The client's medical history, or null if none is recorded
+   */
+  async getClientMedicalHistory(clientId: string): Promise<MedicalHistoryInput | null> {
+    const profile = await this.clientProfileRepository.findByUserId(clientId);
+    const medicalInformation = profile?.medicalInformation;
+
+    if (!medicalInformation) {
+      return null;
+    }
+
+    // Unreviewed conflicts tell the model which entries have not been confirmed
+    const pendingConflicts = await this.medicalHistoryRepository.findConflicts(
+      clientId,
+      MedicalHistoryConflictStatus.PENDING
+    );
+
+    return {
+      conditions: medicalInformation.conditions || [],
+      allergies: medicalInformation.allergies || [],
+      medications: medicalInformation.medications || [],
+      records: (medicalInformation.records || []).map(({ source, ...record }) => ({ ...record, source: source.system })),
+      unresolvedConflicts: pendingConflicts.map(conflict => conflict.description)
+    };
+  }
+
   /**
    * Generates multiple care plan options using AI based on medical information
    * @param medicalInfo - Record<string, any>
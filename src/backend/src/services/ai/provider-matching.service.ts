@@ -1,38 +1,63 @@
-import {
-  IProviderMatchingService,
-  ProviderProfileRepository,
-  ProviderAvailabilityRepository,
-  ClientProfileRepository,
-} from '../../interfaces/provider.interface';
+import { IProviderMatchingService } from '../../interfaces/provider.interface';
+import { ProviderProfileRepository } from '../../repositories/provider-profile.repository';
+import { ProviderAvailabilityRepository } from '../../repositories/provider-availability.repository';
+import { ClientProfileRepository } from '../../repositories/client-profile.repository';
+import { MatchingProfileRepository } from '../../repositories/matching-profile.repository';
+import { BookingPolicyRepository } from '../../repositories/booking-policy.repository';
 import {
   ProviderMatchingCriteria,
   ProviderMatch,
   MatchFactor,
+  MatchFactorContribution,
+  MatchFactorName,
+  MatchingProfileFilters,
+  AppliedMatchingProfile,
+  MatchingProfile,
   ProviderProfile,
 } from '../../types/provider.types';
 import { ClientProfile } from '../../types/user.types';
+import { ProviderAttendance } from '../../types/booking-policy.types';
+import { ServiceType } from '../../constants/service-types';
 import { OpenAIService } from '../../integrations/openai';
 import { AIModelType, AIServiceType, ConfidenceScore, ProviderMatchingResult } from '../../types/ai.types';
-import { calculateHaversineDistance, isPointInServiceArea } from '../../utils/geo';
+import { calculateHaversineDistance, getAddressCoordinates, isPointInServiceArea } from '../../utils/geo';
 import { logger } from '../../utils/logger';
 import { errorFactory } from '../../utils/error-handler';
 
+// Factor weights used when no matching profile is configured, and for factors a profile leaves unset
+export const DEFAULT_MATCH_FACTOR_WEIGHTS: Record<MatchFactorName, number> = {
+  [MatchFactorName.SERVICE_MATCH]: 0.8,
+  [MatchFactorName.LOCATION_PROXIMITY]: 0.7,
+  [MatchFactorName.SPECIALIZATION_MATCH]: 0.6,
+  [MatchFactorName.EXPERIENCE]: 0.5,
+  [MatchFactorName.INSURANCE_COMPATIBILITY]: 0.4,
+  [MatchFactorName.PREFERENCE_MATCH]: 0.3,
+  [MatchFactorName.RELIABILITY]: 0.4,
+};
+
+// Name reported for matches scored without a matching profile
+const BUILT_IN_PROFILE_NAME = 'Built-in defaults';
+
+// Period of appointments a provider's reliability is measured over
+const RELIABILITY_LOOKBACK_DAYS = 180;
+
+// Share of appointments assumed to go ahead, weighted as this many appointments, so that
+// providers with little history are neither rewarded nor penalized for a few outcomes
+const RELIABILITY_PRIOR = 0.9;
+const RELIABILITY_PRIOR_WEIGHT = 5;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
 /**
  * Determines the weight of a specific match factor based on factor name
  * @param factorName
+ * @param factorWeights - Weights of the applied matching profile
  * @returns Weight value between 0 and 1
  */
-const getMatchFactorWeight = (factorName: string): number => {
-  // Define a mapping of factor names to weight values
-  const factorWeights: { [key: string]: number } = {
-    serviceMatch: 0.8,
-    locationProximity: 0.7,
-    specializationMatch: 0.6,
-    experience: 0.5,
-    insuranceCompatibility: 0.4,
-    preferenceMatch: 0.3,
-  };
-
+export const getMatchFactorWeight = (
+  factorName: string,
+  factorWeights: { [key: string]: number } = DEFAULT_MATCH_FACTOR_WEIGHTS
+): number => {
   // Return the weight for the given factor name
   if (factorWeights[factorName] !== undefined) {
     return factorWeights[factorName];
@@ -60,6 +85,39 @@ const normalizeScore = (score: number, min: number, max: number): number => {
   return Math.max(0, Math.min(1, normalizedScore));
 };
 
+/**
+ * Applies a matching profile to a request for a service type. The profile's override for
+ * the service type replaces the profile's own weights and filters, and factors the profile
+ * leaves unset keep their default weights.
+ * @param profile - The profile, or null for the built-in weights
+ * @param serviceType - The primary requested service type
+ * @returns The matching profile to apply
+ */
+export const applyMatchingProfile = (
+  profile: MatchingProfile | null,
+  serviceType?: ServiceType
+): AppliedMatchingProfile => {
+  if (!profile) {
+    return {
+      id: null,
+      name: BUILT_IN_PROFILE_NAME,
+      serviceType: null,
+      weights: { ...DEFAULT_MATCH_FACTOR_WEIGHTS },
+      filters: {}
+    };
+  }
+
+  const override = serviceType ? profile.serviceTypeOverrides?.[serviceType] : undefined;
+
+  return {
+    id: profile.id,
+    name: profile.name,
+    serviceType: override && serviceType ? serviceType : null,
+    weights: { ...DEFAULT_MATCH_FACTOR_WEIGHTS, ...profile.weights, ...override?.weights },
+    filters: { ...profile.filters, ...override?.filters }
+  };
+};
+
 /**
  * Service that implements AI-powered provider matching functionality
  */
@@ -70,18 +128,26 @@ export class ProviderMatchingService implements IProviderMatchingService {
    * @param availabilityRepository
    * @param clientRepository
    * @param aiService
+   * @param matchingProfileRepository - Source of admin-managed matching profiles; built-in
+   * weights are used without it
+   * @param bookingPolicyRepository - Source of providers' attendance history; reliability is
+   * not scored without it
    */
   constructor(
     private providerRepository: ProviderProfileRepository,
     private availabilityRepository: ProviderAvailabilityRepository,
     private clientRepository: ClientProfileRepository,
-    private aiService: OpenAIService
+    private aiService: OpenAIService,
+    private matchingProfileRepository?: MatchingProfileRepository,
+    private bookingPolicyRepository?: BookingPolicyRepository
   ) {
     // Store the provided repositories and services as instance properties
     this.providerRepository = providerRepository;
     this.availabilityRepository = availabilityRepository;
     this.clientRepository = clientRepository;
     this.aiService = aiService;
+    this.matchingProfileRepository = matchingProfileRepository;
+    this.bookingPolicyRepository = bookingPolicyRepository;
     // Initialize the service with dependencies
     logger.info('ProviderMatchingService initialized');
   }
@@ -105,6 +171,9 @@ export class ProviderMatchingService implements IProviderMatchingService {
       throw errorFactory.createNotFoundError(`Client profile not found for ID: ${criteria.clientId}`);
     }
 
+    // Resolve the matching profile that sets factor weights and hard filters
+    const matchingProfile = await this.resolveMatchingProfile(criteria);
+
     // Find providers that offer the requested service types
     let providers = await this.providerRepository.findProvidersWithServiceType(criteria.serviceTypes[0]);
 
@@ -137,16 +206,33 @@ export class ProviderMatchingService implements IProviderMatchingService {
       providers = providers.filter(provider => provider.insuranceAccepted.includes(criteria.insurance!));
     }
 
-    // Calculate compatibility scores for each provider
+    // Calculate compatibility scores for each provider that passes the profile's hard filters
     const providerMatches: ProviderMatch[] = [];
     for (const provider of providers) {
-      const { score, factors } = await this.calculateCompatibilityScore(client, provider, criteria);
+      const distance = this.getProviderDistance(criteria, provider);
+
+      if (!this.passesMatchingFilters(provider, matchingProfile.filters, criteria, distance)) {
+        continue;
+      }
+
+      const { score, factors, breakdown } = await this.calculateCompatibilityScore(
+        client,
+        provider,
+        criteria,
+        matchingProfile
+      );
       providerMatches.push({
         provider,
         compatibilityScore: score,
         matchFactors: factors,
         availableSlots: [], // TODO: Fetch available time slots
-        distance: 0 // TODO: Calculate distance
+        distance,
+        matchingProfile: {
+          id: matchingProfile.id,
+          name: matchingProfile.name,
+          serviceType: matchingProfile.serviceType
+        },
+        scoreBreakdown: breakdown
       });
     }
 
@@ -158,6 +244,7 @@ export class ProviderMatchingService implements IProviderMatchingService {
 
     logger.info('Provider matching completed', {
       clientId: criteria.clientId,
+      matchingProfileId: matchingProfile.id,
       matchesFound: providerMatches.length
     });
 
@@ -170,13 +257,15 @@ export class ProviderMatchingService implements IProviderMatchingService {
    * @param client
    * @param provider
    * @param criteria
-   * @returns Compatibility score and contributing factors
+   * @param matchingProfile - Profile whose weights are applied; built-in weights are used without it
+   * @returns Compatibility score, contributing factors and each factor's share of the score
    */
   async calculateCompatibilityScore(
     client: ClientProfile,
     provider: ProviderProfile,
-    criteria: ProviderMatchingCriteria
-  ): Promise<{ score: number; factors: MatchFactor[] }> {
+    criteria: ProviderMatchingCriteria,
+    matchingProfile?: AppliedMatchingProfile
+  ): Promise<{ score: number; factors: MatchFactor[]; breakdown: MatchFactorContribution[] }> {
     logger.debug('Calculating compatibility score', {
       clientId: client.userId,
       providerId: provider.userId
@@ -214,6 +303,12 @@ export class ProviderMatchingService implements IProviderMatchingService {
     const experienceFactor = this.calculateExperienceFactor(provider.reviewCount, provider.averageRating);
     factors.push(experienceFactor);
 
+    // Calculate reliability factor from how often the provider's appointments go ahead
+    const reliabilityFactor = await this.getReliabilityFactor(provider.userId);
+    if (reliabilityFactor) {
+      factors.push(reliabilityFactor);
+    }
+
     // Calculate insurance compatibility factor if insurance criteria provided
     let insuranceCompatibilityFactor: MatchFactor | null = null;
     if (criteria.insurance) {
@@ -230,15 +325,24 @@ export class ProviderMatchingService implements IProviderMatchingService {
     // factors.push(...enhancedFactors);
 
     // Calculate weighted average of all factors to determine overall compatibility score
+    const factorWeights = matchingProfile?.weights || DEFAULT_MATCH_FACTOR_WEIGHTS;
     let totalScore = 0;
     let totalWeight = 0;
     for (const factor of factors) {
-      const weight = getMatchFactorWeight(factor.name);
-      totalScore += factor.score * weight;
-      totalWeight += weight;
+      factor.weight = getMatchFactorWeight(factor.name, factorWeights);
+      totalScore += factor.score * factor.weight;
+      totalWeight += factor.weight;
     }
     const overallScore = totalWeight > 0 ? totalScore / totalWeight : 0;
 
+    // Each factor's contribution is its share of the weighted average, so contributions sum to the score
+    const breakdown: MatchFactorContribution[] = factors.map(factor => ({
+      name: factor.name,
+      score: factor.score,
+      weight: factor.weight,
+      contribution: totalWeight > 0 ? (factor.score * factor.weight) / totalWeight : 0
+    }));
+
     logger.debug('Compatibility score calculated', {
       clientId: client.userId,
       providerId: provider.userId,
@@ -246,8 +350,87 @@ export class ProviderMatchingService implements IProviderMatchingService {
       factors: factors.map(f => ({ name: f.name, score: f.score }))
     });
 
-    // Return the overall score and individual factors
-    return { score: overallScore, factors };
+    // Return the overall score, individual factors and their contributions
+    return { score: overallScore, factors, breakdown };
+  }
+
+  /**
+   * Resolves the matching profile for a matching request: the requested profile, otherwise
+   * the default profile, otherwise the built-in weights. A profile's override for the
+   * primary requested service type replaces the profile's own weights and filters.
+   * @param criteria
+   * @returns The matching profile to apply
+   */
+  async resolveMatchingProfile(criteria: ProviderMatchingCriteria): Promise<AppliedMatchingProfile> {
+    let profile = null;
+    if (criteria.matchingProfileId) {
+      if (this.matchingProfileRepository) {
+        profile = await this.matchingProfileRepository.findById(criteria.matchingProfileId);
+      }
+      if (!profile) {
+        throw errorFactory.createNotFoundError(`Matching profile not found for ID: ${criteria.matchingProfileId}`);
+      }
+    } else if (this.matchingProfileRepository) {
+      profile = await this.matchingProfileRepository.findDefault();
+    }
+
+    return applyMatchingProfile(profile, criteria.serviceTypes[0]);
+  }
+
+  /**
+   * Calculates the distance to a provider whose address has been geocoded
+   * @param criteria
+   * @param provider
+   * @returns Distance in miles, or null if the request or provider has no coordinates
+   */
+  getProviderDistance(criteria: ProviderMatchingCriteria, provider: ProviderProfile): number | null {
+    const coordinates = getAddressCoordinates(provider.address);
+    if (!criteria.location || !coordinates) {
+      return null;
+    }
+
+    return calculateHaversineDistance(criteria.location, coordinates);
+  }
+
+  /**
+   * Checks whether a provider meets a matching profile's hard filters. Distance and
+   * insurance filters only apply when the request includes a location or insurance.
+   * Providers whose distance is unknown do not pass a distance filter.
+   * @param provider
+   * @param filters
+   * @param criteria
+   * @param distance - Distance to the provider in miles, if known
+   * @returns True if the provider may be matched
+   */
+  passesMatchingFilters(
+    provider: ProviderProfile,
+    filters: MatchingProfileFilters,
+    criteria: ProviderMatchingCriteria,
+    distance: number | null
+  ): boolean {
+    if (typeof filters.maxDistance === 'number' && criteria.location && (distance === null || distance > filters.maxDistance)) {
+      return false;
+    }
+
+    if (typeof filters.minRating === 'number' && provider.averageRating < filters.minRating) {
+      return false;
+    }
+
+    if (typeof filters.minReviewCount === 'number' && provider.reviewCount < filters.minReviewCount) {
+      return false;
+    }
+
+    if (filters.requireInsuranceAccepted && criteria.insurance && !provider.insuranceAccepted.includes(criteria.insurance)) {
+      return false;
+    }
+
+    if (filters.requiredSpecializations?.length) {
+      return filters.requiredSpecializations.every(specialization =>
+        provider.specializations.includes(specialization)
+      );
+    }
+
+    return true;
   }
 
   /**
@@ -281,6 +464,10 @@ export class ProviderMatchingService implements IProviderMatchingService {
         name: 'preferenceMatch',
         description: 'How well the provider matches the client\'s preferences',
       },
+      {
+        name: 'reliability',
+        description: 'How often the provider\'s appointments go ahead rather than being missed or cancelled late',
+      },
     ];
 
     // Assign weights to each factor using getMatchFactorWeight
@@ -469,6 +656,57 @@ export class ProviderMatchingService implements IProviderMatchingService {
     };
   }
 
+  /**
+   * Calculates the reliability factor from a provider's recent attendance. Missed
+   * appointments and late cancellations count against the provider; the share of
+   * appointments that went ahead is smoothed towards a prior for providers with little history.
+   * @param attendance
+   * @returns Reliability factor with score and description
+   */
+  calculateReliabilityFactor(attendance: ProviderAttendance): MatchFactor {
+    const missedCount = attendance.noShowCount + attendance.lateCancellationCount;
+    const concludedCount = attendance.completedCount + missedCount;
+
+    const reliabilityScore = (attendance.completedCount + RELIABILITY_PRIOR * RELIABILITY_PRIOR_WEIGHT)
+      / (concludedCount + RELIABILITY_PRIOR_WEIGHT);
+
+    return {
+      name: MatchFactorName.RELIABILITY,
+      score: reliabilityScore,
+      weight: getMatchFactorWeight(MatchFactorName.RELIABILITY),
+      description: concludedCount > 0
+        ? `${attendance.completedCount} of the provider's ${concludedCount} recent appointments went ahead`
+        : 'Provider has no recent appointment history'
+    };
+  }
+
+  /**
+   * Looks up a provider's recent attendance and calculates their reliability factor
+   * @param providerId
+   * @returns Reliability factor, or null if attendance history is not available
+   */
+  private async getReliabilityFactor(providerId: string): Promise<MatchFactor | null> {
+    if (!this.bookingPolicyRepository) {
+      return null;
+    }
+
+    try {
+      const attendance = await this.bookingPolicyRepository.getProviderAttendance(
+        providerId,
+        new Date(Date.now() - RELIABILITY_LOOKBACK_DAYS * MS_PER_DAY)
+      );
+
+      return this.calculateReliabilityFactor(attendance);
+    } catch (error) {
+      // Matching goes ahead on the other factors when attendance cannot be read
+      logger.error('Error calculating provider reliability', {
+        providerId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return null;
+    }
+  }
+
   /**
    * Calculates the insurance compatibility factor
    * @param clientInsurance
@@ -559,5 +797,7 @@ export default new ProviderMatchingService(
   new ProviderProfileRepository(),
   new ProviderAvailabilityRepository(),
   new ClientProfileRepository(),
-  new OpenAIService()
+  new OpenAIService(),
+  new MatchingProfileRepository(),
+  new BookingPolicyRepository()
 );
\ No newline at end of file
@@ -6,6 +6,7 @@ import {
   DashboardResponse, 
   ReportRequestDTO, 
   ReportResponse, 
+  RenderedReport, 
   ExportRequestDTO, 
   ExportResponse, 
   AnalyticsEventDTO, 
@@ -15,6 +16,7 @@ import {
 import { analyticsCache } from '../cache/analytics.cache';
 import { METRIC_CATEGORIES, TIME_PERIODS, DEFAULT_METRIC_TTL, DEFAULT_DASHBOARD_TTL } from '../constants/metrics';
 import { logger } from '../utils/logger';
+import { generatePdf, PdfBlock } from '../utils/pdf-generator';
 import { BlobStorageService } from './storage/blob-storage.service';
 import Queue from 'bull'; // bull@^4.10.0
 
@@ -247,58 +249,18 @@ export class AnalyticsService implements IAnalyticsService {
    */
   async generateReport(request: ReportRequestDTO): Promise<ReportResponse> {
     try {
-      const { name, description, categories, metrics, period, startDate, endDate, format, filters } = request;
+      const { name, format } = request;
       
-      logger.debug('Generating report', { name, categories, format });
-      
-      // Validate request parameters
-      if (!name || !format || !categories || !Array.isArray(categories) || categories.length === 0) {
-        throw new Error('Invalid report request parameters');
-      }
-      
-      // Get metrics data for each category
-      const allMetrics: Metric[] = [];
-      
-      for (const category of categories) {
-        // Prepare metrics request
-        const metricsRequest: MetricsRequestDTO = {
-          category,
-          types: metrics || [],
-          period,
-          startDate,
-          endDate,
-          filters
-        };
-        
-        try {
-          // Get metrics for this category
-          const categoryMetrics = await this.getMetrics(metricsRequest);
-          allMetrics.push(...categoryMetrics.metrics);
-        } catch (error) {
-          logger.warn('Failed to get metrics for category in report', { 
-            category,
-            error: error instanceof Error ? error.message : String(error)
-          });
-          // Continue with other categories even if one fails
-        }
-      }
-      
-      // Generate the report file
-      const reportBuffer = await this.generateReportFile(allMetrics, format, name, description);
+      const generatedAt = new Date();
+      const report = await this.renderReport(request, generatedAt);
       
       // Upload the report file to blob storage
-      const timestamp = new Date().toISOString().replace(/[-:.]/g, '');
-      const fileName = `${name.replace(/\s+/g, '_')}_${timestamp}.${format}`;
-      
       const uploadResult = await this.storageService.uploadFile(
-        reportBuffer,
+        report.content,
         request.userId || 'system',
-        fileName,
+        report.fileName,
         'other',
-        format === 'pdf' ? 'application/pdf' : 
-          format === 'csv' ? 'text/csv' : 
-          format === 'excel' ? 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' : 
-          'application/json'
+        report.contentType
       );
       
       // Generate a signed URL for downloading the report
@@ -313,7 +275,7 @@ export class AnalyticsService implements IAnalyticsService {
       
       // Create the report response
       const reportResponse: ReportResponse = {
-        id: timestamp,
+        id: this.formatReportTimestamp(generatedAt),
         name,
         format,
         url,
@@ -324,7 +286,7 @@ export class AnalyticsService implements IAnalyticsService {
       logger.info('Successfully generated report', { 
         name, 
         format,
-        metricCount: allMetrics.length,
+        metricCount: report.metricCount,
         size: uploadResult.size
       });
       
@@ -339,6 +301,63 @@ export class AnalyticsService implements IAnalyticsService {
     }
   }
 
+  /**
+   * Builds the file for a report without storing it, so it can be delivered directly
+   * @param request The report generation request parameters
+   * @param generatedAt Generation time used in the file name
+   * @returns Promise resolving to the generated report file
+   */
+  async renderReport(request: ReportRequestDTO, generatedAt: Date = new Date()): Promise<RenderedReport> {
+    const { name, description, categories, metrics, period, startDate, endDate, format, filters } = request;
+    
+    logger.debug('Generating report', { name, categories, format });
+    
+    // Validate request parameters
+    if (!name || !format || !categories || !Array.isArray(categories) || categories.length === 0) {
+      throw new Error('Invalid report request parameters');
+    }
+    
+    // Get metrics data for each category
+    const allMetrics: Metric[] = [];
+    
+    for (const category of categories) {
+      // Prepare metrics request
+      const metricsRequest: MetricsRequestDTO = {
+        category,
+        types: metrics || [],
+        period,
+        startDate,
+        endDate,
+        filters
+      };
+      
+      try {
+        // Get metrics for this category
+        const categoryMetrics = await this.getMetrics(metricsRequest);
+        allMetrics.push(...categoryMetrics.metrics);
+      } catch (error) {
+        logger.warn('Failed to get metrics for category in report', { 
+          category,
+          error: error instanceof Error ? error.message : String(error)
+        });
+        // Continue with other categories even if one fails
+      }
+    }
+    
+    // Generate the report file
+    const content = await this.generateReportFile(allMetrics, format, name, description);
+    
+    return {
+      fileName: `${name.replace(/\s+/g, '_')}_${this.formatReportTimestamp(generatedAt)}.${format}`,
+      contentType: format === 'pdf' ? 'application/pdf' : 
+        format === 'csv' ? 'text/csv' : 
+        format === 'excel' ? 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' : 
+        'application/json',
+      content,
+      metricCount: allMetrics.length
+    };
+  }
+  
   /**
    * Exports data in the requested format based on provided parameters
    * @param request The data export request parameters
@@ -642,6 +661,15 @@ export class AnalyticsService implements IAnalyticsService {
     });
   }
   
+  /**
+   * Formats a report generation time for use in report IDs and file names
+   * @param date Generation time
+   * @returns Compact timestamp string
+   */
+  private formatReportTimestamp(date: Date): string {
+    return date.toISOString().replace(/[-:.]/g, '');
+  }
+  
   /**
    * Generates a report file in the requested format
    * @param metrics Metrics data to include in the report
@@ -683,13 +711,24 @@ export class AnalyticsService implements IAnalyticsService {
    * @returns Promise resolving to PDF buffer
    */
   private async generatePDFReport(metrics: Metric[], name: string, description: string): Promise<Buffer> {
-    // In a real implementation, this would use a PDF generation library
-    // like PDFKit, jsPDF, or react-pdf
-    
-    // For this example, we'll just return a placeholder buffer
-    // with a message indicating what would be generated
-    const placeholder = `PDF Report: ${name}\n${description}\n\nMetrics: ${metrics.length}`;
-    return Buffer.from(placeholder);
+    const blocks: PdfBlock[] = [
+      { text: name, style: 'title' },
+      { text: description },
+      { text: `Generated ${new Date().toISOString()}`, style: 'small' },
+      { text: 'Metrics', style: 'heading' }
+    ];
+
+    for (const metric of metrics) {
+      blocks.push(
+        { text: `${metric.name}: ${metric.value} ${metric.unit}`.trim() },
+        {
+          text: `${metric.category} | ${metric.period} | trend ${metric.trend} (${metric.changePercentage}%)`,
+          style: 'small'
+        }
+      );
+    }
+
+    return generatePdf(blocks, name);
   }
   
   /**
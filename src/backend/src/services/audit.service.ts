@@ -0,0 +1,239 @@
+import { IAuditService, AuditContext } from '../interfaces/audit.interface';
+import { AuditLogRepository } from '../repositories/audit-log.repository';
+import {
+  AuditAction,
+  AuditChange,
+  AuditExportFormat,
+  AuditLog,
+  AuditLogExport,
+  AuditLogFilterParams,
+  AuditLogListResponse,
+  AuditResourceType,
+  CreateAuditLogDTO
+} from '../models/audit-log.model';
+import { errorFactory } from '../utils/error-handler';
+import { logger, redactSensitiveData } from '../utils/logger';
+
+// Maximum number of entries that can be exported in a single file
+export const MAX_AUDIT_EXPORT_ROWS = 10000;
+
+// Bookkeeping fields that change on every write and carry no audit value
+const IGNORED_DIFF_FIELDS = ['updatedAt'];
+
+// Columns written to CSV exports, in order
+const CSV_COLUMNS: Array<keyof AuditLog> = [
+  'id',
+  'createdAt',
+  'actorId',
+  'actorRole',
+  'action',
+  'resourceType',
+  'resourceId',
+  'subjectId',
+  'ipAddress',
+  'userAgent',
+  'requestId',
+  'changes',
+  'metadata'
+];
+
+/**
+ * Flattens a nested object into a map of dot-separated paths to leaf values.
+ * Arrays and dates are treated as leaf values.
+ * @param value
+ * @param prefix
+ * @param result
+ * @returns Flattened map of paths to values
+ */
+const flattenRecord = (
+  value: Record<string, any>,
+  prefix = '',
+  result: Record<string, any> = {}
+): Record<string, any> => {
+  for (const [key, fieldValue] of Object.entries(value)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+
+    if (
+      fieldValue !== null &&
+      typeof fieldValue === 'object' &&
+      !Array.isArray(fieldValue) &&
+      !(fieldValue instanceof Date)
+    ) {
+      flattenRecord(fieldValue, path, result);
+    } else {
+      result[path] = fieldValue;
+    }
+  }
+
+  return result;
+};
+
+/**
+ * Computes the field-level differences between two states of a resource.
+ * Sensitive fields are redacted before comparison so secrets never reach the audit trail.
+ * @param before
+ * @param after
+ * @returns List of changed fields with their before and after values
+ */
+export const diffRecords = (
+  before: Record<string, any> | null,
+  after: Record<string, any> | null
+): AuditChange[] => {
+  const flatBefore = before ? flattenRecord(redactSensitiveData(before)) : {};
+  const flatAfter = after ? flattenRecord(redactSensitiveData(after)) : {};
+
+  const fields = new Set([...Object.keys(flatBefore), ...Object.keys(flatAfter)]);
+  const changes: AuditChange[] = [];
+
+  fields.forEach(field => {
+    if (IGNORED_DIFF_FIELDS.includes(field.split('.').pop() as string)) {
+      return;
+    }
+
+    const beforeValue = flatBefore[field];
+    const afterValue = flatAfter[field];
+
+    if (JSON.stringify(beforeValue) !== JSON.stringify(afterValue)) {
+      changes.push({ field, before: beforeValue, after: afterValue });
+    }
+  });
+
+  return changes.sort((a, b) => a.field.localeCompare(b.field));
+};
+
+/**
+ * Escapes a value for inclusion in a CSV cell
+ * @param value
+ * @returns Escaped CSV cell
+ */
+const toCsvCell = (value: any): string => {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  const text = value instanceof Date
+    ? value.toISOString()
+    : typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Service that maintains the append-only audit trail of access to protected records
+ */
+export class AuditService implements IAuditService {
+  /**
+   * Creates a new AuditService instance
+   * @param auditLogRepository
+   */
+  constructor(private auditLogRepository: AuditLogRepository) {
+    this.auditLogRepository = auditLogRepository;
+  }
+
+  /**
+   * Records an entry in the audit trail.
+   * Failures are logged rather than thrown so that auditing never breaks the audited request.
+   * @param entry
+   * @returns The recorded entry, or null if it could not be persisted
+   */
+  async record(entry: CreateAuditLogDTO): Promise<AuditLog | null> {
+    try {
+      return await this.auditLogRepository.create(entry);
+    } catch (error) {
+      logger.error('Audit trail write failed', {
+        error: error instanceof Error ? error.message : String(error),
+        action: entry.action,
+        resourceType: entry.resourceType,
+        resourceId: entry.resourceId,
+        actorId: entry.actorId,
+        requestId: entry.requestId
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Records a change to a resource with its field-level diff
+   * @param entry
+   * @param before
+   * @param after
+   * @returns The recorded entry, or null if it could not be persisted
+   */
+  async recordChange(
+    entry: Omit<CreateAuditLogDTO, 'changes'>,
+    before: Record<string, any> | null,
+    after: Record<string, any> | null
+  ): Promise<AuditLog | null> {
+    return this.record({
+      ...entry,
+      changes: diffRecords(before, after)
+    });
+  }
+
+  /**
+   * Retrieves audit log entries matching the filter parameters
+   * @param filters
+   * @returns Paginated list of audit log entries
+   */
+  async getAuditLogs(filters: AuditLogFilterParams): Promise<AuditLogListResponse> {
+    return this.auditLogRepository.findAll(filters);
+  }
+
+  /**
+   * Exports audit log entries matching the filter parameters and records the export
+   * @param filters
+   * @param format
+   * @param context
+   * @returns The export file contents
+   */
+  async exportAuditLogs(
+    filters: AuditLogFilterParams,
+    format: AuditExportFormat,
+    context: AuditContext
+  ): Promise<AuditLogExport> {
+    // Refuse exports that would be silently truncated
+    const total = await this.auditLogRepository.count(filters);
+    if (total > MAX_AUDIT_EXPORT_ROWS) {
+      throw errorFactory.createValidationError(
+        `Export would contain ${total} entries; narrow the filters to at most ${MAX_AUDIT_EXPORT_ROWS}`,
+        { total, maxRows: MAX_AUDIT_EXPORT_ROWS }
+      );
+    }
+
+    const auditLogs = await this.auditLogRepository.findForExport(filters, MAX_AUDIT_EXPORT_ROWS);
+
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const auditLogExport: AuditLogExport = format === AuditExportFormat.CSV
+      ? {
+          filename: `audit-logs-${timestamp}.csv`,
+          contentType: 'text/csv',
+          content: [
+            CSV_COLUMNS.join(','),
+            ...auditLogs.map(auditLog => CSV_COLUMNS.map(column => toCsvCell(auditLog[column])).join(','))
+          ].join('\n'),
+          count: auditLogs.length
+        }
+      : {
+          filename: `audit-logs-${timestamp}.json`,
+          contentType: 'application/json',
+          content: JSON.stringify(auditLogs, null, 2),
+          count: auditLogs.length
+        };
+
+    // Exporting the audit trail is itself an auditable disclosure
+    await this.record({
+      ...context,
+      action: AuditAction.EXPORT,
+      resourceType: AuditResourceType.AUDIT_LOG,
+      resourceId: null,
+      metadata: { filters, format, count: auditLogExport.count }
+    });
+
+    return auditLogExport;
+  }
+}
+
+// Factory function to create a configured AuditService instance with required dependencies
+export const createAuditService = (): AuditService => {
+  return new AuditService(new AuditLogRepository());
+};
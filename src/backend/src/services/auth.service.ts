@@ -1,5 +1,3 @@
-# src/backend/src/services/auth.service.ts
-```typescript
 import { EventEmitter } from 'events'; // events@^1.1.1
 import {
   IAuthService,
@@ -14,8 +12,16 @@ import {
   TokenPayload,
   RefreshTokenData,
   UserContext,
+  MfaChallengeResponse,
+  MfaVerifyRequest,
+  MfaCodeRequest,
+  MfaSetupResponse,
+  MfaRecoveryCodesResponse,
+  MfaStatus,
 } from '../interfaces/auth.interface';
 import { UserRepository } from '../repositories/user.repository';
+import { MfaRepository } from '../repositories/mfa.repository';
+import { MfaPolicy } from '../models/mfa.model';
 import { User, UserWithoutPassword } from '../types/user.types';
 import {
   generateAccessToken,
@@ -31,7 +37,16 @@ import {
   verifyPassword,
   validatePasswordStrength,
   generateSecureRandomString,
+  encryptData,
+  decryptData,
 } from '../utils/security';
+import {
+  generateTotpSecret,
+  buildOtpauthUri,
+  verifyTotpCode,
+  generateRecoveryCodes,
+  hashRecoveryCode,
+} from '../utils/mfa';
 import { errorFactory } from '../utils/error-handler';
 import { ErrorCodes } from '../constants/error-codes';
 import { Roles } from '../constants/roles';
@@ -39,6 +54,7 @@ import { logger } from '../utils/logger';
 import { redisClient } from '../config/redis';
 import { EmailService } from './email/email.service';
 import { NotificationService } from './notifications.service';
+import { getRolePermissions } from './permissions.service';
 import {
   cacheUser,
   getCachedUser,
@@ -51,6 +67,11 @@ import {
 const REFRESH_TOKEN_KEY_PREFIX = 'refresh_token:';
 const VERIFICATION_TOKEN_KEY_PREFIX = 'verification_token:';
 const PASSWORD_RESET_TOKEN_KEY_PREFIX = 'password_reset_token:';
+const MFA_CHALLENGE_KEY_PREFIX = 'mfa_challenge:';
+const MFA_ATTEMPTS_KEY_PREFIX = 'mfa_attempts:';
+
+const MFA_CHALLENGE_EXPIRATION_SECONDS = 5 * 60; // 5 minutes
+const MFA_CHALLENGE_MAX_ATTEMPTS = 5;
 
 const TOKEN_EXPIRATION = {
   VERIFICATION: '24 * 60 * 60', // 24 hours in seconds
@@ -60,6 +81,14 @@ const TOKEN_EXPIRATION = {
 
 const FRONTEND_URL = process.env.FRONTEND_URL || 'http://localhost:3000';
 
+/**
+ * Pending two-step login stored in Redis until the second factor is verified
+ */
+interface MfaChallengeData {
+  userId: string;
+  enrollmentRequired: boolean;
+}
+
 /**
  * Service that implements the IAuthService interface to provide authentication functionality
  */
@@ -69,11 +98,13 @@ export class AuthService implements IAuthService {
    * @param userRepository 
    * @param emailService 
    * @param notificationService 
+   * @param mfaRepository 
    */
   constructor(
     private userRepository: UserRepository,
     private emailService: EmailService,
-    private notificationService: NotificationService
+    private notificationService: NotificationService,
+    private mfaRepository: MfaRepository = new MfaRepository()
   ) {
     // Store the provided user repository
     this.userRepository = userRepository;
@@ -81,6 +112,8 @@ export class AuthService implements IAuthService {
     this.emailService = emailService;
     // Store the provided notification service
     this.notificationService = notificationService;
+    // Store the provided MFA repository
+    this.mfaRepository = mfaRepository;
   }
 
   /**
@@ -136,9 +169,9 @@ export class AuthService implements IAuthService {
   /**
    * Authenticates a user and provides access tokens
    * @param loginData 
-   * @returns Authentication response with tokens and user data
+   * @returns Authentication response with tokens and user data, or an MFA challenge when a second factor is required
    */
-  async login(loginData: LoginRequest): Promise<AuthResponse> {
+  async login(loginData: LoginRequest): Promise<AuthResponse | MfaChallengeResponse> {
     // Validate login data (email and password presence)
     logger.info('Validating login data', { email: loginData.email });
 
@@ -172,37 +205,247 @@ export class AuthService implements IAuthService {
       throw errorFactory.createUnauthorizedError('Email not verified. Please verify your email address.');
     }
 
-    // Generate token payload with user data
-    const payload: TokenPayload = {
-      userId: user.id,
-      email: user.email,
-      role: user.role,
-      isVerified: user.isVerified,
-    };
+    // Require a second factor before issuing tokens when the user has enrolled in MFA or their role mandates it
+    const mfaChallenge = await this.createMfaChallengeIfRequired(user);
+    if (mfaChallenge) {
+      logger.info('MFA challenge issued', { userId: user.id, enrollmentRequired: mfaChallenge.enrollmentRequired });
+      return mfaChallenge;
+    }
 
-    // Generate access and refresh tokens
-    const { accessToken, refreshToken, expiresIn } = await generateTokens(payload);
+    // Return authentication response with tokens and user data
+    const authResponse = await this.issueAuthResponse(user);
+    logger.info('User logged in successfully', { userId: user.id, email: user.email });
+    return authResponse;
+  }
 
-    // Store refresh token in Redis with user ID and expiration
-    const refreshTokenData = {
-      token: refreshToken,
-      userId: user.id,
-      expiresAt: new Date(Date.now() + (expiresIn * 1000)),
-      createdAt: new Date(),
-      isRevoked: false
-    };
-    await this.storeRefreshToken(refreshTokenData);
+  /**
+   * Completes a two-step login by verifying the second factor of an MFA challenge
+   * @param verifyData 
+   * @returns Authentication response with tokens and user data
+   */
+  async verifyMfaChallenge(verifyData: MfaVerifyRequest): Promise<AuthResponse> {
+    // Retrieve the pending login
+    const challenge = await this.getMfaChallenge(verifyData.mfaToken);
+
+    // Get user from database
+    const user = await this.userRepository.findById(challenge.userId);
+    if (!user) {
+      logger.warn('User not found for MFA challenge', { userId: challenge.userId });
+      await this.discardMfaChallenge(verifyData.mfaToken);
+      throw errorFactory.createUnauthorizedError('Invalid or expired MFA challenge');
+    }
+
+    // Count the attempt before checking the code so concurrent guesses cannot exceed the limit
+    await this.countMfaAttempt(verifyData.mfaToken, challenge);
+
+    let recoveryCodes: string[] | undefined;
+
+    if (challenge.enrollmentRequired) {
+      // Confirming enrollment with a valid code is the second factor for users who had to enroll during login
+      if (!verifyData.code) {
+        throw errorFactory.createValidationError('A code from your authenticator app is required to complete enrollment');
+      }
+
+      ({ recoveryCodes } = await this.enableMfa(user.id, verifyData.code));
+    } else if (!(await this.verifySecondFactor(user.id, verifyData))) {
+      logger.warn('Invalid MFA code', { userId: user.id });
+      throw errorFactory.createUnauthorizedError('Invalid verification code');
+    }
+
+    // The challenge can only be answered once
+    await this.discardMfaChallenge(verifyData.mfaToken);
 
     // Return authentication response with tokens and user data
-    logger.info('User logged in successfully', { userId: user.id, email: user.email });
+    const authResponse = await this.issueAuthResponse(user);
+    logger.info('User logged in successfully with MFA', { userId: user.id, email: user.email });
+    return recoveryCodes ? { ...authResponse, recoveryCodes } : authResponse;
+  }
+
+  /**
+   * Starts MFA enrollment during login for a user whose role requires MFA
+   * @param mfaToken 
+   * @returns TOTP secret and otpauth URI for the authenticator app
+   */
+  async startMfaEnrollment(mfaToken: string): Promise<MfaSetupResponse> {
+    // Retrieve the pending login
+    const challenge = await this.getMfaChallenge(mfaToken);
+
+    // Users who have already enrolled must answer the challenge instead
+    if (!challenge.enrollmentRequired) {
+      logger.warn('MFA enrollment requested for enrolled user', { userId: challenge.userId });
+      throw errorFactory.createValidationError('Multi-factor authentication is already enabled for this account');
+    }
+
+    return this.setupMfa(challenge.userId);
+  }
+
+  /**
+   * Starts MFA enrollment by generating a new TOTP secret
+   * @param userId 
+   * @returns TOTP secret and otpauth URI for the authenticator app
+   */
+  async setupMfa(userId: string): Promise<MfaSetupResponse> {
+    // Get user from database
+    const user = await this.userRepository.findById(userId);
+    if (!user) {
+      logger.warn('User not found for MFA setup', { userId });
+      throw errorFactory.createNotFoundError('User not found', { userId });
+    }
+
+    // Refuse to silently replace an active second factor
+    const userMfa = await this.mfaRepository.findByUserId(userId);
+    if (userMfa?.isEnabled) {
+      logger.warn('MFA setup requested while MFA is enabled', { userId });
+      throw errorFactory.createValidationError('Multi-factor authentication is already enabled; disable it before enrolling again');
+    }
+
+    // Generate a new secret and store it encrypted until enrollment is confirmed
+    const secret = generateTotpSecret();
+    await this.mfaRepository.savePendingEnrollment(userId, encryptData(secret));
+
+    // Return the secret and the URI to show as a QR code
+    logger.info('MFA enrollment started', { userId });
     return {
-      accessToken,
-      refreshToken,
-      expiresIn,
-      user,
+      secret,
+      otpauthUri: buildOtpauthUri(secret, user.email),
+    };
+  }
+
+  /**
+   * Confirms MFA enrollment with a code from the authenticator app and issues recovery codes
+   * @param userId 
+   * @param code 
+   * @returns Recovery codes (shown only once)
+   */
+  async enableMfa(userId: string, code: string): Promise<MfaRecoveryCodesResponse> {
+    // Retrieve the pending enrollment
+    const userMfa = await this.mfaRepository.findByUserId(userId);
+    if (!userMfa) {
+      logger.warn('MFA enable requested without enrollment', { userId });
+      throw errorFactory.createValidationError('Multi-factor authentication enrollment has not been started');
+    }
+
+    if (userMfa.isEnabled) {
+      logger.warn('MFA enable requested while MFA is enabled', { userId });
+      throw errorFactory.createValidationError('Multi-factor authentication is already enabled');
+    }
+
+    // Verify that the authenticator app produces valid codes for the secret
+    const timeStep = verifyTotpCode(decryptData(userMfa.secret), code);
+    if (timeStep === null) {
+      logger.warn('Invalid MFA code during enrollment', { userId });
+      throw errorFactory.createValidationError('Invalid verification code');
+    }
+
+    // Issue recovery codes and store only their hashes
+    const recoveryCodes = generateRecoveryCodes();
+    await this.mfaRepository.enable(userId, recoveryCodes.map(hashRecoveryCode), timeStep);
+
+    // Return the recovery codes
+    logger.info('MFA enabled', { userId });
+    return { recoveryCodes };
+  }
+
+  /**
+   * Disables MFA for a user after verifying the second factor
+   * @param userId 
+   * @param codeData 
+   * @returns True if MFA was disabled
+   */
+  async disableMfa(userId: string, codeData: MfaCodeRequest): Promise<boolean> {
+    // Get user from database
+    const user = await this.userRepository.findById(userId);
+    if (!user) {
+      logger.warn('User not found for MFA disable', { userId });
+      throw errorFactory.createNotFoundError('User not found', { userId });
+    }
+
+    // Users cannot opt out of MFA when their role requires it
+    if (await this.mfaRepository.isRequiredForRole(user.role)) {
+      logger.warn('MFA disable requested for role requiring MFA', { userId, role: user.role });
+      throw errorFactory.createForbiddenError('Multi-factor authentication is required for your role');
+    }
+
+    // Verify possession of the second factor
+    if (!(await this.verifySecondFactor(userId, codeData))) {
+      logger.warn('Invalid MFA code for MFA disable', { userId });
+      throw errorFactory.createUnauthorizedError('Invalid verification code');
+    }
+
+    // Remove the enrollment, including the secret and recovery codes
+    await this.mfaRepository.deleteByUserId(userId);
+
+    logger.info('MFA disabled', { userId });
+    return true;
+  }
+
+  /**
+   * Replaces a user's recovery codes after verifying the second factor
+   * @param userId 
+   * @param codeData 
+   * @returns New recovery codes (shown only once)
+   */
+  async regenerateRecoveryCodes(userId: string, codeData: MfaCodeRequest): Promise<MfaRecoveryCodesResponse> {
+    // Verify possession of the second factor
+    if (!(await this.verifySecondFactor(userId, codeData))) {
+      logger.warn('Invalid MFA code for recovery code regeneration', { userId });
+      throw errorFactory.createUnauthorizedError('Invalid verification code');
+    }
+
+    // Issue new recovery codes, invalidating the previous ones
+    const recoveryCodes = generateRecoveryCodes();
+    await this.mfaRepository.replaceRecoveryCodes(userId, recoveryCodes.map(hashRecoveryCode));
+
+    logger.info('MFA recovery codes regenerated', { userId });
+    return { recoveryCodes };
+  }
+
+  /**
+   * Retrieves the MFA status of a user
+   * @param userId 
+   * @returns MFA status
+   */
+  async getMfaStatus(userId: string): Promise<MfaStatus> {
+    // Get user from database
+    const user = await this.userRepository.findById(userId);
+    if (!user) {
+      logger.warn('User not found for MFA status', { userId });
+      throw errorFactory.createNotFoundError('User not found', { userId });
+    }
+
+    const userMfa = await this.mfaRepository.findByUserId(userId);
+    const isEnabled = !!userMfa?.isEnabled;
+
+    return {
+      isEnabled,
+      isRequired: await this.mfaRepository.isRequiredForRole(user.role),
+      recoveryCodesRemaining: isEnabled && userMfa ? userMfa.recoveryCodes.length : 0,
     };
   }
 
+  /**
+   * Retrieves the MFA policy of every role
+   * @returns MFA policies
+   */
+  async getMfaPolicies(): Promise<MfaPolicy[]> {
+    return this.mfaRepository.findPolicies();
+  }
+
+  /**
+   * Sets whether MFA is mandatory for a role. Users with the role who have not
+   * enrolled are required to enroll at their next login.
+   * @param role 
+   * @param isRequired 
+   * @param adminId 
+   * @returns Updated MFA policy
+   */
+  async updateMfaPolicy(role: Roles, isRequired: boolean, adminId: string): Promise<MfaPolicy> {
+    const policy = await this.mfaRepository.savePolicy(role, isRequired, adminId);
+
+    logger.info('MFA policy updated', { role, isRequired, adminId });
+    return policy;
+  }
+
   /**
    * Refreshes the access token using a valid refresh token
    * @param refreshData 
@@ -541,7 +784,7 @@ export class AuthService implements IAuthService {
       email,
       role,
       isVerified,
-      permissions: [], // TODO: Implement permission retrieval based on role
+      permissions: getRolePermissions(role),
     };
   }
 
@@ -754,6 +997,159 @@ export class AuthService implements IAuthService {
     }
   }
 
+  /**
+   * Generates tokens for a fully authenticated user and stores the refresh token
+   * @param user 
+   * @returns Authentication response with tokens and user data
+   */
+  private async issueAuthResponse(user: User): Promise<AuthResponse> {
+    // Generate token payload with user data
+    const payload: TokenPayload = {
+      userId: user.id,
+      email: user.email,
+      role: user.role,
+      isVerified: user.isVerified,
+    };
+
+    // Generate access and refresh tokens
+    const { accessToken, refreshToken, expiresIn } = await generateTokens(payload);
+
+    // Store refresh token in Redis with user ID and expiration
+    const refreshTokenData = {
+      token: refreshToken,
+      userId: user.id,
+      expiresAt: new Date(Date.now() + (expiresIn * 1000)),
+      createdAt: new Date(),
+      isRevoked: false
+    };
+    await this.storeRefreshToken(refreshTokenData);
+
+    // Return tokens with user data without password
+    const { passwordHash, ...userWithoutPassword } = user;
+    return {
+      accessToken,
+      refreshToken,
+      expiresIn,
+      user: userWithoutPassword,
+    };
+  }
+
+  /**
+   * Creates an MFA challenge if the user has enrolled in MFA or their role requires it
+   * @param user 
+   * @returns MFA challenge, or null if the user can be issued tokens directly
+   */
+  private async createMfaChallengeIfRequired(user: User): Promise<MfaChallengeResponse | null> {
+    const userMfa = await this.mfaRepository.findByUserId(user.id);
+    const isEnabled = !!userMfa?.isEnabled;
+
+    // Users who have not enrolled only need a second factor when their role requires one
+    if (!isEnabled && !(await this.mfaRepository.isRequiredForRole(user.role))) {
+      return null;
+    }
+
+    // Store the pending login in Redis with a short expiration
+    const mfaToken = generateSecureRandomString(64);
+    const challenge: MfaChallengeData = {
+      userId: user.id,
+      enrollmentRequired: !isEnabled,
+    };
+    await redisClient.set(`${MFA_CHALLENGE_KEY_PREFIX}${mfaToken}`, JSON.stringify(challenge), 'EX', MFA_CHALLENGE_EXPIRATION_SECONDS);
+
+    return {
+      mfaRequired: true,
+      mfaToken,
+      expiresIn: MFA_CHALLENGE_EXPIRATION_SECONDS,
+      enrollmentRequired: challenge.enrollmentRequired,
+    };
+  }
+
+  /**
+   * Retrieves a pending MFA challenge from Redis
+   * @param mfaToken 
+   * @returns The pending challenge
+   */
+  private async getMfaChallenge(mfaToken: string): Promise<MfaChallengeData> {
+    // Validate challenge token presence
+    if (!mfaToken) {
+      logger.warn('MFA challenge token missing');
+      throw errorFactory.createUnauthorizedError('MFA challenge token is required');
+    }
+
+    // Retrieve challenge data from Redis
+    const challengeDataString = await redisClient.get(`${MFA_CHALLENGE_KEY_PREFIX}${mfaToken}`);
+
+    // If challenge not found or expired, throw unauthorized error
+    if (!challengeDataString) {
+      logger.warn('Invalid or expired MFA challenge');
+      throw errorFactory.createUnauthorizedError('Invalid or expired MFA challenge');
+    }
+
+    return JSON.parse(challengeDataString) as MfaChallengeData;
+  }
+
+  /**
+   * Counts an answer to an MFA challenge, discarding the challenge once the attempt limit is exceeded.
+   * The counter is a separate key incremented atomically, so concurrent answers each use up an attempt.
+   * @param mfaToken 
+   * @param challenge 
+   * @returns Promise that resolves when the attempt is counted
+   */
+  private async countMfaAttempt(mfaToken: string, challenge: MfaChallengeData): Promise<void> {
+    const attemptsKey = `${MFA_ATTEMPTS_KEY_PREFIX}${mfaToken}`;
+    const attempts = await redisClient.incr(attemptsKey);
+
+    // Expire the counter with the challenge it belongs to
+    if (attempts === 1) {
+      await redisClient.expire(attemptsKey, MFA_CHALLENGE_EXPIRATION_SECONDS);
+    }
+
+    // Force a new password login once the attempt limit is exceeded
+    if (attempts > MFA_CHALLENGE_MAX_ATTEMPTS) {
+      await this.discardMfaChallenge(mfaToken);
+      logger.warn('MFA challenge discarded after too many failed attempts', { userId: challenge.userId });
+      throw errorFactory.createUnauthorizedError('Invalid or expired MFA challenge');
+    }
+  }
+
+  /**
+   * Removes an MFA challenge and its attempt counter from Redis
+   * @param mfaToken 
+   * @returns Promise that resolves when the challenge is removed
+   */
+  private async discardMfaChallenge(mfaToken: string): Promise<void> {
+    await redisClient.del(`${MFA_CHALLENGE_KEY_PREFIX}${mfaToken}`, `${MFA_ATTEMPTS_KEY_PREFIX}${mfaToken}`);
+  }
+
+  /**
+   * Verifies a TOTP or recovery code against a user's enabled MFA enrollment.
+   * Each TOTP code and recovery code is accepted only once.
+   * @param userId 
+   * @param codeData 
+   * @returns True if the second factor is valid
+   */
+  private async verifySecondFactor(userId: string, codeData: MfaCodeRequest): Promise<boolean> {
+    const userMfa = await this.mfaRepository.findByUserId(userId);
+    if (!userMfa || !userMfa.isEnabled) {
+      return false;
+    }
+
+    if (codeData.code) {
+      const timeStep = verifyTotpCode(decryptData(userMfa.secret), codeData.code);
+      return timeStep !== null && this.mfaRepository.markTimeStepUsed(userId, timeStep);
+    }
+
+    if (codeData.recoveryCode) {
+      const consumed = await this.mfaRepository.consumeRecoveryCode(userId, hashRecoveryCode(codeData.recoveryCode));
+      if (consumed) {
+        logger.warn('MFA recovery code used', { userId, recoveryCodesRemaining: userMfa.recoveryCodes.length - 1 });
+      }
+      return consumed;
+    }
+
+    return false;
+  }
+
   /**
    * Stores a refresh token in Redis
    * @param tokenData 
@@ -865,7 +1261,8 @@ export class AuthService implements IAuthService {
 export function createAuthService(
   userRepository: UserRepository,
   emailService: EmailService,
-  notificationService: NotificationService
+  notificationService: NotificationService,
+  mfaRepository: MfaRepository = new MfaRepository()
 ): AuthService {
-  return new AuthService(userRepository, emailService, notificationService);
+  return new AuthService(userRepository, emailService, notificationService, mfaRepository);
 }
\ No newline at end of file
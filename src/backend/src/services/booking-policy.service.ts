@@ -0,0 +1,473 @@
+import { IBookingPolicyService } from '../interfaces/booking-policy.interface';
+import { IPaymentProcessingService } from '../interfaces/payment.interface';
+import { IAuditService, AuditContext } from '../interfaces/audit.interface';
+import { Booking, BookingStatus } from '../models/booking.model';
+import { AuditAction, AuditResourceType } from '../models/audit-log.model';
+import {
+  BookingPolicy,
+  BookingPolicySettings,
+  PolicyViolation,
+  PolicyViolationFilters,
+  PolicyViolationStatus,
+  PolicyViolationType,
+  UpdateBookingPolicyDTO
+} from '../types/booking-policy.types';
+import { BookingPolicyRepository } from '../repositories/booking-policy.repository';
+import { BookingRepository } from '../repositories/booking.repository';
+import { CaseManagerProfileRepository } from '../repositories/case-manager-profile.repository';
+import { ProviderAvailabilityRepository } from '../repositories/provider-availability.repository';
+import { NotificationRepository } from '../repositories/notification.repository';
+import { UserRepository } from '../repositories/user.repository';
+import { NotificationService } from './notifications.service';
+import { EmailService } from './email/email.service';
+import { PaymentProcessingService } from './payment/payment-processing.service';
+import { createAuditService } from './audit.service';
+import { currency } from '../config/payment';
+import { Roles } from '../constants/roles';
+import { ErrorCodes } from '../constants/error-codes';
+import { NOTIFICATION_TYPES, NOTIFICATION_PRIORITIES } from '../constants/notification-types';
+import { errorFactory } from '../utils/error-handler';
+import { logger } from '../utils/logger';
+
+/**
+ * Policy applied to providers who have not set their own: late cancellations and no-shows
+ * are recorded without a fee, and three within 90 days are referred for review
+ */
+export const DEFAULT_BOOKING_POLICY: BookingPolicySettings = {
+  cancellationWindowHours: 24,
+  lateCancellationFee: 0,
+  noShowFee: 0,
+  strikeThreshold: 3,
+  strikeWindowDays: 90
+};
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+const MS_PER_DAY = 24 * MS_PER_HOUR;
+
+/**
+ * Checks whether a cancelled booking was cancelled inside a policy's cancellation window.
+ * Bookings cancelled after they were due to start are late as well.
+ * @param booking - The cancelled booking; its last update is the cancellation
+ * @param policy - The provider's policy
+ * @returns True if the cancellation was late
+ */
+export function isLateCancellation(booking: Booking, policy: BookingPolicySettings): boolean {
+  const cancelledAt = new Date(booking.updatedAt).getTime();
+  const windowStart = new Date(booking.startTime).getTime() - policy.cancellationWindowHours * MS_PER_HOUR;
+
+  return cancelledAt > windowStart;
+}
+
+/**
+ * Formats an amount in the smallest currency unit for display
+ * @param amount - Amount in cents
+ * @returns Formatted amount, e.g. "25.00 USD"
+ */
+const formatFee = (amount: number): string => `${(amount / 100).toFixed(2)} ${currency}`;
+
+/**
+ * Service that applies providers' late cancellation and no-show policies to their clients
+ */
+export class BookingPolicyService implements IBookingPolicyService {
+  /**
+   * Creates a new BookingPolicyService instance with required dependencies
+   * @param bookingPolicyRepository
+   * @param bookingRepository
+   * @param caseManagerProfileRepository
+   * @param notificationService
+   * @param paymentService - Charges and voids violation fees
+   * @param auditService - Records waivers in the audit trail
+   */
+  constructor(
+    private bookingPolicyRepository: BookingPolicyRepository,
+    private bookingRepository: BookingRepository,
+    private caseManagerProfileRepository: CaseManagerProfileRepository,
+    private notificationService: NotificationService,
+    private paymentService: IPaymentProcessingService,
+    private auditService: IAuditService
+  ) {
+    this.bookingPolicyRepository = bookingPolicyRepository;
+    this.bookingRepository = bookingRepository;
+    this.caseManagerProfileRepository = caseManagerProfileRepository;
+    this.notificationService = notificationService;
+    this.paymentService = paymentService;
+    this.auditService = auditService;
+  }
+
+  /**
+   * Retrieves a provider's booking policy, or the default policy if they have not set one
+   * @param providerId
+   * @returns The provider's booking policy
+   */
+  async getPolicy(providerId: string): Promise<BookingPolicy> {
+    const policy = await this.bookingPolicyRepository.findPolicy(providerId);
+
+    return policy || { providerId, ...DEFAULT_BOOKING_POLICY, updatedById: null, updatedAt: null };
+  }
+
+  /**
+   * Changes a provider's booking policy. Settings left out keep their current values.
+   * @param providerId
+   * @param data
+   * @param userId
+   * @param userRole
+   * @returns The updated policy
+   */
+  async updatePolicy(
+    providerId: string,
+    data: UpdateBookingPolicyDTO,
+    userId: string,
+    userRole: string
+  ): Promise<BookingPolicy> {
+    // Providers set their own policy; administrators can set any provider's
+    if (userRole !== Roles.ADMINISTRATOR && !(userRole === Roles.PROVIDER && userId === providerId)) {
+      throw errorFactory.createForbiddenError('User not authorized to change this provider\'s booking policy', { providerId, userId, userRole });
+    }
+
+    const { providerId: _providerId, updatedById: _updatedById, updatedAt: _updatedAt, ...current } = await this.getPolicy(providerId);
+
+    const policy = await this.bookingPolicyRepository.upsertPolicy(providerId, { ...current, ...data }, userId);
+
+    logger.info('Booking policy updated', { providerId, userId });
+
+    return policy;
+  }
+
+  /**
+   * Records a late cancellation if the client, or a case manager on their behalf, cancelled
+   * a booking inside the provider's cancellation window
+   * @param bookingId
+   * @returns The recorded violation, or null if the cancellation was not late
+   */
+  async recordLateCancellation(bookingId: string): Promise<PolicyViolation | null> {
+    const booking = await this.bookingRepository.findById(bookingId);
+    if (!booking || booking.status !== BookingStatus.CANCELLED) {
+      return null;
+    }
+
+    const policy = await this.getPolicy(booking.providerId);
+    if (!isLateCancellation(booking, policy) || !(await this.isCancelledForClient(booking))) {
+      return null;
+    }
+
+    return this.recordViolation(booking, PolicyViolationType.LATE_CANCELLATION, policy, new Date(booking.updatedAt));
+  }
+
+  /**
+   * Records a no-show for a booking the client did not attend
+   * @param bookingId
+   * @returns The recorded violation, or null if the booking is not a no-show
+   */
+  async recordNoShow(bookingId: string): Promise<PolicyViolation | null> {
+    const booking = await this.bookingRepository.findById(bookingId);
+    if (!booking || booking.status !== BookingStatus.NO_SHOW) {
+      return null;
+    }
+
+    const policy = await this.getPolicy(booking.providerId);
+
+    return this.recordViolation(booking, PolicyViolationType.NO_SHOW, policy, new Date(booking.startTime));
+  }
+
+  /**
+   * Retrieves the policy violations the user is a party to
+   * @param filters
+   * @param userId
+   * @param userRole
+   * @returns The matching violations
+   */
+  async getViolations(filters: PolicyViolationFilters, userId: string, userRole: string): Promise<PolicyViolation[]> {
+    const scopedFilters: PolicyViolationFilters = { ...filters };
+
+    if (userRole === Roles.CLIENT) {
+      scopedFilters.clientId = userId;
+    } else if (userRole === Roles.PROVIDER) {
+      scopedFilters.providerId = userId;
+    } else if (userRole === Roles.CASE_MANAGER) {
+      const assignedClients = await this.getAssignedClients(userId);
+
+      if (scopedFilters.clientId && !assignedClients.includes(scopedFilters.clientId)) {
+        throw errorFactory.createForbiddenError('Client is not assigned to this case manager', { clientId: scopedFilters.clientId, userId });
+      }
+
+      if (!scopedFilters.clientId) {
+        scopedFilters.clientIds = assignedClients;
+      }
+    } else if (userRole !== Roles.ADMINISTRATOR) {
+      throw errorFactory.createForbiddenError('User not authorized to view policy violations', { userId, userRole });
+    }
+
+    return this.bookingPolicyRepository.findViolations(scopedFilters);
+  }
+
+  /**
+   * Waives a violation as an exception. The fee is voided first, refunded if it was already
+   * paid, so that a failure leaves the violation active and the waiver can be retried.
+   * @param id
+   * @param reason
+   * @param userId
+   * @param userRole
+   * @param auditContext
+   * @returns The waived violation
+   */
+  async waiveViolation(
+    id: string,
+    reason: string,
+    userId: string,
+    userRole: string,
+    auditContext: AuditContext
+  ): Promise<PolicyViolation> {
+    const violation = await this.bookingPolicyRepository.findViolationById(id);
+    if (!violation) {
+      throw errorFactory.createNotFoundError('Policy violation not found', { violationId: id });
+    }
+
+    // Exceptions are granted by the client's case managers, or by administrators
+    const canWaive = userRole === Roles.ADMINISTRATOR
+      || (userRole === Roles.CASE_MANAGER && (await this.getAssignedClients(userId)).includes(violation.clientId));
+    if (!canWaive) {
+      throw errorFactory.createForbiddenError('User not authorized to waive this policy violation', { violationId: id, userId, userRole });
+    }
+
+    if (violation.status !== PolicyViolationStatus.ACTIVE) {
+      throw errorFactory.createError('Policy violation has already been waived', ErrorCodes.CONFLICT, { violationId: id, status: violation.status });
+    }
+
+    if (violation.paymentIntentId) {
+      await this.voidFee(violation.paymentIntentId);
+    }
+
+    const waived = await this.bookingPolicyRepository.waive(id, userId, reason, new Date());
+    if (!waived) {
+      throw errorFactory.createError('Policy violation has already been waived', ErrorCodes.CONFLICT, { violationId: id });
+    }
+
+    await this.auditService.recordChange(
+      {
+        ...auditContext,
+        action: AuditAction.UPDATE,
+        resourceType: AuditResourceType.POLICY_VIOLATION,
+        resourceId: waived.id,
+        subjectId: waived.clientId,
+        metadata: { reason, bookingId: waived.bookingId, type: waived.type, feeAmount: waived.feeAmount }
+      },
+      violation,
+      waived
+    );
+
+    logger.info('Policy violation waived', { violationId: id, userId });
+
+    return waived;
+  }
+
+  /**
+   * Records a violation, charges the provider's fee for it, tells the client and refers the
+   * client for review if it takes them to the strike threshold. Violations already recorded
+   * for the booking are returned unchanged.
+   * @param booking
+   * @param type
+   * @param policy
+   * @param occurredAt
+   * @returns The recorded violation
+   */
+  private async recordViolation(
+    booking: Booking,
+    type: PolicyViolationType,
+    policy: BookingPolicySettings,
+    occurredAt: Date
+  ): Promise<PolicyViolation> {
+    const existing = await this.bookingPolicyRepository.findViolationByBooking(booking.id, type);
+    if (existing) {
+      return existing;
+    }
+
+    let violation = await this.bookingPolicyRepository.createViolation({
+      bookingId: booking.id,
+      clientId: booking.clientId,
+      providerId: booking.providerId,
+      type,
+      feeAmount: type === PolicyViolationType.NO_SHOW ? policy.noShowFee : policy.lateCancellationFee,
+      occurredAt
+    });
+
+    logger.info('Policy violation recorded', { violationId: violation.id, bookingId: booking.id, type });
+
+    if (violation.feeAmount > 0) {
+      violation = await this.chargeFee(violation);
+    }
+
+    await this.notifyClient(violation, policy);
+
+    const strikes = await this.bookingPolicyRepository.countActiveViolations(
+      violation.clientId,
+      violation.providerId,
+      new Date(occurredAt.getTime() - policy.strikeWindowDays * MS_PER_DAY)
+    );
+
+    if (strikes >= policy.strikeThreshold) {
+      violation = await this.bookingPolicyRepository.markReviewRequested(violation.id, new Date());
+      await this.requestReview(violation, strikes, policy);
+    }
+
+    return violation;
+  }
+
+  /**
+   * Creates the payment intent for a violation's fee
+   * @param violation
+   * @returns The violation, linked to its payment intent if one was created
+   */
+  private async chargeFee(violation: PolicyViolation): Promise<PolicyViolation> {
+    try {
+      const { paymentIntentId } = await this.paymentService.createPolicyFeePaymentIntent({
+        violationId: violation.id,
+        bookingId: violation.bookingId,
+        clientId: violation.clientId,
+        providerId: violation.providerId,
+        feeType: violation.type,
+        amount: violation.feeAmount
+      });
+
+      return await this.bookingPolicyRepository.setPaymentIntent(violation.id, paymentIntentId);
+    } catch (error) {
+      // The violation still counts as a strike; the fee can be charged again from the record
+      logger.error('Error charging policy violation fee', {
+        violationId: violation.id,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return violation;
+    }
+  }
+
+  /**
+   * Voids a violation's fee: unpaid fees are cancelled and paid fees refunded
+   * @param paymentIntentId
+   */
+  private async voidFee(paymentIntentId: string): Promise<void> {
+    const { status } = await this.paymentService.getPaymentStatus(paymentIntentId);
+
+    if (status === 'succeeded') {
+      await this.paymentService.refundPayment(paymentIntentId, undefined, 'requested_by_customer');
+    } else if (status !== 'canceled') {
+      await this.paymentService.cancelPayment(paymentIntentId, 'abandoned');
+    }
+  }
+
+  /**
+   * Checks whether a booking was cancelled by its client or by one of the client's case
+   * managers, rather than by the provider or an administrator
+   * @param booking
+   * @returns True if the cancellation was made for the client
+   */
+  private async isCancelledForClient(booking: Booking): Promise<boolean> {
+    if (!booking.cancelledBy) {
+      return false;
+    }
+
+    if (booking.cancelledBy === booking.clientId) {
+      return true;
+    }
+
+    return (await this.getAssignedClients(booking.cancelledBy)).includes(booking.clientId);
+  }
+
+  /**
+   * Retrieves the client IDs assigned to a case manager user
+   * @param userId
+   * @returns Assigned client IDs
+   */
+  private async getAssignedClients(userId: string): Promise<string[]> {
+    const profile = await this.caseManagerProfileRepository.findByUserId(userId);
+    return profile?.assignedClients || [];
+  }
+
+  /**
+   * Tells a client a violation was recorded against them and what it costs
+   * @param violation
+   * @param policy
+   */
+  private async notifyClient(violation: PolicyViolation, policy: BookingPolicySettings): Promise<void> {
+    const isNoShow = violation.type === PolicyViolationType.NO_SHOW;
+    const description = isNoShow
+      ? 'You were marked as not attending your appointment.'
+      : `Your appointment was cancelled less than ${policy.cancellationWindowHours} hours before it started, which counts as a late cancellation.`;
+    const fee = violation.paymentIntentId ? ` A fee of ${formatFee(violation.feeAmount)} applies under your provider's policy.` : '';
+
+    try {
+      const notification = await this.notificationService.createNotification({
+        userId: violation.clientId,
+        type: NOTIFICATION_TYPES.POLICY_VIOLATION,
+        title: isNoShow ? 'Missed appointment recorded' : 'Late cancellation recorded',
+        message: `${description}${fee} Contact your case manager if you had a good reason.`,
+        data: {
+          violationId: violation.id,
+          bookingId: violation.bookingId,
+          providerId: violation.providerId,
+          type: violation.type,
+          feeAmount: violation.feeAmount,
+          paymentIntentId: violation.paymentIntentId
+        },
+        priority: NOTIFICATION_PRIORITIES.HIGH
+      });
+
+      await this.notificationService.sendNotification(notification);
+    } catch (error) {
+      // Clients can still see their violations in the app, so notification failures should not fail recording
+      logger.error('Error notifying client of policy violation', { violationId: violation.id, clientId: violation.clientId, error });
+    }
+  }
+
+  /**
+   * Asks a client's case managers to review a client who reached the strike threshold
+   * @param violation - The violation that reached the threshold
+   * @param strikes - The client's active violations within the strike window
+   * @param policy
+   */
+  private async requestReview(violation: PolicyViolation, strikes: number, policy: BookingPolicySettings): Promise<void> {
+    try {
+      const caseManagers = await this.caseManagerProfileRepository.findByAssignedClient(violation.clientId);
+
+      if (caseManagers.length === 0) {
+        logger.warn('No case manager to review client who reached the policy strike threshold', { violationId: violation.id, clientId: violation.clientId });
+        return;
+      }
+
+      for (const caseManager of caseManagers) {
+        const notification = await this.notificationService.createNotification({
+          userId: caseManager.userId,
+          type: NOTIFICATION_TYPES.POLICY_REVIEW_REQUIRED,
+          title: 'Client attendance needs review',
+          message: `A client has ${strikes} late cancellations or missed appointments with the same provider in the last ${policy.strikeWindowDays} days. Review their attendance and waive any violations that had a good reason.`,
+          data: {
+            violationId: violation.id,
+            clientId: violation.clientId,
+            providerId: violation.providerId,
+            strikes,
+            strikeThreshold: policy.strikeThreshold
+          },
+          priority: NOTIFICATION_PRIORITIES.HIGH
+        });
+
+        await this.notificationService.sendNotification(notification);
+      }
+    } catch (error) {
+      // The review request is recorded on the violation, so case managers can still find it
+      logger.error('Error requesting review of policy violations', { violationId: violation.id, clientId: violation.clientId, error });
+    }
+  }
+}
+
+/**
+ * Factory function to create a configured BookingPolicyService instance with required dependencies
+ * @returns A BookingPolicyService instance
+ */
+export const createBookingPolicyService = (): BookingPolicyService => {
+  return new BookingPolicyService(
+    new BookingPolicyRepository(),
+    new BookingRepository(new ProviderAvailabilityRepository()),
+    new CaseManagerProfileRepository(),
+    new NotificationService(new NotificationRepository(), new UserRepository(), new EmailService()),
+    new PaymentProcessingService(),
+    createAuditService()
+  );
+};
@@ -0,0 +1,1339 @@
+import { IBookingService } from '../interfaces/booking.interface';
+import { IMatchFeedbackService } from '../interfaces/provider.interface';
+import { IWaitlistService } from '../interfaces/waitlist.interface';
+import { IPriorAuthorizationService } from '../interfaces/prior-authorization.interface';
+import {
+  Booking,
+  BookingStatus,
+  BookingStatusTransitions,
+  BookingFilterParams,
+  BookingResponse,
+  BookingListResponse,
+  CreateBookingDTO,
+  RescheduleBookingDTO,
+  BookingSeries,
+  BookingSeriesStatus,
+  BookingSeriesProgress,
+  BookingSeriesResponse,
+  BookingOccurrenceConflict,
+  CreateBookingSeriesDTO,
+  CreateBookingSeriesResponse,
+  RecurrenceFrequency,
+  RecurrenceRule,
+  SeriesScope
+} from '../models/booking.model';
+import { BookingRepository } from '../repositories/booking.repository';
+import { ProviderAvailabilityRepository } from '../repositories/provider-availability.repository';
+import { CaseManagerProfileRepository } from '../repositories/case-manager-profile.repository';
+import { ServicesPlanRepository } from '../repositories/services-plan.repository';
+import { createMatchFeedbackService } from './match-feedback.service';
+import { createWaitlistService } from './waitlist.service';
+import { createPriorAuthorizationService } from './prior-authorization.service';
+import { Roles } from '../constants/roles';
+import { ServiceType } from '../constants/service-types';
+import { ErrorCodes } from '../constants/error-codes';
+import { DayOfWeek } from '../types/provider.types';
+import { ServiceItem } from '../types/services-plan.types';
+import { redisClient } from '../config/redis';
+import { errorFactory, isAppError } from '../utils/error-handler';
+import { DEFAULT_TIMEZONE, fromZonedWallClock, toZonedWallClock } from '../utils/date-time';
+import { logger } from '../utils/logger';
+import { addDays } from 'date-fns'; // v^2.30.0
+
+/**
+ * Event channels published when bookings change
+ */
+export const BOOKING_EVENTS = {
+  BOOKING_CREATED: 'booking.created',
+  BOOKING_RESCHEDULED: 'booking.rescheduled',
+  BOOKING_CANCELLED: 'booking.cancelled',
+  BOOKING_STATUS_CHANGED: 'booking.status-changed',
+  BOOKING_SERIES_CREATED: 'booking.series-created',
+};
+
+/**
+ * Booking statuses that can be set directly through a status update.
+ * Cancellation and rescheduling have their own operations.
+ */
+const DELIVERY_STATUSES: BookingStatus[] = [
+  BookingStatus.IN_PROGRESS,
+  BookingStatus.COMPLETED,
+  BookingStatus.NO_SHOW,
+  BookingStatus.INTERRUPTED,
+];
+
+/**
+ * Most occurrences a single series may book, two years of weekly sessions
+ */
+export const MAX_SERIES_OCCURRENCES = 104;
+
+/**
+ * Weekdays in the order occurrences fall within a week
+ */
+const WEEKDAY_ORDER: DayOfWeek[] = [
+  DayOfWeek.MONDAY,
+  DayOfWeek.TUESDAY,
+  DayOfWeek.WEDNESDAY,
+  DayOfWeek.THURSDAY,
+  DayOfWeek.FRIDAY,
+  DayOfWeek.SATURDAY,
+  DayOfWeek.SUNDAY,
+];
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Weekdays indexed by Date.getUTCDay()
+ */
+const UTC_DAY_ORDER: DayOfWeek[] = [
+  DayOfWeek.SUNDAY,
+  DayOfWeek.MONDAY,
+  DayOfWeek.TUESDAY,
+  DayOfWeek.WEDNESDAY,
+  DayOfWeek.THURSDAY,
+  DayOfWeek.FRIDAY,
+  DayOfWeek.SATURDAY,
+];
+
+/**
+ * Start and end time of a single occurrence of a series
+ */
+interface Occurrence {
+  startTime: Date;
+  endTime: Date;
+}
+
+/**
+ * Moves a wall-clock time from toZonedWallClock by whole calendar days
+ * @param wallClock
+ * @param days
+ * @returns The moved wall-clock time
+ */
+function addWallClockDays(wallClock: Date, days: number): Date {
+  return new Date(wallClock.getTime() + days * MS_PER_DAY);
+}
+
+/**
+ * Gets the start of the calendar day of a wall-clock time from toZonedWallClock
+ * @param wallClock
+ * @returns Milliseconds since the epoch at the start of the day
+ */
+function startOfWallClockDay(wallClock: Date): number {
+  return Date.UTC(wallClock.getUTCFullYear(), wallClock.getUTCMonth(), wallClock.getUTCDate());
+}
+
+/**
+ * Lists the wall-clock start times of the occurrences falling in one period of a
+ * recurrence, e.g. one week of a weekly series
+ * @param recurrence
+ * @param firstStart - Wall-clock start time of the first occurrence
+ * @param period - Number of periods since the first occurrence
+ * @returns Wall-clock start times in the period, earliest first
+ */
+function getPeriodStarts(recurrence: RecurrenceRule, firstStart: Date, period: number): Date[] {
+  const steps = period * recurrence.interval;
+
+  switch (recurrence.frequency) {
+    case RecurrenceFrequency.DAILY:
+      return [addWallClockDays(firstStart, steps)];
+    case RecurrenceFrequency.MONTHLY: {
+      // Months without the first occurrence's date are skipped rather than moved to the month end
+      const start = new Date(firstStart);
+      start.setUTCMonth(start.getUTCMonth() + steps);
+      return start.getUTCDate() === firstStart.getUTCDate() ? [start] : [];
+    }
+    case RecurrenceFrequency.WEEKLY: {
+      if (recurrence.byDay.length === 0) {
+        return [addWallClockDays(firstStart, steps * 7)];
+      }
+
+      const firstDayIndex = WEEKDAY_ORDER.indexOf(UTC_DAY_ORDER[firstStart.getUTCDay()]);
+      return WEEKDAY_ORDER
+        .filter(day => recurrence.byDay.includes(day))
+        .map(day => addWallClockDays(firstStart, steps * 7 + WEEKDAY_ORDER.indexOf(day) - firstDayIndex));
+    }
+    default:
+      return [];
+  }
+}
+
+/**
+ * Expands a recurrence into the occurrences it books. Occurrences keep the first
+ * occurrence's time of day in the provider's timezone, so a weekly 9:00 session stays
+ * at 9:00 across DST changes, and keep its duration.
+ * @param recurrence
+ * @param startTime - Start time of the first occurrence
+ * @param endTime - End time of the first occurrence
+ * @param maxOccurrences - Stop expanding after this many occurrences
+ * @param timezone - IANA timezone the recurrence's days and times are kept in
+ * @returns The occurrences, earliest first
+ */
+export function expandRecurrence(
+  recurrence: RecurrenceRule,
+  startTime: Date,
+  endTime: Date,
+  maxOccurrences: number,
+  timezone: string = DEFAULT_TIMEZONE
+): Occurrence[] {
+  const duration = endTime.getTime() - startTime.getTime();
+  const limit = recurrence.count !== null ? Math.min(recurrence.count, maxOccurrences) : maxOccurrences;
+  const firstStart = toZonedWallClock(startTime, timezone);
+  const occurrences: Occurrence[] = [];
+
+  // Every period has an occurrence except months missing the start date, which at most
+  // five in twelve are, so twice the limit always reaches it
+  for (let period = 0; period < limit * 2; period++) {
+    for (const wallClock of getPeriodStarts(recurrence, firstStart, period)) {
+      const start = fromZonedWallClock(wallClock, timezone);
+
+      if (start < startTime) {
+        continue;
+      }
+
+      if (recurrence.until && start > recurrence.until) {
+        return occurrences;
+      }
+
+      occurrences.push({ startTime: start, endTime: new Date(start.getTime() + duration) });
+
+      if (occurrences.length >= limit) {
+        return occurrences;
+      }
+    }
+  }
+
+  return occurrences;
+}
+
+/**
+ * Ends a recurrence just before an occurrence, keeping the occurrences before it
+ * @param recurrence
+ * @param before - Start time of the first occurrence to drop
+ * @returns The truncated recurrence
+ */
+function truncateRecurrence(recurrence: RecurrenceRule, before: Date): RecurrenceRule {
+  return { ...recurrence, count: null, until: new Date(before.getTime() - 1) };
+}
+
+/**
+ * Shifts a recurrence's weekdays and end date by a number of days, keeping it in step
+ * with occurrences moved by the same amount
+ * @param recurrence
+ * @param days
+ * @returns The shifted recurrence
+ */
+function shiftRecurrence(recurrence: RecurrenceRule, days: number): RecurrenceRule {
+  return {
+    ...recurrence,
+    byDay: recurrence.byDay.map(day => WEEKDAY_ORDER[(((WEEKDAY_ORDER.indexOf(day) + days) % 7) + 7) % 7]),
+    until: recurrence.until ? addDays(recurrence.until, days) : null,
+  };
+}
+
+/**
+ * Summarizes delivery of a series' occurrences. Rescheduled bookings are skipped because
+ * their replacement booking is counted instead.
+ * @param bookings
+ * @returns The series progress
+ */
+function summarizeSeriesProgress(bookings: Booking[]): BookingSeriesProgress {
+  const progress: BookingSeriesProgress = { total: 0, scheduled: 0, delivered: 0, missed: 0, cancelled: 0 };
+
+  for (const booking of bookings) {
+    switch (booking.status) {
+      case BookingStatus.RESCHEDULED:
+        continue;
+      case BookingStatus.SCHEDULED:
+      case BookingStatus.IN_PROGRESS:
+        progress.scheduled++;
+        break;
+      case BookingStatus.COMPLETED:
+        progress.delivered++;
+        break;
+      case BookingStatus.NO_SHOW:
+      case BookingStatus.INTERRUPTED:
+        progress.missed++;
+        break;
+      case BookingStatus.CANCELLED:
+        progress.cancelled++;
+        break;
+    }
+    progress.total++;
+  }
+
+  return progress;
+}
+
+/**
+ * Service that implements the IBookingService interface to manage bookings between clients and providers
+ */
+export class BookingsService implements IBookingService {
+  /**
+   * Creates a new BookingsService instance with required dependencies
+   * @param bookingRepository
+   * @param availabilityRepository
+   * @param caseManagerProfileRepository
+   * @param matchFeedbackService - Links new bookings to the matches that led to them
+   * @param waitlistService - Holds freed slots for waitlisted clients and offers them
+   * @param servicesPlanRepository - Looks up the service items recurring series deliver
+   */
+  constructor(
+    private bookingRepository: BookingRepository,
+    private availabilityRepository: ProviderAvailabilityRepository,
+    private caseManagerProfileRepository: CaseManagerProfileRepository,
+    private matchFeedbackService?: IMatchFeedbackService,
+    private waitlistService?: IWaitlistService,
+    private servicesPlanRepository: ServicesPlanRepository = new ServicesPlanRepository(),
+    private priorAuthorizationService?: IPriorAuthorizationService
+  ) {
+    this.bookingRepository = bookingRepository;
+    this.availabilityRepository = availabilityRepository;
+    this.caseManagerProfileRepository = caseManagerProfileRepository;
+    this.matchFeedbackService = matchFeedbackService;
+    this.waitlistService = waitlistService;
+    this.servicesPlanRepository = servicesPlanRepository;
+    this.priorAuthorizationService = priorAuthorizationService;
+  }
+
+  /**
+   * Creates a new booking
+   * @param data
+   * @param userId
+   * @param userRole
+   * @returns The created booking
+   */
+  async createBooking(data: CreateBookingDTO, userId: string, userRole: string): Promise<Booking> {
+    logger.info('Attempting to create booking', { clientId: data.clientId, providerId: data.providerId, userId, userRole });
+
+    // Clients can only book for themselves, case managers only for assigned clients
+    if (!(await this.canActForClient(data.clientId, userId, userRole))) {
+      throw errorFactory.createForbiddenError('User not authorized to create bookings for this client', { clientId: data.clientId, userId, userRole });
+    }
+
+    this.validateTimeWindow(data.startTime, data.endTime);
+
+    // A booking may only deliver a service item of its own client's services plan
+    if (data.serviceItemId) {
+      await this.getClientServiceItem(data.serviceItemId, data.clientId);
+    }
+
+    // Reject windows that overlap an existing active booking for the provider
+    await this.ensureNoConflicts(data.providerId, data.startTime, data.endTime);
+    await this.ensureSlotNotHeld(data.providerId, data.clientId, data.startTime, data.endTime);
+    await this.ensureUnitsAuthorized(data.serviceItemId, [data.startTime], data.authorizationOverrideReason, userId, userRole);
+
+    // The repository verifies provider availability and reserves the time slot
+    const booking = await this.bookingRepository.create(data);
+
+    await this.emitBookingEvent(BOOKING_EVENTS.BOOKING_CREATED, {
+      bookingId: booking.id,
+      clientId: booking.clientId,
+      providerId: booking.providerId,
+      createdById: userId,
+    });
+
+    await this.linkMatchFeedback(booking);
+    await this.recordWaitlistBooking(booking);
+    await this.alertOnAuthorizedUnitsUsed(booking.serviceItemId);
+
+    logger.info('Booking created successfully', { bookingId: booking.id });
+
+    return booking;
+  }
+
+  /**
+   * Creates a recurring booking series and books every occurrence up front
+   * @param data
+   * @param userId
+   * @param userRole
+   * @returns The series, its bookings, and any occurrences skipped because they conflicted
+   */
+  async createBookingSeries(data: CreateBookingSeriesDTO, userId: string, userRole: string): Promise<CreateBookingSeriesResponse> {
+    logger.info('Attempting to create booking series', { clientId: data.clientId, providerId: data.providerId, userId, userRole });
+
+    if (!(await this.canActForClient(data.clientId, userId, userRole))) {
+      throw errorFactory.createForbiddenError('User not authorized to create bookings for this client', { clientId: data.clientId, userId, userRole });
+    }
+
+    this.validateTimeWindow(data.startTime, data.endTime);
+
+    if (data.serviceItemId) {
+      await this.validateSeriesServiceItem(data);
+    }
+
+    // Expand one past the limit so an over-long series is rejected rather than silently cut short
+    const timezone = await this.getProviderTimezone(data.providerId);
+    const occurrences = expandRecurrence(data.recurrence, data.startTime, data.endTime, MAX_SERIES_OCCURRENCES + 1, timezone);
+
+    if (occurrences.length > MAX_SERIES_OCCURRENCES) {
+      throw errorFactory.createValidationError(
+        `A booking series cannot have more than ${MAX_SERIES_OCCURRENCES} occurrences`,
+        { recurrence: data.recurrence }
+      );
+    }
+
+    if (occurrences.length === 0) {
+      throw errorFactory.createValidationError('Recurrence does not produce any occurrences', { recurrence: data.recurrence });
+    }
+
+    const available: Occurrence[] = [];
+    const skipped: BookingOccurrenceConflict[] = [];
+
+    for (const occurrence of occurrences) {
+      const reason = await this.findOccurrenceConflict(
+        data.providerId,
+        data.clientId,
+        occurrence,
+        data.serviceType
+      );
+
+      if (reason) {
+        skipped.push({ ...occurrence, reason });
+      } else {
+        available.push(occurrence);
+      }
+    }
+
+    if (skipped.length > 0 && (!data.skipConflicts || available.length === 0)) {
+      throw errorFactory.createError(
+        `${skipped.length} of ${occurrences.length} occurrences could not be booked`,
+        ErrorCodes.CONFLICT,
+        { conflicts: skipped }
+      );
+    }
+
+    await this.ensureUnitsAuthorized(
+      data.serviceItemId,
+      available.map(occurrence => occurrence.startTime),
+      data.authorizationOverrideReason,
+      userId,
+      userRole
+    );
+
+    const { series, bookings } = await this.bookingRepository.createSeries(
+      {
+        clientId: data.clientId,
+        providerId: data.providerId,
+        serviceItemId: data.serviceItemId ?? null,
+        serviceType: data.serviceType,
+        recurrence: data.recurrence,
+        startTime: data.startTime,
+        endTime: data.endTime,
+        notes: data.notes,
+        location: data.location,
+        createdById: userId,
+      },
+      available
+    );
+
+    await this.emitBookingEvent(BOOKING_EVENTS.BOOKING_SERIES_CREATED, {
+      seriesId: series.id,
+      bookingIds: bookings.map(booking => booking.id),
+      clientId: series.clientId,
+      providerId: series.providerId,
+      createdById: userId,
+    });
+
+    await this.linkMatchFeedback(bookings[0]);
+    await this.recordWaitlistBooking(bookings[0]);
+    await this.alertOnAuthorizedUnitsUsed(series.serviceItemId);
+
+    logger.info('Booking series created successfully', { seriesId: series.id, booked: bookings.length, skipped: skipped.length });
+
+    return { series, bookings, progress: summarizeSeriesProgress(bookings), skipped };
+  }
+
+  /**
+   * Retrieves a recurring booking series with its bookings and delivery progress
+   * @param seriesId
+   * @param userId
+   * @param userRole
+   * @returns The series with its bookings and progress
+   */
+  async getBookingSeries(seriesId: string, userId: string, userRole: string): Promise<BookingSeriesResponse> {
+    const series = await this.getSeries(seriesId);
+
+    const hasAccess = userRole === Roles.PROVIDER
+      ? series.providerId === userId
+      : await this.canActForClient(series.clientId, userId, userRole);
+
+    if (!hasAccess) {
+      throw errorFactory.createForbiddenError('User not authorized to access this booking series', { seriesId, userId, userRole });
+    }
+
+    const bookings = await this.bookingRepository.findSeriesBookings(seriesId);
+
+    return { series, bookings, progress: summarizeSeriesProgress(bookings) };
+  }
+
+  /**
+   * Retrieves a booking with client, provider and service item details
+   * @param id
+   * @param userId
+   * @param userRole
+   * @returns The detailed booking
+   */
+  async getBookingById(id: string, userId: string, userRole: string): Promise<BookingResponse> {
+    const bookingResponse = await this.bookingRepository.findDetailedById(id);
+
+    if (!bookingResponse) {
+      throw errorFactory.createNotFoundError('Booking not found', { bookingId: id });
+    }
+
+    if (!(await this.canAccessBooking(bookingResponse.booking, userId, userRole))) {
+      throw errorFactory.createForbiddenError('User not authorized to access this booking', { bookingId: id, userId, userRole });
+    }
+
+    return bookingResponse;
+  }
+
+  /**
+   * Retrieves bookings visible to the requesting user
+   * @param filters
+   * @param userId
+   * @param userRole
+   * @returns Paginated list of bookings
+   */
+  async getBookings(filters: BookingFilterParams, userId: string, userRole: string): Promise<BookingListResponse> {
+    const scopedFilters: BookingFilterParams = { ...filters };
+
+    // Restrict the query to bookings the user is a party to
+    if (userRole === Roles.CLIENT) {
+      scopedFilters.clientId = userId;
+    } else if (userRole === Roles.PROVIDER) {
+      scopedFilters.providerId = userId;
+    } else if (userRole === Roles.CASE_MANAGER) {
+      const assignedClients = await this.getAssignedClients(userId);
+
+      if (scopedFilters.clientId && !assignedClients.includes(scopedFilters.clientId)) {
+        throw errorFactory.createForbiddenError('Client is not assigned to this case manager', { clientId: scopedFilters.clientId, userId });
+      }
+
+      if (!scopedFilters.clientId) {
+        scopedFilters.clientIds = assignedClients;
+      }
+    }
+
+    return this.bookingRepository.findAll(scopedFilters);
+  }
+
+  /**
+   * Retrieves upcoming scheduled bookings for a client or provider
+   * @param userId
+   * @param userRole
+   * @param limit
+   * @returns Paginated list of upcoming bookings
+   */
+  async getUpcomingBookings(userId: string, userRole: string, limit: number): Promise<BookingListResponse> {
+    if (userRole !== Roles.CLIENT && userRole !== Roles.PROVIDER) {
+      throw errorFactory.createValidationError('Upcoming bookings are only available for clients and providers', { userRole });
+    }
+
+    return this.bookingRepository.getUpcomingBookings(userId, userRole, limit);
+  }
+
+  /**
+   * Reschedules a booking to a new time window
+   * @param id
+   * @param data
+   * @param userId
+   * @param userRole
+   * @returns The replacement booking
+   */
+  async rescheduleBooking(id: string, data: RescheduleBookingDTO, userId: string, userRole: string): Promise<Booking> {
+    logger.info('Attempting to reschedule booking', { bookingId: id, userId, userRole });
+
+    const booking = await this.getAccessibleBooking(id, userId, userRole);
+
+    this.validateStatusTransition(booking, BookingStatus.RESCHEDULED);
+    this.validateTimeWindow(data.startTime, data.endTime);
+
+    if (booking.seriesId && data.scope && data.scope !== SeriesScope.OCCURRENCE) {
+      return this.rescheduleSeriesOccurrences(booking, data, data.scope, userId, userRole);
+    }
+
+    await this.ensureNoConflicts(booking.providerId, data.startTime, data.endTime, booking.id);
+    await this.ensureSlotNotHeld(booking.providerId, booking.clientId, data.startTime, data.endTime);
+    await this.ensureProviderAvailable(booking.providerId, data.startTime, data.endTime, data.serviceType);
+    await this.ensureUnitsAuthorized(
+      booking.serviceItemId,
+      [data.startTime],
+      data.authorizationOverrideReason,
+      userId,
+      userRole,
+      [booking.id]
+    );
+
+    const newBooking = await this.moveBooking(booking, data, booking.seriesId, userId);
+
+    await this.offerFreedSlots(booking.providerId);
+    await this.alertOnAuthorizedUnitsUsed(booking.serviceItemId);
+
+    logger.info('Booking rescheduled successfully', { bookingId: id, newBookingId: newBooking.id });
+
+    return newBooking;
+  }
+
+  /**
+   * Moves an occurrence of a series together with every later occurrence, or the whole
+   * series, by the same number of days and to the same new time of day
+   * @param booking - The occurrence the user moved
+   * @param data
+   * @param scope
+   * @param userId
+   * @param userRole
+   * @returns The occurrence's replacement booking
+   */
+  private async rescheduleSeriesOccurrences(
+    booking: Booking,
+    data: RescheduleBookingDTO,
+    scope: SeriesScope,
+    userId: string,
+    userRole: string
+  ): Promise<Booking> {
+    const series = await this.getSeries(booking.seriesId as string);
+    const seriesBookings = await this.bookingRepository.findSeriesBookings(series.id);
+    const affected = this.selectScopedOccurrences(seriesBookings, booking, scope);
+
+    // Days and times of day are counted in the provider's timezone so moved occurrences
+    // keep their new local time on both sides of a DST change
+    const timezone = await this.getProviderTimezone(booking.providerId);
+    const newStart = toZonedWallClock(data.startTime, timezone);
+    const dayShift = Math.round(
+      (startOfWallClockDay(newStart) - startOfWallClockDay(toZonedWallClock(booking.startTime, timezone))) / MS_PER_DAY
+    );
+    const duration = data.endTime.getTime() - data.startTime.getTime();
+    const shiftTime = (time: Date): Occurrence => {
+      const shifted = addWallClockDays(toZonedWallClock(time, timezone), dayShift);
+      shifted.setUTCHours(newStart.getUTCHours(), newStart.getUTCMinutes(), 0, 0);
+      const startTime = fromZonedWallClock(shifted, timezone);
+      return { startTime, endTime: new Date(startTime.getTime() + duration) };
+    };
+
+    const moves = affected.map(occurrence => ({ occurrence, to: shiftTime(occurrence.startTime) }));
+
+    // Check every occurrence before moving any, ignoring the bookings being moved themselves
+    const affectedIds = affected.map(occurrence => occurrence.id);
+    const conflicts: BookingOccurrenceConflict[] = [];
+
+    for (const move of moves) {
+      const reason = await this.findOccurrenceConflict(
+        booking.providerId,
+        booking.clientId,
+        move.to,
+        data.serviceType,
+        affectedIds
+      );
+
+      if (reason) {
+        conflicts.push({ ...move.to, reason });
+      }
+    }
+
+    if (conflicts.length > 0) {
+      throw errorFactory.createError(
+        `${conflicts.length} of ${moves.length} occurrences could not be rescheduled`,
+        ErrorCodes.CONFLICT,
+        { conflicts }
+      );
+    }
+
+    // The moved occurrences give up the units they used where they were
+    await this.ensureUnitsAuthorized(
+      booking.serviceItemId,
+      moves.map(move => move.to.startTime),
+      data.authorizationOverrideReason,
+      userId,
+      userRole,
+      affectedIds
+    );
+
+    let targetSeriesId = series.id;
+    const newRecurrence = shiftRecurrence(series.recurrence, dayShift);
+
+    if (scope === SeriesScope.FOLLOWING && this.hasEarlierOccurrences(seriesBookings, booking)) {
+      // Earlier occurrences stay where they are, so the series is split and the moved
+      // occurrences carry on in a new series starting from the selected one
+      const newTemplate = shiftTime(booking.startTime);
+      const newSeries = await this.bookingRepository.splitSeries(
+        series.id,
+        truncateRecurrence(series.recurrence, booking.startTime),
+        {
+          clientId: series.clientId,
+          providerId: series.providerId,
+          serviceItemId: series.serviceItemId,
+          serviceType: data.serviceType,
+          recurrence: { ...newRecurrence, count: series.recurrence.count !== null ? moves.length : null },
+          startTime: newTemplate.startTime,
+          endTime: newTemplate.endTime,
+          notes: series.notes,
+          location: series.location,
+          createdById: userId,
+        }
+      );
+      targetSeriesId = newSeries.id;
+    } else {
+      const newTemplate = shiftTime(series.startTime);
+      await this.bookingRepository.updateSeries(series.id, {
+        recurrence: newRecurrence,
+        startTime: newTemplate.startTime,
+        endTime: newTemplate.endTime,
+      });
+    }
+
+    // Move the occurrences furthest in the direction of travel first so each one lands on
+    // a slot its sibling has already vacated
+    const ordered = dayShift > 0 || (dayShift === 0 && data.startTime > booking.startTime)
+      ? [...moves].reverse()
+      : moves;
+
+    let replacement: Booking | null = null;
+    for (const move of ordered) {
+      const newBooking = await this.moveBooking(
+        move.occurrence,
+        { ...move.to, serviceType: data.serviceType, reason: data.reason },
+        targetSeriesId,
+        userId
+      );
+
+      if (move.occurrence.id === booking.id) {
+        replacement = newBooking;
+      }
+    }
+
+    await this.offerFreedSlots(booking.providerId);
+    await this.alertOnAuthorizedUnitsUsed(booking.serviceItemId);
+
+    logger.info('Booking series occurrences rescheduled successfully', { seriesId: series.id, bookingId: booking.id, scope, moved: moves.length });
+
+    return replacement as Booking;
+  }
+
+  /**
+   * Replaces a booking with one at a new time and publishes the change
+   * @param booking
+   * @param data
+   * @param seriesId - Series the replacement belongs to
+   * @param userId
+   * @returns The replacement booking
+   */
+  private async moveBooking(
+    booking: Booking,
+    data: Pick<RescheduleBookingDTO, 'startTime' | 'endTime' | 'serviceType' | 'reason'>,
+    seriesId: string | null,
+    userId: string
+  ): Promise<Booking> {
+    const newBookingData: CreateBookingDTO = {
+      clientId: booking.clientId,
+      providerId: booking.providerId,
+      serviceItemId: booking.serviceItemId,
+      serviceType: data.serviceType,
+      startTime: data.startTime,
+      endTime: data.endTime,
+      notes: booking.notes,
+      location: booking.location,
+      seriesId,
+    };
+
+    const { newBookingId } = await this.bookingRepository.reschedule(booking.id, newBookingData, data.reason || '');
+
+    const newBooking = await this.bookingRepository.findById(newBookingId);
+    if (!newBooking) {
+      throw errorFactory.createInternalServerError('Rescheduled booking could not be retrieved', { bookingId: booking.id, newBookingId });
+    }
+
+    await this.emitBookingEvent(BOOKING_EVENTS.BOOKING_RESCHEDULED, {
+      bookingId: booking.id,
+      newBookingId,
+      clientId: booking.clientId,
+      providerId: booking.providerId,
+      rescheduledById: userId,
+    });
+
+    await this.recordWaitlistBooking(newBooking);
+
+    return newBooking;
+  }
+
+  /**
+   * Cancels a booking
+   * @param id
+   * @param reason
+   * @param userId
+   * @param userRole
+   * @param scope - Which occurrences of a series to cancel
+   * @returns The cancelled booking
+   */
+  async cancelBooking(
+    id: string,
+    reason: string,
+    userId: string,
+    userRole: string,
+    scope: SeriesScope = SeriesScope.OCCURRENCE
+  ): Promise<Booking> {
+    logger.info('Attempting to cancel booking', { bookingId: id, userId, userRole, scope });
+
+    const booking = await this.getAccessibleBooking(id, userId, userRole);
+
+    this.validateStatusTransition(booking, BookingStatus.CANCELLED);
+
+    if (booking.seriesId && scope !== SeriesScope.OCCURRENCE) {
+      return this.cancelSeriesOccurrences(booking, reason, scope, userId);
+    }
+
+    const cancelledBooking = await this.cancelAndPublish(booking, reason, userId);
+
+    await this.offerFreedSlots(booking.providerId);
+
+    logger.info('Booking cancelled successfully', { bookingId: id });
+
+    return cancelledBooking;
+  }
+
+  /**
+   * Cancels an occurrence of a series together with every later occurrence, or the whole series
+   * @param booking - The occurrence the user cancelled
+   * @param reason
+   * @param scope
+   * @param userId
+   * @returns The cancelled occurrence
+   */
+  private async cancelSeriesOccurrences(
+    booking: Booking,
+    reason: string,
+    scope: SeriesScope,
+    userId: string
+  ): Promise<Booking> {
+    const series = await this.getSeries(booking.seriesId as string);
+    const seriesBookings = await this.bookingRepository.findSeriesBookings(series.id);
+    const affected = this.selectScopedOccurrences(seriesBookings, booking, scope);
+
+    let cancelledBooking: Booking | null = null;
+    for (const occurrence of affected) {
+      const cancelled = await this.cancelAndPublish(occurrence, reason, userId);
+
+      if (occurrence.id === booking.id) {
+        cancelledBooking = cancelled;
+      }
+    }
+
+    // Cancelling this and later occurrences ends the series early; otherwise nothing is left of it
+    if (scope === SeriesScope.FOLLOWING && this.hasEarlierOccurrences(seriesBookings, booking)) {
+      await this.bookingRepository.updateSeries(series.id, {
+        recurrence: truncateRecurrence(series.recurrence, booking.startTime),
+      });
+    } else {
+      await this.bookingRepository.updateSeries(series.id, { status: BookingSeriesStatus.CANCELLED });
+    }
+
+    await this.offerFreedSlots(booking.providerId);
+
+    logger.info('Booking series occurrences cancelled successfully', { seriesId: series.id, bookingId: booking.id, scope, cancelled: affected.length });
+
+    return cancelledBooking as Booking;
+  }
+
+  /**
+   * Cancels a booking and publishes the cancellation
+   * @param booking
+   * @param reason
+   * @param userId
+   * @returns The cancelled booking
+   */
+  private async cancelAndPublish(booking: Booking, reason: string, userId: string): Promise<Booking> {
+    const cancelledBooking = await this.bookingRepository.cancel(booking.id, { reason, cancelledBy: userId });
+
+    await this.emitBookingEvent(BOOKING_EVENTS.BOOKING_CANCELLED, {
+      bookingId: booking.id,
+      clientId: booking.clientId,
+      providerId: booking.providerId,
+      cancelledById: userId,
+      reason,
+    });
+
+    return cancelledBooking;
+  }
+
+  /**
+   * Updates the delivery status of a booking
+   * @param id
+   * @param status
+   * @param userId
+   * @param userRole
+   * @returns The updated booking
+   */
+  async updateBookingStatus(id: string, status: BookingStatus, userId: string, userRole: string): Promise<Booking> {
+    logger.info('Attempting to update booking status', { bookingId: id, status, userId, userRole });
+
+    if (!DELIVERY_STATUSES.includes(status)) {
+      throw errorFactory.createValidationError(`Booking status cannot be set to ${status} directly`, { status });
+    }
+
+    // Clients cannot report on service delivery
+    if (userRole === Roles.CLIENT) {
+      throw errorFactory.createForbiddenError('Clients cannot update booking delivery status', { bookingId: id, userId });
+    }
+
+    const booking = await this.getAccessibleBooking(id, userId, userRole);
+
+    this.validateStatusTransition(booking, status);
+
+    const updatedBooking = await this.bookingRepository.updateStatus(id, status);
+
+    await this.emitBookingEvent(BOOKING_EVENTS.BOOKING_STATUS_CHANGED, {
+      bookingId: id,
+      clientId: booking.clientId,
+      providerId: booking.providerId,
+      previousStatus: booking.status,
+      status,
+      updatedById: userId,
+    });
+
+    logger.info('Booking status updated successfully', { bookingId: id, status });
+
+    return updatedBooking;
+  }
+
+  /**
+   * Retrieves a recurring booking series
+   * @param seriesId
+   * @returns The series
+   */
+  private async getSeries(seriesId: string): Promise<BookingSeries> {
+    const series = await this.bookingRepository.findSeriesById(seriesId);
+
+    if (!series) {
+      throw errorFactory.createNotFoundError('Booking series not found', { seriesId });
+    }
+
+    return series;
+  }
+
+  /**
+   * Gets the timezone a provider's schedule, and so their recurring series, is kept in
+   * @param providerId
+   * @returns The provider's IANA timezone
+   */
+  private async getProviderTimezone(providerId: string): Promise<string> {
+    const availability = await this.availabilityRepository.findByProviderId(providerId);
+
+    return availability?.timezone || DEFAULT_TIMEZONE;
+  }
+
+  /**
+   * Selects the still-scheduled occurrences of a series a scoped edit applies to
+   * @param seriesBookings
+   * @param booking - The occurrence the user selected
+   * @param scope
+   * @returns The affected occurrences, earliest first
+   */
+  private selectScopedOccurrences(seriesBookings: Booking[], booking: Booking, scope: SeriesScope): Booking[] {
+    return seriesBookings.filter(occurrence =>
+      occurrence.status === BookingStatus.SCHEDULED &&
+      (scope === SeriesScope.SERIES || occurrence.startTime >= booking.startTime)
+    );
+  }
+
+  /**
+   * Checks whether a series has occurrences before the selected one, which a scoped edit of
+   * this and later occurrences leaves in place
+   * @param seriesBookings
+   * @param booking
+   * @returns True if earlier occurrences exist
+   */
+  private hasEarlierOccurrences(seriesBookings: Booking[], booking: Booking): boolean {
+    return seriesBookings.some(occurrence =>
+      occurrence.status !== BookingStatus.RESCHEDULED && occurrence.startTime < booking.startTime
+    );
+  }
+
+  /**
+   * Retrieves the service item a booking delivers and checks that it belongs to a services plan
+   * of the booking's client
+   * @param serviceItemId
+   * @param clientId
+   * @returns The service item
+   */
+  private async getClientServiceItem(serviceItemId: string, clientId: string): Promise<ServiceItem> {
+    const serviceItem = await this.servicesPlanRepository.findServiceItemById(serviceItemId);
+
+    if (!serviceItem) {
+      throw errorFactory.createNotFoundError('Service item not found', { serviceItemId });
+    }
+
+    const servicesPlan = await this.servicesPlanRepository.findById(serviceItem.servicesPlanId, false, false);
+
+    if (!servicesPlan || servicesPlan.clientId !== clientId) {
+      throw errorFactory.createValidationError('Service item does not belong to the booking\'s client', {
+        serviceItemId,
+        clientId,
+      });
+    }
+
+    return serviceItem;
+  }
+
+  /**
+   * Checks that the service item a series delivers exists, belongs to the series' client and matches the series
+   * @param data
+   */
+  private async validateSeriesServiceItem(data: CreateBookingSeriesDTO): Promise<void> {
+    const serviceItem = await this.getClientServiceItem(data.serviceItemId as string, data.clientId);
+
+    if (serviceItem.serviceType !== data.serviceType) {
+      throw errorFactory.createValidationError('Series service type does not match the service item', {
+        serviceItemId: serviceItem.id,
+        serviceType: data.serviceType,
+        serviceItemServiceType: serviceItem.serviceType,
+      });
+    }
+
+    if (serviceItem.providerId && serviceItem.providerId !== data.providerId) {
+      throw errorFactory.createValidationError('Service item is assigned to a different provider', {
+        serviceItemId: serviceItem.id,
+        providerId: data.providerId,
+      });
+    }
+  }
+
+  /**
+   * Retrieves a booking and verifies the user may act on it
+   * @param id
+   * @param userId
+   * @param userRole
+   * @returns The booking
+   */
+  private async getAccessibleBooking(id: string, userId: string, userRole: string): Promise<Booking> {
+    const booking = await this.bookingRepository.findById(id);
+
+    if (!booking) {
+      throw errorFactory.createNotFoundError('Booking not found', { bookingId: id });
+    }
+
+    if (!(await this.canAccessBooking(booking, userId, userRole))) {
+      throw errorFactory.createForbiddenError('User not authorized to modify this booking', { bookingId: id, userId, userRole });
+    }
+
+    return booking;
+  }
+
+  /**
+   * Checks whether a user is a party to a booking or oversees its client
+   * @param booking
+   * @param userId
+   * @param userRole
+   * @returns True if the user has access to the booking
+   */
+  private async canAccessBooking(booking: Booking, userId: string, userRole: string): Promise<boolean> {
+    if (userRole === Roles.PROVIDER) {
+      return booking.providerId === userId;
+    }
+
+    return this.canActForClient(booking.clientId, userId, userRole);
+  }
+
+  /**
+   * Checks whether a user may act on behalf of a client
+   * @param clientId
+   * @param userId
+   * @param userRole
+   * @returns True if the user may act for the client
+   */
+  private async canActForClient(clientId: string, userId: string, userRole: string): Promise<boolean> {
+    switch (userRole) {
+      case Roles.ADMINISTRATOR:
+        return true;
+      case Roles.CASE_MANAGER:
+        return (await this.getAssignedClients(userId)).includes(clientId);
+      case Roles.CLIENT:
+        return clientId === userId;
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Retrieves the client IDs assigned to a case manager user
+   * @param userId
+   * @returns Assigned client IDs
+   */
+  private async getAssignedClients(userId: string): Promise<string[]> {
+    const profile = await this.caseManagerProfileRepository.findByUserId(userId);
+    return profile?.assignedClients || [];
+  }
+
+  /**
+   * Validates that a booking window is well-formed and in the future
+   * @param startTime
+   * @param endTime
+   */
+  private validateTimeWindow(startTime: Date, endTime: Date): void {
+    if (startTime >= endTime) {
+      throw errorFactory.createValidationError('Booking end time must be after start time', { startTime, endTime });
+    }
+
+    if (startTime <= new Date()) {
+      throw errorFactory.createValidationError('Booking start time must be in the future', { startTime });
+    }
+  }
+
+  /**
+   * Validates that a booking can move to the requested status
+   * @param booking
+   * @param status
+   */
+  private validateStatusTransition(booking: Booking, status: BookingStatus): void {
+    if (!BookingStatusTransitions[booking.status].includes(status)) {
+      throw errorFactory.createValidationError(
+        `Booking cannot change from ${booking.status} to ${status}`,
+        { bookingId: booking.id, currentStatus: booking.status, requestedStatus: status }
+      );
+    }
+  }
+
+  /**
+   * Throws a conflict error if the provider already has an active booking in the window
+   * @param providerId
+   * @param startTime
+   * @param endTime
+   * @param excludeBookingId
+   */
+  private async ensureNoConflicts(providerId: string, startTime: Date, endTime: Date, excludeBookingId?: string): Promise<void> {
+    const hasConflicts = await this.bookingRepository.checkForConflicts(providerId, startTime, endTime, excludeBookingId);
+
+    if (hasConflicts) {
+      throw errorFactory.createError(
+        'Provider already has a booking at the requested time',
+        ErrorCodes.CONFLICT,
+        { providerId, startTime, endTime }
+      );
+    }
+  }
+
+  /**
+   * Explains why an occurrence of a series cannot be booked, if it cannot
+   * @param providerId
+   * @param clientId
+   * @param occurrence
+   * @param serviceType
+   * @param excludeBookingIds - Bookings to ignore, such as those being moved
+   * @returns The reason the occurrence conflicts, or null if it can be booked
+   */
+  private async findOccurrenceConflict(
+    providerId: string,
+    clientId: string,
+    occurrence: Occurrence,
+    serviceType: ServiceType,
+    excludeBookingIds?: string[]
+  ): Promise<string | null> {
+    const { startTime, endTime } = occurrence;
+
+    if (startTime <= new Date()) {
+      return 'Booking start time must be in the future';
+    }
+
+    if (await this.bookingRepository.checkForConflicts(providerId, startTime, endTime, excludeBookingIds)) {
+      return 'Provider already has a booking at the requested time';
+    }
+
+    if (!(await this.availabilityRepository.checkAvailability(providerId, startTime, endTime, serviceType))) {
+      return 'Provider is not available at the requested time';
+    }
+
+    try {
+      await this.ensureSlotNotHeld(providerId, clientId, startTime, endTime);
+    } catch (error) {
+      if (isAppError(error) && error.code === ErrorCodes.CONFLICT) {
+        return error.message;
+      }
+      throw error;
+    }
+
+    return null;
+  }
+
+  /**
+   * Throws a conflict error if the window overlaps a slot held for another client's waitlist offer
+   * @param providerId
+   * @param clientId
+   * @param startTime
+   * @param endTime
+   */
+  private async ensureSlotNotHeld(providerId: string, clientId: string, startTime: Date, endTime: Date): Promise<void> {
+    if (this.waitlistService) {
+      await this.waitlistService.ensureSlotNotHeld(providerId, clientId, startTime, endTime);
+    }
+  }
+
+  /**
+   * Throws a validation error if the provider does not offer the service in the window
+   * @param providerId
+   * @param startTime
+   * @param endTime
+   * @param serviceType
+   */
+  private async ensureProviderAvailable(
+    providerId: string,
+    startTime: Date,
+    endTime: Date,
+    serviceType: ServiceType
+  ): Promise<void> {
+    const isAvailable = await this.availabilityRepository.checkAvailability(providerId, startTime, endTime, serviceType);
+
+    if (!isAvailable) {
+      throw errorFactory.createValidationError('Provider is not available at the requested time', {
+        providerId,
+        startTime,
+        endTime,
+        serviceType,
+      });
+    }
+  }
+
+  /**
+   * Links a new booking to the accepted or overridden match that led to it, if any
+   * @param booking
+   */
+  private async linkMatchFeedback(booking: Booking): Promise<void> {
+    if (!this.matchFeedbackService) {
+      return;
+    }
+
+    try {
+      await this.matchFeedbackService.linkBooking(booking.id, booking.clientId, booking.providerId);
+    } catch (error) {
+      // Match feedback is used to tune matching and should not fail the booking operation
+      logger.error('Error linking booking to match feedback', { bookingId: booking.id, error });
+    }
+  }
+
+  /**
+   * Marks the waitlist offer a new booking was made from as accepted, if any
+   * @param booking
+   */
+  private async recordWaitlistBooking(booking: Booking): Promise<void> {
+    if (!this.waitlistService) {
+      return;
+    }
+
+    try {
+      await this.waitlistService.recordBooking(booking);
+    } catch (error) {
+      // An unrecorded offer lapses on its own and should not fail the booking operation
+      logger.error('Error recording booking against waitlist offer', { bookingId: booking.id, error });
+    }
+  }
+
+  /**
+   * Blocks bookings against a service item beyond the units its prior authorizations
+   * allow, unless a case manager or administrator gives a reason to override the check.
+   * The service item must already be known to belong to the bookings' client, so that
+   * bookings never use up or alert on another client's authorized units.
+   * @param serviceItemId - Service item the bookings are against
+   * @param startTimes - Start times of the bookings being created or moved
+   * @param overrideReason - Why the user books beyond the authorized units, if they do
+   * @param userId
+   * @param userRole
+   * @param movedBookingIds - Bookings being rescheduled, whose current units are released
+   */
+  private async ensureUnitsAuthorized(
+    serviceItemId: string | null,
+    startTimes: Date[],
+    overrideReason: string | null | undefined,
+    userId: string,
+    userRole: string,
+    movedBookingIds: string[] = []
+  ): Promise<void> {
+    if (!this.priorAuthorizationService || !serviceItemId) {
+      return;
+    }
+
+    const check = await this.priorAuthorizationService.checkAuthorizedUnits(serviceItemId, startTimes, movedBookingIds);
+    if (check.authorized) {
+      return;
+    }
+
+    if (!overrideReason) {
+      throw errorFactory.createError(
+        'Booking exceeds the units authorized for this service item',
+        ErrorCodes.CONFLICT,
+        { serviceItemId, shortfalls: check.shortfalls }
+      );
+    }
+
+    if (userRole !== Roles.CASE_MANAGER && userRole !== Roles.ADMINISTRATOR) {
+      throw errorFactory.createForbiddenError('Only case managers can book beyond authorized units', {
+        serviceItemId,
+        userId,
+        userRole
+      });
+    }
+
+    await this.priorAuthorizationService.recordOverride(serviceItemId, check, overrideReason, userId, userRole);
+  }
+
+  /**
+   * Alerts case managers if new bookings left a service item's prior authorizations low on units
+   * @param serviceItemId
+   */
+  private async alertOnAuthorizedUnitsUsed(serviceItemId: string | null): Promise<void> {
+    if (!this.priorAuthorizationService || !serviceItemId) {
+      return;
+    }
+
+    try {
+      await this.priorAuthorizationService.alertOnUnitsUsed(serviceItemId);
+    } catch (error) {
+      // Authorizations are checked again by the daily alerts job
+      logger.error('Error alerting on prior authorization units', { serviceItemId, error });
+    }
+  }
+
+  /**
+   * Offers capacity freed by a cancelled or moved booking to the provider's waitlist
+   * @param providerId
+   */
+  private async offerFreedSlots(providerId: string): Promise<void> {
+    if (!this.waitlistService) {
+      return;
+    }
+
+    try {
+      await this.waitlistService.offerOpenSlots(providerId);
+    } catch (error) {
+      // Waitlist offers should not fail the booking operation
+      logger.error('Error offering freed slots to waitlist', { providerId, error });
+    }
+  }
+
+  /**
+   * Publishes a booking event for subscribers
+   * @param channel
+   * @param payload
+   */
+  private async emitBookingEvent(channel: string, payload: Record<string, any>): Promise<void> {
+    try {
+      await redisClient.publish(channel, JSON.stringify(payload));
+    } catch (error) {
+      // Event delivery failures should not fail the booking operation
+      logger.error('Error emitting booking event', { channel, payload, error });
+    }
+  }
+}
+
+/**
+ * Factory function to create a configured BookingsService instance with required dependencies
+ * @returns A BookingsService instance
+ */
+export const createBookingsService = (): BookingsService => {
+  const availabilityRepository = new ProviderAvailabilityRepository();
+  return new BookingsService(
+    new BookingRepository(availabilityRepository),
+    availabilityRepository,
+    new CaseManagerProfileRepository(),
+    createMatchFeedbackService(),
+    createWaitlistService(),
+    new ServicesPlanRepository(),
+    createPriorAuthorizationService()
+  );
+};
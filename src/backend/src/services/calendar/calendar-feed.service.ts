@@ -0,0 +1,373 @@
+import crypto from 'crypto';
+import { ICalendarFeedService } from '../../interfaces/calendar-feed.interface';
+import { Booking } from '../../models/booking.model';
+import { CalendarFeed, CalendarFeedSubscription, CalendarFeedSummary } from '../../types/calendar.types';
+import { CalendarFeedRepository } from '../../repositories/calendar-feed.repository';
+import { BookingRepository } from '../../repositories/booking.repository';
+import { ProviderAvailabilityRepository } from '../../repositories/provider-availability.repository';
+import { UserRepository } from '../../repositories/user.repository';
+import { EmailService } from '../email/email.service';
+import { CALENDAR_FEED_BASE_URL } from '../../config/calendar';
+import { emailConfig } from '../../config/email';
+import { NOTIFICATION_CHANNELS } from '../../constants/notification-types';
+import { Roles } from '../../constants/roles';
+import { errorFactory } from '../../utils/error-handler';
+import { generateSecureRandomString } from '../../utils/security';
+import { buildCalendar, ICalendarEvent, ICalendarMethod } from '../../utils/icalendar';
+import { logger } from '../../utils/logger';
+
+/**
+ * Roles whose upcoming bookings can be listed in a feed
+ */
+const FEED_ROLES: string[] = [Roles.CLIENT, Roles.PROVIDER];
+
+/**
+ * Length of the secret token in feed URLs
+ */
+const FEED_TOKEN_LENGTH = 48;
+
+/**
+ * Maximum number of upcoming bookings listed in a feed
+ */
+const FEED_BOOKING_LIMIT = 200;
+
+/**
+ * How often subscribed calendar clients are asked to re-read a feed
+ */
+const FEED_REFRESH_INTERVAL_MINUTES = 60;
+
+const FEED_NAME = 'Revolucare appointments';
+
+// Client details stay in Revolucare; events only reserve the time
+const EVENT_SUMMARY = 'Revolucare appointment';
+
+/**
+ * Revision numbers of a booking's event. A booking's time never changes (rescheduling
+ * creates a new booking), so the only revision is its cancellation.
+ */
+const SCHEDULED_SEQUENCE = 0;
+const CANCELLED_SEQUENCE = 1;
+
+/**
+ * Hashes a feed token for storage and lookup. Tokens are random, so an unsalted hash
+ * is enough to keep stored tokens unusable.
+ * @param token - The feed token
+ * @returns SHA-256 hash of the token
+ */
+const hashFeedToken = (token: string): string => crypto.createHash('sha256').update(token).digest('hex');
+
+/**
+ * Removes the token hash and role from a feed before it is returned
+ * @param feed - The feed
+ * @returns The feed summary
+ */
+const toFeedSummary = (feed: CalendarFeed): CalendarFeedSummary => ({
+  id: feed.id,
+  lastAccessedAt: feed.lastAccessedAt,
+  createdAt: feed.createdAt
+});
+
+/**
+ * Converts a booking to an iCalendar event. The UID is stable, so calendar clients
+ * match feeds, invitations and cancellations for the same booking.
+ * @param booking - The booking
+ * @param cancelled - Whether the event is being cancelled
+ * @returns The event
+ */
+export const toBookingEvent = (booking: Booking, cancelled = false): ICalendarEvent => ({
+  uid: `booking-${booking.id}@revolucare.com`,
+  start: new Date(booking.startTime),
+  end: new Date(booking.endTime),
+  summary: EVENT_SUMMARY,
+  description: `Revolucare booking ${booking.id}. Open Revolucare for client and visit details.`,
+  status: cancelled ? 'CANCELLED' : 'CONFIRMED',
+  sequence: cancelled ? CANCELLED_SEQUENCE : SCHEDULED_SEQUENCE,
+  lastModified: booking.updatedAt ? new Date(booking.updatedAt) : undefined
+});
+
+/**
+ * An iCalendar email attachment
+ */
+interface CalendarAttachment {
+  method: ICalendarMethod.REQUEST | ICalendarMethod.CANCEL;
+  filename: string;
+  booking: Booking;
+}
+
+/**
+ * Service for ICS booking feeds and the iCalendar invitations attached to booking emails
+ */
+export class CalendarFeedService implements ICalendarFeedService {
+  /**
+   * Creates a new CalendarFeedService instance with required dependencies
+   * @param calendarFeedRepository
+   * @param bookingRepository
+   * @param userRepository - Looks up the email addresses invitations are sent to
+   * @param emailService
+   */
+  constructor(
+    private calendarFeedRepository: CalendarFeedRepository,
+    private bookingRepository: BookingRepository,
+    private userRepository: UserRepository,
+    private emailService: EmailService
+  ) {
+    this.calendarFeedRepository = calendarFeedRepository;
+    this.bookingRepository = bookingRepository;
+    this.userRepository = userRepository;
+    this.emailService = emailService;
+  }
+
+  /**
+   * Issues a calendar feed for a client or provider
+   * @param userId
+   * @param userRole
+   * @returns The feed with the URLs to subscribe to
+   */
+  async createFeed(userId: string, userRole: string): Promise<CalendarFeedSubscription> {
+    if (!FEED_ROLES.includes(userRole)) {
+      throw errorFactory.createForbiddenError('Only clients and providers have booking calendar feeds', { userId, userRole });
+    }
+
+    const token = generateSecureRandomString(FEED_TOKEN_LENGTH);
+    const feed = await this.calendarFeedRepository.saveFeed(userId, userRole, hashFeedToken(token));
+
+    logger.info('Calendar feed issued', { feedId: feed.id, userId });
+
+    const url = `${CALENDAR_FEED_BASE_URL}/${token}.ics`;
+    return {
+      ...toFeedSummary(feed),
+      url,
+      webcalUrl: url.replace(/^https?:/, 'webcal:')
+    };
+  }
+
+  /**
+   * Retrieves the requesting user's calendar feed
+   * @param userId
+   * @returns The feed, without its URLs
+   */
+  async getFeed(userId: string): Promise<CalendarFeedSummary> {
+    const feed = await this.calendarFeedRepository.findByUserId(userId);
+    if (!feed) {
+      throw errorFactory.createNotFoundError('Calendar feed not found', { userId });
+    }
+
+    return toFeedSummary(feed);
+  }
+
+  /**
+   * Revokes the requesting user's calendar feed
+   * @param userId
+   */
+  async revokeFeed(userId: string): Promise<void> {
+    const deleted = await this.calendarFeedRepository.deleteByUserId(userId);
+    if (!deleted) {
+      throw errorFactory.createNotFoundError('Calendar feed not found', { userId });
+    }
+
+    logger.info('Calendar feed revoked', { userId });
+  }
+
+  /**
+   * Renders the upcoming bookings of the feed a token belongs to
+   * @param token
+   * @returns The iCalendar text
+   */
+  async renderFeed(token: string): Promise<string> {
+    const feed = await this.calendarFeedRepository.findByTokenHash(hashFeedToken(token));
+    if (!feed) {
+      throw errorFactory.createNotFoundError('Calendar feed not found');
+    }
+
+    const { bookings } = await this.bookingRepository.getUpcomingBookings(feed.userId, feed.userRole, FEED_BOOKING_LIMIT);
+
+    const now = new Date();
+    try {
+      await this.calendarFeedRepository.recordAccess(feed.id, now);
+    } catch (error) {
+      // Access times are informational; the feed is still served
+      logger.error('Error recording calendar feed access', { feedId: feed.id, error });
+    }
+
+    // Bookings that were cancelled or rescheduled drop out of the feed, and subscribed
+    // clients remove their events on the next refresh
+    return buildCalendar(bookings.map(booking => toBookingEvent(booking)), {
+      method: ICalendarMethod.PUBLISH,
+      name: FEED_NAME,
+      refreshIntervalMinutes: FEED_REFRESH_INTERVAL_MINUTES,
+      timestamp: now
+    });
+  }
+
+  /**
+   * Emails the client and provider of newly made bookings an invitation for each
+   * @param bookingIds
+   */
+  async sendBookingInvitations(bookingIds: string[]): Promise<void> {
+    const bookings = await this.findBookings(bookingIds);
+    if (bookings.length === 0) {
+      return;
+    }
+
+    await this.emailParticipants(
+      bookings[0],
+      {
+        type: 'booking_invitation',
+        title: bookings.length === 1 ? 'Appointment confirmed' : 'Recurring appointments confirmed',
+        message: bookings.length === 1
+          ? 'Your Revolucare appointment is confirmed. Open the attached invitation to add it to your calendar.'
+          : `Your ${bookings.length} Revolucare appointments are confirmed. Open the attached invitations to add them to your calendar.`
+      },
+      bookings.map((booking, index) => ({
+        method: ICalendarMethod.REQUEST,
+        filename: bookings.length === 1 ? 'invite.ics' : `invite-${index + 1}.ics`,
+        booking
+      }))
+    );
+  }
+
+  /**
+   * Emails the client and provider of a rescheduled booking a cancellation of the
+   * original time and an invitation for the new one
+   * @param bookingId
+   * @param newBookingId
+   */
+  async sendRescheduleInvitation(bookingId: string, newBookingId: string): Promise<void> {
+    const [booking, newBooking] = await Promise.all([
+      this.bookingRepository.findById(bookingId),
+      this.bookingRepository.findById(newBookingId)
+    ]);
+    if (!booking || !newBooking) {
+      logger.warn('Skipping reschedule invitation for missing booking', { bookingId, newBookingId });
+      return;
+    }
+
+    await this.emailParticipants(
+      newBooking,
+      {
+        type: 'booking_rescheduled',
+        title: 'Appointment rescheduled',
+        message: 'Your Revolucare appointment has moved. Open the attached files to update your calendar.'
+      },
+      [
+        { method: ICalendarMethod.CANCEL, filename: 'cancel.ics', booking },
+        { method: ICalendarMethod.REQUEST, filename: 'invite.ics', booking: newBooking }
+      ]
+    );
+  }
+
+  /**
+   * Emails the client and provider of a cancelled booking a cancellation of its invitation
+   * @param bookingId
+   */
+  async sendCancellation(bookingId: string): Promise<void> {
+    const booking = await this.bookingRepository.findById(bookingId);
+    if (!booking) {
+      logger.warn('Skipping cancellation for missing booking', { bookingId });
+      return;
+    }
+
+    await this.emailParticipants(
+      booking,
+      {
+        type: 'booking_cancelled',
+        title: 'Appointment cancelled',
+        message: 'Your Revolucare appointment has been cancelled. Open the attached file to remove it from your calendar.'
+      },
+      [{ method: ICalendarMethod.CANCEL, filename: 'cancel.ics', booking }]
+    );
+  }
+
+  /**
+   * Retrieves bookings, skipping any that no longer exist
+   * @param bookingIds
+   * @returns The bookings that were found
+   */
+  private async findBookings(bookingIds: string[]): Promise<Booking[]> {
+    const bookings: Booking[] = [];
+    for (const bookingId of bookingIds) {
+      const booking = await this.bookingRepository.findById(bookingId);
+      if (booking) {
+        bookings.push(booking);
+      } else {
+        logger.warn('Skipping invitation for missing booking', { bookingId });
+      }
+    }
+    return bookings;
+  }
+
+  /**
+   * Emails a booking's client and provider with iCalendar attachments. A failed delivery
+   * to one participant does not stop delivery to the other.
+   * @param booking - The booking whose participants are emailed
+   * @param content - The email's notification type, subject and message
+   * @param attachments - The iCalendar objects to attach
+   */
+  private async emailParticipants(
+    booking: Booking,
+    content: { type: string; title: string; message: string },
+    attachments: CalendarAttachment[]
+  ): Promise<void> {
+    const [client, provider] = await Promise.all([
+      this.userRepository.findById(booking.clientId),
+      this.userRepository.findById(booking.providerId)
+    ]);
+    const participants = [client, provider].filter((user): user is NonNullable<typeof user> => user !== null);
+    const attendees = participants.map(user => user.email);
+
+    const files = attachments.map(attachment => {
+      const calendar = buildCalendar(
+        [{
+          ...toBookingEvent(attachment.booking, attachment.method === ICalendarMethod.CANCEL),
+          organizer: { name: emailConfig.fromName, email: emailConfig.fromEmail },
+          attendees
+        }],
+        { method: attachment.method }
+      );
+
+      return {
+        content: Buffer.from(calendar, 'utf8').toString('base64'),
+        filename: attachment.filename,
+        type: `text/calendar; charset=utf-8; method=${attachment.method}`,
+        disposition: 'attachment'
+      };
+    });
+
+    for (const user of participants) {
+      const results = await this.emailService.deliverNotification(
+        {
+          id: `${content.type}-${booking.id}-${user.id}`,
+          userId: user.id,
+          type: content.type,
+          title: content.title,
+          message: content.message,
+          channels: [NOTIFICATION_CHANNELS.EMAIL],
+          data: { bookingIds: attachments.map(attachment => attachment.booking.id) }
+        },
+        { recipient: user.email, attachments: files }
+      );
+
+      const failure = results.find(result => !result.success);
+      if (failure) {
+        logger.error('Booking calendar email was not delivered', {
+          bookingId: booking.id,
+          userId: user.id,
+          type: content.type,
+          error: failure.error
+        });
+      }
+    }
+  }
+}
+
+/**
+ * Factory function to create a configured CalendarFeedService instance with required dependencies
+ * @returns A CalendarFeedService instance
+ */
+export const createCalendarFeedService = (): CalendarFeedService =>
+  new CalendarFeedService(
+    new CalendarFeedRepository(),
+    new BookingRepository(new ProviderAvailabilityRepository()),
+    new UserRepository(),
+    new EmailService()
+  );
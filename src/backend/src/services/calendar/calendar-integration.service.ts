@@ -1,4 +1,5 @@
 import { getCalendarConfig, GOOGLE_CALENDAR_PROVIDER, MICROSOFT_GRAPH_PROVIDER } from '../../config/calendar';
+import { ErrorCodes } from '../../constants/error-codes';
 import { GoogleCalendarIntegration } from '../../integrations/google-calendar';
 import { MicrosoftGraphIntegration } from '../../integrations/microsoft-graph';
 import { ExternalServiceInterface, ServiceStatus, WebhookPayload } from '../../interfaces/external-service.interface';
@@ -234,15 +235,17 @@ export class CalendarIntegrationService {
    * @param providerName The calendar provider name
    * @param calendarId ID of the calendar
    * @param notificationUrl URL to receive webhook notifications
+   * @param verificationToken Secret the provider echoes back with each notification
    * @returns Promise that resolves with webhook details
    */
   async setupWebhookNotifications(
     providerName: string,
     calendarId: string,
-    notificationUrl: string
+    notificationUrl: string,
+    verificationToken?: string
   ): Promise<{ id: string; resourceId?: string; expirationTime: string }> {
     const provider = this.getProvider(providerName);
-    return await provider.setupWebhookNotifications(calendarId, notificationUrl);
+    return await provider.setupWebhookNotifications(calendarId, notificationUrl, verificationToken);
   }
 
   /**
@@ -0,0 +1,1018 @@
+import crypto from 'crypto';
+import { ICalendarSyncService } from '../../interfaces/calendar-sync.interface';
+import { IWaitlistService } from '../../interfaces/waitlist.interface';
+import { WebhookPayload } from '../../interfaces/external-service.interface';
+import { Booking, BookingStatus } from '../../models/booking.model';
+import {
+  CalendarConnection,
+  CalendarConnectionStatus,
+  CalendarConnectionSummary,
+  CalendarDriftItem,
+  CalendarDriftType,
+  CalendarInboundSyncResult,
+  CalendarReconciliationReport,
+  ConnectCalendarDTO,
+  ExternalCalendarEvent
+} from '../../types/calendar.types';
+import { BusyPeriod } from '../../types/provider.types';
+import { CalendarSyncRepository, NewBusyPeriod } from '../../repositories/calendar-sync.repository';
+import { BookingRepository } from '../../repositories/booking.repository';
+import { ProviderAvailabilityRepository } from '../../repositories/provider-availability.repository';
+import { CalendarIntegrationService } from './calendar-integration.service';
+import { createWaitlistService } from '../waitlist.service';
+import {
+  CALENDAR_WEBHOOK_BASE_URL,
+  GOOGLE_CALENDAR_PROVIDER,
+  MICROSOFT_GRAPH_PROVIDER
+} from '../../config/calendar';
+import { errorFactory } from '../../utils/error-handler';
+import { generateSecureRandomString } from '../../utils/security';
+import { isOverlapping } from '../../utils/date-time';
+import { logger } from '../../utils/logger';
+
+/**
+ * How far ahead calendars are read for personal events and written with bookings
+ */
+const CALENDAR_SYNC_HORIZON_DAYS = 60;
+
+/**
+ * Change notification subscriptions expiring within this window are renewed during
+ * reconciliation. Microsoft Graph subscriptions last three days and Google channels seven.
+ */
+const SUBSCRIPTION_RENEWAL_WINDOW_HOURS = 24;
+
+/**
+ * Length of the secret calendar providers echo back with each change notification
+ */
+const CHANNEL_TOKEN_LENGTH = 48;
+
+/**
+ * How many reconciliation reports are returned for a connection
+ */
+const RECONCILIATION_REPORT_LIMIT = 20;
+
+/**
+ * Event statuses that do not make the provider busy: cancelled Google events and
+ * Microsoft events shown as free
+ */
+const NON_BLOCKING_EVENT_STATUSES = ['cancelled', 'free'];
+
+/**
+ * Booking statuses whose calendar event is removed
+ */
+const REMOVED_BOOKING_STATUSES = [BookingStatus.CANCELLED, BookingStatus.RESCHEDULED];
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+const MS_PER_DAY = 24 * MS_PER_HOUR;
+
+/**
+ * Changes that bring a connection's busy periods in line with its personal events
+ */
+interface BusyPeriodChanges {
+  create: NewBusyPeriod[];
+  update: BusyPeriod[];
+  delete: BusyPeriod[];
+}
+
+/**
+ * Checks whether an external calendar event makes the provider busy
+ * @param event - The event
+ * @returns True if the event should block slots
+ */
+export function isBlockingEvent(event: ExternalCalendarEvent): boolean {
+  return !NON_BLOCKING_EVENT_STATUSES.includes(event.status.toLowerCase()) && event.end > event.start;
+}
+
+/**
+ * Checks whether a booking should have an event in its provider's calendars
+ * @param booking - The booking
+ * @returns True unless the booking was cancelled or rescheduled
+ */
+export function shouldHaveCalendarEvent(booking: Booking): boolean {
+  return !REMOVED_BOOKING_STATUSES.includes(booking.status);
+}
+
+/**
+ * Compares a secret from a change notification with the one stored for the subscription
+ * in constant time
+ * @param expected - The stored secret
+ * @param received - The secret from the notification
+ * @returns True if they match
+ */
+function tokensMatch(expected: string, received: string | undefined): boolean {
+  if (!received) {
+    return false;
+  }
+
+  const expectedBuffer = Buffer.from(expected);
+  const receivedBuffer = Buffer.from(received);
+  return expectedBuffer.length === receivedBuffer.length && crypto.timingSafeEqual(expectedBuffer, receivedBuffer);
+}
+
+/**
+ * Parses a subscription expiration, which Google gives in epoch milliseconds and
+ * Microsoft Graph as an ISO 8601 string
+ * @param expirationTime - The expiration from the calendar provider
+ * @returns The expiration, or null if it is missing or unreadable
+ */
+function parseSubscriptionExpiration(expirationTime: string): Date | null {
+  const expiration = /^\d+$/.test(expirationTime) ? new Date(Number(expirationTime)) : new Date(expirationTime);
+  return isNaN(expiration.getTime()) ? null : expiration;
+}
+
+/**
+ * Checks whether two time ranges start and end at the same instants
+ */
+const sameTimes = (startA: Date, endA: Date, startB: Date, endB: Date): boolean =>
+  new Date(startA).getTime() === new Date(startB).getTime() && new Date(endA).getTime() === new Date(endB).getTime();
+
+/**
+ * Removes credentials and notification secrets from a connection before it is returned
+ * @param connection - The connection
+ * @returns The connection summary
+ */
+const toConnectionSummary = (connection: CalendarConnection): CalendarConnectionSummary => {
+  const { credentials: _credentials, channelToken: _channelToken, resourceId: _resourceId, ...summary } = connection;
+  return summary;
+};
+
+/**
+ * Service that keeps provider availability and connected external calendars in step in both directions
+ */
+export class CalendarSyncService implements ICalendarSyncService {
+  private calendarServiceReady: Promise<void> | null;
+  private calendarLock: Promise<unknown>;
+
+  /**
+   * Creates a new CalendarSyncService instance with required dependencies
+   * @param calendarSyncRepository
+   * @param bookingRepository
+   * @param availabilityRepository
+   * @param calendarService - Google Calendar and Microsoft Graph clients
+   * @param waitlistService - Offers slots released by deleted personal events to waitlisted clients
+   */
+  constructor(
+    private calendarSyncRepository: CalendarSyncRepository,
+    private bookingRepository: BookingRepository,
+    private availabilityRepository: ProviderAvailabilityRepository,
+    private calendarService: CalendarIntegrationService,
+    private waitlistService?: IWaitlistService
+  ) {
+    this.calendarSyncRepository = calendarSyncRepository;
+    this.bookingRepository = bookingRepository;
+    this.availabilityRepository = availabilityRepository;
+    this.calendarService = calendarService;
+    this.waitlistService = waitlistService;
+    this.calendarServiceReady = null;
+    this.calendarLock = Promise.resolve();
+  }
+
+  /**
+   * Connects a provider's external calendar
+   * @param providerId
+   * @param data
+   * @param userId
+   * @param userRole
+   * @returns The new connection
+   */
+  async connectCalendar(
+    providerId: string,
+    data: ConnectCalendarDTO,
+    userId: string,
+    userRole: string
+  ): Promise<CalendarConnectionSummary> {
+    this.assertCanManageCalendar(providerId, userId, userRole);
+
+    const { calendarProvider } = data;
+    const calendarId = data.calendarId || 'primary';
+
+    const connection = await this.withCalendarLock(async () => {
+      const credentials = await this.calendarService.getTokenFromCode(calendarProvider, data.code);
+      await this.calendarService.setCredentials(calendarProvider, credentials);
+
+      const channelToken = generateSecureRandomString(CHANNEL_TOKEN_LENGTH);
+      const subscription = await this.calendarService.setupWebhookNotifications(
+        calendarProvider,
+        calendarId,
+        `${CALENDAR_WEBHOOK_BASE_URL}/${calendarProvider}`,
+        channelToken
+      );
+
+      return this.calendarSyncRepository.createConnection({
+        providerId,
+        calendarProvider,
+        calendarId,
+        credentials,
+        subscriptionId: subscription.id,
+        resourceId: subscription.resourceId || null,
+        channelToken,
+        subscriptionExpiresAt: parseSubscriptionExpiration(subscription.expirationTime),
+        status: CalendarConnectionStatus.ACTIVE
+      });
+    });
+
+    logger.info('Calendar connected', { connectionId: connection.id, providerId, calendarProvider });
+
+    try {
+      await this.withConnection(connection, async () => {
+        const now = new Date();
+        await this.pullBusyPeriods(connection, now);
+        await this.pushUpcomingBookings(connection, now);
+      });
+    } catch (error) {
+      // The connection is usable; the reconciliation job completes the first sync
+      logger.error('Error running initial calendar sync', { connectionId: connection.id, providerId, error });
+    }
+
+    return toConnectionSummary(connection);
+  }
+
+  /**
+   * Retrieves a provider's calendar connections
+   * @param providerId
+   * @param userId
+   * @param userRole
+   * @returns The connections
+   */
+  async getConnections(providerId: string, userId: string, userRole: string): Promise<CalendarConnectionSummary[]> {
+    this.assertCanManageCalendar(providerId, userId, userRole);
+
+    const connections = await this.calendarSyncRepository.findConnections({ providerId });
+
+    return connections.map(toConnectionSummary);
+  }
+
+  /**
+   * Disconnects a calendar and releases the slots its events blocked
+   * @param providerId
+   * @param connectionId
+   * @param userId
+   * @param userRole
+   */
+  async disconnectCalendar(providerId: string, connectionId: string, userId: string, userRole: string): Promise<void> {
+    const connection = await this.getProviderConnection(providerId, connectionId, userId, userRole);
+
+    if (connection.subscriptionId) {
+      try {
+        await this.withConnection(connection, async () => {
+          await this.calendarService.stopWebhookNotifications(
+            connection.calendarProvider,
+            connection.subscriptionId as string,
+            connection.resourceId || ''
+          );
+        });
+      } catch (error) {
+        // Notifications for a deleted connection are ignored, and the subscription lapses on its own
+        logger.error('Error stopping calendar notifications', { connectionId, error });
+      }
+    }
+
+    await this.calendarSyncRepository.deleteConnection(connectionId);
+    await this.availabilityRepository.invalidateCache(providerId);
+    await this.offerFreedSlots(providerId);
+
+    logger.info('Calendar disconnected', { connectionId, providerId });
+  }
+
+  /**
+   * Handles a change notification from a calendar provider
+   * @param calendarProvider
+   * @param payload
+   * @returns Number of calendars re-read
+   */
+  async handleWebhook(calendarProvider: string, payload: WebhookPayload): Promise<number> {
+    const notifications = this.parseNotifications(calendarProvider, payload);
+
+    const connections = new Map<string, CalendarConnection>();
+    for (const notification of notifications) {
+      const connection = await this.calendarSyncRepository.findConnectionBySubscription(
+        calendarProvider,
+        notification.subscriptionId
+      );
+
+      if (!connection) {
+        // Subscriptions outlive disconnected calendars until they expire
+        logger.warn('Ignoring calendar notification for unknown subscription', {
+          calendarProvider,
+          subscriptionId: notification.subscriptionId
+        });
+        continue;
+      }
+
+      if (!tokensMatch(connection.channelToken, notification.token)) {
+        throw errorFactory.createUnauthorizedError('Invalid calendar notification token', {
+          calendarProvider,
+          subscriptionId: notification.subscriptionId
+        });
+      }
+
+      connections.set(connection.id, connection);
+    }
+
+    for (const connection of connections.values()) {
+      await this.withConnection(connection, () => this.pullBusyPeriods(connection, new Date()));
+    }
+
+    return connections.size;
+  }
+
+  /**
+   * Reads a connected calendar and blocks or unblocks slots for its personal events
+   * @param connectionId
+   * @param now
+   * @returns The busy period changes made
+   */
+  async syncInbound(connectionId: string, now: Date = new Date()): Promise<CalendarInboundSyncResult> {
+    const connection = await this.calendarSyncRepository.findConnectionById(connectionId);
+    if (!connection) {
+      throw errorFactory.createNotFoundError('Calendar connection not found', { connectionId });
+    }
+
+    return this.withConnection(connection, () => this.pullBusyPeriods(connection, now));
+  }
+
+  /**
+   * Writes a booking to its provider's connected calendars
+   * @param bookingId
+   */
+  async syncBooking(bookingId: string): Promise<void> {
+    const booking = await this.bookingRepository.findById(bookingId);
+    if (!booking) {
+      logger.warn('Skipping calendar sync for missing booking', { bookingId });
+      return;
+    }
+
+    const connections = await this.calendarSyncRepository.findConnections({
+      providerId: booking.providerId,
+      status: CalendarConnectionStatus.ACTIVE
+    });
+
+    for (const connection of connections) {
+      try {
+        await this.withConnection(connection, async () => {
+          const link = await this.calendarSyncRepository.findEventLink(booking.id, connection.id);
+          await this.pushBookingEvent(connection, booking, link?.externalEventId || null, link?.id || null);
+        });
+      } catch (error) {
+        // Reconciliation rewrites events that failed to sync
+        logger.error('Error writing booking to calendar', { bookingId, connectionId: connection.id, error });
+      }
+    }
+  }
+
+  /**
+   * Reconciles one of a provider's calendar connections
+   * @param providerId
+   * @param connectionId
+   * @param userId
+   * @param userRole
+   * @returns The reconciliation report
+   */
+  async reconcileConnection(
+    providerId: string,
+    connectionId: string,
+    userId: string,
+    userRole: string
+  ): Promise<CalendarReconciliationReport> {
+    const connection = await this.getProviderConnection(providerId, connectionId, userId, userRole);
+
+    try {
+      return await this.withConnection(connection, () => this.reconcile(connection, new Date()));
+    } catch (error) {
+      await this.recordConnectionError(connection, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Reconciles every calendar connection
+   * @param now
+   * @returns The reconciliation reports
+   */
+  async reconcileAll(now: Date = new Date()): Promise<CalendarReconciliationReport[]> {
+    const connections = await this.calendarSyncRepository.findConnections({});
+
+    const reports: CalendarReconciliationReport[] = [];
+    for (const connection of connections) {
+      try {
+        reports.push(await this.withConnection(connection, () => this.reconcile(connection, now)));
+      } catch (error) {
+        // One unreachable calendar should not stop the others being reconciled
+        logger.error('Error reconciling calendar connection', { connectionId: connection.id, error });
+        await this.recordConnectionError(connection, error);
+      }
+    }
+
+    return reports;
+  }
+
+  /**
+   * Retrieves a connection's most recent reconciliation reports
+   * @param providerId
+   * @param connectionId
+   * @param userId
+   * @param userRole
+   * @returns The reports, newest first
+   */
+  async getReconciliationReports(
+    providerId: string,
+    connectionId: string,
+    userId: string,
+    userRole: string
+  ): Promise<CalendarReconciliationReport[]> {
+    await this.getProviderConnection(providerId, connectionId, userId, userRole);
+
+    return this.calendarSyncRepository.findReconciliationReports(connectionId, RECONCILIATION_REPORT_LIMIT);
+  }
+
+  /**
+   * Compares a connection with Revolucare over the sync horizon, repairs what it can and
+   * records a report. Must run inside withConnection.
+   * @param connection
+   * @param now
+   * @returns The reconciliation report
+   */
+  private async reconcile(connection: CalendarConnection, now: Date): Promise<CalendarReconciliationReport> {
+    const rangeEnd = new Date(now.getTime() + CALENDAR_SYNC_HORIZON_DAYS * MS_PER_DAY);
+
+    await this.renewSubscriptionIfExpiring(connection, now);
+
+    const events = await this.calendarService.getCalendarEvents(
+      connection.calendarProvider,
+      connection.calendarId,
+      now,
+      rangeEnd
+    );
+    const eventsById = new Map(events.map(event => [event.id, event]));
+
+    const links = await this.calendarSyncRepository.findEventLinks(connection.id);
+    const bookingEventIds = new Set(links.map(link => link.externalEventId));
+    const linksByBooking = new Map(links.map(link => [link.bookingId, link]));
+
+    const bookings = await this.bookingRepository.findProviderBookingsBetween(connection.providerId, now, rangeEnd);
+    const items: CalendarDriftItem[] = [];
+
+    // Bookings in the horizon against the events written for them
+    for (const booking of bookings) {
+      const link = linksByBooking.get(booking.id);
+      linksByBooking.delete(booking.id);
+      const event = link ? eventsById.get(link.externalEventId) : undefined;
+
+      if (shouldHaveCalendarEvent(booking)) {
+        if (!event) {
+          items.push(await this.repairDrift(CalendarDriftType.MISSING_EVENT, booking.id, null, booking, () =>
+            this.pushBookingEvent(connection, booking, null, link?.id || null)
+          ));
+        } else if (!sameTimes(event.start, event.end, booking.startTime, booking.endTime)) {
+          items.push(await this.repairDrift(CalendarDriftType.STALE_EVENT, booking.id, event.id, booking, () =>
+            this.pushBookingEvent(connection, booking, event.id, link?.id || null)
+          ));
+        }
+      } else if (link) {
+        items.push(await this.repairDrift(CalendarDriftType.ORPHANED_EVENT, booking.id, link.externalEventId, booking, () =>
+          this.removeBookingEvent(connection, link.id, event ? event.id : null)
+        ));
+      }
+    }
+
+    // Booking events in the horizon whose booking has moved out of it or no longer exists
+    for (const link of linksByBooking.values()) {
+      const event = eventsById.get(link.externalEventId);
+      if (!event) {
+        continue;
+      }
+
+      const booking = await this.bookingRepository.findById(link.bookingId);
+      if (booking && shouldHaveCalendarEvent(booking)) {
+        items.push(await this.repairDrift(CalendarDriftType.STALE_EVENT, booking.id, event.id, event, () =>
+          this.pushBookingEvent(connection, booking, event.id, link.id)
+        ));
+      } else {
+        items.push(await this.repairDrift(CalendarDriftType.ORPHANED_EVENT, link.bookingId, event.id, event, () =>
+          this.removeBookingEvent(connection, link.id, event.id)
+        ));
+      }
+    }
+
+    // Personal events against the busy periods blocking slots for them
+    const changes = await this.diffBusyPeriods(connection, events, bookingEventIds, now, rangeEnd);
+    let blocksRepaired = true;
+    try {
+      await this.applyBusyPeriodChanges(connection, changes);
+    } catch (error) {
+      blocksRepaired = false;
+      logger.error('Error repairing busy periods', { connectionId: connection.id, error });
+    }
+
+    items.push(
+      ...changes.create.map(period => ({
+        type: CalendarDriftType.MISSING_BLOCK,
+        bookingId: null,
+        externalEventId: period.externalEventId,
+        startTime: period.startTime,
+        endTime: period.endTime,
+        repaired: blocksRepaired
+      })),
+      ...changes.update.map(period => ({
+        type: CalendarDriftType.STALE_BLOCK,
+        bookingId: null,
+        externalEventId: period.externalEventId,
+        startTime: period.startTime,
+        endTime: period.endTime,
+        repaired: blocksRepaired
+      })),
+      ...changes.delete.map(period => ({
+        type: CalendarDriftType.ORPHANED_BLOCK,
+        bookingId: null,
+        externalEventId: period.externalEventId,
+        startTime: period.startTime,
+        endTime: period.endTime,
+        repaired: blocksRepaired
+      }))
+    );
+
+    // Personal events the provider has put over a booking need a person to resolve
+    const personalEvents = events.filter(event => !bookingEventIds.has(event.id) && isBlockingEvent(event));
+    for (const booking of bookings.filter(booking => booking.status === BookingStatus.SCHEDULED)) {
+      for (const event of personalEvents) {
+        if (isOverlapping(event.start, event.end, booking.startTime, booking.endTime)) {
+          items.push({
+            type: CalendarDriftType.BOOKING_CONFLICT,
+            bookingId: booking.id,
+            externalEventId: event.id,
+            startTime: event.start,
+            endTime: event.end,
+            repaired: false
+          });
+        }
+      }
+    }
+
+    const repairedCount = items.filter(item => item.repaired).length;
+    const report = await this.calendarSyncRepository.createReconciliationReport({
+      connectionId: connection.id,
+      providerId: connection.providerId,
+      rangeStart: now,
+      rangeEnd,
+      items,
+      repairedCount,
+      unresolvedCount: items.length - repairedCount
+    });
+
+    if (items.length > 0) {
+      logger.warn('Calendar drift detected', {
+        connectionId: connection.id,
+        providerId: connection.providerId,
+        reportId: report.id,
+        repaired: repairedCount,
+        unresolved: items.length - repairedCount
+      });
+    }
+
+    await this.calendarSyncRepository.updateConnection(connection.id, {
+      status: CalendarConnectionStatus.ACTIVE,
+      lastSyncedAt: now,
+      lastError: null
+    });
+
+    return report;
+  }
+
+  /**
+   * Runs a repair for a drift item, recording whether it succeeded
+   * @param type - The kind of drift
+   * @param bookingId - The booking concerned, if any
+   * @param externalEventId - The external event concerned, if any
+   * @param times - Start and end times of the booking or event
+   * @param repair - Brings the two sides back in line
+   * @returns The drift item
+   */
+  private async repairDrift(
+    type: CalendarDriftType,
+    bookingId: string | null,
+    externalEventId: string | null,
+    times: { startTime: Date; endTime: Date } | { start: Date; end: Date },
+    repair: () => Promise<void>
+  ): Promise<CalendarDriftItem> {
+    let repaired = true;
+    try {
+      await repair();
+    } catch (error) {
+      // Unrepaired drift stays in the report and is retried on the next run
+      repaired = false;
+      logger.error('Error repairing calendar drift', { type, bookingId, externalEventId, error });
+    }
+
+    return {
+      type,
+      bookingId,
+      externalEventId,
+      startTime: 'startTime' in times ? times.startTime : times.start,
+      endTime: 'endTime' in times ? times.endTime : times.end,
+      repaired
+    };
+  }
+
+  /**
+   * Reads a connection's calendar and updates its busy periods. Must run inside withConnection.
+   * @param connection
+   * @param now
+   * @returns The busy period changes made
+   */
+  private async pullBusyPeriods(connection: CalendarConnection, now: Date): Promise<CalendarInboundSyncResult> {
+    const rangeEnd = new Date(now.getTime() + CALENDAR_SYNC_HORIZON_DAYS * MS_PER_DAY);
+
+    const events = await this.calendarService.getCalendarEvents(
+      connection.calendarProvider,
+      connection.calendarId,
+      now,
+      rangeEnd
+    );
+    const links = await this.calendarSyncRepository.findEventLinks(connection.id);
+
+    const changes = await this.diffBusyPeriods(
+      connection,
+      events,
+      new Set(links.map(link => link.externalEventId)),
+      now,
+      rangeEnd
+    );
+    await this.applyBusyPeriodChanges(connection, changes);
+
+    await this.calendarSyncRepository.updateConnection(connection.id, {
+      status: CalendarConnectionStatus.ACTIVE,
+      lastSyncedAt: now,
+      lastError: null
+    });
+
+    return {
+      connectionId: connection.id,
+      blocked: changes.create.length,
+      updated: changes.update.length,
+      unblocked: changes.delete.length
+    };
+  }
+
+  /**
+   * Works out the busy period changes that match a connection's personal events. Events
+   * Revolucare wrote for bookings are not personal and never block slots.
+   * @param connection
+   * @param events - Events read from the calendar over the range
+   * @param bookingEventIds - IDs of events written for bookings
+   * @param rangeStart
+   * @param rangeEnd
+   * @returns The changes
+   */
+  private async diffBusyPeriods(
+    connection: CalendarConnection,
+    events: ExternalCalendarEvent[],
+    bookingEventIds: Set<string>,
+    rangeStart: Date,
+    rangeEnd: Date
+  ): Promise<BusyPeriodChanges> {
+    const personalEvents = events.filter(event => !bookingEventIds.has(event.id) && isBlockingEvent(event));
+    const personalEventIds = new Set(personalEvents.map(event => event.id));
+
+    const existing = await this.calendarSyncRepository.findBusyPeriods(connection.id, rangeStart, rangeEnd);
+    const existingByEvent = new Map(existing.map(period => [period.externalEventId, period]));
+
+    const changes: BusyPeriodChanges = { create: [], update: [], delete: [] };
+
+    for (const event of personalEvents) {
+      const period = existingByEvent.get(event.id);
+      if (!period) {
+        changes.create.push({
+          providerId: connection.providerId,
+          connectionId: connection.id,
+          externalEventId: event.id,
+          startTime: event.start,
+          endTime: event.end
+        });
+      } else if (!sameTimes(period.startTime, period.endTime, event.start, event.end)) {
+        changes.update.push({ ...period, startTime: event.start, endTime: event.end });
+      }
+    }
+
+    changes.delete = existing.filter(period => !personalEventIds.has(period.externalEventId));
+
+    return changes;
+  }
+
+  /**
+   * Stores busy period changes, refreshes cached availability and offers any time the
+   * changes released to waitlisted clients
+   * @param connection
+   * @param changes
+   */
+  private async applyBusyPeriodChanges(connection: CalendarConnection, changes: BusyPeriodChanges): Promise<void> {
+    if (changes.create.length === 0 && changes.update.length === 0 && changes.delete.length === 0) {
+      return;
+    }
+
+    await this.calendarSyncRepository.applyBusyPeriodChanges({
+      create: changes.create,
+      update: changes.update.map(({ id, startTime, endTime }) => ({ id, startTime, endTime })),
+      delete: changes.delete.map(period => period.id)
+    });
+
+    await this.availabilityRepository.invalidateCache(connection.providerId);
+
+    logger.info('Updated busy periods from calendar', {
+      connectionId: connection.id,
+      providerId: connection.providerId,
+      blocked: changes.create.length,
+      updated: changes.update.length,
+      unblocked: changes.delete.length
+    });
+
+    if (changes.update.length > 0 || changes.delete.length > 0) {
+      await this.offerFreedSlots(connection.providerId);
+    }
+  }
+
+  /**
+   * Writes a booking's event to a connected calendar, or removes it once the booking was
+   * cancelled or rescheduled. Must run inside withConnection.
+   * @param connection
+   * @param booking
+   * @param externalEventId - The booking's existing event, or null to create one
+   * @param linkId - The booking's existing event link, if any
+   */
+  private async pushBookingEvent(
+    connection: CalendarConnection,
+    booking: Booking,
+    externalEventId: string | null,
+    linkId: string | null
+  ): Promise<void> {
+    if (!shouldHaveCalendarEvent(booking)) {
+      if (linkId) {
+        await this.removeBookingEvent(connection, linkId, externalEventId);
+      }
+      return;
+    }
+
+    // Client details stay in Revolucare; the event only reserves the provider's time
+    const eventDetails = {
+      summary: 'Revolucare appointment',
+      description: `Revolucare booking ${booking.id}. Open Revolucare for client and visit details.`,
+      start: new Date(booking.startTime),
+      end: new Date(booking.endTime)
+    };
+
+    if (externalEventId) {
+      await this.calendarService.updateEvent(connection.calendarProvider, connection.calendarId, externalEventId, eventDetails);
+      return;
+    }
+
+    const event = await this.calendarService.createEvent(connection.calendarProvider, connection.calendarId, eventDetails);
+    await this.calendarSyncRepository.saveEventLink(booking.id, connection.id, event.id);
+  }
+
+  /**
+   * Deletes a booking's event from a connected calendar along with its link. Must run
+   * inside withConnection.
+   * @param connection
+   * @param linkId
+   * @param externalEventId - The event to delete, or null if it is already gone
+   */
+  private async removeBookingEvent(
+    connection: CalendarConnection,
+    linkId: string,
+    externalEventId: string | null
+  ): Promise<void> {
+    if (externalEventId) {
+      await this.calendarService.deleteEvent(connection.calendarProvider, connection.calendarId, externalEventId);
+    }
+
+    await this.calendarSyncRepository.deleteEventLink(linkId);
+  }
+
+  /**
+   * Writes a newly connected calendar's upcoming bookings to it. Must run inside withConnection.
+   * @param connection
+   * @param now
+   */
+  private async pushUpcomingBookings(connection: CalendarConnection, now: Date): Promise<void> {
+    const rangeEnd = new Date(now.getTime() + CALENDAR_SYNC_HORIZON_DAYS * MS_PER_DAY);
+    const bookings = await this.bookingRepository.findProviderBookingsBetween(connection.providerId, now, rangeEnd);
+
+    for (const booking of bookings.filter(shouldHaveCalendarEvent)) {
+      await this.pushBookingEvent(connection, booking, null, null);
+    }
+  }
+
+  /**
+   * Replaces a connection's change notification subscription when it is about to expire.
+   * Must run inside withConnection.
+   * @param connection
+   * @param now
+   */
+  private async renewSubscriptionIfExpiring(connection: CalendarConnection, now: Date): Promise<void> {
+    const renewBy = now.getTime() + SUBSCRIPTION_RENEWAL_WINDOW_HOURS * MS_PER_HOUR;
+    if (connection.subscriptionExpiresAt && new Date(connection.subscriptionExpiresAt).getTime() > renewBy) {
+      return;
+    }
+
+    try {
+      const subscription = await this.calendarService.setupWebhookNotifications(
+        connection.calendarProvider,
+        connection.calendarId,
+        `${CALENDAR_WEBHOOK_BASE_URL}/${connection.calendarProvider}`,
+        connection.channelToken
+      );
+
+      const previousSubscriptionId = connection.subscriptionId;
+      const previousResourceId = connection.resourceId;
+
+      Object.assign(connection, await this.calendarSyncRepository.updateConnection(connection.id, {
+        subscriptionId: subscription.id,
+        resourceId: subscription.resourceId || null,
+        subscriptionExpiresAt: parseSubscriptionExpiration(subscription.expirationTime)
+      }));
+
+      if (previousSubscriptionId) {
+        await this.calendarService.stopWebhookNotifications(
+          connection.calendarProvider,
+          previousSubscriptionId,
+          previousResourceId || ''
+        );
+      }
+
+      logger.info('Renewed calendar notification subscription', { connectionId: connection.id });
+    } catch (error) {
+      // Reconciliation keeps catching changes until the subscription can be renewed
+      logger.error('Error renewing calendar notification subscription', { connectionId: connection.id, error });
+    }
+  }
+
+  /**
+   * Extracts the subscription and secret of each change in a notification
+   * @param calendarProvider
+   * @param payload
+   * @returns The subscription ID and secret of each change
+   */
+  private parseNotifications(
+    calendarProvider: string,
+    payload: WebhookPayload
+  ): Array<{ subscriptionId: string; token: string | undefined }> {
+    if (calendarProvider === GOOGLE_CALENDAR_PROVIDER) {
+      const channelId = payload.headers['x-goog-channel-id'];
+      if (!channelId) {
+        throw errorFactory.createValidationError('Missing X-Goog-Channel-ID header');
+      }
+
+      // Google confirms a new channel with a sync message that carries no change
+      if (payload.headers['x-goog-resource-state'] === 'sync') {
+        return [];
+      }
+
+      return [{ subscriptionId: channelId, token: payload.headers['x-goog-channel-token'] }];
+    }
+
+    if (calendarProvider === MICROSOFT_GRAPH_PROVIDER) {
+      if (!Array.isArray(payload.body?.value)) {
+        throw errorFactory.createValidationError('Calendar notification has no changes');
+      }
+
+      return payload.body.value.map((change: { subscriptionId: string; clientState?: string }) => ({
+        subscriptionId: change.subscriptionId,
+        token: change.clientState
+      }));
+    }
+
+    throw errorFactory.createValidationError(`Unsupported calendar provider: ${calendarProvider}`, { calendarProvider });
+  }
+
+  /**
+   * Retrieves one of a provider's connections after checking the user may manage it
+   * @param providerId
+   * @param connectionId
+   * @param userId
+   * @param userRole
+   * @returns The connection
+   */
+  private async getProviderConnection(
+    providerId: string,
+    connectionId: string,
+    userId: string,
+    userRole: string
+  ): Promise<CalendarConnection> {
+    this.assertCanManageCalendar(providerId, userId, userRole);
+
+    const connection = await this.calendarSyncRepository.findConnectionById(connectionId);
+    if (!connection || connection.providerId !== providerId) {
+      throw errorFactory.createNotFoundError('Calendar connection not found', { providerId, connectionId });
+    }
+
+    return connection;
+  }
+
+  /**
+   * Checks that a user may manage a provider's calendar connections; only the provider may
+   * @param providerId
+   * @param userId
+   * @param userRole
+   */
+  private assertCanManageCalendar(providerId: string, userId: string, userRole: string): void {
+    if (providerId !== userId) {
+      throw errorFactory.createForbiddenError('Providers can only manage their own calendar connections', {
+        providerId,
+        userId,
+        userRole
+      });
+    }
+  }
+
+  /**
+   * Marks a connection as failing so providers can see it needs reconnecting
+   * @param connection
+   * @param error
+   */
+  private async recordConnectionError(connection: CalendarConnection, error: unknown): Promise<void> {
+    try {
+      await this.calendarSyncRepository.updateConnection(connection.id, {
+        status: CalendarConnectionStatus.ERROR,
+        lastError: error instanceof Error ? error.message : String(error)
+      });
+    } catch (updateError) {
+      // The original failure is already logged and reported
+      logger.error('Error recording calendar connection failure', { connectionId: connection.id, error: updateError });
+    }
+  }
+
+  /**
+   * Offers time released by deleted or moved personal events to the provider's waitlist
+   * @param providerId
+   */
+  private async offerFreedSlots(providerId: string): Promise<void> {
+    if (!this.waitlistService) {
+      return;
+    }
+
+    try {
+      await this.waitlistService.offerOpenSlots(providerId);
+    } catch (error) {
+      // Waitlist offers should not fail the calendar sync
+      logger.error('Error offering freed slots to waitlist', { providerId, error });
+    }
+  }
+
+  /**
+   * Runs calendar operations with a connection's credentials. The calendar clients hold
+   * one set of credentials at a time, so operations for different connections are run
+   * one after another.
+   * @param connection
+   * @param operation
+   * @returns The operation's result
+   */
+  private withConnection<T>(connection: CalendarConnection, operation: () => Promise<T>): Promise<T> {
+    return this.withCalendarLock(async () => {
+      await this.calendarService.setCredentials(connection.calendarProvider, connection.credentials);
+      return operation();
+    });
+  }
+
+  /**
+   * Runs an operation once earlier calendar operations have finished, initializing the
+   * calendar clients first if needed
+   * @param operation
+   * @returns The operation's result
+   */
+  private withCalendarLock<T>(operation: () => Promise<T>): Promise<T> {
+    const run = this.calendarLock.then(async () => {
+      await this.ensureCalendarService();
+      return operation();
+    });
+    this.calendarLock = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Initializes the calendar clients once, retrying on the next call if it fails
+   */
+  private ensureCalendarService(): Promise<void> {
+    if (!this.calendarServiceReady) {
+      this.calendarServiceReady = this.calendarService.initialize().catch((error) => {
+        this.calendarServiceReady = null;
+        throw error;
+      });
+    }
+
+    return this.calendarServiceReady;
+  }
+}
+
+/**
+ * Factory function to create a configured CalendarSyncService instance with required dependencies
+ * @returns A CalendarSyncService instance
+ */
+export const createCalendarSyncService = (): CalendarSyncService => {
+  const availabilityRepository = new ProviderAvailabilityRepository();
+  return new CalendarSyncService(
+    new CalendarSyncRepository(),
+    new BookingRepository(availabilityRepository),
+    availabilityRepository,
+    new CalendarIntegrationService(),
+    createWaitlistService()
+  );
+};
@@ -0,0 +1,197 @@
+import { ICarePlanExportService } from '../interfaces/care-plan.interface';
+import {
+  CarePlan,
+  CarePlanExport,
+  CarePlanExportFormat
+} from '../types/care-plan.types';
+import { FHIR_JSON_CONTENT_TYPE } from '../types/fhir.types';
+import { CarePlanRepository } from '../repositories/care-plan.repository';
+import { CaseManagerProfileRepository } from '../repositories/case-manager-profile.repository';
+import { UserRepository } from '../repositories/user.repository';
+import { Roles } from '../constants/roles';
+import { errorFactory } from '../utils/error-handler';
+import { toFhirCarePlan } from '../utils/fhir';
+import { generatePdf, PdfBlock } from '../utils/pdf-generator';
+import { logger } from '../utils/logger';
+
+/**
+ * Formats a date for display in printed documents
+ * @param date
+ * @returns The date as YYYY-MM-DD
+ */
+const formatDate = (date: Date | string): string => new Date(date).toISOString().split('T')[0];
+
+/**
+ * Service that exports care plans for physicians and payers, either as a printable PDF or
+ * as a FHIR R4 CarePlan resource
+ */
+export class CarePlanExportService implements ICarePlanExportService {
+  /**
+   * Creates a new CarePlanExportService instance with required dependencies
+   * @param carePlanRepository
+   * @param userRepository
+   * @param caseManagerProfileRepository
+   */
+  constructor(
+    private carePlanRepository: CarePlanRepository,
+    private userRepository: UserRepository,
+    private caseManagerProfileRepository: CaseManagerProfileRepository
+  ) {
+    this.carePlanRepository = carePlanRepository;
+    this.userRepository = userRepository;
+    this.caseManagerProfileRepository = caseManagerProfileRepository;
+  }
+
+  /**
+   * Exports a care plan with its goals, interventions, version and approval
+   * @param carePlanId
+   * @param format
+   * @param userId
+   * @param userRole
+   * @returns The exported file
+   */
+  async exportCarePlan(
+    carePlanId: string,
+    format: CarePlanExportFormat,
+    userId: string,
+    userRole: string
+  ): Promise<CarePlanExport> {
+    const carePlan = await this.carePlanRepository.findById(carePlanId);
+
+    if (!carePlan) {
+      throw errorFactory.createNotFoundError('Care plan not found', { carePlanId });
+    }
+
+    if (!(await this.canExport(carePlan, userId, userRole))) {
+      throw errorFactory.createForbiddenError('User not authorized to export this care plan', { carePlanId, userId });
+    }
+
+    const clientName = await this.getUserName(carePlan.clientId);
+    const filename = `care-plan-${carePlan.id}-v${carePlan.version}`;
+
+    logger.info('Exporting care plan', { carePlanId, format, version: carePlan.version, userId });
+
+    if (format === CarePlanExportFormat.FHIR) {
+      return {
+        filename: `${filename}.json`,
+        contentType: FHIR_JSON_CONTENT_TYPE,
+        content: JSON.stringify(toFhirCarePlan(carePlan, clientName), null, 2)
+      };
+    }
+
+    const approverName = carePlan.approvedById ? await this.getUserName(carePlan.approvedById) : undefined;
+
+    return {
+      filename: `${filename}.pdf`,
+      contentType: 'application/pdf',
+      content: generatePdf(this.buildPdfBlocks(carePlan, clientName, approverName), carePlan.title)
+    };
+  }
+
+  /**
+   * Checks whether a user may send a care plan outside the platform: administrators, the
+   * plan's creator, or a case manager the client is assigned to
+   * @param carePlan
+   * @param userId
+   * @param userRole
+   * @returns True if the user may export the care plan
+   */
+  private async canExport(carePlan: CarePlan, userId: string, userRole: string): Promise<boolean> {
+    switch (userRole) {
+      case Roles.ADMINISTRATOR:
+        return true;
+      case Roles.CASE_MANAGER: {
+        if (carePlan.createdById === userId) {
+          return true;
+        }
+        const profile = await this.caseManagerProfileRepository.findByUserId(userId);
+        return (profile?.assignedClients || []).includes(carePlan.clientId);
+      }
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Looks up the display name of a user
+   * @param userId
+   * @returns The user's full name, or undefined if the user no longer exists
+   */
+  private async getUserName(userId: string): Promise<string | undefined> {
+    const user = await this.userRepository.findById(userId);
+    return user ? `${user.firstName} ${user.lastName}`.trim() : undefined;
+  }
+
+  /**
+   * Lays out the printable version of a care plan
+   * @param carePlan
+   * @param clientName
+   * @param approverName
+   * @returns The blocks of the PDF document
+   */
+  private buildPdfBlocks(carePlan: CarePlan, clientName?: string, approverName?: string): PdfBlock[] {
+    const blocks: PdfBlock[] = [
+      { text: carePlan.title, style: 'title' },
+      { text: `Client: ${clientName || carePlan.clientId}` },
+      { text: `Version ${carePlan.version} | Status: ${carePlan.status} | Created ${formatDate(carePlan.createdAt)}` },
+      { text: 'Approval', style: 'heading' }
+    ];
+
+    if (carePlan.approvedAt) {
+      blocks.push({
+        text: `Approved by ${approverName || carePlan.approvedById || 'unknown'} on ${formatDate(carePlan.approvedAt)}`
+      });
+      if (carePlan.approvalNotes) {
+        blocks.push({ text: `Notes: ${carePlan.approvalNotes}` });
+      }
+    } else {
+      blocks.push({ text: 'This care plan has not been approved.' });
+    }
+
+    blocks.push({ text: 'Description', style: 'heading' }, { text: carePlan.description });
+
+    blocks.push({ text: 'Goals', style: 'heading' });
+    (carePlan.goals || []).forEach((goal, index) => {
+      const details = [`Status: ${goal.status}`];
+      if (goal.targetDate) {
+        details.push(`Target date: ${formatDate(goal.targetDate)}`);
+      }
+      if (goal.measures && goal.measures.length > 0) {
+        details.push(`Measures: ${goal.measures.join(', ')}`);
+      }
+      blocks.push({ text: `${index + 1}. ${goal.description}` }, { text: details.join(' | '), style: 'small' });
+    });
+
+    blocks.push({ text: 'Interventions', style: 'heading' });
+    (carePlan.interventions || []).forEach((intervention, index) => {
+      blocks.push(
+        { text: `${index + 1}. ${intervention.description}` },
+        {
+          text: [
+            `Frequency: ${intervention.frequency}`,
+            `Duration: ${intervention.duration}`,
+            `Responsible: ${intervention.responsibleParty}`,
+            `Status: ${intervention.status}`
+          ].join(' | '),
+          style: 'small'
+        }
+      );
+    });
+
+    blocks.push({ text: `Generated ${new Date().toISOString()}`, style: 'small' });
+
+    return blocks;
+  }
+}
+
+/**
+ * Creates a CarePlanExportService with its default dependencies
+ * @returns CarePlanExportService instance
+ */
+export const createCarePlanExportService = (): CarePlanExportService => {
+  return new CarePlanExportService(
+    new CarePlanRepository(),
+    new UserRepository(),
+    new CaseManagerProfileRepository()
+  );
+};
@@ -0,0 +1,347 @@
+import { ICarePlanProgressService } from '../interfaces/care-plan.interface';
+import {
+  CarePlan,
+  CarePlanGoal,
+  CarePlanIntervention,
+  GoalProgressEntry,
+  GoalProgressResponse,
+  GoalStatus,
+  InterventionSession,
+  InterventionSessionsResponse,
+  InterventionStatus,
+  LogInterventionSessionDTO,
+  ProgressFilterParams,
+  RecordGoalProgressDTO
+} from '../types/care-plan.types';
+import { CarePlanRepository } from '../repositories/care-plan.repository';
+import { CarePlanProgressRepository } from '../repositories/care-plan-progress.repository';
+import { BookingRepository } from '../repositories/booking.repository';
+import { ProviderAvailabilityRepository } from '../repositories/provider-availability.repository';
+import { CaseManagerProfileRepository } from '../repositories/case-manager-profile.repository';
+import { invalidateCarePlanCache } from '../cache/care-plan.cache';
+import { PlanStatus } from '../constants/plan-statuses';
+import { ErrorCodes } from '../constants/error-codes';
+import { Roles } from '../constants/roles';
+import { errorFactory } from '../utils/error-handler';
+import { logger } from '../utils/logger';
+
+// Progress can only be recorded while a care plan is being carried out
+const RECORDABLE_PLAN_STATUSES = [PlanStatus.APPROVED, PlanStatus.ACTIVE];
+
+/**
+ * Service that records and reports the progress of care plan goals and the delivery of
+ * care plan interventions
+ */
+export class CarePlanProgressService implements ICarePlanProgressService {
+  /**
+   * Creates a new CarePlanProgressService instance with required dependencies
+   * @param carePlanRepository
+   * @param progressRepository
+   * @param bookingRepository
+   * @param caseManagerProfileRepository
+   */
+  constructor(
+    private carePlanRepository: CarePlanRepository,
+    private progressRepository: CarePlanProgressRepository,
+    private bookingRepository: BookingRepository,
+    private caseManagerProfileRepository: CaseManagerProfileRepository
+  ) {
+    this.carePlanRepository = carePlanRepository;
+    this.progressRepository = progressRepository;
+    this.bookingRepository = bookingRepository;
+    this.caseManagerProfileRepository = caseManagerProfileRepository;
+  }
+
+  /**
+   * Records a progress observation against a goal. The first observation for a pending
+   * goal moves it to in progress unless another status is given.
+   * @param carePlanId
+   * @param goalId
+   * @param data
+   * @param userId
+   * @param userRole
+   * @returns The recorded progress entry
+   */
+  async recordGoalProgress(
+    carePlanId: string,
+    goalId: string,
+    data: RecordGoalProgressDTO,
+    userId: string,
+    userRole: string
+  ): Promise<GoalProgressEntry> {
+    const carePlan = await this.getRecordableCarePlan(carePlanId, userId, userRole);
+    const goal = this.findGoal(carePlan, goalId);
+
+    if (goal.status === GoalStatus.DISCONTINUED) {
+      throw errorFactory.createError('Progress cannot be recorded against a discontinued goal', ErrorCodes.CONFLICT, {
+        carePlanId,
+        goalId
+      });
+    }
+
+    if (data.measure && !goal.measures.includes(data.measure)) {
+      throw errorFactory.createValidationError('Measure is not defined for this goal', {
+        goalId,
+        measure: data.measure
+      });
+    }
+
+    const goalStatus = data.goalStatus || (goal.status === GoalStatus.PENDING ? GoalStatus.IN_PROGRESS : undefined);
+
+    const entry = await this.progressRepository.createGoalProgress(
+      {
+        goalId,
+        carePlanId,
+        measure: data.measure || null,
+        value: data.value,
+        recordedAt: data.recordedAt || new Date(),
+        note: data.note || null,
+        recordedById: userId
+      },
+      goalStatus !== goal.status ? goalStatus : undefined
+    );
+
+    // Cached care plans embed their goals, so a status change makes them stale
+    if (goalStatus && goalStatus !== goal.status) {
+      await invalidateCarePlanCache(carePlanId);
+    }
+
+    logger.info('Goal progress recorded', { carePlanId, goalId, entryId: entry.id, goalStatus });
+
+    return entry;
+  }
+
+  /**
+   * Retrieves the progress recorded against a goal
+   * @param carePlanId
+   * @param goalId
+   * @param filters
+   * @param userId
+   * @param userRole
+   * @returns The goal with its progress entries and a summary of the change
+   */
+  async getGoalProgress(
+    carePlanId: string,
+    goalId: string,
+    filters: ProgressFilterParams,
+    userId: string,
+    userRole: string
+  ): Promise<GoalProgressResponse> {
+    const carePlan = await this.getAccessibleCarePlan(carePlanId, userId, userRole);
+    const goal = this.findGoal(carePlan, goalId);
+
+    const entries = await this.progressRepository.findGoalProgress(goalId, filters);
+
+    const first = entries[0];
+    const latest = entries[entries.length - 1];
+
+    return {
+      goal,
+      entries,
+      latestValue: latest ? latest.value : null,
+      change: entries.length > 1 ? latest.value - first.value : null
+    };
+  }
+
+  /**
+   * Logs a session of an intervention
+   * @param carePlanId
+   * @param interventionId
+   * @param data
+   * @param userId
+   * @param userRole
+   * @returns The logged session
+   */
+  async logInterventionSession(
+    carePlanId: string,
+    interventionId: string,
+    data: LogInterventionSessionDTO,
+    userId: string,
+    userRole: string
+  ): Promise<InterventionSession> {
+    const carePlan = await this.getRecordableCarePlan(carePlanId, userId, userRole);
+    const intervention = this.findIntervention(carePlan, interventionId);
+
+    if (intervention.status === InterventionStatus.DISCONTINUED) {
+      throw errorFactory.createError('Sessions cannot be logged for a discontinued intervention', ErrorCodes.CONFLICT, {
+        carePlanId,
+        interventionId
+      });
+    }
+
+    const session = await this.progressRepository.createInterventionSession({
+      interventionId,
+      carePlanId,
+      sessionDate: data.sessionDate,
+      durationMinutes: data.durationMinutes ?? null,
+      attended: data.attended,
+      // A missed session says nothing about how effective the intervention is
+      effectivenessRating: data.attended ? data.effectivenessRating ?? null : null,
+      note: data.note || null,
+      recordedById: userId
+    });
+
+    logger.info('Intervention session logged', { carePlanId, interventionId, sessionId: session.id });
+
+    return session;
+  }
+
+  /**
+   * Retrieves the session logs of an intervention
+   * @param carePlanId
+   * @param interventionId
+   * @param filters
+   * @param userId
+   * @param userRole
+   * @returns The intervention with its session logs and attendance and effectiveness summaries
+   */
+  async getInterventionSessions(
+    carePlanId: string,
+    interventionId: string,
+    filters: ProgressFilterParams,
+    userId: string,
+    userRole: string
+  ): Promise<InterventionSessionsResponse> {
+    const carePlan = await this.getAccessibleCarePlan(carePlanId, userId, userRole);
+    const intervention = this.findIntervention(carePlan, interventionId);
+
+    const sessions = await this.progressRepository.findInterventionSessions(interventionId, filters);
+
+    const attended = sessions.filter(session => session.attended).length;
+    const ratings = sessions
+      .map(session => session.effectivenessRating)
+      .filter((rating): rating is number => rating !== null);
+
+    return {
+      intervention,
+      sessions,
+      attendanceRate: sessions.length > 0 ? (attended / sessions.length) * 100 : null,
+      averageEffectiveness: ratings.length > 0
+        ? ratings.reduce((sum, rating) => sum + rating, 0) / ratings.length
+        : null
+    };
+  }
+
+  /**
+   * Loads a care plan the user may read
+   * @param carePlanId
+   * @param userId
+   * @param userRole
+   * @returns The care plan with its goals and interventions
+   */
+  private async getAccessibleCarePlan(carePlanId: string, userId: string, userRole: string): Promise<CarePlan> {
+    const carePlan = await this.carePlanRepository.findById(carePlanId);
+
+    if (!carePlan) {
+      throw errorFactory.createNotFoundError('Care plan not found', { carePlanId });
+    }
+
+    if (!(await this.hasCareAccess(carePlan, userId, userRole))) {
+      throw errorFactory.createForbiddenError('User not authorized to access this care plan', { carePlanId, userId });
+    }
+
+    return carePlan;
+  }
+
+  /**
+   * Loads a care plan the user may record progress for. Clients can view their progress
+   * but observations are recorded by the people delivering their care.
+   * @param carePlanId
+   * @param userId
+   * @param userRole
+   * @returns The care plan with its goals and interventions
+   */
+  private async getRecordableCarePlan(carePlanId: string, userId: string, userRole: string): Promise<CarePlan> {
+    if (userRole === Roles.CLIENT) {
+      throw errorFactory.createForbiddenError('Clients cannot record care plan progress', { carePlanId, userId });
+    }
+
+    const carePlan = await this.getAccessibleCarePlan(carePlanId, userId, userRole);
+
+    if (!RECORDABLE_PLAN_STATUSES.includes(carePlan.status)) {
+      throw errorFactory.createError('Progress can only be recorded for approved or active care plans', ErrorCodes.CONFLICT, {
+        carePlanId,
+        status: carePlan.status
+      });
+    }
+
+    return carePlan;
+  }
+
+  /**
+   * Checks whether a user is involved in a care plan's client's care: the client themselves,
+   * the plan's creator, a case manager the client is assigned to, or a provider the client
+   * has booked
+   * @param carePlan
+   * @param userId
+   * @param userRole
+   * @returns True if the user may access the care plan's progress
+   */
+  private async hasCareAccess(carePlan: CarePlan, userId: string, userRole: string): Promise<boolean> {
+    switch (userRole) {
+      case Roles.ADMINISTRATOR:
+        return true;
+      case Roles.CLIENT:
+        return carePlan.clientId === userId;
+      case Roles.CASE_MANAGER: {
+        if (carePlan.createdById === userId) {
+          return true;
+        }
+        const profile = await this.caseManagerProfileRepository.findByUserId(userId);
+        return (profile?.assignedClients || []).includes(carePlan.clientId);
+      }
+      case Roles.PROVIDER:
+        return this.bookingRepository.hasBookingBetween(userId, carePlan.clientId);
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Finds a goal of a care plan
+   * @param carePlan
+   * @param goalId
+   * @returns The goal
+   */
+  private findGoal(carePlan: CarePlan, goalId: string): CarePlanGoal {
+    const goal = (carePlan.goals || []).find(candidate => candidate.id === goalId);
+
+    if (!goal) {
+      throw errorFactory.createNotFoundError('Goal not found in care plan', { carePlanId: carePlan.id, goalId });
+    }
+
+    return goal;
+  }
+
+  /**
+   * Finds an intervention of a care plan
+   * @param carePlan
+   * @param interventionId
+   * @returns The intervention
+   */
+  private findIntervention(carePlan: CarePlan, interventionId: string): CarePlanIntervention {
+    const intervention = (carePlan.interventions || []).find(candidate => candidate.id === interventionId);
+
+    if (!intervention) {
+      throw errorFactory.createNotFoundError('Intervention not found in care plan', {
+        carePlanId: carePlan.id,
+        interventionId
+      });
+    }
+
+    return intervention;
+  }
+}
+
+/**
+ * Creates a CarePlanProgressService with its default dependencies
+ * @returns CarePlanProgressService instance
+ */
+export const createCarePlanProgressService = (): CarePlanProgressService => {
+  return new CarePlanProgressService(
+    new CarePlanRepository(),
+    new CarePlanProgressRepository(),
+    new BookingRepository(new ProviderAvailabilityRepository()),
+    new CaseManagerProfileRepository()
+  );
+};
@@ -0,0 +1,335 @@
+import crypto from 'crypto'; // built-in
+import { v4 as uuidv4 } from 'uuid'; // uuid@^9.0.0
+import { ClearinghouseAdapter, IEligibilityService } from '../interfaces/eligibility.interface';
+import {
+  EligibilityCheck,
+  EligibilityCheckSummary,
+  EligibilityInquiry,
+  EligibilityResult,
+  EligibilityStatus
+} from '../types/eligibility.types';
+import { FundingSource, ServicesPlan } from '../types/services-plan.types';
+import { EligibilityCheckRepository } from '../repositories/eligibility-check.repository';
+import { ServicesPlanRepository } from '../repositories/services-plan.repository';
+import { ClientProfileRepository } from '../repositories/client-profile.repository';
+import { UserRepository } from '../repositories/user.repository';
+import { CaseManagerProfileRepository } from '../repositories/case-manager-profile.repository';
+import { createClearinghouseAdapter } from '../integrations/clearinghouse';
+import { eligibilityConfig } from '../config/eligibility';
+import { FundingSourceType, FundingSourceVerificationStatus } from '../models/funding-source.model';
+import { ErrorCodes } from '../constants/error-codes';
+import { Roles } from '../constants/roles';
+import { build270, parse271 } from '../utils/x12';
+import { errorFactory } from '../utils/error-handler';
+import { logger } from '../utils/logger';
+
+// Funding source types whose payers answer X12 eligibility inquiries
+const X12_FUNDING_SOURCE_TYPES: string[] = [
+  FundingSourceType.INSURANCE,
+  FundingSourceType.MEDICAID,
+  FundingSourceType.MEDICARE
+];
+
+// X12 service type code asking about health benefit plan coverage in general
+const HEALTH_BENEFIT_PLAN_COVERAGE = '30';
+
+/**
+ * Picks the verification status a funding source is given after an eligibility check.
+ * Rejected inquiries leave the status as it was, as they say nothing about coverage.
+ * @param result - Coverage details reported by the payer
+ * @param currentStatus - The funding source's verification status
+ * @returns The new verification status
+ */
+export function verificationStatusFor(result: EligibilityResult, currentStatus: string): string {
+  switch (result.status) {
+    case EligibilityStatus.ACTIVE:
+      return FundingSourceVerificationStatus.VERIFIED;
+    case EligibilityStatus.INACTIVE:
+      return FundingSourceVerificationStatus.DENIED;
+    default:
+      return currentStatus;
+  }
+}
+
+/**
+ * Leaves the X12 payloads out of an eligibility check returned to users
+ * @param check - The recorded check
+ * @returns The check without its payloads
+ */
+const summarizeCheck = ({ request: _request, response: _response, ...check }: EligibilityCheck): EligibilityCheckSummary => check;
+
+/**
+ * Service that checks clients' insurance eligibility with their payers through a
+ * clearinghouse, using X12 270 inquiries and 271 responses
+ */
+export class EligibilityService implements IEligibilityService {
+  /**
+   * Creates a new EligibilityService instance with required dependencies
+   * @param eligibilityCheckRepository
+   * @param servicesPlanRepository
+   * @param clientProfileRepository - Looks up clients' insurance
+   * @param userRepository - Looks up clients' names
+   * @param caseManagerProfileRepository - Looks up the clients assigned to case managers
+   * @param clearinghouse - Relays inquiries to payers
+   */
+  constructor(
+    private eligibilityCheckRepository: EligibilityCheckRepository,
+    private servicesPlanRepository: ServicesPlanRepository,
+    private clientProfileRepository: ClientProfileRepository,
+    private userRepository: UserRepository,
+    private caseManagerProfileRepository: CaseManagerProfileRepository,
+    private clearinghouse: ClearinghouseAdapter
+  ) {
+    this.eligibilityCheckRepository = eligibilityCheckRepository;
+    this.servicesPlanRepository = servicesPlanRepository;
+    this.clientProfileRepository = clientProfileRepository;
+    this.userRepository = userRepository;
+    this.caseManagerProfileRepository = caseManagerProfileRepository;
+    this.clearinghouse = clearinghouse;
+  }
+
+  /**
+   * Checks the client's insurance eligibility for a funding source of their services plan
+   * @param servicesPlanId
+   * @param fundingSourceId
+   * @param userId
+   * @param userRole
+   * @returns The recorded check
+   */
+  async verifyFundingSource(
+    servicesPlanId: string,
+    fundingSourceId: string,
+    userId: string,
+    userRole: string
+  ): Promise<EligibilityCheckSummary> {
+    const { servicesPlan, fundingSource } = await this.getFundingSource(servicesPlanId, fundingSourceId, userId, userRole);
+
+    if (!X12_FUNDING_SOURCE_TYPES.includes(fundingSource.type)) {
+      throw errorFactory.createValidationError('Eligibility can only be checked for insurance, Medicaid or Medicare', {
+        fundingSourceId,
+        type: fundingSource.type
+      });
+    }
+
+    const inquiry = await this.buildInquiry(servicesPlan, fundingSource);
+    const request = build270(inquiry, {
+      senderId: eligibilityConfig.senderId,
+      receiverId: eligibilityConfig.receiverId,
+      usageIndicator: eligibilityConfig.usageIndicator
+    });
+
+    logger.info('Submitting eligibility inquiry', {
+      fundingSourceId,
+      controlNumber: inquiry.controlNumber,
+      clearinghouse: this.clearinghouse.name
+    });
+
+    const response = await this.clearinghouse.submitInquiry(request, {
+      controlNumber: inquiry.controlNumber,
+      memberId: inquiry.subscriber.memberId
+    });
+
+    let result: EligibilityResult;
+    try {
+      result = parse271(response);
+    } catch (error) {
+      throw errorFactory.createError(
+        'The clearinghouse returned an unreadable eligibility response',
+        ErrorCodes.EXTERNAL_SERVICE_ERROR,
+        { fundingSourceId, controlNumber: inquiry.controlNumber },
+        error instanceof Error ? error : undefined
+      );
+    }
+
+    const check = await this.eligibilityCheckRepository.create({
+      servicesPlanId,
+      fundingSourceId,
+      clientId: servicesPlan.clientId,
+      requestedById: userId,
+      clearinghouse: this.clearinghouse.name,
+      controlNumber: inquiry.controlNumber,
+      status: result.status,
+      result,
+      request,
+      response
+    });
+
+    // Keep what the payer reported with the funding source, so that plans are costed
+    // and scheduled against the client's actual coverage
+    await this.servicesPlanRepository.updateFundingSource(fundingSourceId, {
+      verificationStatus: verificationStatusFor(result, fundingSource.verificationStatus),
+      details: {
+        ...(fundingSource.details || {}),
+        eligibility: {
+          eligibilityCheckId: check.id,
+          checkedAt: check.createdAt,
+          status: result.status,
+          payerName: result.payerName,
+          planName: result.planName,
+          memberId: result.memberId,
+          groupNumber: result.groupNumber,
+          coverageStartDate: result.coverageStartDate,
+          coverageEndDate: result.coverageEndDate,
+          copays: result.copays,
+          coinsurance: result.coinsurance,
+          deductibles: result.deductibles,
+          remainingVisits: result.remainingVisits,
+          rejections: result.rejections
+        }
+      }
+    });
+
+    logger.info('Eligibility checked', {
+      fundingSourceId,
+      eligibilityCheckId: check.id,
+      status: result.status,
+      userId
+    });
+
+    return summarizeCheck(check);
+  }
+
+  /**
+   * Retrieves the eligibility checks of a funding source
+   * @param servicesPlanId
+   * @param fundingSourceId
+   * @param userId
+   * @param userRole
+   * @returns The checks, most recent first
+   */
+  async getEligibilityChecks(
+    servicesPlanId: string,
+    fundingSourceId: string,
+    userId: string,
+    userRole: string
+  ): Promise<EligibilityCheckSummary[]> {
+    await this.getFundingSource(servicesPlanId, fundingSourceId, userId, userRole);
+
+    const checks = await this.eligibilityCheckRepository.findByFundingSourceId(fundingSourceId);
+
+    return checks.map(summarizeCheck);
+  }
+
+  /**
+   * Retrieves a services plan and one of its funding sources that the user may access
+   * @param servicesPlanId
+   * @param fundingSourceId
+   * @param userId
+   * @param userRole
+   * @returns The services plan and funding source
+   */
+  private async getFundingSource(
+    servicesPlanId: string,
+    fundingSourceId: string,
+    userId: string,
+    userRole: string
+  ): Promise<{ servicesPlan: ServicesPlan; fundingSource: FundingSource }> {
+    const servicesPlan = await this.servicesPlanRepository.findById(servicesPlanId);
+    if (!servicesPlan) {
+      throw errorFactory.createNotFoundError('Services plan not found', { servicesPlanId });
+    }
+
+    if (!(await this.canAccess(servicesPlan, userId, userRole))) {
+      throw errorFactory.createForbiddenError('User not authorized to access eligibility checks of this services plan', {
+        servicesPlanId,
+        userId
+      });
+    }
+
+    const fundingSource = servicesPlan.fundingSources.find(source => source.id === fundingSourceId);
+    if (!fundingSource) {
+      throw errorFactory.createNotFoundError('Funding source not found', { servicesPlanId, fundingSourceId });
+    }
+
+    return { servicesPlan, fundingSource };
+  }
+
+  /**
+   * Checks whether a user may access the eligibility checks of a services plan:
+   * administrators, the plan's client, or a case manager the client is assigned to
+   * @param servicesPlan
+   * @param userId
+   * @param userRole
+   * @returns True if the user may access the checks
+   */
+  private async canAccess(servicesPlan: ServicesPlan, userId: string, userRole: string): Promise<boolean> {
+    switch (userRole) {
+      case Roles.ADMINISTRATOR:
+        return true;
+      case Roles.CLIENT:
+        return servicesPlan.clientId === userId;
+      case Roles.CASE_MANAGER: {
+        const profile = await this.caseManagerProfileRepository.findByUserId(userId);
+        return (profile?.assignedClients || []).includes(servicesPlan.clientId);
+      }
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Builds an eligibility inquiry about the client's insurance. The payer ID is taken from
+   * the funding source's details, or else from the coverage details of the client's insurance.
+   * @param servicesPlan
+   * @param fundingSource
+   * @returns The inquiry, as of today
+   */
+  private async buildInquiry(servicesPlan: ServicesPlan, fundingSource: FundingSource): Promise<EligibilityInquiry> {
+    const [clientProfile, client] = await Promise.all([
+      this.clientProfileRepository.findByUserId(servicesPlan.clientId),
+      this.userRepository.findById(servicesPlan.clientId)
+    ]);
+
+    if (!client) {
+      throw errorFactory.createNotFoundError('Client not found', { clientId: servicesPlan.clientId });
+    }
+
+    const insurance = clientProfile?.insurance;
+    if (!insurance || !insurance.policyNumber) {
+      throw errorFactory.createValidationError('The client has no insurance policy on file', {
+        clientId: servicesPlan.clientId
+      });
+    }
+
+    const payerId = fundingSource.details?.payerId || insurance.coverageDetails?.payerId;
+    if (!payerId) {
+      throw errorFactory.createValidationError('The payer ID of the client\'s insurance is not known', {
+        clientId: servicesPlan.clientId,
+        fundingSourceId: fundingSource.id
+      });
+    }
+
+    return {
+      controlNumber: String(crypto.randomInt(1, 1000000000)).padStart(9, '0'),
+      traceNumber: uuidv4().replace(/-/g, ''),
+      payerName: insurance.provider || fundingSource.name,
+      payerId: String(payerId),
+      providerName: eligibilityConfig.providerName,
+      providerNpi: eligibilityConfig.providerNpi,
+      subscriber: {
+        firstName: client.firstName,
+        lastName: client.lastName,
+        memberId: insurance.policyNumber,
+        groupNumber: insurance.groupNumber || null,
+        dateOfBirth: clientProfile?.dateOfBirth ? new Date(clientProfile.dateOfBirth).toISOString().slice(0, 10) : null
+      },
+      serviceDate: new Date().toISOString().slice(0, 10),
+      serviceTypeCodes: [HEALTH_BENEFIT_PLAN_COVERAGE]
+    };
+  }
+}
+
+/**
+ * Factory function to create a configured EligibilityService instance with required dependencies
+ * @returns An EligibilityService instance
+ */
+export const createEligibilityService = (): EligibilityService => {
+  return new EligibilityService(
+    new EligibilityCheckRepository(),
+    new ServicesPlanRepository(),
+    new ClientProfileRepository(),
+    new UserRepository(),
+    new CaseManagerProfileRepository(),
+    createClearinghouseAdapter()
+  );
+};
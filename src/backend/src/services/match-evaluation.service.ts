@@ -0,0 +1,167 @@
+import { IMatchEvaluationService } from '../interfaces/provider.interface';
+import {
+  AppliedMatchingProfile,
+  MatchDecision,
+  MatchEvaluationOptions,
+  MatchEvaluationReport,
+  MatchEvaluationResult,
+  MatchFeedback,
+  MatchSessionWithFeedback,
+  MatchingProfile
+} from '../types/provider.types';
+import { MatchFeedbackRepository } from '../repositories/match-feedback.repository';
+import { MatchingProfileRepository } from '../repositories/matching-profile.repository';
+import { applyMatchingProfile, getMatchFactorWeight } from './ai/provider-matching.service';
+import { errorFactory } from '../utils/error-handler';
+import { logger } from '../utils/logger';
+import { ndcgAtK, precisionAtK } from '../utils/ranking-metrics';
+
+// Name reported for the ranking that was returned when each request was made
+const RECORDED_RANKING_NAME = 'Recorded ranking';
+
+/**
+ * Grades how relevant each provider turned out to be for a matching request. Rejected
+ * providers grade 0, accepted and overridden providers 1, and 2 once they were booked.
+ * When several decisions were recorded for a provider the latest one counts.
+ * @param feedback - The session's feedback, oldest first
+ * @returns Relevance grade by provider ID
+ */
+export const getRelevanceGrades = (feedback: MatchFeedback[]): Map<string, number> => {
+  const grades = new Map<string, number>();
+
+  for (const entry of feedback) {
+    if (entry.decision === MatchDecision.REJECTED) {
+      grades.set(entry.providerId, 0);
+    } else {
+      grades.set(entry.providerId, entry.bookingId ? 2 : 1);
+    }
+  }
+
+  return grades;
+};
+
+/**
+ * Re-ranks a recorded matching request with a profile's weights, using the factor scores
+ * recorded for each provider. Hard filters are not replayed, because providers the
+ * recorded ranking filtered out have no factor scores to re-rank.
+ * @param session
+ * @param profile
+ * @returns Provider IDs, best first
+ */
+export const rerankSession = (session: MatchSessionWithFeedback, profile: AppliedMatchingProfile): string[] => {
+  const scored = session.results.map(result => {
+    let totalScore = 0;
+    let totalWeight = 0;
+    for (const factor of result.scoreBreakdown) {
+      const weight = getMatchFactorWeight(factor.name, profile.weights);
+      totalScore += factor.score * weight;
+      totalWeight += weight;
+    }
+
+    return { providerId: result.providerId, rank: result.rank, score: totalWeight > 0 ? totalScore / totalWeight : 0 };
+  });
+
+  // Ties keep their recorded order so that equal weightings reproduce the recorded ranking
+  scored.sort((a, b) => b.score - a.score || a.rank - b.rank);
+
+  return scored.map(entry => entry.providerId);
+};
+
+/**
+ * Service that replays recorded matching requests against candidate matching profiles and
+ * reports how well each would have ranked the providers that were actually chosen
+ */
+export class MatchEvaluationService implements IMatchEvaluationService {
+  /**
+   * Creates a new MatchEvaluationService instance
+   * @param matchFeedbackRepository
+   * @param matchingProfileRepository
+   */
+  constructor(
+    private matchFeedbackRepository: MatchFeedbackRepository,
+    private matchingProfileRepository: MatchingProfileRepository
+  ) {
+    this.matchFeedbackRepository = matchFeedbackRepository;
+    this.matchingProfileRepository = matchingProfileRepository;
+  }
+
+  /**
+   * Re-ranks recorded matching requests with each candidate profile's weights and scores
+   * the rankings against the recorded decisions. Requests without any accepted or
+   * overridden provider cannot be scored and are skipped.
+   * @param options
+   * @returns Ranking metrics of the recorded and candidate rankings
+   */
+  async evaluateProfiles(options: MatchEvaluationOptions): Promise<MatchEvaluationReport> {
+    if (!Number.isInteger(options.k) || options.k < 1) {
+      throw errorFactory.createValidationError('The ranking cutoff must be a positive whole number', { k: options.k });
+    }
+
+    const profiles: MatchingProfile[] = [];
+    for (const profileId of [...new Set(options.profileIds)]) {
+      const profile = await this.matchingProfileRepository.findById(profileId);
+      if (!profile) {
+        throw errorFactory.createNotFoundError('Matching profile not found', { profileId });
+      }
+      profiles.push(profile);
+    }
+
+    const sessions = await this.matchFeedbackRepository.findSessionsWithFeedback(options.startDate, options.endDate);
+
+    const judged = sessions
+      .map(session => ({ session, grades: getRelevanceGrades(session.feedback) }))
+      .filter(({ grades }) => [...grades.values()].some(grade => grade > 0));
+
+    const scoreRankings = (
+      profileId: string | null,
+      profileName: string,
+      rank: (session: MatchSessionWithFeedback) => string[]
+    ): MatchEvaluationResult => {
+      let precision = 0;
+      let ndcg = 0;
+      for (const { session, grades } of judged) {
+        const ranking = rank(session);
+        precision += precisionAtK(ranking, grades, options.k);
+        ndcg += ndcgAtK(ranking, grades, options.k);
+      }
+
+      return {
+        profileId,
+        profileName,
+        precisionAtK: judged.length > 0 ? precision / judged.length : 0,
+        ndcgAtK: judged.length > 0 ? ndcg / judged.length : 0
+      };
+    };
+
+    const report: MatchEvaluationReport = {
+      k: options.k,
+      sessionCount: judged.length,
+      skippedSessionCount: sessions.length - judged.length,
+      baseline: scoreRankings(null, RECORDED_RANKING_NAME, session =>
+        [...session.results].sort((a, b) => a.rank - b.rank).map(result => result.providerId)
+      ),
+      candidates: profiles.map(profile =>
+        scoreRankings(profile.id, profile.name, session =>
+          rerankSession(session, applyMatchingProfile(profile, session.criteria.serviceTypes[0]))
+        )
+      )
+    };
+
+    logger.info('Matching profiles evaluated', {
+      k: report.k,
+      sessionCount: report.sessionCount,
+      skippedSessionCount: report.skippedSessionCount,
+      profileIds: profiles.map(profile => profile.id)
+    });
+
+    return report;
+  }
+}
+
+/**
+ * Creates a MatchEvaluationService with its default dependencies
+ * @returns MatchEvaluationService instance
+ */
+export const createMatchEvaluationService = (): MatchEvaluationService => {
+  return new MatchEvaluationService(new MatchFeedbackRepository(), new MatchingProfileRepository());
+};
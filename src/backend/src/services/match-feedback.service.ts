@@ -0,0 +1,190 @@
+import { IMatchFeedbackService } from '../interfaces/provider.interface';
+import {
+  MatchDecision,
+  MatchFeedback,
+  MatchFeedbackDTO,
+  MatchSession,
+  MatchSessionWithFeedback,
+  ProviderMatch,
+  ProviderMatchingCriteria
+} from '../types/provider.types';
+import { MatchFeedbackRepository } from '../repositories/match-feedback.repository';
+import { getRolePermissions } from './permissions.service';
+import { Roles } from '../constants/roles';
+import { errorFactory } from '../utils/error-handler';
+import { logger } from '../utils/logger';
+
+/**
+ * Service that records matching requests, why their results were accepted, rejected or
+ * overridden, and the bookings and reviews that followed
+ */
+export class MatchFeedbackService implements IMatchFeedbackService {
+  /**
+   * Creates a new MatchFeedbackService instance
+   * @param matchFeedbackRepository
+   */
+  constructor(private matchFeedbackRepository: MatchFeedbackRepository) {
+    this.matchFeedbackRepository = matchFeedbackRepository;
+  }
+
+  /**
+   * Records a matching request and the ranking it returned. Providers are recorded by
+   * their user ID, which is how bookings and reviews refer to them.
+   * @param criteria
+   * @param matches - The matches, best first
+   * @param userId
+   * @returns The recorded session
+   */
+  async recordSession(criteria: ProviderMatchingCriteria, matches: ProviderMatch[], userId: string): Promise<MatchSession> {
+    const session = await this.matchFeedbackRepository.createSession({
+      clientId: criteria.clientId,
+      requestedById: userId,
+      criteria,
+      matchingProfileId: matches.length > 0 ? matches[0].matchingProfile.id : criteria.matchingProfileId ?? null,
+      results: matches.map((match, index) => ({
+        providerId: match.provider.userId,
+        rank: index + 1,
+        compatibilityScore: match.compatibilityScore,
+        distance: match.distance,
+        scoreBreakdown: match.scoreBreakdown
+      }))
+    });
+
+    logger.info('Match session recorded', { sessionId: session.id, clientId: criteria.clientId, resultCount: matches.length });
+
+    return session;
+  }
+
+  /**
+   * Records a decision about a provider for a matching request. Accepting or rejecting
+   * applies to a provider in the results; choosing any provider other than the top match
+   * is an override, which requires the override:matching permission. Rejections and
+   * overrides must give a reason.
+   * @param sessionId
+   * @param data
+   * @param userId
+   * @param userRole
+   * @returns The recorded feedback
+   */
+  async recordFeedback(sessionId: string, data: MatchFeedbackDTO, userId: string, userRole: string): Promise<MatchFeedback> {
+    const session = await this.getAccessibleSession(sessionId, userId, userRole);
+
+    const result = session.results.find(entry => entry.providerId === data.providerId);
+    const reason = data.reason?.trim() || '';
+
+    if (data.decision === MatchDecision.OVERRIDDEN) {
+      if (!getRolePermissions(userRole as Roles).includes('override:matching')) {
+        throw errorFactory.createForbiddenError('You do not have permission to override provider matches', { sessionId, userId, userRole });
+      }
+      if (result?.rank === 1) {
+        throw errorFactory.createValidationError('The provider is the top match; record it as accepted instead', { sessionId, providerId: data.providerId });
+      }
+    } else if (!result) {
+      throw errorFactory.createValidationError('The provider was not among the matches; record an override instead', { sessionId, providerId: data.providerId });
+    }
+
+    if (data.decision !== MatchDecision.ACCEPTED && !reason) {
+      throw errorFactory.createValidationError('A reason is required when rejecting or overriding a match', { sessionId, decision: data.decision });
+    }
+
+    const feedback = await this.matchFeedbackRepository.createFeedback({
+      matchSessionId: session.id,
+      clientId: session.clientId,
+      providerId: data.providerId,
+      rank: result ? result.rank : null,
+      decision: data.decision,
+      reason,
+      recordedById: userId
+    });
+
+    logger.info('Match feedback recorded', {
+      sessionId,
+      feedbackId: feedback.id,
+      providerId: data.providerId,
+      decision: data.decision,
+      userId
+    });
+
+    return feedback;
+  }
+
+  /**
+   * Retrieves a matching request with the decisions made about it
+   * @param sessionId
+   * @param userId
+   * @param userRole
+   * @returns The session and its feedback
+   */
+  async getSessionFeedback(sessionId: string, userId: string, userRole: string): Promise<MatchSessionWithFeedback> {
+    const session = await this.getAccessibleSession(sessionId, userId, userRole);
+
+    const feedback = await this.matchFeedbackRepository.findFeedbackBySession(sessionId);
+
+    return { ...session, feedback };
+  }
+
+  /**
+   * Links a new booking to the most recent accepted or overridden match for the same
+   * client and provider
+   * @param bookingId
+   * @param clientId
+   * @param providerId
+   * @returns The linked feedback, or null if there was none to link
+   */
+  async linkBooking(bookingId: string, clientId: string, providerId: string): Promise<MatchFeedback | null> {
+    const feedback = await this.matchFeedbackRepository.linkLatestFeedback('bookingId', bookingId, clientId, providerId);
+
+    if (feedback) {
+      logger.info('Booking linked to match feedback', { bookingId, feedbackId: feedback.id });
+    }
+
+    return feedback;
+  }
+
+  /**
+   * Links a new review to the most recent accepted or overridden match for the same
+   * client and provider
+   * @param reviewId
+   * @param clientId
+   * @param providerId
+   * @returns The linked feedback, or null if there was none to link
+   */
+  async linkReview(reviewId: string, clientId: string, providerId: string): Promise<MatchFeedback | null> {
+    const feedback = await this.matchFeedbackRepository.linkLatestFeedback('reviewId', reviewId, clientId, providerId);
+
+    if (feedback) {
+      logger.info('Review linked to match feedback', { reviewId, feedbackId: feedback.id });
+    }
+
+    return feedback;
+  }
+
+  /**
+   * Retrieves a match session the user may act on. Providers may not, and clients may
+   * only act on their own matching requests.
+   * @param sessionId
+   * @param userId
+   * @param userRole
+   * @returns The session
+   */
+  private async getAccessibleSession(sessionId: string, userId: string, userRole: string): Promise<MatchSession> {
+    const session = await this.matchFeedbackRepository.findSessionById(sessionId);
+    if (!session) {
+      throw errorFactory.createNotFoundError('Match session not found', { sessionId });
+    }
+
+    if (userRole === Roles.PROVIDER || (userRole === Roles.CLIENT && session.clientId !== userId)) {
+      throw errorFactory.createForbiddenError('You do not have access to this match session', { sessionId, userId, userRole });
+    }
+
+    return session;
+  }
+}
+
+/**
+ * Creates a MatchFeedbackService with its default dependencies
+ * @returns MatchFeedbackService instance
+ */
+export const createMatchFeedbackService = (): MatchFeedbackService => {
+  return new MatchFeedbackService(new MatchFeedbackRepository());
+};
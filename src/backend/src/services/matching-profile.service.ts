@@ -0,0 +1,126 @@
+import { IMatchingProfileService } from '../interfaces/provider.interface';
+import {
+  CreateMatchingProfileDTO,
+  MatchingProfile,
+  UpdateMatchingProfileDTO
+} from '../types/provider.types';
+import { MatchingProfileRepository } from '../repositories/matching-profile.repository';
+import { ErrorCodes } from '../constants/error-codes';
+import { errorFactory } from '../utils/error-handler';
+import { logger } from '../utils/logger';
+
+/**
+ * Service for the admin-managed matching profiles that configure how providers are
+ * scored and filtered during matching
+ */
+export class MatchingProfileService implements IMatchingProfileService {
+  /**
+   * Creates a new MatchingProfileService instance
+   * @param matchingProfileRepository
+   */
+  constructor(private matchingProfileRepository: MatchingProfileRepository) {
+    this.matchingProfileRepository = matchingProfileRepository;
+  }
+
+  /**
+   * Creates a matching profile
+   * @param data
+   * @param userId
+   * @returns The created profile
+   */
+  async createProfile(data: CreateMatchingProfileDTO, userId: string): Promise<MatchingProfile> {
+    await this.ensureNameIsAvailable(data.name);
+
+    const profile = await this.matchingProfileRepository.create({
+      name: data.name,
+      description: data.description || '',
+      weights: data.weights,
+      filters: data.filters || {},
+      serviceTypeOverrides: data.serviceTypeOverrides || {},
+      isDefault: data.isDefault ?? false,
+      createdById: userId
+    });
+
+    logger.info('Matching profile created', { profileId: profile.id, name: profile.name, userId });
+
+    return profile;
+  }
+
+  /**
+   * Retrieves all matching profiles
+   * @returns The matching profiles
+   */
+  async getProfiles(): Promise<MatchingProfile[]> {
+    return this.matchingProfileRepository.findAll();
+  }
+
+  /**
+   * Retrieves a matching profile by ID
+   * @param id
+   * @returns The profile
+   */
+  async getProfileById(id: string): Promise<MatchingProfile> {
+    const profile = await this.matchingProfileRepository.findById(id);
+    if (!profile) {
+      throw errorFactory.createNotFoundError('Matching profile not found', { profileId: id });
+    }
+
+    return profile;
+  }
+
+  /**
+   * Updates a matching profile
+   * @param id
+   * @param data
+   * @returns The updated profile
+   */
+  async updateProfile(id: string, data: UpdateMatchingProfileDTO): Promise<MatchingProfile> {
+    const existing = await this.getProfileById(id);
+
+    if (data.name !== undefined && data.name !== existing.name) {
+      await this.ensureNameIsAvailable(data.name);
+    }
+
+    const profile = await this.matchingProfileRepository.update(id, data);
+
+    logger.info('Matching profile updated', { profileId: id, isDefault: profile.isDefault });
+
+    return profile;
+  }
+
+  /**
+   * Deletes a matching profile. Matching falls back to the built-in weights when the
+   * default profile is deleted.
+   * @param id
+   */
+  async deleteProfile(id: string): Promise<void> {
+    await this.getProfileById(id);
+
+    await this.matchingProfileRepository.delete(id);
+
+    logger.info('Matching profile deleted', { profileId: id });
+  }
+
+  /**
+   * Checks that no other matching profile uses a name
+   * @param name
+   */
+  private async ensureNameIsAvailable(name: string): Promise<void> {
+    const profiles = await this.matchingProfileRepository.findAll();
+    if (profiles.some((profile) => profile.name.toLowerCase() === name.toLowerCase())) {
+      throw errorFactory.createError(
+        'A matching profile with this name already exists',
+        ErrorCodes.CONFLICT,
+        { name }
+      );
+    }
+  }
+}
+
+/**
+ * Creates a MatchingProfileService with its default dependencies
+ * @returns MatchingProfileService instance
+ */
+export const createMatchingProfileService = (): MatchingProfileService => {
+  return new MatchingProfileService(new MatchingProfileRepository());
+};
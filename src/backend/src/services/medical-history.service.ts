@@ -0,0 +1,472 @@
+import { v4 as uuidv4 } from 'uuid'; // uuid@^9.0.0
+import { IMedicalHistoryService } from '../interfaces/medical-history.interface';
+import {
+  ClientProfile,
+  MedicalInformation,
+  MedicalRecordCategory,
+  MedicalRecordEntry,
+  MedicalRecordSource,
+  User
+} from '../types/user.types';
+import {
+  ImportedMedicalRecord,
+  ImportMedicalHistoryDTO,
+  MedicalHistoryConflict,
+  MedicalHistoryConflictResolution,
+  MedicalHistoryConflictStatus,
+  MedicalHistoryImportResult,
+  ResolveMedicalHistoryConflictDTO
+} from '../types/medical-history.types';
+import { FhirPatient } from '../types/fhir.types';
+import { ClientProfileRepository } from '../repositories/client-profile.repository';
+import { UserRepository } from '../repositories/user.repository';
+import { CaseManagerProfileRepository } from '../repositories/case-manager-profile.repository';
+import {
+  MedicalHistoryProfileUpdate,
+  MedicalHistoryRepository,
+  NewMedicalHistoryConflict
+} from '../repositories/medical-history.repository';
+import { invalidateUserCache } from '../cache/user.cache';
+import { ErrorCodes } from '../constants/error-codes';
+import { Roles } from '../constants/roles';
+import { errorFactory } from '../utils/error-handler';
+import { fromFhirMedicalHistory } from '../utils/fhir';
+import { logger } from '../utils/logger';
+
+// Lists of a client's current entries in their medical information, by category
+const LIST_FIELDS: Record<MedicalRecordCategory, 'conditions' | 'allergies' | 'medications'> = {
+  condition: 'conditions',
+  allergy: 'allergies',
+  medication: 'medications'
+};
+
+/**
+ * Normalizes free text for comparison
+ * @param text
+ * @returns The trimmed, lower-case text
+ */
+const normalize = (text: string): string => text.trim().toLowerCase();
+
+/**
+ * Checks whether two medical information entries describe the same condition, allergy
+ * or medication: by code when both are coded in the same system, otherwise by name
+ * @param a
+ * @param b
+ * @returns True if the entries match
+ */
+const isSameEntry = (a: Omit<MedicalRecordEntry, 'source'>, b: Omit<MedicalRecordEntry, 'source'>): boolean => {
+  if (a.category !== b.category) {
+    return false;
+  }
+  if (a.code && b.code && a.codeSystem === b.codeSystem) {
+    return a.code === b.code;
+  }
+  return normalize(a.display) === normalize(b.display);
+};
+
+/**
+ * Copies a client's medical information so it can be changed without affecting the profile
+ * @param medicalInformation
+ * @returns A copy with every list present
+ */
+const copyMedicalInformation = (medicalInformation: MedicalInformation | null): Required<MedicalInformation> => ({
+  conditions: [...(medicalInformation?.conditions || [])],
+  allergies: [...(medicalInformation?.allergies || [])],
+  medications: [...(medicalInformation?.medications || [])],
+  notes: medicalInformation?.notes || '',
+  records: [...(medicalInformation?.records || [])]
+});
+
+/**
+ * Applies an entry's status to a client's current entries and structured records
+ * @param medicalInformation - The medical information to change
+ * @param record - The entry to apply
+ */
+const applyRecord = (medicalInformation: Required<MedicalInformation>, record: MedicalRecordEntry): void => {
+  const list = medicalInformation[LIST_FIELDS[record.category]];
+  const existingIndex = medicalInformation.records.findIndex(candidate => isSameEntry(candidate, record));
+  const names = [record.display, ...(existingIndex >= 0 ? [medicalInformation.records[existingIndex].display] : [])].map(normalize);
+
+  const remaining = list.filter(item => !names.includes(normalize(item)));
+  medicalInformation[LIST_FIELDS[record.category]] = record.active ? [...remaining, record.display] : remaining;
+
+  if (existingIndex >= 0) {
+    medicalInformation.records[existingIndex] = record;
+  } else {
+    medicalInformation.records.push(record);
+  }
+};
+
+/**
+ * Merges imported entries into a client's medical information. New entries are added;
+ * entries the profile already holds gain the imported record as provenance; entries whose
+ * imported status disagrees with the profile are left unchanged and raised as conflicts.
+ * @param clientId - User ID of the client
+ * @param existing - The client's medical information
+ * @param imported - Entries read from the bundle
+ * @param source - Provenance shared by all imported entries
+ * @returns The merged medical information, counts and conflicts
+ */
+const mergeMedicalHistory = (
+  clientId: string,
+  existing: MedicalInformation | null,
+  imported: ImportedMedicalRecord[],
+  source: Omit<MedicalRecordSource, 'reference'>
+): { medicalInformation: Required<MedicalInformation>; added: number; unchanged: number; conflicts: NewMedicalHistoryConflict[] } => {
+  const medicalInformation = copyMedicalInformation(existing);
+  const conflicts: NewMedicalHistoryConflict[] = [];
+  let added = 0;
+  let unchanged = 0;
+
+  for (const { reference, ...entry } of imported) {
+    const record: MedicalRecordEntry = { ...entry, source: { ...source, reference } };
+    const list = medicalInformation[LIST_FIELDS[entry.category]];
+    const existingRecord = medicalInformation.records.find(candidate => isSameEntry(candidate, entry));
+    const names = [entry.display, ...(existingRecord ? [existingRecord.display] : [])].map(normalize);
+    const isListed = list.some(item => names.includes(normalize(item)));
+
+    if (!existingRecord && !isListed) {
+      applyRecord(medicalInformation, record);
+      added++;
+    } else if (isListed === entry.active) {
+      // Entries that were entered by hand gain the imported record as their provenance
+      if (!existingRecord) {
+        medicalInformation.records.push(record);
+      }
+      unchanged++;
+    } else {
+      const importedStatus = entry.status || (entry.active ? 'active' : 'inactive');
+      conflicts.push({
+        clientId,
+        category: entry.category,
+        field: 'status',
+        description: entry.active
+          ? `${reference} lists ${entry.display} as ${importedStatus} but the profile does not list it as current`
+          : `${reference} lists ${entry.display} as ${importedStatus} but the profile lists it as current`,
+        existingValue: isListed ? 'active' : existingRecord?.status || 'inactive',
+        importedValue: importedStatus,
+        record
+      });
+    }
+  }
+
+  return { medicalInformation, added, unchanged, conflicts };
+};
+
+/**
+ * Compares the bundle's patient with the client. Missing date of birth and gender are
+ * filled in; differing values, and a different family name, are raised as conflicts.
+ * @param clientId - User ID of the client
+ * @param patient - The bundle's patient
+ * @param profile - The client's profile
+ * @param user - The client's account
+ * @returns Profile changes and conflicts
+ */
+const compareDemographics = (
+  clientId: string,
+  patient: FhirPatient | null,
+  profile: ClientProfile,
+  user: User
+): { update: MedicalHistoryProfileUpdate; conflicts: NewMedicalHistoryConflict[] } => {
+  const update: MedicalHistoryProfileUpdate = {};
+  const conflicts: NewMedicalHistoryConflict[] = [];
+
+  if (!patient) {
+    return { update, conflicts };
+  }
+
+  const demographicConflict = (field: string, description: string, existingValue: string, importedValue: string): NewMedicalHistoryConflict => ({
+    clientId,
+    category: 'demographics',
+    field,
+    description,
+    existingValue,
+    importedValue,
+    record: null
+  });
+
+  // Partial dates such as a birth year cannot be compared with a full date of birth
+  if (patient.birthDate && /^\d{4}-\d{2}-\d{2}$/.test(patient.birthDate)) {
+    const existing = profile.dateOfBirth ? new Date(profile.dateOfBirth).toISOString().split('T')[0] : null;
+    if (!existing) {
+      update.dateOfBirth = new Date(patient.birthDate);
+    } else if (existing !== patient.birthDate) {
+      conflicts.push(demographicConflict('dateOfBirth', 'Date of birth in the bundle differs from the profile', existing, patient.birthDate));
+    }
+  }
+
+  if (patient.gender) {
+    if (!profile.gender) {
+      update.gender = patient.gender;
+    } else if (normalize(profile.gender) !== normalize(patient.gender)) {
+      conflicts.push(demographicConflict('gender', 'Gender in the bundle differs from the profile', profile.gender, patient.gender));
+    }
+  }
+
+  const name = patient.name?.find(candidate => candidate.use === 'official') || patient.name?.[0];
+  if (name?.family && normalize(name.family) !== normalize(user.lastName)) {
+    conflicts.push(demographicConflict(
+      'name',
+      'Patient name in the bundle does not match the client; confirm the bundle is for this client',
+      `${user.firstName} ${user.lastName}`,
+      name.text || [...(name.given || []), name.family].join(' ')
+    ));
+  }
+
+  return { update, conflicts };
+};
+
+/**
+ * Service that imports client medical history from FHIR R4 bundles into client profiles
+ * and lets case managers review the conflicts imports raise
+ */
+export class MedicalHistoryService implements IMedicalHistoryService {
+  /**
+   * Creates a new MedicalHistoryService instance with required dependencies
+   * @param medicalHistoryRepository
+   * @param clientProfileRepository
+   * @param userRepository
+   * @param caseManagerProfileRepository
+   */
+  constructor(
+    private medicalHistoryRepository: MedicalHistoryRepository,
+    private clientProfileRepository: ClientProfileRepository,
+    private userRepository: UserRepository,
+    private caseManagerProfileRepository: CaseManagerProfileRepository
+  ) {
+    this.medicalHistoryRepository = medicalHistoryRepository;
+    this.clientProfileRepository = clientProfileRepository;
+    this.userRepository = userRepository;
+    this.caseManagerProfileRepository = caseManagerProfileRepository;
+  }
+
+  /**
+   * Imports a FHIR bundle into a client's profile
+   * @param clientId
+   * @param bundle
+   * @param userId
+   * @param userRole
+   * @returns The recorded import, merged medical information, conflicts and skipped resources
+   */
+  async importMedicalHistory(
+    clientId: string,
+    bundle: ImportMedicalHistoryDTO,
+    userId: string,
+    userRole: string
+  ): Promise<MedicalHistoryImportResult> {
+    await this.assertCanManage(clientId, userId, userRole);
+    const { user, profile } = await this.getClient(clientId);
+
+    const parsed = fromFhirMedicalHistory(bundle);
+    if (!parsed.patient && parsed.records.length === 0) {
+      throw errorFactory.createValidationError('Bundle contains no resources that can be imported', {
+        skipped: parsed.skipped
+      });
+    }
+
+    const importId = uuidv4();
+    const merge = mergeMedicalHistory(clientId, profile.medicalInformation, parsed.records, {
+      system: 'fhir',
+      importId,
+      recordedById: userId,
+      recordedAt: new Date()
+    });
+    const demographics = compareDemographics(clientId, parsed.patient, profile, user);
+    const conflicts = [...demographics.conflicts, ...merge.conflicts];
+
+    const saved = await this.medicalHistoryRepository.saveImport(
+      profile.id,
+      { ...demographics.update, medicalInformation: merge.medicalInformation },
+      {
+        id: importId,
+        clientId,
+        bundleId: bundle.id || null,
+        importedById: userId,
+        addedCount: merge.added,
+        unchangedCount: merge.unchanged,
+        skippedCount: parsed.skipped.length,
+        conflictCount: conflicts.length
+      },
+      conflicts
+    );
+
+    await invalidateUserCache(clientId);
+
+    logger.info('Medical history imported', {
+      clientId,
+      importId,
+      added: merge.added,
+      unchanged: merge.unchanged,
+      skipped: parsed.skipped.length,
+      conflicts: conflicts.length
+    });
+
+    return {
+      import: saved.import,
+      medicalInformation: merge.medicalInformation,
+      conflicts: saved.conflicts,
+      skipped: parsed.skipped
+    };
+  }
+
+  /**
+   * Retrieves the medical history conflicts raised for a client
+   * @param clientId
+   * @param status
+   * @param userId
+   * @param userRole
+   * @returns The client's conflicts, newest first
+   */
+  async getConflicts(
+    clientId: string,
+    status: MedicalHistoryConflictStatus | undefined,
+    userId: string,
+    userRole: string
+  ): Promise<MedicalHistoryConflict[]> {
+    await this.assertCanManage(clientId, userId, userRole);
+    return this.medicalHistoryRepository.findConflicts(clientId, status);
+  }
+
+  /**
+   * Resolves a medical history conflict by applying the imported value or keeping the
+   * profile's existing one. Accepting a name conflict confirms the bundle was for this
+   * client and changes nothing.
+   * @param clientId
+   * @param conflictId
+   * @param data
+   * @param userId
+   * @param userRole
+   * @returns The resolved conflict
+   */
+  async resolveConflict(
+    clientId: string,
+    conflictId: string,
+    data: ResolveMedicalHistoryConflictDTO,
+    userId: string,
+    userRole: string
+  ): Promise<MedicalHistoryConflict> {
+    await this.assertCanManage(clientId, userId, userRole);
+
+    const conflict = await this.medicalHistoryRepository.findConflictById(conflictId);
+    if (!conflict || conflict.clientId !== clientId) {
+      throw errorFactory.createNotFoundError('Medical history conflict not found', { clientId, conflictId });
+    }
+
+    if (conflict.status !== MedicalHistoryConflictStatus.PENDING) {
+      throw errorFactory.createError('Medical history conflict has already been resolved', ErrorCodes.CONFLICT, {
+        conflictId,
+        status: conflict.status
+      });
+    }
+
+    const accepted = data.resolution === MedicalHistoryConflictResolution.ACCEPT_IMPORTED;
+    const { profile } = await this.getClient(clientId);
+    const profileUpdate = accepted ? this.buildResolutionUpdate(conflict, profile) : undefined;
+
+    const resolved = await this.medicalHistoryRepository.resolveConflict(
+      conflictId,
+      {
+        status: accepted ? MedicalHistoryConflictStatus.ACCEPTED : MedicalHistoryConflictStatus.REJECTED,
+        resolvedById: userId,
+        resolvedAt: new Date(),
+        resolutionNote: data.note || null
+      },
+      profile.id,
+      profileUpdate
+    );
+
+    if (profileUpdate) {
+      await invalidateUserCache(clientId);
+    }
+
+    logger.info('Medical history conflict resolved', { clientId, conflictId, resolution: data.resolution });
+
+    return resolved;
+  }
+
+  /**
+   * Builds the profile changes that apply a conflict's imported value
+   * @param conflict
+   * @param profile
+   * @returns The profile changes, or undefined if accepting the conflict changes nothing
+   */
+  private buildResolutionUpdate(
+    conflict: MedicalHistoryConflict,
+    profile: ClientProfile
+  ): MedicalHistoryProfileUpdate | undefined {
+    if (conflict.category === 'demographics') {
+      if (conflict.field === 'dateOfBirth' && conflict.importedValue) {
+        return { dateOfBirth: new Date(conflict.importedValue) };
+      }
+      if (conflict.field === 'gender' && conflict.importedValue) {
+        return { gender: conflict.importedValue };
+      }
+      return undefined;
+    }
+
+    if (!conflict.record) {
+      return undefined;
+    }
+
+    const medicalInformation = copyMedicalInformation(profile.medicalInformation);
+    applyRecord(medicalInformation, conflict.record);
+    return { medicalInformation };
+  }
+
+  /**
+   * Loads a client's account and profile
+   * @param clientId
+   * @returns The client's account and profile
+   */
+  private async getClient(clientId: string): Promise<{ user: User; profile: ClientProfile }> {
+    const user = await this.userRepository.findById(clientId);
+    if (!user || user.role !== Roles.CLIENT) {
+      throw errorFactory.createNotFoundError('Client not found', { clientId });
+    }
+
+    const profile = await this.clientProfileRepository.findByUserId(clientId);
+    if (!profile) {
+      throw errorFactory.createNotFoundError('Client profile not found', { clientId });
+    }
+
+    return { user, profile };
+  }
+
+  /**
+   * Ensures a user may manage a client's medical history: administrators, and case
+   * managers the client is assigned to
+   * @param clientId
+   * @param userId
+   * @param userRole
+   */
+  private async assertCanManage(clientId: string, userId: string, userRole: string): Promise<void> {
+    if (userRole === Roles.ADMINISTRATOR) {
+      return;
+    }
+
+    if (userRole === Roles.CASE_MANAGER) {
+      const profile = await this.caseManagerProfileRepository.findByUserId(userId);
+      if ((profile?.assignedClients || []).includes(clientId)) {
+        return;
+      }
+    }
+
+    throw errorFactory.createForbiddenError('User not authorized to manage this client\'s medical history', {
+      clientId,
+      userId
+    });
+  }
+}
+
+/**
+ * Creates a MedicalHistoryService with its default dependencies
+ * @returns MedicalHistoryService instance
+ */
+export const createMedicalHistoryService = (): MedicalHistoryService => {
+  return new MedicalHistoryService(
+    new MedicalHistoryRepository(),
+    new ClientProfileRepository(),
+    new UserRepository(),
+    new CaseManagerProfileRepository()
+  );
+};
@@ -0,0 +1,441 @@
+import { EventEmitter } from 'events'; // events@^1.1.1
+import { IMessagingService } from '../interfaces/message.interface';
+import {
+  Conversation,
+  ConversationFilterParams,
+  ConversationListResponse,
+  ConversationParticipant,
+  ConversationSummary,
+  CreateConversationDTO,
+  Message,
+  MessageAttachment,
+  MessageFilterParams,
+  ReadReceiptResult,
+  SendMessageDTO
+} from '../models/message.model';
+import { MessageRepository } from '../repositories/message.repository';
+import { BookingRepository } from '../repositories/booking.repository';
+import { ProviderAvailabilityRepository } from '../repositories/provider-availability.repository';
+import { CaseManagerProfileRepository } from '../repositories/case-manager-profile.repository';
+import { UserRepository } from '../repositories/user.repository';
+import { NotificationRepository } from '../repositories/notification.repository';
+import { NotificationService } from './notifications.service';
+import { EmailService } from './email/email.service';
+import { BlobStorageService } from './storage/blob-storage.service';
+import { ExternalServiceType } from '../interfaces/external-service.interface';
+import { Roles } from '../constants/roles';
+import { DOCUMENT_TYPES } from '../constants/document-types';
+import { NOTIFICATION_TYPES, NOTIFICATION_PRIORITIES } from '../constants/notification-types';
+import { errorFactory } from '../utils/error-handler';
+import { sanitizeFileName } from '../utils/file-processor';
+import { logger } from '../utils/logger';
+
+/**
+ * Events emitted when conversations change, consumed by the messaging socket
+ */
+export const MESSAGE_EVENTS = {
+  CONVERSATION_CREATED: 'conversation.created',
+  MESSAGE_SENT: 'message.sent',
+  MESSAGES_READ: 'message.read',
+};
+
+// Attachment download links are short-lived because messages may contain health information
+const ATTACHMENT_URL_EXPIRY_SECONDS = 300;
+
+/**
+ * Service that implements the IMessagingService interface to manage secure conversations
+ * between clients, case managers and providers
+ */
+export class MessagingService implements IMessagingService {
+  private messageEmitter: EventEmitter;
+
+  /**
+   * Creates a new MessagingService instance with required dependencies
+   * @param messageRepository
+   * @param bookingRepository
+   * @param caseManagerProfileRepository
+   * @param userRepository
+   * @param notificationService
+   * @param storageService
+   */
+  constructor(
+    private messageRepository: MessageRepository,
+    private bookingRepository: BookingRepository,
+    private caseManagerProfileRepository: CaseManagerProfileRepository,
+    private userRepository: UserRepository,
+    private notificationService: NotificationService,
+    private storageService: BlobStorageService
+  ) {
+    this.messageRepository = messageRepository;
+    this.bookingRepository = bookingRepository;
+    this.caseManagerProfileRepository = caseManagerProfileRepository;
+    this.userRepository = userRepository;
+    this.notificationService = notificationService;
+    this.storageService = storageService;
+    this.messageEmitter = new EventEmitter();
+  }
+
+  /**
+   * Starts a conversation about a client
+   * @param data
+   * @param userId
+   * @param userRole
+   * @returns The new conversation with its participants
+   */
+  async createConversation(data: CreateConversationDTO, userId: string, userRole: string): Promise<ConversationSummary> {
+    logger.info('Attempting to create conversation', { clientId: data.clientId, userId, userRole });
+
+    if (!(await this.hasCareRelationship(data.clientId, userId, userRole))) {
+      throw errorFactory.createForbiddenError('User not authorized to message about this client', { clientId: data.clientId, userId, userRole });
+    }
+
+    // The client is always a participant of conversations about them
+    const otherParticipantIds = [...new Set([data.clientId, ...data.participantIds])].filter(id => id !== userId);
+    if (otherParticipantIds.length === 0) {
+      throw errorFactory.createValidationError('A conversation needs at least one other participant', { clientId: data.clientId });
+    }
+
+    const participants: Array<{ userId: string; role: Roles }> = [{ userId, role: userRole as Roles }];
+
+    for (const participantId of otherParticipantIds) {
+      const participant = await this.userRepository.findById(participantId);
+      if (!participant) {
+        throw errorFactory.createNotFoundError('Participant not found', { participantId });
+      }
+
+      if (!(await this.hasCareRelationship(data.clientId, participant.id, participant.role))) {
+        throw errorFactory.createForbiddenError('Participant has no care relationship with this client', {
+          clientId: data.clientId,
+          participantId,
+        });
+      }
+
+      participants.push({ userId: participant.id, role: participant.role });
+    }
+
+    const conversation = await this.messageRepository.createConversation(
+      { clientId: data.clientId, subject: data.subject, createdById: userId },
+      participants
+    );
+
+    const conversationParticipants = await this.messageRepository.findParticipants(conversation.id);
+
+    this.messageEmitter.emit(MESSAGE_EVENTS.CONVERSATION_CREATED, {
+      conversation,
+      participantIds: conversationParticipants.map(participant => participant.userId),
+    });
+
+    logger.info('Conversation created successfully', { conversationId: conversation.id });
+
+    const lastMessage = data.body
+      ? await this.sendMessage(conversation.id, { body: data.body }, userId, userRole)
+      : null;
+
+    return {
+      conversation: lastMessage ? { ...conversation, lastMessageAt: lastMessage.createdAt } : conversation,
+      participants: conversationParticipants,
+      lastMessage,
+      unreadCount: 0,
+    };
+  }
+
+  /**
+   * Retrieves the conversations the user takes part in
+   * @param filters
+   * @param userId
+   * @returns Paginated conversation summaries
+   */
+  async getConversations(filters: ConversationFilterParams, userId: string): Promise<ConversationListResponse> {
+    return this.messageRepository.findConversationsForUser(userId, filters);
+  }
+
+  /**
+   * Retrieves a conversation the user takes part in
+   * @param id
+   * @param userId
+   * @param userRole
+   * @returns The conversation with its participants and unread count
+   */
+  async getConversation(id: string, userId: string, userRole: string): Promise<ConversationSummary> {
+    const { conversation, participants } = await this.getAccessibleConversation(id, userId, userRole);
+
+    const [lastMessage] = await this.messageRepository.findMessages(id, { limit: 1 });
+    const unreadCount = await this.messageRepository.countUnread(id, userId);
+
+    return { conversation, participants, lastMessage: lastMessage || null, unreadCount };
+  }
+
+  /**
+   * Retrieves messages of a conversation, newest first
+   * @param conversationId
+   * @param filters
+   * @param userId
+   * @param userRole
+   * @returns Messages with attachments and read receipts
+   */
+  async getMessages(conversationId: string, filters: MessageFilterParams, userId: string, userRole: string): Promise<Message[]> {
+    await this.getAccessibleConversation(conversationId, userId, userRole);
+
+    return this.messageRepository.findMessages(conversationId, filters);
+  }
+
+  /**
+   * Sends a message to a conversation
+   * @param conversationId
+   * @param data
+   * @param userId
+   * @param userRole
+   * @returns The sent message
+   */
+  async sendMessage(conversationId: string, data: SendMessageDTO, userId: string, userRole: string): Promise<Message> {
+    const body = (data.body || '').trim();
+    const uploads = data.attachments || [];
+
+    if (!body && uploads.length === 0) {
+      throw errorFactory.createValidationError('A message needs text or at least one attachment', { conversationId });
+    }
+
+    const { conversation, participants } = await this.getAccessibleConversation(conversationId, userId, userRole);
+
+    // Attachments are stored under the client so they sit alongside the client's other records
+    const attachments: Omit<MessageAttachment, 'id' | 'messageId' | 'createdAt'>[] = [];
+    for (const upload of uploads) {
+      const fileName = sanitizeFileName(upload.fileName);
+      const storageInfo = await this.storageService.uploadFile(
+        upload.buffer,
+        conversation.clientId,
+        fileName,
+        DOCUMENT_TYPES.OTHER,
+        upload.mimeType
+      );
+
+      attachments.push({
+        fileName,
+        mimeType: upload.mimeType,
+        size: upload.size,
+        storageUrl: storageInfo.storageUrl,
+      });
+    }
+
+    const message = await this.messageRepository.createMessage({
+      conversationId,
+      senderId: userId,
+      body,
+      attachments,
+    });
+
+    this.messageEmitter.emit(MESSAGE_EVENTS.MESSAGE_SENT, {
+      message,
+      participantIds: participants.map(participant => participant.userId),
+    });
+
+    const recipientIds = participants
+      .map(participant => participant.userId)
+      .filter(participantId => participantId !== userId);
+    await this.notifyRecipients(message, recipientIds);
+
+    logger.info('Message sent successfully', { conversationId, messageId: message.id, attachmentCount: attachments.length });
+
+    return message;
+  }
+
+  /**
+   * Records read receipts for the user's unread messages
+   * @param conversationId
+   * @param userId
+   * @param userRole
+   * @param readAt
+   * @returns The messages that were marked as read
+   */
+  async markAsRead(conversationId: string, userId: string, userRole: string, readAt: Date = new Date()): Promise<ReadReceiptResult> {
+    const { participants } = await this.getAccessibleConversation(conversationId, userId, userRole);
+
+    // Receipts cannot be recorded ahead of time
+    const effectiveReadAt = readAt > new Date() ? new Date() : readAt;
+    const messageIds = await this.messageRepository.markAsRead(conversationId, userId, effectiveReadAt);
+
+    const result: ReadReceiptResult = { conversationId, userId, messageIds, readAt: effectiveReadAt };
+
+    if (messageIds.length > 0) {
+      this.messageEmitter.emit(MESSAGE_EVENTS.MESSAGES_READ, {
+        ...result,
+        participantIds: participants.map(participant => participant.userId),
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Generates a short-lived download URL for an attachment
+   * @param conversationId
+   * @param attachmentId
+   * @param userId
+   * @param userRole
+   * @returns Signed URL for the attachment
+   */
+  async getAttachmentUrl(conversationId: string, attachmentId: string, userId: string, userRole: string): Promise<string> {
+    await this.getAccessibleConversation(conversationId, userId, userRole);
+
+    const attachment = await this.messageRepository.findAttachment(conversationId, attachmentId);
+    if (!attachment) {
+      throw errorFactory.createNotFoundError('Attachment not found', { conversationId, attachmentId });
+    }
+
+    return this.storageService.generateSignedUrl(attachment.storageUrl, {
+      expiresIn: ATTACHMENT_URL_EXPIRY_SECONDS,
+      contentType: attachment.mimeType,
+      responseDisposition: 'attachment',
+    });
+  }
+
+  /**
+   * Registers an event listener for messaging events
+   * @param event
+   * @param listener
+   * @returns The service, for chaining
+   */
+  on(event: string, listener: (...args: any[]) => void): MessagingService {
+    this.messageEmitter.on(event, listener);
+    return this;
+  }
+
+  /**
+   * Removes an event listener from messaging events
+   * @param event
+   * @param listener
+   * @returns The service, for chaining
+   */
+  off(event: string, listener: (...args: any[]) => void): MessagingService {
+    this.messageEmitter.off(event, listener);
+    return this;
+  }
+
+  /**
+   * Retrieves a conversation and verifies the user is a participant who still has a care
+   * relationship with its client, so access ends when an assignment ends
+   * @param id
+   * @param userId
+   * @param userRole
+   * @returns The conversation and its participants
+   */
+  private async getAccessibleConversation(
+    id: string,
+    userId: string,
+    userRole: string
+  ): Promise<{ conversation: Conversation; participants: ConversationParticipant[] }> {
+    const conversation = await this.messageRepository.findConversationById(id);
+
+    if (!conversation) {
+      throw errorFactory.createNotFoundError('Conversation not found', { conversationId: id });
+    }
+
+    const participants = await this.messageRepository.findParticipants(id);
+    const isParticipant = participants.some(participant => participant.userId === userId);
+
+    if (!isParticipant || !(await this.hasCareRelationship(conversation.clientId, userId, userRole))) {
+      throw errorFactory.createForbiddenError('User not authorized to access this conversation', { conversationId: id, userId, userRole });
+    }
+
+    return { conversation, participants };
+  }
+
+  /**
+   * Checks whether a user may message about a client: the client themselves, a case manager
+   * the client is assigned to, or a provider the client has booked
+   * @param clientId
+   * @param userId
+   * @param userRole
+   * @returns True if the user has a care relationship with the client
+   */
+  private async hasCareRelationship(clientId: string, userId: string, userRole: string): Promise<boolean> {
+    switch (userRole) {
+      case Roles.CLIENT:
+        return clientId === userId;
+      case Roles.CASE_MANAGER: {
+        const profile = await this.caseManagerProfileRepository.findByUserId(userId);
+        return (profile?.assignedClients || []).includes(clientId);
+      }
+      case Roles.PROVIDER:
+        return this.bookingRepository.hasBookingBetween(userId, clientId);
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Notifies recipients of a new message. The notification deliberately omits the message
+   * text because it may be delivered by email or SMS.
+   * @param message
+   * @param recipientIds
+   */
+  private async notifyRecipients(message: Message, recipientIds: string[]): Promise<void> {
+    for (const recipientId of recipientIds) {
+      try {
+        const notification = await this.notificationService.createNotification({
+          userId: recipientId,
+          type: NOTIFICATION_TYPES.MESSAGE_RECEIVED,
+          title: 'New secure message',
+          message: 'You have a new message. Sign in to Revolucare to read it.',
+          data: {
+            conversationId: message.conversationId,
+            messageId: message.id,
+            senderId: message.senderId,
+          },
+          priority: NOTIFICATION_PRIORITIES.HIGH,
+        });
+
+        await this.notificationService.sendNotification(notification);
+      } catch (error) {
+        // Notification failures should not fail sending the message
+        logger.error('Error notifying message recipient', { messageId: message.id, recipientId, error });
+      }
+    }
+  }
+}
+
+/**
+ * Factory function to create a configured MessagingService instance with required dependencies
+ * @returns A MessagingService instance
+ */
+export const createMessagingService = (): MessagingService => {
+  const userRepository = new UserRepository();
+  return new MessagingService(
+    new MessageRepository(),
+    new BookingRepository(new ProviderAvailabilityRepository()),
+    new CaseManagerProfileRepository(),
+    userRepository,
+    new NotificationService(new NotificationRepository(), userRepository, new EmailService()),
+    new BlobStorageService({
+      serviceType: ExternalServiceType.STORAGE,
+      endpoint: '',
+      accessKey: '',
+      containerName: '',
+      region: '',
+      timeout: 30000,
+      retryConfig: {
+        maxRetries: 3,
+        initialDelay: 1000,
+        maxDelay: 10000,
+        backoffFactor: 2,
+        retryableStatusCodes: [408, 429, 500, 502, 503, 504],
+      },
+      enabled: true,
+    })
+  );
+};
+
+let sharedMessagingService: MessagingService | null = null;
+
+/**
+ * Returns the messaging service instance shared by the REST API and the messaging socket,
+ * so that messages sent through either are delivered to connected sockets
+ * @returns The shared MessagingService instance
+ */
+export const getMessagingService = (): MessagingService => {
+  if (!sharedMessagingService) {
+    sharedMessagingService = createMessagingService();
+  }
+
+  return sharedMessagingService;
+};
@@ -1,5 +1,3 @@
-# src/backend/src/services/notifications.service.ts
-```typescript
 import { EventEmitter } from 'events'; // events@^1.1.1
 import {
   INotificationService,
@@ -1,21 +1,209 @@
+import Stripe from 'stripe'; // stripe@12.0.0
 import { stripeService } from '../../integrations/stripe';
 import { currency } from '../../config/payment';
 import { errorFactory } from '../../utils/error-handler';
 import { logger } from '../../utils/logger';
+import { IPaymentProcessingService } from '../../interfaces/payment.interface';
+import {
+  CreateServiceItemsPaymentDTO,
+  PaymentCancellationResult,
+  PaymentIntentResult,
+  PaymentProcessingResult,
+  PaymentStatusResult,
+  PolicyFeePaymentDTO,
+  RefundResult
+} from '../../models/payment.model';
+import { WebhookResult } from '../../models/webhook-event.model';
+import { BookingStatus } from '../../models/booking.model';
 import { ServicesPlanRepository } from '../../repositories/services-plan.repository';
+import { WebhookEventRepository } from '../../repositories/webhook-event.repository';
+import { BookingRepository } from '../../repositories/booking.repository';
+import { ProviderAvailabilityRepository } from '../../repositories/provider-availability.repository';
+import { CaseManagerProfileRepository } from '../../repositories/case-manager-profile.repository';
+import { NotificationRepository } from '../../repositories/notification.repository';
+import { UserRepository } from '../../repositories/user.repository';
+import { NotificationService } from '../notifications.service';
+import { EmailService } from '../email/email.service';
 import { ServicesPlan, ServiceItem } from '../../types/services-plan.types';
+import { NotificationType } from '../../types/notification.types';
+import { PaymentStatus, PaymentStatusTransitions } from '../../constants/payment-statuses';
+import { NOTIFICATION_TYPES, NOTIFICATION_PRIORITIES } from '../../constants/notification-types';
+import { ErrorCodes } from '../../constants/error-codes';
+import { Roles } from '../../constants/roles';
+
+// Provider name under which Stripe webhook deliveries are recorded
+const STRIPE_WEBHOOK_PROVIDER = 'stripe';
 
 /**
  * Service class that handles payment processing for the Revolucare platform
  */
-export class PaymentProcessingService {
-  private servicesPlanRepository: ServicesPlanRepository;
-
+export class PaymentProcessingService implements IPaymentProcessingService {
   /**
    * Creates a new instance of the PaymentProcessingService
+   * @param servicesPlanRepository
+   * @param webhookEventRepository
+   * @param notificationService
+   * @param bookingRepository
+   * @param caseManagerProfileRepository
+   */
+  constructor(
+    private servicesPlanRepository: ServicesPlanRepository = new ServicesPlanRepository(),
+    private webhookEventRepository: WebhookEventRepository = new WebhookEventRepository(),
+    private notificationService: NotificationService = new NotificationService(
+      new NotificationRepository(),
+      new UserRepository(),
+      new EmailService()
+    ),
+    private bookingRepository: BookingRepository = new BookingRepository(new ProviderAvailabilityRepository()),
+    private caseManagerProfileRepository: CaseManagerProfileRepository = new CaseManagerProfileRepository()
+  ) {
+    this.servicesPlanRepository = servicesPlanRepository;
+    this.webhookEventRepository = webhookEventRepository;
+    this.notificationService = notificationService;
+    this.bookingRepository = bookingRepository;
+    this.caseManagerProfileRepository = caseManagerProfileRepository;
+  }
+
+  /**
+   * Creates a payment intent for service items on behalf of a user
+   *
+   * @param data - Services plan and optional service item IDs; all items awaiting payment when omitted
+   * @param userId - ID of the requesting user
+   * @param userRole - Role of the requesting user
+   * @returns Payment intent details for client-side processing
+   */
+  async createServiceItemsPaymentIntent(
+    data: CreateServiceItemsPaymentDTO,
+    userId: string,
+    userRole: string
+  ): Promise<PaymentIntentResult> {
+    const servicesPlan = await this.servicesPlanRepository.findById(data.servicesPlanId, true, false);
+    if (!servicesPlan) {
+      throw errorFactory.createNotFoundError(`Services plan with ID ${data.servicesPlanId} not found`);
+    }
+
+    await this.assertClientAccess(servicesPlan.clientId, userId, userRole);
+
+    let serviceItems: ServiceItem[];
+
+    if (data.serviceItemIds && data.serviceItemIds.length > 0) {
+      const requestedIds = data.serviceItemIds;
+      serviceItems = servicesPlan.serviceItems.filter(item => requestedIds.includes(item.id));
+
+      const missingIds = requestedIds.filter(id => !serviceItems.some(item => item.id === id));
+      if (missingIds.length > 0) {
+        throw errorFactory.createNotFoundError('Service items not found in services plan', { serviceItemIds: missingIds });
+      }
+
+      const settledIds = serviceItems.filter(item => !this.isAwaitingPayment(item)).map(item => item.id);
+      if (settledIds.length > 0) {
+        throw errorFactory.createValidationError('Service items are not awaiting payment', { serviceItemIds: settledIds });
+      }
+    } else {
+      serviceItems = servicesPlan.serviceItems.filter(item => this.isAwaitingPayment(item));
+      if (serviceItems.length === 0) {
+        throw errorFactory.createValidationError('No service items are awaiting payment', { servicesPlanId: servicesPlan.id });
+      }
+    }
+
+    return this.createIntentForServiceItems(servicesPlan, serviceItems);
+  }
+
+  /**
+   * Creates a payment intent for the service item delivered by a booking
+   *
+   * @param bookingId - ID of the booking to pay for
+   * @param userId - ID of the requesting user
+   * @param userRole - Role of the requesting user
+   * @returns Payment intent details for client-side processing
+   */
+  async createBookingPaymentIntent(bookingId: string, userId: string, userRole: string): Promise<PaymentIntentResult> {
+    const booking = await this.bookingRepository.findById(bookingId);
+    if (!booking) {
+      throw errorFactory.createNotFoundError(`Booking with ID ${bookingId} not found`);
+    }
+
+    await this.assertClientAccess(booking.clientId, userId, userRole);
+
+    if (booking.status === BookingStatus.CANCELLED) {
+      throw errorFactory.createValidationError('Cancelled bookings cannot be paid for', { bookingId });
+    }
+
+    if (!booking.serviceItemId) {
+      throw errorFactory.createValidationError('Booking is not linked to a service item', { bookingId });
+    }
+
+    const serviceItem = await this.servicesPlanRepository.findServiceItemById(booking.serviceItemId);
+    if (!serviceItem) {
+      throw errorFactory.createNotFoundError(`Service item with ID ${booking.serviceItemId} not found`);
+    }
+
+    if (!this.isAwaitingPayment(serviceItem)) {
+      throw errorFactory.createValidationError('Service item is not awaiting payment', {
+        bookingId,
+        serviceItemId: serviceItem.id,
+        paymentStatus: serviceItem.paymentStatus,
+      });
+    }
+
+    const servicesPlan = await this.servicesPlanRepository.findById(serviceItem.servicesPlanId, false, false);
+    if (!servicesPlan) {
+      throw errorFactory.createNotFoundError(`Services plan with ID ${serviceItem.servicesPlanId} not found`);
+    }
+
+    return this.createIntentForServiceItems(servicesPlan, [serviceItem], undefined, { booking_id: booking.id });
+  }
+
+  /**
+   * Creates a payment intent charging a client the fee for a late cancellation or no-show.
+   * The intent is not linked to service items; its metadata identifies the violation instead.
+   *
+   * @param data - The violation, client and fee amount
+   * @returns Payment intent details for client-side processing
+   */
+  async createPolicyFeePaymentIntent(data: PolicyFeePaymentDTO): Promise<PaymentIntentResult> {
+    const paymentIntent = await stripeService.createPaymentIntent(
+      data.amount,
+      currency.toLowerCase(),
+      {
+        policy_violation_id: data.violationId,
+        booking_id: data.bookingId,
+        client_id: data.clientId,
+        provider_id: data.providerId,
+        fee_type: data.feeType
+      }
+    );
+
+    logger.info('Policy fee payment intent created', {
+      paymentIntentId: paymentIntent.id,
+      violationId: data.violationId,
+      amount: data.amount
+    });
+
+    return {
+      clientSecret: paymentIntent.client_secret || '',
+      paymentIntentId: paymentIntent.id,
+      amount: data.amount
+    };
+  }
+
+  /**
+   * Verifies the user may view or act on a payment intent
+   *
+   * @param paymentIntentId - ID of the payment intent
+   * @param userId - ID of the requesting user
+   * @param userRole - Role of the requesting user
    */
-  constructor() {
-    this.servicesPlanRepository = new ServicesPlanRepository();
+  async assertPaymentAccess(paymentIntentId: string, userId: string, userRole: string): Promise<void> {
+    const paymentIntent = await stripeService.retrievePaymentIntent(paymentIntentId);
+
+    // Only payment intents created for services plans or policy fees are exposed through the API
+    const clientId = paymentIntent.metadata?.client_id;
+    if ((!paymentIntent.metadata?.services_plan_id && !paymentIntent.metadata?.policy_violation_id) || !clientId) {
+      throw errorFactory.createNotFoundError(`Payment with ID ${paymentIntentId} not found`);
+    }
+
+    await this.assertClientAccess(clientId, userId, userRole);
   }
 
   /**
@@ -30,7 +218,7 @@ export class PaymentProcessingService {
     servicesPlanId: string,
     serviceItemIds?: string[],
     customerId?: string
-  ): Promise<{ clientSecret: string; paymentIntentId: string; amount: number }> {
+  ): Promise<PaymentIntentResult> {
     try {
       logger.info('Creating payment intent', { servicesPlanId, serviceItemIds });
 
@@ -51,31 +239,7 @@ export class PaymentProcessingService {
         }
       }
 
-      // Calculate the total amount to charge
-      const amount = this.calculateServiceCost(serviceItems);
-      
-      // Create metadata with service plan and item details
-      const metadata = this.createPaymentMetadata(servicesPlan, serviceItems);
-
-      // Call Stripe service to create a payment intent
-      const paymentIntent = await stripeService.createPaymentIntent(
-        amount, 
-        currency, 
-        metadata,
-        customerId
-      );
-
-      logger.info('Payment intent created successfully', { 
-        paymentIntentId: paymentIntent.id,
-        amount,
-        servicesPlanId
-      });
-
-      return {
-        clientSecret: paymentIntent.client_secret || '',
-        paymentIntentId: paymentIntent.id,
-        amount
-      };
+      return await this.createIntentForServiceItems(servicesPlan, serviceItems, customerId);
     } catch (error) {
       logger.error('Failed to create payment intent', { error, servicesPlanId });
       throw error;
@@ -83,14 +247,15 @@ export class PaymentProcessingService {
   }
 
   /**
-   * Processes a completed payment and updates service plan status
+   * Processes a completed payment and marks its service items as paid.
+   * Safe to call more than once for the same payment; the client is only notified the first time.
    * 
    * @param paymentIntentId - ID of the completed payment intent
    * @returns Payment processing result
    */
   async processPayment(
     paymentIntentId: string
-  ): Promise<{ success: boolean; servicesPlanId: string; status: string }> {
+  ): Promise<PaymentProcessingResult> {
     try {
       logger.info('Processing payment', { paymentIntentId });
 
@@ -116,25 +281,23 @@ export class PaymentProcessingService {
       }
 
       // Extract service item IDs from metadata
-      const serviceItemIds = paymentIntent.metadata?.service_item_ids
-        ? JSON.parse(paymentIntent.metadata.service_item_ids)
-        : [];
+      const serviceItemIds = this.getServiceItemIds(paymentIntent);
 
-      // Update service items status to 'paid'
-      await this.updateServiceItemPaymentStatus(
+      // Mark the service items as paid; items already paid are left unchanged
+      const updatedCount = await this.servicesPlanRepository.updateServiceItemPaymentStatus(
         servicesPlanId,
         serviceItemIds,
-        'paid'
+        PaymentStatus.PAID
       );
 
-      // Update service plan payment status
-      await this.servicesPlanRepository.update(servicesPlanId, {
-        status: servicesPlan.status, // Maintain current status
-        title: servicesPlan.title,
-        description: servicesPlan.description,
-        serviceItems: [], // No changes to service items here
-        fundingSources: [] // No changes to funding sources
-      });
+      if (updatedCount > 0) {
+        await this.notifyClient(
+          paymentIntent,
+          NOTIFICATION_TYPES.PAYMENT_PROCESSED,
+          'Payment received',
+          `Your payment of ${this.formatAmount(paymentIntent.amount)} has been received.`
+        );
+      }
 
       logger.info('Payment processed successfully', { 
         paymentIntentId, 
@@ -145,7 +308,7 @@ export class PaymentProcessingService {
       return {
         success: true,
         servicesPlanId,
-        status: 'paid'
+        status: PaymentStatus.PAID
       };
     } catch (error) {
       logger.error('Failed to process payment', { error, paymentIntentId });
@@ -161,7 +324,7 @@ export class PaymentProcessingService {
    */
   async getPaymentStatus(
     paymentIntentId: string
-  ): Promise<{ status: string; amount: number; metadata: Record<string, any> }> {
+  ): Promise<PaymentStatusResult> {
     try {
       logger.info('Getting payment status', { paymentIntentId });
 
@@ -195,7 +358,7 @@ export class PaymentProcessingService {
   async cancelPayment(
     paymentIntentId: string,
     cancellationReason?: string
-  ): Promise<{ success: boolean; status: string }> {
+  ): Promise<PaymentCancellationResult> {
     try {
       logger.info('Cancelling payment', { paymentIntentId, cancellationReason });
 
@@ -208,21 +371,8 @@ export class PaymentProcessingService {
         cancellationReason
       );
 
-      // Update service plan payment status if applicable
-      if (paymentIntent.metadata?.services_plan_id) {
-        const servicesPlanId = paymentIntent.metadata.services_plan_id;
-        const serviceItemIds = paymentIntent.metadata?.service_item_ids
-          ? JSON.parse(paymentIntent.metadata.service_item_ids)
-          : [];
-
-        if (serviceItemIds.length > 0) {
-          await this.updateServiceItemPaymentStatus(
-            servicesPlanId,
-            serviceItemIds,
-            'payment_cancelled'
-          );
-        }
-      }
+      // Update service item payment status if applicable
+      await this.updatePaymentStatusFromIntent(paymentIntent, PaymentStatus.PAYMENT_CANCELLED);
 
       logger.info('Payment cancelled successfully', { 
         paymentIntentId, 
@@ -251,7 +401,7 @@ export class PaymentProcessingService {
     paymentIntentId: string,
     amount?: number,
     reason?: string
-  ): Promise<{ success: boolean; refundId: string; amount: number }> {
+  ): Promise<RefundResult> {
     try {
       logger.info('Creating refund', { paymentIntentId, amount, reason });
 
@@ -267,7 +417,7 @@ export class PaymentProcessingService {
       }
 
       // Prepare refund parameters including amount and reason
-      const refundParams: any = {
+      const refundParams: Stripe.RefundCreateParams = {
         payment_intent: paymentIntentId,
       };
 
@@ -276,31 +426,18 @@ export class PaymentProcessingService {
       }
 
       if (reason) {
-        refundParams.reason = reason;
+        refundParams.reason = reason as Stripe.RefundCreateParams.Reason;
       }
 
       // Call Stripe service to create a refund
       const refund = await stripeService.createRefund(refundParams);
 
-      // Update service plan payment status to reflect the refund
-      if (paymentIntent.metadata?.services_plan_id) {
-        const servicesPlanId = paymentIntent.metadata.services_plan_id;
-        const serviceItemIds = paymentIntent.metadata?.service_item_ids
-          ? JSON.parse(paymentIntent.metadata.service_item_ids)
-          : [];
-
-        // Determine if this is a full or partial refund
-        const isFullRefund = !amount || amount === paymentIntent.amount;
-        const status = isFullRefund ? 'refunded' : 'partially_refunded';
-
-        if (serviceItemIds.length > 0) {
-          await this.updateServiceItemPaymentStatus(
-            servicesPlanId,
-            serviceItemIds,
-            status
-          );
-        }
-      }
+      // Update service item payment status to reflect the refund
+      const isFullRefund = !amount || amount === paymentIntent.amount;
+      await this.updatePaymentStatusFromIntent(
+        paymentIntent,
+        isFullRefund ? PaymentStatus.REFUNDED : PaymentStatus.PARTIALLY_REFUNDED
+      );
 
       logger.info('Refund created successfully', { 
         paymentIntentId, 
@@ -320,50 +457,81 @@ export class PaymentProcessingService {
   }
 
   /**
-   * Processes Stripe webhook events
+   * Processes Stripe webhook events. Each event is processed at most once; redeliveries of
+   * an event that was already processed are acknowledged without being processed again.
    * 
    * @param payload - Raw request body from webhook
    * @param signature - Stripe signature from request headers
    * @returns Webhook processing result
    */
   async handleWebhook(
-    payload: string,
+    payload: string | Buffer,
     signature: string
-  ): Promise<{ success: boolean; event: string; data: Record<string, any> }> {
-    try {
-      logger.info('Processing webhook event');
+  ): Promise<WebhookResult> {
+    logger.info('Processing webhook event');
 
-      // Validate the webhook signature
-      const event = await stripeService.constructWebhookEvent(payload, signature);
+    // Validate the webhook signature
+    const event = await stripeService.constructWebhookEvent(payload, signature);
 
-      // Determine the event type and handle accordingly
-      logger.info('Webhook event verified', { 
-        eventType: event.type,
-        eventId: event.id
-      });
+    logger.info('Webhook event verified', { 
+      eventType: event.type,
+      eventId: event.id
+    });
+
+    const eventObject = event.data.object as Record<string, any>;
+
+    // Claim the event so concurrent or repeated deliveries are not processed twice
+    const claimed = await this.webhookEventRepository.claim(STRIPE_WEBHOOK_PROVIDER, event.id, event.type);
+    if (!claimed) {
+      logger.info('Skipping duplicate webhook event', { eventType: event.type, eventId: event.id });
+
+      return {
+        success: true,
+        event: event.type,
+        data: eventObject,
+        duplicate: true
+      };
+    }
 
+    try {
       switch (event.type) {
         case 'payment_intent.succeeded':
-          await this.processPayment(event.data.object.id);
+          // Policy fees are not linked to service items, so there is nothing to mark as paid
+          if ((eventObject as Stripe.PaymentIntent).metadata?.policy_violation_id) {
+            await this.handlePolicyFeePaid(eventObject as Stripe.PaymentIntent);
+          } else {
+            await this.processPayment((eventObject as Stripe.PaymentIntent).id);
+          }
           break;
         case 'payment_intent.payment_failed':
-          await this.handlePaymentIntentFailed(event.data.object);
+          await this.handlePaymentIntentFailed(eventObject as Stripe.PaymentIntent);
+          break;
+        case 'payment_intent.canceled':
+          await this.updatePaymentStatusFromIntent(eventObject as Stripe.PaymentIntent, PaymentStatus.PAYMENT_CANCELLED);
           break;
         case 'charge.refunded':
-          await this.handleChargeRefunded(event.data.object);
+          await this.handleChargeRefunded(eventObject as Stripe.Charge);
           break;
         // Additional event types can be handled here
       }
 
-      return {
-        success: true,
-        event: event.type,
-        data: event.data.object
-      };
+      await this.webhookEventRepository.markProcessed(STRIPE_WEBHOOK_PROVIDER, event.id);
     } catch (error) {
-      logger.error('Failed to process webhook', { error });
+      logger.error('Failed to process webhook', { error, eventType: event.type, eventId: event.id });
+
+      // Release the claim so Stripe's retry of this event is processed
+      await this.webhookEventRepository.release(STRIPE_WEBHOOK_PROVIDER, event.id).catch((releaseError: unknown) => {
+        logger.error('Failed to release webhook event', { error: releaseError, eventId: event.id });
+      });
+
       throw error;
     }
+
+    return {
+      success: true,
+      event: event.type,
+      data: eventObject
+    };
   }
 
   /**
@@ -415,57 +583,111 @@ export class PaymentProcessingService {
   }
 
   /**
-   * Updates the payment status of service items
+   * Creates a Stripe payment intent for service items and marks them as pending payment
+   * 
+   * @param servicesPlan - The services plan the items belong to
+   * @param serviceItems - The service items to charge for
+   * @param customerId - Optional Stripe customer ID
+   * @param additionalMetadata - Metadata to add to the service details, e.g. the booking being paid for
+   * @returns Payment intent details for client-side processing
+   */
+  private async createIntentForServiceItems(
+    servicesPlan: ServicesPlan,
+    serviceItems: ServiceItem[],
+    customerId?: string,
+    additionalMetadata: Record<string, string> = {}
+  ): Promise<PaymentIntentResult> {
+    // Calculate the total amount to charge
+    const amount = this.calculateServiceCost(serviceItems);
+
+    // Create metadata with service plan and item details
+    const metadata = {
+      ...this.createPaymentMetadata(servicesPlan, serviceItems),
+      ...additionalMetadata
+    };
+
+    // Call Stripe service to create a payment intent
+    const paymentIntent = await stripeService.createPaymentIntent(
+      amount,
+      currency.toLowerCase(),
+      metadata,
+      customerId
+    );
+
+    await this.servicesPlanRepository.updateServiceItemPaymentStatus(
+      servicesPlan.id,
+      serviceItems.map(item => item.id),
+      PaymentStatus.PENDING
+    );
+
+    logger.info('Payment intent created successfully', { 
+      paymentIntentId: paymentIntent.id,
+      amount,
+      servicesPlanId: servicesPlan.id
+    });
+
+    return {
+      clientSecret: paymentIntent.client_secret || '',
+      paymentIntentId: paymentIntent.id,
+      amount
+    };
+  }
+
+  /**
+   * Checks whether a service item can be paid for. Items with a payment in progress can be
+   * paid for again so an abandoned payment does not block the item.
    * 
-   * @param servicesPlanId - ID of the services plan
-   * @param serviceItemIds - IDs of the service items to update
-   * @param status - New payment status
-   * @returns True if update was successful
+   * @param serviceItem - The service item
+   * @returns True if a new payment may be started for the item
    */
-  private async updateServiceItemPaymentStatus(
-    servicesPlanId: string,
-    serviceItemIds: string[],
-    status: string
-  ): Promise<boolean> {
-    try {
-      logger.info('Updating service item payment status', { 
-        servicesPlanId, 
-        serviceItemIds,
-        status
-      });
+  private isAwaitingPayment(serviceItem: ServiceItem): boolean {
+    const paymentStatus = serviceItem.paymentStatus || PaymentStatus.UNPAID;
 
-      // Validate the service plan exists
-      const servicesPlan = await this.servicesPlanRepository.findById(servicesPlanId, true, false);
-      if (!servicesPlan) {
-        throw errorFactory.createNotFoundError(`Services plan with ID ${servicesPlanId} not found`);
-      }
+    return paymentStatus === PaymentStatus.PENDING ||
+      PaymentStatusTransitions[paymentStatus].includes(PaymentStatus.PENDING);
+  }
 
-      // Update the status of each service item
-      for (const itemId of serviceItemIds) {
-        const serviceItem = servicesPlan.serviceItems.find(item => item.id === itemId);
-        if (serviceItem) {
-          await this.servicesPlanRepository.updateServiceItem(itemId, {
-            ...serviceItem,
-            status
-          });
-        }
-      }
+  /**
+   * Extracts the service item IDs recorded in a payment intent's metadata
+   * 
+   * @param paymentIntent - The payment intent
+   * @returns IDs of the service items the payment is for
+   */
+  private getServiceItemIds(paymentIntent: Stripe.PaymentIntent): string[] {
+    return paymentIntent.metadata?.service_item_ids
+      ? JSON.parse(paymentIntent.metadata.service_item_ids) as string[]
+      : [];
+  }
 
-      logger.info('Service item payment status updated successfully', { 
-        servicesPlanId, 
-        serviceItemIds,
-        status
+  /**
+   * Updates the payment status of the service items a payment intent is for
+   * 
+   * @param paymentIntent - The payment intent
+   * @param paymentStatus - New payment status
+   * @returns Number of service items whose payment status changed
+   */
+  private async updatePaymentStatusFromIntent(
+    paymentIntent: Stripe.PaymentIntent,
+    paymentStatus: PaymentStatus
+  ): Promise<number> {
+    const servicesPlanId = paymentIntent.metadata?.services_plan_id;
+    if (!servicesPlanId) {
+      logger.warn('Payment intent does not have a services plan ID in metadata', {
+        paymentIntentId: paymentIntent.id
       });
+      return 0;
+    }
 
-      return true;
-    } catch (error) {
-      logger.error('Failed to update service item payment status', { 
-        error, 
-        servicesPlanId, 
-        serviceItemIds
-      });
-      throw error;
+    const serviceItemIds = this.getServiceItemIds(paymentIntent);
+    if (serviceItemIds.length === 0) {
+      return 0;
     }
+
+    return this.servicesPlanRepository.updateServiceItemPaymentStatus(
+      servicesPlanId,
+      serviceItemIds,
+      paymentStatus
+    );
   }
 
   /**
@@ -473,105 +695,160 @@ export class PaymentProcessingService {
    * 
    * @param paymentIntent - The payment intent object from webhook
    */
-  private async handlePaymentIntentFailed(paymentIntent: any): Promise<void> {
-    try {
-      logger.info('Processing payment_intent.payment_failed webhook', { 
-        paymentIntentId: paymentIntent.id 
-      });
-
-      // Extract service plan and item IDs from metadata
-      const servicesPlanId = paymentIntent.metadata?.services_plan_id;
-      if (!servicesPlanId) {
-        logger.warn('Payment intent does not have a services plan ID in metadata', {
-          paymentIntentId: paymentIntent.id
-        });
-        return;
-      }
-
-      const serviceItemIds = paymentIntent.metadata?.service_item_ids
-        ? JSON.parse(paymentIntent.metadata.service_item_ids)
-        : [];
-
-      // Update service items to payment_failed status
-      if (serviceItemIds.length > 0) {
-        await this.updateServiceItemPaymentStatus(
-          servicesPlanId,
-          serviceItemIds,
-          'payment_failed'
-        );
-      }
-    } catch (error) {
-      logger.error('Error handling payment_intent.payment_failed webhook', { 
-        error, 
-        paymentIntentId: paymentIntent.id 
-      });
-      throw error;
+  private async handlePaymentIntentFailed(paymentIntent: Stripe.PaymentIntent): Promise<void> {
+    logger.info('Processing payment_intent.payment_failed webhook', { 
+      paymentIntentId: paymentIntent.id 
+    });
+
+    // Update service items to payment_failed status
+    const updatedCount = await this.updatePaymentStatusFromIntent(paymentIntent, PaymentStatus.PAYMENT_FAILED);
+
+    if (updatedCount > 0) {
+      await this.notifyClient(
+        paymentIntent,
+        NOTIFICATION_TYPES.PAYMENT_FAILED,
+        'Payment failed',
+        `Your payment of ${this.formatAmount(paymentIntent.amount)} could not be completed. Please try again or use a different payment method.`
+      );
     }
   }
 
+  /**
+   * Handles payment_intent.succeeded webhook events for late cancellation and no-show fees
+   * 
+   * @param paymentIntent - The payment intent object from webhook
+   */
+  private async handlePolicyFeePaid(paymentIntent: Stripe.PaymentIntent): Promise<void> {
+    logger.info('Processing policy fee payment', {
+      paymentIntentId: paymentIntent.id,
+      violationId: paymentIntent.metadata.policy_violation_id
+    });
+
+    await this.notifyClient(
+      paymentIntent,
+      NOTIFICATION_TYPES.PAYMENT_PROCESSED,
+      'Fee payment received',
+      `Your payment of ${this.formatAmount(paymentIntent.amount)} for a missed or late-cancelled appointment has been received.`
+    );
+  }
+
   /**
    * Handles charge.refunded webhook events
    * 
    * @param charge - The charge object from webhook
    */
-  private async handleChargeRefunded(charge: any): Promise<void> {
-    try {
-      logger.info('Processing charge.refunded webhook', { 
-        chargeId: charge.id 
+  private async handleChargeRefunded(charge: Stripe.Charge): Promise<void> {
+    logger.info('Processing charge.refunded webhook', { 
+      chargeId: charge.id 
+    });
+
+    // Get payment intent ID and retrieve it
+    const paymentIntentId = typeof charge.payment_intent === 'string'
+      ? charge.payment_intent
+      : charge.payment_intent?.id;
+    if (!paymentIntentId) {
+      logger.warn('Charge does not have a payment intent ID', {
+        chargeId: charge.id
       });
+      return;
+    }
 
-      // Get payment intent ID and retrieve it
-      const paymentIntentId = charge.payment_intent;
-      if (!paymentIntentId) {
-        logger.warn('Charge does not have a payment intent ID', {
-          chargeId: charge.id
-        });
-        return;
-      }
+    const paymentIntent = await stripeService.retrievePaymentIntent(paymentIntentId);
 
-      const paymentIntent = await stripeService.retrievePaymentIntent(paymentIntentId);
+    // Determine if this is a full or partial refund
+    const isFullRefund = charge.amount_refunded === charge.amount;
 
-      // Extract service plan and item IDs from metadata
-      const servicesPlanId = paymentIntent.metadata?.services_plan_id;
-      if (!servicesPlanId) {
-        logger.warn('Payment intent does not have a services plan ID in metadata', {
-          paymentIntentId
-        });
-        return;
+    await this.updatePaymentStatusFromIntent(
+      paymentIntent,
+      isFullRefund ? PaymentStatus.REFUNDED : PaymentStatus.PARTIALLY_REFUNDED
+    );
+  }
+
+  /**
+   * Verifies the user may make or view payments for a client
+   * 
+   * @param clientId - ID of the client being paid for
+   * @param userId - ID of the requesting user
+   * @param userRole - Role of the requesting user
+   */
+  private async assertClientAccess(clientId: string, userId: string, userRole: string): Promise<void> {
+    let hasAccess = false;
+
+    switch (userRole) {
+      case Roles.ADMINISTRATOR:
+        hasAccess = true;
+        break;
+      case Roles.CLIENT:
+        hasAccess = clientId === userId;
+        break;
+      case Roles.CASE_MANAGER: {
+        const profile = await this.caseManagerProfileRepository.findByUserId(userId);
+        hasAccess = (profile?.assignedClients || []).includes(clientId);
+        break;
       }
+    }
 
-      const serviceItemIds = paymentIntent.metadata?.service_item_ids
-        ? JSON.parse(paymentIntent.metadata.service_item_ids)
-        : [];
+    if (!hasAccess) {
+      throw errorFactory.createForbiddenError('User not authorized to access payments for this client', {
+        clientId,
+        userId,
+        userRole
+      });
+    }
+  }
 
-      // Determine if this is a full or partial refund
-      const isFullRefund = charge.amount_refunded === charge.amount;
-      const status = isFullRefund ? 'refunded' : 'partially_refunded';
+  /**
+   * Notifies the paying client of a payment outcome
+   * 
+   * @param paymentIntent - The payment intent
+   * @param type - Notification type
+   * @param title - Notification title
+   * @param message - Notification message
+   */
+  private async notifyClient(
+    paymentIntent: Stripe.PaymentIntent,
+    type: NotificationType,
+    title: string,
+    message: string
+  ): Promise<void> {
+    const clientId = paymentIntent.metadata?.client_id;
+    if (!clientId) {
+      return;
+    }
 
-      // Update service items status
-      if (serviceItemIds.length > 0) {
-        await this.updateServiceItemPaymentStatus(
-          servicesPlanId,
-          serviceItemIds,
-          status
-        );
-      }
-    } catch (error) {
-      logger.error('Error handling charge.refunded webhook', { 
-        error, 
-        chargeId: charge.id 
+    try {
+      const notification = await this.notificationService.createNotification({
+        userId: clientId,
+        type,
+        title,
+        message,
+        data: {
+          paymentIntentId: paymentIntent.id,
+          servicesPlanId: paymentIntent.metadata.services_plan_id,
+          amount: paymentIntent.amount,
+          bookingId: paymentIntent.metadata.booking_id
+        },
+        priority: type === NOTIFICATION_TYPES.PAYMENT_FAILED
+          ? NOTIFICATION_PRIORITIES.HIGH
+          : NOTIFICATION_PRIORITIES.NORMAL
       });
-      throw error;
+
+      await this.notificationService.sendNotification(notification);
+    } catch (error) {
+      // Notification failures should not fail payment processing
+      logger.error('Error sending payment notification', { paymentIntentId: paymentIntent.id, clientId, error });
     }
   }
-}
 
-// Error codes enumeration for payment processing errors
-enum ErrorCodes {
-  PAYMENT_PROCESSING_ERROR = 'PAYMENT_PROCESSING_ERROR',
-  VALIDATION_ERROR = 'VALIDATION_ERROR',
-  NOT_FOUND = 'NOT_FOUND',
-  INTERNAL_SERVER_ERROR = 'INTERNAL_SERVER_ERROR'
+  /**
+   * Formats an amount in the smallest currency unit for display
+   * 
+   * @param amount - Amount in cents
+   * @returns Formatted amount, e.g. "120.00 USD"
+   */
+  private formatAmount(amount: number): string {
+    return `${(amount / 100).toFixed(2)} ${currency}`;
+  }
 }
 
-export default PaymentProcessingService;
\ No newline at end of file
+export default PaymentProcessingService;
@@ -0,0 +1,109 @@
+import { IPermissionService } from '../interfaces/permission.interface';
+import { AdminProfileRepository } from '../repositories/admin-profile.repository';
+import { Roles, RoleHierarchy, RolePermissions, DefaultRolePermissions, NonInheritedPermissions } from '../constants/roles';
+import { logger } from '../utils/logger';
+
+/**
+ * Gets the permissions a role holds by default: the permissions of every authenticated user,
+ * the role's own permissions and the inheritable permissions of every role it inherits from.
+ * @param role - The role
+ * @returns Default permissions of the role, without duplicates
+ */
+export const getRolePermissions = (role: Roles): string[] => {
+  const permissions = new Set<string>(Object.values(DefaultRolePermissions));
+
+  // Walk the hierarchy so inheritance also applies across more than one level
+  const visited = new Set<Roles>();
+  const pending: Roles[] = [role];
+
+  while (pending.length > 0) {
+    const current = pending.pop() as Roles;
+    if (visited.has(current) || !(current in RolePermissions)) {
+      continue;
+    }
+
+    visited.add(current);
+    RolePermissions[current]
+      .filter(permission => current === role || !NonInheritedPermissions.includes(permission))
+      .forEach(permission => permissions.add(permission));
+    pending.push(...(RoleHierarchy[current] || []));
+  }
+
+  return [...permissions];
+};
+
+/**
+ * Service that resolves the fine-grained permissions of users
+ */
+export class PermissionService implements IPermissionService {
+  /**
+   * Creates a new PermissionService instance
+   * @param adminProfileRepository
+   */
+  constructor(private adminProfileRepository: AdminProfileRepository) {
+    this.adminProfileRepository = adminProfileRepository;
+  }
+
+  /**
+   * Gets the permissions a role holds by default, including inherited ones
+   * @param role
+   * @returns Default permissions of the role
+   */
+  getRolePermissions(role: Roles): string[] {
+    return getRolePermissions(role);
+  }
+
+  /**
+   * Gets all permissions a user holds, including permissions granted to administrators
+   * @param userId
+   * @param role
+   * @returns Effective permissions of the user
+   */
+  async getEffectivePermissions(userId: string, role: Roles): Promise<string[]> {
+    const permissions = getRolePermissions(role);
+
+    // Only administrators can be granted permissions beyond their role's defaults
+    if (role !== Roles.ADMINISTRATOR) {
+      return permissions;
+    }
+
+    const adminProfile = await this.adminProfileRepository.findByUserId(userId);
+    const grantedPermissions = adminProfile?.permissions || [];
+
+    return [...new Set([...permissions, ...grantedPermissions])];
+  }
+
+  /**
+   * Checks whether a user holds all of the given permissions. Admin grants are only
+   * looked up when the role's defaults are not enough.
+   * @param userId
+   * @param role
+   * @param requiredPermissions
+   * @returns True if the user holds every permission
+   */
+  async hasPermissions(userId: string, role: Roles, requiredPermissions: string[]): Promise<boolean> {
+    const rolePermissions = getRolePermissions(role);
+    if (requiredPermissions.every(permission => rolePermissions.includes(permission))) {
+      return true;
+    }
+
+    if (role !== Roles.ADMINISTRATOR) {
+      return false;
+    }
+
+    const effectivePermissions = await this.getEffectivePermissions(userId, role);
+    const hasAll = requiredPermissions.every(permission => effectivePermissions.includes(permission));
+
+    logger.debug('Resolved administrator permission grants', { userId, requiredPermissions, hasAll });
+
+    return hasAll;
+  }
+}
+
+/**
+ * Creates a PermissionService backed by the admin profile repository
+ * @returns PermissionService instance
+ */
+export const createPermissionService = (): PermissionService => {
+  return new PermissionService(new AdminProfileRepository());
+};
@@ -0,0 +1,528 @@
+import { IPriorAuthorizationService } from '../interfaces/prior-authorization.interface';
+import { IAuditService } from '../interfaces/audit.interface';
+import {
+  CreatePriorAuthorizationDTO,
+  PriorAuthorization,
+  PriorAuthorizationAlert,
+  PriorAuthorizationCheck,
+  PriorAuthorizationSettings,
+  PriorAuthorizationShortfall,
+  PriorAuthorizationStatus,
+  PriorAuthorizationSummary,
+  UpdatePriorAuthorizationDTO
+} from '../types/prior-authorization.types';
+import { ServicesPlan } from '../types/services-plan.types';
+import { AuditAction, AuditResourceType } from '../models/audit-log.model';
+import { PriorAuthorizationRepository } from '../repositories/prior-authorization.repository';
+import { ServicesPlanRepository } from '../repositories/services-plan.repository';
+import { BookingRepository } from '../repositories/booking.repository';
+import { ProviderAvailabilityRepository } from '../repositories/provider-availability.repository';
+import { DocumentRepository } from '../repositories/document.repository';
+import { CaseManagerProfileRepository } from '../repositories/case-manager-profile.repository';
+import { NotificationRepository } from '../repositories/notification.repository';
+import { UserRepository } from '../repositories/user.repository';
+import { NotificationService } from './notifications.service';
+import { EmailService } from './email/email.service';
+import { createAuditService } from './audit.service';
+import { NOTIFICATION_TYPES, NOTIFICATION_PRIORITIES } from '../constants/notification-types';
+import { errorFactory } from '../utils/error-handler';
+import { logger } from '../utils/logger';
+
+/**
+ * Share of an authorization's approved units at or below which case managers are
+ * alerted that units run low
+ */
+export const LOW_UNITS_FRACTION = 0.2;
+
+/**
+ * Days before an authorization ends from which case managers are alerted that it ends soon
+ */
+export const EXPIRY_WARNING_DAYS = 14;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Converts a date to an ISO date (UTC)
+ * @param date - The date
+ * @returns The ISO date
+ */
+const toIsoDate = (date: Date): string => date.toISOString().slice(0, 10);
+
+/**
+ * Counts the days from one ISO date to another
+ * @param from - The earlier ISO date
+ * @param to - The later ISO date
+ * @returns Days between the dates; negative if to is before from
+ */
+const daysBetween = (from: string, to: string): number =>
+  Math.round((Date.parse(to) - Date.parse(from)) / MS_PER_DAY);
+
+/**
+ * Summarizes a prior authorization with the units booked against it and the conditions
+ * case managers should be alerted to. Only approved authorizations that have not ended
+ * raise alerts.
+ * @param authorization - The prior authorization
+ * @param usedUnits - Units booked against it
+ * @param today - Today's ISO date
+ * @returns The summary
+ */
+export function summarizePriorAuthorization(
+  authorization: PriorAuthorization,
+  usedUnits: number,
+  today: string
+): PriorAuthorizationSummary {
+  const remainingUnits = Math.max(0, authorization.approvedUnits - usedUnits);
+  const daysUntilExpiry = daysBetween(today, authorization.endDate);
+  const alerts: PriorAuthorizationAlert[] = [];
+
+  if (authorization.status === PriorAuthorizationStatus.APPROVED && daysUntilExpiry >= 0) {
+    if (remainingUnits <= authorization.approvedUnits * LOW_UNITS_FRACTION) {
+      alerts.push(PriorAuthorizationAlert.LOW_UNITS);
+    }
+    if (daysUntilExpiry <= EXPIRY_WARNING_DAYS) {
+      alerts.push(PriorAuthorizationAlert.EXPIRING);
+    }
+  }
+
+  return { ...authorization, usedUnits, remainingUnits, daysUntilExpiry, alerts };
+}
+
+/**
+ * Allocates new bookings to the approved authorizations covering their dates, drawing on
+ * the authorization that ends soonest first, and reports the bookings left over
+ * @param authorizations - Approved authorizations of the service item with their remaining units
+ * @param dates - ISO dates of the new bookings
+ * @returns Units that no authorization has left for, by authorization
+ */
+export function allocateAuthorizedUnits(
+  authorizations: Array<Pick<PriorAuthorizationSummary, 'id' | 'authNumber' | 'startDate' | 'endDate' | 'remainingUnits'>>,
+  dates: string[]
+): PriorAuthorizationShortfall[] {
+  const available = new Map(authorizations.map(authorization => [authorization.id, authorization.remainingUnits]));
+  const shortfalls = new Map<string | null, PriorAuthorizationShortfall>();
+
+  [...dates].sort().forEach(date => {
+    const covering = authorizations
+      .filter(authorization => authorization.startDate <= date && authorization.endDate >= date)
+      .sort((a, b) => a.endDate.localeCompare(b.endDate));
+    const allocated = covering.find(authorization => (available.get(authorization.id) || 0) > 0);
+
+    if (allocated) {
+      available.set(allocated.id, (available.get(allocated.id) || 0) - 1);
+      return;
+    }
+
+    // Units short are charged to the authorization that would have covered them, if any
+    const short = covering[0] || null;
+    const key = short ? short.id : null;
+    const shortfall = shortfalls.get(key) || {
+      priorAuthorizationId: key,
+      authNumber: short ? short.authNumber : null,
+      requestedUnits: 0,
+      remainingUnits: short ? short.remainingUnits : 0
+    };
+    shortfall.requestedUnits += 1;
+    shortfalls.set(key, shortfall);
+  });
+
+  return Array.from(shortfalls.values());
+}
+
+/**
+ * Service that tracks the prior authorizations of service items and the units bookings use
+ */
+export class PriorAuthorizationService implements IPriorAuthorizationService {
+  /**
+   * Creates a new PriorAuthorizationService instance with required dependencies
+   * @param priorAuthorizationRepository
+   * @param servicesPlanRepository
+   * @param bookingRepository - Counts the units booked against authorizations
+   * @param documentRepository - Looks up attached documents
+   * @param caseManagerProfileRepository - Finds the case managers to alert
+   * @param notificationService
+   * @param auditService - Records overrides in the audit trail
+   */
+  constructor(
+    private priorAuthorizationRepository: PriorAuthorizationRepository,
+    private servicesPlanRepository: ServicesPlanRepository,
+    private bookingRepository: BookingRepository,
+    private documentRepository: DocumentRepository,
+    private caseManagerProfileRepository: CaseManagerProfileRepository,
+    private notificationService: NotificationService,
+    private auditService: IAuditService
+  ) {
+    this.priorAuthorizationRepository = priorAuthorizationRepository;
+    this.servicesPlanRepository = servicesPlanRepository;
+    this.bookingRepository = bookingRepository;
+    this.documentRepository = documentRepository;
+    this.caseManagerProfileRepository = caseManagerProfileRepository;
+    this.notificationService = notificationService;
+    this.auditService = auditService;
+  }
+
+  /**
+   * Lists the prior authorizations of a services plan
+   * @param servicesPlanId
+   * @returns The authorizations with the units used
+   */
+  async listPriorAuthorizations(servicesPlanId: string): Promise<PriorAuthorizationSummary[]> {
+    await this.getServicesPlan(servicesPlanId);
+
+    const authorizations = await this.priorAuthorizationRepository.findByServicesPlanId(servicesPlanId);
+
+    return Promise.all(authorizations.map(authorization => this.summarize(authorization)));
+  }
+
+  /**
+   * Retrieves a prior authorization of a services plan
+   * @param servicesPlanId
+   * @param id
+   * @returns The authorization with the units used
+   */
+  async getPriorAuthorization(servicesPlanId: string, id: string): Promise<PriorAuthorizationSummary> {
+    return this.summarize(await this.getAuthorization(servicesPlanId, id));
+  }
+
+  /**
+   * Records a prior authorization
+   * @param servicesPlanId
+   * @param data
+   * @param userId
+   * @returns The recorded authorization
+   */
+  async createPriorAuthorization(
+    servicesPlanId: string,
+    data: CreatePriorAuthorizationDTO,
+    userId: string
+  ): Promise<PriorAuthorizationSummary> {
+    const servicesPlan = await this.getServicesPlan(servicesPlanId);
+
+    if (!servicesPlan.serviceItems.some(item => item.id === data.serviceItemId)) {
+      throw errorFactory.createValidationError('Service item does not belong to this services plan', {
+        servicesPlanId,
+        serviceItemId: data.serviceItemId
+      });
+    }
+
+    if (!servicesPlan.fundingSources.some(source => source.id === data.fundingSourceId)) {
+      throw errorFactory.createValidationError('Funding source does not belong to this services plan', {
+        servicesPlanId,
+        fundingSourceId: data.fundingSourceId
+      });
+    }
+
+    const settings: PriorAuthorizationSettings = {
+      authNumber: data.authNumber,
+      approvedUnits: data.approvedUnits,
+      startDate: data.startDate,
+      endDate: data.endDate,
+      status: data.status ?? PriorAuthorizationStatus.PENDING,
+      documentIds: data.documentIds ?? [],
+      notes: data.notes ?? null
+    };
+
+    await this.validateSettings(settings);
+
+    const authorization = await this.priorAuthorizationRepository.create({
+      ...settings,
+      servicesPlanId,
+      serviceItemId: data.serviceItemId,
+      fundingSourceId: data.fundingSourceId,
+      createdById: userId
+    });
+
+    logger.info('Prior authorization recorded', {
+      priorAuthorizationId: authorization.id,
+      serviceItemId: authorization.serviceItemId,
+      userId
+    });
+
+    return this.summarize(authorization);
+  }
+
+  /**
+   * Changes a prior authorization. Fields left out keep their current values, and alerts
+   * are sent again if a change to the approved units or end date calls for them.
+   * @param servicesPlanId
+   * @param id
+   * @param data
+   * @returns The updated authorization
+   */
+  async updatePriorAuthorization(
+    servicesPlanId: string,
+    id: string,
+    data: UpdatePriorAuthorizationDTO
+  ): Promise<PriorAuthorizationSummary> {
+    const current = await this.getAuthorization(servicesPlanId, id);
+    const settings: PriorAuthorizationSettings = {
+      authNumber: data.authNumber ?? current.authNumber,
+      approvedUnits: data.approvedUnits ?? current.approvedUnits,
+      startDate: data.startDate ?? current.startDate,
+      endDate: data.endDate ?? current.endDate,
+      status: data.status ?? current.status,
+      documentIds: data.documentIds ?? current.documentIds,
+      notes: data.notes !== undefined ? data.notes : current.notes
+    };
+
+    await this.validateSettings(settings);
+
+    const authorization = await this.priorAuthorizationRepository.update(id, {
+      ...settings,
+      lowUnitsAlertedAt: settings.approvedUnits === current.approvedUnits ? current.lowUnitsAlertedAt : null,
+      expiryAlertedAt: settings.endDate === current.endDate ? current.expiryAlertedAt : null
+    });
+
+    logger.info('Prior authorization updated', { priorAuthorizationId: id, status: authorization.status });
+
+    return this.summarize(authorization);
+  }
+
+  /**
+   * Checks whether new bookings against a service item stay within its authorized units.
+   * Service items without any prior authorization on record do not require one.
+   * @param serviceItemId
+   * @param startTimes
+   * @param excludedBookingIds - Bookings whose units are released, e.g. ones being rescheduled
+   * @returns The check
+   */
+  async checkAuthorizedUnits(
+    serviceItemId: string,
+    startTimes: Date[],
+    excludedBookingIds: string[] = []
+  ): Promise<PriorAuthorizationCheck> {
+    const authorizations = await this.priorAuthorizationRepository.findByServiceItemId(serviceItemId);
+
+    if (authorizations.length === 0) {
+      return { required: false, authorized: true, shortfalls: [] };
+    }
+
+    const approved = await Promise.all(
+      authorizations
+        .filter(authorization => authorization.status === PriorAuthorizationStatus.APPROVED)
+        .map(authorization => this.summarize(authorization, toIsoDate(new Date()), excludedBookingIds))
+    );
+    const shortfalls = allocateAuthorizedUnits(approved, startTimes.map(toIsoDate));
+
+    return { required: true, authorized: shortfalls.length === 0, shortfalls };
+  }
+
+  /**
+   * Records an override of the authorized units check in the audit trail
+   * @param serviceItemId
+   * @param check
+   * @param reason
+   * @param userId
+   * @param userRole
+   */
+  async recordOverride(
+    serviceItemId: string,
+    check: PriorAuthorizationCheck,
+    reason: string,
+    userId: string,
+    userRole: string
+  ): Promise<void> {
+    const serviceItem = await this.servicesPlanRepository.findServiceItemById(serviceItemId);
+
+    await this.auditService.record({
+      actorId: userId,
+      actorRole: userRole,
+      action: AuditAction.UPDATE,
+      resourceType: AuditResourceType.SERVICES_PLAN,
+      resourceId: serviceItem ? serviceItem.servicesPlanId : null,
+      metadata: { priorAuthorizationOverride: { serviceItemId, reason, shortfalls: check.shortfalls } }
+    });
+
+    logger.warn('Prior authorization units check overridden', { serviceItemId, userId, shortfalls: check.shortfalls });
+  }
+
+  /**
+   * Alerts case managers to the service item's current approved authorizations that are
+   * low on units, once for each authorization
+   * @param serviceItemId
+   */
+  async alertOnUnitsUsed(serviceItemId: string): Promise<void> {
+    const today = toIsoDate(new Date());
+    const authorizations = await this.priorAuthorizationRepository.findByServiceItemId(serviceItemId);
+
+    for (const authorization of authorizations) {
+      if (
+        authorization.status !== PriorAuthorizationStatus.APPROVED ||
+        authorization.endDate < today ||
+        authorization.lowUnitsAlertedAt
+      ) {
+        continue;
+      }
+
+      const summary = await this.summarize(authorization, today);
+      if (summary.alerts.includes(PriorAuthorizationAlert.LOW_UNITS)) {
+        await this.alert(summary, [PriorAuthorizationAlert.LOW_UNITS]);
+      }
+    }
+  }
+
+  /**
+   * Alerts case managers to current authorizations that are low on units or end soon
+   * @returns The number of authorizations alerted on
+   */
+  async sendAlerts(): Promise<number> {
+    const today = toIsoDate(new Date());
+    const authorizations = await this.priorAuthorizationRepository.findApprovedCurrent(today);
+    let alerted = 0;
+
+    for (const authorization of authorizations) {
+      const summary = await this.summarize(authorization, today);
+      const alerts = summary.alerts.filter(alert =>
+        (alert === PriorAuthorizationAlert.LOW_UNITS && !authorization.lowUnitsAlertedAt) ||
+        (alert === PriorAuthorizationAlert.EXPIRING && !authorization.expiryAlertedAt)
+      );
+
+      if (alerts.length > 0) {
+        await this.alert(summary, alerts);
+        alerted += 1;
+      }
+    }
+
+    return alerted;
+  }
+
+  /**
+   * Retrieves a services plan
+   * @param servicesPlanId
+   * @returns The services plan
+   */
+  private async getServicesPlan(servicesPlanId: string): Promise<ServicesPlan> {
+    const servicesPlan = await this.servicesPlanRepository.findById(servicesPlanId);
+    if (!servicesPlan) {
+      throw errorFactory.createNotFoundError('Services plan not found', { servicesPlanId });
+    }
+
+    return servicesPlan;
+  }
+
+  /**
+   * Retrieves a prior authorization of a services plan
+   * @param servicesPlanId
+   * @param id
+   * @returns The prior authorization
+   */
+  private async getAuthorization(servicesPlanId: string, id: string): Promise<PriorAuthorization> {
+    const authorization = await this.priorAuthorizationRepository.findById(id);
+    if (!authorization || authorization.servicesPlanId !== servicesPlanId) {
+      throw errorFactory.createNotFoundError('Prior authorization not found', { servicesPlanId, priorAuthorizationId: id });
+    }
+
+    return authorization;
+  }
+
+  /**
+   * Checks the dates of a prior authorization and that its attached documents exist
+   * @param settings
+   */
+  private async validateSettings(settings: PriorAuthorizationSettings): Promise<void> {
+    if (settings.endDate < settings.startDate) {
+      throw errorFactory.createValidationError('End date must not be before the start date', {
+        startDate: settings.startDate,
+        endDate: settings.endDate
+      });
+    }
+
+    const documents = await Promise.all(settings.documentIds.map(documentId => this.documentRepository.findById(documentId)));
+    const missing = settings.documentIds.filter((_documentId, index) => !documents[index]);
+
+    if (missing.length > 0) {
+      throw errorFactory.createValidationError('Attached documents not found', { documentIds: missing });
+    }
+  }
+
+  /**
+   * Summarizes a prior authorization with the units booked within its dates
+   * @param authorization
+   * @param today - Today's ISO date; defaults to today
+   * @param excludedBookingIds - Bookings not to count as used
+   * @returns The summary
+   */
+  private async summarize(
+    authorization: PriorAuthorization,
+    today: string = toIsoDate(new Date()),
+    excludedBookingIds: string[] = []
+  ): Promise<PriorAuthorizationSummary> {
+    const usedUnits = await this.bookingRepository.countUnitsBookedBetween(
+      authorization.serviceItemId,
+      new Date(`${authorization.startDate}T00:00:00.000Z`),
+      new Date(Date.parse(`${authorization.endDate}T00:00:00.000Z`) + MS_PER_DAY),
+      excludedBookingIds
+    );
+
+    return summarizePriorAuthorization(authorization, usedUnits, today);
+  }
+
+  /**
+   * Alerts the client's case managers to a prior authorization and records the alerts sent
+   * @param summary - The authorization
+   * @param alerts - The conditions to alert to
+   */
+  private async alert(summary: PriorAuthorizationSummary, alerts: PriorAuthorizationAlert[]): Promise<void> {
+    try {
+      const servicesPlan = await this.servicesPlanRepository.findById(summary.servicesPlanId, false, false);
+      const caseManagers = servicesPlan
+        ? await this.caseManagerProfileRepository.findByAssignedClient(servicesPlan.clientId)
+        : [];
+
+      if (caseManagers.length === 0) {
+        logger.warn('No case manager to alert to prior authorization', { priorAuthorizationId: summary.id });
+      }
+
+      const lowUnits = alerts.includes(PriorAuthorizationAlert.LOW_UNITS);
+      const expiring = alerts.includes(PriorAuthorizationAlert.EXPIRING);
+      const conditions = [
+        lowUnits ? `${summary.remainingUnits} of ${summary.approvedUnits} units remain` : null,
+        expiring ? `it ends on ${summary.endDate}` : null
+      ].filter(condition => condition !== null).join(' and ');
+
+      for (const caseManager of caseManagers) {
+        const notification = await this.notificationService.createNotification({
+          userId: caseManager.userId,
+          type: lowUnits ? NOTIFICATION_TYPES.PRIOR_AUTHORIZATION_LOW_UNITS : NOTIFICATION_TYPES.PRIOR_AUTHORIZATION_EXPIRING,
+          title: lowUnits ? 'Prior authorization running low' : 'Prior authorization ending soon',
+          message: `Prior authorization ${summary.authNumber} for a client's service needs attention: ${conditions}. Request a renewal from the payer so that services are not interrupted.`,
+          data: {
+            priorAuthorizationId: summary.id,
+            servicesPlanId: summary.servicesPlanId,
+            serviceItemId: summary.serviceItemId,
+            remainingUnits: summary.remainingUnits,
+            endDate: summary.endDate,
+            alerts
+          },
+          priority: NOTIFICATION_PRIORITIES.HIGH
+        });
+
+        await this.notificationService.sendNotification(notification);
+      }
+
+      const alertedAt = new Date();
+      await this.priorAuthorizationRepository.markAlerted(summary.id, {
+        ...(lowUnits ? { lowUnitsAlertedAt: alertedAt } : {}),
+        ...(expiring ? { expiryAlertedAt: alertedAt } : {})
+      });
+    } catch (error) {
+      // Alerts are shown on the authorization itself, so notification failures should not fail the caller
+      logger.error('Error alerting to prior authorization', { priorAuthorizationId: summary.id, error });
+    }
+  }
+}
+
+/**
+ * Factory function to create a configured PriorAuthorizationService instance with required dependencies
+ * @returns A PriorAuthorizationService instance
+ */
+export const createPriorAuthorizationService = (): PriorAuthorizationService => {
+  return new PriorAuthorizationService(
+    new PriorAuthorizationRepository(),
+    new ServicesPlanRepository(),
+    new BookingRepository(new ProviderAvailabilityRepository()),
+    new DocumentRepository(),
+    new CaseManagerProfileRepository(),
+    new NotificationService(new NotificationRepository(), new UserRepository(), new EmailService()),
+    createAuditService()
+  );
+};
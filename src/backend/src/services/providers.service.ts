@@ -4,11 +4,16 @@ import {
   AvailabilityOptions,
   ReviewOptions,
   CalendarSyncResult,
+  IMatchFeedbackService,
 } from '../interfaces/provider.interface';
+import { IWaitlistService } from '../interfaces/waitlist.interface';
+import { CaseManagerProfileRepository } from '../repositories/case-manager-profile.repository';
 import { ProviderProfileRepository } from '../repositories/provider-profile.repository';
 import { ProviderAvailabilityRepository } from '../repositories/provider-availability.repository';
-import { ProviderMatchingService } from './ai/provider-matching.service';
+import providerMatchingService, { ProviderMatchingService } from './ai/provider-matching.service';
 import { CalendarIntegrationService } from './calendar/calendar-integration.service';
+import { createMatchFeedbackService } from './match-feedback.service';
+import { createWaitlistService } from './waitlist.service';
 import {
   ProviderProfile,
   Availability,
@@ -25,6 +30,7 @@ import {
 } from '../types/provider.types';
 import { PaginatedResponse } from '../types/response.types';
 import { ServiceType } from '../constants/service-types';
+import { Roles } from '../constants/roles';
 import { ProviderServiceOptions, AvailabilityOptions, ReviewOptions, CalendarSyncResult } from '../interfaces/provider.interface'; // Ensure these are correctly imported
 import { errorFactory } from '../utils/error-handler';
 import { logger } from '../utils/logger';
@@ -40,18 +46,26 @@ export class ProvidersService implements IProviderService {
    * @param availabilityRepository
    * @param providerMatchingService
    * @param calendarService
+   * @param matchFeedbackService - Links new reviews to the matches that led to them
+   * @param waitlistService - Offers newly opened availability to waitlisted clients
    */
   constructor(
     private providerRepository: ProviderProfileRepository,
     private availabilityRepository: ProviderAvailabilityRepository,
     private providerMatchingService: ProviderMatchingService,
-    private calendarService: CalendarIntegrationService
+    private calendarService: CalendarIntegrationService,
+    private matchFeedbackService?: IMatchFeedbackService,
+    private waitlistService?: IWaitlistService,
+    private caseManagerProfileRepository: CaseManagerProfileRepository = new CaseManagerProfileRepository()
   ) {
     // Store the provided repositories and services as instance properties
     this.providerRepository = providerRepository;
     this.availabilityRepository = availabilityRepository;
     this.providerMatchingService = providerMatchingService;
     this.calendarService = calendarService;
+    this.matchFeedbackService = matchFeedbackService;
+    this.waitlistService = waitlistService;
+    this.caseManagerProfileRepository = caseManagerProfileRepository;
     // Initialize the service with dependencies
   }
 
@@ -87,6 +101,11 @@ export class ProvidersService implements IProviderService {
     // Call providerRepository.update with the validated update data
     const updatedProviderProfile = await this.providerRepository.update(providerId, updateData);
 
+    // Cached availability carries the timezone its schedule is read in
+    if (updateData.timezone !== undefined) {
+      await this.availabilityRepository.invalidateCache(updatedProviderProfile.userId);
+    }
+
     // Return the updated provider profile
     return updatedProviderProfile;
   }
@@ -123,6 +142,19 @@ export class ProvidersService implements IProviderService {
     // Call availabilityRepository.update with the validated update data
     const updatedAvailability = await this.availabilityRepository.update(providerId, updateData);
 
+    // Offer any capacity the update opened up to waitlisted clients
+    if (this.waitlistService) {
+      try {
+        await this.waitlistService.offerOpenSlots(providerId);
+      } catch (error) {
+        // Waitlist offers should not fail the availability update
+        logger.error('Error offering updated availability to waitlist', {
+          providerId,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+
     // Return the updated availability data
     return updatedAvailability;
   }
@@ -145,9 +177,15 @@ export class ProvidersService implements IProviderService {
   /**
    * Matches providers to a client based on specified criteria using AI
    * @param criteria - The matching criteria
+   * @param userId - The ID of the user requesting the matches
+   * @param userRole - The role of the user requesting the matches
    * @returns Array of matched providers with compatibility scores
    */
-  async matchProviders(criteria: ProviderMatchingCriteria): Promise<ProviderMatch[]> {
+  async matchProviders(criteria: ProviderMatchingCriteria, userId: string, userRole: string): Promise<ProviderMatch[]> {
+    if (!(await this.canMatchForClient(criteria.clientId, userId, userRole))) {
+      throw errorFactory.createForbiddenError('You do not have permission to match providers for this client');
+    }
+
     logger.info(`Matching providers with criteria: ${JSON.stringify(criteria)}`);
 
     // Call providerMatchingService.matchProviders with the validated criteria
@@ -184,6 +222,19 @@ export class ProvidersService implements IProviderService {
     // Create the review record in the database
     const newReview = await this.providerRepository.submitReview(reviewData);
 
+    // Link the review to the accepted or overridden match that led to it, if any
+    if (this.matchFeedbackService) {
+      try {
+        await this.matchFeedbackService.linkReview(newReview.id, newReview.clientId, newReview.providerId);
+      } catch (error) {
+        // Match feedback is used to tune matching and should not fail the review submission
+        logger.error('Error linking review to match feedback', {
+          reviewId: newReview.id,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+
     // Return the created review
     return newReview;
   }
@@ -289,4 +340,40 @@ export class ProvidersService implements IProviderService {
     // Return the provider profile
     return provider;
   }
-}
\ No newline at end of file
+
+  /**
+   * Checks whether a user may match providers for a client: administrators, the client
+   * themselves, or a case manager the client is assigned to
+   * @param clientId - The ID of the client
+   * @param userId - The ID of the user
+   * @param userRole - The role of the user
+   * @returns True if the user may match providers for the client
+   */
+  private async canMatchForClient(clientId: string, userId: string, userRole: string): Promise<boolean> {
+    switch (userRole) {
+      case Roles.ADMINISTRATOR:
+        return true;
+      case Roles.CLIENT:
+        return clientId === userId;
+      case Roles.CASE_MANAGER: {
+        const profile = await this.caseManagerProfileRepository.findByUserId(userId);
+        return (profile?.assignedClients || []).includes(clientId);
+      }
+      default:
+        return false;
+    }
+  }
+}
+
+// Factory function to create a configured ProvidersService instance with required dependencies.
+// The calendar service is passed in so this module does not load the calendar provider SDKs.
+export const createProvidersService = (calendarService: CalendarIntegrationService): ProvidersService => {
+  return new ProvidersService(
+    new ProviderProfileRepository(),
+    new ProviderAvailabilityRepository(),
+    providerMatchingService,
+    calendarService,
+    createMatchFeedbackService(),
+    createWaitlistService()
+  );
+};
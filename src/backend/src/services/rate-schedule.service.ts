@@ -0,0 +1,311 @@
+import { IRateScheduleService } from '../interfaces/rate-schedule.interface';
+import {
+  AppliedRate,
+  CreateRateScheduleDTO,
+  RateLookup,
+  RateSchedule,
+  RateScheduleFilters,
+  RateScheduleSettings,
+  RateUnit,
+  UpdateRateScheduleDTO
+} from '../types/rate-schedule.types';
+import { FundingSource, ServicesPlan } from '../types/services-plan.types';
+import { RateScheduleRepository } from '../repositories/rate-schedule.repository';
+import { ClientProfileRepository } from '../repositories/client-profile.repository';
+import { FundingSourceType } from '../models/funding-source.model';
+import { DefaultServiceDurations, ServiceType } from '../constants/service-types';
+import { ErrorCodes } from '../constants/error-codes';
+import { errorFactory } from '../utils/error-handler';
+import { logger } from '../utils/logger';
+
+/**
+ * Checks whether a rate schedule is in effect on a date
+ * @param schedule - The rate schedule
+ * @param date - ISO date
+ * @returns True if the date falls within the schedule's effective dates
+ */
+function isInEffect(schedule: RateScheduleSettings, date: string): boolean {
+  return schedule.effectiveFrom <= date && (schedule.effectiveTo === null || schedule.effectiveTo >= date);
+}
+
+/**
+ * Ranks how specific a rate schedule is. A provider's own rate beats a funding source's
+ * fee schedule, which beats a regional rate.
+ * @param schedule - The rate schedule
+ * @returns Higher for more specific schedules
+ */
+function specificity(schedule: RateScheduleSettings): number {
+  return (schedule.providerId !== null ? 4 : 0) +
+    (schedule.fundingSourceType !== null ? 2 : 0) +
+    (schedule.region !== null ? 1 : 0);
+}
+
+/**
+ * Picks the rate schedule that applies to a service: of the schedules in effect whose
+ * scope matches, the most specific, and of those the most recently effective
+ * @param candidates - Schedules that may apply
+ * @param lookup - What the service is delivered under
+ * @returns The applicable schedule, or null if none applies
+ */
+export function selectRateSchedule(candidates: RateSchedule[], lookup: RateLookup): RateSchedule | null {
+  const applicable = candidates.filter(schedule =>
+    schedule.serviceType === lookup.serviceType &&
+    (schedule.fundingSourceType === null || schedule.fundingSourceType === lookup.fundingSourceType) &&
+    (schedule.region === null || schedule.region === lookup.region) &&
+    (schedule.providerId === null || schedule.providerId === lookup.providerId) &&
+    isInEffect(schedule, lookup.date)
+  );
+
+  applicable.sort((a, b) =>
+    specificity(b) - specificity(a) || b.effectiveFrom.localeCompare(a.effectiveFrom)
+  );
+
+  return applicable[0] || null;
+}
+
+/**
+ * Counts the rate units billed for one visit of a service. A visit lasts the item's own
+ * session length, or the service type's default duration when the item has none.
+ * @param unit - Unit the rate is charged per
+ * @param serviceType - The service type
+ * @param sessionMinutes - Session length of the service item, if known
+ * @returns Rate units per visit
+ */
+export function billedUnitsPerVisit(unit: RateUnit, serviceType: ServiceType, sessionMinutes: number | null = null): number {
+  const minutes = sessionMinutes ?? DefaultServiceDurations[serviceType];
+
+  // Time-based units are billed in whole quarter hours, rounding up
+  switch (unit) {
+    case RateUnit.PER_15_MINUTES:
+      return Math.ceil(minutes / 15);
+    case RateUnit.PER_HOUR:
+      return Math.ceil(minutes / 15) / 4;
+    default:
+      return 1;
+  }
+}
+
+/**
+ * Prices one visit of a service at a rate schedule
+ * @param schedule - The rate schedule
+ * @param sessionMinutes - Session length of the service item, if known
+ * @returns The applied rate with the cost per visit
+ */
+export function applyRate(schedule: RateSchedule, sessionMinutes: number | null = null): AppliedRate {
+  const billedUnits = billedUnitsPerVisit(schedule.unit, schedule.serviceType, sessionMinutes);
+
+  return {
+    rateScheduleId: schedule.id,
+    fundingSourceType: schedule.fundingSourceType,
+    region: schedule.region,
+    providerId: schedule.providerId,
+    unit: schedule.unit,
+    rate: schedule.rate,
+    effectiveFrom: schedule.effectiveFrom,
+    effectiveTo: schedule.effectiveTo,
+    billedUnitsPerVisit: billedUnits,
+    costPerVisit: Math.round(schedule.rate * billedUnits * 100) / 100
+  };
+}
+
+/**
+ * Picks the funding source type a services plan is priced for: that of the source
+ * covering the largest amount, or private pay if the plan has no funding sources
+ * @param fundingSources - The plan's funding sources
+ * @returns The funding source type
+ */
+function primaryFundingSourceType(fundingSources: FundingSource[]): FundingSourceType {
+  const primary = fundingSources.reduce<FundingSource | null>(
+    (largest, source) => (!largest || source.coverageAmount > largest.coverageAmount ? source : largest),
+    null
+  );
+
+  if (!primary) {
+    return FundingSourceType.PRIVATE_PAY;
+  }
+
+  return Object.values(FundingSourceType).includes(primary.type as FundingSourceType)
+    ? primary.type as FundingSourceType
+    : FundingSourceType.OTHER;
+}
+
+/**
+ * Service that maintains the fee tables used to price services plans
+ */
+export class RateScheduleService implements IRateScheduleService {
+  /**
+   * Creates a new RateScheduleService instance with required dependencies
+   * @param rateScheduleRepository
+   * @param clientProfileRepository - Looks up the region clients live in
+   */
+  constructor(
+    private rateScheduleRepository: RateScheduleRepository,
+    private clientProfileRepository: ClientProfileRepository
+  ) {
+    this.rateScheduleRepository = rateScheduleRepository;
+    this.clientProfileRepository = clientProfileRepository;
+  }
+
+  /**
+   * Lists rate schedules
+   * @param filters
+   * @returns The matching schedules
+   */
+  listRateSchedules(filters: RateScheduleFilters): Promise<RateSchedule[]> {
+    return this.rateScheduleRepository.findAll(filters);
+  }
+
+  /**
+   * Retrieves a rate schedule
+   * @param id
+   * @returns The rate schedule
+   */
+  async getRateSchedule(id: string): Promise<RateSchedule> {
+    const schedule = await this.rateScheduleRepository.findById(id);
+    if (!schedule) {
+      throw errorFactory.createNotFoundError('Rate schedule not found', { rateScheduleId: id });
+    }
+
+    return schedule;
+  }
+
+  /**
+   * Creates a rate schedule
+   * @param data
+   * @param userId
+   * @returns The created rate schedule
+   */
+  async createRateSchedule(data: CreateRateScheduleDTO, userId: string): Promise<RateSchedule> {
+    const settings: RateScheduleSettings = {
+      ...data,
+      fundingSourceType: data.fundingSourceType ?? null,
+      region: data.region ?? null,
+      providerId: data.providerId ?? null,
+      effectiveTo: data.effectiveTo ?? null
+    };
+
+    await this.assertNoOverlap(settings, null);
+
+    const schedule = await this.rateScheduleRepository.create(settings, userId);
+
+    logger.info('Rate schedule created', { rateScheduleId: schedule.id, serviceType: schedule.serviceType, userId });
+
+    return schedule;
+  }
+
+  /**
+   * Changes a rate schedule. Fields left out keep their current values.
+   * @param id
+   * @param data
+   * @returns The updated rate schedule
+   */
+  async updateRateSchedule(id: string, data: UpdateRateScheduleDTO): Promise<RateSchedule> {
+    const { id: _id, createdById: _createdById, createdAt: _createdAt, updatedAt: _updatedAt, ...current } =
+      await this.getRateSchedule(id);
+    const settings: RateScheduleSettings = { ...current, ...data };
+
+    if (settings.effectiveTo !== null && settings.effectiveTo < settings.effectiveFrom) {
+      throw errorFactory.createValidationError('Effective to date must not be before the effective from date', {
+        effectiveFrom: settings.effectiveFrom,
+        effectiveTo: settings.effectiveTo
+      });
+    }
+
+    await this.assertNoOverlap(settings, id);
+
+    const schedule = await this.rateScheduleRepository.update(id, settings);
+
+    logger.info('Rate schedule updated', { rateScheduleId: id });
+
+    return schedule;
+  }
+
+  /**
+   * Deletes a rate schedule
+   * @param id
+   */
+  async deleteRateSchedule(id: string): Promise<void> {
+    await this.getRateSchedule(id);
+
+    await this.rateScheduleRepository.delete(id);
+
+    logger.info('Rate schedule deleted', { rateScheduleId: id });
+  }
+
+  /**
+   * Finds the rate that applies to each item of a services plan. Items are priced as of
+   * the date their cadence starts, or today if it has no start date, and per session of
+   * the length their cadence gives.
+   * @param servicesPlan
+   * @returns Applied rates keyed by service item ID
+   */
+  async resolveRates(servicesPlan: ServicesPlan): Promise<Record<string, AppliedRate>> {
+    if (servicesPlan.serviceItems.length === 0) {
+      return {};
+    }
+
+    const fundingSourceType = primaryFundingSourceType(servicesPlan.fundingSources);
+    const clientProfile = await this.clientProfileRepository.findByUserId(servicesPlan.clientId);
+    const region = clientProfile?.address?.state ? clientProfile.address.state.toUpperCase() : null;
+
+    const candidates = await this.rateScheduleRepository.findCandidates(
+      Array.from(new Set(servicesPlan.serviceItems.map(item => item.serviceType))),
+      fundingSourceType,
+      region,
+      servicesPlan.serviceItems
+        .map(item => item.providerId)
+        .filter((providerId): providerId is string => providerId !== null)
+    );
+
+    const today = new Date().toISOString().slice(0, 10);
+    const rates: Record<string, AppliedRate> = {};
+
+    servicesPlan.serviceItems.forEach(item => {
+      const schedule = selectRateSchedule(candidates, {
+        serviceType: item.serviceType,
+        fundingSourceType,
+        region,
+        providerId: item.providerId,
+        date: item.cadence?.startDate || today
+      });
+
+      if (schedule) {
+        rates[item.id] = applyRate(schedule, item.cadence?.sessionMinutes ?? null);
+      }
+    });
+
+    return rates;
+  }
+
+  /**
+   * Rejects a rate schedule whose effective dates overlap another schedule with the same
+   * scope, as the two would compete to price the same services
+   * @param settings - The schedule being saved
+   * @param id - ID of the schedule being changed, or null for a new schedule
+   */
+  private async assertNoOverlap(settings: RateScheduleSettings, id: string | null): Promise<void> {
+    const sameScope = await this.rateScheduleRepository.findSameScope(settings);
+
+    const overlapping = sameScope.find(schedule =>
+      schedule.id !== id &&
+      (schedule.effectiveTo === null || schedule.effectiveTo >= settings.effectiveFrom) &&
+      (settings.effectiveTo === null || settings.effectiveTo >= schedule.effectiveFrom)
+    );
+
+    if (overlapping) {
+      throw errorFactory.createError(
+        'A rate schedule with the same scope is already in effect during these dates',
+        ErrorCodes.CONFLICT,
+        { rateScheduleId: overlapping.id, effectiveFrom: overlapping.effectiveFrom, effectiveTo: overlapping.effectiveTo }
+      );
+    }
+  }
+}
+
+/**
+ * Factory function to create a configured RateScheduleService instance with required dependencies
+ * @returns A RateScheduleService instance
+ */
+export const createRateScheduleService = (): RateScheduleService => {
+  return new RateScheduleService(new RateScheduleRepository(), new ClientProfileRepository());
+};
@@ -0,0 +1,364 @@
+import { Queue } from 'bull'; // bull@^4.10.0
+import { IReminderService } from '../interfaces/reminder.interface';
+import { IBookingService } from '../interfaces/booking.interface';
+import { WebhookPayload } from '../interfaces/external-service.interface';
+import { Booking, BookingStatus } from '../models/booking.model';
+import {
+  BookingReminder,
+  ReminderJobData,
+  ReminderResponse,
+  ReminderRule
+} from '../types/reminder.types';
+import { BookingReminderRepository } from '../repositories/booking-reminder.repository';
+import { BookingRepository } from '../repositories/booking.repository';
+import { ClientProfileRepository } from '../repositories/client-profile.repository';
+import { ProviderAvailabilityRepository } from '../repositories/provider-availability.repository';
+import { UserRepository } from '../repositories/user.repository';
+import { createBookingsService } from './bookings.service';
+import { EmailService } from './email/email.service';
+import { smsService } from './sms/sms.service';
+import { twilioService } from '../integrations/twilio';
+import { reminderRules } from '../config/reminders';
+import { ErrorCodes } from '../constants/error-codes';
+import { NOTIFICATION_CHANNELS, NOTIFICATION_TYPES } from '../constants/notification-types';
+import { Roles } from '../constants/roles';
+import { sendReminderJob } from '../queue/jobs/reminder.job';
+import { DEFAULT_TIMEZONE } from '../utils/date-time';
+import { errorFactory } from '../utils/error-handler';
+import { logger } from '../utils/logger';
+
+/**
+ * Replies that confirm or cancel the booking an SMS reminder was for. CANCEL and STOP are
+ * left out because Twilio treats them as opt-out keywords and unsubscribes the sender.
+ */
+const CONFIRM_REPLIES = ['C', 'Y', 'YES', 'CONFIRM'];
+const CANCEL_REPLIES = ['X', 'N', 'NO'];
+
+const SMS_CANCELLATION_REASON = 'Cancelled by the client in reply to an SMS reminder';
+
+/**
+ * Builds the ID of the queued job for one of a booking's reminders, so the job can be
+ * found again to remove it and is not queued twice
+ * @param bookingId - ID of the booking
+ * @param rule - The reminder rule
+ * @returns The job ID
+ */
+export const getReminderJobId = (bookingId: string, rule: ReminderRule): string =>
+  `reminder:${bookingId}:${rule.channel}:${rule.offsetMinutes}`;
+
+/**
+ * Reads what a client asked for in an SMS reply
+ * @param body - The text of the reply
+ * @returns The response, or null if the reply is not one the service understands
+ */
+export const parseSmsReply = (body: string): ReminderResponse | null => {
+  const reply = body.trim().toUpperCase().replace(/[^A-Z]/g, '');
+
+  if (CONFIRM_REPLIES.includes(reply)) {
+    return ReminderResponse.CONFIRMED;
+  }
+  if (CANCEL_REPLIES.includes(reply)) {
+    return ReminderResponse.CANCELLED;
+  }
+  return null;
+};
+
+/**
+ * Formats a booking's start as the date and time the client sees in their timezone
+ * @param startTime - When the booking starts
+ * @param timeZone - IANA timezone of the client
+ * @returns The date, e.g. "Mon, Jun 3", and time, e.g. "2:00 PM MDT"
+ */
+const formatAppointmentTime = (startTime: Date, timeZone: string): { date: string; time: string } => ({
+  date: new Intl.DateTimeFormat('en-US', { timeZone, weekday: 'short', month: 'short', day: 'numeric' })
+    .format(startTime),
+  time: new Intl.DateTimeFormat('en-US', { timeZone, hour: 'numeric', minute: '2-digit', timeZoneName: 'short' })
+    .format(startTime)
+});
+
+/**
+ * Service that reminds clients of their bookings and handles their SMS replies
+ */
+export class ReminderService implements IReminderService {
+  private bookingReminderRepository: BookingReminderRepository;
+  private bookingRepository: BookingRepository;
+  private clientProfileRepository: ClientProfileRepository;
+  private userRepository: UserRepository;
+  private bookingsService: IBookingService;
+  private emailService: EmailService;
+  private smsService: typeof smsService;
+  private twilioService: typeof twilioService;
+  private rules: ReminderRule[];
+  private queue: Queue | undefined;
+
+  /**
+   * Creates a new ReminderService instance
+   * @param bookingReminderRepository
+   * @param bookingRepository
+   * @param clientProfileRepository
+   * @param userRepository
+   * @param bookingsService
+   * @param emailService
+   * @param sms
+   * @param twilio
+   * @param rules - The reminder rules applied to every booking
+   * @param queue - The reminder queue, needed only to schedule and remove reminders
+   */
+  constructor(
+    bookingReminderRepository: BookingReminderRepository,
+    bookingRepository: BookingRepository,
+    clientProfileRepository: ClientProfileRepository,
+    userRepository: UserRepository,
+    bookingsService: IBookingService,
+    emailService: EmailService,
+    sms: typeof smsService,
+    twilio: typeof twilioService,
+    rules: ReminderRule[],
+    queue?: Queue
+  ) {
+    this.bookingReminderRepository = bookingReminderRepository;
+    this.bookingRepository = bookingRepository;
+    this.clientProfileRepository = clientProfileRepository;
+    this.userRepository = userRepository;
+    this.bookingsService = bookingsService;
+    this.emailService = emailService;
+    this.smsService = sms;
+    this.twilioService = twilio;
+    this.rules = rules;
+    this.queue = queue;
+  }
+
+  /**
+   * Queues the reminders for newly made bookings as delayed jobs
+   * @param bookingIds
+   * @returns The number of reminders queued
+   */
+  async scheduleReminders(bookingIds: string[]): Promise<number> {
+    const queue = this.getQueue();
+    const now = Date.now();
+    let queued = 0;
+
+    for (const bookingId of bookingIds) {
+      const booking = await this.bookingRepository.findById(bookingId);
+      if (!booking || booking.status !== BookingStatus.SCHEDULED) {
+        continue;
+      }
+
+      for (const rule of this.rules) {
+        const delay = new Date(booking.startTime).getTime() - rule.offsetMinutes * 60000 - now;
+
+        // A booking made at short notice skips the reminders it is already too late for
+        if (delay <= 0) {
+          continue;
+        }
+
+        const data: ReminderJobData = { bookingId, rule };
+        await queue.add(sendReminderJob.name, data, {
+          ...sendReminderJob.options,
+          delay,
+          jobId: getReminderJobId(bookingId, rule)
+        });
+        queued++;
+      }
+    }
+
+    logger.info('Queued appointment reminders', { bookingIds, queued });
+
+    return queued;
+  }
+
+  /**
+   * Removes the queued reminders of a booking. A reminder queued under rules that have
+   * since changed is not found here, but is not sent because the booking is no longer
+   * scheduled.
+   * @param bookingId
+   */
+  async cancelReminders(bookingId: string): Promise<void> {
+    const queue = this.getQueue();
+
+    for (const rule of this.rules) {
+      const job = await queue.getJob(getReminderJobId(bookingId, rule));
+
+      if (job) {
+        await job.remove();
+      }
+    }
+
+    logger.info('Removed appointment reminders', { bookingId });
+  }
+
+  /**
+   * Sends a queued reminder by email or SMS and records it
+   * @param data
+   * @returns True if the reminder was sent
+   */
+  async sendReminder(data: ReminderJobData): Promise<boolean> {
+    const { bookingId, rule } = data;
+
+    const booking = await this.bookingRepository.findById(bookingId);
+    if (!booking || booking.status !== BookingStatus.SCHEDULED || new Date(booking.startTime).getTime() <= Date.now()) {
+      logger.info('Skipping reminder for booking that is no longer scheduled', { bookingId, channel: rule.channel });
+      return false;
+    }
+
+    const [client, provider, profile] = await Promise.all([
+      this.userRepository.findById(booking.clientId),
+      this.userRepository.findById(booking.providerId),
+      this.clientProfileRepository.findByUserId(booking.clientId)
+    ]);
+
+    if (!client) {
+      logger.warn('Skipping reminder for booking whose client no longer exists', { bookingId });
+      return false;
+    }
+
+    const { date, time } = formatAppointmentTime(new Date(booking.startTime), profile?.timezone || DEFAULT_TIMEZONE);
+    const providerName = provider ? `${provider.firstName} ${provider.lastName}` : 'your provider';
+
+    let recipient: string;
+    if (rule.channel === NOTIFICATION_CHANNELS.SMS) {
+      if (!profile?.phone) {
+        logger.warn('Skipping SMS reminder for client without a phone number', { bookingId });
+        return false;
+      }
+
+      recipient = profile.phone;
+      const result = await this.smsService.sendNotification(recipient, NOTIFICATION_TYPES.APPOINTMENT_REMINDER, {
+        date,
+        time,
+        provider: providerName
+      });
+
+      if (!result.success) {
+        // Thrown so that the queue retries the reminder
+        throw errorFactory.createError('Failed to send SMS reminder', ErrorCodes.NOTIFICATION_ERROR, { bookingId, error: result.error });
+      }
+    } else {
+      recipient = client.email;
+      const results = await this.emailService.deliverNotification(
+        {
+          id: `${NOTIFICATION_TYPES.APPOINTMENT_REMINDER}-${booking.id}-${rule.offsetMinutes}`,
+          userId: client.id,
+          type: NOTIFICATION_TYPES.APPOINTMENT_REMINDER,
+          title: 'Appointment reminder',
+          message: `This is a reminder of your appointment on ${date} at ${time} with ${providerName}.`,
+          channels: [NOTIFICATION_CHANNELS.EMAIL],
+          data: { bookingId: booking.id, date, time, provider: providerName }
+        },
+        { recipient }
+      );
+
+      const failure = results.find(result => !result.success);
+      if (failure) {
+        throw errorFactory.createError('Failed to send email reminder', ErrorCodes.NOTIFICATION_ERROR, { bookingId, error: failure.error });
+      }
+    }
+
+    await this.bookingReminderRepository.create({
+      bookingId: booking.id,
+      clientId: booking.clientId,
+      channel: rule.channel,
+      recipient,
+      offsetMinutes: rule.offsetMinutes,
+      appointmentTime: new Date(booking.startTime),
+      sentAt: new Date()
+    });
+
+    logger.info('Sent appointment reminder', { bookingId, channel: rule.channel, offsetMinutes: rule.offsetMinutes });
+
+    return true;
+  }
+
+  /**
+   * Confirms or cancels the booking of the latest SMS reminder sent to the number a
+   * reply came from
+   * @param payload
+   * @returns The text to reply to the client with
+   */
+  async handleSmsReply(payload: WebhookPayload): Promise<string> {
+    const isValid = await this.twilioService.validateWebhook(payload);
+    if (!isValid) {
+      throw errorFactory.createUnauthorizedError('Invalid Twilio webhook signature');
+    }
+
+    const response = parseSmsReply(String(payload.body.Body || ''));
+    if (!response) {
+      return 'Reply C to confirm or X to cancel your upcoming Revolucare appointment.';
+    }
+
+    const now = new Date();
+    const reminder = await this.bookingReminderRepository.findLatestSmsReminder(String(payload.body.From || ''), now);
+    if (!reminder) {
+      return 'We could not find an upcoming Revolucare appointment for this number.';
+    }
+
+    const booking = await this.bookingRepository.findById(reminder.bookingId);
+    if (!booking || booking.status !== BookingStatus.SCHEDULED) {
+      return 'This appointment can no longer be changed by text. Please log in to Revolucare to manage it.';
+    }
+
+    return this.applyResponse(reminder, booking, response, now);
+  }
+
+  /**
+   * Confirms or cancels a booking as a client asked in reply to its reminder
+   * @param reminder - The reminder the client replied to
+   * @param booking - The booking the reminder was for
+   * @param response - What the client asked for
+   * @param now - When the reply arrived
+   * @returns The text to reply to the client with
+   */
+  private async applyResponse(
+    reminder: BookingReminder,
+    booking: Booking,
+    response: ReminderResponse,
+    now: Date
+  ): Promise<string> {
+    const profile = await this.clientProfileRepository.findByUserId(booking.clientId);
+    const { date, time } = formatAppointmentTime(new Date(booking.startTime), profile?.timezone || DEFAULT_TIMEZONE);
+
+    if (response === ReminderResponse.CONFIRMED) {
+      await this.bookingRepository.confirm(booking.id, now);
+    } else {
+      await this.bookingsService.cancelBooking(booking.id, SMS_CANCELLATION_REASON, booking.clientId, Roles.CLIENT);
+    }
+
+    await this.bookingReminderRepository.recordResponse(reminder.id, response, now);
+
+    logger.info('Client replied to SMS reminder', { bookingId: booking.id, response });
+
+    return response === ReminderResponse.CONFIRMED
+      ? `Thank you, your Revolucare appointment on ${date} at ${time} is confirmed.`
+      : `Your Revolucare appointment on ${date} at ${time} has been cancelled.`;
+  }
+
+  /**
+   * Returns the reminder queue
+   * @returns The queue
+   */
+  private getQueue(): Queue {
+    if (!this.queue) {
+      throw new Error('Reminder service was created without a queue to schedule reminders in');
+    }
+    return this.queue;
+  }
+}
+
+/**
+ * Creates a ReminderService with its default dependencies
+ * @param queue - The reminder queue, when the service is used to schedule or remove reminders
+ * @returns ReminderService instance
+ */
+export const createReminderService = (queue?: Queue): ReminderService =>
+  new ReminderService(
+    new BookingReminderRepository(),
+    new BookingRepository(new ProviderAvailabilityRepository()),
+    new ClientProfileRepository(),
+    new UserRepository(),
+    createBookingsService(),
+    new EmailService(),
+    smsService,
+    twilioService,
+    reminderRules,
+    queue
+  );
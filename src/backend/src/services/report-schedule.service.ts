@@ -0,0 +1,417 @@
+import { Queue } from 'bull'; // bull@^4.10.0
+import { IAnalyticsService, IReportScheduleService } from '../interfaces/analytics.interface';
+import {
+  CreateReportScheduleDTO,
+  ReportSchedule,
+  ReportScheduleFrequency,
+  ScheduledReportJobData,
+  UpdateReportScheduleDTO
+} from '../types/analytics.types';
+import { AnalyticsService } from './analytics.service';
+import { EmailService } from './email/email.service';
+import { AnalyticsRepository } from '../repositories/analytics.repository';
+import { ReportScheduleRepository, ReportScheduleUpdate } from '../repositories/report-schedule.repository';
+import { deliverScheduledReportJob } from '../queue/jobs/analytics.job';
+import { NOTIFICATION_CHANNELS } from '../constants/notification-types';
+import { Roles } from '../constants/roles';
+import { errorFactory } from '../utils/error-handler';
+import { logger } from '../utils/logger';
+
+// Notification type used for scheduled report emails, which have no SendGrid template
+const SCHEDULED_REPORT_NOTIFICATION_TYPE = 'scheduled_report';
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Timing fields of a report schedule
+ */
+type ScheduleTiming = Pick<ReportSchedule, 'frequency' | 'dayOfWeek' | 'dayOfMonth' | 'hour'>;
+
+/**
+ * Calculates the first delivery of a schedule strictly after the given time. Schedules
+ * run in UTC; quarterly schedules run in January, April, July and October.
+ * @param timing
+ * @param after
+ * @returns The next delivery time
+ */
+export const calculateNextRunAt = (timing: ScheduleTiming, after: Date): Date => {
+  const year = after.getUTCFullYear();
+  const month = after.getUTCMonth();
+
+  switch (timing.frequency) {
+    case 'weekly': {
+      const candidate = new Date(Date.UTC(year, month, after.getUTCDate(), timing.hour));
+      const daysAhead = ((timing.dayOfWeek ?? 0) - candidate.getUTCDay() + 7) % 7;
+      candidate.setUTCDate(candidate.getUTCDate() + daysAhead);
+      if (candidate <= after) {
+        candidate.setUTCDate(candidate.getUTCDate() + 7);
+      }
+      return candidate;
+    }
+    case 'monthly': {
+      const candidate = new Date(Date.UTC(year, month, timing.dayOfMonth ?? 1, timing.hour));
+      return candidate > after
+        ? candidate
+        : new Date(Date.UTC(year, month + 1, timing.dayOfMonth ?? 1, timing.hour));
+    }
+    case 'quarterly': {
+      const quarterMonth = Math.floor(month / 3) * 3;
+      const candidate = new Date(Date.UTC(year, quarterMonth, timing.dayOfMonth ?? 1, timing.hour));
+      return candidate > after
+        ? candidate
+        : new Date(Date.UTC(year, quarterMonth + 3, timing.dayOfMonth ?? 1, timing.hour));
+    }
+    default:
+      throw new Error(`Unsupported report schedule frequency: ${String(timing.frequency)}`);
+  }
+};
+
+/**
+ * Calculates the reporting range covered by a delivery: the seven days before the
+ * delivery day for weekly schedules, otherwise the last complete month or quarter
+ * @param frequency
+ * @param runAt
+ * @returns Start and end of the reporting range
+ */
+export const getReportingRange = (
+  frequency: ReportScheduleFrequency,
+  runAt: Date
+): { startDate: Date; endDate: Date } => {
+  const year = runAt.getUTCFullYear();
+  const month = runAt.getUTCMonth();
+
+  let end: Date;
+  let startDate: Date;
+  if (frequency === 'weekly') {
+    end = new Date(Date.UTC(year, month, runAt.getUTCDate()));
+    startDate = new Date(end.getTime() - 7 * DAY_IN_MS);
+  } else if (frequency === 'monthly') {
+    end = new Date(Date.UTC(year, month, 1));
+    startDate = new Date(Date.UTC(year, month - 1, 1));
+  } else {
+    const quarterMonth = Math.floor(month / 3) * 3;
+    end = new Date(Date.UTC(year, quarterMonth, 1));
+    startDate = new Date(Date.UTC(year, quarterMonth - 3, 1));
+  }
+
+  return { startDate, endDate: new Date(end.getTime() - 1) };
+};
+
+/**
+ * Service for saved report definitions that are delivered to recipients by email on a
+ * weekly, monthly or quarterly schedule
+ */
+export class ReportScheduleService implements IReportScheduleService {
+  private reportScheduleRepository: ReportScheduleRepository;
+  private analyticsService: IAnalyticsService;
+  private emailService: EmailService;
+  private queue: Queue | undefined;
+
+  /**
+   * Creates a new ReportScheduleService instance
+   * @param reportScheduleRepository
+   * @param analyticsService
+   * @param emailService
+   * @param queue - The analytics queue that delivery jobs are added to, needed only to
+   * dispatch due schedules
+   */
+  constructor(
+    reportScheduleRepository: ReportScheduleRepository,
+    analyticsService: IAnalyticsService,
+    emailService: EmailService,
+    queue?: Queue
+  ) {
+    this.reportScheduleRepository = reportScheduleRepository;
+    this.analyticsService = analyticsService;
+    this.emailService = emailService;
+    this.queue = queue;
+  }
+
+  /**
+   * Saves a report definition with its delivery schedule
+   * @param data
+   * @param userId
+   * @returns The created schedule
+   */
+  async createSchedule(data: CreateReportScheduleDTO, userId: string): Promise<ReportSchedule> {
+    const timing = this.resolveTiming(data);
+
+    const schedule = await this.reportScheduleRepository.create({
+      definition: data.definition,
+      ...timing,
+      recipients: data.recipients,
+      format: data.format,
+      isActive: data.isActive ?? true,
+      nextRunAt: calculateNextRunAt(timing, new Date()),
+      createdById: userId
+    });
+
+    logger.info('Report schedule created', {
+      scheduleId: schedule.id,
+      frequency: schedule.frequency,
+      nextRunAt: schedule.nextRunAt,
+      userId
+    });
+
+    return schedule;
+  }
+
+  /**
+   * Retrieves the report schedules visible to a user: all schedules for administrators,
+   * otherwise the user's own
+   * @param userId
+   * @param userRole
+   * @returns The schedules, ordered by next delivery
+   */
+  async getSchedules(userId: string, userRole: string): Promise<ReportSchedule[]> {
+    return this.reportScheduleRepository.findAll(userRole === Roles.ADMINISTRATOR ? undefined : userId);
+  }
+
+  /**
+   * Retrieves a report schedule by ID
+   * @param id
+   * @param userId
+   * @param userRole
+   * @returns The schedule
+   */
+  async getScheduleById(id: string, userId: string, userRole: string): Promise<ReportSchedule> {
+    return this.getAccessibleSchedule(id, userId, userRole);
+  }
+
+  /**
+   * Updates a report schedule, recalculating its next delivery when the timing changes
+   * @param id
+   * @param data
+   * @param userId
+   * @param userRole
+   * @returns The updated schedule
+   */
+  async updateSchedule(
+    id: string,
+    data: UpdateReportScheduleDTO,
+    userId: string,
+    userRole: string
+  ): Promise<ReportSchedule> {
+    const existing = await this.getAccessibleSchedule(id, userId, userRole);
+
+    const update: ReportScheduleUpdate = {
+      ...(data.definition !== undefined ? { definition: data.definition } : {}),
+      ...(data.recipients !== undefined ? { recipients: data.recipients } : {}),
+      ...(data.format !== undefined ? { format: data.format } : {}),
+      ...(data.isActive !== undefined ? { isActive: data.isActive } : {})
+    };
+
+    const timingChanged = ['frequency', 'dayOfWeek', 'dayOfMonth', 'hour'].some(
+      (field) => data[field as keyof UpdateReportScheduleDTO] !== undefined
+    );
+    const resumed = data.isActive === true && !existing.isActive;
+
+    if (timingChanged) {
+      const timing = this.resolveTiming({
+        frequency: data.frequency ?? existing.frequency,
+        dayOfWeek: data.dayOfWeek ?? existing.dayOfWeek ?? undefined,
+        dayOfMonth: data.dayOfMonth ?? existing.dayOfMonth ?? undefined,
+        hour: data.hour ?? existing.hour
+      });
+      Object.assign(update, timing);
+    }
+
+    // A new timing, or resuming a paused schedule, starts from now rather than
+    // catching up on deliveries missed in the meantime
+    if (timingChanged || resumed) {
+      update.nextRunAt = calculateNextRunAt({ ...existing, ...update } as ScheduleTiming, new Date());
+      update.lastError = null;
+    }
+
+    const schedule = await this.reportScheduleRepository.update(id, update);
+
+    logger.info('Report schedule updated', { scheduleId: id, nextRunAt: schedule.nextRunAt, userId });
+
+    return schedule;
+  }
+
+  /**
+   * Deletes a report schedule
+   * @param id
+   * @param userId
+   * @param userRole
+   */
+  async deleteSchedule(id: string, userId: string, userRole: string): Promise<void> {
+    await this.getAccessibleSchedule(id, userId, userRole);
+
+    await this.reportScheduleRepository.delete(id);
+
+    logger.info('Report schedule deleted', { scheduleId: id, userId });
+  }
+
+  /**
+   * Queues a delivery job for every active schedule that is due. Jobs are keyed by
+   * schedule and delivery slot, so a slot that is already queued is not queued again.
+   * @param now
+   * @returns The number of deliveries queued
+   */
+  async enqueueDueSchedules(now: Date = new Date()): Promise<number> {
+    if (!this.queue) {
+      throw new Error('Report schedule service was created without a queue to dispatch deliveries to');
+    }
+
+    const dueSchedules = await this.reportScheduleRepository.findDue(now);
+
+    for (const schedule of dueSchedules) {
+      const runAt = new Date(schedule.nextRunAt).toISOString();
+      const data: ScheduledReportJobData = { scheduleId: schedule.id, runAt };
+
+      await this.queue.add(deliverScheduledReportJob.name, data, {
+        ...deliverScheduledReportJob.options,
+        jobId: `${schedule.id}:${runAt}`
+      });
+    }
+
+    if (dueSchedules.length > 0) {
+      logger.info('Queued scheduled report deliveries', { count: dueSchedules.length });
+    }
+
+    return dueSchedules.length;
+  }
+
+  /**
+   * Generates a scheduled report, emails it to the schedule's recipients and advances
+   * the schedule to its next delivery. Failures are recorded on the schedule and rethrown
+   * so the queue retries the delivery. Once the final attempt fails the schedule moves on
+   * to its next delivery, as the failed delivery slot would otherwise never be queued again.
+   * @param scheduleId
+   * @param runAt
+   * @param finalAttempt - Whether the queue will not retry the delivery if it fails
+   */
+  async deliverScheduledReport(scheduleId: string, runAt: Date, finalAttempt = false): Promise<void> {
+    const schedule = await this.reportScheduleRepository.findById(scheduleId);
+
+    // The schedule may have been deleted, paused, rescheduled or already delivered
+    // since the job was queued
+    if (!schedule || !schedule.isActive || new Date(schedule.nextRunAt).getTime() !== runAt.getTime()) {
+      logger.info('Skipping scheduled report delivery that is no longer due', { scheduleId, runAt });
+      return;
+    }
+
+    const { startDate, endDate } = getReportingRange(schedule.frequency, runAt);
+    const rangeLabel = `${startDate.toISOString().slice(0, 10)} to ${endDate.toISOString().slice(0, 10)}`;
+
+    try {
+      const report = await this.analyticsService.renderReport({
+        ...schedule.definition,
+        startDate,
+        endDate,
+        format: schedule.format
+      });
+
+      const results = await this.emailService.deliverNotification(
+        {
+          id: `report-schedule-${schedule.id}-${runAt.toISOString()}`,
+          userId: schedule.createdById,
+          type: SCHEDULED_REPORT_NOTIFICATION_TYPE,
+          title: `${schedule.definition.name} (${rangeLabel})`,
+          message: `Your ${schedule.frequency} report "${schedule.definition.name}" for ${rangeLabel} is attached.`,
+          channels: [NOTIFICATION_CHANNELS.EMAIL],
+          data: { scheduleId: schedule.id }
+        },
+        {
+          recipient: schedule.recipients,
+          attachments: [{
+            content: report.content.toString('base64'),
+            filename: report.fileName,
+            type: report.contentType,
+            disposition: 'attachment'
+          }]
+        }
+      );
+
+      const failure = results.find((result) => !result.success);
+      if (failure) {
+        throw new Error(failure.error || 'Scheduled report email was not delivered');
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+
+      logger.error('Scheduled report delivery failed', { scheduleId, runAt, finalAttempt, error: message });
+
+      if (finalAttempt) {
+        const nextRunAt = calculateNextRunAt(schedule, runAt);
+        await this.reportScheduleRepository.update(scheduleId, { lastError: message, nextRunAt });
+
+        logger.error('Scheduled report delivery abandoned after its final attempt', { scheduleId, runAt, nextRunAt });
+      } else {
+        await this.reportScheduleRepository.update(scheduleId, { lastError: message });
+      }
+
+      throw error;
+    }
+
+    const nextRunAt = calculateNextRunAt(schedule, runAt);
+    await this.reportScheduleRepository.update(scheduleId, { lastRunAt: runAt, lastError: null, nextRunAt });
+
+    logger.info('Scheduled report delivered', {
+      scheduleId,
+      recipientCount: schedule.recipients.length,
+      nextRunAt
+    });
+  }
+
+  /**
+   * Retrieves a schedule, checking that the user may manage it: administrators may manage
+   * any schedule, other users only the ones they created
+   * @param id
+   * @param userId
+   * @param userRole
+   * @returns The schedule
+   */
+  private async getAccessibleSchedule(id: string, userId: string, userRole: string): Promise<ReportSchedule> {
+    const schedule = await this.reportScheduleRepository.findById(id);
+    if (!schedule) {
+      throw errorFactory.createNotFoundError('Report schedule not found', { scheduleId: id });
+    }
+
+    if (userRole !== Roles.ADMINISTRATOR && schedule.createdById !== userId) {
+      throw errorFactory.createForbiddenError('User not authorized to manage this report schedule', {
+        scheduleId: id,
+        userId
+      });
+    }
+
+    return schedule;
+  }
+
+  /**
+   * Checks that a schedule has the day field its frequency needs and clears the other
+   * @param timing
+   * @returns The schedule timing to save
+   */
+  private resolveTiming(
+    timing: Pick<CreateReportScheduleDTO, 'frequency' | 'dayOfWeek' | 'dayOfMonth' | 'hour'>
+  ): ScheduleTiming {
+    if (timing.frequency === 'weekly') {
+      if (timing.dayOfWeek === undefined) {
+        throw errorFactory.createValidationError('dayOfWeek is required for weekly report schedules');
+      }
+      return { frequency: timing.frequency, dayOfWeek: timing.dayOfWeek, dayOfMonth: null, hour: timing.hour };
+    }
+
+    if (timing.dayOfMonth === undefined) {
+      throw errorFactory.createValidationError(`dayOfMonth is required for ${timing.frequency} report schedules`);
+    }
+    return { frequency: timing.frequency, dayOfWeek: null, dayOfMonth: timing.dayOfMonth, hour: timing.hour };
+  }
+}
+
+/**
+ * Creates a ReportScheduleService with its default dependencies
+ * @param queue - The analytics queue, when the service is used to dispatch due schedules
+ * @returns ReportScheduleService instance
+ */
+export const createReportScheduleService = (queue?: Queue): ReportScheduleService => {
+  return new ReportScheduleService(
+    new ReportScheduleRepository(),
+    new AnalyticsService(new AnalyticsRepository()),
+    new EmailService(),
+    queue
+  );
+};
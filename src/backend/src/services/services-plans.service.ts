@@ -8,7 +8,11 @@ import {
 import { ProviderMatchingService } from './ai/provider-matching.service';
 import { CarePlanService } from './care-plans.service';
 import { PaymentProcessingService } from './payment/payment-processing.service';
+import { BookingRepository } from '../repositories/booking.repository';
+import { ProviderAvailabilityRepository } from '../repositories/provider-availability.repository';
 import { OpenAIService } from '../integrations/openai'; // openai@^4.0.0
+import { IRateScheduleService } from '../interfaces/rate-schedule.interface';
+import { createRateScheduleService } from './rate-schedule.service';
 import {
   ServicesPlan,
   NeedsAssessment,
@@ -22,12 +26,30 @@ import {
   FundingSourcesResponse,
   ServicesPlanFilterParams,
   ProviderMatchingCriteria,
+  ServiceItem,
+  ServiceItemUtilization,
+  CreateServiceItemDTO,
 } from '../types/services-plan.types';
+import {
+  AssessmentInstrumentCode,
+  AssessmentInstrumentSummary,
+  InstrumentResponseSet,
+  InstrumentScore,
+  InstrumentScoreTrend
+} from '../types/assessment-instrument.types';
 import { AIModelType } from '../types/ai.types';
 import { PlanStatus } from '../constants/plan-statuses';
 import { ServiceType } from '../constants/service-types';
+import { ASSESSMENT_INSTRUMENTS, getAssessmentInstrument } from '../constants/assessment-instruments';
 import { errorFactory } from '../utils/error-handler';
 import { logger } from '../utils/logger';
+import { parseCadence, countPlannedUnits } from '../utils/service-cadence';
+import {
+  buildInstrumentSchema,
+  buildScoreTrends,
+  scoreInstrument,
+  validateInstrumentResponses
+} from '../utils/assessment-scoring';
 import { aiConfig } from '../config/ai';
 
 // Define error codes for this module
@@ -52,6 +74,8 @@ export class ServicesPlanService implements IServicesPlanService {
    * @param carePlanService 
    * @param paymentProcessingService 
    * @param openAIService 
+   * @param bookingRepository - Counts the bookings delivered against service items
+   * @param rateScheduleService - Finds the rates that price service items in cost estimates
    */
   constructor(
     private servicesPlanRepository: ServicesPlanRepository,
@@ -59,7 +83,9 @@ export class ServicesPlanService implements IServicesPlanService {
     private providerMatchingService: ProviderMatchingService,
     private carePlanService: CarePlanService,
     private paymentProcessingService: PaymentProcessingService,
-    private openAIService: OpenAIService
+    private openAIService: OpenAIService,
+    private bookingRepository: BookingRepository = new BookingRepository(new ProviderAvailabilityRepository()),
+    private rateScheduleService: IRateScheduleService = createRateScheduleService()
   ) {
     // Store the provided repositories and services as instance properties
     this.servicesPlanRepository = servicesPlanRepository;
@@ -68,6 +94,8 @@ export class ServicesPlanService implements IServicesPlanService {
     this.carePlanService = carePlanService;
     this.paymentProcessingService = paymentProcessingService;
     this.openAIService = openAIService;
+    this.bookingRepository = bookingRepository;
+    this.rateScheduleService = rateScheduleService;
   }
 
   /**
@@ -82,8 +110,11 @@ export class ServicesPlanService implements IServicesPlanService {
       throw errorFactory.createValidationError('Client ID and assessment data are required');
     }
 
-    // Call the needs assessment repository to create the assessment
-    const needsAssessment = await this.needsAssessmentRepository.create(data, createdById);
+    // Validate and score the responses to standardized instruments
+    const { instrumentResponses, scores } = this.scoreInstrumentResponses(data.instrumentResponses || []);
+
+    // Call the needs assessment repository to create the assessment with its scores
+    const needsAssessment = await this.needsAssessmentRepository.create({ ...data, instrumentResponses }, createdById, scores);
 
     // Log the successful creation
     logger.info('Needs assessment created successfully', { needsAssessmentId: needsAssessment.id });
@@ -123,6 +154,52 @@ export class ServicesPlanService implements IServicesPlanService {
     return needsAssessments;
   }
 
+  /**
+   * Trends a client's standardized instrument scores across their needs assessments
+   * @param clientId 
+   * @returns One score trend per instrument the client has been assessed with
+   */
+  async getAssessmentScoreTrends(clientId: string): Promise<InstrumentScoreTrend[]> {
+    // Retrieve all of the client's needs assessments
+    const needsAssessments = await this.getNeedsAssessmentsByClientId(clientId);
+
+    // Trend the scores of each instrument, oldest first
+    return buildScoreTrends(needsAssessments);
+  }
+
+  /**
+   * Lists the latest version of every standardized assessment instrument
+   * @returns The instruments with the JSON schemas of their responses
+   */
+  getAssessmentInstruments(): AssessmentInstrumentSummary[] {
+    const codes = Array.from(new Set(ASSESSMENT_INSTRUMENTS.map(instrument => instrument.code)));
+
+    return codes.map(code => this.getAssessmentInstrument(code));
+  }
+
+  /**
+   * Retrieves a version of a standardized assessment instrument
+   * @param code 
+   * @param version 
+   * @returns The instrument with the JSON schema of its responses
+   */
+  getAssessmentInstrument(code: AssessmentInstrumentCode, version?: number): AssessmentInstrumentSummary {
+    // Look up the requested version, or the latest one
+    const instrument = getAssessmentInstrument(code, version);
+    if (!instrument) {
+      throw errorFactory.createNotFoundError('Assessment instrument not found', { instrumentCode: code, version });
+    }
+
+    // Describe the instrument with the schema of its responses
+    return {
+      code: instrument.code,
+      version: instrument.version,
+      name: instrument.name,
+      description: instrument.description,
+      schema: buildInstrumentSchema(instrument)
+    };
+  }
+
   /**
    * Creates a new services plan
    * @param data 
@@ -143,8 +220,11 @@ export class ServicesPlanService implements IServicesPlanService {
       await this.carePlanService.getCarePlanById(data.carePlanId, createdById, 'case_manager');
     }
 
-    // Call the services plan repository to create the plan
-    const servicesPlan = await this.servicesPlanRepository.create(data, createdById);
+    // Call the services plan repository to create the plan, with each item's schedule structured
+    const servicesPlan = await this.servicesPlanRepository.create(
+      { ...data, serviceItems: (data.serviceItems || []).map(item => this.withCadence(item)) },
+      createdById
+    );
 
     // Log the successful creation
     logger.info('Services plan created successfully', { servicesPlanId: servicesPlan.id });
@@ -194,8 +274,11 @@ export class ServicesPlanService implements IServicesPlanService {
     // Validate the services plan exists
     await this.getServicesPlanById(id);
 
-    // Call the services plan repository to update the plan
-    const servicesPlan = await this.servicesPlanRepository.update(id, data);
+    // Call the services plan repository to update the plan, with each item's schedule structured
+    const servicesPlan = await this.servicesPlanRepository.update(
+      id,
+      data.serviceItems ? { ...data, serviceItems: data.serviceItems.map(item => this.withCadence(item)) } : data
+    );
 
     // Log the successful update
     logger.info('Services plan updated successfully', { servicesPlanId: servicesPlan.id });
@@ -259,6 +342,9 @@ export class ServicesPlanService implements IServicesPlanService {
     // Retrieve the needs assessment
     const needsAssessment = await this.getNeedsAssessment(data.needsAssessmentId);
 
+    // Trend the client's instrument scores so the plan can respond to changes over time
+    const scoreTrends = await this.getAssessmentScoreTrends(data.clientId);
+
     // If carePlanId is provided, retrieve the care plan
     let carePlan: any = null;
     if (data.carePlanId) {
@@ -266,7 +352,7 @@ export class ServicesPlanService implements IServicesPlanService {
     }
 
     // Prepare the context for AI generation
-    const promptMessages = this.prepareAIPrompt(needsAssessment, carePlan, data.preferences);
+    const promptMessages = this.prepareAIPrompt(needsAssessment, scoreTrends, carePlan, data.preferences);
 
     // Call OpenAI service to generate service plan options
     const aiResponse = await this.openAIService.createChatCompletion(promptMessages);
@@ -303,7 +389,9 @@ export class ServicesPlanService implements IServicesPlanService {
   }
 
   /**
-   * Estimates costs for a services plan
+   * Estimates costs for a services plan. Items with a bounded cadence are priced per planned
+   * unit, at the item's own unit cost if it has one or else at the rate schedule that
+   * applies to it; other items use their entered estimated cost.
    * @param servicesPlanId 
    * @returns Cost estimate details
    */
@@ -311,8 +399,30 @@ export class ServicesPlanService implements IServicesPlanService {
     // Retrieve the services plan with service items and funding sources
     const servicesPlan = await this.getServicesPlanById(servicesPlanId);
 
+    // Find the rate schedules that apply to the service items
+    const rates = await this.rateScheduleService.resolveRates(servicesPlan);
+
+    // Generate service breakdown by service item
+    const serviceBreakdown = servicesPlan.serviceItems.map(item => {
+      const plannedUnits = item.cadence ? countPlannedUnits(item.cadence) : null;
+      const appliedRate = plannedUnits !== null && (item.unitCost ?? null) === null ? rates[item.id] ?? null : null;
+      const unitCost = item.unitCost ?? appliedRate?.costPerVisit ?? null;
+      const cost = unitCost !== null && plannedUnits !== null ? unitCost * plannedUnits : item.estimatedCost;
+
+      return {
+        serviceItemId: item.id,
+        serviceType: item.serviceType,
+        plannedUnits,
+        unitCost,
+        appliedRate,
+        cost,
+        covered: 0, // Add covered amount calculation if needed
+        outOfPocket: cost // Add out-of-pocket calculation if needed
+      };
+    });
+
     // Calculate the total cost of all service items
-    const totalCost = servicesPlan.serviceItems.reduce((sum, item) => sum + item.estimatedCost, 0);
+    const totalCost = serviceBreakdown.reduce((sum, item) => sum + item.cost, 0);
 
     // Calculate the covered amount from funding sources
     let coveredAmount = 0;
@@ -323,14 +433,6 @@ export class ServicesPlanService implements IServicesPlanService {
     // Calculate the out-of-pocket cost
     const outOfPocketCost = totalCost - coveredAmount;
 
-    // Generate service breakdown by service type
-    const serviceBreakdown = servicesPlan.serviceItems.map(item => ({
-      serviceType: item.serviceType,
-      cost: item.estimatedCost,
-      covered: 0, // Add covered amount calculation if needed
-      outOfPocket: item.estimatedCost // Add out-of-pocket calculation if needed
-    }));
-
     // Generate funding breakdown by funding source
     const fundingBreakdown = servicesPlan.fundingSources.map(source => ({
       source: source.name,
@@ -348,6 +450,34 @@ export class ServicesPlanService implements IServicesPlanService {
     };
   }
 
+  /**
+   * Compares the units planned for each item of a services plan with the units delivered,
+   * counting an item's completed bookings as its delivered units
+   * @param servicesPlanId 
+   * @returns Planned and delivered units of each service item
+   */
+  async getServiceItemUtilization(servicesPlanId: string): Promise<ServiceItemUtilization[]> {
+    const servicesPlan = await this.getServicesPlanById(servicesPlanId);
+
+    const deliveredUnits = await this.bookingRepository.countCompletedByServiceItem(
+      servicesPlan.serviceItems.map(item => item.id)
+    );
+
+    return servicesPlan.serviceItems.map((item: ServiceItem) => {
+      const plannedUnits = item.cadence ? countPlannedUnits(item.cadence) : null;
+      const delivered = deliveredUnits[item.id] || 0;
+
+      return {
+        serviceItemId: item.id,
+        serviceType: item.serviceType,
+        cadence: item.cadence ?? null,
+        plannedUnits,
+        deliveredUnits: delivered,
+        remainingUnits: plannedUnits !== null ? Math.max(0, plannedUnits - delivered) : null
+      };
+    });
+  }
+
   /**
    * Identifies potential funding sources for a client's services plan
    * @param clientId 
@@ -409,14 +539,45 @@ export class ServicesPlanService implements IServicesPlanService {
     return matchedProviders;
   }
 
+  /**
+   * Structures the schedule of a service item being saved. The cadence is read from the
+   * item's frequency and duration unless one is given, and items with a unit cost have their
+   * estimated cost recalculated from the planned units.
+   * @param item 
+   * @returns The item with its cadence and estimated cost
+   */
+  private withCadence<T extends Partial<CreateServiceItemDTO>>(item: T): T {
+    let cadence = item.cadence;
+    if (cadence === undefined && item.frequency && item.duration) {
+      cadence = parseCadence(item.frequency, item.duration);
+    }
+
+    if (cadence === undefined) {
+      return item;
+    }
+
+    const plannedUnits = cadence ? countPlannedUnits(cadence) : null;
+    const estimatedCost = item.unitCost !== undefined && item.unitCost !== null && plannedUnits !== null
+      ? item.unitCost * plannedUnits
+      : item.estimatedCost;
+
+    return { ...item, cadence, estimatedCost };
+  }
+
   /**
    * Prepares the prompt for AI service plan generation
    * @param needsAssessment 
+   * @param scoreTrends 
    * @param carePlan 
    * @param preferences 
    * @returns Formatted prompt messages for the AI model
    */
-  private prepareAIPrompt(needsAssessment: NeedsAssessment, carePlan: any, preferences: Record<string, any>): Array<{ role: string; content: string }> {
+  private prepareAIPrompt(
+    needsAssessment: NeedsAssessment,
+    scoreTrends: InstrumentScoreTrend[],
+    carePlan: any,
+    preferences: Record<string, any>
+  ): Array<{ role: string; content: string }> {
     // Create system message with instructions for service plan generation
     const systemMessage = {
       role: 'system',
@@ -426,7 +587,27 @@ export class ServicesPlanService implements IServicesPlanService {
     };
 
     // Format needs assessment data into structured content
-    const needsAssessmentContent = `Needs Assessment: ${JSON.stringify(needsAssessment)}`;
+    const { scores, instrumentResponses: _instrumentResponses, ...assessmentDetails } = needsAssessment;
+    const needsAssessmentContent = `Needs Assessment: ${JSON.stringify(assessmentDetails)}`;
+
+    // Include standardized instrument scores as structured inputs
+    const scoresContent = scores && scores.length > 0
+      ? `Standardized Assessment Scores: ${JSON.stringify(scores.map(score => ({
+        instrument: getAssessmentInstrument(score.instrumentCode, score.version)?.name || score.instrumentCode,
+        ...score
+      })))}`
+      : '';
+
+    // Include how the client's scores have changed across assessments
+    const repeatedTrends = scoreTrends.filter(trend => trend.points.length > 1);
+    const trendsContent = repeatedTrends.length > 0
+      ? `Assessment Score Trends: ${JSON.stringify(repeatedTrends.map(trend => ({
+        instrument: trend.name,
+        scores: trend.points.map(point => ({ assessedAt: point.assessedAt, score: point.score, band: point.band })),
+        change: trend.change,
+        direction: trend.direction
+      })))}`
+      : '';
 
     // Include care plan data if available
     const carePlanContent = carePlan ? `Care Plan: ${JSON.stringify(carePlan)}` : '';
@@ -439,6 +620,8 @@ export class ServicesPlanService implements IServicesPlanService {
       role: 'user',
       content: `Generate a service plan based on the following information:
         ${needsAssessmentContent}
+        ${scoresContent}
+        ${trendsContent}
         ${carePlanContent}
         ${preferencesContent}
         The service plan should include:
@@ -452,6 +635,52 @@ export class ServicesPlanService implements IServicesPlanService {
     return [systemMessage, userMessage];
   }
 
+  /**
+   * Validates and scores the responses to standardized instruments in a needs assessment
+   * @param responseSets 
+   * @returns The responses with the instrument version they were scored under, and their scores
+   */
+  private scoreInstrumentResponses(responseSets: InstrumentResponseSet[]): {
+    instrumentResponses: InstrumentResponseSet[];
+    scores: InstrumentScore[];
+  } {
+    const instrumentResponses: InstrumentResponseSet[] = [];
+    const scores: InstrumentScore[] = [];
+
+    for (const responseSet of responseSets) {
+      // Each instrument may be administered only once per assessment
+      if (instrumentResponses.some(scored => scored.instrumentCode === responseSet.instrumentCode)) {
+        throw errorFactory.createValidationError('Each instrument may only be answered once per assessment', {
+          instrumentCode: responseSet.instrumentCode
+        });
+      }
+
+      // Resolve the instrument version the responses were given for
+      const instrument = getAssessmentInstrument(responseSet.instrumentCode, responseSet.version);
+      if (!instrument) {
+        throw errorFactory.createValidationError('Unknown assessment instrument', {
+          instrumentCode: responseSet.instrumentCode,
+          version: responseSet.version
+        });
+      }
+
+      // Check the responses against the instrument
+      const errors = validateInstrumentResponses(instrument, responseSet.responses);
+      if (errors.length > 0) {
+        throw errorFactory.createValidationError(`Invalid responses to ${instrument.name}`, {
+          instrumentCode: instrument.code,
+          version: instrument.version,
+          errors
+        });
+      }
+
+      instrumentResponses.push({ ...responseSet, version: instrument.version });
+      scores.push(scoreInstrument(instrument, responseSet.responses));
+    }
+
+    return { instrumentResponses, scores };
+  }
+
   /**
    * Parses and validates the AI response into service plan options
    * @param response 
@@ -400,6 +400,49 @@ export class UserService implements IUserService {
     return existingUser.user;
   }
 
+  /**
+   * Changes the role of a user account
+   * @param userId 
+   * @param role 
+   * @param changedById 
+   * @returns Updated user information
+   */
+  async changeUserRole(userId: string, role: Roles, changedById: string): Promise<UserWithoutPassword> {
+    // Log the attempt to change a user's role
+    logger.info('Changing user role', { userId, role, changedById });
+
+    // Administrators cannot change their own role, so at least one other administrator is always involved
+    if (userId === changedById) {
+      throw errorFactory.createForbiddenError('You cannot change your own role');
+    }
+
+    // Check if user exists
+    const existingUser = await this.userRepository.findById(userId);
+    if (!existingUser) {
+      throw errorFactory.createNotFoundError('User not found', { userId });
+    }
+
+    if (existingUser.role === role) {
+      throw errorFactory.createValidationError('User already has this role', { userId, role });
+    }
+
+    // Update the role and provision the matching profile
+    const updatedUser = await this.userRepository.updateRole(userId, role);
+
+    // Invalidate user cache
+    await invalidateUserCache(userId);
+
+    // Invalidate search cache
+    await invalidateUserSearchCache();
+
+    // Log the role change
+    logger.info('User role changed successfully', { userId, previousRole: existingUser.role, role, changedById });
+
+    // Return the updated user without the password hash
+    const { passwordHash, ...userWithoutPassword } = updatedUser;
+    return userWithoutPassword;
+  }
+
   /**
    * Creates default user preferences
    * @returns Default user preferences
@@ -0,0 +1,822 @@
+import { IWaitlistService } from '../interfaces/waitlist.interface';
+import { IBookingService } from '../interfaces/booking.interface';
+import { Booking } from '../models/booking.model';
+import {
+  CreateWaitlistEntryDTO,
+  WaitlistEntry,
+  WaitlistEntryFilters,
+  WaitlistEntryStatus,
+  WaitlistEntryWithEstimate,
+  WaitlistOffer,
+  WaitlistOfferFilters,
+  WaitlistOfferStatus,
+  WaitlistPreferences,
+  WaitTimeEstimate
+} from '../types/waitlist.types';
+import { TimeSlot } from '../types/provider.types';
+import { WaitlistRepository } from '../repositories/waitlist.repository';
+import { BookingRepository } from '../repositories/booking.repository';
+import { ProviderAvailabilityRepository } from '../repositories/provider-availability.repository';
+import { ProviderProfileRepository } from '../repositories/provider-profile.repository';
+import { ClientProfileRepository } from '../repositories/client-profile.repository';
+import { CaseManagerProfileRepository } from '../repositories/case-manager-profile.repository';
+import { UserRepository } from '../repositories/user.repository';
+import { NotificationRepository } from '../repositories/notification.repository';
+import { NotificationService } from './notifications.service';
+import { EmailService } from './email/email.service';
+import { Roles } from '../constants/roles';
+import { ServiceType } from '../constants/service-types';
+import { ErrorCodes } from '../constants/error-codes';
+import { NOTIFICATION_TYPES, NOTIFICATION_PRIORITIES } from '../constants/notification-types';
+import { errorFactory } from '../utils/error-handler';
+import {
+  DEFAULT_TIMEZONE,
+  getZonedDateParts,
+  getZonedDayOfWeek,
+  isOverlapping,
+  parseTimeString
+} from '../utils/date-time';
+import { calculateHaversineDistance, getAddressCoordinates } from '../utils/geo';
+import { logger } from '../utils/logger';
+
+/**
+ * How long a freed slot is held for the client it was offered to
+ */
+const WAITLIST_OFFER_HOLD_HOURS = 24;
+
+/**
+ * How far ahead freed slots are offered to waitlisted clients
+ */
+const WAITLIST_OFFER_HORIZON_DAYS = 30;
+
+/**
+ * Period over which a provider's booking velocity is measured for wait estimates
+ */
+const BOOKING_VELOCITY_LOOKBACK_DAYS = 28;
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+const MS_PER_DAY = 24 * MS_PER_HOUR;
+
+/**
+ * Converts a time of day to minutes after midnight
+ * @param date
+ * @param timezone - IANA timezone to read the time of day in
+ * @returns Minutes after midnight in the timezone
+ */
+const getMinutesOfDay = (date: Date, timezone: string): number => {
+  const { hours, minutes } = getZonedDateParts(date, timezone);
+  return hours * 60 + minutes;
+};
+
+/**
+ * Checks whether a slot falls on one of a client's preferred days and entirely within
+ * one of their preferred time windows, read in the client's timezone. Empty preferences
+ * accept any slot.
+ * @param slot - The slot's start and end times
+ * @param preferences - The client's waitlist preferences
+ * @param timezone - The client's IANA timezone
+ * @returns True if the slot suits the client
+ */
+export function matchesWaitlistPreferences(
+  slot: Pick<TimeSlot, 'startTime' | 'endTime'>,
+  preferences: WaitlistPreferences,
+  timezone: string = DEFAULT_TIMEZONE
+): boolean {
+  if (preferences.daysOfWeek.length > 0 && !preferences.daysOfWeek.includes(getZonedDayOfWeek(slot.startTime, timezone))) {
+    return false;
+  }
+
+  if (preferences.timeWindows.length === 0) {
+    return true;
+  }
+
+  const slotStart = getMinutesOfDay(slot.startTime, timezone);
+  const slotEnd = slotStart + (slot.endTime.getTime() - slot.startTime.getTime()) / 60000;
+
+  return preferences.timeWindows.some(window => {
+    const windowStart = parseTimeString(window.startTime);
+    const windowEnd = parseTimeString(window.endTime);
+    if (!windowStart || !windowEnd) {
+      return false;
+    }
+
+    return windowStart.hours * 60 + windowStart.minutes <= slotStart
+      && slotEnd <= windowEnd.hours * 60 + windowEnd.minutes;
+  });
+}
+
+/**
+ * Estimates how many days a client will wait, assuming the provider keeps taking
+ * bookings at the rate seen over the lookback period
+ * @param position - The client's place in the queue, starting at 1
+ * @param bookingCount - Bookings the provider took during the lookback period
+ * @param lookbackDays - Length of the lookback period in days
+ * @returns Estimated wait in whole days, or null if the provider took no bookings
+ */
+export function estimateWaitDays(position: number, bookingCount: number, lookbackDays: number): number | null {
+  if (bookingCount <= 0) {
+    return null;
+  }
+
+  return Math.ceil((position * lookbackDays) / bookingCount);
+}
+
+/**
+ * Service that keeps per-provider waitlists and offers freed slots to waitlisted clients
+ */
+export class WaitlistService implements IWaitlistService {
+  /**
+   * Creates a new WaitlistService instance with required dependencies
+   * @param waitlistRepository
+   * @param bookingRepository
+   * @param availabilityRepository
+   * @param providerProfileRepository
+   * @param clientProfileRepository
+   * @param caseManagerProfileRepository
+   * @param notificationService
+   * @param bookingService - Books accepted offers
+   */
+  constructor(
+    private waitlistRepository: WaitlistRepository,
+    private bookingRepository: BookingRepository,
+    private availabilityRepository: ProviderAvailabilityRepository,
+    private providerProfileRepository: ProviderProfileRepository,
+    private clientProfileRepository: ClientProfileRepository,
+    private caseManagerProfileRepository: CaseManagerProfileRepository,
+    private notificationService: NotificationService,
+    private bookingService?: IBookingService
+  ) {
+    this.waitlistRepository = waitlistRepository;
+    this.bookingRepository = bookingRepository;
+    this.availabilityRepository = availabilityRepository;
+    this.providerProfileRepository = providerProfileRepository;
+    this.clientProfileRepository = clientProfileRepository;
+    this.caseManagerProfileRepository = caseManagerProfileRepository;
+    this.notificationService = notificationService;
+    this.bookingService = bookingService;
+  }
+
+  /**
+   * Adds a client to a provider's waitlist and offers any open slot that suits them
+   * @param data
+   * @param userId
+   * @param userRole
+   * @returns The new entry with its place in the queue and estimated wait
+   */
+  async joinWaitlist(data: CreateWaitlistEntryDTO, userId: string, userRole: string): Promise<WaitlistEntryWithEstimate> {
+    logger.info('Attempting to join waitlist', { providerId: data.providerId, clientId: data.clientId, userId, userRole });
+
+    // Clients can only join for themselves, case managers only for assigned clients
+    if (!(await this.canActForClient(data.clientId, userId, userRole))) {
+      throw errorFactory.createForbiddenError('User not authorized to add this client to a waitlist', { clientId: data.clientId, userId, userRole });
+    }
+
+    const preferences = this.normalizePreferences(data.preferences);
+
+    const provider = await this.providerProfileRepository.findByUserId(data.providerId);
+    if (!provider) {
+      throw errorFactory.createNotFoundError('Provider not found', { providerId: data.providerId });
+    }
+
+    if (!provider.serviceTypes.includes(data.serviceType)) {
+      throw errorFactory.createValidationError('Provider does not offer this service type', {
+        providerId: data.providerId,
+        serviceType: data.serviceType
+      });
+    }
+
+    const existingEntry = await this.waitlistRepository.findActiveEntry(data.providerId, data.clientId, data.serviceType);
+    if (existingEntry) {
+      throw errorFactory.createError(
+        'Client is already on this provider\'s waitlist for the service type',
+        ErrorCodes.CONFLICT,
+        { entryId: existingEntry.id, providerId: data.providerId, clientId: data.clientId, serviceType: data.serviceType }
+      );
+    }
+
+    const entry = await this.waitlistRepository.createEntry({
+      providerId: data.providerId,
+      clientId: data.clientId,
+      serviceType: data.serviceType,
+      preferences,
+      // Only staff can move a client up the queue
+      priority: userRole === Roles.CLIENT ? 0 : data.priority ?? 0,
+      notes: data.notes ?? null,
+      createdById: userId
+    });
+
+    logger.info('Client joined waitlist', { entryId: entry.id, providerId: entry.providerId, clientId: entry.clientId });
+
+    // The provider may have capacity that opened before this client joined
+    await this.reofferSlots(entry.providerId);
+
+    const currentEntry = await this.waitlistRepository.findEntryById(entry.id);
+
+    return this.withEstimate(currentEntry ?? entry);
+  }
+
+  /**
+   * Retrieves waitlist entries visible to the requesting user
+   * @param filters
+   * @param userId
+   * @param userRole
+   * @returns The matching entries
+   */
+  async getEntries(filters: WaitlistEntryFilters, userId: string, userRole: string): Promise<WaitlistEntry[]> {
+    return this.waitlistRepository.findEntries(await this.scopeFilters(filters, userId, userRole));
+  }
+
+  /**
+   * Retrieves a waitlist entry with its place in the queue and estimated wait
+   * @param id
+   * @param userId
+   * @param userRole
+   * @returns The entry with its estimate
+   */
+  async getEntryById(id: string, userId: string, userRole: string): Promise<WaitlistEntryWithEstimate> {
+    const entry = await this.getAccessibleEntry(id, userId, userRole);
+
+    return this.withEstimate(entry);
+  }
+
+  /**
+   * Removes a client from a waitlist, withdrawing any slot held for them and offering it
+   * to the next client
+   * @param id
+   * @param userId
+   * @param userRole
+   * @returns The cancelled entry
+   */
+  async cancelEntry(id: string, userId: string, userRole: string): Promise<WaitlistEntry> {
+    logger.info('Attempting to cancel waitlist entry', { entryId: id, userId, userRole });
+
+    const entry = await this.getAccessibleEntry(id, userId, userRole);
+
+    if (entry.status !== WaitlistEntryStatus.WAITING && entry.status !== WaitlistEntryStatus.OFFERED) {
+      throw errorFactory.createValidationError(`Waitlist entry cannot be cancelled from ${entry.status}`, { entryId: id, status: entry.status });
+    }
+
+    const pendingOffers = await this.waitlistRepository.findOffers({ entryId: id, status: WaitlistOfferStatus.PENDING });
+    let withdrawnCount = 0;
+    for (const offer of pendingOffers) {
+      if (await this.waitlistRepository.closeOffer(offer.id, WaitlistOfferStatus.WITHDRAWN, WaitlistEntryStatus.CANCELLED)) {
+        withdrawnCount++;
+      }
+    }
+
+    const cancelledEntry = withdrawnCount > 0
+      ? await this.waitlistRepository.findEntryById(id)
+      : await this.waitlistRepository.updateEntryStatus(id, WaitlistEntryStatus.CANCELLED);
+
+    if (withdrawnCount > 0) {
+      await this.reofferSlots(entry.providerId);
+    }
+
+    logger.info('Waitlist entry cancelled', { entryId: id, withdrawnOffers: withdrawnCount });
+
+    return cancelledEntry ?? { ...entry, status: WaitlistEntryStatus.CANCELLED };
+  }
+
+  /**
+   * Estimates how long a client joining a provider's waitlist now would wait
+   * @param providerId
+   * @param serviceType
+   * @returns The wait estimate
+   */
+  async estimateWaitTime(providerId: string, serviceType: ServiceType): Promise<WaitTimeEstimate> {
+    const queue = await this.waitlistRepository.findQueue(providerId, serviceType);
+
+    return this.buildEstimate(providerId, serviceType, queue.length + 1);
+  }
+
+  /**
+   * Retrieves waitlist offers visible to the requesting user
+   * @param filters
+   * @param userId
+   * @param userRole
+   * @returns The matching offers
+   */
+  async getOffers(filters: WaitlistOfferFilters, userId: string, userRole: string): Promise<WaitlistOffer[]> {
+    return this.waitlistRepository.findOffers(await this.scopeFilters(filters, userId, userRole));
+  }
+
+  /**
+   * Books the slot held by an offer
+   * @param offerId
+   * @param userId
+   * @param userRole
+   * @returns The accepted offer, linked to its booking
+   */
+  async acceptOffer(offerId: string, userId: string, userRole: string): Promise<WaitlistOffer> {
+    logger.info('Attempting to accept waitlist offer', { offerId, userId, userRole });
+
+    const offer = await this.getPendingOffer(offerId, userId, userRole);
+
+    if (!this.bookingService) {
+      throw errorFactory.createInternalServerError('Booking service is not configured for waitlist offers', { offerId });
+    }
+
+    const booking = await this.bookingService.createBooking(
+      {
+        clientId: offer.clientId,
+        providerId: offer.providerId,
+        serviceItemId: null,
+        serviceType: offer.serviceType,
+        startTime: offer.startTime,
+        endTime: offer.endTime,
+        notes: null,
+        location: null
+      },
+      userId,
+      userRole
+    );
+
+    // The booking service records the booking against the offer; close it here in case that step failed
+    const acceptedOffer = await this.waitlistRepository.closeOffer(
+      offer.id,
+      WaitlistOfferStatus.ACCEPTED,
+      WaitlistEntryStatus.BOOKED,
+      booking.id
+    ) ?? await this.waitlistRepository.findOfferById(offer.id);
+
+    logger.info('Waitlist offer accepted', { offerId, bookingId: booking.id });
+
+    return acceptedOffer ?? { ...offer, status: WaitlistOfferStatus.ACCEPTED, bookingId: booking.id };
+  }
+
+  /**
+   * Declines an offer, returning the client to the waitlist and offering the slot to the
+   * next client
+   * @param offerId
+   * @param userId
+   * @param userRole
+   * @returns The declined offer
+   */
+  async declineOffer(offerId: string, userId: string, userRole: string): Promise<WaitlistOffer> {
+    logger.info('Attempting to decline waitlist offer', { offerId, userId, userRole });
+
+    const offer = await this.getPendingOffer(offerId, userId, userRole);
+
+    const declinedOffer = await this.waitlistRepository.closeOffer(offer.id, WaitlistOfferStatus.DECLINED, WaitlistEntryStatus.WAITING);
+    if (!declinedOffer) {
+      throw errorFactory.createError('Waitlist offer is no longer pending', ErrorCodes.CONFLICT, { offerId });
+    }
+
+    await this.reofferSlots(offer.providerId);
+
+    logger.info('Waitlist offer declined', { offerId });
+
+    return declinedOffer;
+  }
+
+  /**
+   * Offers a provider's open slots to waitlisted clients. Each slot goes to the
+   * highest-priority waiting client whose preferences it suits and who has not already
+   * been offered it; each client holds at most one offer at a time.
+   * @param providerId
+   * @param now
+   * @returns The offers made
+   */
+  async offerOpenSlots(providerId: string, now: Date = new Date()): Promise<WaitlistOffer[]> {
+    const queue = await this.waitlistRepository.findQueue(providerId);
+    const waitingEntries = queue.filter(entry => entry.status === WaitlistEntryStatus.WAITING);
+    if (waitingEntries.length === 0) {
+      return [];
+    }
+
+    const upcomingOffers = await this.waitlistRepository.findOffers({ providerId, startsAfter: now });
+    const heldSlots = upcomingOffers.filter(offer => offer.status === WaitlistOfferStatus.PENDING);
+    const dateRange = { startDate: now, endDate: new Date(now.getTime() + WAITLIST_OFFER_HORIZON_DAYS * MS_PER_DAY) };
+    const distanceChecks = new Map<string, boolean>();
+    const clientTimezones = new Map<string, string>();
+    const offers: WaitlistOffer[] = [];
+
+    const serviceTypes = [...new Set(waitingEntries.map(entry => entry.serviceType))];
+    for (const serviceType of serviceTypes) {
+      const slots = await this.availabilityRepository.findAvailableTimeSlots(providerId, dateRange, serviceType);
+
+      for (const slot of slots) {
+        const candidates = waitingEntries.filter(entry =>
+          entry.serviceType === serviceType
+          && !offers.some(offer => offer.entryId === entry.id)
+          && !upcomingOffers.some(offer => offer.entryId === entry.id && offer.startTime.getTime() === slot.startTime.getTime())
+        );
+        if (candidates.length === 0) {
+          break;
+        }
+
+        if (
+          slot.startTime <= now
+          || heldSlots.some(offer => isOverlapping(slot.startTime, slot.endTime, offer.startTime, offer.endTime))
+          || await this.bookingRepository.checkForConflicts(providerId, slot.startTime, slot.endTime)
+        ) {
+          continue;
+        }
+
+        let recipient: WaitlistEntry | null = null;
+        for (const entry of candidates) {
+          const timezone = await this.getClientTimezone(entry.clientId, clientTimezones);
+          if (matchesWaitlistPreferences(slot, entry.preferences, timezone) && await this.isWithinDistance(entry, distanceChecks)) {
+            recipient = entry;
+            break;
+          }
+        }
+
+        if (!recipient) {
+          continue;
+        }
+
+        const offer = await this.waitlistRepository.createOffer({
+          entryId: recipient.id,
+          providerId,
+          clientId: recipient.clientId,
+          serviceType,
+          startTime: slot.startTime,
+          endTime: slot.endTime,
+          // A hold never outlasts the slot itself
+          expiresAt: new Date(Math.min(now.getTime() + WAITLIST_OFFER_HOLD_HOURS * MS_PER_HOUR, slot.startTime.getTime()))
+        });
+
+        offers.push(offer);
+        heldSlots.push(offer);
+        await this.notifyOffer(offer);
+      }
+    }
+
+    if (offers.length > 0) {
+      logger.info('Offered open slots to waitlisted clients', { providerId, offerCount: offers.length });
+    }
+
+    return offers;
+  }
+
+  /**
+   * Expires offers whose hold has lapsed and offers their slots to the next clients
+   * @param now
+   * @returns The number of offers expired
+   */
+  async expireOffers(now: Date = new Date()): Promise<number> {
+    const lapsedOffers = await this.waitlistRepository.findLapsedOffers(now);
+    const providerIds = new Set<string>();
+    let expiredCount = 0;
+
+    for (const offer of lapsedOffers) {
+      if (await this.waitlistRepository.closeOffer(offer.id, WaitlistOfferStatus.EXPIRED, WaitlistEntryStatus.WAITING)) {
+        providerIds.add(offer.providerId);
+        expiredCount++;
+      }
+    }
+
+    for (const providerId of providerIds) {
+      await this.reofferSlots(providerId, now);
+    }
+
+    return expiredCount;
+  }
+
+  /**
+   * Throws a conflict error if a booking window overlaps a slot held for another client
+   * @param providerId
+   * @param clientId
+   * @param startTime
+   * @param endTime
+   */
+  async ensureSlotNotHeld(providerId: string, clientId: string, startTime: Date, endTime: Date): Promise<void> {
+    const now = new Date();
+    const pendingOffers = await this.waitlistRepository.findOffers({ providerId, status: WaitlistOfferStatus.PENDING });
+
+    const heldOffer = pendingOffers.find(offer =>
+      offer.clientId !== clientId
+      && offer.expiresAt > now
+      && isOverlapping(startTime, endTime, offer.startTime, offer.endTime)
+    );
+
+    if (heldOffer) {
+      throw errorFactory.createError(
+        'Time slot is being held for a waitlisted client',
+        ErrorCodes.CONFLICT,
+        { providerId, startTime, endTime, expiresAt: heldOffer.expiresAt }
+      );
+    }
+  }
+
+  /**
+   * Marks the offer held for a new booking's client and window as accepted
+   * @param booking
+   * @returns The accepted offer, or null if the booking was not for an offered slot
+   */
+  async recordBooking(booking: Booking): Promise<WaitlistOffer | null> {
+    const pendingOffers = await this.waitlistRepository.findOffers({
+      providerId: booking.providerId,
+      clientId: booking.clientId,
+      status: WaitlistOfferStatus.PENDING
+    });
+
+    const offer = pendingOffers.find(pendingOffer =>
+      isOverlapping(booking.startTime, booking.endTime, pendingOffer.startTime, pendingOffer.endTime)
+    );
+    if (!offer) {
+      return null;
+    }
+
+    return this.waitlistRepository.closeOffer(offer.id, WaitlistOfferStatus.ACCEPTED, WaitlistEntryStatus.BOOKED, booking.id);
+  }
+
+  /**
+   * Retrieves an offer the user may respond to and verifies it is still open. An offer
+   * whose hold has lapsed is expired and its slot offered to the next client.
+   * @param offerId
+   * @param userId
+   * @param userRole
+   * @returns The pending offer
+   */
+  private async getPendingOffer(offerId: string, userId: string, userRole: string): Promise<WaitlistOffer> {
+    const offer = await this.waitlistRepository.findOfferById(offerId);
+
+    if (!offer) {
+      throw errorFactory.createNotFoundError('Waitlist offer not found', { offerId });
+    }
+
+    if (!(await this.canActForClient(offer.clientId, userId, userRole))) {
+      throw errorFactory.createForbiddenError('User not authorized to respond to this offer', { offerId, userId, userRole });
+    }
+
+    if (offer.status !== WaitlistOfferStatus.PENDING) {
+      throw errorFactory.createError('Waitlist offer is no longer pending', ErrorCodes.CONFLICT, { offerId, status: offer.status });
+    }
+
+    if (offer.expiresAt <= new Date()) {
+      await this.waitlistRepository.closeOffer(offer.id, WaitlistOfferStatus.EXPIRED, WaitlistEntryStatus.WAITING);
+      await this.reofferSlots(offer.providerId);
+
+      throw errorFactory.createError('Waitlist offer has expired', ErrorCodes.CONFLICT, { offerId, expiresAt: offer.expiresAt });
+    }
+
+    return offer;
+  }
+
+  /**
+   * Retrieves a waitlist entry and verifies the user may see it
+   * @param id
+   * @param userId
+   * @param userRole
+   * @returns The entry
+   */
+  private async getAccessibleEntry(id: string, userId: string, userRole: string): Promise<WaitlistEntry> {
+    const entry = await this.waitlistRepository.findEntryById(id);
+
+    if (!entry) {
+      throw errorFactory.createNotFoundError('Waitlist entry not found', { entryId: id });
+    }
+
+    const canAccess = userRole === Roles.PROVIDER
+      ? entry.providerId === userId
+      : await this.canActForClient(entry.clientId, userId, userRole);
+
+    if (!canAccess) {
+      throw errorFactory.createForbiddenError('User not authorized to access this waitlist entry', { entryId: id, userId, userRole });
+    }
+
+    return entry;
+  }
+
+  /**
+   * Restricts entry or offer filters to the waitlists the user is a party to
+   * @param filters
+   * @param userId
+   * @param userRole
+   * @returns The scoped filters
+   */
+  private async scopeFilters<T extends WaitlistEntryFilters | WaitlistOfferFilters>(
+    filters: T,
+    userId: string,
+    userRole: string
+  ): Promise<T> {
+    const scopedFilters: T = { ...filters };
+
+    if (userRole === Roles.CLIENT) {
+      scopedFilters.clientId = userId;
+    } else if (userRole === Roles.PROVIDER) {
+      scopedFilters.providerId = userId;
+    } else if (userRole === Roles.CASE_MANAGER) {
+      const assignedClients = await this.getAssignedClients(userId);
+
+      if (scopedFilters.clientId && !assignedClients.includes(scopedFilters.clientId)) {
+        throw errorFactory.createForbiddenError('Client is not assigned to this case manager', { clientId: scopedFilters.clientId, userId });
+      }
+
+      if (!scopedFilters.clientId) {
+        scopedFilters.clientIds = assignedClients;
+      }
+    }
+
+    return scopedFilters;
+  }
+
+  /**
+   * Checks whether a user may act on behalf of a client
+   * @param clientId
+   * @param userId
+   * @param userRole
+   * @returns True if the user may act for the client
+   */
+  private async canActForClient(clientId: string, userId: string, userRole: string): Promise<boolean> {
+    switch (userRole) {
+      case Roles.ADMINISTRATOR:
+        return true;
+      case Roles.CASE_MANAGER:
+        return (await this.getAssignedClients(userId)).includes(clientId);
+      case Roles.CLIENT:
+        return clientId === userId;
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Retrieves the client IDs assigned to a case manager user
+   * @param userId
+   * @returns Assigned client IDs
+   */
+  private async getAssignedClients(userId: string): Promise<string[]> {
+    const profile = await this.caseManagerProfileRepository.findByUserId(userId);
+    return profile?.assignedClients || [];
+  }
+
+  /**
+   * Fills in missing preferences and validates the preferred time windows
+   * @param preferences
+   * @returns Complete waitlist preferences
+   */
+  private normalizePreferences(preferences: Partial<WaitlistPreferences> = {}): WaitlistPreferences {
+    const timeWindows = preferences.timeWindows ?? [];
+
+    for (const window of timeWindows) {
+      const start = parseTimeString(window.startTime);
+      const end = parseTimeString(window.endTime);
+
+      if (!start || !end || start.hours * 60 + start.minutes >= end.hours * 60 + end.minutes) {
+        throw errorFactory.createValidationError('Preferred time windows must end after they start', { window });
+      }
+    }
+
+    return {
+      daysOfWeek: preferences.daysOfWeek ?? [],
+      timeWindows,
+      maxDistance: preferences.maxDistance ?? null
+    };
+  }
+
+  /**
+   * Checks whether a provider is within a waitlisted client's maximum travel distance.
+   * Clients without a limit, or whose distance cannot be measured because an address
+   * has not been geocoded, are not excluded.
+   * @param entry
+   * @param cache - Results already calculated for this provider, by entry ID
+   * @returns True if the client can be offered the provider's slots
+   */
+  private async isWithinDistance(entry: WaitlistEntry, cache: Map<string, boolean>): Promise<boolean> {
+    const maxDistance = entry.preferences.maxDistance;
+    if (typeof maxDistance !== 'number') {
+      return true;
+    }
+
+    const cached = cache.get(entry.id);
+    if (typeof cached === 'boolean') {
+      return cached;
+    }
+
+    const [provider, client] = await Promise.all([
+      this.providerProfileRepository.findByUserId(entry.providerId),
+      this.clientProfileRepository.findByUserId(entry.clientId)
+    ]);
+    const providerCoordinates = getAddressCoordinates(provider?.address ?? null);
+    const clientCoordinates = getAddressCoordinates(client?.address ?? null);
+
+    const isWithinDistance = !providerCoordinates || !clientCoordinates
+      || calculateHaversineDistance(clientCoordinates, providerCoordinates) <= maxDistance;
+    cache.set(entry.id, isWithinDistance);
+
+    return isWithinDistance;
+  }
+
+  /**
+   * Gets the timezone a waitlisted client's day and time preferences are read in
+   * @param clientId
+   * @param cache - Timezones already looked up for this run, by client ID
+   * @returns The client's IANA timezone
+   */
+  private async getClientTimezone(clientId: string, cache: Map<string, string>): Promise<string> {
+    const cached = cache.get(clientId);
+    if (cached) {
+      return cached;
+    }
+
+    const client = await this.clientProfileRepository.findByUserId(clientId);
+    const timezone = client?.timezone || DEFAULT_TIMEZONE;
+    cache.set(clientId, timezone);
+
+    return timezone;
+  }
+
+  /**
+   * Adds the entry's place in the queue and estimated wait while it is still queued
+   * @param entry
+   * @returns The entry with its estimate
+   */
+  private async withEstimate(entry: WaitlistEntry): Promise<WaitlistEntryWithEstimate> {
+    if (entry.status !== WaitlistEntryStatus.WAITING && entry.status !== WaitlistEntryStatus.OFFERED) {
+      return { ...entry, estimate: null };
+    }
+
+    const queue = await this.waitlistRepository.findQueue(entry.providerId, entry.serviceType);
+    const index = queue.findIndex(queuedEntry => queuedEntry.id === entry.id);
+    const position = index === -1 ? queue.length + 1 : index + 1;
+
+    return { ...entry, estimate: await this.buildEstimate(entry.providerId, entry.serviceType, position) };
+  }
+
+  /**
+   * Estimates the wait for a place in a provider's queue from the provider's recent
+   * booking velocity
+   * @param providerId
+   * @param serviceType
+   * @param position
+   * @returns The wait estimate
+   */
+  private async buildEstimate(providerId: string, serviceType: ServiceType, position: number): Promise<WaitTimeEstimate> {
+    const since = new Date(Date.now() - BOOKING_VELOCITY_LOOKBACK_DAYS * MS_PER_DAY);
+    const bookingCount = await this.bookingRepository.countCreatedSince(providerId, since);
+
+    return {
+      providerId,
+      serviceType,
+      position,
+      bookingsPerWeek: Math.round((bookingCount / BOOKING_VELOCITY_LOOKBACK_DAYS) * 7 * 10) / 10,
+      estimatedWaitDays: estimateWaitDays(position, bookingCount, BOOKING_VELOCITY_LOOKBACK_DAYS)
+    };
+  }
+
+  /**
+   * Offers a provider's open slots to the next waitlisted clients
+   * @param providerId
+   * @param now
+   */
+  private async reofferSlots(providerId: string, now?: Date): Promise<void> {
+    try {
+      await this.offerOpenSlots(providerId, now);
+    } catch (error) {
+      // Slots are offered again by the next freed slot or offer expiry, so the triggering operation should not fail
+      logger.error('Error offering open slots to waitlist', { providerId, error });
+    }
+  }
+
+  /**
+   * Tells a waitlisted client that a slot is being held for them
+   * @param offer
+   */
+  private async notifyOffer(offer: WaitlistOffer): Promise<void> {
+    try {
+      const notification = await this.notificationService.createNotification({
+        userId: offer.clientId,
+        type: NOTIFICATION_TYPES.PROVIDER_AVAILABILITY,
+        title: 'An appointment is available',
+        message: 'A provider you are waiting for has an opening. Sign in to Revolucare to accept it before the hold expires.',
+        data: {
+          offerId: offer.id,
+          entryId: offer.entryId,
+          providerId: offer.providerId,
+          startTime: offer.startTime,
+          endTime: offer.endTime,
+          expiresAt: offer.expiresAt
+        },
+        priority: NOTIFICATION_PRIORITIES.HIGH
+      });
+
+      await this.notificationService.sendNotification(notification);
+    } catch (error) {
+      // Clients can still see their offers in the app, so notification failures should not fail the offer
+      logger.error('Error notifying client of waitlist offer', { offerId: offer.id, clientId: offer.clientId, error });
+    }
+  }
+}
+
+/**
+ * Factory function to create a configured WaitlistService instance with required dependencies
+ * @param bookingService - Books accepted offers; omitted when the booking service creates its own waitlist service
+ * @returns A WaitlistService instance
+ */
+export const createWaitlistService = (bookingService?: IBookingService): WaitlistService => {
+  const availabilityRepository = new ProviderAvailabilityRepository();
+  const userRepository = new UserRepository();
+  return new WaitlistService(
+    new WaitlistRepository(),
+    new BookingRepository(availabilityRepository),
+    availabilityRepository,
+    new ProviderProfileRepository(),
+    new ClientProfileRepository(),
+    new CaseManagerProfileRepository(),
+    new NotificationService(new NotificationRepository(), userRepository, new EmailService()),
+    bookingService
+  );
+};
@@ -11,7 +11,8 @@ import {
   METRIC_CATEGORIES,
   TIME_PERIODS,
   DASHBOARD_WIDGET_TYPES,
-  REPORT_FORMATS
+  REPORT_FORMATS,
+  REPORT_SCHEDULE_FREQUENCIES
 } from '../constants/metrics';
 
 /**
@@ -120,6 +121,99 @@ export interface ReportResponse {
   createdAt: Date;
 }
 
+/**
+ * A generated report file, ready to be stored or delivered
+ */
+export interface RenderedReport {
+  /** File name for the report */
+  fileName: string;
+  /** MIME type of the report file */
+  contentType: string;
+  /** The report file content */
+  content: Buffer;
+  /** Number of metrics included in the report */
+  metricCount: number;
+}
+
+/**
+ * Saved report definition. The reporting range of each delivery is derived from the
+ * schedule, so only the report contents are saved.
+ */
+export type ReportDefinition = Omit<ReportRequestDTO, 'startDate' | 'endDate' | 'format'>;
+
+/**
+ * A saved report definition delivered by email on a recurring schedule
+ */
+export interface ReportSchedule {
+  /** Unique identifier for the schedule */
+  id: string;
+  /** The report to generate on each delivery */
+  definition: ReportDefinition;
+  /** How often the report is delivered */
+  frequency: ReportScheduleFrequency;
+  /** Day of the week (0 = Sunday) for weekly schedules */
+  dayOfWeek: number | null;
+  /** Day of the month (1-28) for monthly and quarterly schedules */
+  dayOfMonth: number | null;
+  /** Hour of the day (UTC) the report is delivered */
+  hour: number;
+  /** Email addresses the report is sent to */
+  recipients: string[];
+  /** Format of the report attachment */
+  format: ReportFormat;
+  /** Whether deliveries are currently enabled */
+  isActive: boolean;
+  /** When the next delivery is due */
+  nextRunAt: Date;
+  /** When the report was last delivered */
+  lastRunAt: Date | null;
+  /** Error from the last delivery, if it failed */
+  lastError: string | null;
+  /** ID of the user who created the schedule */
+  createdById: string;
+  /** Creation time of the schedule */
+  createdAt: Date;
+  /** Last update time of the schedule */
+  updatedAt: Date;
+}
+
+/**
+ * Data transfer object for creating a report schedule
+ */
+export interface CreateReportScheduleDTO {
+  /** The report to generate on each delivery */
+  definition: ReportDefinition;
+  /** How often the report is delivered */
+  frequency: ReportScheduleFrequency;
+  /** Day of the week (0 = Sunday), required for weekly schedules */
+  dayOfWeek?: number;
+  /** Day of the month (1-28), required for monthly and quarterly schedules */
+  dayOfMonth?: number;
+  /** Hour of the day (UTC) the report is delivered */
+  hour: number;
+  /** Email addresses the report is sent to */
+  recipients: string[];
+  /** Format of the report attachment */
+  format: ReportFormat;
+  /** Whether deliveries are enabled */
+  isActive?: boolean;
+}
+
+/**
+ * Data transfer object for updating a report schedule
+ */
+export type UpdateReportScheduleDTO = Partial<CreateReportScheduleDTO>;
+
+/**
+ * Payload of the queued job that delivers a scheduled report
+ */
+export interface ScheduledReportJobData {
+  /** The schedule to deliver */
+  scheduleId: string;
+  /** The delivery slot the job was queued for */
+  runAt: Date | string;
+}
+
 /**
  * Data transfer object for requesting data export
  */
@@ -281,6 +375,11 @@ export type WidgetType = typeof DASHBOARD_WIDGET_TYPES[number];
  */
 export type ReportFormat = typeof REPORT_FORMATS[number];
 
+/**
+ * Type alias for report schedule frequencies based on metric constants
+ */
+export type ReportScheduleFrequency = typeof REPORT_SCHEDULE_FREQUENCIES[number];
+
 /**
  * Type alias for metric trend directions
  */
@@ -306,4 +405,62 @@ export interface MetricThresholds {
   warning?: number;
   /** Critical threshold value */
   critical?: number;
-}
\ No newline at end of file
+}
+/**
+ * Outcome of a single care plan goal, derived from its status and recorded progress
+ */
+export interface CarePlanOutcomeData {
+  /** The goal ID */
+  goalId: string;
+  /** The care plan the goal belongs to */
+  carePlanId: string;
+  /** The client the care plan was created for */
+  clientId: string;
+  /** Current status of the goal */
+  status: string;
+  /** Whether the goal has been achieved */
+  isAchieved: boolean;
+  /** Number of progress entries recorded in the reporting range */
+  progressEntryCount: number;
+  /** Value of the first progress entry in the reporting range */
+  firstValue: number | null;
+  /** Value of the latest progress entry in the reporting range */
+  latestValue: number | null;
+  /** Change between the first and latest progress entry */
+  change: number | null;
+}
+
+/**
+ * Effectiveness of a single care plan intervention, derived from its logged sessions
+ */
+export interface InterventionEffectivenessData {
+  /** The intervention ID */
+  interventionId: string;
+  /** The care plan the intervention belongs to */
+  carePlanId: string;
+  /** Number of sessions logged in the reporting range */
+  sessionCount: number;
+  /** Number of logged sessions the client attended */
+  attendedCount: number;
+  /** Average effectiveness rating (1-5) of rated sessions, or null if none were rated */
+  effectiveness: number | null;
+}
+
+/**
+ * Attendance at a provider's appointments, derived from booking outcomes and the late
+ * cancellations recorded under the provider's booking policy
+ */
+export interface ProviderPerformanceData {
+  /** The provider ID */
+  providerId: string;
+  /** Number of appointments completed in the reporting range */
+  completedCount: number;
+  /** Number of appointments the client did not attend */
+  noShowCount: number;
+  /** Number of appointments the client cancelled inside the cancellation window */
+  lateCancellationCount: number;
+  /** Percentage of concluded appointments the client did not attend */
+  noShowRate: number;
+  /** Percentage of concluded appointments the client cancelled late */
+  lateCancellationRate: number;
+}
@@ -0,0 +1,134 @@
+/**
+ * Standardized assessment instruments available for needs assessments
+ */
+export enum AssessmentInstrumentCode {
+  KATZ_ADL = 'katz_adl',
+  LAWTON_IADL = 'lawton_iadl',
+  PHQ_9 = 'phq_9',
+  GAD_7 = 'gad_7',
+  STEADI_FALL_RISK = 'steadi_fall_risk',
+  ZARIT_BURDEN = 'zarit_burden'
+}
+
+/**
+ * Level of risk indicated by an instrument score
+ */
+export enum AssessmentRiskLevel {
+  LOW = 'low',
+  MODERATE = 'moderate',
+  HIGH = 'high'
+}
+
+/**
+ * Direction of change between a client's two most recent scores on an instrument
+ */
+export enum ScoreTrendDirection {
+  IMPROVING = 'improving',
+  STABLE = 'stable',
+  WORSENING = 'worsening'
+}
+
+/**
+ * One answer an instrument item accepts, with the points it scores
+ */
+export interface InstrumentResponseOption {
+  value: number;
+  label: string;
+}
+
+/**
+ * One question of an instrument. Critical items raise an alert whenever they score above
+ * zero, whatever the total score, e.g. the self-harm item of the PHQ-9.
+ */
+export interface InstrumentItem {
+  id: string;
+  text: string;
+  options: InstrumentResponseOption[];
+  critical?: boolean;
+}
+
+/**
+ * A range of total scores and the interpretation given to it. Bounds are inclusive.
+ */
+export interface InstrumentScoreBand {
+  min: number;
+  max: number;
+  label: string;
+  riskLevel: AssessmentRiskLevel;
+}
+
+/**
+ * A version of a standardized assessment instrument. Instruments are scored by summing
+ * the points of the answered options; higherScoreIsWorse tells whether a rising score
+ * means the client is doing worse (PHQ-9) or better (Katz ADL).
+ */
+export interface AssessmentInstrument {
+  code: AssessmentInstrumentCode;
+  version: number;
+  name: string;
+  description: string;
+  higherScoreIsWorse: boolean;
+  items: InstrumentItem[];
+  bands: InstrumentScoreBand[];
+}
+
+/**
+ * A summary of an instrument version with the JSON schema its responses must satisfy
+ */
+export interface AssessmentInstrumentSummary {
+  code: AssessmentInstrumentCode;
+  version: number;
+  name: string;
+  description: string;
+  schema: Record<string, any>;
+}
+
+/**
+ * Answers to one instrument, keyed by item ID. The latest version is used when no
+ * version is given.
+ */
+export interface InstrumentResponseSet {
+  instrumentCode: AssessmentInstrumentCode;
+  version?: number;
+  responses: Record<string, number>;
+}
+
+/**
+ * The scored result of one instrument, stored with the needs assessment it was
+ * administered in
+ */
+export interface InstrumentScore {
+  instrumentCode: AssessmentInstrumentCode;
+  version: number;
+  score: number;
+  maxScore: number;
+  band: string;
+  riskLevel: AssessmentRiskLevel;
+  alerts: string[]; // IDs of critical items answered above zero
+}
+
+/**
+ * One instrument score within a client's score trend
+ */
+export interface ScoreTrendPoint {
+  needsAssessmentId: string;
+  assessedAt: Date;
+  version: number;
+  score: number;
+  band: string;
+  riskLevel: AssessmentRiskLevel;
+}
+
+/**
+ * A client's scores on one instrument across their needs assessments, oldest first.
+ * change and direction compare the latest score with the one before it and are null
+ * until the instrument has been administered twice.
+ */
+export interface InstrumentScoreTrend {
+  instrumentCode: AssessmentInstrumentCode;
+  name: string;
+  points: ScoreTrendPoint[];
+  latest: ScoreTrendPoint;
+  change: number | null;
+  direction: ScoreTrendDirection | null;
+}
@@ -0,0 +1,85 @@
+/**
+ * Kinds of attendance policy breach recorded against a client
+ */
+export enum PolicyViolationType {
+  LATE_CANCELLATION = 'late_cancellation',
+  NO_SHOW = 'no_show'
+}
+
+/**
+ * Lifecycle of a policy violation. Waived violations carry no fee and do not count as strikes.
+ */
+export enum PolicyViolationStatus {
+  ACTIVE = 'active',
+  WAIVED = 'waived'
+}
+
+/**
+ * A provider's rules for late cancellations and no-shows. Fees are in cents; a fee of 0
+ * records the violation without charging the client.
+ */
+export interface BookingPolicySettings {
+  cancellationWindowHours: number;
+  lateCancellationFee: number;
+  noShowFee: number;
+  strikeThreshold: number;
+  strikeWindowDays: number;
+}
+
+/**
+ * A provider's booking policy. Providers who have not set one use the default policy,
+ * reported with a null updatedAt.
+ */
+export interface BookingPolicy extends BookingPolicySettings {
+  providerId: string;
+  updatedById: string | null;
+  updatedAt: Date | null;
+}
+
+/**
+ * Data transfer object for changing a provider's booking policy
+ */
+export type UpdateBookingPolicyDTO = Partial<BookingPolicySettings>;
+
+/**
+ * A late cancellation or no-show by a client, with the fee charged for it
+ */
+export interface PolicyViolation {
+  id: string;
+  bookingId: string;
+  clientId: string;
+  providerId: string;
+  type: PolicyViolationType;
+  status: PolicyViolationStatus;
+  feeAmount: number;
+  paymentIntentId: string | null;
+  occurredAt: Date;
+  reviewRequestedAt: Date | null;
+  waivedById: string | null;
+  waiverReason: string | null;
+  waivedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Filters for listing policy violations
+ */
+export interface PolicyViolationFilters {
+  clientId?: string;
+  clientIds?: string[];
+  providerId?: string;
+  type?: PolicyViolationType;
+  status?: PolicyViolationStatus;
+}
+
+/**
+ * How a provider's concluded appointments went: attended, missed by the client or
+ * cancelled by the client inside the cancellation window
+ */
+export interface ProviderAttendance {
+  providerId: string;
+  completedCount: number;
+  noShowCount: number;
+  lateCancellationCount: number;
+}
@@ -0,0 +1,158 @@
+/**
+ * Type definitions for two-way synchronization between provider availability and
+ * external calendars (Google Calendar and Microsoft Outlook), and for the ICS feeds
+ * that let any calendar client subscribe to a user's bookings
+ */
+
+/**
+ * Lifecycle of a provider's connection to an external calendar
+ */
+export enum CalendarConnectionStatus {
+  ACTIVE = 'active',
+  ERROR = 'error'
+}
+
+/**
+ * OAuth credentials for an external calendar account
+ */
+export interface CalendarCredentials {
+  access_token: string;
+  refresh_token: string;
+  expiry_date: number;
+}
+
+/**
+ * A provider's connection to one external calendar. Personal events in the calendar
+ * block Revolucare slots, and the provider's bookings are written to it as events.
+ */
+export interface CalendarConnection {
+  id: string;
+  providerId: string;
+  calendarProvider: string; // 'google' or 'microsoft'
+  calendarId: string;
+  credentials: CalendarCredentials;
+  subscriptionId: string | null; // Google channel ID or Microsoft Graph subscription ID
+  resourceId: string | null;
+  channelToken: string; // Secret the calendar provider echoes back with each change notification
+  subscriptionExpiresAt: Date | null;
+  status: CalendarConnectionStatus;
+  lastSyncedAt: Date | null;
+  lastError: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Links a booking to the event written for it in a connected calendar
+ */
+export interface CalendarEventLink {
+  id: string;
+  bookingId: string;
+  connectionId: string;
+  externalEventId: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * An event read from an external calendar
+ */
+export interface ExternalCalendarEvent {
+  id: string;
+  summary: string;
+  description?: string;
+  start: Date;
+  end: Date;
+  status: string;
+}
+
+/**
+ * Data transfer object for connecting a provider's external calendar
+ */
+export interface ConnectCalendarDTO {
+  calendarProvider: string;
+  code: string; // OAuth authorization code from the provider's consent screen
+  calendarId?: string;
+}
+
+/**
+ * Calendar connection details safe to return to clients, without credentials or secrets
+ */
+export type CalendarConnectionSummary = Omit<CalendarConnection, 'credentials' | 'channelToken' | 'resourceId'>;
+
+/**
+ * Changes made to a provider's busy periods by reading their external calendar
+ */
+export interface CalendarInboundSyncResult {
+  connectionId: string;
+  blocked: number; // Busy periods added for new personal events
+  updated: number; // Busy periods moved because their event moved
+  unblocked: number; // Busy periods removed because their event was deleted or cancelled
+}
+
+/**
+ * Ways Revolucare and an external calendar can disagree
+ */
+export enum CalendarDriftType {
+  MISSING_EVENT = 'missing_event', // Booking has no event in the calendar
+  STALE_EVENT = 'stale_event', // Booking's event is at a different time than the booking
+  ORPHANED_EVENT = 'orphaned_event', // Event remains for a cancelled, moved or deleted booking
+  MISSING_BLOCK = 'missing_block', // Personal event is not blocking slots
+  STALE_BLOCK = 'stale_block', // Busy period does not match its personal event's time
+  ORPHANED_BLOCK = 'orphaned_block', // Busy period remains for a deleted or cancelled personal event
+  BOOKING_CONFLICT = 'booking_conflict' // Personal event overlaps a booking
+}
+
+/**
+ * A single disagreement found by reconciliation
+ */
+export interface CalendarDriftItem {
+  type: CalendarDriftType;
+  bookingId: string | null;
+  externalEventId: string | null;
+  startTime: Date;
+  endTime: Date;
+  repaired: boolean; // Booking conflicts need a person to resolve them and are never repaired
+}
+
+/**
+ * Result of comparing a calendar connection with Revolucare over the sync horizon
+ */
+export interface CalendarReconciliationReport {
+  id: string;
+  connectionId: string;
+  providerId: string;
+  rangeStart: Date;
+  rangeEnd: Date;
+  items: CalendarDriftItem[];
+  repairedCount: number;
+  unresolvedCount: number;
+  createdAt: Date;
+}
+
+/**
+ * A user's subscribable ICS feed of their upcoming bookings. Calendar clients fetch it
+ * without signing in, so access rests on a secret token of which only a hash is stored.
+ */
+export interface CalendarFeed {
+  id: string;
+  userId: string;
+  userRole: string; // Whether the feed lists the user's bookings as a client or as a provider
+  tokenHash: string;
+  lastAccessedAt: Date | null;
+  createdAt: Date;
+}
+
+/**
+ * Calendar feed details safe to return to clients, without the token
+ */
+export type CalendarFeedSummary = Pick<CalendarFeed, 'id' | 'lastAccessedAt' | 'createdAt'>;
+
+/**
+ * A newly issued calendar feed with the URLs calendar clients subscribe to. The URLs
+ * contain the token and are only returned when the feed is issued.
+ */
+export interface CalendarFeedSubscription extends CalendarFeedSummary {
+  url: string;
+  webcalUrl: string; // Opens the subscription dialog of the user's calendar app
+}
@@ -54,6 +54,21 @@ export enum InterventionStatus {
   DISCONTINUED = 'discontinued'
 }
 
+/**
+ * Enum representing the formats a care plan can be exported in.
+ */
+export enum CarePlanExportFormat {
+  /**
+   * Printable PDF document.
+   */
+  PDF = 'pdf',
+  
+  /**
+   * HL7 FHIR R4 CarePlan resource in JSON, with its goals as contained Goal resources.
+   */
+  FHIR = 'fhir'
+}
+
 /**
  * Interface representing a care plan within the Revolucare platform.
  * 
@@ -244,6 +259,117 @@ export interface CarePlanIntervention {
   updatedAt: Date;
 }
 
+/**
+ * Interface representing a progress observation recorded against a care plan goal.
+ * 
+ * Progress entries form a time series of measurements that shows how the client
+ * is moving toward the goal over the life of the care plan.
+ */
+export interface GoalProgressEntry {
+  /**
+   * Unique identifier for the progress entry.
+   */
+  id: string;
+  
+  /**
+   * Identifier of the goal the observation was recorded against.
+   */
+  goalId: string;
+  
+  /**
+   * Identifier of the care plan the goal belongs to.
+   */
+  carePlanId: string;
+  
+  /**
+   * The goal measure this observation applies to, if the goal defines several.
+   */
+  measure: string | null;
+  
+  /**
+   * Measured value of the observation (e.g., a score, a count or a percentage).
+   */
+  value: number;
+  
+  /**
+   * Date and time when the observation was made.
+   */
+  recordedAt: Date;
+  
+  /**
+   * Free-text note describing the observation.
+   */
+  note: string | null;
+  
+  /**
+   * Identifier of the user who recorded the observation.
+   */
+  recordedById: string;
+  
+  /**
+   * Date and time when the entry was created.
+   */
+  createdAt: Date;
+}
+
+/**
+ * Interface representing a logged session of a care plan intervention.
+ * 
+ * Session logs record when an intervention was actually delivered and how
+ * effective it was, so intervention effectiveness can be measured.
+ */
+export interface InterventionSession {
+  /**
+   * Unique identifier for the session log.
+   */
+  id: string;
+  
+  /**
+   * Identifier of the intervention that was delivered.
+   */
+  interventionId: string;
+  
+  /**
+   * Identifier of the care plan the intervention belongs to.
+   */
+  carePlanId: string;
+  
+  /**
+   * Date and time when the session took place.
+   */
+  sessionDate: Date;
+  
+  /**
+   * Length of the session in minutes, if recorded.
+   */
+  durationMinutes: number | null;
+  
+  /**
+   * Whether the client attended the session.
+   */
+  attended: boolean;
+  
+  /**
+   * Effectiveness rating of the session from 1 (not effective) to 5 (very effective).
+   */
+  effectivenessRating: number | null;
+  
+  /**
+   * Free-text note describing the session.
+   */
+  note: string | null;
+  
+  /**
+   * Identifier of the user who logged the session.
+   */
+  recordedById: string;
+  
+  /**
+   * Date and time when the session log was created.
+   */
+  createdAt: Date;
+}
+
 /**
  * Interface representing a historical version of a care plan.
  * 
@@ -548,4 +674,149 @@ export interface CarePlanHistoryResponse {
    * Array of version history records.
    */
   versions: CarePlanVersion[];
-}
\ No newline at end of file
+}
+
+/**
+ * Data Transfer Object (DTO) for recording progress against a care plan goal.
+ */
+export interface RecordGoalProgressDTO {
+  /**
+   * Measured value of the observation.
+   */
+  value: number;
+  
+  /**
+   * Date and time when the observation was made. Defaults to now.
+   */
+  recordedAt?: Date;
+  
+  /**
+   * The goal measure this observation applies to.
+   */
+  measure?: string;
+  
+  /**
+   * Free-text note describing the observation.
+   */
+  note?: string;
+  
+  /**
+   * New status of the goal, e.g. when the observation shows the goal was achieved.
+   */
+  goalStatus?: GoalStatus;
+}
+
+/**
+ * Data Transfer Object (DTO) for logging a session of a care plan intervention.
+ */
+export interface LogInterventionSessionDTO {
+  /**
+   * Date and time when the session took place.
+   */
+  sessionDate: Date;
+  
+  /**
+   * Length of the session in minutes.
+   */
+  durationMinutes?: number;
+  
+  /**
+   * Whether the client attended the session.
+   */
+  attended: boolean;
+  
+  /**
+   * Effectiveness rating of the session from 1 to 5.
+   */
+  effectivenessRating?: number;
+  
+  /**
+   * Free-text note describing the session.
+   */
+  note?: string;
+}
+
+/**
+ * Interface for filtering progress entries and session logs by date.
+ */
+export interface ProgressFilterParams {
+  /**
+   * Only include records on or after this date.
+   */
+  fromDate?: Date;
+  
+  /**
+   * Only include records on or before this date.
+   */
+  toDate?: Date;
+}
+
+/**
+ * Interface for the response when requesting the progress of a goal.
+ */
+export interface GoalProgressResponse {
+  /**
+   * The goal the progress was recorded against.
+   */
+  goal: CarePlanGoal;
+  
+  /**
+   * Progress entries in chronological order.
+   */
+  entries: GoalProgressEntry[];
+  
+  /**
+   * Value of the most recent entry, or null if no progress was recorded.
+   */
+  latestValue: number | null;
+  
+  /**
+   * Difference between the most recent and the first entry, or null if fewer than two entries exist.
+   */
+  change: number | null;
+}
+
+/**
+ * Interface for the response when requesting the session logs of an intervention.
+ */
+export interface InterventionSessionsResponse {
+  /**
+   * The intervention the sessions were logged for.
+   */
+  intervention: CarePlanIntervention;
+  
+  /**
+   * Session logs in chronological order.
+   */
+  sessions: InterventionSession[];
+  
+  /**
+   * Percentage of sessions the client attended, or null if no sessions were logged.
+   */
+  attendanceRate: number | null;
+  
+  /**
+   * Average effectiveness rating of rated sessions, or null if no session was rated.
+   */
+  averageEffectiveness: number | null;
+}
+
+/**
+ * Interface for an exported care plan file.
+ */
+export interface CarePlanExport {
+  /**
+   * Suggested file name for the download.
+   */
+  filename: string;
+  
+  /**
+   * Media type of the file.
+   */
+  contentType: string;
+  
+  /**
+   * File contents.
+   */
+  content: Buffer | string;
+}
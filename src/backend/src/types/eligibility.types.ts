@@ -0,0 +1,102 @@
+/**
+ * Outcome of an eligibility check
+ */
+export enum EligibilityStatus {
+  ACTIVE = 'active', // The payer reports active coverage
+  INACTIVE = 'inactive', // The payer reports no active coverage
+  ERROR = 'error' // The payer rejected the inquiry, e.g. the member was not found
+}
+
+/**
+ * The member an eligibility inquiry asks about, as recorded on the client's insurance
+ */
+export interface EligibilitySubscriber {
+  firstName: string;
+  lastName: string;
+  memberId: string; // Insurance policy number
+  groupNumber: string | null;
+  dateOfBirth: string | null; // ISO date
+}
+
+/**
+ * An eligibility inquiry, sent to the payer as an X12 270 transaction
+ */
+export interface EligibilityInquiry {
+  controlNumber: string; // Interchange control number, nine digits
+  traceNumber: string; // Echoed back by the payer in the 271 response
+  payerName: string;
+  payerId: string;
+  providerName: string;
+  providerNpi: string;
+  subscriber: EligibilitySubscriber;
+  serviceDate: string; // ISO date coverage is asked about
+  serviceTypeCodes: string[]; // X12 service type codes, e.g. "30" for general health benefits
+}
+
+/**
+ * A benefit reported in an X12 271 response, such as a copay or deductible
+ */
+export interface EligibilityBenefit {
+  serviceTypeCodes: string[];
+  coverageLevel: string | null; // e.g. "IND" for individual or "FAM" for family
+  inNetwork: boolean | null; // Null when the benefit applies in and out of network
+  timePeriod: string | null; // X12 time period qualifier, e.g. "23" calendar year or "29" remaining
+  amount: number | null;
+  percent: number | null; // Fraction, e.g. 0.2 for 20% coinsurance
+  quantity: number | null;
+  description: string | null;
+}
+
+/**
+ * Why a payer rejected an eligibility inquiry (an X12 AAA segment)
+ */
+export interface EligibilityRejection {
+  code: string; // X12 reject reason code
+  description: string;
+  followUpAction: string | null; // e.g. "C" to correct and resubmit, "R" to resubmit later
+}
+
+/**
+ * Coverage details parsed from an X12 271 response
+ */
+export interface EligibilityResult {
+  status: EligibilityStatus;
+  traceNumber: string | null;
+  payerName: string | null;
+  memberId: string | null;
+  groupNumber: string | null;
+  planName: string | null;
+  coverageStartDate: string | null; // ISO date
+  coverageEndDate: string | null; // ISO date
+  copays: EligibilityBenefit[];
+  coinsurance: EligibilityBenefit[];
+  deductibles: EligibilityBenefit[];
+  remainingVisits: number | null;
+  rejections: EligibilityRejection[];
+  messages: string[];
+}
+
+/**
+ * A recorded eligibility check of a services plan's funding source, kept with the
+ * X12 exchanged so that disputes with the payer can be traced
+ */
+export interface EligibilityCheck {
+  id: string;
+  servicesPlanId: string;
+  fundingSourceId: string;
+  clientId: string;
+  requestedById: string;
+  clearinghouse: string; // Name of the clearinghouse adapter the inquiry went through
+  controlNumber: string;
+  status: EligibilityStatus;
+  result: EligibilityResult;
+  request: string; // X12 270
+  response: string; // X12 271
+  createdAt: Date;
+}
+
+/**
+ * An eligibility check as returned by the API, without the X12 payloads. The payloads
+ * repeat the client's identifying details and are only kept for troubleshooting.
+ */
+export type EligibilityCheckSummary = Omit<EligibilityCheck, 'request' | 'response'>;
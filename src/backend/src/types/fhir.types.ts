@@ -0,0 +1,269 @@
+/**
+ * fhir.types.ts
+ *
+ * Defines TypeScript interfaces for the subset of HL7 FHIR R4 resources that Revolucare
+ * exchanges with physicians and payers. Only the elements the platform reads or writes
+ * are modelled; see https://hl7.org/fhir/R4 for the full resource definitions.
+ */
+
+/**
+ * Media type of FHIR resources serialized as JSON
+ */
+export const FHIR_JSON_CONTENT_TYPE = 'application/fhir+json';
+
+/**
+ * Base URL of the extensions defined by Revolucare
+ */
+export const REVOLUCARE_FHIR_EXTENSION_BASE = 'https://revolucare.com/fhir/StructureDefinition';
+
+/**
+ * Reference from one resource to another
+ */
+export interface FhirReference {
+  /** Literal reference, such as 'Patient/123' or '#goal-1' for contained resources */
+  reference?: string;
+  /** Text alternative for the referenced resource */
+  display?: string;
+}
+
+/**
+ * Concept that may be defined by a terminology or by text
+ */
+export interface FhirCodeableConcept {
+  /** Codes from terminologies */
+  coding?: {
+    /** Identity of the terminology system */
+    system?: string;
+    /** Symbol in the syntax defined by the system */
+    code?: string;
+    /** Representation defined by the system */
+    display?: string;
+  }[];
+  /** Plain text representation of the concept */
+  text?: string;
+}
+
+/**
+ * Text note with attribution
+ */
+export interface FhirAnnotation {
+  /** Individual responsible for the annotation */
+  authorReference?: FhirReference;
+  /** When the annotation was made */
+  time?: string;
+  /** The annotation text */
+  text: string;
+}
+
+/**
+ * Additional content defined outside the base resource
+ */
+export interface FhirExtension {
+  /** Identifies the meaning of the extension */
+  url: string;
+  /** Nested extensions of a complex extension */
+  extension?: FhirExtension[];
+  valueString?: string;
+  valueDateTime?: string;
+  valueInteger?: number;
+  valueReference?: FhirReference;
+}
+
+/**
+ * Elements shared by all FHIR resources
+ */
+export interface FhirResource {
+  /** Type of the resource */
+  resourceType: string;
+  /** Logical ID of the resource */
+  id?: string;
+  /** Metadata about the resource */
+  meta?: {
+    /** Version specific identifier */
+    versionId?: string;
+    /** When the resource version last changed */
+    lastUpdated?: string;
+  };
+  /** Additional content defined by implementations */
+  extension?: FhirExtension[];
+}
+
+/**
+ * Intended objective of care for a patient
+ */
+export interface FhirGoal extends FhirResource {
+  resourceType: 'Goal';
+  /** Lifecycle state of the goal */
+  lifecycleStatus: 'proposed' | 'planned' | 'accepted' | 'active' | 'on-hold' | 'completed' | 'cancelled' | 'entered-in-error' | 'rejected';
+  /** Progress towards the goal, such as 'in-progress' or 'achieved' */
+  achievementStatus?: FhirCodeableConcept;
+  /** Code or text describing the goal */
+  description: FhirCodeableConcept;
+  /** Who the goal is intended for */
+  subject: FhirReference;
+  /** Targets to be met by the goal */
+  target?: {
+    /** The parameter whose value is being tracked */
+    measure?: FhirCodeableConcept;
+    /** Date the target should be reached by */
+    dueDate?: string;
+  }[];
+}
+
+/**
+ * Activity planned as part of a care plan
+ */
+export interface FhirCarePlanActivity {
+  /** Simple summary of the planned activity */
+  detail?: {
+    /** Current state of the activity */
+    status: 'not-started' | 'scheduled' | 'in-progress' | 'on-hold' | 'completed' | 'cancelled' | 'stopped' | 'unknown' | 'entered-in-error';
+    /** Goals this activity relates to */
+    goal?: FhirReference[];
+    /** When the activity is to occur */
+    scheduledString?: string;
+    /** Who will be responsible for the activity */
+    performer?: FhirReference[];
+    /** Extra information about the activity */
+    description?: string;
+  };
+  /** Results of the activity */
+  outcomeCodeableConcept?: FhirCodeableConcept[];
+  /** Comments about the activity's status or results */
+  progress?: FhirAnnotation[];
+}
+
+/**
+ * Intention of how one or more practitioners will deliver care for a patient
+ */
+export interface FhirCarePlan extends FhirResource {
+  resourceType: 'CarePlan';
+  /** Resources contained in this care plan, such as its goals */
+  contained?: FhirResource[];
+  /** Care plan that this care plan replaces */
+  replaces?: FhirReference[];
+  /** State of the care plan */
+  status: 'draft' | 'active' | 'on-hold' | 'revoked' | 'completed' | 'entered-in-error' | 'unknown';
+  /** Authority of the care plan */
+  intent: 'proposal' | 'plan' | 'order' | 'option';
+  /** Human-friendly name for the care plan */
+  title?: string;
+  /** Summary of the nature of the care plan */
+  description?: string;
+  /** Who the care plan is for */
+  subject: FhirReference;
+  /** When the care plan was first recorded */
+  created?: string;
+  /** Who is responsible for the contents of the plan */
+  author?: FhirReference;
+  /** Desired outcomes of the care plan */
+  goal?: FhirReference[];
+  /** Actions that occur as part of the plan */
+  activity?: FhirCarePlanActivity[];
+  /** Comments about the plan */
+  note?: FhirAnnotation[];
+}
+
+/**
+ * Name of a person
+ */
+export interface FhirHumanName {
+  /** Purpose of the name, such as 'official' */
+  use?: string;
+  /** Text representation of the full name */
+  text?: string;
+  /** Family name */
+  family?: string;
+  /** Given names */
+  given?: string[];
+}
+
+/**
+ * Demographics of a person receiving care
+ */
+export interface FhirPatient extends FhirResource {
+  resourceType: 'Patient';
+  /** Names of the patient */
+  name?: FhirHumanName[];
+  /** Administrative gender: male, female, other or unknown */
+  gender?: string;
+  /** Date of birth (YYYY-MM-DD) */
+  birthDate?: string;
+}
+
+/**
+ * Clinical condition, problem or diagnosis
+ */
+export interface FhirCondition extends FhirResource {
+  resourceType: 'Condition';
+  /** Clinical status, such as 'active' or 'resolved' */
+  clinicalStatus?: FhirCodeableConcept;
+  /** Verification status, such as 'confirmed' or 'entered-in-error' */
+  verificationStatus?: FhirCodeableConcept;
+  /** Identification of the condition */
+  code?: FhirCodeableConcept;
+  /** Who has the condition */
+  subject: FhirReference;
+  /** When the condition began */
+  onsetDateTime?: string;
+  /** Additional information about the condition */
+  note?: FhirAnnotation[];
+}
+
+/**
+ * Allergy or intolerance of a patient
+ */
+export interface FhirAllergyIntolerance extends FhirResource {
+  resourceType: 'AllergyIntolerance';
+  /** Clinical status, such as 'active' or 'resolved' */
+  clinicalStatus?: FhirCodeableConcept;
+  /** Verification status, such as 'confirmed' or 'entered-in-error' */
+  verificationStatus?: FhirCodeableConcept;
+  /** Potential harm of a reaction: low, high or unable-to-assess */
+  criticality?: string;
+  /** Substance the patient reacts to */
+  code?: FhirCodeableConcept;
+  /** Who the allergy is for */
+  patient: FhirReference;
+  /** When the allergy was identified */
+  onsetDateTime?: string;
+  /** Additional information about the allergy */
+  note?: FhirAnnotation[];
+}
+
+/**
+ * Record of a medication being taken by a patient
+ */
+export interface FhirMedicationStatement extends FhirResource {
+  resourceType: 'MedicationStatement';
+  /** State of the statement, such as 'active' or 'stopped' */
+  status: string;
+  /** Medication being taken */
+  medicationCodeableConcept?: FhirCodeableConcept;
+  /** Reference to the medication being taken */
+  medicationReference?: FhirReference;
+  /** Who is taking the medication */
+  subject: FhirReference;
+  /** When the medication is or was taken */
+  effectiveDateTime?: string;
+  /** How the medication is taken, as free text */
+  dosage?: { text?: string }[];
+  /** Additional information about the statement */
+  note?: FhirAnnotation[];
+}
+
+/**
+ * Container for a collection of resources
+ */
+export interface FhirBundle extends FhirResource {
+  resourceType: 'Bundle';
+  /** Purpose of the bundle */
+  type: 'document' | 'message' | 'transaction' | 'transaction-response' | 'batch' | 'batch-response' | 'history' | 'searchset' | 'collection';
+  /** Entries in the bundle */
+  entry?: {
+    /** URI for the resource, such as 'urn:uuid:...' */
+    fullUrl?: string;
+    /** The resource in the entry */
+    resource?: FhirResource;
+  }[];
+}
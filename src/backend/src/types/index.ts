@@ -14,18 +14,36 @@ export * from './ai.types';
 // Export all analytics-related type definitions
 export * from './analytics.types';
 
+// Export all assessment instrument-related type definitions
+export * from './assessment-instrument.types';
+
 // Export all care plan-related type definitions
 export * from './care-plan.types';
 
 // Export all document-related type definitions
 export * from './document.types';
 
+// Export all insurance eligibility-related type definitions
+export * from './eligibility.types';
+
+// Export all FHIR resource type definitions
+export * from './fhir.types';
+
+// Export all medical history import type definitions
+export * from './medical-history.types';
+
 // Export all notification-related type definitions
 export * from './notification.types';
 
+// Export all prior authorization-related type definitions
+export * from './prior-authorization.types';
+
 // Export all provider-related type definitions
 export * from './provider.types';
 
+// Export all rate schedule-related type definitions
+export * from './rate-schedule.types';
+
 // Export all request-related type definitions
 export * from './request.types';
 
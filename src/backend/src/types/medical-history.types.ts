@@ -0,0 +1,164 @@
+/**
+ * medical-history.types.ts
+ *
+ * Defines TypeScript interfaces for importing client medical history from FHIR R4 bundles
+ * into client profiles, and for the conflicts those imports raise for case manager review.
+ */
+
+import { MedicalInformation, MedicalRecordCategory, MedicalRecordEntry, MedicalRecordSource } from './user.types';
+import { FhirBundle, FhirPatient } from './fhir.types';
+
+/**
+ * Review states of a medical history conflict
+ */
+export enum MedicalHistoryConflictStatus {
+  /** Waiting for a case manager to review */
+  PENDING = 'pending',
+  /** The imported value was applied to the profile */
+  ACCEPTED = 'accepted',
+  /** The profile's existing value was kept */
+  REJECTED = 'rejected'
+}
+
+/**
+ * Ways a case manager can resolve a medical history conflict
+ */
+export enum MedicalHistoryConflictResolution {
+  /** Apply the imported value to the profile */
+  ACCEPT_IMPORTED = 'accept_imported',
+  /** Keep the profile's existing value */
+  KEEP_EXISTING = 'keep_existing'
+}
+
+/**
+ * Record of a FHIR bundle imported into a client profile
+ */
+export interface MedicalHistoryImport {
+  /** Unique identifier of the import */
+  id: string;
+  /** User ID of the client whose profile was updated */
+  clientId: string;
+  /** ID of the imported bundle, if it had one */
+  bundleId: string | null;
+  /** User who imported the bundle */
+  importedById: string;
+  /** Number of entries added to the profile */
+  addedCount: number;
+  /** Number of entries the profile already held */
+  unchangedCount: number;
+  /** Number of resources that were not imported */
+  skippedCount: number;
+  /** Number of conflicts raised for review */
+  conflictCount: number;
+  /** When the bundle was imported */
+  createdAt: Date;
+}
+
+/**
+ * Difference between imported data and a client profile that needs case manager review
+ */
+export interface MedicalHistoryConflict {
+  /** Unique identifier of the conflict */
+  id: string;
+  /** Import that raised the conflict */
+  importId: string;
+  /** User ID of the client the conflict concerns */
+  clientId: string;
+  /** Part of the profile the conflict concerns */
+  category: MedicalRecordCategory | 'demographics';
+  /** Conflicting field, such as 'status', 'dateOfBirth' or 'name' */
+  field: string;
+  /** Human-readable explanation of the conflict */
+  description: string;
+  /** Value currently held by the profile */
+  existingValue: string | null;
+  /** Value in the imported bundle */
+  importedValue: string | null;
+  /** Imported medical information entry, for conflicts about conditions, allergies or medications */
+  record: MedicalRecordEntry | null;
+  /** Review state of the conflict */
+  status: MedicalHistoryConflictStatus;
+  /** Case manager who resolved the conflict */
+  resolvedById: string | null;
+  /** When the conflict was resolved */
+  resolvedAt: Date | null;
+  /** Note explaining the resolution */
+  resolutionNote: string | null;
+  /** When the conflict was raised */
+  createdAt: Date;
+}
+
+/**
+ * Resource in an imported bundle that was not merged into the profile
+ */
+export interface SkippedFhirResource {
+  /** The resource, such as 'Condition/123' */
+  reference: string;
+  /** Why the resource was skipped */
+  reason: string;
+}
+
+/**
+ * Medical information entry read from a FHIR resource, before it is merged into a profile
+ */
+export type ImportedMedicalRecord = Omit<MedicalRecordEntry, 'source'> & {
+  /** The source resource, such as 'Condition/123' */
+  reference: string;
+};
+
+/**
+ * Medical history read from a FHIR bundle
+ */
+export interface ParsedMedicalHistory {
+  /** The patient the bundle describes, if it contains one */
+  patient: FhirPatient | null;
+  /** Conditions, allergies and medications in the bundle */
+  records: ImportedMedicalRecord[];
+  /** Resources that cannot be imported */
+  skipped: SkippedFhirResource[];
+}
+
+/**
+ * Request to import a client's medical history
+ */
+export type ImportMedicalHistoryDTO = FhirBundle;
+
+/**
+ * Request to resolve a medical history conflict
+ */
+export interface ResolveMedicalHistoryConflictDTO {
+  /** Whether to apply the imported value or keep the existing one */
+  resolution: MedicalHistoryConflictResolution;
+  /** Optional note explaining the decision */
+  note?: string;
+}
+
+/**
+ * Result of importing a FHIR bundle into a client profile
+ */
+export interface MedicalHistoryImportResult {
+  /** The recorded import */
+  import: MedicalHistoryImport;
+  /** The client's medical information after the merge */
+  medicalInformation: MedicalInformation;
+  /** Conflicts raised for case manager review */
+  conflicts: MedicalHistoryConflict[];
+  /** Resources that were not imported */
+  skipped: SkippedFhirResource[];
+}
+
+/**
+ * Client medical history in the structured form used as input to care plan generation
+ */
+export interface MedicalHistoryInput {
+  /** Current conditions */
+  conditions: string[];
+  /** Current allergies */
+  allergies: string[];
+  /** Current medications */
+  medications: string[];
+  /** Structured entries, including inactive ones, with the kind of source they came from */
+  records: (Omit<MedicalRecordEntry, 'source'> & { source: MedicalRecordSource['system'] })[];
+  /** Descriptions of conflicts still waiting for case manager review */
+  unresolvedConflicts: string[];
+}
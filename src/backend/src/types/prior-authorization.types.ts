@@ -0,0 +1,97 @@
+/**
+ * Status of a prior authorization as decided by the payer
+ */
+export enum PriorAuthorizationStatus {
+  PENDING = 'pending', // Requested, awaiting the payer's decision
+  APPROVED = 'approved',
+  DENIED = 'denied',
+  CANCELLED = 'cancelled' // Withdrawn or revoked
+}
+
+/**
+ * Conditions of a prior authorization that case managers are alerted to
+ */
+export enum PriorAuthorizationAlert {
+  LOW_UNITS = 'low_units', // Few authorized units remain
+  EXPIRING = 'expiring' // The authorization ends soon
+}
+
+/**
+ * The fields of a prior authorization recorded from the payer's decision. Units are
+ * visits, i.e. bookings against the service item. Dates are ISO dates (YYYY-MM-DD) and
+ * inclusive.
+ */
+export interface PriorAuthorizationSettings {
+  authNumber: string;
+  approvedUnits: number;
+  startDate: string;
+  endDate: string;
+  status: PriorAuthorizationStatus;
+  documentIds: string[]; // Authorization letters and other attached documents
+  notes: string | null;
+}
+
+/**
+ * A payer's prior authorization of a service item under one of the plan's funding sources
+ */
+export interface PriorAuthorization extends PriorAuthorizationSettings {
+  id: string;
+  servicesPlanId: string;
+  serviceItemId: string;
+  fundingSourceId: string;
+  createdById: string;
+  lowUnitsAlertedAt: Date | null; // When case managers were last alerted that units run low
+  expiryAlertedAt: Date | null; // When case managers were last alerted that the authorization ends soon
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Data transfer object for recording a prior authorization
+ */
+export interface CreatePriorAuthorizationDTO {
+  serviceItemId: string;
+  fundingSourceId: string;
+  authNumber: string;
+  approvedUnits: number;
+  startDate: string;
+  endDate: string;
+  status?: PriorAuthorizationStatus;
+  documentIds?: string[];
+  notes?: string | null;
+}
+
+/**
+ * Data transfer object for changing a prior authorization
+ */
+export type UpdatePriorAuthorizationDTO = Partial<PriorAuthorizationSettings>;
+
+/**
+ * A prior authorization with the units booked against it
+ */
+export interface PriorAuthorizationSummary extends PriorAuthorization {
+  usedUnits: number; // Bookings against the service item within the authorized dates
+  remainingUnits: number;
+  daysUntilExpiry: number; // Negative once the authorization has ended
+  alerts: PriorAuthorizationAlert[];
+}
+
+/**
+ * Units requested beyond what a prior authorization allows. A null authorization means
+ * the units fall on dates no approved authorization of the service item covers.
+ */
+export interface PriorAuthorizationShortfall {
+  priorAuthorizationId: string | null;
+  authNumber: string | null;
+  requestedUnits: number;
+  remainingUnits: number;
+}
+
+/**
+ * Whether bookings against a service item are covered by its prior authorizations
+ */
+export interface PriorAuthorizationCheck {
+  required: boolean; // False for service items without any prior authorization on record
+  authorized: boolean;
+  shortfalls: PriorAuthorizationShortfall[];
+}
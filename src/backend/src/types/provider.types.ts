@@ -27,6 +27,7 @@ export interface ProviderProfile {
   insuranceAccepted: string[];
   address: Address | null;
   phone: string | null;
+  timezone: string; // IANA timezone the provider's schedule is kept in, e.g. "America/Chicago"
   averageRating: number;
   reviewCount: number;
   createdAt: Date;
@@ -47,6 +48,7 @@ export interface ProviderProfileUpdateDTO {
   insuranceAccepted: string[];
   address: Address | null;
   phone: string | null;
+  timezone: string;
 }
 
 /**
@@ -109,8 +111,8 @@ export interface RecurringSchedule {
   id: string;
   providerId: string;
   dayOfWeek: DayOfWeek;
-  startTime: string; // Format: "HH:MM" in 24-hour format
-  endTime: string; // Format: "HH:MM" in 24-hour format
+  startTime: string; // Format: "HH:MM" in 24-hour format, in the provider's timezone
+  endTime: string; // Format: "HH:MM" in 24-hour format, in the provider's timezone
   serviceTypes: ServiceType[];
 }
 
@@ -127,15 +129,30 @@ export interface AvailabilityException {
   alternativeSlots: TimeSlot[] | null;
 }
 
+/**
+ * A period the provider is busy with a personal event in a connected external calendar.
+ * Slots overlapping a busy period are not offered.
+ */
+export interface BusyPeriod {
+  id: string;
+  providerId: string;
+  connectionId: string; // Calendar connection the event was read from
+  externalEventId: string;
+  startTime: Date;
+  endTime: Date;
+}
+
 /**
  * Represents the complete availability data for a provider
- * Combines specific time slots, recurring schedules, and exceptions
+ * Combines specific time slots, recurring schedules, exceptions and external calendar busy periods
  */
 export interface Availability {
   providerId: string;
+  timezone: string; // Provider's IANA timezone; recurring schedule times are wall-clock times in it
   slots: TimeSlot[];
   recurringSchedule: RecurringSchedule[];
   exceptions: AvailabilityException[];
+  busyPeriods: BusyPeriod[];
   lastUpdated: Date;
 }
 
@@ -216,6 +233,98 @@ export interface ProviderMatchingCriteria {
   languagePreference: string[] | null;
   experienceLevel: string | null;
   additionalPreferences: Record<string, string>;
+  matchingProfileId?: string | null;
+}
+
+/**
+ * Factors scored by the provider matching algorithm
+ */
+export enum MatchFactorName {
+  SERVICE_MATCH = 'serviceMatch',
+  LOCATION_PROXIMITY = 'locationProximity',
+  SPECIALIZATION_MATCH = 'specializationMatch',
+  EXPERIENCE = 'experience',
+  INSURANCE_COMPATIBILITY = 'insuranceCompatibility',
+  PREFERENCE_MATCH = 'preferenceMatch',
+  RELIABILITY = 'reliability'
+}
+
+/**
+ * Weight of each match factor, between 0 and 1. Factors without a weight use the default.
+ */
+export type MatchFactorWeights = Partial<Record<MatchFactorName, number>>;
+
+/**
+ * Requirements a provider must meet to be matched at all, regardless of score
+ */
+export interface MatchingProfileFilters {
+  maxDistance?: number | null;
+  minRating?: number | null;
+  minReviewCount?: number | null;
+  requireInsuranceAccepted?: boolean;
+  requiredSpecializations?: string[];
+}
+
+/**
+ * Weights and filters that replace a profile's own for a specific service type
+ */
+export interface MatchingProfileOverride {
+  weights?: MatchFactorWeights;
+  filters?: MatchingProfileFilters;
+}
+
+/**
+ * Admin-managed configuration of how providers are scored and filtered during matching
+ */
+export interface MatchingProfile {
+  id: string;
+  name: string;
+  description: string;
+  weights: MatchFactorWeights;
+  filters: MatchingProfileFilters;
+  serviceTypeOverrides: Partial<Record<ServiceType, MatchingProfileOverride>>;
+  isDefault: boolean;
+  createdById: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Data transfer object for creating a matching profile
+ */
+export interface CreateMatchingProfileDTO {
+  name: string;
+  description?: string;
+  weights: MatchFactorWeights;
+  filters?: MatchingProfileFilters;
+  serviceTypeOverrides?: Partial<Record<ServiceType, MatchingProfileOverride>>;
+  isDefault?: boolean;
+}
+
+/**
+ * Data transfer object for updating a matching profile
+ */
+export type UpdateMatchingProfileDTO = Partial<CreateMatchingProfileDTO>;
+
+/**
+ * The matching profile applied to a match, with any service type override already merged in
+ */
+export interface AppliedMatchingProfile {
+  id: string | null;
+  name: string;
+  serviceType: ServiceType | null;
+  weights: Record<MatchFactorName, number>;
+  filters: MatchingProfileFilters;
+}
+
+/**
+ * How much a single factor added to a provider's compatibility score
+ */
+export interface MatchFactorContribution {
+  name: string;
+  score: number;
+  weight: number;
+  contribution: number;
 }
 
 /**
@@ -237,4 +346,105 @@ export interface ProviderMatch {
   matchFactors: MatchFactor[];
   availableSlots: TimeSlot[] | null;
   distance: number | null;
-}
\ No newline at end of file
+  matchingProfile: { id: string | null; name: string; serviceType: ServiceType | null };
+  scoreBreakdown: MatchFactorContribution[];
+}
+/**
+ * Decision recorded about a provider offered by (or chosen instead of) a match
+ */
+export enum MatchDecision {
+  ACCEPTED = 'accepted',
+  REJECTED = 'rejected',
+  OVERRIDDEN = 'overridden'
+}
+
+/**
+ * A provider as ranked in a recorded matching request
+ */
+export interface MatchSessionResult {
+  providerId: string;
+  rank: number;
+  compatibilityScore: number;
+  distance: number | null;
+  scoreBreakdown: MatchFactorContribution[];
+}
+
+/**
+ * A recorded matching request and the ranking it returned
+ */
+export interface MatchSession {
+  id: string;
+  clientId: string;
+  requestedById: string;
+  criteria: ProviderMatchingCriteria;
+  matchingProfileId: string | null;
+  results: MatchSessionResult[];
+  createdAt: Date;
+}
+
+/**
+ * Why a case manager or client accepted, rejected or overrode a match, and the booking
+ * and review that followed
+ */
+export interface MatchFeedback {
+  id: string;
+  matchSessionId: string;
+  clientId: string;
+  providerId: string;
+  rank: number | null;
+  decision: MatchDecision;
+  reason: string;
+  recordedById: string;
+  bookingId: string | null;
+  reviewId: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Data transfer object for recording a decision about a match
+ */
+export interface MatchFeedbackDTO {
+  providerId: string;
+  decision: MatchDecision;
+  reason?: string;
+}
+
+/**
+ * A recorded matching request together with the decisions made about it
+ */
+export interface MatchSessionWithFeedback extends MatchSession {
+  feedback: MatchFeedback[];
+}
+
+/**
+ * Options for replaying recorded matching requests against candidate profiles
+ */
+export interface MatchEvaluationOptions {
+  profileIds: string[];
+  k: number;
+  startDate?: Date;
+  endDate?: Date;
+}
+
+/**
+ * Ranking metrics of one weighting averaged over the evaluated matching requests
+ */
+export interface MatchEvaluationResult {
+  profileId: string | null;
+  profileName: string;
+  precisionAtK: number;
+  ndcgAtK: number;
+}
+
+/**
+ * Outcome of replaying recorded matching requests. The baseline is the ranking that
+ * was actually returned at the time.
+ */
+export interface MatchEvaluationReport {
+  k: number;
+  sessionCount: number;
+  skippedSessionCount: number;
+  baseline: MatchEvaluationResult;
+  candidates: MatchEvaluationResult[];
+}
@@ -0,0 +1,89 @@
+import { ServiceType } from '../constants/service-types';
+import { FundingSourceType } from '../models/funding-source.model';
+
+/**
+ * Unit a rate is charged per
+ */
+export enum RateUnit {
+  PER_15_MINUTES = 'per_15_minutes',
+  PER_HOUR = 'per_hour',
+  PER_VISIT = 'per_visit',
+  PER_DAY = 'per_day'
+}
+
+/**
+ * The fields of a rate schedule set by administrators. A null funding source type, region
+ * or provider applies the rate to all of them; the most specific schedule in effect wins.
+ * Regions are two-letter state codes. Dates are ISO dates (YYYY-MM-DD) and inclusive;
+ * a null effectiveTo leaves the rate in effect until it is replaced.
+ */
+export interface RateScheduleSettings {
+  serviceType: ServiceType;
+  fundingSourceType: FundingSourceType | null;
+  region: string | null;
+  providerId: string | null;
+  unit: RateUnit;
+  rate: number; // Amount charged per unit
+  effectiveFrom: string;
+  effectiveTo: string | null;
+}
+
+/**
+ * A rate charged for a service type, as maintained in the fee tables
+ */
+export interface RateSchedule extends RateScheduleSettings {
+  id: string;
+  createdById: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Data transfer object for creating a rate schedule
+ */
+export type CreateRateScheduleDTO = Omit<RateScheduleSettings, 'fundingSourceType' | 'region' | 'providerId' | 'effectiveTo'> &
+  Partial<Pick<RateScheduleSettings, 'fundingSourceType' | 'region' | 'providerId' | 'effectiveTo'>>;
+
+/**
+ * Data transfer object for changing a rate schedule
+ */
+export type UpdateRateScheduleDTO = Partial<RateScheduleSettings>;
+
+/**
+ * Filters for listing rate schedules. activeOn lists the schedules in effect on an ISO date.
+ */
+export interface RateScheduleFilters {
+  serviceType?: ServiceType;
+  fundingSourceType?: FundingSourceType;
+  region?: string;
+  providerId?: string;
+  activeOn?: string;
+}
+
+/**
+ * What a service is delivered under, used to find the rate schedules that apply to it
+ */
+export interface RateLookup {
+  serviceType: ServiceType;
+  fundingSourceType: FundingSourceType;
+  region: string | null;
+  providerId: string | null;
+  date: string;
+}
+
+/**
+ * A rate schedule applied to price a service item. A visit is one planned unit of the
+ * item; its cost is the rate times the rate units billed for the visit.
+ */
+export interface AppliedRate {
+  rateScheduleId: string;
+  fundingSourceType: FundingSourceType | null;
+  region: string | null;
+  providerId: string | null;
+  unit: RateUnit;
+  rate: number;
+  effectiveFrom: string;
+  effectiveTo: string | null;
+  billedUnitsPerVisit: number;
+  costPerVisit: number;
+}
@@ -0,0 +1,50 @@
+/**
+ * Type definitions for the appointment reminders sent to clients before their bookings,
+ * and for the replies clients send to SMS reminders
+ */
+
+/**
+ * Channels appointment reminders can be sent through
+ */
+export type ReminderChannel = 'email' | 'sms';
+
+/**
+ * When and how a reminder is sent before each booking
+ */
+export interface ReminderRule {
+  offsetMinutes: number; // How long before the booking starts the reminder is sent
+  channel: ReminderChannel;
+}
+
+/**
+ * Data of the delayed job that sends one reminder for a booking
+ */
+export interface ReminderJobData {
+  bookingId: string;
+  rule: ReminderRule;
+}
+
+/**
+ * What a client asked for in reply to an SMS reminder
+ */
+export enum ReminderResponse {
+  CONFIRMED = 'confirmed',
+  CANCELLED = 'cancelled'
+}
+
+/**
+ * A reminder that was sent for a booking. SMS reminders are kept so that a reply from
+ * the number a reminder went to can be matched to its booking.
+ */
+export interface BookingReminder {
+  id: string;
+  bookingId: string;
+  clientId: string;
+  channel: ReminderChannel;
+  recipient: string; // Email address or phone number the reminder was sent to
+  offsetMinutes: number;
+  appointmentTime: Date;
+  sentAt: Date;
+  response: ReminderResponse | null;
+  respondedAt: Date | null;
+}
@@ -326,6 +326,7 @@ export interface UpdateProviderProfileDTO {
     country: string;
   };
   phone: string;
+  timezone: string;
 }
 
 /**
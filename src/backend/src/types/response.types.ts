@@ -20,6 +20,9 @@ import {
   ReportResponse, 
   ExportResponse 
 } from './analytics.types';
+import { MatchFactorContribution, RecurringSchedule } from './provider.types';
+import { InstrumentResponseSet, InstrumentScore } from './assessment-instrument.types';
+import { ServiceType } from '../constants/service-types';
 import { ValidationError } from '../interfaces/error.interface';
 
 /**
@@ -254,6 +257,8 @@ export interface NeedsAssessmentDTO {
   clientId: string;
   createdById: string;
   assessmentData: Record<string, any>;
+  instrumentResponses: InstrumentResponseSet[];
+  scores: InstrumentScore[];
   notes: string;
   createdAt: Date;
   updatedAt: Date;
@@ -313,6 +318,7 @@ export interface ProviderMatchResponse {
   data: {
     matches: ProviderMatchDTO[];
     totalMatches: number;
+    matchSessionId: string;
   };
 }
 
@@ -325,6 +331,8 @@ export interface ProviderMatchDTO {
   distance: number;
   nextAvailability: Date | null;
   matchFactors: Record<string, number>;
+  matchingProfile: { id: string | null; name: string; serviceType: ServiceType | null };
+  scoreBreakdown: MatchFactorContribution[];
 }
 
 /**
@@ -336,31 +344,41 @@ export interface AvailabilityResponse {
   data: AvailabilityDTO;
 }
 
+/**
+ * Data transfer object for a time slot in responses. Times are ISO 8601 strings in the
+ * provider's timezone with an explicit UTC offset, e.g. "2030-03-10T09:00:00-04:00".
+ */
+export interface TimeSlotDTO {
+  id: string;
+  providerId: string;
+  startTime: string;
+  endTime: string;
+  serviceType: ServiceType;
+  isBooked: boolean;
+  bookingId: string | null;
+}
+
 /**
  * Data transfer object for availability information in responses
  */
 export interface AvailabilityDTO {
   providerId: string;
-  slots: {
-    id: string;
-    startTime: Date;
-    endTime: Date;
-    status: string;
-  }[];
-  recurringSchedule: {
-    id: string;
-    dayOfWeek: number;
-    startTime: string;
-    endTime: string;
-    status: string;
-  }[];
+  timezone: string; // IANA timezone the schedule and exception dates are kept in
+  slots: TimeSlotDTO[];
+  recurringSchedule: RecurringSchedule[];
   exceptions: {
     id: string;
-    date: Date;
+    providerId: string;
+    date: string; // Format: "YYYY-MM-DD" in the provider's timezone
     isAvailable: boolean;
-    reason?: string;
+    reason: string | null;
+    alternativeSlots: TimeSlotDTO[] | null;
+  }[];
+  busyPeriods: {
+    startTime: string; // Busy times only; personal event details are not exposed
+    endTime: string;
   }[];
-  lastUpdated: Date;
+  lastUpdated: string;
 }
 
 /**
@@ -1,5 +1,8 @@
 import { PlanStatus } from '../constants/plan-statuses';
 import { ServiceType } from '../constants/service-types';
+import { PaymentStatus } from '../constants/payment-statuses';
+import { InstrumentResponseSet, InstrumentScore } from './assessment-instrument.types';
+import { AppliedRate } from './rate-schedule.types';
 
 /**
  * Interface representing a complete services plan that outlines
@@ -32,11 +35,37 @@ export interface NeedsAssessment {
   clientId: string;
   createdById: string;
   assessmentData: Record<string, any>; // Structured assessment data
+  instrumentResponses: InstrumentResponseSet[]; // Answers to standardized instruments
+  scores: InstrumentScore[]; // Scores of the instrument responses
   notes: string;
   createdAt: Date;
   updatedAt: Date;
 }
 
+/**
+ * Calendar unit that a service cadence repeats over
+ */
+export enum CadencePeriod {
+  DAY = 'day',
+  WEEK = 'week',
+  MONTH = 'month'
+}
+
+/**
+ * Structured schedule of a service item. A unit is one session or visit, delivered as one
+ * booking. The service runs between its start and end dates, or for a number of periods;
+ * with neither bound it is ongoing.
+ */
+export interface ServiceCadence {
+  unitsPerPeriod: number; // Units delivered in each period
+  period: CadencePeriod;
+  periodInterval: number; // Calendar units per period, e.g. 2 for every other week
+  startDate: string | null; // ISO date (YYYY-MM-DD) the service starts
+  endDate: string | null; // ISO date (YYYY-MM-DD) the service ends
+  periodCount: number | null; // Periods the service runs for; fractional when bounded by a number of sessions
+  sessionMinutes: number | null; // Length of one session, null if not known
+}
+
 /**
  * Interface representing an individual service included 
  * in a services plan.
@@ -49,8 +78,11 @@ export interface ServiceItem {
   description: string;
   frequency: string; // e.g., "3x weekly", "daily", etc.
   duration: string; // e.g., "8 weeks", "ongoing", etc.
+  cadence: ServiceCadence | null; // Structured form of frequency and duration, null if they could not be read
+  unitCost: number | null; // Cost of one unit; estimates fall back to estimatedCost when not set
   estimatedCost: number;
   status: string; // e.g., "pending", "scheduled", "active", "completed", "discontinued"
+  paymentStatus: PaymentStatus; // Tracked separately from delivery status
   createdAt: Date;
   updatedAt: Date;
 }
@@ -77,6 +109,7 @@ export interface FundingSource {
 export interface CreateNeedsAssessmentDTO {
   clientId: string;
   assessmentData: Record<string, any>;
+  instrumentResponses?: InstrumentResponseSet[];
   notes: string;
 }
 
@@ -102,6 +135,8 @@ export interface CreateServiceItemDTO {
   description: string;
   frequency: string;
   duration: string;
+  cadence?: ServiceCadence | null; // Parsed from frequency and duration when not given
+  unitCost?: number | null;
   estimatedCost: number;
 }
 
@@ -137,6 +172,8 @@ export interface UpdateServiceItemDTO {
   description: string;
   frequency: string;
   duration: string;
+  cadence?: ServiceCadence | null; // Parsed from frequency and duration when not given
+  unitCost?: number | null;
   estimatedCost: number;
   status: string;
 }
@@ -188,7 +225,11 @@ export interface CostEstimateResponse {
   coveredAmount: number;
   outOfPocketCost: number;
   serviceBreakdown: {
+    serviceItemId: string;
     serviceType: string;
+    plannedUnits: number | null; // Null for ongoing services and unreadable schedules
+    unitCost: number | null;
+    appliedRate: AppliedRate | null; // Rate schedule the item was priced at, null if it was not priced from the fee tables
     cost: number;
     covered: number;
     outOfPocket: number;
@@ -200,6 +241,19 @@ export interface CostEstimateResponse {
   }[];
 }
 
+/**
+ * Planned and delivered units of a service item. Delivered units are the item's
+ * completed bookings.
+ */
+export interface ServiceItemUtilization {
+  serviceItemId: string;
+  serviceType: ServiceType;
+  cadence: ServiceCadence | null;
+  plannedUnits: number | null; // Null for ongoing services and unreadable schedules
+  deliveredUnits: number;
+  remainingUnits: number | null;
+}
+
 /**
  * Response structure for funding sources identification.
  */
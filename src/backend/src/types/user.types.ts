@@ -67,13 +67,47 @@ export interface Insurance {
 }
 
 /**
- * Medical information for client profiles
+ * Kinds of entries in a client's medical information
+ */
+export type MedicalRecordCategory = 'condition' | 'allergy' | 'medication';
+
+/**
+ * Provenance of a medical information entry
+ */
+export interface MedicalRecordSource {
+  system: 'fhir' | 'manual' | 'document';
+  reference: string | null; // Source record, e.g. 'Condition/123' for FHIR imports
+  importId: string | null;
+  recordedById: string;
+  recordedAt: Date;
+}
+
+/**
+ * Structured medical information entry with its provenance
+ */
+export interface MedicalRecordEntry {
+  category: MedicalRecordCategory;
+  display: string;
+  code: string | null;
+  codeSystem: string | null;
+  status: string | null;
+  active: boolean;
+  onsetDate: string | null;
+  detail: string | null; // Dosage of medications, criticality of allergies
+  source: MedicalRecordSource;
+}
+
+/**
+ * Medical information for client profiles. The condition, allergy and medication lists
+ * hold the client's current entries; structured records, where available, also keep
+ * inactive entries and where each entry came from.
  */
 export interface MedicalInformation {
   conditions: string[];
   allergies: string[];
   medications: string[];
   notes: string;
+  records?: MedicalRecordEntry[];
 }
 
 /**
@@ -86,6 +120,7 @@ export interface ClientProfile {
   gender: string | null;
   address: Address | null;
   phone: string | null;
+  timezone: string; // IANA timezone the client schedules in, e.g. "America/Denver"
   emergencyContact: EmergencyContact | null;
   medicalInformation: MedicalInformation | null;
   insurance: Insurance | null;
@@ -109,6 +144,7 @@ export interface ProviderProfile {
   bio: string | null;
   specializations: string[];
   insuranceAccepted: string[];
+  timezone: string; // IANA timezone the provider's schedule is kept in
   averageRating: number;
   reviewCount: number;
   createdAt: Date;
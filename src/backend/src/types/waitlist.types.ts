@@ -0,0 +1,133 @@
+import { ServiceType } from '../constants/service-types';
+import { DayOfWeek } from './provider.types';
+
+/**
+ * Lifecycle of a client's place on a provider's waitlist
+ */
+export enum WaitlistEntryStatus {
+  WAITING = 'waiting',
+  OFFERED = 'offered',
+  BOOKED = 'booked',
+  CANCELLED = 'cancelled'
+}
+
+/**
+ * Lifecycle of a slot offered to a waitlisted client
+ */
+export enum WaitlistOfferStatus {
+  PENDING = 'pending',
+  ACCEPTED = 'accepted',
+  DECLINED = 'declined',
+  EXPIRED = 'expired',
+  WITHDRAWN = 'withdrawn'
+}
+
+/**
+ * Time of day a client can attend, in "HH:MM" 24-hour format and the same server time
+ * as provider recurring schedules
+ */
+export interface WaitlistTimeWindow {
+  startTime: string;
+  endTime: string;
+}
+
+/**
+ * Which freed slots a waitlisted client wants to be offered. Empty lists accept any
+ * day or time.
+ */
+export interface WaitlistPreferences {
+  daysOfWeek: DayOfWeek[];
+  timeWindows: WaitlistTimeWindow[];
+  maxDistance: number | null;
+}
+
+/**
+ * A client's place on a provider's waitlist for a service type. Entries with a higher
+ * priority are offered slots first; equal priorities are offered in joining order.
+ */
+export interface WaitlistEntry {
+  id: string;
+  providerId: string;
+  clientId: string;
+  serviceType: ServiceType;
+  preferences: WaitlistPreferences;
+  priority: number;
+  status: WaitlistEntryStatus;
+  notes: string | null;
+  createdById: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * A freed slot held for a waitlisted client until the offer expires
+ */
+export interface WaitlistOffer {
+  id: string;
+  entryId: string;
+  providerId: string;
+  clientId: string;
+  serviceType: ServiceType;
+  startTime: Date;
+  endTime: Date;
+  status: WaitlistOfferStatus;
+  expiresAt: Date;
+  bookingId: string | null;
+  respondedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Data transfer object for joining a provider's waitlist
+ */
+export interface CreateWaitlistEntryDTO {
+  providerId: string;
+  clientId: string;
+  serviceType: ServiceType;
+  preferences?: Partial<WaitlistPreferences>;
+  priority?: number;
+  notes?: string | null;
+}
+
+/**
+ * Filters for listing waitlist entries
+ */
+export interface WaitlistEntryFilters {
+  providerId?: string;
+  clientId?: string;
+  clientIds?: string[];
+  serviceType?: ServiceType;
+  status?: WaitlistEntryStatus;
+}
+
+/**
+ * Filters for listing waitlist offers
+ */
+export interface WaitlistOfferFilters {
+  providerId?: string;
+  clientId?: string;
+  clientIds?: string[];
+  entryId?: string;
+  status?: WaitlistOfferStatus;
+  startsAfter?: Date;
+}
+
+/**
+ * Estimated wait for a place on a provider's waitlist, based on how quickly the
+ * provider has been taking bookings
+ */
+export interface WaitTimeEstimate {
+  providerId: string;
+  serviceType: ServiceType;
+  position: number;
+  bookingsPerWeek: number;
+  estimatedWaitDays: number | null;
+}
+
+/**
+ * A waitlist entry with its place in the queue and estimated wait
+ */
+export interface WaitlistEntryWithEstimate extends WaitlistEntry {
+  estimate: WaitTimeEstimate | null;
+}
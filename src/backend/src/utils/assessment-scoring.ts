@@ -0,0 +1,168 @@
+/**
+ * Utility module for standardized assessment instruments: describing an instrument's
+ * responses as a JSON schema, validating and scoring responses, and trending a client's
+ * scores across their needs assessments.
+ *
+ * @module utils/assessment-scoring
+ */
+
+import { getAssessmentInstrument } from '../constants/assessment-instruments';
+import {
+  AssessmentInstrument,
+  AssessmentInstrumentCode,
+  InstrumentScore,
+  InstrumentScoreTrend,
+  ScoreTrendDirection,
+  ScoreTrendPoint
+} from '../types/assessment-instrument.types';
+import { NeedsAssessment } from '../types/services-plan.types';
+
+/**
+ * Describes the responses to an instrument as a JSON schema (draft 2020-12), so that
+ * clients can render and check the form without knowing the instrument
+ *
+ * @param instrument - The instrument
+ * @returns JSON schema for the responses object, keyed by item ID
+ */
+export function buildInstrumentSchema(instrument: AssessmentInstrument): Record<string, any> {
+  const properties: Record<string, any> = {};
+  instrument.items.forEach(item => {
+    properties[item.id] = {
+      title: item.text,
+      type: 'integer',
+      oneOf: item.options.map(option => ({ const: option.value, title: option.label }))
+    };
+  });
+
+  return {
+    $schema: 'https://json-schema.org/draft/2020-12/schema',
+    $id: `urn:revolucare:assessment-instrument:${instrument.code}:${instrument.version}`,
+    title: instrument.name,
+    description: instrument.description,
+    type: 'object',
+    properties,
+    required: instrument.items.map(item => item.id),
+    additionalProperties: false
+  };
+}
+
+/**
+ * Checks responses against an instrument. Every item must be answered with one of the
+ * values it accepts, and no other keys may be present.
+ *
+ * @param instrument - The instrument
+ * @param responses - Answers keyed by item ID
+ * @returns Descriptions of the problems found, empty if the responses are valid
+ */
+export function validateInstrumentResponses(
+  instrument: AssessmentInstrument,
+  responses: Record<string, number>
+): string[] {
+  const errors: string[] = [];
+  const itemIds = new Set(instrument.items.map(item => item.id));
+
+  instrument.items.forEach(item => {
+    const value = responses[item.id];
+    if (value === undefined || value === null) {
+      errors.push(`${item.id}: answer is required`);
+    } else if (!item.options.some(option => option.value === value)) {
+      errors.push(`${item.id}: ${value} is not an accepted answer`);
+    }
+  });
+
+  Object.keys(responses)
+    .filter(key => !itemIds.has(key))
+    .forEach(key => errors.push(`${key}: not an item of ${instrument.code} version ${instrument.version}`));
+
+  return errors;
+}
+
+/**
+ * Scores responses to an instrument and places the total in its score band. The
+ * responses must already have been validated.
+ *
+ * @param instrument - The instrument
+ * @param responses - Answers keyed by item ID
+ * @returns The score, its band and risk level, and any critical items answered above zero
+ */
+export function scoreInstrument(instrument: AssessmentInstrument, responses: Record<string, number>): InstrumentScore {
+  const score = instrument.items.reduce((total, item) => total + responses[item.id], 0);
+  const maxScore = instrument.items.reduce(
+    (total, item) => total + Math.max(...item.options.map(option => option.value)),
+    0
+  );
+
+  const band = instrument.bands.find(candidate => score >= candidate.min && score <= candidate.max);
+  if (!band) {
+    throw new Error(`No score band of ${instrument.code} version ${instrument.version} covers a score of ${score}`);
+  }
+
+  return {
+    instrumentCode: instrument.code,
+    version: instrument.version,
+    score,
+    maxScore,
+    band: band.label,
+    riskLevel: band.riskLevel,
+    alerts: instrument.items
+      .filter(item => item.critical && responses[item.id] > 0)
+      .map(item => item.id)
+  };
+}
+
+/**
+ * Trends a client's instrument scores across their needs assessments. Each instrument
+ * administered at least once gets a trend of its scores, oldest first.
+ *
+ * @param assessments - The client's needs assessments, in any order
+ * @returns One trend per instrument, in the order the instruments were first administered
+ */
+export function buildScoreTrends(assessments: NeedsAssessment[]): InstrumentScoreTrend[] {
+  const chronological = [...assessments].sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+  const pointsByInstrument = new Map<AssessmentInstrumentCode, ScoreTrendPoint[]>();
+
+  chronological.forEach(assessment => {
+    (assessment.scores || []).forEach(score => {
+      const points = pointsByInstrument.get(score.instrumentCode) || [];
+      points.push({
+        needsAssessmentId: assessment.id,
+        assessedAt: assessment.createdAt,
+        version: score.version,
+        score: score.score,
+        band: score.band,
+        riskLevel: score.riskLevel
+      });
+      pointsByInstrument.set(score.instrumentCode, points);
+    });
+  });
+
+  return Array.from(pointsByInstrument.entries()).map(([instrumentCode, points]) => {
+    const instrument = getAssessmentInstrument(instrumentCode);
+    const latest = points[points.length - 1];
+    const previous = points.length > 1 ? points[points.length - 2] : null;
+    const change = previous ? latest.score - previous.score : null;
+
+    return {
+      instrumentCode,
+      name: instrument ? instrument.name : instrumentCode,
+      points,
+      latest,
+      change,
+      direction: change === null ? null : trendDirection(change, instrument ? instrument.higherScoreIsWorse : true)
+    };
+  });
+}
+
+/**
+ * Reads the direction of a change in score
+ * @param change - Latest score minus the previous score
+ * @param higherScoreIsWorse - Whether a rising score means the client is doing worse
+ * @returns The trend direction
+ */
+function trendDirection(change: number, higherScoreIsWorse: boolean): ScoreTrendDirection {
+  if (change === 0) {
+    return ScoreTrendDirection.STABLE;
+  }
+
+  return (change > 0) === higherScoreIsWorse ? ScoreTrendDirection.WORSENING : ScoreTrendDirection.IMPROVING;
+}
@@ -446,4 +446,210 @@ export const getWeekNumber = (date: Date): number => {
 export const getQuarterFromDate = (date: Date): number => {
   const month = date.getMonth();
   return Math.floor(month / 3) + 1;
-};
\ No newline at end of file
+};
+
+/**
+ * Timezone used for providers and clients who have not set one
+ */
+export const DEFAULT_TIMEZONE = 'UTC';
+
+/**
+ * Calendar date and wall-clock time in a particular timezone
+ */
+export interface ZonedDateParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hours: number;
+  minutes: number;
+  seconds: number;
+}
+
+// Formatters are expensive to create and slot generation converts many dates per timezone
+const zonedFormatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Gets a cached formatter that writes dates as numeric parts in a timezone
+ * 
+ * @param timeZone - IANA timezone name
+ * @returns Formatter for the timezone
+ */
+const getZonedFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = zonedFormatters.get(timeZone);
+  
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric'
+    });
+    zonedFormatters.set(timeZone, formatter);
+  }
+  
+  return formatter;
+};
+
+/**
+ * Checks whether a string is an IANA timezone name the runtime recognises
+ * 
+ * @param timeZone - Timezone name to check, e.g. "America/Chicago"
+ * @returns True if the timezone is valid
+ */
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    getZonedFormatter(timeZone);
+    return true;
+  } catch (error) {
+    return false;
+  }
+};
+
+/**
+ * Gets the calendar date and wall-clock time of an instant in a timezone
+ * 
+ * @param date - The instant
+ * @param timeZone - IANA timezone name
+ * @returns Date and time parts as seen in the timezone
+ */
+export const getZonedDateParts = (date: Date, timeZone: string): ZonedDateParts => {
+  const parts: Record<string, number> = {};
+  
+  for (const part of getZonedFormatter(timeZone).formatToParts(date)) {
+    if (part.type !== 'literal') {
+      parts[part.type] = parseInt(part.value, 10);
+    }
+  }
+  
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hours: parts.hour,
+    minutes: parts.minute,
+    seconds: parts.second
+  };
+};
+
+/**
+ * Gets a timezone's offset from UTC at an instant, which differs either side of a DST change
+ * 
+ * @param date - The instant
+ * @param timeZone - IANA timezone name
+ * @returns Offset in minutes, positive east of UTC
+ */
+export const getTimeZoneOffset = (date: Date, timeZone: string): number => {
+  const parts = getZonedDateParts(date, timeZone);
+  const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hours, parts.minutes, parts.seconds);
+  
+  return Math.round((wallClock - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+};
+
+/**
+ * Converts a wall-clock time in a timezone to the instant it occurs. A time skipped by a
+ * DST change resolves to the same wall-clock distance after the change (02:30 becomes 03:30)
+ * and a time that occurs twice resolves to its first occurrence.
+ * 
+ * @param year - Calendar year
+ * @param month - Calendar month, 1-12
+ * @param day - Day of the month
+ * @param hours - Hours, 0-23
+ * @param minutes - Minutes, 0-59
+ * @param timeZone - IANA timezone name
+ * @returns The instant the wall-clock time occurs in the timezone
+ */
+export const zonedTimeToUtc = (
+  year: number,
+  month: number,
+  day: number,
+  hours: number,
+  minutes: number,
+  timeZone: string
+): Date => {
+  const wallClock = Date.UTC(year, month - 1, day, hours, minutes);
+  
+  // Guess with the offset at the wall-clock time read as UTC, then correct once if the
+  // guess landed on the other side of a DST change
+  const firstOffset = getTimeZoneOffset(new Date(wallClock), timeZone);
+  const firstGuess = wallClock - firstOffset * 60000;
+  const secondOffset = getTimeZoneOffset(new Date(firstGuess), timeZone);
+  
+  if (secondOffset === firstOffset) {
+    return new Date(firstGuess);
+  }
+  
+  const secondGuess = wallClock - secondOffset * 60000;
+  
+  return getTimeZoneOffset(new Date(secondGuess), timeZone) === secondOffset
+    ? new Date(secondGuess)
+    : new Date(firstGuess);
+};
+
+/**
+ * Gets the day of the week an instant falls on in a timezone
+ * 
+ * @param date - The instant
+ * @param timeZone - IANA timezone name
+ * @returns Day of week in the timezone
+ */
+export const getZonedDayOfWeek = (date: Date, timeZone: string): DayOfWeek => {
+  const { year, month, day } = getZonedDateParts(date, timeZone);
+  
+  return getDayOfWeekFromDate(new Date(year, month - 1, day));
+};
+
+/**
+ * Formats an instant as an ISO 8601 string in a timezone with an explicit UTC offset,
+ * e.g. "2030-03-10T09:00:00-05:00"
+ * 
+ * @param date - The instant
+ * @param timeZone - IANA timezone name
+ * @returns ISO 8601 string with offset
+ */
+export const formatWithOffset = (date: Date, timeZone: string): string => {
+  const parts = getZonedDateParts(date, timeZone);
+  const offset = getTimeZoneOffset(date, timeZone);
+  const pad = (value: number): string => String(value).padStart(2, '0');
+  const sign = offset < 0 ? '-' : '+';
+  
+  return `${parts.year}-${pad(parts.month)}-${pad(parts.day)}T${pad(parts.hours)}:${pad(parts.minutes)}:${pad(parts.seconds)}` +
+    `${sign}${pad(Math.floor(Math.abs(offset) / 60))}:${pad(Math.abs(offset) % 60)}`;
+};
+
+/**
+ * Holds an instant's wall-clock time in a timezone as a Date whose UTC fields read that
+ * time, so calendar arithmetic done with the UTC methods is unaffected by DST changes
+ * 
+ * @param date - The instant
+ * @param timeZone - IANA timezone name
+ * @returns Date whose UTC fields are the wall-clock time in the timezone
+ */
+export const toZonedWallClock = (date: Date, timeZone: string): Date => {
+  const parts = getZonedDateParts(date, timeZone);
+  
+  return new Date(Date.UTC(parts.year, parts.month - 1, parts.day, parts.hours, parts.minutes, parts.seconds));
+};
+
+/**
+ * Converts a wall-clock time held by toZonedWallClock back to the instant it occurs
+ * 
+ * @param wallClock - Date whose UTC fields are a wall-clock time in the timezone
+ * @param timeZone - IANA timezone name
+ * @returns The instant the wall-clock time occurs in the timezone
+ */
+export const fromZonedWallClock = (wallClock: Date, timeZone: string): Date => {
+  const instant = zonedTimeToUtc(
+    wallClock.getUTCFullYear(),
+    wallClock.getUTCMonth() + 1,
+    wallClock.getUTCDate(),
+    wallClock.getUTCHours(),
+    wallClock.getUTCMinutes(),
+    timeZone
+  );
+  
+  return new Date(instant.getTime() + wallClock.getUTCSeconds() * 1000);
+};
@@ -0,0 +1,391 @@
+/**
+ * FHIR mapping utilities for the Revolucare backend
+ *
+ * This file maps Revolucare care plans to HL7 FHIR R4 resources so they can be shared
+ * with physicians and payers. Goals are mapped to Goal resources contained in the
+ * CarePlan, and interventions to CarePlan activities. It also reads client medical
+ * history from FHIR bundles of Patient, Condition, AllergyIntolerance and
+ * MedicationStatement resources.
+ */
+
+import { PlanStatus } from '../constants/plan-statuses';
+import {
+  CarePlan,
+  CarePlanGoal,
+  CarePlanIntervention,
+  GoalStatus,
+  InterventionStatus
+} from '../types/care-plan.types';
+import {
+  FhirAllergyIntolerance,
+  FhirBundle,
+  FhirCarePlan,
+  FhirCarePlanActivity,
+  FhirCodeableConcept,
+  FhirCondition,
+  FhirExtension,
+  FhirGoal,
+  FhirMedicationStatement,
+  FhirPatient,
+  FhirReference,
+  FhirResource,
+  REVOLUCARE_FHIR_EXTENSION_BASE
+} from '../types/fhir.types';
+import { ImportedMedicalRecord, ParsedMedicalHistory, SkippedFhirResource } from '../types/medical-history.types';
+import { errorFactory } from './error-handler';
+
+/**
+ * URL of the extension carrying a care plan's approval
+ */
+export const CARE_PLAN_APPROVAL_EXTENSION_URL = `${REVOLUCARE_FHIR_EXTENSION_BASE}/care-plan-approval`;
+
+// Code system of Goal.achievementStatus
+const GOAL_ACHIEVEMENT_SYSTEM = 'http://terminology.hl7.org/CodeSystem/goal-achievement';
+
+const CARE_PLAN_STATUS_MAP: Record<PlanStatus, FhirCarePlan['status']> = {
+  [PlanStatus.DRAFT]: 'draft',
+  [PlanStatus.IN_REVIEW]: 'draft',
+  [PlanStatus.APPROVED]: 'active',
+  [PlanStatus.ACTIVE]: 'active',
+  [PlanStatus.UNDER_REVIEW]: 'active',
+  [PlanStatus.REVISED]: 'active',
+  [PlanStatus.ON_HOLD]: 'on-hold',
+  [PlanStatus.COMPLETED]: 'completed',
+  [PlanStatus.CANCELLED]: 'revoked',
+  [PlanStatus.REJECTED]: 'revoked',
+  [PlanStatus.TERMINATED]: 'revoked',
+  // Superseded versions were replaced by a newer version of the same plan
+  [PlanStatus.SUPERSEDED]: 'revoked'
+};
+
+const GOAL_STATUS_MAP: Record<GoalStatus, { lifecycleStatus: FhirGoal['lifecycleStatus']; achievement: string }> = {
+  [GoalStatus.PENDING]: { lifecycleStatus: 'planned', achievement: 'in-progress' },
+  [GoalStatus.IN_PROGRESS]: { lifecycleStatus: 'active', achievement: 'in-progress' },
+  [GoalStatus.ACHIEVED]: { lifecycleStatus: 'completed', achievement: 'achieved' },
+  [GoalStatus.DISCONTINUED]: { lifecycleStatus: 'cancelled', achievement: 'not-achieved' }
+};
+
+const ACTIVITY_STATUS_MAP: Record<InterventionStatus, NonNullable<FhirCarePlanActivity['detail']>['status']> = {
+  [InterventionStatus.PENDING]: 'not-started',
+  [InterventionStatus.ACTIVE]: 'in-progress',
+  [InterventionStatus.COMPLETED]: 'completed',
+  [InterventionStatus.DISCONTINUED]: 'stopped'
+};
+
+/**
+ * Formats a date as a FHIR date (YYYY-MM-DD)
+ *
+ * @param date - The date to format
+ * @returns The FHIR date
+ */
+const toFhirDate = (date: Date | string): string => new Date(date).toISOString().split('T')[0];
+
+/**
+ * Formats a date as a FHIR dateTime
+ *
+ * @param date - The date to format
+ * @returns The FHIR dateTime
+ */
+const toFhirDateTime = (date: Date | string): string => new Date(date).toISOString();
+
+/**
+ * Maps a care plan goal to a FHIR Goal resource
+ *
+ * @param goal - The goal to map
+ * @param subject - Reference to the client the goal is for
+ * @returns The FHIR Goal resource
+ */
+export const toFhirGoal = (goal: CarePlanGoal, subject: FhirReference): FhirGoal => {
+  const status = GOAL_STATUS_MAP[goal.status] || GOAL_STATUS_MAP[GoalStatus.PENDING];
+  const measures = goal.measures || [];
+
+  return {
+    resourceType: 'Goal',
+    id: goal.id,
+    lifecycleStatus: status.lifecycleStatus,
+    achievementStatus: {
+      coding: [{ system: GOAL_ACHIEVEMENT_SYSTEM, code: status.achievement }]
+    },
+    description: { text: goal.description },
+    subject,
+    // A goal without measures still carries its due date as a single target
+    target: (measures.length > 0 ? measures : [null]).map(measure => ({
+      ...(measure ? { measure: { text: measure } } : {}),
+      ...(goal.targetDate ? { dueDate: toFhirDate(goal.targetDate) } : {})
+    }))
+  };
+};
+
+/**
+ * Maps a care plan intervention to a FHIR CarePlan activity
+ *
+ * @param intervention - The intervention to map
+ * @returns The FHIR CarePlan activity
+ */
+export const toFhirActivity = (intervention: CarePlanIntervention): FhirCarePlanActivity => {
+  const schedule = [intervention.frequency, intervention.duration].filter(Boolean).join(', ');
+
+  return {
+    detail: {
+      status: ACTIVITY_STATUS_MAP[intervention.status] || 'unknown',
+      description: intervention.description,
+      ...(schedule ? { scheduledString: schedule } : {}),
+      ...(intervention.responsibleParty ? { performer: [{ display: intervention.responsibleParty }] } : {})
+    }
+  };
+};
+
+/**
+ * Builds the extension carrying who approved a care plan, when and why
+ *
+ * @param carePlan - The approved care plan
+ * @returns The approval extension
+ */
+const toApprovalExtension = (carePlan: CarePlan): FhirExtension => ({
+  url: CARE_PLAN_APPROVAL_EXTENSION_URL,
+  extension: [
+    ...(carePlan.approvedById ? [{ url: 'approvedBy', valueReference: { reference: `Practitioner/${carePlan.approvedById}` } }] : []),
+    ...(carePlan.approvedAt ? [{ url: 'approvedAt', valueDateTime: toFhirDateTime(carePlan.approvedAt) }] : []),
+    ...(carePlan.approvalNotes ? [{ url: 'notes', valueString: carePlan.approvalNotes }] : [])
+  ]
+});
+
+/**
+ * Maps a care plan to a FHIR CarePlan resource. The plan's goals are included as
+ * contained Goal resources and its version is carried in the resource metadata.
+ *
+ * @param carePlan - The care plan with its goals and interventions
+ * @param clientName - Display name of the client the plan is for
+ * @returns The FHIR CarePlan resource
+ */
+export const toFhirCarePlan = (carePlan: CarePlan, clientName?: string): FhirCarePlan => {
+  const subject: FhirReference = {
+    reference: `Patient/${carePlan.clientId}`,
+    ...(clientName ? { display: clientName } : {})
+  };
+  const goals = carePlan.goals || [];
+  const isApproved = Boolean(carePlan.approvedById || carePlan.approvedAt);
+
+  return {
+    resourceType: 'CarePlan',
+    id: carePlan.id,
+    meta: {
+      versionId: String(carePlan.version),
+      lastUpdated: toFhirDateTime(carePlan.updatedAt)
+    },
+    ...(isApproved ? { extension: [toApprovalExtension(carePlan)] } : {}),
+    contained: goals.map(goal => toFhirGoal(goal, subject)),
+    ...(carePlan.previousVersionId ? { replaces: [{ reference: `CarePlan/${carePlan.previousVersionId}` }] } : {}),
+    status: CARE_PLAN_STATUS_MAP[carePlan.status] || 'unknown',
+    intent: 'plan',
+    title: carePlan.title,
+    description: carePlan.description,
+    subject,
+    created: toFhirDateTime(carePlan.createdAt),
+    author: { reference: `Practitioner/${carePlan.createdById}` },
+    goal: goals.map(goal => ({ reference: `#${goal.id}` })),
+    activity: (carePlan.interventions || []).map(toFhirActivity)
+  };
+};
+
+// Clinical statuses of conditions and allergies that are still current
+const ACTIVE_CLINICAL_STATUSES = ['active', 'recurrence', 'relapse'];
+
+// Statuses of medication statements for medications no longer taken
+const INACTIVE_MEDICATION_STATUSES = ['completed', 'stopped', 'not-taken'];
+
+// Verification statuses of records that must not be imported
+const INVALID_VERIFICATION_STATUSES = ['entered-in-error', 'refuted'];
+
+/**
+ * Reads the first code of a concept
+ *
+ * @param concept - The concept to read
+ * @returns The code, or undefined if the concept has none
+ */
+const getCode = (concept?: FhirCodeableConcept): string | undefined => concept?.coding?.find(coding => coding.code)?.code;
+
+/**
+ * Reads the display text of a concept, preferring its text over its codings
+ *
+ * @param concept - The concept to read
+ * @returns The display text, or undefined if the concept has none
+ */
+const getDisplay = (concept?: FhirCodeableConcept): string | undefined => {
+  const text = concept?.text || concept?.coding?.find(coding => coding.display)?.display;
+  return text?.trim() || undefined;
+};
+
+/**
+ * Builds a medical information entry from the common elements of a clinical resource
+ *
+ * @param reference - Reference to the resource
+ * @param category - Category of the entry
+ * @param concept - The coded condition, substance or medication
+ * @param status - Status of the resource
+ * @param active - Whether the entry is current
+ * @param onset - When the condition began or the medication was taken
+ * @param detail - Additional detail such as dosage
+ * @returns The entry, or undefined if the resource has no display text
+ */
+const toImportedRecord = (
+  reference: string,
+  category: ImportedMedicalRecord['category'],
+  concept: FhirCodeableConcept | undefined,
+  status: string | undefined,
+  active: boolean,
+  onset: string | undefined,
+  detail: string | undefined
+): ImportedMedicalRecord | undefined => {
+  const display = getDisplay(concept);
+  if (!display) {
+    return undefined;
+  }
+
+  const coding = concept?.coding?.find(candidate => candidate.code);
+
+  return {
+    reference,
+    category,
+    display,
+    code: coding?.code || null,
+    codeSystem: coding?.system || null,
+    status: status || null,
+    active,
+    onsetDate: onset ? onset.split('T')[0] : null,
+    detail: detail || null
+  };
+};
+
+/**
+ * Reads a Condition or AllergyIntolerance resource
+ *
+ * @param resource - The resource to read
+ * @param reference - Reference to the resource
+ * @returns The entry, or a reason the resource cannot be imported
+ */
+const fromFhirClinicalResource = (
+  resource: FhirCondition | FhirAllergyIntolerance,
+  reference: string
+): ImportedMedicalRecord | string => {
+  const verification = getCode(resource.verificationStatus);
+  if (verification && INVALID_VERIFICATION_STATUSES.includes(verification)) {
+    return `Verification status is ${verification}`;
+  }
+
+  const clinicalStatus = getCode(resource.clinicalStatus);
+  const active = !clinicalStatus || ACTIVE_CLINICAL_STATUSES.includes(clinicalStatus);
+
+  const record = resource.resourceType === 'Condition'
+    ? toImportedRecord(reference, 'condition', resource.code, clinicalStatus, active, resource.onsetDateTime, undefined)
+    : toImportedRecord(reference, 'allergy', resource.code, clinicalStatus, active, resource.onsetDateTime, resource.criticality);
+
+  return record || 'Resource has no code or text';
+};
+
+/**
+ * Reads a MedicationStatement resource
+ *
+ * @param resource - The resource to read
+ * @param reference - Reference to the resource
+ * @returns The entry, or a reason the resource cannot be imported
+ */
+const fromFhirMedicationStatement = (
+  resource: FhirMedicationStatement,
+  reference: string
+): ImportedMedicalRecord | string => {
+  if (resource.status === 'entered-in-error') {
+    return 'Status is entered-in-error';
+  }
+
+  // Referenced Medication resources are not resolved, so only their display text is used
+  const concept = resource.medicationCodeableConcept ||
+    (resource.medicationReference?.display ? { text: resource.medicationReference.display } : undefined);
+
+  const record = toImportedRecord(
+    reference,
+    'medication',
+    concept,
+    resource.status,
+    !INACTIVE_MEDICATION_STATUSES.includes(resource.status),
+    resource.effectiveDateTime,
+    resource.dosage?.map(dosage => dosage.text).filter(Boolean).join('; ')
+  );
+
+  return record || 'Medication has no code or text';
+};
+
+/**
+ * Reads the subject reference of a clinical resource
+ *
+ * @param resource - The resource to read
+ * @returns Reference to the patient the resource is about
+ */
+const getSubjectReference = (resource: FhirCondition | FhirAllergyIntolerance | FhirMedicationStatement): string | undefined => {
+  return resource.resourceType === 'AllergyIntolerance' ? resource.patient?.reference : resource.subject?.reference;
+};
+
+/**
+ * Reads a client's medical history from a FHIR bundle. Resources about anyone other than
+ * the bundle's patient, records entered in error, and unsupported resource types are
+ * skipped rather than rejected so the rest of the bundle can still be imported.
+ *
+ * @param bundle - Bundle of Patient, Condition, AllergyIntolerance and MedicationStatement resources
+ * @returns The patient, medical information entries and skipped resources
+ * @throws ValidationError if the bundle describes more than one patient
+ */
+export const fromFhirMedicalHistory = (bundle: FhirBundle): ParsedMedicalHistory => {
+  const entries = (bundle.entry || []).filter(entry => entry.resource);
+
+  const patientEntries = entries.filter(entry => entry.resource?.resourceType === 'Patient');
+  if (patientEntries.length > 1) {
+    throw errorFactory.createValidationError('Bundle must not contain more than one Patient', {
+      patientCount: patientEntries.length
+    });
+  }
+
+  const patientEntry = patientEntries[0];
+  const patient = (patientEntry?.resource as FhirPatient | undefined) || null;
+
+  // Resources may refer to the patient by its logical ID or by the entry's full URL
+  const patientReferences = [
+    ...(patient?.id ? [`Patient/${patient.id}`] : []),
+    ...(patientEntry?.fullUrl ? [patientEntry.fullUrl] : [])
+  ];
+
+  const records: ImportedMedicalRecord[] = [];
+  const skipped: SkippedFhirResource[] = [];
+
+  entries.forEach((entry, index) => {
+    const resource = entry.resource as FhirResource;
+    const reference = resource.id ? `${resource.resourceType}/${resource.id}` : entry.fullUrl || `${resource.resourceType}#${index}`;
+
+    if (resource.resourceType === 'Patient') {
+      return;
+    }
+
+    if (!['Condition', 'AllergyIntolerance', 'MedicationStatement'].includes(resource.resourceType)) {
+      skipped.push({ reference, reason: `Unsupported resource type ${resource.resourceType}` });
+      return;
+    }
+
+    const clinicalResource = resource as FhirCondition | FhirAllergyIntolerance | FhirMedicationStatement;
+    const subject = getSubjectReference(clinicalResource);
+    if (patientReferences.length > 0 && (!subject || !patientReferences.includes(subject))) {
+      skipped.push({ reference, reason: 'Resource is not about the bundle\'s patient' });
+      return;
+    }
+
+    const result = clinicalResource.resourceType === 'MedicationStatement'
+      ? fromFhirMedicationStatement(clinicalResource, reference)
+      : fromFhirClinicalResource(clinicalResource, reference);
+
+    if (typeof result === 'string') {
+      skipped.push({ reference, reason: result });
+    } else {
+      records.push(result);
+    }
+  });
+
+  return { patient, records, skipped };
+};
@@ -10,6 +10,7 @@
 import haversine from 'haversine-distance'; // v1.2.1
 import { logger } from './logger';
 import { GeoLocation, ServiceArea } from '../types/provider.types';
+import { Address } from '../types/user.types';
 import { geocodeAddress, calculateDistance } from '../integrations/google-maps';
 
 /**
@@ -276,6 +277,23 @@ export function validateCoordinates(latitude: number, longitude: number): boolea
   return true;
 }
 
+/**
+ * Reads the coordinates stored on a profile address once it has been geocoded
+ * 
+ * @param address - The profile address
+ * @returns The address coordinates, or null if the address has not been geocoded
+ */
+export function getAddressCoordinates(
+  address: Address | null
+): { latitude: number; longitude: number } | null {
+  const coordinates = address as (Address & Partial<Pick<GeoLocation, 'latitude' | 'longitude'>>) | null;
+  if (typeof coordinates?.latitude !== 'number' || typeof coordinates.longitude !== 'number') {
+    return null;
+  }
+  
+  return { latitude: coordinates.latitude, longitude: coordinates.longitude };
+}
+
 /**
  * Finds providers within a specified radius of a location
  * 
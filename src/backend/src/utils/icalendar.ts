@@ -0,0 +1,172 @@
+/**
+ * Utility module for writing iCalendar (RFC 5545) data on the Revolucare platform, used
+ * for subscribable booking feeds and for invitations attached to booking emails (RFC 5546).
+ * Times are written in UTC so that no VTIMEZONE definitions are needed; calendar clients
+ * show them in the viewer's own timezone.
+ *
+ * @module utils/icalendar
+ */
+
+const PRODUCT_ID = '-//Revolucare//Bookings//EN';
+const LINE_BREAK = '\r\n';
+const MAX_LINE_OCTETS = 75;
+
+/**
+ * iTIP methods describing what a calendar object asks its recipient to do
+ */
+export enum ICalendarMethod {
+  PUBLISH = 'PUBLISH',
+  REQUEST = 'REQUEST',
+  CANCEL = 'CANCEL'
+}
+
+/**
+ * A single event in an iCalendar object
+ */
+export interface ICalendarEvent {
+  uid: string;
+  start: Date;
+  end: Date;
+  summary: string;
+  description?: string;
+  status: 'CONFIRMED' | 'CANCELLED';
+  sequence: number; // Incremented each time the event is revised, so clients apply the latest version
+  lastModified?: Date;
+  organizer?: { name: string; email: string };
+  attendees?: string[]; // Email addresses
+}
+
+/**
+ * Calendar-level properties of an iCalendar object
+ */
+export interface ICalendarOptions {
+  method: ICalendarMethod;
+  name?: string; // Shown by clients that subscribe to a feed
+  refreshIntervalMinutes?: number; // How often subscribed clients should re-read a feed
+  timestamp?: Date; // When the object was created; defaults to now
+}
+
+/**
+ * Escapes a value for use in an iCalendar TEXT property
+ * @param value - The text to escape
+ * @returns The escaped text
+ */
+export const escapeText = (value: string): string =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+/**
+ * Formats a date as an iCalendar UTC date-time, e.g. 20240601T090000Z
+ * @param date - The date to format
+ * @returns The formatted date-time
+ */
+export const formatDateTime = (date: Date): string =>
+  new Date(date).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+/**
+ * Folds a content line so that no line is longer than 75 octets, continuing it on
+ * lines that start with a space. Multi-byte characters are never split.
+ * @param line - The unfolded content line
+ * @returns The folded line
+ */
+export const foldLine = (line: string): string => {
+  const parts: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+
+  for (const character of line) {
+    const octets = Buffer.byteLength(character, 'utf8');
+    // Continuation lines lose one octet to their leading space
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+
+    if (currentOctets + octets > limit) {
+      parts.push(current);
+      current = '';
+      currentOctets = 0;
+    }
+
+    current += character;
+    currentOctets += octets;
+  }
+  parts.push(current);
+
+  return parts.join(`${LINE_BREAK} `);
+};
+
+/**
+ * Writes the content lines of a single event
+ * @param event - The event
+ * @param timestamp - When the calendar object was created
+ * @returns The event's content lines
+ */
+const buildEventLines = (event: ICalendarEvent, timestamp: Date): string[] => {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${formatDateTime(timestamp)}`,
+    `DTSTART:${formatDateTime(event.start)}`,
+    `DTEND:${formatDateTime(event.end)}`,
+    `SUMMARY:${escapeText(event.summary)}`
+  ];
+
+  if (event.description) {
+    lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  }
+
+  lines.push(`STATUS:${event.status}`, `SEQUENCE:${event.sequence}`);
+
+  if (event.lastModified) {
+    lines.push(`LAST-MODIFIED:${formatDateTime(event.lastModified)}`);
+  }
+
+  if (event.organizer) {
+    lines.push(`ORGANIZER;CN=${escapeText(event.organizer.name)}:mailto:${event.organizer.email}`);
+  }
+
+  for (const attendee of event.attendees || []) {
+    lines.push(`ATTENDEE;ROLE=REQ-PARTICIPANT;PARTSTAT=ACCEPTED:mailto:${attendee}`);
+  }
+
+  lines.push('END:VEVENT');
+  return lines;
+};
+
+/**
+ * Builds an iCalendar object containing the given events
+ * @param events - The events to include
+ * @param options - The calendar's method and feed properties
+ * @returns The iCalendar text, with CRLF line endings and folded lines
+ */
+export const buildCalendar = (events: ICalendarEvent[], options: ICalendarOptions): string => {
+  const timestamp = options.timestamp || new Date();
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    `METHOD:${options.method}`
+  ];
+
+  if (options.name) {
+    lines.push(`NAME:${escapeText(options.name)}`, `X-WR-CALNAME:${escapeText(options.name)}`);
+  }
+
+  if (options.refreshIntervalMinutes) {
+    lines.push(
+      `REFRESH-INTERVAL;VALUE=DURATION:PT${options.refreshIntervalMinutes}M`,
+      `X-PUBLISHED-TTL:PT${options.refreshIntervalMinutes}M`
+    );
+  }
+
+  for (const event of events) {
+    lines.push(...buildEventLines(event, timestamp));
+  }
+
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldLine).join(LINE_BREAK) + LINE_BREAK;
+};
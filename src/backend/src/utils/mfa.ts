@@ -0,0 +1,217 @@
+/**
+ * Utility module that provides time-based one-time password (TOTP) functionality for
+ * multi-factor authentication on the Revolucare platform, including secret generation,
+ * otpauth URI construction for authenticator apps, code verification, and recovery codes.
+ * Codes follow RFC 6238 (HMAC-SHA1, 30 second steps, 6 digits), which is what common
+ * authenticator apps expect.
+ *
+ * @module utils/mfa
+ */
+
+import * as crypto from 'crypto'; // Node.js built-in
+import { logger } from '../config/logger';
+import { errorFactory } from './error-handler';
+
+// TOTP configuration
+const TOTP_STEP_SECONDS = 30;
+const TOTP_DIGITS = 6;
+const TOTP_ALGORITHM = 'sha1';
+const TOTP_SECRET_BYTES = 20;
+const TOTP_ISSUER = process.env.MFA_ISSUER || 'Revolucare';
+
+// Recovery code configuration
+const RECOVERY_CODE_COUNT = 10;
+const RECOVERY_CODE_LENGTH = 10;
+const RECOVERY_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // Excludes easily confused characters
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+/**
+ * Encodes a buffer as an unpadded RFC 4648 base32 string
+ *
+ * @param buffer - The bytes to encode
+ * @returns Base32 encoded string
+ */
+function encodeBase32(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+/**
+ * Decodes an RFC 4648 base32 string, ignoring padding, whitespace and case
+ *
+ * @param encoded - The base32 string to decode
+ * @returns Decoded bytes
+ */
+function decodeBase32(encoded: string): Buffer {
+  const cleaned = encoded.toUpperCase().replace(/[\s=]/g, '');
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw errorFactory.createValidationError('Invalid TOTP secret');
+    }
+
+    value = (value << 5) | index;
+    bits += 5;
+
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+/**
+ * Computes the TOTP time step for a timestamp
+ *
+ * @param timestamp - Time in milliseconds since the epoch
+ * @returns The time step counter
+ */
+export function getTotpTimeStep(timestamp: number = Date.now()): number {
+  return Math.floor(timestamp / 1000 / TOTP_STEP_SECONDS);
+}
+
+/**
+ * Generates a new random TOTP secret
+ *
+ * @returns Base32 encoded secret suitable for authenticator apps
+ */
+export function generateTotpSecret(): string {
+  try {
+    return encodeBase32(crypto.randomBytes(TOTP_SECRET_BYTES));
+  } catch (err) {
+    logger.error('Error generating TOTP secret', { error: err });
+    throw errorFactory.createInternalServerError('Failed to generate TOTP secret', {}, err as Error);
+  }
+}
+
+/**
+ * Builds the otpauth URI used to enroll a secret in an authenticator app (usually shown as a QR code)
+ *
+ * @param secret - Base32 encoded TOTP secret
+ * @param accountName - Account label shown in the authenticator app, typically the user's email
+ * @returns otpauth:// URI
+ */
+export function buildOtpauthUri(secret: string, accountName: string): string {
+  const label = encodeURIComponent(`${TOTP_ISSUER}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer: TOTP_ISSUER,
+    algorithm: TOTP_ALGORITHM.toUpperCase(),
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_STEP_SECONDS)
+  });
+
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+/**
+ * Generates the TOTP code for a secret at a given time step
+ *
+ * @param secret - Base32 encoded TOTP secret
+ * @param timeStep - The time step counter (defaults to the current step)
+ * @returns Zero-padded numeric code
+ */
+export function generateTotpCode(secret: string, timeStep: number = getTotpTimeStep()): string {
+  // Encode the counter as an 8-byte big-endian integer
+  const counter = Buffer.alloc(8);
+  counter.writeUInt32BE(Math.floor(timeStep / 0x100000000), 0);
+  counter.writeUInt32BE(timeStep % 0x100000000, 4);
+
+  const hmac = crypto.createHmac(TOTP_ALGORITHM, decodeBase32(secret)).update(counter).digest();
+
+  // Dynamic truncation as described in RFC 4226
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const binary = ((hmac[offset] & 0x7f) << 24) |
+    (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) |
+    hmac[offset + 3];
+
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, '0');
+}
+
+/**
+ * Verifies a TOTP code, tolerating clock drift of up to `window` steps in either direction
+ *
+ * @param secret - Base32 encoded TOTP secret
+ * @param code - The code entered by the user
+ * @param window - Number of adjacent time steps to accept
+ * @param timestamp - Time in milliseconds since the epoch to verify against
+ * @returns The matched time step, or null if the code is invalid
+ */
+export function verifyTotpCode(
+  secret: string,
+  code: string,
+  window: number = 1,
+  timestamp: number = Date.now()
+): number | null {
+  const normalizedCode = (code || '').replace(/\s/g, '');
+  if (!new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(normalizedCode)) {
+    return null;
+  }
+
+  const currentStep = getTotpTimeStep(timestamp);
+
+  for (let offset = -window; offset <= window; offset++) {
+    const expected = Buffer.from(generateTotpCode(secret, currentStep + offset));
+    if (crypto.timingSafeEqual(expected, Buffer.from(normalizedCode))) {
+      return currentStep + offset;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Generates a set of single-use recovery codes formatted as XXXXX-XXXXX
+ *
+ * @param count - Number of codes to generate
+ * @returns Plain text recovery codes (only ever shown to the user once)
+ */
+export function generateRecoveryCodes(count: number = RECOVERY_CODE_COUNT): string[] {
+  try {
+    return Array.from({ length: count }, () => {
+      const bytes = crypto.randomBytes(RECOVERY_CODE_LENGTH);
+      const code = Array.from(bytes, byte => RECOVERY_CODE_ALPHABET[byte % RECOVERY_CODE_ALPHABET.length]).join('');
+      return `${code.slice(0, RECOVERY_CODE_LENGTH / 2)}-${code.slice(RECOVERY_CODE_LENGTH / 2)}`;
+    });
+  } catch (err) {
+    logger.error('Error generating recovery codes', { error: err });
+    throw errorFactory.createInternalServerError('Failed to generate recovery codes', {}, err as Error);
+  }
+}
+
+/**
+ * Hashes a recovery code for storage. Codes are normalized so that case and
+ * separators entered by the user do not matter.
+ *
+ * @param code - Plain text recovery code
+ * @returns SHA-256 hash of the normalized code
+ */
+export function hashRecoveryCode(code: string): string {
+  const normalizedCode = (code || '').toUpperCase().replace(/[^A-Z0-9]/g, '');
+  return crypto.createHash('sha256').update(normalizedCode).digest('hex');
+}
@@ -0,0 +1,179 @@
+/**
+ * PDF generation utilities for the Revolucare backend
+ *
+ * This file provides a minimal PDF writer for printable text documents such as analytics
+ * reports and care plan exports. Documents use the standard Helvetica fonts, so no font
+ * files need to be embedded, and are laid out as word-wrapped lines on US Letter pages.
+ */
+
+/**
+ * Text styles supported in generated documents
+ */
+export type PdfTextStyle = 'title' | 'heading' | 'body' | 'small';
+
+/**
+ * A block of text in a generated document
+ */
+export interface PdfBlock {
+  text: string;
+  style?: PdfTextStyle;
+}
+
+// Page geometry in points (US Letter)
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 54;
+
+// Font size, line height, font resource and space before each style
+const TEXT_STYLES: Record<PdfTextStyle, { size: number; leading: number; font: 'F1' | 'F2'; spaceBefore: number }> = {
+  title: { size: 18, leading: 24, font: 'F2', spaceBefore: 0 },
+  heading: { size: 13, leading: 18, font: 'F2', spaceBefore: 10 },
+  body: { size: 10, leading: 14, font: 'F1', spaceBefore: 0 },
+  small: { size: 8, leading: 11, font: 'F1', spaceBefore: 0 }
+};
+
+// Average Helvetica character width as a fraction of the font size, used for wrapping
+const AVERAGE_CHAR_WIDTH = 0.5;
+
+/**
+ * Makes text safe for a PDF string literal. Characters outside Latin-1 cannot be shown
+ * with the standard fonts and are replaced.
+ *
+ * @param text - The text to escape
+ * @returns Escaped text
+ */
+const escapePdfText = (text: string): string => {
+  return text
+    .replace(/[^\x20-\x7E\xA0-\xFF]/g, '?')
+    .replace(/\\/g, '\\\\')
+    .replace(/\(/g, '\\(')
+    .replace(/\)/g, '\\)');
+};
+
+/**
+ * Splits text into lines that fit the page width at the given font size
+ *
+ * @param text - The text to wrap
+ * @param fontSize - The font size in points
+ * @returns Wrapped lines
+ */
+const wrapText = (text: string, fontSize: number): string[] => {
+  const maxChars = Math.floor((PAGE_WIDTH - 2 * MARGIN) / (fontSize * AVERAGE_CHAR_WIDTH));
+  const lines: string[] = [];
+
+  for (const paragraph of text.split('\n')) {
+    let line = '';
+
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      // Break words that are longer than a full line
+      let remaining = word;
+      while (remaining.length > maxChars) {
+        if (line) {
+          lines.push(line);
+          line = '';
+        }
+        lines.push(remaining.slice(0, maxChars));
+        remaining = remaining.slice(maxChars);
+      }
+
+      if (!line) {
+        line = remaining;
+      } else if (line.length + 1 + remaining.length <= maxChars) {
+        line = `${line} ${remaining}`;
+      } else {
+        lines.push(line);
+        line = remaining;
+      }
+    }
+
+    lines.push(line);
+  }
+
+  return lines;
+};
+
+/**
+ * Lays out text blocks into the content streams of consecutive pages
+ *
+ * @param blocks - The blocks to lay out
+ * @returns One content stream per page
+ */
+const layoutPages = (blocks: PdfBlock[]): string[] => {
+  const pages: string[] = [];
+  let operations: string[] = [];
+  let y = PAGE_HEIGHT - MARGIN;
+
+  const startNewPage = (): void => {
+    pages.push(operations.join('\n'));
+    operations = [];
+    y = PAGE_HEIGHT - MARGIN;
+  };
+
+  for (const block of blocks) {
+    const style = TEXT_STYLES[block.style || 'body'];
+
+    // Headings at the top of a page need no extra space
+    if (y < PAGE_HEIGHT - MARGIN) {
+      y -= style.spaceBefore;
+    }
+
+    for (const line of wrapText(block.text, style.size)) {
+      if (y - style.leading < MARGIN) {
+        startNewPage();
+      }
+
+      y -= style.leading;
+      operations.push(`BT /${style.font} ${style.size} Tf ${MARGIN} ${y} Td (${escapePdfText(line)}) Tj ET`);
+    }
+  }
+
+  pages.push(operations.join('\n'));
+  return pages;
+};
+
+/**
+ * Generates a printable PDF document from text blocks
+ *
+ * @param blocks - The blocks of the document in reading order
+ * @param title - Title stored in the document information
+ * @returns The PDF file contents
+ */
+export const generatePdf = (blocks: PdfBlock[], title = 'Revolucare'): Buffer => {
+  const pages = layoutPages(blocks);
+
+  // Objects 1-5 are the catalog, page tree, both fonts and the document info; each page
+  // then takes two objects: the page itself and its content stream
+  const firstPageObject = 6;
+  const pageObjectIds = pages.map((_, index) => firstPageObject + index * 2);
+
+  const objects: string[] = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pageObjectIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+    `<< /Title (${escapePdfText(title)}) /Producer (Revolucare) >>`
+  ];
+
+  pages.forEach((content, index) => {
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageObjectIds[index] + 1} 0 R >>`
+    );
+    objects.push(`<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`);
+  });
+
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+
+  objects.forEach((object, index) => {
+    offsets.push(Buffer.byteLength(pdf, 'latin1'));
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+  });
+
+  const xrefOffset = Buffer.byteLength(pdf, 'latin1');
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(pdf, 'latin1');
+};
@@ -0,0 +1,59 @@
+/**
+ * Utility module providing information retrieval metrics for evaluating ranked lists.
+ *
+ * Relevance is graded: 0 means not relevant, and higher grades mean more relevant. Items
+ * without a grade are treated as not relevant.
+ *
+ * @module utils/ranking-metrics
+ */
+
+/**
+ * Calculates the share of the top k ranked items that are relevant
+ *
+ * @param ranking - Item IDs, best first
+ * @param relevance - Relevance grade of each judged item
+ * @param k - Ranking cutoff
+ * @returns Precision between 0 and 1
+ */
+export function precisionAtK(ranking: string[], relevance: Map<string, number>, k: number): number {
+  if (k <= 0) {
+    return 0;
+  }
+
+  const hits = ranking.slice(0, k).filter(id => (relevance.get(id) ?? 0) > 0).length;
+
+  return hits / k;
+}
+
+/**
+ * Calculates the discounted cumulative gain of the top k relevance grades, using
+ * exponential gain so that highly relevant items near the top count for more
+ *
+ * @param grades - Relevance grades in ranked order
+ * @param k - Ranking cutoff
+ * @returns Discounted cumulative gain
+ */
+export function dcgAtK(grades: number[], k: number): number {
+  return grades
+    .slice(0, k)
+    .reduce((total, grade, index) => total + (Math.pow(2, grade) - 1) / Math.log2(index + 2), 0);
+}
+
+/**
+ * Calculates the normalized discounted cumulative gain of the top k ranked items. The
+ * ideal ranking includes every judged item, even ones missing from the ranking.
+ *
+ * @param ranking - Item IDs, best first
+ * @param relevance - Relevance grade of each judged item
+ * @param k - Ranking cutoff
+ * @returns NDCG between 0 and 1, or 0 when no item is relevant
+ */
+export function ndcgAtK(ranking: string[], relevance: Map<string, number>, k: number): number {
+  const idealGrades = [...relevance.values()].sort((a, b) => b - a);
+  const idealDcg = dcgAtK(idealGrades, k);
+  if (idealDcg === 0) {
+    return 0;
+  }
+
+  return dcgAtK(ranking.map(id => relevance.get(id) ?? 0), k) / idealDcg;
+}
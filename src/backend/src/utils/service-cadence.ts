@@ -0,0 +1,204 @@
+/**
+ * Utility module for service item cadences: reading the free-text frequency and duration
+ * of a service item ("3x weekly", "8 weeks") into a structured cadence, and counting the
+ * units a cadence plans for.
+ *
+ * @module utils/service-cadence
+ */
+
+import { CadencePeriod, ServiceCadence } from '../types/services-plan.types';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Average calendar length of each period, used to convert durations between periods
+const DAYS_PER_PERIOD: Record<CadencePeriod, number> = {
+  [CadencePeriod.DAY]: 1,
+  [CadencePeriod.WEEK]: 7,
+  [CadencePeriod.MONTH]: 30.4375
+};
+
+const DAYS_PER_YEAR = 365.25;
+
+// Counts written as words, e.g. "twice weekly"
+const WORD_COUNTS: Record<string, number> = {
+  once: 1,
+  one: 1,
+  twice: 2,
+  two: 2,
+  thrice: 3,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7
+};
+
+const ONGOING_PATTERN = /\b(ongoing|indefinite(ly)?|open[- ]ended|continuous|as needed)\b/;
+const PERIOD_PATTERN = /\b(daily|days?|weekly|weeks?|wks?|monthly|months?|mos?)\b/;
+const EVERY_PATTERN = /\bevery\s+(other|\d+)\s+(days?|weeks?|months?)\b/;
+const FORTNIGHTLY_PATTERN = /\b(bi-?weekly|fortnightly|every other week)\b/;
+// A count is a number right before "x", "times", "per" or a period word once words naming the unit are removed,
+// e.g. "3x", "2 visits per" or "4 weekly", so that session lengths such as "45 minutes" are not read as counts
+const COUNT_PATTERN = /([\d.]+)\s*(x|times|per|daily|weekly|monthly)\b/g;
+const UNIT_WORD_PATTERN = /\b(sessions?|visits?|units?|appointments?)\b/g;
+const UNIT_DURATION_PATTERN = /([\d.]+)\s*(sessions?|visits?|units?|appointments?)\b/;
+const TIME_DURATION_PATTERN = /([\d.]+)\s*(days?|weeks?|wks?|months?|mos?|years?|yrs?)\b/;
+const SESSION_LENGTH_PATTERN = /([\d.]+)[\s-]*(minutes?|mins?|hours?|hrs?)\b/;
+
+/**
+ * Reads the period named by a word such as "weekly" or "months"
+ * @param word - The period word
+ * @returns The period
+ */
+function toPeriod(word: string): CadencePeriod {
+  if (word.startsWith('d')) {
+    return CadencePeriod.DAY;
+  }
+
+  return word.startsWith('w') ? CadencePeriod.WEEK : CadencePeriod.MONTH;
+}
+
+/**
+ * Reads a free-text frequency such as "3x weekly", "twice a month", "daily" or "every 2 weeks".
+ * Ranges such as "2-3x weekly" are read as their upper bound so that estimates are not short.
+ * Numbers that are not counts, such as the session length in "45 minutes twice weekly", are ignored.
+ *
+ * @param frequency - The frequency text
+ * @returns The units per period, period and period interval, or null if the text names no period
+ */
+export function parseFrequency(
+  frequency: string
+): Pick<ServiceCadence, 'unitsPerPeriod' | 'period' | 'periodInterval'> | null {
+  const text = frequency.trim().toLowerCase();
+
+  if (FORTNIGHTLY_PATTERN.test(text)) {
+    return { unitsPerPeriod: 1, period: CadencePeriod.WEEK, periodInterval: 2 };
+  }
+
+  const every = text.match(EVERY_PATTERN);
+  if (every) {
+    return {
+      unitsPerPeriod: 1,
+      period: toPeriod(every[2]),
+      periodInterval: every[1] === 'other' ? 2 : Math.max(1, parseInt(every[1], 10))
+    };
+  }
+
+  const periodMatch = text.match(PERIOD_PATTERN);
+  if (!periodMatch) {
+    return null;
+  }
+
+  let unitsPerPeriod = 1;
+  const counts = [...text.replace(UNIT_WORD_PATTERN, '').matchAll(COUNT_PATTERN)].map(match => parseFloat(match[1]));
+  if (counts.length > 0) {
+    unitsPerPeriod = Math.max(...counts);
+  } else {
+    const word = text.split(/[^a-z]+/).find(token => token in WORD_COUNTS);
+    if (word) {
+      unitsPerPeriod = WORD_COUNTS[word];
+    }
+  }
+
+  if (!(unitsPerPeriod > 0)) {
+    return null;
+  }
+
+  return { unitsPerPeriod, period: toPeriod(periodMatch[1]), periodInterval: 1 };
+}
+
+/**
+ * Reads the session length named in a free-text frequency such as "45 minutes twice weekly"
+ * or "1.5 hour visits weekly"
+ *
+ * @param frequency - The frequency text
+ * @returns The session length in whole minutes, or null if the text names none
+ */
+export function parseSessionLength(frequency: string): number | null {
+  const match = frequency.trim().toLowerCase().match(SESSION_LENGTH_PATTERN);
+  if (!match) {
+    return null;
+  }
+
+  const minutes = Math.round(parseFloat(match[1]) * (match[2].startsWith('h') ? 60 : 1));
+
+  return minutes > 0 ? minutes : null;
+}
+
+/**
+ * Reads the free-text frequency and duration of a service item into a structured cadence.
+ * Durations may be a length of time ("8 weeks", "3 months"), a number of sessions
+ * ("12 visits") or open-ended ("ongoing"). The session length is kept when the frequency
+ * names one ("45 minutes twice weekly").
+ *
+ * @param frequency - The frequency text, e.g. "3x weekly"
+ * @param duration - The duration text, e.g. "8 weeks"
+ * @param startDate - ISO date the service starts, if known
+ * @returns The cadence, or null if either text cannot be read
+ */
+export function parseCadence(frequency: string, duration: string, startDate: string | null = null): ServiceCadence | null {
+  const parsedFrequency = parseFrequency(frequency);
+  if (!parsedFrequency) {
+    return null;
+  }
+
+  const cadence: ServiceCadence = {
+    ...parsedFrequency,
+    startDate,
+    endDate: null,
+    periodCount: null,
+    sessionMinutes: parseSessionLength(frequency)
+  };
+  const text = duration.trim().toLowerCase();
+
+  if (ONGOING_PATTERN.test(text)) {
+    return cadence;
+  }
+
+  const units = text.match(UNIT_DURATION_PATTERN);
+  if (units) {
+    return { ...cadence, periodCount: parseFloat(units[1]) / cadence.unitsPerPeriod };
+  }
+
+  const time = text.match(TIME_DURATION_PATTERN);
+  if (time) {
+    const unit = time[2];
+    const days = unit.startsWith('y')
+      ? parseFloat(time[1]) * DAYS_PER_YEAR
+      : parseFloat(time[1]) * DAYS_PER_PERIOD[toPeriod(unit)];
+
+    return { ...cadence, periodCount: Math.max(1, Math.round(days / periodLengthInDays(cadence))) };
+  }
+
+  return null;
+}
+
+/**
+ * Counts the units a cadence plans for
+ *
+ * @param cadence - The cadence
+ * @returns The planned units, or null if the service is ongoing
+ */
+export function countPlannedUnits(cadence: ServiceCadence): number | null {
+  if (cadence.periodCount !== null) {
+    return Math.round(cadence.unitsPerPeriod * cadence.periodCount);
+  }
+
+  if (cadence.startDate && cadence.endDate) {
+    const days = (Date.parse(cadence.endDate) - Date.parse(cadence.startDate)) / MS_PER_DAY;
+    const periods = Math.max(1, Math.round(days / periodLengthInDays(cadence)));
+
+    return Math.round(cadence.unitsPerPeriod * periods);
+  }
+
+  return null;
+}
+
+/**
+ * Calculates the average length of one period of a cadence
+ * @param cadence - The cadence
+ * @returns Length in days
+ */
+function periodLengthInDays(cadence: Pick<ServiceCadence, 'period' | 'periodInterval'>): number {
+  return DAYS_PER_PERIOD[cadence.period] * cadence.periodInterval;
+}
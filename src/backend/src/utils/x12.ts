@@ -0,0 +1,321 @@
+/**
+ * Utility module for the X12 5010 health care eligibility transactions used on the
+ * Revolucare platform: writing 270 eligibility inquiries (005010X279A1) and reading the
+ * coverage details, copays and remaining visits out of the 271 responses payers return.
+ *
+ * @module utils/x12
+ */
+
+import {
+  EligibilityBenefit,
+  EligibilityInquiry,
+  EligibilityRejection,
+  EligibilityResult,
+  EligibilityStatus
+} from '../types/eligibility.types';
+
+const IMPLEMENTATION_GUIDE = '005010X279A1';
+const ELEMENT_SEPARATOR = '*';
+const REPETITION_SEPARATOR = '^';
+const COMPONENT_SEPARATOR = ':';
+const SEGMENT_TERMINATOR = '~';
+
+// Eligibility or benefit information codes (EB01) reporting active coverage
+const ACTIVE_COVERAGE_CODES = ['1', '2', '3', '4', '5'];
+const COINSURANCE_CODE = 'A';
+const COPAY_CODE = 'B';
+const DEDUCTIBLE_CODE = 'C';
+const LIMITATIONS_CODE = 'F';
+
+// Time period qualifier (EB06) for amounts still remaining, and quantity qualifier (EB09) for visits
+const REMAINING_TIME_PERIOD = '29';
+const VISITS_QUANTITY = 'VS';
+
+// Date qualifiers (DTP01) of coverage start and end dates, and of plan date ranges
+const COVERAGE_START_QUALIFIERS = ['346', '356'];
+const COVERAGE_END_QUALIFIERS = ['347', '357'];
+const COVERAGE_RANGE_QUALIFIERS = ['291', '307'];
+
+/**
+ * Descriptions of the reject reason codes (AAA03) payers commonly return
+ */
+const REJECT_REASONS: Record<string, string> = {
+  '15': 'Required application data missing',
+  '41': 'Authorization/access restrictions',
+  '42': 'Unable to respond at current time',
+  '43': 'Invalid/missing provider identification',
+  '51': 'Provider not on file',
+  '57': 'Invalid/missing date(s) of service',
+  '58': 'Invalid/missing date-of-birth',
+  '62': 'Date of service not within allowable inquiry period',
+  '63': 'Date of service in future',
+  '71': 'Patient birth date does not match that for the patient on the database',
+  '72': 'Invalid/missing subscriber/insured ID',
+  '73': 'Invalid/missing subscriber/insured name',
+  '75': 'Subscriber/insured not found',
+  '76': 'Duplicate subscriber/insured ID number',
+  '78': 'Subscriber/insured not in group/plan identified',
+  '79': 'Invalid participant identification'
+};
+
+/**
+ * Removes delimiters from a value written into an X12 element
+ * @param value - The value
+ * @returns The value, upper-cased, with delimiters replaced by spaces
+ */
+const cleanElement = (value: string): string =>
+  value.replace(/[*~^:]/g, ' ').trim().toUpperCase();
+
+/**
+ * Formats a date as CCYYMMDD
+ * @param date - The date, or an ISO date string
+ * @returns The X12 date
+ */
+const formatX12Date = (date: Date | string): string =>
+  (typeof date === 'string' ? date.slice(0, 10) : date.toISOString().slice(0, 10)).replace(/-/g, '');
+
+/**
+ * Formats the time of a date as HHMM (UTC)
+ * @param date - The date
+ * @returns The X12 time
+ */
+const formatX12Time = (date: Date): string => date.toISOString().slice(11, 16).replace(':', '');
+
+/**
+ * Converts a CCYYMMDD X12 date to an ISO date
+ * @param value - The X12 date
+ * @returns The ISO date, or null if the value is not a date
+ */
+const parseX12Date = (value: string | undefined): string | null =>
+  value && /^\d{8}$/.test(value) ? `${value.slice(0, 4)}-${value.slice(4, 6)}-${value.slice(6, 8)}` : null;
+
+/**
+ * Parses a number element
+ * @param value - The element value
+ * @returns The number, or null if the element is empty or not a number
+ */
+const parseNumber = (value: string | undefined): number | null => {
+  if (!value) {
+    return null;
+  }
+
+  const number = Number(value);
+  return isNaN(number) ? null : number;
+};
+
+/**
+ * Writes an X12 270 eligibility inquiry about one subscriber
+ * @param inquiry - The inquiry
+ * @param interchange - Sender and receiver IDs, the usage indicator ("P" production or
+ * "T" test) and when the interchange is created (defaults to now)
+ * @returns The X12 interchange
+ */
+export function build270(
+  inquiry: EligibilityInquiry,
+  interchange: { senderId: string; receiverId: string; usageIndicator: string; timestamp?: Date }
+): string {
+  const timestamp = interchange.timestamp || new Date();
+  const date = formatX12Date(timestamp);
+  const time = formatX12Time(timestamp);
+  const groupControlNumber = String(Number(inquiry.controlNumber));
+  const { subscriber } = inquiry;
+
+  const isa = [
+    'ISA', '00', ' '.repeat(10), '00', ' '.repeat(10),
+    'ZZ', cleanElement(interchange.senderId).padEnd(15).slice(0, 15),
+    'ZZ', cleanElement(interchange.receiverId).padEnd(15).slice(0, 15),
+    date.slice(2), time, REPETITION_SEPARATOR, '00501', inquiry.controlNumber.padStart(9, '0'), '0',
+    interchange.usageIndicator, COMPONENT_SEPARATOR
+  ];
+
+  // The transaction set, from ST to SE, whose segments are counted in SE01
+  const transaction: string[][] = [
+    ['ST', '270', '0001', IMPLEMENTATION_GUIDE],
+    ['BHT', '0022', '13', inquiry.traceNumber, date, time],
+    // Information source: the payer
+    ['HL', '1', '', '20', '1'],
+    ['NM1', 'PR', '2', cleanElement(inquiry.payerName), '', '', '', '', 'PI', cleanElement(inquiry.payerId)],
+    // Information receiver: the organization inquiring
+    ['HL', '2', '1', '21', '1'],
+    ['NM1', '1P', '2', cleanElement(inquiry.providerName), '', '', '', '', 'XX', cleanElement(inquiry.providerNpi)],
+    // Subscriber
+    ['HL', '3', '2', '22', '0'],
+    ['TRN', '1', inquiry.traceNumber, `9${cleanElement(interchange.senderId)}`.slice(0, 10)],
+    ['NM1', 'IL', '1', cleanElement(subscriber.lastName), cleanElement(subscriber.firstName), '', '', '', 'MI', cleanElement(subscriber.memberId)]
+  ];
+
+  if (subscriber.groupNumber) {
+    transaction.push(['REF', '6P', cleanElement(subscriber.groupNumber)]);
+  }
+  if (subscriber.dateOfBirth) {
+    transaction.push(['DMG', 'D8', formatX12Date(subscriber.dateOfBirth)]);
+  }
+
+  transaction.push(['DTP', '291', 'D8', formatX12Date(inquiry.serviceDate)]);
+  inquiry.serviceTypeCodes.forEach(code => transaction.push(['EQ', code]));
+  transaction.push(['SE', String(transaction.length + 1), '0001']);
+
+  const segments = [
+    isa,
+    ['GS', 'HS', cleanElement(interchange.senderId), cleanElement(interchange.receiverId), date, time, groupControlNumber, 'X', IMPLEMENTATION_GUIDE],
+    ...transaction,
+    ['GE', '1', groupControlNumber],
+    ['IEA', '1', inquiry.controlNumber.padStart(9, '0')]
+  ];
+
+  return segments.map(segment => segment.join(ELEMENT_SEPARATOR) + SEGMENT_TERMINATOR).join('\n');
+}
+
+/**
+ * Reads the benefit reported by an EB segment
+ * @param eb - The segment's elements
+ * @param repetitionSeparator - Separator of repeated service type codes
+ * @returns The benefit
+ */
+function parseBenefit(eb: string[], repetitionSeparator: string): EligibilityBenefit {
+  const network = eb[12];
+
+  return {
+    serviceTypeCodes: eb[3] ? eb[3].split(repetitionSeparator).filter(code => code.length > 0) : [],
+    coverageLevel: eb[2] || null,
+    inNetwork: network === 'Y' ? true : network === 'N' ? false : null,
+    timePeriod: eb[6] || null,
+    amount: parseNumber(eb[7]),
+    percent: parseNumber(eb[8]),
+    quantity: parseNumber(eb[10]),
+    description: eb[5] || null
+  };
+}
+
+/**
+ * Reads an X12 271 eligibility response. Coverage is active if any benefit reports active
+ * coverage; a response without benefits that rejects the inquiry is an error. Where limits
+ * on visits are reported for several services, the fewest remaining visits are taken.
+ * @param x12 - The X12 interchange
+ * @returns The coverage details
+ * @throws Error if the interchange is not an X12 271 response
+ */
+export function parse271(x12: string): EligibilityResult {
+  const text = x12.trim();
+
+  if (!text.startsWith('ISA') || text.length < 106) {
+    throw new Error('Eligibility response is not an X12 interchange');
+  }
+
+  // Delimiters are defined by the ISA segment: the character after "ISA" separates
+  // elements, and the segment terminator follows the one-character ISA16
+  const elementSeparator = text[3];
+  const isa = text.split(elementSeparator, 17);
+  const segmentTerminator = isa[16].charAt(1);
+  const repetitionSeparator = isa[11];
+
+  const segments = text
+    .split(segmentTerminator)
+    .map(segment => segment.trim())
+    .filter(segment => segment.length > 0)
+    .map(segment => segment.split(elementSeparator));
+
+  if (!segments.some(segment => segment[0] === 'ST' && segment[1] === '271')) {
+    throw new Error('Eligibility response is not an X12 271 transaction');
+  }
+
+  const result: EligibilityResult = {
+    status: EligibilityStatus.INACTIVE,
+    traceNumber: null,
+    payerName: null,
+    memberId: null,
+    groupNumber: null,
+    planName: null,
+    coverageStartDate: null,
+    coverageEndDate: null,
+    copays: [],
+    coinsurance: [],
+    deductibles: [],
+    remainingVisits: null,
+    rejections: [],
+    messages: []
+  };
+  let active = false;
+  let benefitsReported = false;
+
+  segments.forEach(segment => {
+    switch (segment[0]) {
+      case 'TRN':
+        result.traceNumber = result.traceNumber ?? (segment[2] || null);
+        break;
+      case 'NM1':
+        if (segment[1] === 'PR') {
+          result.payerName = segment[3] || null;
+        } else if (segment[1] === 'IL') {
+          result.memberId = segment[9] || null;
+        }
+        break;
+      case 'REF':
+        if (segment[1] === '6P') {
+          result.groupNumber = segment[2] || null;
+        }
+        break;
+      case 'DTP': {
+        const [start, end] = (segment[3] || '').split('-');
+        if (COVERAGE_START_QUALIFIERS.includes(segment[1])) {
+          result.coverageStartDate = parseX12Date(start);
+        } else if (COVERAGE_END_QUALIFIERS.includes(segment[1])) {
+          result.coverageEndDate = parseX12Date(start);
+        } else if (COVERAGE_RANGE_QUALIFIERS.includes(segment[1]) && segment[2] === 'RD8') {
+          result.coverageStartDate = result.coverageStartDate ?? parseX12Date(start);
+          result.coverageEndDate = result.coverageEndDate ?? parseX12Date(end);
+        }
+        break;
+      }
+      case 'AAA': {
+        const rejection: EligibilityRejection = {
+          code: segment[3] || '',
+          description: REJECT_REASONS[segment[3]] || `Reject reason ${segment[3] || 'not given'}`,
+          followUpAction: segment[4] || null
+        };
+        result.rejections.push(rejection);
+        break;
+      }
+      case 'MSG':
+        if (segment[1]) {
+          result.messages.push(segment[1]);
+        }
+        break;
+      case 'EB': {
+        benefitsReported = true;
+        const benefit = parseBenefit(segment, repetitionSeparator);
+
+        if (ACTIVE_COVERAGE_CODES.includes(segment[1])) {
+          active = true;
+          result.planName = result.planName ?? benefit.description;
+        } else if (segment[1] === COINSURANCE_CODE) {
+          result.coinsurance.push(benefit);
+        } else if (segment[1] === COPAY_CODE) {
+          result.copays.push(benefit);
+        } else if (segment[1] === DEDUCTIBLE_CODE) {
+          result.deductibles.push(benefit);
+        } else if (
+          segment[1] === LIMITATIONS_CODE &&
+          segment[9] === VISITS_QUANTITY &&
+          benefit.timePeriod === REMAINING_TIME_PERIOD &&
+          benefit.quantity !== null
+        ) {
+          result.remainingVisits = result.remainingVisits === null
+            ? benefit.quantity
+            : Math.min(result.remainingVisits, benefit.quantity);
+        }
+        break;
+      }
+      default:
+        break;
+    }
+  });
+
+  if (active) {
+    result.status = EligibilityStatus.ACTIVE;
+  } else if (!benefitsReported && result.rejections.length > 0) {
+    result.status = EligibilityStatus.ERROR;
+  }
+
+  return result;
+}
@@ -2,7 +2,7 @@
  * Central module for WebSocket functionality in the Revolucare platform.
  * This file exports the main WebSocket setup function and coordinates the
  * initialization of all WebSocket namespaces including authentication,
- * availability tracking, and notifications.
+ * availability tracking, notifications and secure messaging.
  *
  * @module websockets/index
  */
@@ -11,20 +11,22 @@ import { Server, Socket } from 'socket.io'; // socket.io@^4.6.1
 import { setupSocketAuthentication } from './authentication.socket';
 import { setupAvailabilitySocket } from './availability.socket';
 import { setupNotificationSocket } from './notification.socket';
+import { setupMessagingSocket } from './messaging.socket';
+import { getMessagingService } from '../services/messaging.service';
 import { logger } from '../utils/logger';
 
 /**
  * Sets up all WebSocket functionality for the Revolucare platform
  *
  * @param io - Socket.IO server instance
- * @param services - Object containing service instances (authService, providerService, notificationService)
+ * @param services - Object containing service instances (authService, providerService, notificationService, and optionally messagingService)
  */
-export function setupWebSockets(io: Server, services: { authService: any; providerService: any; notificationService: any }): void {
+export function setupWebSockets(io: Server, services: { authService: any; providerService: any; notificationService: any; messagingService?: any }): void {
   // Log the initialization of WebSocket services
   logger.info('Setting up WebSocket services...');
 
   // Extract required services from the services object
-  const { authService, providerService, notificationService } = services;
+  const { authService, providerService, notificationService, messagingService = getMessagingService() } = services;
 
   // Set up socket authentication using setupSocketAuthentication
   setupSocketAuthentication(io, authService);
@@ -35,6 +37,9 @@ export function setupWebSockets(io: Server, services: { authService: any; provid
   // Set up notification socket using setupNotificationSocket
   setupNotificationSocket(io, notificationService, authService);
 
+  // Set up messaging socket using setupMessagingSocket
+  setupMessagingSocket(io, messagingService, authService);
+
   // Set up connection event handler for the main socket namespace
   io.on('connection', (socket: Socket) => {
     handleMainConnection(socket);
@@ -0,0 +1,258 @@
+/**
+ * Implements WebSocket functionality for secure messaging in the Revolucare platform.
+ * This module delivers new messages and read receipts to conversation participants in real time,
+ * and lets connected users send messages, mark them as read and share typing indicators.
+ * Attachments are uploaded through the REST API; messages carrying them are still delivered here.
+ *
+ * @module websockets/messaging.socket
+ */
+
+import { Namespace, Server, Socket } from 'socket.io'; // socket.io@^4.6.1
+import { authenticateSocket } from './authentication.socket';
+import { logger } from '../utils/logger';
+import { MessagingService, MESSAGE_EVENTS } from '../services/messaging.service';
+import { Conversation, Message } from '../models/message.model';
+import { AuthService } from '../services/auth.service';
+
+/**
+ * Sets up WebSocket handlers for secure messaging functionality
+ *
+ * @param io - Socket.IO server instance
+ * @param messagingService - MessagingService instance shared with the REST API
+ * @param authService - AuthService instance for token validation
+ */
+export function setupMessagingSocket(io: Server, messagingService: MessagingService, authService: AuthService): void {
+  // Create a namespace for messaging-related WebSocket connections
+  const messagingNamespace = io.of('/messages');
+
+  // Set up authentication middleware for the namespace
+  messagingNamespace.use((socket, next) => {
+    authenticateSocket(socket, next, authService);
+  });
+
+  // Handle connection events for new socket connections
+  messagingNamespace.on('connection', (socket: Socket) => {
+    handleMessagingConnection(socket, messagingService);
+  });
+
+  // Relay messaging service events to participants
+  setupMessagingListeners(messagingNamespace, messagingService);
+
+  // Log successful setup of messaging WebSocket handlers
+  logger.info('Messaging WebSocket handlers set up');
+}
+
+/**
+ * Handles new WebSocket connections to the messaging namespace
+ *
+ * @param socket - Socket.IO socket instance
+ * @param messagingService - MessagingService instance
+ */
+function handleMessagingConnection(socket: Socket, messagingService: MessagingService): void {
+  // Extract user ID from socket data
+  const userId = socket.data.user.userId;
+
+  // Log new connection with user ID
+  logger.info('New messaging socket connection', { socketId: socket.id, userId });
+
+  // Join user-specific room so messages reach every device the user is connected from
+  socket.join(`user:${userId}`);
+
+  // Set up event handlers for messaging events
+  socket.on('joinConversation', (data: any, callback: Function) => {
+    handleJoinConversation(socket, data, callback, messagingService);
+  });
+
+  socket.on('leaveConversation', (data: any, callback: Function) => {
+    handleLeaveConversation(socket, data, callback);
+  });
+
+  socket.on('sendMessage', (data: any, callback: Function) => {
+    handleSendMessage(socket, data, callback, messagingService);
+  });
+
+  socket.on('markRead', (data: any, callback: Function) => {
+    handleMarkRead(socket, data, callback, messagingService);
+  });
+
+  socket.on('typing', (data: any) => {
+    handleTyping(socket, data);
+  });
+
+  // Handle disconnection event
+  socket.on('disconnect', () => {
+    logger.info('Messaging socket disconnected', { socketId: socket.id, userId });
+  });
+}
+
+/**
+ * Handles requests to join a conversation room to receive typing indicators
+ *
+ * @param socket - Socket.IO socket instance
+ * @param data - Request data containing the conversation ID
+ * @param callback - Callback function to return the conversation
+ * @param messagingService - MessagingService instance
+ */
+function handleJoinConversation(socket: Socket, data: any, callback: Function, messagingService: MessagingService): void {
+  const { userId, role } = socket.data.user;
+  const conversationId = data?.conversationId;
+
+  // Verify the user may access the conversation before joining its room
+  messagingService.getConversation(conversationId, userId, role)
+    .then(conversation => {
+      socket.join(`conversation:${conversationId}`);
+      logger.info('User joined conversation room', { socketId: socket.id, userId, conversationId });
+      callback({
+        success: true,
+        conversation
+      });
+    })
+    .catch(error => {
+      logger.error('Error joining conversation room', { error, userId, conversationId });
+      callback({
+        success: false,
+        error: error.message
+      });
+    });
+}
+
+/**
+ * Handles requests to leave a conversation room
+ *
+ * @param socket - Socket.IO socket instance
+ * @param data - Request data containing the conversation ID
+ * @param callback - Callback function to confirm leaving
+ */
+function handleLeaveConversation(socket: Socket, data: any, callback: Function): void {
+  const conversationId = data?.conversationId;
+
+  socket.leave(`conversation:${conversationId}`);
+
+  callback({
+    success: true,
+    conversationId
+  });
+}
+
+/**
+ * Handles requests to send a text message
+ *
+ * @param socket - Socket.IO socket instance
+ * @param data - Request data containing the conversation ID and message body
+ * @param callback - Callback function to return the sent message
+ * @param messagingService - MessagingService instance
+ */
+function handleSendMessage(socket: Socket, data: any, callback: Function, messagingService: MessagingService): void {
+  const { userId, role } = socket.data.user;
+  const conversationId = data?.conversationId;
+
+  // Delivery to participants happens through the message.sent listener
+  messagingService.sendMessage(conversationId, { body: data?.body }, userId, role)
+    .then(message => {
+      callback({
+        success: true,
+        message
+      });
+    })
+    .catch(error => {
+      logger.error('Error sending message', { error, userId, conversationId });
+      callback({
+        success: false,
+        error: error.message
+      });
+    });
+}
+
+/**
+ * Handles requests to mark a conversation's messages as read
+ *
+ * @param socket - Socket.IO socket instance
+ * @param data - Request data containing the conversation ID and optional read time
+ * @param callback - Callback function to return the receipt result
+ * @param messagingService - MessagingService instance
+ */
+function handleMarkRead(socket: Socket, data: any, callback: Function, messagingService: MessagingService): void {
+  const { userId, role } = socket.data.user;
+  const conversationId = data?.conversationId;
+  const readAt = data?.readAt ? new Date(data.readAt) : undefined;
+
+  if (readAt && isNaN(readAt.getTime())) {
+    callback({
+      success: false,
+      error: 'Invalid read time'
+    });
+    return;
+  }
+
+  messagingService.markAsRead(conversationId, userId, role, readAt)
+    .then(result => {
+      callback({
+        success: true,
+        result
+      });
+    })
+    .catch(error => {
+      logger.error('Error marking messages as read', { error, userId, conversationId });
+      callback({
+        success: false,
+        error: error.message
+      });
+    });
+}
+
+/**
+ * Relays typing indicators to the other sockets in a conversation room.
+ * Only sockets that joined the room (and were therefore authorized) can send or receive them.
+ *
+ * @param socket - Socket.IO socket instance
+ * @param data - Typing state containing the conversation ID
+ */
+function handleTyping(socket: Socket, data: any): void {
+  const room = `conversation:${data?.conversationId}`;
+
+  if (!socket.rooms.has(room)) {
+    return;
+  }
+
+  socket.to(room).emit('typing', {
+    conversationId: data.conversationId,
+    userId: socket.data.user.userId,
+    isTyping: Boolean(data.isTyping)
+  });
+}
+
+/**
+ * Registers listeners that deliver messaging service events to participants' user rooms
+ *
+ * @param namespace - The messaging namespace
+ * @param messagingService - MessagingService instance
+ */
+function setupMessagingListeners(namespace: Namespace, messagingService: MessagingService): void {
+  messagingService.on(MESSAGE_EVENTS.CONVERSATION_CREATED, ({ conversation, participantIds }: { conversation: Conversation; participantIds: string[] }) => {
+    emitToParticipants(namespace, participantIds, 'conversationCreated', conversation);
+  });
+
+  messagingService.on(MESSAGE_EVENTS.MESSAGE_SENT, ({ message, participantIds }: { message: Message; participantIds: string[] }) => {
+    emitToParticipants(namespace, participantIds, 'message', message);
+  });
+
+  messagingService.on(MESSAGE_EVENTS.MESSAGES_READ, ({ participantIds, ...result }: { participantIds: string[]; [key: string]: any }) => {
+    emitToParticipants(namespace, participantIds, 'messagesRead', result);
+  });
+}
+
+/**
+ * Emits an event to the user rooms of the given participants
+ *
+ * @param namespace - The messaging namespace
+ * @param participantIds - IDs of the users to notify
+ * @param event - Event name
+ * @param payload - Event payload
+ */
+function emitToParticipants(namespace: Namespace, participantIds: string[], event: string, payload: any): void {
+  try {
+    namespace.to(participantIds.map(participantId => `user:${participantId}`)).emit(event, payload);
+  } catch (error) {
+    logger.error('Error emitting messaging event', { event, participantIds, error });
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * Booking test fixture data for Revolucare platform
+ *
+ * This file provides mock booking data for unit and integration tests.
+ * The data structure matches the Booking interface defined in booking.model.ts.
+ */
+
+import { Booking, BookingStatus } from '../../src/models/booking.model';
+
+/**
+ * Generates a mock booking for testing
+ * @param overrides - Optional properties to override default values
+ * @returns A mock booking with default values overridden by provided values
+ */
+export const generateMockBooking = (overrides: Partial<Booking> = {}): Booking => {
+  return {
+    id: 'booking-1',
+    clientId: 'client-123',
+    providerId: 'provider-123',
+    serviceItemId: null,
+    startTime: new Date(Date.now() + 24 * 60 * 60 * 1000),
+    endTime: new Date(Date.now() + 25 * 60 * 60 * 1000),
+    status: BookingStatus.SCHEDULED,
+    notes: null,
+    cancellationReason: null,
+    cancelledBy: null,
+    location: null,
+    rescheduledToId: null,
+    seriesId: null,
+    confirmedAt: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides
+  };
+};
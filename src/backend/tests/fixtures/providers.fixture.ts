@@ -153,6 +153,8 @@ export const generateMockAvailability = (overrides: Partial<Availability> = {}):
     exceptions: [
       generateMockAvailabilityException({ id: 'exc-1' })
     ],
+    busyPeriods: [],
+    timezone: 'America/Chicago',
     lastUpdated: new Date('2023-05-20T14:40:00Z'),
     ...overrides
   };
@@ -176,6 +178,7 @@ export const generateMockProviderProfile = (overrides: Partial<ProviderProfile>
     insuranceAccepted: ['Medicare', 'Blue Cross', 'Aetna', 'Cigna'],
     address: generateMockAddress(),
     phone: '(555) 123-4567',
+    timezone: 'America/Chicago',
     averageRating: 4.8,
     reviewCount: 42,
     createdAt: new Date('2023-01-15T10:00:00Z'),
@@ -1,5 +1,6 @@
 import { PlanStatus } from '../../src/constants/plan-statuses';
 import { ServiceType } from '../../src/constants/service-types';
+import { PaymentStatus } from '../../src/constants/payment-statuses';
 import {
   ServicesPlan,
   NeedsAssessment,
@@ -128,6 +129,8 @@ export const generateMockNeedsAssessment = (overrides: Partial<NeedsAssessment>
         priority: 'Medium'
       }
     },
+    instrumentResponses: [],
+    scores: [],
     notes: 'Client has a strong support system with family but needs professional services to maintain independence.',
     createdAt: new Date('2023-01-15T00:00:00.000Z'),
     updatedAt: new Date('2023-01-15T00:00:00.000Z')
@@ -154,8 +157,11 @@ export const generateMockServiceItem = (overrides: Partial<ServiceItem> = {}): S
     description: 'Physical therapy focusing on gait and balance training',
     frequency: '2x weekly',
     duration: '12 weeks',
+    cadence: null,
+    unitCost: null,
     estimatedCost: 3000,
     status: 'active',
+    paymentStatus: PaymentStatus.UNPAID,
     createdAt: new Date('2023-01-17T00:00:00.000Z'),
     updatedAt: new Date('2023-01-17T00:00:00.000Z')
   };
@@ -152,6 +152,7 @@ export const generateMockClientProfile = (overrides: Partial<ClientProfile> = {}
     gender: 'Female',
     address: generateMockAddress(),
     phone: '(555) 123-4567',
+    timezone: 'America/Chicago',
     emergencyContact: generateMockEmergencyContact(),
     medicalInformation: generateMockMedicalInformation(),
     insurance: generateMockInsurance(),
@@ -186,6 +187,7 @@ export const generateMockProviderProfile = (overrides: Partial<ProviderProfile>
     bio: 'Experienced provider with over 10 years in rehabilitation services',
     specializations: ['Neurological Rehabilitation', 'Mobility Training'],
     insuranceAccepted: ['Medicare', 'Blue Cross', 'Aetna'],
+    timezone: 'America/Chicago',
     averageRating: 4.8,
     reviewCount: 42,
     createdAt: new Date('2023-01-01T00:00:00.000Z'),
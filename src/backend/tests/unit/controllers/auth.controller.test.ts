@@ -1,6 +1,6 @@
 import { Request, Response, NextFunction } from 'express'; // express@^4.18.2
 import { AuthController, createAuthController } from '../../../src/api/controllers/auth.controller';
-import { IAuthService, RegisterRequest, LoginRequest, AuthResponse, RefreshTokenRequest, VerifyEmailRequest, PasswordResetRequest, PasswordResetConfirmRequest, ChangePasswordRequest, AuthenticatedRequest } from '../../../src/interfaces/auth.interface';
+import { IAuthService, RegisterRequest, LoginRequest, AuthResponse, RefreshTokenRequest, VerifyEmailRequest, PasswordResetRequest, PasswordResetConfirmRequest, ChangePasswordRequest, AuthenticatedRequest, MfaChallengeResponse } from '../../../src/interfaces/auth.interface';
 import { UserWithoutPassword } from '../../../src/types/user.types';
 import { Roles } from '../../../src/constants/roles';
 import { ErrorCodes } from '../../../src/constants/error-codes';
@@ -24,6 +24,15 @@ const createMockAuthService = (): IAuthService => {
     validateToken: jest.fn(),
     resendVerificationEmail: jest.fn(),
     getUserFromToken: jest.fn(),
+    verifyMfaChallenge: jest.fn(),
+    startMfaEnrollment: jest.fn(),
+    setupMfa: jest.fn(),
+    enableMfa: jest.fn(),
+    disableMfa: jest.fn(),
+    regenerateRecoveryCodes: jest.fn(),
+    getMfaStatus: jest.fn(),
+    getMfaPolicies: jest.fn(),
+    updateMfaPolicy: jest.fn(),
   };
 
   return mockAuthService;
@@ -168,6 +177,37 @@ describe('AuthController', () => {
       });
     });
 
+    it('should return the MFA challenge without issuing tokens when a second factor is required', async () => {
+      // Arrange
+      const mockAuthService = createMockAuthService();
+      const mockChallenge: MfaChallengeResponse = {
+        mfaRequired: true,
+        mfaToken: 'mockMfaToken',
+        expiresIn: 300,
+        enrollmentRequired: false,
+      };
+      mockAuthService.login.mockResolvedValue(mockChallenge);
+      const controller = createAuthController(mockAuthService);
+      const req = createMockRequest({
+        email: 'test@example.com',
+        password: 'password123',
+      } as LoginRequest);
+      const res = createMockResponse();
+      const next = createMockNext();
+
+      // Act
+      await controller.login(req, res, next);
+
+      // Assert
+      expect(res.cookie).not.toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(res.json).toHaveBeenCalledWith({
+        success: true,
+        message: 'Multi-factor authentication required',
+        data: mockChallenge,
+      });
+    });
+
     it('should pass errors to next middleware', async () => {
       // Arrange
       const mockAuthService = createMockAuthService();
@@ -189,6 +229,42 @@ describe('AuthController', () => {
     });
   });
 
+  describe('verifyMfa', () => {
+    it('should complete the login and set the refresh token cookie', async () => {
+      // Arrange
+      const mockAuthService = createMockAuthService();
+      const mockUser: UserWithoutPassword = generateMockUserWithoutPassword();
+      const mockAuthResponse: AuthResponse = {
+        accessToken: 'mockAccessToken',
+        refreshToken: 'mockRefreshToken',
+        expiresIn: 3600,
+        user: mockUser,
+        recoveryCodes: ['ABCDE-FGHJK'],
+      };
+      mockAuthService.verifyMfaChallenge.mockResolvedValue(mockAuthResponse);
+      const controller = createAuthController(mockAuthService);
+      const req = createMockRequest({ mfaToken: 'mockMfaToken', code: '123456' });
+      const res = createMockResponse();
+      const next = createMockNext();
+
+      // Act
+      await controller.verifyMfa(req, res, next);
+
+      // Assert
+      expect(mockAuthService.verifyMfaChallenge).toHaveBeenCalledWith(req.body);
+      expect(res.cookie).toHaveBeenCalledWith('refreshToken', mockAuthResponse.refreshToken, expect.any(Object));
+      expect(res.json).toHaveBeenCalledWith({
+        success: true,
+        message: 'User logged in successfully',
+        data: {
+          accessToken: mockAuthResponse.accessToken,
+          user: mockAuthResponse.user,
+          recoveryCodes: mockAuthResponse.recoveryCodes,
+        },
+      });
+    });
+  });
+
   describe('refreshToken', () => {
     it('should refresh tokens and return new tokens with 200 status', async () => {
       // Arrange
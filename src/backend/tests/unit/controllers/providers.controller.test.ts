@@ -1,5 +1,5 @@
 import { Request, Response, NextFunction } from 'express'; // jest-mock types
-import { ProvidersController } from '../../../src/api/controllers/providers.controller';
+import ProvidersController from '../../../src/api/controllers/providers.controller';
 import { ProvidersService } from '../../../src/services/providers.service';
 import {
   mockProviderProfiles,
@@ -12,6 +12,7 @@ import {
   generateMockProviderReview
 } from '../../fixtures/providers.fixture';
 import { ServiceType } from '../../../src/constants/service-types';
+import { Roles } from '../../../src/constants/roles';
 import {
   ProviderProfile,
   Availability,
@@ -121,7 +122,8 @@ describe('ProvidersController', () => {
       const req = createMockRequest({
         params: { providerId: 'provider-123' },
         body: { organizationName: 'Updated Name' },
-      });
+        user: { userId: 'admin-123', role: Roles.ADMINISTRATOR },
+      } as Partial<Request>);
       const res = createMockResponse();
 
       await providersController.updateProviderProfile(req as Request, res as Response, mockNext);
@@ -141,7 +143,8 @@ describe('ProvidersController', () => {
       const req = createMockRequest({
         params: { providerId: 'provider-123' },
         body: { organizationName: 'Updated Name' },
-      });
+        user: { userId: 'admin-123', role: Roles.ADMINISTRATOR },
+      } as Partial<Request>);
       const res = createMockResponse();
 
       await providersController.updateProviderProfile(req as Request, res as Response, mockNext);
@@ -149,6 +152,23 @@ describe('ProvidersController', () => {
       expect(providersService.updateProviderProfile).toHaveBeenCalledWith('provider-123', { organizationName: 'Updated Name' });
       expect(mockNext).toHaveBeenCalledWith(new Error('Update failed'));
     });
+
+    it('should reject updates from a provider who does not own the profile', async () => {
+      const mockProviderProfile = generateMockProviderProfile({ userId: 'provider-user-123' });
+      (providersService.getProviderProfile as jest.Mock).mockResolvedValue(mockProviderProfile);
+
+      const req = createMockRequest({
+        params: { providerId: 'provider-123' },
+        body: { organizationName: 'Updated Name' },
+        user: { userId: 'other-provider-user', role: Roles.PROVIDER },
+      } as Partial<Request>);
+      const res = createMockResponse();
+
+      await providersController.updateProviderProfile(req as Request, res as Response, mockNext);
+
+      expect(providersService.updateProviderProfile).not.toHaveBeenCalled();
+      expect(mockNext).toHaveBeenCalledWith(expect.objectContaining({ message: 'You do not have permission to manage this provider' }));
+    });
   });
 
   describe('getAvailability', () => {
@@ -170,7 +190,15 @@ describe('ProvidersController', () => {
       expect(res.json).toHaveBeenCalledWith({
         success: true,
         message: 'Provider availability retrieved successfully',
-        data: mockAvailability,
+        data: expect.objectContaining({
+          providerId: mockAvailability.providerId,
+          timezone: 'America/Chicago',
+          lastUpdated: '2023-05-20T09:40:00-05:00',
+          slots: expect.arrayContaining([
+            expect.objectContaining({ id: 'slot-1', startTime: '2023-05-15T04:00:00-05:00', endTime: '2023-05-15T05:00:00-05:00' })
+          ]),
+          exceptions: [expect.objectContaining({ id: 'exc-1', date: '2023-05-18' })]
+        }),
       });
     });
 
@@ -199,7 +227,8 @@ describe('ProvidersController', () => {
       const req = createMockRequest({
         params: { providerId: 'provider-123' },
         body: { slots: [] },
-      });
+        user: { userId: 'admin-123', role: Roles.ADMINISTRATOR },
+      } as Partial<Request>);
       const res = createMockResponse();
 
       await providersController.updateAvailability(req as Request, res as Response, mockNext);
@@ -209,7 +238,15 @@ describe('ProvidersController', () => {
       expect(res.json).toHaveBeenCalledWith({
         success: true,
         message: 'Provider availability updated successfully',
-        data: mockUpdatedAvailability,
+        data: expect.objectContaining({
+          providerId: mockUpdatedAvailability.providerId,
+          timezone: 'America/Chicago',
+          lastUpdated: '2023-05-20T09:40:00-05:00',
+          slots: expect.arrayContaining([
+            expect.objectContaining({ id: 'slot-1', startTime: '2023-05-15T04:00:00-05:00', endTime: '2023-05-15T05:00:00-05:00' })
+          ]),
+          exceptions: [expect.objectContaining({ id: 'exc-1', date: '2023-05-18' })]
+        }),
       });
     });
 
@@ -219,7 +256,8 @@ describe('ProvidersController', () => {
       const req = createMockRequest({
         params: { providerId: 'provider-123' },
         body: { slots: [] },
-      });
+        user: { userId: 'admin-123', role: Roles.ADMINISTRATOR },
+      } as Partial<Request>);
       const res = createMockResponse();
 
       await providersController.updateAvailability(req as Request, res as Response, mockNext);
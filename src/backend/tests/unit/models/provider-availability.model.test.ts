@@ -0,0 +1,222 @@
+import {
+  ProviderAvailabilityModel,
+  applyBusyPeriods,
+  applyExceptions,
+  generateTimeSlots
+} from '../../../src/models/provider-availability.model';
+import {
+  AvailabilityException,
+  BusyPeriod,
+  DayOfWeek,
+  RecurringSchedule,
+  TimeSlot
+} from '../../../src/types/provider.types';
+import { ServiceType } from '../../../src/constants/service-types';
+
+const PROVIDER_ID = 'provider-123';
+const NEW_YORK = 'America/New_York';
+
+// Helper function to create a recurring schedule for physical therapy, which has 60 minute slots
+const createSchedule = (dayOfWeek: DayOfWeek, startTime: string, endTime: string): RecurringSchedule => ({
+  id: `schedule-${dayOfWeek}`,
+  providerId: PROVIDER_ID,
+  dayOfWeek,
+  startTime,
+  endTime,
+  serviceTypes: [ServiceType.PHYSICAL_THERAPY]
+});
+
+// Helper function to create an open time slot
+const createSlot = (startTime: Date, endTime: Date): TimeSlot => ({
+  id: `slot-${startTime.getTime()}`,
+  providerId: PROVIDER_ID,
+  startTime,
+  endTime,
+  serviceType: ServiceType.PHYSICAL_THERAPY,
+  isBooked: false,
+  bookingId: null
+});
+
+// Helper function to create an exception for a calendar date, stored at UTC midnight like API input
+const createException = (date: string, overrides: Partial<AvailabilityException> = {}): AvailabilityException => ({
+  id: `exception-${date}`,
+  providerId: PROVIDER_ID,
+  date: new Date(date),
+  isAvailable: false,
+  reason: null,
+  alternativeSlots: null,
+  ...overrides
+});
+
+// Helper function to create a period blocked by a personal event in the provider's external calendar
+const createBusyPeriod = (startTime: Date, endTime: Date): BusyPeriod => ({
+  id: `busy-${startTime.getTime()}`,
+  providerId: PROVIDER_ID,
+  connectionId: 'connection-1',
+  externalEventId: `event-${startTime.getTime()}`,
+  startTime,
+  endTime
+});
+
+const startTimes = (slots: TimeSlot[]): Date[] => slots.map(slot => slot.startTime);
+
+describe('generateTimeSlots', () => {
+  it('keeps slots at the same local time either side of a DST change', () => {
+    // Monday 4 March 2030 is before New York springs forward on 10 March, Monday 11 March is after
+    const slots = generateTimeSlots(
+      [createSchedule(DayOfWeek.MONDAY, '09:00', '11:00')],
+      { startDate: new Date(Date.UTC(2030, 2, 4, 5, 0)), endDate: new Date(Date.UTC(2030, 2, 12, 3, 59)) },
+      PROVIDER_ID,
+      NEW_YORK
+    );
+
+    expect(startTimes(slots)).toEqual([
+      new Date(Date.UTC(2030, 2, 4, 14, 0)),
+      new Date(Date.UTC(2030, 2, 4, 15, 0)),
+      new Date(Date.UTC(2030, 2, 11, 13, 0)),
+      new Date(Date.UTC(2030, 2, 11, 14, 0))
+    ]);
+  });
+
+  it('offers one hour fewer on the day clocks spring forward', () => {
+    // 01:00-04:00 on Sunday 10 March 2030 is only two hours long because 02:00-03:00 is skipped
+    const slots = generateTimeSlots(
+      [createSchedule(DayOfWeek.SUNDAY, '01:00', '04:00')],
+      { startDate: new Date(Date.UTC(2030, 2, 10, 5, 0)), endDate: new Date(Date.UTC(2030, 2, 10, 12, 0)) },
+      PROVIDER_ID,
+      NEW_YORK
+    );
+
+    expect(startTimes(slots)).toEqual([
+      new Date(Date.UTC(2030, 2, 10, 6, 0)),
+      new Date(Date.UTC(2030, 2, 10, 7, 0))
+    ]);
+    expect(slots[1].endTime).toEqual(new Date(Date.UTC(2030, 2, 10, 8, 0)));
+  });
+
+  it('offers one hour more on the day clocks fall back', () => {
+    // 01:00-04:00 on Sunday 3 November 2030 is four hours long because 01:00-02:00 happens twice
+    const slots = generateTimeSlots(
+      [createSchedule(DayOfWeek.SUNDAY, '01:00', '04:00')],
+      { startDate: new Date(Date.UTC(2030, 10, 3, 4, 0)), endDate: new Date(Date.UTC(2030, 10, 3, 12, 0)) },
+      PROVIDER_ID,
+      NEW_YORK
+    );
+
+    expect(startTimes(slots)).toEqual([
+      new Date(Date.UTC(2030, 10, 3, 5, 0)),
+      new Date(Date.UTC(2030, 10, 3, 6, 0)),
+      new Date(Date.UTC(2030, 10, 3, 7, 0)),
+      new Date(Date.UTC(2030, 10, 3, 8, 0))
+    ]);
+  });
+
+  it('uses the provider\'s calendar day to match the schedule\'s weekday', () => {
+    // 20:00 on Tuesday in Los Angeles is already Wednesday in UTC
+    const slots = generateTimeSlots(
+      [createSchedule(DayOfWeek.TUESDAY, '20:00', '21:00')],
+      { startDate: new Date(Date.UTC(2030, 0, 8, 8, 0)), endDate: new Date(Date.UTC(2030, 0, 9, 7, 59)) },
+      PROVIDER_ID,
+      'America/Los_Angeles'
+    );
+
+    expect(startTimes(slots)).toEqual([new Date(Date.UTC(2030, 0, 9, 4, 0))]);
+  });
+});
+
+describe('applyExceptions', () => {
+  // 21:00 on Sunday 10 March in New York is 01:00 on Monday 11 March in UTC
+  const lateSunday = createSlot(new Date(Date.UTC(2030, 2, 11, 1, 0)), new Date(Date.UTC(2030, 2, 11, 2, 0)));
+
+  it('removes slots on the exception\'s date in the provider\'s timezone', () => {
+    expect(applyExceptions([lateSunday], [createException('2030-03-10')], NEW_YORK)).toEqual([]);
+    expect(applyExceptions([lateSunday], [createException('2030-03-11')], NEW_YORK)).toEqual([lateSunday]);
+  });
+
+  it('adds alternative slots offered on the exception\'s date', () => {
+    const alternative = createSlot(new Date(Date.UTC(2030, 2, 10, 18, 0)), new Date(Date.UTC(2030, 2, 10, 19, 0)));
+
+    const slots = applyExceptions(
+      [lateSunday],
+      [createException('2030-03-10', { isAvailable: true, alternativeSlots: [alternative] })],
+      NEW_YORK
+    );
+
+    expect(slots).toEqual([lateSunday, alternative]);
+  });
+});
+
+describe('applyBusyPeriods', () => {
+  const nine = createSlot(new Date(Date.UTC(2030, 2, 11, 13, 0)), new Date(Date.UTC(2030, 2, 11, 14, 0)));
+  const ten = createSlot(new Date(Date.UTC(2030, 2, 11, 14, 0)), new Date(Date.UTC(2030, 2, 11, 15, 0)));
+
+  it('removes slots a personal event overlaps', () => {
+    const busy = createBusyPeriod(new Date(Date.UTC(2030, 2, 11, 13, 30)), new Date(Date.UTC(2030, 2, 11, 13, 45)));
+
+    expect(applyBusyPeriods([nine, ten], [busy])).toEqual([ten]);
+  });
+
+  it('keeps slots that only touch a personal event', () => {
+    const busy = createBusyPeriod(new Date(Date.UTC(2030, 2, 11, 12, 0)), new Date(Date.UTC(2030, 2, 11, 13, 0)));
+
+    expect(applyBusyPeriods([nine, ten], [busy])).toEqual([nine, ten]);
+  });
+});
+
+describe('ProviderAvailabilityModel', () => {
+  const availability = new ProviderAvailabilityModel({
+    providerId: PROVIDER_ID,
+    timezone: NEW_YORK,
+    recurringSchedule: [createSchedule(DayOfWeek.MONDAY, '09:00', '12:00')],
+    exceptions: [createException('2030-03-18')],
+    busyPeriods: [createBusyPeriod(new Date(Date.UTC(2030, 2, 25, 13, 0)), new Date(Date.UTC(2030, 2, 25, 14, 0)))]
+  });
+
+  it('checks requested times against the schedule in the provider\'s timezone', () => {
+    // 09:00-10:00 in New York after the March change is 13:00-14:00 UTC
+    expect(availability.isAvailable(
+      new Date(Date.UTC(2030, 2, 11, 13, 0)),
+      new Date(Date.UTC(2030, 2, 11, 14, 0)),
+      ServiceType.PHYSICAL_THERAPY
+    )).toBe(true);
+    expect(availability.isAvailable(
+      new Date(Date.UTC(2030, 2, 11, 12, 0)),
+      new Date(Date.UTC(2030, 2, 11, 13, 0)),
+      ServiceType.PHYSICAL_THERAPY
+    )).toBe(false);
+  });
+
+  it('rejects times on an unavailable exception date', () => {
+    expect(availability.isAvailable(
+      new Date(Date.UTC(2030, 2, 18, 13, 0)),
+      new Date(Date.UTC(2030, 2, 18, 14, 0)),
+      ServiceType.PHYSICAL_THERAPY
+    )).toBe(false);
+  });
+
+  it('rejects times blocked by a personal event in the provider\'s calendar', () => {
+    expect(availability.isAvailable(
+      new Date(Date.UTC(2030, 2, 25, 13, 0)),
+      new Date(Date.UTC(2030, 2, 25, 14, 0)),
+      ServiceType.PHYSICAL_THERAPY
+    )).toBe(false);
+    expect(availability.isAvailable(
+      new Date(Date.UTC(2030, 2, 25, 14, 0)),
+      new Date(Date.UTC(2030, 2, 25, 15, 0)),
+      ServiceType.PHYSICAL_THERAPY
+    )).toBe(true);
+  });
+
+  it('generates available slots in the provider\'s timezone', () => {
+    const slots = availability.getAvailableTimeSlots({
+      startDate: new Date(Date.UTC(2030, 2, 11, 4, 0)),
+      endDate: new Date(Date.UTC(2030, 2, 12, 3, 59))
+    });
+
+    expect(startTimes(slots)).toEqual([
+      new Date(Date.UTC(2030, 2, 11, 13, 0)),
+      new Date(Date.UTC(2030, 2, 11, 14, 0)),
+      new Date(Date.UTC(2030, 2, 11, 15, 0))
+    ]);
+  });
+});
@@ -0,0 +1,103 @@
+import { ProviderAvailabilityRepository } from '../../../src/repositories/provider-availability.repository';
+import { prisma } from '../../../src/config/database';
+import { ServiceType } from '../../../src/constants/service-types';
+
+// Mock the Prisma client; batched operations resolve to the results of each operation
+jest.mock('../../../src/config/database', () => ({
+  prisma: {
+    providerAvailability: { findUnique: jest.fn() },
+    timeSlot: {
+      findFirst: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn()
+    },
+    $transaction: jest.fn((operations: Array<Promise<unknown>>) => Promise.all(operations))
+  }
+}));
+
+// Mock the Redis client used for caching availability
+jest.mock('../../../src/config/redis', () => ({
+  redisClient: { get: jest.fn(), set: jest.fn(), del: jest.fn() },
+  getCacheKey: jest.fn()
+}));
+
+// Mock the logger module
+jest.mock('../../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+const PROVIDER_ID = 'provider-456';
+
+// Helper function to create a stored time slot for testing
+const createStoredSlot = (startTime: Date, endTime: Date) => ({
+  id: 'slot-1',
+  providerId: PROVIDER_ID,
+  startTime,
+  endTime,
+  serviceType: ServiceType.PHYSICAL_THERAPY,
+  isBooked: false,
+  bookingId: null,
+  providerAvailabilityId: 'availability-1'
+});
+
+describe('ProviderAvailabilityRepository', () => {
+  let repository: ProviderAvailabilityRepository;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    repository = new ProviderAvailabilityRepository();
+
+    (prisma.providerAvailability.findUnique as jest.Mock).mockResolvedValue({ id: 'availability-1', providerId: PROVIDER_ID });
+    (prisma.timeSlot.create as jest.Mock).mockImplementation(({ data }) => Promise.resolve(data));
+    (prisma.timeSlot.update as jest.Mock).mockImplementation(({ where, data }) =>
+      Promise.resolve({ ...createStoredSlot(data.startTime, data.endTime), id: where.id })
+    );
+  });
+
+  describe('findOrCreateTimeSlot', () => {
+    const startTime = new Date('2030-01-07T10:30:00Z');
+    const endTime = new Date('2030-01-07T11:00:00Z');
+
+    it('splits a longer stored slot so the rest of it stays open', async () => {
+      (prisma.timeSlot.findFirst as jest.Mock).mockResolvedValue(
+        createStoredSlot(new Date('2030-01-07T10:00:00Z'), new Date('2030-01-07T12:00:00Z'))
+      );
+
+      const slot = await repository.findOrCreateTimeSlot(PROVIDER_ID, startTime, endTime, ServiceType.PHYSICAL_THERAPY);
+
+      expect(slot).toMatchObject({ id: 'slot-1', startTime, endTime, isBooked: false });
+      expect(prisma.timeSlot.update).toHaveBeenCalledWith({ where: { id: 'slot-1' }, data: { startTime, endTime } });
+      expect(prisma.timeSlot.create).toHaveBeenCalledTimes(2);
+      expect(prisma.timeSlot.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ startTime: new Date('2030-01-07T10:00:00Z'), endTime: startTime, isBooked: false })
+      });
+      expect(prisma.timeSlot.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ startTime: endTime, endTime: new Date('2030-01-07T12:00:00Z'), isBooked: false })
+      });
+    });
+
+    it('uses a stored slot that matches the window exactly', async () => {
+      (prisma.timeSlot.findFirst as jest.Mock).mockResolvedValue(createStoredSlot(startTime, endTime));
+
+      const slot = await repository.findOrCreateTimeSlot(PROVIDER_ID, startTime, endTime, ServiceType.PHYSICAL_THERAPY);
+
+      expect(slot).toMatchObject({ id: 'slot-1', startTime, endTime });
+      expect(prisma.timeSlot.update).not.toHaveBeenCalled();
+      expect(prisma.timeSlot.create).not.toHaveBeenCalled();
+    });
+
+    it('stores a new slot when no stored slot covers the window', async () => {
+      (prisma.timeSlot.findFirst as jest.Mock).mockResolvedValue(null);
+
+      const slot = await repository.findOrCreateTimeSlot(PROVIDER_ID, startTime, endTime, ServiceType.PHYSICAL_THERAPY);
+
+      expect(slot).toMatchObject({ startTime, endTime, isBooked: false });
+      expect(prisma.timeSlot.create).toHaveBeenCalledTimes(1);
+    });
+  });
+});
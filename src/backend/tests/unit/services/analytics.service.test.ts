@@ -31,6 +31,7 @@ const createMockRepository = (overrides: Partial<IAnalyticsRepository> = {}): IA
     getUserActivityData: jest.fn(),
     getProviderPerformanceData: jest.fn(),
     getCarePlanOutcomeData: jest.fn(),
+    getInterventionEffectivenessData: jest.fn(),
     getServiceUtilizationData: jest.fn(),
     ...overrides,
   };
@@ -0,0 +1,186 @@
+import { AuditService, MAX_AUDIT_EXPORT_ROWS, diffRecords } from '../../../src/services/audit.service';
+import { AuditLogRepository } from '../../../src/repositories/audit-log.repository';
+import { AuditContext } from '../../../src/interfaces/audit.interface';
+import {
+  AuditAction,
+  AuditExportFormat,
+  AuditLog,
+  AuditResourceType,
+  CreateAuditLogDTO
+} from '../../../src/models/audit-log.model';
+import { ErrorCodes } from '../../../src/constants/error-codes';
+import { logger } from '../../../src/utils/logger';
+
+// Mock the logger module, keeping the real redaction helper used for diffs
+jest.mock('../../../src/utils/logger', () => ({
+  ...jest.requireActual('../../../src/utils/logger'),
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+const ADMIN_ID = 'admin-123';
+const CLIENT_ID = 'client-456';
+
+const context: AuditContext = {
+  actorId: ADMIN_ID,
+  actorRole: 'administrator',
+  ipAddress: '127.0.0.1',
+  userAgent: 'jest',
+  requestId: 'request-789'
+};
+
+// Helper function to create audit entry data for testing
+const createEntryData = (overrides: Partial<CreateAuditLogDTO> = {}): CreateAuditLogDTO => ({
+  ...context,
+  action: AuditAction.READ,
+  resourceType: AuditResourceType.CARE_PLAN,
+  resourceId: 'care-plan-123',
+  subjectId: CLIENT_ID,
+  ...overrides
+});
+
+// Helper function to create a mock audit log entry for testing
+const createMockAuditLog = (overrides: Partial<AuditLog> = {}): AuditLog => ({
+  id: 'audit-123',
+  actorId: ADMIN_ID,
+  actorRole: 'administrator',
+  action: AuditAction.UPDATE,
+  resourceType: AuditResourceType.CARE_PLAN,
+  resourceId: 'care-plan-123',
+  subjectId: CLIENT_ID,
+  changes: [{ field: 'title', before: 'Old, "draft"', after: 'New' }],
+  ipAddress: '127.0.0.1',
+  userAgent: 'jest',
+  requestId: 'request-789',
+  metadata: {},
+  createdAt: new Date('2024-01-01T00:00:00.000Z'),
+  ...overrides
+});
+
+describe('diffRecords', () => {
+  it('should return the changed fields as dot-separated paths', () => {
+    const changes = diffRecords(
+      { title: 'Plan', goals: { primary: 'Walk' }, status: 'draft' },
+      { title: 'Plan', goals: { primary: 'Run' }, status: 'active' }
+    );
+
+    expect(changes).toEqual([
+      { field: 'goals.primary', before: 'Walk', after: 'Run' },
+      { field: 'status', before: 'draft', after: 'active' }
+    ]);
+  });
+
+  it('should record every field for creations and deletions', () => {
+    expect(diffRecords(null, { id: 'plan-1', title: 'Plan' })).toEqual([
+      { field: 'id', before: undefined, after: 'plan-1' },
+      { field: 'title', before: undefined, after: 'Plan' }
+    ]);
+    expect(diffRecords({ id: 'plan-1' }, null)).toEqual([
+      { field: 'id', before: 'plan-1', after: undefined }
+    ]);
+  });
+
+  it('should ignore updatedAt and redact sensitive fields', () => {
+    const changes = diffRecords(
+      { passwordHash: 'old-hash', role: 'client', updatedAt: '2024-01-01' },
+      { passwordHash: 'new-hash', role: 'provider', updatedAt: '2024-01-02' }
+    );
+
+    expect(changes).toEqual([{ field: 'role', before: 'client', after: 'provider' }]);
+  });
+});
+
+describe('AuditService', () => {
+  let auditLogRepository: AuditLogRepository;
+  let auditService: AuditService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    auditLogRepository = {
+      create: jest.fn().mockImplementation(async (data: CreateAuditLogDTO) => createMockAuditLog(data as Partial<AuditLog>)),
+      findById: jest.fn(),
+      findAll: jest.fn(),
+      findForExport: jest.fn().mockResolvedValue([createMockAuditLog()]),
+      count: jest.fn().mockResolvedValue(1)
+    } as unknown as AuditLogRepository;
+
+    auditService = new AuditService(auditLogRepository);
+  });
+
+  describe('record', () => {
+    it('should persist the entry', async () => {
+      const result = await auditService.record(createEntryData());
+
+      expect(result).not.toBeNull();
+      expect(auditLogRepository.create).toHaveBeenCalledWith(createEntryData());
+    });
+
+    it('should log and swallow persistence failures', async () => {
+      (auditLogRepository.create as jest.Mock).mockRejectedValue(new Error('connection lost'));
+
+      await expect(auditService.record(createEntryData())).resolves.toBeNull();
+      expect(logger.error).toHaveBeenCalledWith('Audit trail write failed', expect.objectContaining({
+        error: 'connection lost',
+        requestId: 'request-789'
+      }));
+    });
+  });
+
+  describe('recordChange', () => {
+    it('should record the field-level diff of the change', async () => {
+      await auditService.recordChange(
+        createEntryData({ action: AuditAction.UPDATE }),
+        { id: 'care-plan-123', title: 'Old' },
+        { id: 'care-plan-123', title: 'New' }
+      );
+
+      expect(auditLogRepository.create).toHaveBeenCalledWith(expect.objectContaining({
+        action: AuditAction.UPDATE,
+        changes: [{ field: 'title', before: 'Old', after: 'New' }]
+      }));
+    });
+  });
+
+  describe('exportAuditLogs', () => {
+    it('should export entries as CSV and audit the export', async () => {
+      const result = await auditService.exportAuditLogs({ subjectId: CLIENT_ID }, AuditExportFormat.CSV, context);
+
+      const [header, row] = result.content.split('\n');
+      expect(header.startsWith('id,createdAt,actorId')).toBe(true);
+      expect(row).toContain('2024-01-01T00:00:00.000Z');
+      expect(row).toContain('"[{""field"":""title"",""before"":""Old, \\""draft\\"""",""after"":""New""}]"');
+      expect(result.contentType).toBe('text/csv');
+      expect(result.count).toBe(1);
+
+      expect(auditLogRepository.create).toHaveBeenCalledWith(expect.objectContaining({
+        actorId: ADMIN_ID,
+        action: AuditAction.EXPORT,
+        resourceType: AuditResourceType.AUDIT_LOG,
+        metadata: { filters: { subjectId: CLIENT_ID }, format: AuditExportFormat.CSV, count: 1 }
+      }));
+    });
+
+    it('should export entries as JSON', async () => {
+      const result = await auditService.exportAuditLogs({}, AuditExportFormat.JSON, context);
+
+      expect(result.contentType).toBe('application/json');
+      expect(JSON.parse(result.content)).toHaveLength(1);
+    });
+
+    it('should refuse exports larger than the export limit', async () => {
+      (auditLogRepository.count as jest.Mock).mockResolvedValue(MAX_AUDIT_EXPORT_ROWS + 1);
+
+      await expect(
+        auditService.exportAuditLogs({}, AuditExportFormat.CSV, context)
+      ).rejects.toMatchObject({ code: ErrorCodes.VALIDATION_ERROR });
+
+      expect(auditLogRepository.findForExport).not.toHaveBeenCalled();
+      expect(auditLogRepository.create).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,239 @@
+import { AuthService } from '../../../src/services/auth.service';
+import { UserRepository } from '../../../src/repositories/user.repository';
+import { MfaRepository } from '../../../src/repositories/mfa.repository';
+import { UserMfa } from '../../../src/models/mfa.model';
+import { AuthResponse, MfaChallengeResponse } from '../../../src/interfaces/auth.interface';
+import { Roles } from '../../../src/constants/roles';
+import { ErrorCodes } from '../../../src/constants/error-codes';
+import { generateTotpCode, generateTotpSecret, getTotpTimeStep, hashRecoveryCode } from '../../../src/utils/mfa';
+import { redisClient } from '../../../src/config/redis';
+import { generateMockUser } from '../../fixtures/users.fixture';
+
+// Mock the Redis client with an in-memory store for MFA challenges and refresh tokens
+jest.mock('../../../src/config/redis', () => {
+  const store = new Map<string, string>();
+  return {
+    redisClient: {
+      store,
+      get: jest.fn(async (key: string) => store.get(key) ?? null),
+      set: jest.fn(async (key: string, value: string) => { store.set(key, value); return 'OK'; }),
+      del: jest.fn(async (...keys: string[]) => keys.filter((key) => store.delete(key)).length),
+      ttl: jest.fn(async (key: string) => (store.has(key) ? 300 : -2)),
+      incr: jest.fn(async (key: string) => {
+        const value = Number(store.get(key) ?? 0) + 1;
+        store.set(key, String(value));
+        return value;
+      }),
+      expire: jest.fn(async (key: string) => (store.has(key) ? 1 : 0))
+    }
+  };
+});
+
+// Mock the user cache so logins always read from the repository
+jest.mock('../../../src/cache/user.cache', () => ({
+  getCachedUserIdByEmail: jest.fn().mockResolvedValue(null),
+  getCachedUser: jest.fn().mockResolvedValue(null),
+  cacheUser: jest.fn(),
+  cacheUserByEmail: jest.fn(),
+  invalidateUserCache: jest.fn(),
+  invalidateUserEmailCache: jest.fn()
+}));
+
+// Mock token generation
+jest.mock('../../../src/utils/token-manager', () => ({
+  generateTokens: jest.fn().mockResolvedValue({ accessToken: 'access-token', refreshToken: 'refresh-token', expiresIn: 900 })
+}));
+
+// Mock password hashing, secret encryption and random token generation
+jest.mock('../../../src/utils/security', () => ({
+  generateSecureRandomString: jest.fn(() => require('crypto').randomBytes(32).toString('hex')),
+  verifyPassword: jest.fn().mockResolvedValue(true),
+  encryptData: jest.fn((data: string) => `encrypted:${data}`),
+  decryptData: jest.fn((data: string) => data.replace('encrypted:', ''))
+}));
+
+// Mock the logger module
+jest.mock('../../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+const SECRET = generateTotpSecret();
+
+// Helper function to create a mock MFA enrollment for testing
+const createMockUserMfa = (overrides: Partial<UserMfa> = {}): UserMfa => ({
+  id: 'mfa-123',
+  userId: generateMockUser().id,
+  secret: `encrypted:${SECRET}`,
+  isEnabled: true,
+  recoveryCodes: [hashRecoveryCode('ABCDE-FGHJK')],
+  lastUsedTimeStep: null,
+  enabledAt: new Date(),
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides
+});
+
+describe('AuthService multi-factor authentication', () => {
+  let userRepository: UserRepository;
+  let mfaRepository: MfaRepository;
+  let authService: AuthService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (redisClient as any).store.clear();
+
+    userRepository = {
+      findByEmail: jest.fn().mockResolvedValue(generateMockUser()),
+      findById: jest.fn().mockResolvedValue(generateMockUser())
+    } as unknown as UserRepository;
+
+    mfaRepository = {
+      findByUserId: jest.fn().mockResolvedValue(null),
+      savePendingEnrollment: jest.fn(),
+      enable: jest.fn(),
+      markTimeStepUsed: jest.fn().mockResolvedValue(true),
+      consumeRecoveryCode: jest.fn().mockResolvedValue(true),
+      replaceRecoveryCodes: jest.fn(),
+      deleteByUserId: jest.fn().mockResolvedValue(true),
+      isRequiredForRole: jest.fn().mockResolvedValue(false),
+      findPolicies: jest.fn(),
+      savePolicy: jest.fn()
+    } as unknown as MfaRepository;
+
+    authService = new AuthService(userRepository, null as any, null as any, mfaRepository);
+  });
+
+  const login = () => authService.login({ email: 'test@example.com', password: 'password123' });
+
+  describe('login', () => {
+    it('should issue tokens without a user password hash when MFA is not enabled or required', async () => {
+      const result = await login() as AuthResponse;
+
+      expect(result.accessToken).toBe('access-token');
+      expect(result.user).not.toHaveProperty('passwordHash');
+    });
+
+    it('should return an MFA challenge instead of tokens when MFA is enabled', async () => {
+      (mfaRepository.findByUserId as jest.Mock).mockResolvedValue(createMockUserMfa());
+
+      const result = await login() as MfaChallengeResponse;
+
+      expect(result).toEqual({ mfaRequired: true, mfaToken: expect.any(String), expiresIn: 300, enrollmentRequired: false });
+      expect(result).not.toHaveProperty('accessToken');
+    });
+
+    it('should require enrollment when the role requires MFA and the user has not enrolled', async () => {
+      (userRepository.findByEmail as jest.Mock).mockResolvedValue(generateMockUser({ role: Roles.CASE_MANAGER }));
+      (mfaRepository.isRequiredForRole as jest.Mock).mockResolvedValue(true);
+
+      const result = await login() as MfaChallengeResponse;
+
+      expect(result.enrollmentRequired).toBe(true);
+      expect(mfaRepository.isRequiredForRole).toHaveBeenCalledWith(Roles.CASE_MANAGER);
+    });
+  });
+
+  describe('verifyMfaChallenge', () => {
+    it('should issue tokens for a valid TOTP code and discard the challenge', async () => {
+      (mfaRepository.findByUserId as jest.Mock).mockResolvedValue(createMockUserMfa());
+      const { mfaToken } = await login() as MfaChallengeResponse;
+
+      const result = await authService.verifyMfaChallenge({ mfaToken, code: generateTotpCode(SECRET) });
+
+      expect(result.accessToken).toBe('access-token');
+      expect(mfaRepository.markTimeStepUsed).toHaveBeenCalledWith(generateMockUser().id, expect.any(Number));
+      await expect(authService.verifyMfaChallenge({ mfaToken, code: generateTotpCode(SECRET) }))
+        .rejects.toMatchObject({ code: ErrorCodes.UNAUTHORIZED });
+    });
+
+    it('should reject a code that has already been used', async () => {
+      (mfaRepository.findByUserId as jest.Mock).mockResolvedValue(createMockUserMfa());
+      (mfaRepository.markTimeStepUsed as jest.Mock).mockResolvedValue(false);
+      const { mfaToken } = await login() as MfaChallengeResponse;
+
+      await expect(authService.verifyMfaChallenge({ mfaToken, code: generateTotpCode(SECRET) }))
+        .rejects.toMatchObject({ code: ErrorCodes.UNAUTHORIZED });
+    });
+
+    it('should accept a recovery code', async () => {
+      (mfaRepository.findByUserId as jest.Mock).mockResolvedValue(createMockUserMfa());
+      const { mfaToken } = await login() as MfaChallengeResponse;
+
+      await authService.verifyMfaChallenge({ mfaToken, recoveryCode: 'abcde-fghjk' });
+
+      expect(mfaRepository.consumeRecoveryCode).toHaveBeenCalledWith(generateMockUser().id, hashRecoveryCode('ABCDE-FGHJK'));
+    });
+
+    it('should discard the challenge after too many invalid codes', async () => {
+      (mfaRepository.findByUserId as jest.Mock).mockResolvedValue(createMockUserMfa());
+      const { mfaToken } = await login() as MfaChallengeResponse;
+      const invalidCode = generateTotpCode(SECRET, getTotpTimeStep() - 10);
+
+      for (let attempt = 0; attempt < 5; attempt++) {
+        await expect(authService.verifyMfaChallenge({ mfaToken, code: invalidCode }))
+          .rejects.toMatchObject({ code: ErrorCodes.UNAUTHORIZED });
+      }
+
+      await expect(authService.verifyMfaChallenge({ mfaToken, code: generateTotpCode(SECRET) }))
+        .rejects.toMatchObject({ message: 'Invalid or expired MFA challenge' });
+    });
+
+    it('should not check more codes than the attempt limit when guesses arrive concurrently', async () => {
+      (mfaRepository.findByUserId as jest.Mock).mockResolvedValue(createMockUserMfa());
+      (mfaRepository.markTimeStepUsed as jest.Mock).mockResolvedValue(false);
+      const { mfaToken } = await login() as MfaChallengeResponse;
+
+      const results = await Promise.allSettled(
+        Array.from({ length: 10 }, () => authService.verifyMfaChallenge({ mfaToken, code: generateTotpCode(SECRET) }))
+      );
+
+      expect(results.every((result) => result.status === 'rejected')).toBe(true);
+      expect(mfaRepository.markTimeStepUsed).toHaveBeenCalledTimes(5);
+      expect(redisClient.expire).toHaveBeenCalledWith(`mfa_attempts:${mfaToken}`, 300);
+    });
+
+    it('should complete enrollment during login and return recovery codes', async () => {
+      (userRepository.findByEmail as jest.Mock).mockResolvedValue(generateMockUser({ role: Roles.ADMINISTRATOR }));
+      (mfaRepository.isRequiredForRole as jest.Mock).mockResolvedValue(true);
+      const { mfaToken } = await login() as MfaChallengeResponse;
+
+      const setup = await authService.startMfaEnrollment(mfaToken);
+      expect(setup.otpauthUri).toContain(`secret=${setup.secret}`);
+      (mfaRepository.findByUserId as jest.Mock).mockResolvedValue(
+        createMockUserMfa({ secret: `encrypted:${setup.secret}`, isEnabled: false, recoveryCodes: [] })
+      );
+
+      const result = await authService.verifyMfaChallenge({ mfaToken, code: generateTotpCode(setup.secret) });
+
+      expect(result.accessToken).toBe('access-token');
+      expect(result.recoveryCodes).toHaveLength(10);
+      expect(mfaRepository.enable).toHaveBeenCalledWith(
+        generateMockUser().id,
+        result.recoveryCodes!.map(hashRecoveryCode),
+        expect.any(Number)
+      );
+    });
+  });
+
+  describe('disableMfa', () => {
+    it('should refuse to disable MFA when the role requires it', async () => {
+      (mfaRepository.isRequiredForRole as jest.Mock).mockResolvedValue(true);
+
+      await expect(authService.disableMfa(generateMockUser().id, { code: generateTotpCode(SECRET) }))
+        .rejects.toMatchObject({ code: ErrorCodes.FORBIDDEN });
+      expect(mfaRepository.deleteByUserId).not.toHaveBeenCalled();
+    });
+
+    it('should disable MFA with a valid code', async () => {
+      (mfaRepository.findByUserId as jest.Mock).mockResolvedValue(createMockUserMfa());
+
+      await expect(authService.disableMfa(generateMockUser().id, { code: generateTotpCode(SECRET) })).resolves.toBe(true);
+      expect(mfaRepository.deleteByUserId).toHaveBeenCalledWith(generateMockUser().id);
+    });
+  });
+});
@@ -0,0 +1,366 @@
+import {
+  BookingPolicyService,
+  DEFAULT_BOOKING_POLICY,
+  isLateCancellation
+} from '../../../src/services/booking-policy.service';
+import { BookingPolicyRepository } from '../../../src/repositories/booking-policy.repository';
+import { BookingRepository } from '../../../src/repositories/booking.repository';
+import { CaseManagerProfileRepository } from '../../../src/repositories/case-manager-profile.repository';
+import { NotificationService } from '../../../src/services/notifications.service';
+import { IPaymentProcessingService } from '../../../src/interfaces/payment.interface';
+import { IAuditService } from '../../../src/interfaces/audit.interface';
+import {
+  BookingPolicy,
+  PolicyViolation,
+  PolicyViolationStatus,
+  PolicyViolationType
+} from '../../../src/types/booking-policy.types';
+import { Booking, BookingStatus } from '../../../src/models/booking.model';
+import { AuditAction, AuditResourceType } from '../../../src/models/audit-log.model';
+import { NOTIFICATION_TYPES } from '../../../src/constants/notification-types';
+import { ErrorCodes } from '../../../src/constants/error-codes';
+import { Roles } from '../../../src/constants/roles';
+import { generateMockBooking } from '../../fixtures/bookings.fixture';
+
+// Mock the logger module
+jest.mock('../../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+// Mock the payment processing service so Stripe is not configured
+jest.mock('../../../src/services/payment/payment-processing.service', () => ({
+  PaymentProcessingService: jest.fn()
+}));
+
+const PROVIDER_ID = 'provider-123';
+const CLIENT_ID = 'client-123';
+const CASE_MANAGER_ID = 'case-manager-123';
+
+// Monday 3 June 2024, 10:00 UTC
+const START_TIME = new Date(Date.UTC(2024, 5, 3, 10, 0));
+
+// A booking the client cancelled two hours before the appointment
+const LATE_CANCELLATION: Partial<Booking> = {
+  startTime: START_TIME,
+  endTime: new Date(Date.UTC(2024, 5, 3, 11, 0)),
+  status: BookingStatus.CANCELLED,
+  cancellationReason: 'Feeling unwell',
+  cancelledBy: CLIENT_ID,
+  createdAt: new Date(Date.UTC(2024, 4, 20)),
+  updatedAt: new Date(Date.UTC(2024, 5, 3, 8, 0))
+};
+
+// Helper function to create a mock booking policy
+const createMockPolicy = (overrides: Partial<BookingPolicy> = {}): BookingPolicy => ({
+  providerId: PROVIDER_ID,
+  cancellationWindowHours: 24,
+  lateCancellationFee: 2500,
+  noShowFee: 5000,
+  strikeThreshold: 3,
+  strikeWindowDays: 90,
+  updatedById: PROVIDER_ID,
+  updatedAt: new Date(Date.UTC(2024, 0, 1)),
+  ...overrides
+});
+
+// Helper function to create a mock policy violation
+const createMockViolation = (overrides: Partial<PolicyViolation> = {}): PolicyViolation => ({
+  id: 'violation-1',
+  bookingId: 'booking-1',
+  clientId: CLIENT_ID,
+  providerId: PROVIDER_ID,
+  type: PolicyViolationType.NO_SHOW,
+  status: PolicyViolationStatus.ACTIVE,
+  feeAmount: 5000,
+  paymentIntentId: null,
+  occurredAt: START_TIME,
+  reviewRequestedAt: null,
+  waivedById: null,
+  waiverReason: null,
+  waivedAt: null,
+  createdAt: START_TIME,
+  updatedAt: START_TIME,
+  ...overrides
+});
+
+describe('isLateCancellation', () => {
+  it('treats cancellations inside the window as late', () => {
+    expect(isLateCancellation(generateMockBooking(LATE_CANCELLATION), DEFAULT_BOOKING_POLICY)).toBe(true);
+  });
+
+  it('accepts cancellations made before the window opens', () => {
+    const booking = generateMockBooking({ ...LATE_CANCELLATION, updatedAt: new Date(Date.UTC(2024, 5, 1, 10, 0)) });
+
+    expect(isLateCancellation(booking, DEFAULT_BOOKING_POLICY)).toBe(false);
+  });
+});
+
+describe('BookingPolicyService', () => {
+  let service: BookingPolicyService;
+  let mockBookingPolicyRepository: jest.Mocked<BookingPolicyRepository>;
+  let mockBookingRepository: jest.Mocked<BookingRepository>;
+  let mockCaseManagerProfileRepository: jest.Mocked<CaseManagerProfileRepository>;
+  let mockNotificationService: jest.Mocked<NotificationService>;
+  let mockPaymentService: jest.Mocked<IPaymentProcessingService>;
+  let mockAuditService: jest.Mocked<IAuditService>;
+
+  const auditContext = { actorId: CASE_MANAGER_ID, actorRole: Roles.CASE_MANAGER, ipAddress: '127.0.0.1', userAgent: 'jest', requestId: 'request-1' };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockBookingPolicyRepository = {
+      findPolicy: jest.fn().mockResolvedValue(createMockPolicy()),
+      upsertPolicy: jest.fn().mockImplementation(async (providerId, settings, updatedById) =>
+        createMockPolicy({ providerId, ...settings, updatedById })),
+      createViolation: jest.fn().mockImplementation(async (data) => createMockViolation(data)),
+      findViolationById: jest.fn().mockResolvedValue(createMockViolation()),
+      findViolationByBooking: jest.fn().mockResolvedValue(null),
+      findViolations: jest.fn().mockResolvedValue([]),
+      countActiveViolations: jest.fn().mockResolvedValue(1),
+      setPaymentIntent: jest.fn().mockImplementation(async (id, paymentIntentId) =>
+        createMockViolation({ id, paymentIntentId })),
+      markReviewRequested: jest.fn().mockImplementation(async (id, reviewRequestedAt) =>
+        createMockViolation({ id, reviewRequestedAt })),
+      waive: jest.fn().mockImplementation(async (id, waivedById, waiverReason, waivedAt) =>
+        createMockViolation({ id, status: PolicyViolationStatus.WAIVED, waivedById, waiverReason, waivedAt }))
+    } as unknown as jest.Mocked<BookingPolicyRepository>;
+
+    mockBookingRepository = {
+      findById: jest.fn().mockResolvedValue(generateMockBooking(LATE_CANCELLATION))
+    } as unknown as jest.Mocked<BookingRepository>;
+
+    mockCaseManagerProfileRepository = {
+      findByUserId: jest.fn().mockImplementation(async (userId) =>
+        userId === CASE_MANAGER_ID ? { userId: CASE_MANAGER_ID, assignedClients: [CLIENT_ID] } : null),
+      findByAssignedClient: jest.fn().mockResolvedValue([{ userId: CASE_MANAGER_ID, assignedClients: [CLIENT_ID] }])
+    } as unknown as jest.Mocked<CaseManagerProfileRepository>;
+
+    mockNotificationService = {
+      createNotification: jest.fn().mockResolvedValue({ id: 'notification-1' }),
+      sendNotification: jest.fn().mockResolvedValue([])
+    } as unknown as jest.Mocked<NotificationService>;
+
+    mockPaymentService = {
+      createPolicyFeePaymentIntent: jest.fn().mockResolvedValue({ paymentIntentId: 'pi_fee', clientSecret: 'secret', status: 'requires_payment_method' }),
+      getPaymentStatus: jest.fn().mockResolvedValue({ status: 'requires_payment_method' }),
+      cancelPayment: jest.fn().mockResolvedValue({}),
+      refundPayment: jest.fn().mockResolvedValue({})
+    } as unknown as jest.Mocked<IPaymentProcessingService>;
+
+    mockAuditService = {
+      recordChange: jest.fn().mockResolvedValue({ id: 'audit-1' })
+    } as unknown as jest.Mocked<IAuditService>;
+
+    service = new BookingPolicyService(
+      mockBookingPolicyRepository,
+      mockBookingRepository,
+      mockCaseManagerProfileRepository,
+      mockNotificationService,
+      mockPaymentService,
+      mockAuditService
+    );
+  });
+
+  describe('getPolicy', () => {
+    it('falls back to the default policy for providers who have not set one', async () => {
+      mockBookingPolicyRepository.findPolicy.mockResolvedValue(null);
+
+      const policy = await service.getPolicy(PROVIDER_ID);
+
+      expect(policy).toEqual({ providerId: PROVIDER_ID, ...DEFAULT_BOOKING_POLICY, updatedById: null, updatedAt: null });
+    });
+  });
+
+  describe('updatePolicy', () => {
+    it('merges the changed settings into the provider\'s current policy', async () => {
+      await service.updatePolicy(PROVIDER_ID, { noShowFee: 7500 }, PROVIDER_ID, Roles.PROVIDER);
+
+      expect(mockBookingPolicyRepository.upsertPolicy).toHaveBeenCalledWith(
+        PROVIDER_ID,
+        { cancellationWindowHours: 24, lateCancellationFee: 2500, noShowFee: 7500, strikeThreshold: 3, strikeWindowDays: 90 },
+        PROVIDER_ID
+      );
+    });
+
+    it('rejects changes to another provider\'s policy', async () => {
+      await expect(service.updatePolicy(PROVIDER_ID, { noShowFee: 0 }, 'provider-456', Roles.PROVIDER))
+        .rejects.toMatchObject({ code: ErrorCodes.FORBIDDEN });
+      expect(mockBookingPolicyRepository.upsertPolicy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('recordLateCancellation', () => {
+    it('records a late cancellation and charges the provider\'s fee', async () => {
+      const violation = await service.recordLateCancellation('booking-1');
+
+      expect(mockBookingPolicyRepository.createViolation).toHaveBeenCalledWith({
+        bookingId: 'booking-1',
+        clientId: CLIENT_ID,
+        providerId: PROVIDER_ID,
+        type: PolicyViolationType.LATE_CANCELLATION,
+        feeAmount: 2500,
+        occurredAt: new Date(Date.UTC(2024, 5, 3, 8, 0))
+      });
+      expect(mockPaymentService.createPolicyFeePaymentIntent).toHaveBeenCalledWith(expect.objectContaining({
+        bookingId: 'booking-1',
+        feeType: PolicyViolationType.LATE_CANCELLATION,
+        amount: 2500
+      }));
+      expect(violation?.paymentIntentId).toBe('pi_fee');
+    });
+
+    it('ignores cancellations made before the window', async () => {
+      mockBookingRepository.findById.mockResolvedValue(generateMockBooking({ ...LATE_CANCELLATION, updatedAt: new Date(Date.UTC(2024, 4, 30)) }));
+
+      await expect(service.recordLateCancellation('booking-1')).resolves.toBeNull();
+      expect(mockBookingPolicyRepository.createViolation).not.toHaveBeenCalled();
+    });
+
+    it('ignores cancellations made by the provider', async () => {
+      mockBookingRepository.findById.mockResolvedValue(generateMockBooking({ ...LATE_CANCELLATION, cancelledBy: PROVIDER_ID }));
+
+      await expect(service.recordLateCancellation('booking-1')).resolves.toBeNull();
+      expect(mockBookingPolicyRepository.createViolation).not.toHaveBeenCalled();
+    });
+
+    it('counts cancellations made by the client\'s case manager', async () => {
+      mockBookingRepository.findById.mockResolvedValue(generateMockBooking({ ...LATE_CANCELLATION, cancelledBy: CASE_MANAGER_ID }));
+
+      await expect(service.recordLateCancellation('booking-1')).resolves.not.toBeNull();
+    });
+  });
+
+  describe('recordNoShow', () => {
+    beforeEach(() => {
+      mockBookingRepository.findById.mockResolvedValue(generateMockBooking({ ...LATE_CANCELLATION, status: BookingStatus.NO_SHOW, cancelledBy: null }));
+    });
+
+    it('records a no-show, charges the fee and tells the client', async () => {
+      await service.recordNoShow('booking-1');
+
+      expect(mockBookingPolicyRepository.createViolation).toHaveBeenCalledWith(expect.objectContaining({
+        type: PolicyViolationType.NO_SHOW,
+        feeAmount: 5000,
+        occurredAt: START_TIME
+      }));
+      expect(mockBookingPolicyRepository.setPaymentIntent).toHaveBeenCalledWith('violation-1', 'pi_fee');
+      expect(mockNotificationService.createNotification).toHaveBeenCalledWith(expect.objectContaining({
+        userId: CLIENT_ID,
+        type: NOTIFICATION_TYPES.POLICY_VIOLATION
+      }));
+    });
+
+    it('does not charge a fee when the policy has none', async () => {
+      mockBookingPolicyRepository.findPolicy.mockResolvedValue(null);
+
+      await service.recordNoShow('booking-1');
+
+      expect(mockPaymentService.createPolicyFeePaymentIntent).not.toHaveBeenCalled();
+    });
+
+    it('returns the existing violation when the no-show was already recorded', async () => {
+      const existing = createMockViolation();
+      mockBookingPolicyRepository.findViolationByBooking.mockResolvedValue(existing);
+
+      await expect(service.recordNoShow('booking-1')).resolves.toBe(existing);
+      expect(mockBookingPolicyRepository.createViolation).not.toHaveBeenCalled();
+      expect(mockPaymentService.createPolicyFeePaymentIntent).not.toHaveBeenCalled();
+    });
+
+    it('still records the violation when the fee cannot be charged', async () => {
+      mockPaymentService.createPolicyFeePaymentIntent.mockRejectedValue(new Error('Stripe unavailable'));
+
+      const violation = await service.recordNoShow('booking-1');
+
+      expect(violation?.paymentIntentId).toBeNull();
+    });
+
+    it('asks the client\'s case managers for a review at the strike threshold', async () => {
+      mockBookingPolicyRepository.countActiveViolations.mockResolvedValue(3);
+
+      const violation = await service.recordNoShow('booking-1');
+
+      expect(mockBookingPolicyRepository.countActiveViolations).toHaveBeenCalledWith(
+        CLIENT_ID,
+        PROVIDER_ID,
+        new Date(START_TIME.getTime() - 90 * 24 * 60 * 60 * 1000)
+      );
+      expect(violation?.reviewRequestedAt).toBeInstanceOf(Date);
+      expect(mockNotificationService.createNotification).toHaveBeenCalledWith(expect.objectContaining({
+        userId: CASE_MANAGER_ID,
+        type: NOTIFICATION_TYPES.POLICY_REVIEW_REQUIRED
+      }));
+    });
+  });
+
+  describe('getViolations', () => {
+    it('limits case managers to their assigned clients', async () => {
+      await service.getViolations({}, CASE_MANAGER_ID, Roles.CASE_MANAGER);
+
+      expect(mockBookingPolicyRepository.findViolations).toHaveBeenCalledWith({ clientIds: [CLIENT_ID] });
+    });
+
+    it('limits providers to their own violations', async () => {
+      await service.getViolations({ providerId: 'provider-456' }, PROVIDER_ID, Roles.PROVIDER);
+
+      expect(mockBookingPolicyRepository.findViolations).toHaveBeenCalledWith({ providerId: PROVIDER_ID });
+    });
+  });
+
+  describe('waiveViolation', () => {
+    const reason = 'Client was admitted to hospital that morning';
+
+    it('cancels an unpaid fee, waives the violation and audits the reason', async () => {
+      const violation = createMockViolation({ paymentIntentId: 'pi_fee' });
+      mockBookingPolicyRepository.findViolationById.mockResolvedValue(violation);
+
+      const waived = await service.waiveViolation('violation-1', reason, CASE_MANAGER_ID, Roles.CASE_MANAGER, auditContext);
+
+      expect(mockPaymentService.cancelPayment).toHaveBeenCalledWith('pi_fee', 'abandoned');
+      expect(mockBookingPolicyRepository.waive).toHaveBeenCalledWith('violation-1', CASE_MANAGER_ID, reason, expect.any(Date));
+      expect(waived.status).toBe(PolicyViolationStatus.WAIVED);
+      expect(mockAuditService.recordChange).toHaveBeenCalledWith(
+        expect.objectContaining({
+          ...auditContext,
+          action: AuditAction.UPDATE,
+          resourceType: AuditResourceType.POLICY_VIOLATION,
+          resourceId: 'violation-1',
+          subjectId: CLIENT_ID,
+          metadata: expect.objectContaining({ reason })
+        }),
+        violation,
+        waived
+      );
+    });
+
+    it('refunds a fee the client has already paid', async () => {
+      mockBookingPolicyRepository.findViolationById.mockResolvedValue(createMockViolation({ paymentIntentId: 'pi_fee' }));
+      mockPaymentService.getPaymentStatus.mockResolvedValue({ status: 'succeeded', amount: 5000, metadata: {} });
+
+      await service.waiveViolation('violation-1', reason, CASE_MANAGER_ID, Roles.CASE_MANAGER, auditContext);
+
+      expect(mockPaymentService.refundPayment).toHaveBeenCalledWith('pi_fee', undefined, 'requested_by_customer');
+      expect(mockPaymentService.cancelPayment).not.toHaveBeenCalled();
+    });
+
+    it('rejects case managers the client is not assigned to', async () => {
+      await expect(service.waiveViolation('violation-1', reason, 'case-manager-456', Roles.CASE_MANAGER, auditContext))
+        .rejects.toMatchObject({ code: ErrorCodes.FORBIDDEN });
+      expect(mockBookingPolicyRepository.waive).not.toHaveBeenCalled();
+    });
+
+    it('rejects violations that were already waived', async () => {
+      mockBookingPolicyRepository.findViolationById.mockResolvedValue(createMockViolation({ status: PolicyViolationStatus.WAIVED }));
+
+      await expect(service.waiveViolation('violation-1', reason, CASE_MANAGER_ID, Roles.CASE_MANAGER, auditContext))
+        .rejects.toMatchObject({ code: ErrorCodes.CONFLICT });
+      expect(mockAuditService.recordChange).not.toHaveBeenCalled();
+    });
+  });
+});
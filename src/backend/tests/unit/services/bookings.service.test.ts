@@ -0,0 +1,827 @@
+import { BookingsService, BOOKING_EVENTS, expandRecurrence } from '../../../src/services/bookings.service';
+import { BookingRepository } from '../../../src/repositories/booking.repository';
+import { ProviderAvailabilityRepository } from '../../../src/repositories/provider-availability.repository';
+import { CaseManagerProfileRepository } from '../../../src/repositories/case-manager-profile.repository';
+import { ServicesPlanRepository } from '../../../src/repositories/services-plan.repository';
+import { IPriorAuthorizationService } from '../../../src/interfaces/prior-authorization.interface';
+import {
+  Booking,
+  BookingSeries,
+  BookingSeriesStatus,
+  BookingStatus,
+  CreateBookingDTO,
+  CreateBookingSeriesDTO,
+  RecurrenceFrequency,
+  RecurrenceRule,
+  SeriesScope
+} from '../../../src/models/booking.model';
+import { Roles } from '../../../src/constants/roles';
+import { ServiceType } from '../../../src/constants/service-types';
+import { DayOfWeek } from '../../../src/types/provider.types';
+import { ErrorCodes } from '../../../src/constants/error-codes';
+import { redisClient } from '../../../src/config/redis';
+import { generateMockBooking } from '../../fixtures/bookings.fixture';
+
+// Mock the Redis client used for publishing booking events
+jest.mock('../../../src/config/redis', () => ({
+  redisClient: {
+    publish: jest.fn().mockResolvedValue(1)
+  }
+}));
+
+// Mock the logger module
+jest.mock('../../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+const CLIENT_ID = 'client-123';
+const PROVIDER_ID = 'provider-123';
+const CASE_MANAGER_ID = 'case-manager-789';
+
+// Helper function to create booking request data for testing
+const createBookingData = (overrides: Partial<CreateBookingDTO> = {}): CreateBookingDTO => ({
+  clientId: CLIENT_ID,
+  providerId: PROVIDER_ID,
+  serviceItemId: null,
+  serviceType: ServiceType.PHYSICAL_THERAPY,
+  startTime: new Date(Date.now() + 24 * 60 * 60 * 1000),
+  endTime: new Date(Date.now() + 25 * 60 * 60 * 1000),
+  notes: null,
+  location: null,
+  ...overrides
+});
+
+// A Monday at 10:00 local time, far enough ahead for every occurrence to be in the future
+const SERIES_START = new Date(Date.UTC(2030, 0, 7, 10, 0));
+const SERIES_END = new Date(Date.UTC(2030, 0, 7, 11, 0));
+
+// Helper function to create a recurrence rule for testing
+const createRecurrence = (overrides: Partial<RecurrenceRule> = {}): RecurrenceRule => ({
+  frequency: RecurrenceFrequency.WEEKLY,
+  interval: 1,
+  byDay: [],
+  count: 4,
+  until: null,
+  ...overrides
+});
+
+// Helper function to create a mock booking series for testing
+const createMockSeries = (overrides: Partial<BookingSeries> = {}): BookingSeries => ({
+  id: 'series-123',
+  clientId: CLIENT_ID,
+  providerId: PROVIDER_ID,
+  serviceItemId: null,
+  serviceType: ServiceType.PHYSICAL_THERAPY,
+  recurrence: createRecurrence(),
+  startTime: SERIES_START,
+  endTime: SERIES_END,
+  notes: null,
+  location: null,
+  status: BookingSeriesStatus.ACTIVE,
+  createdById: CLIENT_ID,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides
+});
+
+// Helper function to create the weekly occurrences of the mock series
+const createSeriesBookings = (count: number): Booking[] =>
+  Array.from({ length: count }, (_, week) => generateMockBooking({
+    id: `occurrence-${week + 1}`,
+    seriesId: 'series-123',
+    startTime: new Date(Date.UTC(2030, 0, 7 + week * 7, 10, 0)),
+    endTime: new Date(Date.UTC(2030, 0, 7 + week * 7, 11, 0))
+  }));
+
+// Helper function to create series request data for testing
+const createSeriesData = (overrides: Partial<CreateBookingSeriesDTO> = {}): CreateBookingSeriesDTO => ({
+  ...createBookingData({ startTime: SERIES_START, endTime: SERIES_END }),
+  recurrence: createRecurrence(),
+  skipConflicts: false,
+  ...overrides
+});
+
+describe('expandRecurrence', () => {
+  it('should book each listed weekday at the first occurrence\'s time of day', () => {
+    const occurrences = expandRecurrence(
+      createRecurrence({ byDay: [DayOfWeek.WEDNESDAY, DayOfWeek.MONDAY] }),
+      SERIES_START,
+      SERIES_END,
+      104
+    );
+
+    expect(occurrences.map(occurrence => occurrence.startTime)).toEqual([
+      new Date(Date.UTC(2030, 0, 7, 10, 0)),
+      new Date(Date.UTC(2030, 0, 9, 10, 0)),
+      new Date(Date.UTC(2030, 0, 14, 10, 0)),
+      new Date(Date.UTC(2030, 0, 16, 10, 0))
+    ]);
+    expect(occurrences[3].endTime).toEqual(new Date(Date.UTC(2030, 0, 16, 11, 0)));
+  });
+
+  it('should include an occurrence starting exactly on the until date', () => {
+    const occurrences = expandRecurrence(
+      createRecurrence({ interval: 2, count: null, until: new Date(Date.UTC(2030, 1, 4, 10, 0)) }),
+      SERIES_START,
+      SERIES_END,
+      104
+    );
+
+    expect(occurrences.map(occurrence => occurrence.startTime)).toEqual([
+      new Date(Date.UTC(2030, 0, 7, 10, 0)),
+      new Date(Date.UTC(2030, 0, 21, 10, 0)),
+      new Date(Date.UTC(2030, 1, 4, 10, 0))
+    ]);
+  });
+
+  it('should skip months without the first occurrence\'s date', () => {
+    const occurrences = expandRecurrence(
+      createRecurrence({ frequency: RecurrenceFrequency.MONTHLY, count: 3 }),
+      new Date(Date.UTC(2030, 0, 31, 10, 0)),
+      new Date(Date.UTC(2030, 0, 31, 11, 0)),
+      104
+    );
+
+    expect(occurrences.map(occurrence => occurrence.startTime)).toEqual([
+      new Date(Date.UTC(2030, 0, 31, 10, 0)),
+      new Date(Date.UTC(2030, 2, 31, 10, 0)),
+      new Date(Date.UTC(2030, 4, 31, 10, 0))
+    ]);
+  });
+
+  it('should stop at the maximum number of occurrences', () => {
+    const occurrences = expandRecurrence(
+      createRecurrence({ frequency: RecurrenceFrequency.DAILY, count: null, until: new Date(2031, 0, 1) }),
+      SERIES_START,
+      SERIES_END,
+      10
+    );
+
+    expect(occurrences).toHaveLength(10);
+  });
+
+  it('should keep the provider\'s local time of day across DST changes', () => {
+    // Mondays at 09:00 in New York, either side of the 10 March and 3 November 2030 changes
+    const spring = expandRecurrence(
+      createRecurrence({ count: 2 }),
+      new Date(Date.UTC(2030, 2, 4, 14, 0)),
+      new Date(Date.UTC(2030, 2, 4, 15, 0)),
+      104,
+      'America/New_York'
+    );
+    const autumn = expandRecurrence(
+      createRecurrence({ count: 2 }),
+      new Date(Date.UTC(2030, 9, 28, 13, 0)),
+      new Date(Date.UTC(2030, 9, 28, 14, 0)),
+      104,
+      'America/New_York'
+    );
+
+    expect(spring.map(occurrence => occurrence.startTime)).toEqual([
+      new Date(Date.UTC(2030, 2, 4, 14, 0)),
+      new Date(Date.UTC(2030, 2, 11, 13, 0))
+    ]);
+    expect(spring[1].endTime).toEqual(new Date(Date.UTC(2030, 2, 11, 14, 0)));
+    expect(autumn.map(occurrence => occurrence.startTime)).toEqual([
+      new Date(Date.UTC(2030, 9, 28, 13, 0)),
+      new Date(Date.UTC(2030, 10, 4, 14, 0))
+    ]);
+  });
+
+  it('should place weekdays by the provider\'s calendar rather than UTC', () => {
+    // Tuesdays at 20:00 in Los Angeles fall on Wednesdays in UTC
+    const occurrences = expandRecurrence(
+      createRecurrence({ byDay: [DayOfWeek.TUESDAY], count: 2 }),
+      new Date(Date.UTC(2030, 0, 9, 4, 0)),
+      new Date(Date.UTC(2030, 0, 9, 5, 0)),
+      104,
+      'America/Los_Angeles'
+    );
+
+    expect(occurrences.map(occurrence => occurrence.startTime)).toEqual([
+      new Date(Date.UTC(2030, 0, 9, 4, 0)),
+      new Date(Date.UTC(2030, 0, 16, 4, 0))
+    ]);
+  });
+});
+
+describe('BookingsService', () => {
+  let bookingRepository: BookingRepository;
+  let availabilityRepository: ProviderAvailabilityRepository;
+  let caseManagerProfileRepository: CaseManagerProfileRepository;
+  let servicesPlanRepository: ServicesPlanRepository;
+  let bookingsService: BookingsService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    bookingRepository = {
+      findById: jest.fn(),
+      findDetailedById: jest.fn(),
+      findAll: jest.fn(),
+      create: jest.fn(),
+      updateStatus: jest.fn(),
+      cancel: jest.fn(),
+      reschedule: jest.fn(),
+      checkForConflicts: jest.fn().mockResolvedValue(false),
+      getUpcomingBookings: jest.fn(),
+      createSeries: jest.fn(),
+      findSeriesById: jest.fn(),
+      findSeriesBookings: jest.fn(),
+      updateSeries: jest.fn(),
+      splitSeries: jest.fn()
+    } as unknown as BookingRepository;
+
+    availabilityRepository = {
+      checkAvailability: jest.fn().mockResolvedValue(true),
+      findByProviderId: jest.fn().mockResolvedValue({ providerId: PROVIDER_ID, timezone: 'UTC' })
+    } as unknown as ProviderAvailabilityRepository;
+
+    caseManagerProfileRepository = {
+      findByUserId: jest.fn().mockResolvedValue({ assignedClients: [CLIENT_ID] })
+    } as unknown as CaseManagerProfileRepository;
+
+    servicesPlanRepository = {
+      findServiceItemById: jest.fn().mockResolvedValue({ id: 'service-item-123', servicesPlanId: 'services-plan-123' }),
+      findById: jest.fn().mockResolvedValue({ id: 'services-plan-123', clientId: CLIENT_ID })
+    } as unknown as ServicesPlanRepository;
+
+    bookingsService = new BookingsService(
+      bookingRepository,
+      availabilityRepository,
+      caseManagerProfileRepository,
+      undefined,
+      undefined,
+      servicesPlanRepository
+    );
+  });
+
+  describe('createBooking', () => {
+    it('should create a booking for the client and publish an event', async () => {
+      const booking = generateMockBooking();
+      (bookingRepository.create as jest.Mock).mockResolvedValue(booking);
+
+      const result = await bookingsService.createBooking(createBookingData(), CLIENT_ID, Roles.CLIENT);
+
+      expect(result).toEqual(booking);
+      expect(bookingRepository.checkForConflicts).toHaveBeenCalledWith(PROVIDER_ID, expect.any(Date), expect.any(Date), undefined);
+      expect(redisClient.publish).toHaveBeenCalledWith(BOOKING_EVENTS.BOOKING_CREATED, expect.any(String));
+    });
+
+    it('should reject clients booking on behalf of another client', async () => {
+      await expect(
+        bookingsService.createBooking(createBookingData({ clientId: 'other-client' }), CLIENT_ID, Roles.CLIENT)
+      ).rejects.toMatchObject({ code: ErrorCodes.FORBIDDEN });
+
+      expect(bookingRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject case managers booking for unassigned clients', async () => {
+      await expect(
+        bookingsService.createBooking(createBookingData({ clientId: 'unassigned-client' }), CASE_MANAGER_ID, Roles.CASE_MANAGER)
+      ).rejects.toMatchObject({ code: ErrorCodes.FORBIDDEN });
+    });
+
+    it('should reject bookings that conflict with existing bookings', async () => {
+      (bookingRepository.checkForConflicts as jest.Mock).mockResolvedValue(true);
+
+      await expect(
+        bookingsService.createBooking(createBookingData(), CLIENT_ID, Roles.CLIENT)
+      ).rejects.toMatchObject({ code: ErrorCodes.CONFLICT });
+
+      expect(bookingRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject bookings for a service item that does not exist', async () => {
+      (servicesPlanRepository.findServiceItemById as jest.Mock).mockResolvedValue(null);
+
+      await expect(
+        bookingsService.createBooking(createBookingData({ serviceItemId: 'missing-item' }), CLIENT_ID, Roles.CLIENT)
+      ).rejects.toMatchObject({ code: ErrorCodes.NOT_FOUND });
+
+      expect(bookingRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject bookings for another client\'s service item', async () => {
+      (servicesPlanRepository.findById as jest.Mock).mockResolvedValue({ id: 'services-plan-456', clientId: 'other-client' });
+
+      await expect(
+        bookingsService.createBooking(createBookingData({ serviceItemId: 'service-item-123' }), CLIENT_ID, Roles.CLIENT)
+      ).rejects.toMatchObject({ code: ErrorCodes.VALIDATION_ERROR });
+
+      expect(servicesPlanRepository.findById).toHaveBeenCalledWith('services-plan-123', false, false);
+      expect(bookingRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject bookings whose end time is before the start time', async () => {
+      const data = createBookingData();
+
+      await expect(
+        bookingsService.createBooking({ ...data, endTime: data.startTime, startTime: data.endTime }, CLIENT_ID, Roles.CLIENT)
+      ).rejects.toMatchObject({ code: ErrorCodes.VALIDATION_ERROR });
+    });
+
+    describe('with prior authorizations', () => {
+      const SERVICE_ITEM_ID = 'service-item-123';
+      const shortfall = { priorAuthorizationId: 'prior-auth-1', authNumber: 'PA-1001', requestedUnits: 1, remainingUnits: 0 };
+      let priorAuthorizationService: jest.Mocked<IPriorAuthorizationService>;
+
+      beforeEach(() => {
+        priorAuthorizationService = {
+          checkAuthorizedUnits: jest.fn().mockResolvedValue({ required: true, authorized: false, shortfalls: [shortfall] }),
+          recordOverride: jest.fn(),
+          alertOnUnitsUsed: jest.fn()
+        } as unknown as jest.Mocked<IPriorAuthorizationService>;
+
+        bookingsService = new BookingsService(
+          bookingRepository,
+          availabilityRepository,
+          caseManagerProfileRepository,
+          undefined,
+          undefined,
+          servicesPlanRepository,
+          priorAuthorizationService
+        );
+      });
+
+      it('should block bookings beyond the authorized units', async () => {
+        await expect(
+          bookingsService.createBooking(createBookingData({ serviceItemId: SERVICE_ITEM_ID }), CLIENT_ID, Roles.CLIENT)
+        ).rejects.toMatchObject({ code: ErrorCodes.CONFLICT, details: expect.objectContaining({ shortfalls: [shortfall] }) });
+
+        expect(bookingRepository.create).not.toHaveBeenCalled();
+      });
+
+      it('should let case managers override the check with a reason', async () => {
+        (bookingRepository.create as jest.Mock).mockResolvedValue(generateMockBooking({ serviceItemId: SERVICE_ITEM_ID }));
+        const data = createBookingData({ serviceItemId: SERVICE_ITEM_ID, authorizationOverrideReason: 'Renewal approved by phone' });
+
+        await bookingsService.createBooking(data, CASE_MANAGER_ID, Roles.CASE_MANAGER);
+
+        expect(priorAuthorizationService.recordOverride).toHaveBeenCalledWith(
+          SERVICE_ITEM_ID,
+          expect.objectContaining({ shortfalls: [shortfall] }),
+          'Renewal approved by phone',
+          CASE_MANAGER_ID,
+          Roles.CASE_MANAGER
+        );
+        expect(bookingRepository.create).toHaveBeenCalled();
+        expect(priorAuthorizationService.alertOnUnitsUsed).toHaveBeenCalledWith(SERVICE_ITEM_ID);
+      });
+
+      it('should not check or alert on the authorized units of another client\'s service item', async () => {
+        (servicesPlanRepository.findById as jest.Mock).mockResolvedValue({ id: 'services-plan-456', clientId: 'other-client' });
+
+        await expect(
+          bookingsService.createBooking(createBookingData({ serviceItemId: SERVICE_ITEM_ID }), CLIENT_ID, Roles.CLIENT)
+        ).rejects.toMatchObject({ code: ErrorCodes.VALIDATION_ERROR });
+        await expect(
+          bookingsService.createBookingSeries(createSeriesData({ serviceItemId: SERVICE_ITEM_ID }), CLIENT_ID, Roles.CLIENT)
+        ).rejects.toMatchObject({ code: ErrorCodes.VALIDATION_ERROR });
+
+        expect(priorAuthorizationService.checkAuthorizedUnits).not.toHaveBeenCalled();
+        expect(priorAuthorizationService.alertOnUnitsUsed).not.toHaveBeenCalled();
+      });
+
+      it('should not let clients override the check', async () => {
+        const data = createBookingData({ serviceItemId: SERVICE_ITEM_ID, authorizationOverrideReason: 'Please book anyway' });
+
+        await expect(
+          bookingsService.createBooking(data, CLIENT_ID, Roles.CLIENT)
+        ).rejects.toMatchObject({ code: ErrorCodes.FORBIDDEN });
+
+        expect(priorAuthorizationService.recordOverride).not.toHaveBeenCalled();
+        expect(bookingRepository.create).not.toHaveBeenCalled();
+      });
+
+      it('should block rescheduling beyond the authorized units, releasing the moved booking\'s unit', async () => {
+        const booking = generateMockBooking({ serviceItemId: SERVICE_ITEM_ID });
+        (bookingRepository.findById as jest.Mock).mockResolvedValue(booking);
+        const data = createBookingData();
+
+        await expect(
+          bookingsService.rescheduleBooking(
+            booking.id,
+            { startTime: data.startTime, endTime: data.endTime, serviceType: data.serviceType, reason: null },
+            CLIENT_ID,
+            Roles.CLIENT
+          )
+        ).rejects.toMatchObject({ code: ErrorCodes.CONFLICT });
+
+        expect(priorAuthorizationService.checkAuthorizedUnits).toHaveBeenCalledWith(SERVICE_ITEM_ID, [data.startTime], [booking.id]);
+        expect(bookingRepository.reschedule).not.toHaveBeenCalled();
+      });
+
+      it('should let case managers reschedule beyond the authorized units with a reason', async () => {
+        const booking = generateMockBooking({ serviceItemId: SERVICE_ITEM_ID });
+        const newBooking = generateMockBooking({ id: 'booking-456', serviceItemId: SERVICE_ITEM_ID });
+        (bookingRepository.findById as jest.Mock)
+          .mockResolvedValueOnce(booking)
+          .mockResolvedValueOnce(newBooking);
+        (bookingRepository.reschedule as jest.Mock).mockResolvedValue({ newBookingId: newBooking.id, reason: '' });
+        const data = createBookingData();
+
+        const result = await bookingsService.rescheduleBooking(
+          booking.id,
+          {
+            startTime: data.startTime,
+            endTime: data.endTime,
+            serviceType: data.serviceType,
+            reason: null,
+            authorizationOverrideReason: 'Renewal approved by phone'
+          },
+          CASE_MANAGER_ID,
+          Roles.CASE_MANAGER
+        );
+
+        expect(result).toEqual(newBooking);
+        expect(priorAuthorizationService.recordOverride).toHaveBeenCalledWith(
+          SERVICE_ITEM_ID,
+          expect.anything(),
+          'Renewal approved by phone',
+          CASE_MANAGER_ID,
+          Roles.CASE_MANAGER
+        );
+      });
+    });
+  });
+
+  describe('getBookings', () => {
+    const filters = { page: 1, limit: 10, sortBy: 'startTime', sortOrder: 'asc' as const };
+
+    it('should scope client queries to the client', async () => {
+      (bookingRepository.findAll as jest.Mock).mockResolvedValue({ bookings: [], total: 0, page: 1, limit: 10, totalPages: 0 });
+
+      await bookingsService.getBookings({ ...filters, clientId: 'other-client' }, CLIENT_ID, Roles.CLIENT);
+
+      expect(bookingRepository.findAll).toHaveBeenCalledWith(expect.objectContaining({ clientId: CLIENT_ID }));
+    });
+
+    it('should scope case manager queries to assigned clients', async () => {
+      (bookingRepository.findAll as jest.Mock).mockResolvedValue({ bookings: [], total: 0, page: 1, limit: 10, totalPages: 0 });
+
+      await bookingsService.getBookings(filters, CASE_MANAGER_ID, Roles.CASE_MANAGER);
+
+      expect(bookingRepository.findAll).toHaveBeenCalledWith(expect.objectContaining({ clientIds: [CLIENT_ID] }));
+    });
+  });
+
+  describe('rescheduleBooking', () => {
+    it('should create a replacement booking when the provider is available', async () => {
+      const booking = generateMockBooking();
+      const newBooking = generateMockBooking({ id: 'booking-456' });
+      (bookingRepository.findById as jest.Mock)
+        .mockResolvedValueOnce(booking)
+        .mockResolvedValueOnce(newBooking);
+      (bookingRepository.reschedule as jest.Mock).mockResolvedValue({ newBookingId: newBooking.id, reason: 'Conflict' });
+
+      const data = createBookingData();
+      const result = await bookingsService.rescheduleBooking(
+        booking.id,
+        { startTime: data.startTime, endTime: data.endTime, serviceType: data.serviceType, reason: 'Conflict' },
+        CLIENT_ID,
+        Roles.CLIENT
+      );
+
+      expect(result).toEqual(newBooking);
+      expect(bookingRepository.checkForConflicts).toHaveBeenCalledWith(PROVIDER_ID, data.startTime, data.endTime, booking.id);
+      expect(bookingRepository.reschedule).toHaveBeenCalledWith(booking.id, expect.objectContaining({ clientId: CLIENT_ID }), 'Conflict');
+    });
+
+    it('should reject rescheduling when the provider is unavailable', async () => {
+      (bookingRepository.findById as jest.Mock).mockResolvedValue(generateMockBooking());
+      (availabilityRepository.checkAvailability as jest.Mock).mockResolvedValue(false);
+
+      const data = createBookingData();
+      await expect(
+        bookingsService.rescheduleBooking(
+          'booking-1',
+          { startTime: data.startTime, endTime: data.endTime, serviceType: data.serviceType, reason: null },
+          CLIENT_ID,
+          Roles.CLIENT
+        )
+      ).rejects.toMatchObject({ code: ErrorCodes.VALIDATION_ERROR });
+
+      expect(bookingRepository.reschedule).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('cancelBooking', () => {
+    it('should cancel a booking for the assigned provider', async () => {
+      const booking = generateMockBooking();
+      (bookingRepository.findById as jest.Mock).mockResolvedValue(booking);
+      (bookingRepository.cancel as jest.Mock).mockResolvedValue({ ...booking, status: BookingStatus.CANCELLED });
+
+      const result = await bookingsService.cancelBooking(booking.id, 'Provider ill', PROVIDER_ID, Roles.PROVIDER);
+
+      expect(result.status).toBe(BookingStatus.CANCELLED);
+      expect(bookingRepository.cancel).toHaveBeenCalledWith(booking.id, { reason: 'Provider ill', cancelledBy: PROVIDER_ID });
+    });
+
+    it('should reject cancelling a completed booking', async () => {
+      (bookingRepository.findById as jest.Mock).mockResolvedValue(generateMockBooking({ status: BookingStatus.COMPLETED }));
+
+      await expect(
+        bookingsService.cancelBooking('booking-1', 'Too late', CLIENT_ID, Roles.CLIENT)
+      ).rejects.toMatchObject({ code: ErrorCodes.VALIDATION_ERROR });
+    });
+
+    it('should throw not found when the booking does not exist', async () => {
+      (bookingRepository.findById as jest.Mock).mockResolvedValue(null);
+
+      await expect(
+        bookingsService.cancelBooking('missing', 'Reason', CLIENT_ID, Roles.CLIENT)
+      ).rejects.toMatchObject({ code: ErrorCodes.NOT_FOUND });
+    });
+  });
+
+  describe('updateBookingStatus', () => {
+    it('should allow the provider to mark a scheduled booking as in progress', async () => {
+      const booking = generateMockBooking();
+      (bookingRepository.findById as jest.Mock).mockResolvedValue(booking);
+      (bookingRepository.updateStatus as jest.Mock).mockResolvedValue({ ...booking, status: BookingStatus.IN_PROGRESS });
+
+      const result = await bookingsService.updateBookingStatus(booking.id, BookingStatus.IN_PROGRESS, PROVIDER_ID, Roles.PROVIDER);
+
+      expect(result.status).toBe(BookingStatus.IN_PROGRESS);
+      expect(redisClient.publish).toHaveBeenCalledWith(BOOKING_EVENTS.BOOKING_STATUS_CHANGED, expect.any(String));
+    });
+
+    it('should reject status updates from another provider', async () => {
+      (bookingRepository.findById as jest.Mock).mockResolvedValue(generateMockBooking());
+
+      await expect(
+        bookingsService.updateBookingStatus('booking-1', BookingStatus.COMPLETED, 'other-provider', Roles.PROVIDER)
+      ).rejects.toMatchObject({ code: ErrorCodes.FORBIDDEN });
+    });
+
+    it('should reject invalid status transitions', async () => {
+      (bookingRepository.findById as jest.Mock).mockResolvedValue(generateMockBooking({ status: BookingStatus.CANCELLED }));
+
+      await expect(
+        bookingsService.updateBookingStatus('booking-1', BookingStatus.NO_SHOW, PROVIDER_ID, Roles.PROVIDER)
+      ).rejects.toMatchObject({ code: ErrorCodes.VALIDATION_ERROR });
+    });
+
+    it('should not allow cancellation through status updates', async () => {
+      await expect(
+        bookingsService.updateBookingStatus('booking-1', BookingStatus.CANCELLED, PROVIDER_ID, Roles.PROVIDER)
+      ).rejects.toMatchObject({ code: ErrorCodes.VALIDATION_ERROR });
+    });
+  });
+
+  describe('createBookingSeries', () => {
+    it('should book every occurrence of the series and publish an event', async () => {
+      const series = createMockSeries({ serviceItemId: 'service-item-1' });
+      const bookings = createSeriesBookings(4);
+      (servicesPlanRepository.findServiceItemById as jest.Mock).mockResolvedValue({
+        id: 'service-item-1',
+        serviceType: ServiceType.PHYSICAL_THERAPY,
+        providerId: PROVIDER_ID
+      });
+      (bookingRepository.createSeries as jest.Mock).mockResolvedValue({ series, bookings });
+
+      const result = await bookingsService.createBookingSeries(
+        createSeriesData({ serviceItemId: 'service-item-1' }),
+        CLIENT_ID,
+        Roles.CLIENT
+      );
+
+      expect(bookingRepository.checkForConflicts).toHaveBeenCalledTimes(4);
+      expect(bookingRepository.createSeries).toHaveBeenCalledWith(
+        expect.objectContaining({ serviceItemId: 'service-item-1', createdById: CLIENT_ID }),
+        bookings.map(booking => ({ startTime: booking.startTime, endTime: booking.endTime }))
+      );
+      expect(result.progress).toEqual({ total: 4, scheduled: 4, delivered: 0, missed: 0, cancelled: 0 });
+      expect(result.skipped).toEqual([]);
+      expect(redisClient.publish).toHaveBeenCalledWith(BOOKING_EVENTS.BOOKING_SERIES_CREATED, expect.any(String));
+    });
+
+    it('should report each conflicting occurrence and book none of them', async () => {
+      (bookingRepository.checkForConflicts as jest.Mock)
+        .mockResolvedValueOnce(false)
+        .mockResolvedValueOnce(true);
+      (availabilityRepository.checkAvailability as jest.Mock)
+        .mockResolvedValueOnce(true)
+        .mockResolvedValueOnce(false);
+
+      await expect(
+        bookingsService.createBookingSeries(createSeriesData(), CLIENT_ID, Roles.CLIENT)
+      ).rejects.toMatchObject({
+        code: ErrorCodes.CONFLICT,
+        details: {
+          conflicts: [
+            expect.objectContaining({ startTime: new Date(Date.UTC(2030, 0, 14, 10, 0)), reason: 'Provider already has a booking at the requested time' }),
+            expect.objectContaining({ startTime: new Date(Date.UTC(2030, 0, 21, 10, 0)), reason: 'Provider is not available at the requested time' })
+          ]
+        }
+      });
+
+      expect(bookingRepository.createSeries).not.toHaveBeenCalled();
+    });
+
+    it('should book the remaining occurrences when asked to skip conflicts', async () => {
+      const bookings = createSeriesBookings(4).filter((_, index) => index !== 1);
+      (bookingRepository.checkForConflicts as jest.Mock)
+        .mockResolvedValueOnce(false)
+        .mockResolvedValueOnce(true);
+      (bookingRepository.createSeries as jest.Mock).mockResolvedValue({ series: createMockSeries(), bookings });
+
+      const result = await bookingsService.createBookingSeries(
+        createSeriesData({ skipConflicts: true }),
+        CLIENT_ID,
+        Roles.CLIENT
+      );
+
+      expect((bookingRepository.createSeries as jest.Mock).mock.calls[0][1]).toHaveLength(3);
+      expect(result.skipped).toEqual([
+        expect.objectContaining({ startTime: new Date(Date.UTC(2030, 0, 14, 10, 0)) })
+      ]);
+    });
+
+    it('should reject a service item for a different service type', async () => {
+      (servicesPlanRepository.findServiceItemById as jest.Mock).mockResolvedValue({
+        id: 'service-item-1',
+        serviceType: ServiceType.SPEECH_THERAPY,
+        providerId: null
+      });
+
+      await expect(
+        bookingsService.createBookingSeries(createSeriesData({ serviceItemId: 'service-item-1' }), CLIENT_ID, Roles.CLIENT)
+      ).rejects.toMatchObject({ code: ErrorCodes.VALIDATION_ERROR });
+
+      expect(bookingRepository.createSeries).not.toHaveBeenCalled();
+    });
+
+    it('should reject another client\'s service item', async () => {
+      (servicesPlanRepository.findServiceItemById as jest.Mock).mockResolvedValue({
+        id: 'service-item-1',
+        servicesPlanId: 'services-plan-456',
+        serviceType: ServiceType.PHYSICAL_THERAPY,
+        providerId: null
+      });
+      (servicesPlanRepository.findById as jest.Mock).mockResolvedValue({ id: 'services-plan-456', clientId: 'other-client' });
+
+      await expect(
+        bookingsService.createBookingSeries(createSeriesData({ serviceItemId: 'service-item-1' }), CLIENT_ID, Roles.CLIENT)
+      ).rejects.toMatchObject({ code: ErrorCodes.VALIDATION_ERROR });
+
+      expect(servicesPlanRepository.findById).toHaveBeenCalledWith('services-plan-456', false, false);
+      expect(bookingRepository.createSeries).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getBookingSeries', () => {
+    it('should count delivered and missed occurrences against the series', async () => {
+      const [first, second, third, fourth] = createSeriesBookings(4);
+      (bookingRepository.findSeriesById as jest.Mock).mockResolvedValue(createMockSeries());
+      (bookingRepository.findSeriesBookings as jest.Mock).mockResolvedValue([
+        { ...first, status: BookingStatus.COMPLETED },
+        { ...second, status: BookingStatus.NO_SHOW },
+        { ...third, status: BookingStatus.RESCHEDULED },
+        generateMockBooking({ ...third, id: 'occurrence-3b' }),
+        { ...fourth, status: BookingStatus.CANCELLED }
+      ]);
+
+      const result = await bookingsService.getBookingSeries('series-123', PROVIDER_ID, Roles.PROVIDER);
+
+      expect(result.progress).toEqual({ total: 4, scheduled: 1, delivered: 1, missed: 1, cancelled: 1 });
+    });
+
+    it('should reject providers who do not deliver the series', async () => {
+      (bookingRepository.findSeriesById as jest.Mock).mockResolvedValue(createMockSeries());
+
+      await expect(
+        bookingsService.getBookingSeries('series-123', 'other-provider', Roles.PROVIDER)
+      ).rejects.toMatchObject({ code: ErrorCodes.FORBIDDEN });
+    });
+  });
+
+  describe('series scopes', () => {
+    it('should move this and following occurrences into a new series', async () => {
+      const bookings = createSeriesBookings(4);
+      (bookingRepository.findById as jest.Mock).mockImplementation(async (id: string) =>
+        bookings.find(booking => booking.id === id) ?? generateMockBooking({ id })
+      );
+      (bookingRepository.findSeriesById as jest.Mock).mockResolvedValue(createMockSeries());
+      (bookingRepository.findSeriesBookings as jest.Mock).mockResolvedValue(bookings);
+      (bookingRepository.splitSeries as jest.Mock).mockResolvedValue(createMockSeries({ id: 'series-456' }));
+      (bookingRepository.reschedule as jest.Mock).mockImplementation(async (id: string) => ({ newBookingId: `${id}-moved`, reason: '' }));
+
+      // Move the third occurrence from Monday 10:00 to Tuesday 14:00
+      const result = await bookingsService.rescheduleBooking(
+        'occurrence-3',
+        {
+          startTime: new Date(Date.UTC(2030, 0, 22, 14, 0)),
+          endTime: new Date(Date.UTC(2030, 0, 22, 15, 0)),
+          serviceType: ServiceType.PHYSICAL_THERAPY,
+          reason: null,
+          scope: SeriesScope.FOLLOWING
+        },
+        CLIENT_ID,
+        Roles.CLIENT
+      );
+
+      expect(result.id).toBe('occurrence-3-moved');
+      expect(bookingRepository.checkForConflicts).toHaveBeenCalledWith(
+        PROVIDER_ID,
+        new Date(Date.UTC(2030, 0, 29, 14, 0)),
+        new Date(Date.UTC(2030, 0, 29, 15, 0)),
+        ['occurrence-3', 'occurrence-4']
+      );
+      expect(bookingRepository.splitSeries).toHaveBeenCalledWith(
+        'series-123',
+        expect.objectContaining({ count: null, until: new Date(new Date(Date.UTC(2030, 0, 21, 10, 0)).getTime() - 1) }),
+        expect.objectContaining({ startTime: new Date(Date.UTC(2030, 0, 22, 14, 0)), recurrence: expect.objectContaining({ count: 2 }) })
+      );
+      expect((bookingRepository.reschedule as jest.Mock).mock.calls.map(call => call[0])).toEqual(['occurrence-4', 'occurrence-3']);
+      expect(bookingRepository.reschedule).toHaveBeenCalledWith(
+        'occurrence-4',
+        expect.objectContaining({ startTime: new Date(Date.UTC(2030, 0, 29, 14, 0)), seriesId: 'series-456' }),
+        ''
+      );
+    });
+
+    it('should not move any occurrence when one of them conflicts', async () => {
+      const bookings = createSeriesBookings(4);
+      (bookingRepository.findById as jest.Mock).mockResolvedValue(bookings[0]);
+      (bookingRepository.findSeriesById as jest.Mock).mockResolvedValue(createMockSeries());
+      (bookingRepository.findSeriesBookings as jest.Mock).mockResolvedValue(bookings);
+      (bookingRepository.checkForConflicts as jest.Mock)
+        .mockResolvedValueOnce(false)
+        .mockResolvedValueOnce(false)
+        .mockResolvedValueOnce(true);
+
+      await expect(
+        bookingsService.rescheduleBooking(
+          'occurrence-1',
+          {
+            startTime: new Date(Date.UTC(2030, 0, 7, 15, 0)),
+            endTime: new Date(Date.UTC(2030, 0, 7, 16, 0)),
+            serviceType: ServiceType.PHYSICAL_THERAPY,
+            reason: null,
+            scope: SeriesScope.SERIES
+          },
+          CLIENT_ID,
+          Roles.CLIENT
+        )
+      ).rejects.toMatchObject({
+        code: ErrorCodes.CONFLICT,
+        details: { conflicts: [expect.objectContaining({ startTime: new Date(Date.UTC(2030, 0, 21, 15, 0)) })] }
+      });
+
+      expect(bookingRepository.reschedule).not.toHaveBeenCalled();
+      expect(bookingRepository.updateSeries).not.toHaveBeenCalled();
+    });
+
+    it('should cancel every remaining occurrence and the series', async () => {
+      const bookings = createSeriesBookings(3);
+      bookings[0].status = BookingStatus.COMPLETED;
+      (bookingRepository.findById as jest.Mock).mockResolvedValue(bookings[2]);
+      (bookingRepository.findSeriesById as jest.Mock).mockResolvedValue(createMockSeries());
+      (bookingRepository.findSeriesBookings as jest.Mock).mockResolvedValue(bookings);
+      (bookingRepository.cancel as jest.Mock).mockImplementation(async (id: string) =>
+        generateMockBooking({ id, status: BookingStatus.CANCELLED })
+      );
+
+      const result = await bookingsService.cancelBooking('occurrence-3', 'Discharged', CLIENT_ID, Roles.CLIENT, SeriesScope.SERIES);
+
+      expect(result.id).toBe('occurrence-3');
+      expect((bookingRepository.cancel as jest.Mock).mock.calls.map(call => call[0])).toEqual(['occurrence-2', 'occurrence-3']);
+      expect(bookingRepository.updateSeries).toHaveBeenCalledWith('series-123', { status: BookingSeriesStatus.CANCELLED });
+    });
+
+    it('should end the series before the occurrence when cancelling it and those following', async () => {
+      const bookings = createSeriesBookings(4);
+      (bookingRepository.findById as jest.Mock).mockResolvedValue(bookings[2]);
+      (bookingRepository.findSeriesById as jest.Mock).mockResolvedValue(createMockSeries());
+      (bookingRepository.findSeriesBookings as jest.Mock).mockResolvedValue(bookings);
+      (bookingRepository.cancel as jest.Mock).mockImplementation(async (id: string) =>
+        generateMockBooking({ id, status: BookingStatus.CANCELLED })
+      );
+
+      await bookingsService.cancelBooking('occurrence-3', 'Moving away', CLIENT_ID, Roles.CLIENT, SeriesScope.FOLLOWING);
+
+      expect((bookingRepository.cancel as jest.Mock).mock.calls.map(call => call[0])).toEqual(['occurrence-3', 'occurrence-4']);
+      expect(bookingRepository.updateSeries).toHaveBeenCalledWith('series-123', {
+        recurrence: expect.objectContaining({ count: null, until: new Date(bookings[2].startTime.getTime() - 1) })
+      });
+    });
+
+    it('should only cancel the selected occurrence by default', async () => {
+      const booking = createSeriesBookings(1)[0];
+      (bookingRepository.findById as jest.Mock).mockResolvedValue(booking);
+      (bookingRepository.cancel as jest.Mock).mockResolvedValue({ ...booking, status: BookingStatus.CANCELLED });
+
+      await bookingsService.cancelBooking(booking.id, 'Sick', CLIENT_ID, Roles.CLIENT);
+
+      expect(bookingRepository.findSeriesBookings).not.toHaveBeenCalled();
+      expect(bookingRepository.cancel).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,211 @@
+import crypto from 'crypto';
+import { CalendarFeedService } from '../../../src/services/calendar/calendar-feed.service';
+import { CalendarFeedRepository } from '../../../src/repositories/calendar-feed.repository';
+import { BookingRepository } from '../../../src/repositories/booking.repository';
+import { UserRepository } from '../../../src/repositories/user.repository';
+import { EmailService } from '../../../src/services/email/email.service';
+import { CalendarFeed } from '../../../src/types/calendar.types';
+import { Booking, BookingStatus } from '../../../src/models/booking.model';
+import { ErrorCodes } from '../../../src/constants/error-codes';
+import { Roles } from '../../../src/constants/roles';
+import { generateMockBooking } from '../../fixtures/bookings.fixture';
+
+// Mock the logger module
+jest.mock('../../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+// Mock random token generation
+jest.mock('../../../src/utils/security', () => ({
+  generateSecureRandomString: jest.fn(() => 'feedtoken123')
+}));
+
+// The email service sends through SendGrid
+jest.mock('../../../src/services/email/email.service', () => ({
+  EmailService: jest.fn()
+}));
+
+const CLIENT_ID = 'client-123';
+const PROVIDER_ID = 'provider-123';
+const TOKEN_HASH = crypto.createHash('sha256').update('feedtoken123').digest('hex');
+
+const at = (day: number, hour: number): Date => new Date(Date.UTC(2024, 5, day, hour, 0));
+
+// Helper function to create a mock calendar feed
+const createMockFeed = (overrides: Partial<CalendarFeed> = {}): CalendarFeed => ({
+  id: 'feed-1',
+  userId: CLIENT_ID,
+  userRole: Roles.CLIENT,
+  tokenHash: TOKEN_HASH,
+  lastAccessedAt: null,
+  createdAt: at(1, 8),
+  ...overrides
+});
+
+// A booking whose notes carry client details that must not reach the calendar
+const CALENDAR_BOOKING: Partial<Booking> = {
+  startTime: at(3, 14),
+  endTime: at(3, 15),
+  notes: 'Client details that must not reach the calendar',
+  createdAt: at(1, 8),
+  updatedAt: at(1, 8)
+};
+
+// Decodes the iCalendar attachments of an email
+const decodeAttachments = (options: any): string[] =>
+  options.attachments.map((attachment: { content: string }) =>
+    Buffer.from(attachment.content, 'base64').toString('utf8').replace(/\r\n /g, ''));
+
+describe('CalendarFeedService', () => {
+  let service: CalendarFeedService;
+  let mockCalendarFeedRepository: jest.Mocked<CalendarFeedRepository>;
+  let mockBookingRepository: jest.Mocked<BookingRepository>;
+  let mockUserRepository: jest.Mocked<UserRepository>;
+  let mockEmailService: jest.Mocked<EmailService>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockCalendarFeedRepository = {
+      saveFeed: jest.fn().mockImplementation(async (userId, userRole, tokenHash) =>
+        createMockFeed({ userId, userRole, tokenHash })),
+      findByUserId: jest.fn().mockResolvedValue(createMockFeed()),
+      findByTokenHash: jest.fn().mockResolvedValue(createMockFeed()),
+      recordAccess: jest.fn(),
+      deleteByUserId: jest.fn().mockResolvedValue(true)
+    } as unknown as jest.Mocked<CalendarFeedRepository>;
+
+    mockBookingRepository = {
+      findById: jest.fn().mockImplementation(async (id) => generateMockBooking({ ...CALENDAR_BOOKING, id })),
+      getUpcomingBookings: jest.fn().mockResolvedValue({ bookings: [generateMockBooking(CALENDAR_BOOKING)] })
+    } as unknown as jest.Mocked<BookingRepository>;
+
+    mockUserRepository = {
+      findById: jest.fn().mockImplementation(async (id) => ({ id, email: `${id}@example.com` }))
+    } as unknown as jest.Mocked<UserRepository>;
+
+    mockEmailService = {
+      deliverNotification: jest.fn().mockResolvedValue([{ success: true, channel: 'email', error: null }])
+    } as unknown as jest.Mocked<EmailService>;
+
+    service = new CalendarFeedService(
+      mockCalendarFeedRepository,
+      mockBookingRepository,
+      mockUserRepository,
+      mockEmailService
+    );
+  });
+
+  describe('createFeed', () => {
+    it('stores only a hash of the token and returns the feed URLs', async () => {
+      const feed = await service.createFeed(CLIENT_ID, Roles.CLIENT);
+
+      expect(mockCalendarFeedRepository.saveFeed).toHaveBeenCalledWith(CLIENT_ID, Roles.CLIENT, TOKEN_HASH);
+      expect(feed.url).toMatch(/\/feedtoken123\.ics$/);
+      expect(feed.webcalUrl).toMatch(/^webcal:\/\/.*\/feedtoken123\.ics$/);
+      expect(feed).not.toHaveProperty('tokenHash');
+    });
+
+    it('only issues feeds to clients and providers', async () => {
+      await expect(service.createFeed('admin-1', Roles.ADMINISTRATOR))
+        .rejects.toMatchObject({ code: ErrorCodes.FORBIDDEN });
+
+      expect(mockCalendarFeedRepository.saveFeed).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('renderFeed', () => {
+    it('lists the feed owner\'s upcoming bookings without client details', async () => {
+      const calendar = await service.renderFeed('feedtoken123');
+
+      expect(mockCalendarFeedRepository.findByTokenHash).toHaveBeenCalledWith(TOKEN_HASH);
+      expect(mockBookingRepository.getUpcomingBookings).toHaveBeenCalledWith(CLIENT_ID, Roles.CLIENT, expect.any(Number));
+      expect(calendar).toContain('METHOD:PUBLISH');
+      expect(calendar).toContain('UID:booking-booking-1@revolucare.com');
+      expect(calendar).toContain('DTSTART:20240603T140000Z');
+      expect(calendar).not.toContain('Client details');
+      expect(mockCalendarFeedRepository.recordAccess).toHaveBeenCalledWith('feed-1', expect.any(Date));
+    });
+
+    it('rejects unknown tokens', async () => {
+      mockCalendarFeedRepository.findByTokenHash.mockResolvedValue(null);
+
+      await expect(service.renderFeed('unknown')).rejects.toMatchObject({ code: ErrorCodes.NOT_FOUND });
+      expect(mockBookingRepository.getUpcomingBookings).not.toHaveBeenCalled();
+    });
+
+    it('still serves the feed when its access time cannot be recorded', async () => {
+      mockCalendarFeedRepository.recordAccess.mockRejectedValue(new Error('Database unavailable'));
+
+      await expect(service.renderFeed('feedtoken123')).resolves.toContain('BEGIN:VCALENDAR');
+    });
+  });
+
+  describe('revokeFeed', () => {
+    it('reports a missing feed', async () => {
+      mockCalendarFeedRepository.deleteByUserId.mockResolvedValue(false);
+
+      await expect(service.revokeFeed(CLIENT_ID)).rejects.toMatchObject({ code: ErrorCodes.NOT_FOUND });
+    });
+  });
+
+  describe('sendBookingInvitations', () => {
+    it('emails the client and provider an invitation', async () => {
+      await service.sendBookingInvitations(['booking-1']);
+
+      expect(mockEmailService.deliverNotification).toHaveBeenCalledTimes(2);
+      const [notification, options] = mockEmailService.deliverNotification.mock.calls[0];
+      expect(notification).toMatchObject({ userId: CLIENT_ID, channels: ['email'] });
+      expect(options).toMatchObject({
+        recipient: `${CLIENT_ID}@example.com`,
+        attachments: [expect.objectContaining({ filename: 'invite.ics', type: expect.stringContaining('method=REQUEST') })]
+      });
+
+      const [calendar] = decodeAttachments(options);
+      expect(calendar).toContain('METHOD:REQUEST');
+      expect(calendar).toContain('STATUS:CONFIRMED');
+      expect(calendar).toContain(`ATTENDEE;ROLE=REQ-PARTICIPANT;PARTSTAT=ACCEPTED:mailto:${PROVIDER_ID}@example.com`);
+      expect(mockEmailService.deliverNotification.mock.calls[1][1]).toMatchObject({ recipient: `${PROVIDER_ID}@example.com` });
+    });
+
+    it('sends one email per participant with an invitation for each occurrence of a series', async () => {
+      await service.sendBookingInvitations(['booking-1', 'booking-2', 'booking-3']);
+
+      expect(mockEmailService.deliverNotification).toHaveBeenCalledTimes(2);
+      const options = mockEmailService.deliverNotification.mock.calls[0][1];
+      expect(options.attachments.map((attachment: { filename: string }) => attachment.filename))
+        .toEqual(['invite-1.ics', 'invite-2.ics', 'invite-3.ics']);
+    });
+  });
+
+  describe('sendRescheduleInvitation', () => {
+    it('cancels the original time and invites to the new one', async () => {
+      await service.sendRescheduleInvitation('booking-1', 'booking-2');
+
+      const [cancellation, invitation] = decodeAttachments(mockEmailService.deliverNotification.mock.calls[0][1]);
+      expect(cancellation).toContain('METHOD:CANCEL');
+      expect(cancellation).toContain('UID:booking-booking-1@revolucare.com');
+      expect(cancellation).toContain('SEQUENCE:1');
+      expect(invitation).toContain('METHOD:REQUEST');
+      expect(invitation).toContain('UID:booking-booking-2@revolucare.com');
+    });
+  });
+
+  describe('sendCancellation', () => {
+    it('keeps emailing the provider when delivery to the client fails', async () => {
+      mockEmailService.deliverNotification.mockResolvedValueOnce([{ success: false, channel: 'email', error: 'Bounced' }]);
+
+      await service.sendCancellation('booking-1');
+
+      expect(mockEmailService.deliverNotification).toHaveBeenCalledTimes(2);
+      const [calendar] = decodeAttachments(mockEmailService.deliverNotification.mock.calls[1][1]);
+      expect(calendar).toContain('METHOD:CANCEL');
+      expect(calendar).toContain('STATUS:CANCELLED');
+    });
+  });
+});
@@ -0,0 +1,454 @@
+import {
+  CalendarSyncService,
+  isBlockingEvent,
+  shouldHaveCalendarEvent
+} from '../../../src/services/calendar/calendar-sync.service';
+import { CalendarSyncRepository } from '../../../src/repositories/calendar-sync.repository';
+import { BookingRepository } from '../../../src/repositories/booking.repository';
+import { ProviderAvailabilityRepository } from '../../../src/repositories/provider-availability.repository';
+import { CalendarIntegrationService } from '../../../src/services/calendar/calendar-integration.service';
+import { IWaitlistService } from '../../../src/interfaces/waitlist.interface';
+import {
+  CalendarConnection,
+  CalendarConnectionStatus,
+  CalendarDriftType,
+  CalendarEventLink,
+  ExternalCalendarEvent
+} from '../../../src/types/calendar.types';
+import { BusyPeriod } from '../../../src/types/provider.types';
+import { Booking, BookingStatus } from '../../../src/models/booking.model';
+import { ErrorCodes } from '../../../src/constants/error-codes';
+import { Roles } from '../../../src/constants/roles';
+import { generateMockBooking } from '../../fixtures/bookings.fixture';
+
+// Mock the logger module
+jest.mock('../../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+// Mock secret encryption and random token generation
+jest.mock('../../../src/utils/security', () => ({
+  generateSecureRandomString: jest.fn(() => require('crypto').randomBytes(24).toString('hex')),
+  encryptData: jest.fn((data: string) => `encrypted:${data}`),
+  decryptData: jest.fn((data: string) => data.replace('encrypted:', ''))
+}));
+
+// The calendar clients call out to Google and Microsoft Graph
+jest.mock('../../../src/services/calendar/calendar-integration.service', () => ({
+  CalendarIntegrationService: jest.fn()
+}));
+
+const PROVIDER_ID = 'provider-123';
+const CHANNEL_TOKEN = 'channel-token-abc';
+
+// Saturday 1 June 2024, 09:00 UTC
+const NOW = new Date(Date.UTC(2024, 5, 1, 9, 0));
+
+const at = (day: number, hour: number): Date => new Date(Date.UTC(2024, 5, day, hour, 0));
+
+// Helper function to create a mock calendar connection
+const createMockConnection = (overrides: Partial<CalendarConnection> = {}): CalendarConnection => ({
+  id: 'connection-1',
+  providerId: PROVIDER_ID,
+  calendarProvider: 'google',
+  calendarId: 'primary',
+  credentials: { access_token: 'access-token', refresh_token: 'refresh-token', expiry_date: at(1, 10).getTime() },
+  subscriptionId: 'channel-1',
+  resourceId: 'resource-1',
+  channelToken: CHANNEL_TOKEN,
+  subscriptionExpiresAt: at(7, 9),
+  status: CalendarConnectionStatus.ACTIVE,
+  lastSyncedAt: null,
+  lastError: null,
+  createdAt: at(1, 8),
+  updatedAt: at(1, 8),
+  ...overrides
+});
+
+// A booking whose notes carry client details that must not reach the calendar
+const CALENDAR_BOOKING: Partial<Booking> = {
+  startTime: at(3, 14),
+  endTime: at(3, 15),
+  notes: 'Client details that must not reach the calendar',
+  createdAt: at(1, 8),
+  updatedAt: at(1, 8)
+};
+
+// Helper function to create a mock external calendar event
+const createMockEvent = (overrides: Partial<ExternalCalendarEvent> = {}): ExternalCalendarEvent => ({
+  id: 'event-1',
+  summary: 'Dentist',
+  start: at(4, 10),
+  end: at(4, 11),
+  status: 'confirmed',
+  ...overrides
+});
+
+// Helper function to create a mock busy period
+const createMockBusyPeriod = (overrides: Partial<BusyPeriod> = {}): BusyPeriod => ({
+  id: 'busy-1',
+  providerId: PROVIDER_ID,
+  connectionId: 'connection-1',
+  externalEventId: 'event-1',
+  startTime: at(4, 10),
+  endTime: at(4, 11),
+  ...overrides
+});
+
+// Helper function to create a mock booking event link
+const createMockLink = (overrides: Partial<CalendarEventLink> = {}): CalendarEventLink => ({
+  id: 'link-1',
+  bookingId: 'booking-1',
+  connectionId: 'connection-1',
+  externalEventId: 'booking-event-1',
+  createdAt: at(1, 8),
+  updatedAt: at(1, 8),
+  ...overrides
+});
+
+describe('isBlockingEvent', () => {
+  it('blocks slots for confirmed and tentative events', () => {
+    expect(isBlockingEvent(createMockEvent())).toBe(true);
+    expect(isBlockingEvent(createMockEvent({ status: 'tentative' }))).toBe(true);
+  });
+
+  it('does not block slots for cancelled, free or empty events', () => {
+    expect(isBlockingEvent(createMockEvent({ status: 'cancelled' }))).toBe(false);
+    expect(isBlockingEvent(createMockEvent({ status: 'Free' }))).toBe(false);
+    expect(isBlockingEvent(createMockEvent({ end: at(4, 10) }))).toBe(false);
+  });
+});
+
+describe('shouldHaveCalendarEvent', () => {
+  it('keeps events for bookings that still stand', () => {
+    expect(shouldHaveCalendarEvent(generateMockBooking(CALENDAR_BOOKING))).toBe(true);
+    expect(shouldHaveCalendarEvent(generateMockBooking({ ...CALENDAR_BOOKING, status: BookingStatus.COMPLETED }))).toBe(true);
+  });
+
+  it('removes events for cancelled and rescheduled bookings', () => {
+    expect(shouldHaveCalendarEvent(generateMockBooking({ ...CALENDAR_BOOKING, status: BookingStatus.CANCELLED }))).toBe(false);
+    expect(shouldHaveCalendarEvent(generateMockBooking({ ...CALENDAR_BOOKING, status: BookingStatus.RESCHEDULED }))).toBe(false);
+  });
+});
+
+describe('CalendarSyncService', () => {
+  let service: CalendarSyncService;
+  let mockCalendarSyncRepository: jest.Mocked<CalendarSyncRepository>;
+  let mockBookingRepository: jest.Mocked<BookingRepository>;
+  let mockAvailabilityRepository: jest.Mocked<ProviderAvailabilityRepository>;
+  let mockCalendarService: jest.Mocked<CalendarIntegrationService>;
+  let mockWaitlistService: jest.Mocked<IWaitlistService>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockCalendarSyncRepository = {
+      createConnection: jest.fn().mockImplementation(async (data) => createMockConnection(data)),
+      findConnectionById: jest.fn().mockResolvedValue(createMockConnection()),
+      findConnectionBySubscription: jest.fn().mockResolvedValue(createMockConnection()),
+      findConnections: jest.fn().mockResolvedValue([createMockConnection()]),
+      updateConnection: jest.fn().mockImplementation(async (id, data) => createMockConnection({ id, ...data })),
+      deleteConnection: jest.fn(),
+      findBusyPeriods: jest.fn().mockResolvedValue([]),
+      applyBusyPeriodChanges: jest.fn(),
+      findEventLinks: jest.fn().mockResolvedValue([]),
+      findEventLink: jest.fn().mockResolvedValue(null),
+      saveEventLink: jest.fn().mockImplementation(async (bookingId, connectionId, externalEventId) =>
+        createMockLink({ bookingId, connectionId, externalEventId })),
+      deleteEventLink: jest.fn(),
+      createReconciliationReport: jest.fn().mockImplementation(async (data) => ({ ...data, id: 'report-1', createdAt: NOW })),
+      findReconciliationReports: jest.fn().mockResolvedValue([])
+    } as unknown as jest.Mocked<CalendarSyncRepository>;
+
+    mockBookingRepository = {
+      findById: jest.fn().mockResolvedValue(generateMockBooking(CALENDAR_BOOKING)),
+      findProviderBookingsBetween: jest.fn().mockResolvedValue([])
+    } as unknown as jest.Mocked<BookingRepository>;
+
+    mockAvailabilityRepository = {
+      invalidateCache: jest.fn()
+    } as unknown as jest.Mocked<ProviderAvailabilityRepository>;
+
+    mockCalendarService = {
+      initialize: jest.fn().mockResolvedValue(undefined),
+      setCredentials: jest.fn().mockResolvedValue(undefined),
+      getTokenFromCode: jest.fn().mockResolvedValue({ access_token: 'access-token', refresh_token: 'refresh-token' }),
+      setupWebhookNotifications: jest.fn().mockResolvedValue({
+        id: 'channel-2',
+        resourceId: 'resource-2',
+        expirationTime: String(at(8, 9).getTime())
+      }),
+      stopWebhookNotifications: jest.fn().mockResolvedValue(undefined),
+      getCalendarEvents: jest.fn().mockResolvedValue([]),
+      createEvent: jest.fn().mockResolvedValue({ id: 'booking-event-1' }),
+      updateEvent: jest.fn().mockResolvedValue({ id: 'booking-event-1' }),
+      deleteEvent: jest.fn().mockResolvedValue(undefined)
+    } as unknown as jest.Mocked<CalendarIntegrationService>;
+
+    mockWaitlistService = {
+      offerOpenSlots: jest.fn().mockResolvedValue([])
+    } as unknown as jest.Mocked<IWaitlistService>;
+
+    service = new CalendarSyncService(
+      mockCalendarSyncRepository,
+      mockBookingRepository,
+      mockAvailabilityRepository,
+      mockCalendarService,
+      mockWaitlistService
+    );
+  });
+
+  describe('connectCalendar', () => {
+    it('subscribes to change notifications and writes upcoming bookings to the calendar', async () => {
+      mockBookingRepository.findProviderBookingsBetween.mockResolvedValue([
+        generateMockBooking(CALENDAR_BOOKING),
+        generateMockBooking({ ...CALENDAR_BOOKING, id: 'booking-2', status: BookingStatus.CANCELLED })
+      ]);
+
+      const connection = await service.connectCalendar(
+        PROVIDER_ID,
+        { calendarProvider: 'google', code: 'auth-code' },
+        PROVIDER_ID,
+        Roles.PROVIDER
+      );
+
+      const channelToken = mockCalendarService.setupWebhookNotifications.mock.calls[0][3];
+      expect(channelToken).toEqual(expect.any(String));
+      expect(mockCalendarSyncRepository.createConnection).toHaveBeenCalledWith(expect.objectContaining({
+        providerId: PROVIDER_ID,
+        calendarId: 'primary',
+        subscriptionId: 'channel-2',
+        channelToken,
+        subscriptionExpiresAt: at(8, 9)
+      }));
+      expect(mockCalendarService.createEvent).toHaveBeenCalledTimes(1);
+      expect(mockCalendarSyncRepository.saveEventLink).toHaveBeenCalledWith('booking-1', 'connection-1', 'booking-event-1');
+
+      // Secrets are not returned to the client
+      expect(connection).not.toHaveProperty('credentials');
+      expect(connection).not.toHaveProperty('channelToken');
+    });
+
+    it('prevents users from connecting another provider\'s calendar', async () => {
+      await expect(service.connectCalendar(
+        PROVIDER_ID,
+        { calendarProvider: 'google', code: 'auth-code' },
+        'other-provider',
+        Roles.PROVIDER
+      )).rejects.toMatchObject({ code: ErrorCodes.FORBIDDEN });
+
+      expect(mockCalendarService.getTokenFromCode).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('handleWebhook', () => {
+    const googleNotification = (token: string | null = CHANNEL_TOKEN, resourceState = 'exists') => ({
+      body: {},
+      headers: {
+        'x-goog-channel-id': 'channel-1',
+        'x-goog-resource-state': resourceState,
+        ...(token ? { 'x-goog-channel-token': token } : {})
+      },
+      timestamp: NOW.getTime()
+    });
+
+    it('blocks slots for a new personal event but not for events written for bookings', async () => {
+      mockCalendarService.getCalendarEvents.mockResolvedValue([
+        createMockEvent(),
+        createMockEvent({ id: 'booking-event-1', start: at(3, 14), end: at(3, 15) })
+      ]);
+      mockCalendarSyncRepository.findEventLinks.mockResolvedValue([createMockLink()]);
+
+      const synced = await service.handleWebhook('google', googleNotification());
+
+      expect(synced).toBe(1);
+      expect(mockCalendarService.setCredentials).toHaveBeenCalledWith('google', createMockConnection().credentials);
+      expect(mockCalendarSyncRepository.applyBusyPeriodChanges).toHaveBeenCalledWith({
+        create: [{
+          providerId: PROVIDER_ID,
+          connectionId: 'connection-1',
+          externalEventId: 'event-1',
+          startTime: at(4, 10),
+          endTime: at(4, 11)
+        }],
+        update: [],
+        delete: []
+      });
+      expect(mockAvailabilityRepository.invalidateCache).toHaveBeenCalledWith(PROVIDER_ID);
+
+      // Blocking time releases nothing to the waitlist
+      expect(mockWaitlistService.offerOpenSlots).not.toHaveBeenCalled();
+    });
+
+    it('unblocks slots for a deleted personal event and offers them to the waitlist', async () => {
+      mockCalendarSyncRepository.findConnectionBySubscription.mockResolvedValue(
+        createMockConnection({ calendarProvider: 'microsoft' })
+      );
+      mockCalendarSyncRepository.findBusyPeriods.mockResolvedValue([createMockBusyPeriod()]);
+
+      await service.handleWebhook('microsoft', {
+        body: { value: [{ subscriptionId: 'channel-1', clientState: CHANNEL_TOKEN }] },
+        headers: {},
+        timestamp: NOW.getTime()
+      });
+
+      expect(mockCalendarSyncRepository.applyBusyPeriodChanges).toHaveBeenCalledWith({
+        create: [],
+        update: [],
+        delete: ['busy-1']
+      });
+      expect(mockWaitlistService.offerOpenSlots).toHaveBeenCalledWith(PROVIDER_ID);
+    });
+
+    it('rejects notifications that do not carry the subscription\'s token', async () => {
+      await expect(service.handleWebhook('google', googleNotification('forged-token')))
+        .rejects.toMatchObject({ code: ErrorCodes.UNAUTHORIZED });
+      await expect(service.handleWebhook('google', googleNotification(null)))
+        .rejects.toMatchObject({ code: ErrorCodes.UNAUTHORIZED });
+
+      expect(mockCalendarService.getCalendarEvents).not.toHaveBeenCalled();
+    });
+
+    it('ignores Google sync messages and unknown subscriptions', async () => {
+      expect(await service.handleWebhook('google', googleNotification(CHANNEL_TOKEN, 'sync'))).toBe(0);
+
+      mockCalendarSyncRepository.findConnectionBySubscription.mockResolvedValue(null);
+      expect(await service.handleWebhook('google', googleNotification())).toBe(0);
+
+      expect(mockCalendarService.getCalendarEvents).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('syncBooking', () => {
+    it('creates an event without client details for a new booking', async () => {
+      await service.syncBooking('booking-1');
+
+      expect(mockCalendarService.createEvent).toHaveBeenCalledWith('google', 'primary', expect.objectContaining({
+        start: at(3, 14),
+        end: at(3, 15)
+      }));
+      const eventDetails = mockCalendarService.createEvent.mock.calls[0][2];
+      expect(JSON.stringify(eventDetails)).not.toContain('Client details');
+      expect(mockCalendarSyncRepository.saveEventLink).toHaveBeenCalledWith('booking-1', 'connection-1', 'booking-event-1');
+    });
+
+    it('updates the existing event for a booking that was already written', async () => {
+      mockCalendarSyncRepository.findEventLink.mockResolvedValue(createMockLink());
+
+      await service.syncBooking('booking-1');
+
+      expect(mockCalendarService.updateEvent).toHaveBeenCalledWith('google', 'primary', 'booking-event-1', expect.any(Object));
+      expect(mockCalendarService.createEvent).not.toHaveBeenCalled();
+    });
+
+    it('deletes the event once the booking is cancelled', async () => {
+      mockBookingRepository.findById.mockResolvedValue(generateMockBooking({ ...CALENDAR_BOOKING, status: BookingStatus.CANCELLED }));
+      mockCalendarSyncRepository.findEventLink.mockResolvedValue(createMockLink());
+
+      await service.syncBooking('booking-1');
+
+      expect(mockCalendarService.deleteEvent).toHaveBeenCalledWith('google', 'primary', 'booking-event-1');
+      expect(mockCalendarSyncRepository.deleteEventLink).toHaveBeenCalledWith('link-1');
+    });
+
+    it('keeps writing to other calendars when one fails', async () => {
+      mockCalendarSyncRepository.findConnections.mockResolvedValue([
+        createMockConnection(),
+        createMockConnection({ id: 'connection-2', calendarProvider: 'microsoft' })
+      ]);
+      mockCalendarService.createEvent.mockRejectedValueOnce(new Error('Calendar unavailable'));
+
+      await service.syncBooking('booking-1');
+
+      expect(mockCalendarService.createEvent).toHaveBeenCalledTimes(2);
+      expect(mockCalendarSyncRepository.saveEventLink).toHaveBeenCalledWith('booking-1', 'connection-2', 'booking-event-1');
+    });
+  });
+
+  describe('reconcileAll', () => {
+    it('repairs and reports drift between bookings, events and blocked slots', async () => {
+      mockBookingRepository.findProviderBookingsBetween.mockResolvedValue([
+        generateMockBooking(CALENDAR_BOOKING),
+        generateMockBooking({ ...CALENDAR_BOOKING, id: 'booking-2', startTime: at(5, 10), endTime: at(5, 11) }),
+        generateMockBooking({ ...CALENDAR_BOOKING, id: 'booking-3', status: BookingStatus.CANCELLED })
+      ]);
+      mockCalendarSyncRepository.findEventLinks.mockResolvedValue([
+        createMockLink(),
+        createMockLink({ id: 'link-3', bookingId: 'booking-3', externalEventId: 'booking-event-3' })
+      ]);
+      mockCalendarService.getCalendarEvents.mockResolvedValue([
+        createMockEvent({ id: 'booking-event-1', start: at(3, 14), end: at(3, 15) }),
+        createMockEvent({ id: 'booking-event-3', start: at(3, 14), end: at(3, 15) }),
+        createMockEvent({ id: 'event-2', start: at(5, 10), end: at(5, 12) })
+      ]);
+      mockCalendarSyncRepository.findBusyPeriods.mockResolvedValue([createMockBusyPeriod()]);
+
+      const [report] = await service.reconcileAll(NOW);
+
+      expect(report.items).toEqual(expect.arrayContaining([
+        expect.objectContaining({ type: CalendarDriftType.MISSING_EVENT, bookingId: 'booking-2', repaired: true }),
+        expect.objectContaining({ type: CalendarDriftType.ORPHANED_EVENT, bookingId: 'booking-3', repaired: true }),
+        expect.objectContaining({ type: CalendarDriftType.MISSING_BLOCK, externalEventId: 'event-2', repaired: true }),
+        expect.objectContaining({ type: CalendarDriftType.ORPHANED_BLOCK, externalEventId: 'event-1', repaired: true }),
+        expect.objectContaining({
+          type: CalendarDriftType.BOOKING_CONFLICT,
+          bookingId: 'booking-2',
+          externalEventId: 'event-2',
+          repaired: false
+        })
+      ]));
+      expect(report.items).toHaveLength(5);
+      expect(report.unresolvedCount).toBe(1);
+
+      expect(mockCalendarService.deleteEvent).toHaveBeenCalledWith('google', 'primary', 'booking-event-3');
+      expect(mockCalendarSyncRepository.deleteEventLink).toHaveBeenCalledWith('link-3');
+      expect(mockCalendarSyncRepository.saveEventLink).toHaveBeenCalledWith('booking-2', 'connection-1', 'booking-event-1');
+
+      // The deleted booking event is not mistaken for a new personal event
+      const changes = mockCalendarSyncRepository.applyBusyPeriodChanges.mock.calls[0][0];
+      expect(changes.create.map(period => period.externalEventId)).toEqual(['event-2']);
+    });
+
+    it('renews a change notification subscription that is about to expire', async () => {
+      mockCalendarSyncRepository.findConnections.mockResolvedValue([
+        createMockConnection({ subscriptionExpiresAt: at(1, 20) })
+      ]);
+
+      await service.reconcileAll(NOW);
+
+      expect(mockCalendarService.setupWebhookNotifications).toHaveBeenCalledWith(
+        'google',
+        'primary',
+        expect.stringContaining('/google'),
+        CHANNEL_TOKEN
+      );
+      expect(mockCalendarSyncRepository.updateConnection).toHaveBeenCalledWith('connection-1', expect.objectContaining({
+        subscriptionId: 'channel-2',
+        resourceId: 'resource-2'
+      }));
+      expect(mockCalendarService.stopWebhookNotifications).toHaveBeenCalledWith('google', 'channel-1', 'resource-1');
+    });
+
+    it('marks a connection as failing and carries on with the others', async () => {
+      mockCalendarSyncRepository.findConnections.mockResolvedValue([
+        createMockConnection(),
+        createMockConnection({ id: 'connection-2' })
+      ]);
+      mockCalendarService.getCalendarEvents.mockRejectedValueOnce(new Error('Token revoked'));
+
+      const reports = await service.reconcileAll(NOW);
+
+      expect(reports).toHaveLength(1);
+      expect(reports[0].connectionId).toBe('connection-2');
+      expect(mockCalendarSyncRepository.updateConnection).toHaveBeenCalledWith('connection-1', {
+        status: CalendarConnectionStatus.ERROR,
+        lastError: 'Token revoked'
+      });
+    });
+  });
+});
@@ -0,0 +1,239 @@
+import { CarePlanExportService } from '../../../src/services/care-plan-export.service';
+import { CarePlanRepository } from '../../../src/repositories/care-plan.repository';
+import { CaseManagerProfileRepository } from '../../../src/repositories/case-manager-profile.repository';
+import { UserRepository } from '../../../src/repositories/user.repository';
+import {
+  CarePlan,
+  CarePlanExportFormat,
+  GoalStatus,
+  InterventionStatus
+} from '../../../src/types/care-plan.types';
+import { FhirCarePlan, FhirGoal } from '../../../src/types/fhir.types';
+import { CARE_PLAN_APPROVAL_EXTENSION_URL } from '../../../src/utils/fhir';
+import { PlanStatus } from '../../../src/constants/plan-statuses';
+import { ErrorCodes } from '../../../src/constants/error-codes';
+import { Roles } from '../../../src/constants/roles';
+
+// Mock the logger module
+jest.mock('../../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+const CARE_PLAN_ID = 'care-plan-123';
+const GOAL_ID = 'goal-123';
+const CLIENT_ID = 'client-123';
+const CASE_MANAGER_ID = 'case-manager-789';
+const APPROVER_ID = 'approver-456';
+
+// Helper function to create a mock approved care plan with one goal and one intervention
+const createMockCarePlan = (overrides: Partial<CarePlan> = {}): CarePlan => ({
+  id: CARE_PLAN_ID,
+  clientId: CLIENT_ID,
+  createdById: 'case-manager-000',
+  title: 'Mobility plan',
+  description: 'Improve mobility and independence',
+  status: PlanStatus.ACTIVE,
+  confidenceScore: 90,
+  version: 3,
+  previousVersionId: 'care-plan-122',
+  approvedById: APPROVER_ID,
+  approvedAt: new Date('2024-01-15T10:00:00Z'),
+  approvalNotes: 'Reviewed with the client',
+  goals: [
+    {
+      id: GOAL_ID,
+      carePlanId: CARE_PLAN_ID,
+      description: 'Walk unassisted for 10 minutes',
+      targetDate: new Date('2024-06-30T00:00:00Z'),
+      status: GoalStatus.IN_PROGRESS,
+      measures: ['Minutes walked unassisted'],
+      createdAt: new Date('2024-01-01'),
+      updatedAt: new Date('2024-01-01')
+    }
+  ],
+  interventions: [
+    {
+      id: 'intervention-123',
+      carePlanId: CARE_PLAN_ID,
+      description: 'Physical therapy',
+      frequency: '2x weekly',
+      duration: '8 weeks',
+      responsibleParty: 'Physical therapist',
+      status: InterventionStatus.ACTIVE,
+      createdAt: new Date('2024-01-01'),
+      updatedAt: new Date('2024-01-01')
+    }
+  ],
+  createdAt: new Date('2024-01-01'),
+  updatedAt: new Date('2024-01-15'),
+  ...overrides
+});
+
+describe('CarePlanExportService', () => {
+  let carePlanRepository: CarePlanRepository;
+  let userRepository: UserRepository;
+  let caseManagerProfileRepository: CaseManagerProfileRepository;
+  let exportService: CarePlanExportService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    carePlanRepository = {
+      findById: jest.fn().mockResolvedValue(createMockCarePlan())
+    } as unknown as CarePlanRepository;
+
+    userRepository = {
+      findById: jest.fn().mockImplementation(async (id: string) => (
+        id === CLIENT_ID
+          ? { id, firstName: 'Jane', lastName: 'Doe' }
+          : { id, firstName: 'Sam', lastName: 'Reviewer' }
+      ))
+    } as unknown as UserRepository;
+
+    caseManagerProfileRepository = {
+      findByUserId: jest.fn().mockResolvedValue({ userId: CASE_MANAGER_ID, assignedClients: [CLIENT_ID] })
+    } as unknown as CaseManagerProfileRepository;
+
+    exportService = new CarePlanExportService(carePlanRepository, userRepository, caseManagerProfileRepository);
+  });
+
+  describe('FHIR export', () => {
+    it('should map the care plan to a FHIR CarePlan with version and approval', async () => {
+      const result = await exportService.exportCarePlan(
+        CARE_PLAN_ID,
+        CarePlanExportFormat.FHIR,
+        CASE_MANAGER_ID,
+        Roles.CASE_MANAGER
+      );
+
+      expect(result.contentType).toBe('application/fhir+json');
+      expect(result.filename).toBe('care-plan-care-plan-123-v3.json');
+
+      const resource = JSON.parse(result.content as string) as FhirCarePlan;
+      expect(resource).toMatchObject({
+        resourceType: 'CarePlan',
+        id: CARE_PLAN_ID,
+        meta: { versionId: '3' },
+        status: 'active',
+        intent: 'plan',
+        subject: { reference: `Patient/${CLIENT_ID}`, display: 'Jane Doe' },
+        replaces: [{ reference: 'CarePlan/care-plan-122' }],
+        goal: [{ reference: `#${GOAL_ID}` }]
+      });
+      expect(resource.extension).toEqual([
+        {
+          url: CARE_PLAN_APPROVAL_EXTENSION_URL,
+          extension: [
+            { url: 'approvedBy', valueReference: { reference: `Practitioner/${APPROVER_ID}` } },
+            { url: 'approvedAt', valueDateTime: '2024-01-15T10:00:00.000Z' },
+            { url: 'notes', valueString: 'Reviewed with the client' }
+          ]
+        }
+      ]);
+    });
+
+    it('should map goals to contained Goal resources and interventions to activities', async () => {
+      const result = await exportService.exportCarePlan(
+        CARE_PLAN_ID,
+        CarePlanExportFormat.FHIR,
+        CASE_MANAGER_ID,
+        Roles.CASE_MANAGER
+      );
+
+      const resource = JSON.parse(result.content as string) as FhirCarePlan;
+      const goal = resource.contained?.[0] as FhirGoal;
+
+      expect(goal).toMatchObject({
+        resourceType: 'Goal',
+        id: GOAL_ID,
+        lifecycleStatus: 'active',
+        achievementStatus: { coding: [{ code: 'in-progress' }] },
+        description: { text: 'Walk unassisted for 10 minutes' },
+        target: [{ measure: { text: 'Minutes walked unassisted' }, dueDate: '2024-06-30' }]
+      });
+      expect(resource.activity).toEqual([
+        {
+          detail: {
+            status: 'in-progress',
+            description: 'Physical therapy',
+            scheduledString: '2x weekly, 8 weeks',
+            performer: [{ display: 'Physical therapist' }]
+          }
+        }
+      ]);
+    });
+
+    it('should omit approval for a care plan that has not been approved', async () => {
+      (carePlanRepository.findById as jest.Mock).mockResolvedValue(createMockCarePlan({
+        status: PlanStatus.DRAFT,
+        approvedById: null,
+        approvedAt: null,
+        approvalNotes: null
+      }));
+
+      const result = await exportService.exportCarePlan(
+        CARE_PLAN_ID,
+        CarePlanExportFormat.FHIR,
+        CASE_MANAGER_ID,
+        Roles.CASE_MANAGER
+      );
+
+      const resource = JSON.parse(result.content as string) as FhirCarePlan;
+      expect(resource.status).toBe('draft');
+      expect(resource.extension).toBeUndefined();
+    });
+  });
+
+  describe('PDF export', () => {
+    it('should produce a PDF document with version and approval details', async () => {
+      const result = await exportService.exportCarePlan(
+        CARE_PLAN_ID,
+        CarePlanExportFormat.PDF,
+        CASE_MANAGER_ID,
+        Roles.CASE_MANAGER
+      );
+
+      expect(result.contentType).toBe('application/pdf');
+      expect(result.filename).toBe('care-plan-care-plan-123-v3.pdf');
+
+      const content = (result.content as Buffer).toString('latin1');
+      expect(content.startsWith('%PDF-1.4')).toBe(true);
+      expect(content.trimEnd().endsWith('%%EOF')).toBe(true);
+      expect(content).toContain('Version 3');
+      expect(content).toContain('Approved by Sam Reviewer on 2024-01-15');
+      expect(content).toContain('Walk unassisted for 10 minutes');
+    });
+  });
+
+  describe('access', () => {
+    it('should reject a case manager the client is not assigned to', async () => {
+      (caseManagerProfileRepository.findByUserId as jest.Mock).mockResolvedValue({
+        userId: CASE_MANAGER_ID,
+        assignedClients: []
+      });
+
+      await expect(
+        exportService.exportCarePlan(CARE_PLAN_ID, CarePlanExportFormat.PDF, CASE_MANAGER_ID, Roles.CASE_MANAGER)
+      ).rejects.toMatchObject({ code: ErrorCodes.FORBIDDEN });
+    });
+
+    it('should reject providers', async () => {
+      await expect(
+        exportService.exportCarePlan(CARE_PLAN_ID, CarePlanExportFormat.PDF, 'provider-1', Roles.PROVIDER)
+      ).rejects.toMatchObject({ code: ErrorCodes.FORBIDDEN });
+    });
+
+    it('should throw not found when the care plan does not exist', async () => {
+      (carePlanRepository.findById as jest.Mock).mockResolvedValue(null);
+
+      await expect(
+        exportService.exportCarePlan(CARE_PLAN_ID, CarePlanExportFormat.FHIR, 'admin-1', Roles.ADMINISTRATOR)
+      ).rejects.toMatchObject({ code: ErrorCodes.NOT_FOUND });
+    });
+  });
+});
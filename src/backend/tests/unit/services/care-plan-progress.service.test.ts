@@ -0,0 +1,342 @@
+import { CarePlanProgressService } from '../../../src/services/care-plan-progress.service';
+import { CarePlanRepository } from '../../../src/repositories/care-plan.repository';
+import { CarePlanProgressRepository } from '../../../src/repositories/care-plan-progress.repository';
+import { BookingRepository } from '../../../src/repositories/booking.repository';
+import { CaseManagerProfileRepository } from '../../../src/repositories/case-manager-profile.repository';
+import { invalidateCarePlanCache } from '../../../src/cache/care-plan.cache';
+import {
+  CarePlan,
+  GoalProgressEntry,
+  GoalStatus,
+  InterventionSession,
+  InterventionStatus
+} from '../../../src/types/care-plan.types';
+import { PlanStatus } from '../../../src/constants/plan-statuses';
+import { ErrorCodes } from '../../../src/constants/error-codes';
+import { Roles } from '../../../src/constants/roles';
+
+// Mock the logger module
+jest.mock('../../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+// Mock the care plan cache so no Redis connection is needed
+jest.mock('../../../src/cache/care-plan.cache', () => ({
+  invalidateCarePlanCache: jest.fn().mockResolvedValue(undefined)
+}));
+
+const CARE_PLAN_ID = 'care-plan-123';
+const GOAL_ID = 'goal-123';
+const INTERVENTION_ID = 'intervention-123';
+const CLIENT_ID = 'client-123';
+const PROVIDER_ID = 'provider-456';
+const CASE_MANAGER_ID = 'case-manager-789';
+
+// Helper function to create a mock care plan with one goal and one intervention
+const createMockCarePlan = (overrides: Partial<CarePlan> = {}): CarePlan => ({
+  id: CARE_PLAN_ID,
+  clientId: CLIENT_ID,
+  createdById: 'case-manager-000',
+  title: 'Mobility plan',
+  description: 'Improve mobility and independence',
+  status: PlanStatus.ACTIVE,
+  confidenceScore: 90,
+  version: 1,
+  previousVersionId: null,
+  approvedById: null,
+  approvedAt: null,
+  approvalNotes: null,
+  goals: [
+    {
+      id: GOAL_ID,
+      carePlanId: CARE_PLAN_ID,
+      description: 'Walk unassisted for 10 minutes',
+      targetDate: null,
+      status: GoalStatus.PENDING,
+      measures: ['Minutes walked unassisted'],
+      createdAt: new Date('2024-01-01'),
+      updatedAt: new Date('2024-01-01')
+    }
+  ],
+  interventions: [
+    {
+      id: INTERVENTION_ID,
+      carePlanId: CARE_PLAN_ID,
+      description: 'Physical therapy',
+      frequency: '2x weekly',
+      duration: '8 weeks',
+      responsibleParty: 'Physical therapist',
+      status: InterventionStatus.ACTIVE,
+      createdAt: new Date('2024-01-01'),
+      updatedAt: new Date('2024-01-01')
+    }
+  ],
+  createdAt: new Date('2024-01-01'),
+  updatedAt: new Date('2024-01-01'),
+  ...overrides
+});
+
+// Helper function to create a mock progress entry
+const createMockEntry = (value: number, recordedAt: string): GoalProgressEntry => ({
+  id: `entry-${value}`,
+  goalId: GOAL_ID,
+  carePlanId: CARE_PLAN_ID,
+  measure: null,
+  value,
+  recordedAt: new Date(recordedAt),
+  note: null,
+  recordedById: PROVIDER_ID,
+  createdAt: new Date(recordedAt)
+});
+
+// Helper function to create a mock intervention session
+const createMockSession = (attended: boolean, effectivenessRating: number | null): InterventionSession => ({
+  id: `session-${Math.random()}`,
+  interventionId: INTERVENTION_ID,
+  carePlanId: CARE_PLAN_ID,
+  sessionDate: new Date('2024-02-01'),
+  durationMinutes: 45,
+  attended,
+  effectivenessRating,
+  note: null,
+  recordedById: PROVIDER_ID,
+  createdAt: new Date('2024-02-01')
+});
+
+describe('CarePlanProgressService', () => {
+  let carePlanRepository: CarePlanRepository;
+  let progressRepository: CarePlanProgressRepository;
+  let bookingRepository: BookingRepository;
+  let caseManagerProfileRepository: CaseManagerProfileRepository;
+  let progressService: CarePlanProgressService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    carePlanRepository = {
+      findById: jest.fn().mockResolvedValue(createMockCarePlan())
+    } as unknown as CarePlanRepository;
+
+    progressRepository = {
+      createGoalProgress: jest.fn().mockImplementation(async data => ({ id: 'entry-new', createdAt: new Date(), ...data })),
+      findGoalProgress: jest.fn().mockResolvedValue([]),
+      createInterventionSession: jest.fn().mockImplementation(async data => ({ id: 'session-new', createdAt: new Date(), ...data })),
+      findInterventionSessions: jest.fn().mockResolvedValue([])
+    } as unknown as CarePlanProgressRepository;
+
+    bookingRepository = {
+      hasBookingBetween: jest.fn().mockResolvedValue(true)
+    } as unknown as BookingRepository;
+
+    caseManagerProfileRepository = {
+      findByUserId: jest.fn().mockResolvedValue({ userId: CASE_MANAGER_ID, assignedClients: [CLIENT_ID] })
+    } as unknown as CaseManagerProfileRepository;
+
+    progressService = new CarePlanProgressService(
+      carePlanRepository,
+      progressRepository,
+      bookingRepository,
+      caseManagerProfileRepository
+    );
+  });
+
+  describe('recordGoalProgress', () => {
+    it('should record progress and move a pending goal to in progress', async () => {
+      const entry = await progressService.recordGoalProgress(
+        CARE_PLAN_ID,
+        GOAL_ID,
+        { value: 4, measure: 'Minutes walked unassisted', note: 'Used a cane' },
+        PROVIDER_ID,
+        Roles.PROVIDER
+      );
+
+      expect(entry.value).toBe(4);
+      expect(progressRepository.createGoalProgress).toHaveBeenCalledWith(
+        expect.objectContaining({
+          goalId: GOAL_ID,
+          carePlanId: CARE_PLAN_ID,
+          measure: 'Minutes walked unassisted',
+          recordedById: PROVIDER_ID
+        }),
+        GoalStatus.IN_PROGRESS
+      );
+      expect(bookingRepository.hasBookingBetween).toHaveBeenCalledWith(PROVIDER_ID, CLIENT_ID);
+      expect(invalidateCarePlanCache).toHaveBeenCalledWith(CARE_PLAN_ID);
+    });
+
+    it('should apply the given goal status', async () => {
+      await progressService.recordGoalProgress(
+        CARE_PLAN_ID,
+        GOAL_ID,
+        { value: 10, goalStatus: GoalStatus.ACHIEVED },
+        CASE_MANAGER_ID,
+        Roles.CASE_MANAGER
+      );
+
+      expect(progressRepository.createGoalProgress).toHaveBeenCalledWith(expect.anything(), GoalStatus.ACHIEVED);
+    });
+
+    it('should not change the status of a goal already in progress', async () => {
+      const carePlan = createMockCarePlan();
+      carePlan.goals[0].status = GoalStatus.IN_PROGRESS;
+      (carePlanRepository.findById as jest.Mock).mockResolvedValue(carePlan);
+
+      await progressService.recordGoalProgress(CARE_PLAN_ID, GOAL_ID, { value: 6 }, PROVIDER_ID, Roles.PROVIDER);
+
+      expect(progressRepository.createGoalProgress).toHaveBeenCalledWith(expect.anything(), undefined);
+      expect(invalidateCarePlanCache).not.toHaveBeenCalled();
+    });
+
+    it('should reject measures the goal does not define', async () => {
+      await expect(
+        progressService.recordGoalProgress(CARE_PLAN_ID, GOAL_ID, { value: 1, measure: 'Weight' }, PROVIDER_ID, Roles.PROVIDER)
+      ).rejects.toMatchObject({ code: ErrorCodes.VALIDATION_ERROR });
+    });
+
+    it('should reject progress for care plans that are not approved or active', async () => {
+      (carePlanRepository.findById as jest.Mock).mockResolvedValue(createMockCarePlan({ status: PlanStatus.DRAFT }));
+
+      await expect(
+        progressService.recordGoalProgress(CARE_PLAN_ID, GOAL_ID, { value: 1 }, PROVIDER_ID, Roles.PROVIDER)
+      ).rejects.toMatchObject({ code: ErrorCodes.CONFLICT });
+      expect(progressRepository.createGoalProgress).not.toHaveBeenCalled();
+    });
+
+    it('should reject providers without a care relationship with the client', async () => {
+      (bookingRepository.hasBookingBetween as jest.Mock).mockResolvedValue(false);
+
+      await expect(
+        progressService.recordGoalProgress(CARE_PLAN_ID, GOAL_ID, { value: 1 }, PROVIDER_ID, Roles.PROVIDER)
+      ).rejects.toMatchObject({ code: ErrorCodes.FORBIDDEN });
+    });
+
+    it('should not let clients record progress', async () => {
+      await expect(
+        progressService.recordGoalProgress(CARE_PLAN_ID, GOAL_ID, { value: 1 }, CLIENT_ID, Roles.CLIENT)
+      ).rejects.toMatchObject({ code: ErrorCodes.FORBIDDEN });
+      expect(carePlanRepository.findById).not.toHaveBeenCalled();
+    });
+
+    it('should return not found for goals of other care plans', async () => {
+      await expect(
+        progressService.recordGoalProgress(CARE_PLAN_ID, 'goal-999', { value: 1 }, PROVIDER_ID, Roles.PROVIDER)
+      ).rejects.toMatchObject({ code: ErrorCodes.NOT_FOUND });
+    });
+  });
+
+  describe('getGoalProgress', () => {
+    it('should summarize the change between the first and latest entry', async () => {
+      (progressRepository.findGoalProgress as jest.Mock).mockResolvedValue([
+        createMockEntry(2, '2024-01-10'),
+        createMockEntry(5, '2024-01-20'),
+        createMockEntry(8, '2024-01-30')
+      ]);
+
+      const progress = await progressService.getGoalProgress(CARE_PLAN_ID, GOAL_ID, {}, CLIENT_ID, Roles.CLIENT);
+
+      expect(progress.goal.id).toBe(GOAL_ID);
+      expect(progress.entries).toHaveLength(3);
+      expect(progress.latestValue).toBe(8);
+      expect(progress.change).toBe(6);
+    });
+
+    it('should return empty summaries when no progress was recorded', async () => {
+      const progress = await progressService.getGoalProgress(CARE_PLAN_ID, GOAL_ID, {}, CLIENT_ID, Roles.CLIENT);
+
+      expect(progress.latestValue).toBeNull();
+      expect(progress.change).toBeNull();
+    });
+
+    it('should not let clients view the progress of other clients', async () => {
+      await expect(
+        progressService.getGoalProgress(CARE_PLAN_ID, GOAL_ID, {}, 'client-999', Roles.CLIENT)
+      ).rejects.toMatchObject({ code: ErrorCodes.FORBIDDEN });
+    });
+  });
+
+  describe('logInterventionSession', () => {
+    it('should log a session', async () => {
+      const sessionDate = new Date('2024-02-01T10:00:00Z');
+
+      const session = await progressService.logInterventionSession(
+        CARE_PLAN_ID,
+        INTERVENTION_ID,
+        { sessionDate, attended: true, durationMinutes: 45, effectivenessRating: 4 },
+        PROVIDER_ID,
+        Roles.PROVIDER
+      );
+
+      expect(session.effectivenessRating).toBe(4);
+      expect(progressRepository.createInterventionSession).toHaveBeenCalledWith(expect.objectContaining({
+        interventionId: INTERVENTION_ID,
+        carePlanId: CARE_PLAN_ID,
+        sessionDate,
+        recordedById: PROVIDER_ID
+      }));
+    });
+
+    it('should not rate missed sessions', async () => {
+      const session = await progressService.logInterventionSession(
+        CARE_PLAN_ID,
+        INTERVENTION_ID,
+        { sessionDate: new Date('2024-02-01'), attended: false, effectivenessRating: 1 },
+        PROVIDER_ID,
+        Roles.PROVIDER
+      );
+
+      expect(session.effectivenessRating).toBeNull();
+    });
+
+    it('should reject sessions for discontinued interventions', async () => {
+      const carePlan = createMockCarePlan();
+      carePlan.interventions[0].status = InterventionStatus.DISCONTINUED;
+      (carePlanRepository.findById as jest.Mock).mockResolvedValue(carePlan);
+
+      await expect(
+        progressService.logInterventionSession(
+          CARE_PLAN_ID,
+          INTERVENTION_ID,
+          { sessionDate: new Date('2024-02-01'), attended: true },
+          PROVIDER_ID,
+          Roles.PROVIDER
+        )
+      ).rejects.toMatchObject({ code: ErrorCodes.CONFLICT });
+    });
+  });
+
+  describe('getInterventionSessions', () => {
+    it('should summarize attendance and effectiveness', async () => {
+      (progressRepository.findInterventionSessions as jest.Mock).mockResolvedValue([
+        createMockSession(true, 4),
+        createMockSession(true, 2),
+        createMockSession(true, null),
+        createMockSession(false, null)
+      ]);
+
+      const result = await progressService.getInterventionSessions(
+        CARE_PLAN_ID,
+        INTERVENTION_ID,
+        {},
+        CASE_MANAGER_ID,
+        Roles.CASE_MANAGER
+      );
+
+      expect(result.sessions).toHaveLength(4);
+      expect(result.attendanceRate).toBe(75);
+      expect(result.averageEffectiveness).toBe(3);
+    });
+
+    it('should not let unassigned case managers view sessions', async () => {
+      (caseManagerProfileRepository.findByUserId as jest.Mock).mockResolvedValue({ assignedClients: [] });
+
+      await expect(
+        progressService.getInterventionSessions(CARE_PLAN_ID, INTERVENTION_ID, {}, CASE_MANAGER_ID, Roles.CASE_MANAGER)
+      ).rejects.toMatchObject({ code: ErrorCodes.FORBIDDEN });
+    });
+  });
+});
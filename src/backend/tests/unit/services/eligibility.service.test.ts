@@ -0,0 +1,259 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { EligibilityService } from '../../../src/services/eligibility.service';
+import { EligibilityCheckRepository } from '../../../src/repositories/eligibility-check.repository';
+import { ServicesPlanRepository } from '../../../src/repositories/services-plan.repository';
+import { ClientProfileRepository } from '../../../src/repositories/client-profile.repository';
+import { UserRepository } from '../../../src/repositories/user.repository';
+import { CaseManagerProfileRepository } from '../../../src/repositories/case-manager-profile.repository';
+import { FileClearinghouseAdapter } from '../../../src/integrations/clearinghouse';
+import { ClearinghouseAdapter } from '../../../src/interfaces/eligibility.interface';
+import { EligibilityCheck, EligibilityStatus } from '../../../src/types/eligibility.types';
+import { ErrorCodes } from '../../../src/constants/error-codes';
+import { Roles } from '../../../src/constants/roles';
+import { generateMockFundingSource, generateMockServicesPlan } from '../../fixtures/services-plans.fixture';
+
+// Mock the logger module
+jest.mock('../../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+const USER_ID = 'case-manager-123';
+const PLAN_ID = 'services-plan-1234-5678';
+const FUNDING_SOURCE_ID = 'funding-source-1234-5678';
+
+// Helper function to create a 271 response for the test member
+const create271 = (...benefits: string[]): string => [
+  'ISA*00*          *00*          *ZZ*CLEARINGHOUSE  *ZZ*REVOLUCARE     *240603*0900*^*00501*000000042*0*T*:~',
+  'GS*HB*CLEARINGHOUSE*REVOLUCARE*20240603*0900*42*X*005010X279A1~',
+  'ST*271*0001*005010X279A1~',
+  'NM1*PR*2*ACME HEALTH*****PI*ACME01~',
+  'NM1*IL*1*JOHNSON*SARAH****MI*W123456789~',
+  ...benefits,
+  'SE*6*0001~',
+  'GE*1*42~',
+  'IEA*1*000000042~'
+].join('\n');
+
+describe('EligibilityService', () => {
+  let service: EligibilityService;
+  let mockEligibilityCheckRepository: jest.Mocked<EligibilityCheckRepository>;
+  let mockServicesPlanRepository: jest.Mocked<ServicesPlanRepository>;
+  let mockClientProfileRepository: jest.Mocked<ClientProfileRepository>;
+  let mockUserRepository: jest.Mocked<UserRepository>;
+  let mockCaseManagerProfileRepository: jest.Mocked<CaseManagerProfileRepository>;
+  let mockClearinghouse: jest.Mocked<ClearinghouseAdapter>;
+
+  const createService = (clearinghouse: ClearinghouseAdapter): EligibilityService =>
+    new EligibilityService(
+      mockEligibilityCheckRepository,
+      mockServicesPlanRepository,
+      mockClientProfileRepository,
+      mockUserRepository,
+      mockCaseManagerProfileRepository,
+      clearinghouse
+    );
+
+  beforeEach(() => {
+    mockEligibilityCheckRepository = {
+      create: jest.fn().mockImplementation(data => Promise.resolve({
+        ...data,
+        id: 'eligibility-check-1',
+        createdAt: new Date(Date.UTC(2024, 5, 3))
+      } as EligibilityCheck)),
+      findByFundingSourceId: jest.fn()
+    } as any;
+
+    mockServicesPlanRepository = {
+      findById: jest.fn().mockResolvedValue(generateMockServicesPlan({
+        fundingSources: [generateMockFundingSource({ verificationStatus: 'pending', details: { payerId: 'ACME01' } })]
+      })),
+      updateFundingSource: jest.fn()
+    } as any;
+
+    mockClientProfileRepository = {
+      findByUserId: jest.fn().mockResolvedValue({
+        dateOfBirth: new Date('1948-02-29T00:00:00.000Z'),
+        insurance: { provider: 'Acme Health', policyNumber: 'W123456789', groupNumber: 'GRP-100', coverageDetails: {} }
+      })
+    } as any;
+
+    mockUserRepository = {
+      findById: jest.fn().mockResolvedValue({ firstName: 'Sarah', lastName: 'Johnson' })
+    } as any;
+
+    mockCaseManagerProfileRepository = {
+      findByUserId: jest.fn().mockResolvedValue({ assignedClients: [generateMockServicesPlan().clientId] })
+    } as any;
+
+    mockClearinghouse = {
+      name: 'mock',
+      submitInquiry: jest.fn()
+    };
+
+    service = createService(mockClearinghouse);
+  });
+
+  it('sends a 270 inquiry about the client\'s insurance and verifies the funding source', async () => {
+    mockClearinghouse.submitInquiry.mockResolvedValue(create271(
+      'EB*1*IND*30**GOLD PPO~',
+      'EB*B*IND*42****25*****Y~',
+      'EB*F*IND*42***29***VS*12~'
+    ));
+
+    const check = await service.verifyFundingSource(PLAN_ID, FUNDING_SOURCE_ID, USER_ID, Roles.CASE_MANAGER);
+
+    const [request, inquiry] = mockClearinghouse.submitInquiry.mock.calls[0];
+    expect(request).toContain('NM1*PR*2*ACME HEALTH*****PI*ACME01~');
+    expect(request).toContain('NM1*IL*1*JOHNSON*SARAH****MI*W123456789~');
+    expect(request).toContain('REF*6P*GRP-100~');
+    expect(request).toContain('DMG*D8*19480229~');
+    expect(inquiry).toEqual({ controlNumber: check.controlNumber, memberId: 'W123456789' });
+
+    expect(check).toMatchObject({ status: EligibilityStatus.ACTIVE, clearinghouse: 'mock', requestedById: USER_ID });
+    expect(mockServicesPlanRepository.updateFundingSource).toHaveBeenCalledWith(FUNDING_SOURCE_ID, {
+      verificationStatus: 'verified',
+      details: expect.objectContaining({
+        payerId: 'ACME01',
+        eligibility: expect.objectContaining({
+          eligibilityCheckId: 'eligibility-check-1',
+          planName: 'GOLD PPO',
+          remainingVisits: 12,
+          copays: [expect.objectContaining({ serviceTypeCodes: ['42'], amount: 25 })]
+        })
+      })
+    });
+  });
+
+  it('denies the funding source when the payer reports no active coverage', async () => {
+    mockClearinghouse.submitInquiry.mockResolvedValue(create271('EB*6**30~'));
+
+    await service.verifyFundingSource(PLAN_ID, FUNDING_SOURCE_ID, USER_ID, Roles.CASE_MANAGER);
+
+    expect(mockServicesPlanRepository.updateFundingSource).toHaveBeenCalledWith(
+      FUNDING_SOURCE_ID,
+      expect.objectContaining({ verificationStatus: 'denied' })
+    );
+  });
+
+  it('keeps the verification status when the payer rejects the inquiry', async () => {
+    mockClearinghouse.submitInquiry.mockResolvedValue(create271('AAA*N**72*C~'));
+
+    const check = await service.verifyFundingSource(PLAN_ID, FUNDING_SOURCE_ID, USER_ID, Roles.CASE_MANAGER);
+
+    expect(check.status).toBe(EligibilityStatus.ERROR);
+    expect(mockServicesPlanRepository.updateFundingSource).toHaveBeenCalledWith(
+      FUNDING_SOURCE_ID,
+      expect.objectContaining({ verificationStatus: 'pending' })
+    );
+  });
+
+  it('rejects funding sources that are not insurance', async () => {
+    mockServicesPlanRepository.findById.mockResolvedValue(generateMockServicesPlan({
+      fundingSources: [generateMockFundingSource({ type: 'private_pay' })]
+    }));
+
+    await expect(service.verifyFundingSource(PLAN_ID, FUNDING_SOURCE_ID, USER_ID, Roles.CASE_MANAGER))
+      .rejects.toMatchObject({ code: ErrorCodes.VALIDATION_ERROR });
+    expect(mockClearinghouse.submitInquiry).not.toHaveBeenCalled();
+  });
+
+  it('requires a payer ID for the client\'s insurance', async () => {
+    mockServicesPlanRepository.findById.mockResolvedValue(generateMockServicesPlan({
+      fundingSources: [generateMockFundingSource({ details: null })]
+    }));
+
+    await expect(service.verifyFundingSource(PLAN_ID, FUNDING_SOURCE_ID, USER_ID, Roles.CASE_MANAGER))
+      .rejects.toMatchObject({ code: ErrorCodes.VALIDATION_ERROR });
+  });
+
+  it('fails without recording a check when the response cannot be read', async () => {
+    mockClearinghouse.submitInquiry.mockResolvedValue('<html>Bad gateway</html>');
+
+    await expect(service.verifyFundingSource(PLAN_ID, FUNDING_SOURCE_ID, USER_ID, Roles.CASE_MANAGER))
+      .rejects.toMatchObject({ code: ErrorCodes.EXTERNAL_SERVICE_ERROR });
+    expect(mockEligibilityCheckRepository.create).not.toHaveBeenCalled();
+    expect(mockServicesPlanRepository.updateFundingSource).not.toHaveBeenCalled();
+  });
+
+  it('rejects case managers the client is not assigned to', async () => {
+    mockCaseManagerProfileRepository.findByUserId.mockResolvedValue({ assignedClients: [] } as any);
+
+    await expect(service.verifyFundingSource(PLAN_ID, FUNDING_SOURCE_ID, USER_ID, Roles.CASE_MANAGER))
+      .rejects.toMatchObject({ code: ErrorCodes.FORBIDDEN });
+    expect(mockClearinghouse.submitInquiry).not.toHaveBeenCalled();
+  });
+
+  describe('getEligibilityChecks', () => {
+    const storedCheck = {
+      id: 'eligibility-check-1',
+      servicesPlanId: PLAN_ID,
+      fundingSourceId: FUNDING_SOURCE_ID,
+      clientId: generateMockServicesPlan().clientId,
+      requestedById: USER_ID,
+      clearinghouse: 'mock',
+      controlNumber: '000000042',
+      status: EligibilityStatus.ACTIVE,
+      result: {} as any,
+      request: 'ISA*00~',
+      response: 'ISA*00~',
+      createdAt: new Date(Date.UTC(2024, 5, 3))
+    };
+
+    beforeEach(() => {
+      mockEligibilityCheckRepository.findByFundingSourceId.mockResolvedValue([storedCheck]);
+    });
+
+    it('returns the plan\'s client their checks without the X12 payloads', async () => {
+      const checks = await service.getEligibilityChecks(PLAN_ID, FUNDING_SOURCE_ID, storedCheck.clientId, Roles.CLIENT);
+
+      expect(checks).toHaveLength(1);
+      expect(checks[0]).toMatchObject({ id: 'eligibility-check-1', status: EligibilityStatus.ACTIVE });
+      expect(checks[0]).not.toHaveProperty('request');
+      expect(checks[0]).not.toHaveProperty('response');
+    });
+
+    it('rejects other clients and providers', async () => {
+      await expect(service.getEligibilityChecks(PLAN_ID, FUNDING_SOURCE_ID, 'other-client', Roles.CLIENT))
+        .rejects.toMatchObject({ code: ErrorCodes.FORBIDDEN });
+      await expect(service.getEligibilityChecks(PLAN_ID, FUNDING_SOURCE_ID, 'provider-1', Roles.PROVIDER))
+        .rejects.toMatchObject({ code: ErrorCodes.FORBIDDEN });
+      expect(mockEligibilityCheckRepository.findByFundingSourceId).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('with the local stand-in clearinghouse', () => {
+    let directory: string;
+
+    beforeEach(() => {
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), 'clearinghouse-'));
+      service = createService(new FileClearinghouseAdapter(directory));
+    });
+
+    afterEach(() => {
+      fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('writes the inquiry to the outbox and answers with the member\'s canned response', async () => {
+      fs.mkdirSync(path.join(directory, 'inbox'));
+      fs.writeFileSync(path.join(directory, 'inbox', 'W123456789.271'), create271('EB*1*IND*30**GOLD PPO~'));
+
+      const check = await service.verifyFundingSource(PLAN_ID, FUNDING_SOURCE_ID, USER_ID, Roles.CASE_MANAGER);
+
+      expect(check).toMatchObject({ status: EligibilityStatus.ACTIVE, clearinghouse: 'file' });
+      expect(fs.readFileSync(path.join(directory, 'outbox', `${check.controlNumber}.270`), 'utf8'))
+        .toBe(mockEligibilityCheckRepository.create.mock.calls[0][0].request);
+    });
+
+    it('fails when it has no response for the member', async () => {
+      await expect(service.verifyFundingSource(PLAN_ID, FUNDING_SOURCE_ID, USER_ID, Roles.CASE_MANAGER))
+        .rejects.toMatchObject({ code: ErrorCodes.EXTERNAL_SERVICE_ERROR });
+    });
+  });
+});
@@ -0,0 +1,195 @@
+import {
+  MatchEvaluationService,
+  getRelevanceGrades
+} from '../../../src/services/match-evaluation.service';
+import { MatchFeedbackRepository } from '../../../src/repositories/match-feedback.repository';
+import { MatchingProfileRepository } from '../../../src/repositories/matching-profile.repository';
+import {
+  MatchDecision,
+  MatchFactorName,
+  MatchFeedback,
+  MatchSessionWithFeedback,
+  MatchingProfile
+} from '../../../src/types/provider.types';
+import { ndcgAtK, precisionAtK } from '../../../src/utils/ranking-metrics';
+import { ServiceType } from '../../../src/constants/service-types';
+import { ErrorCodes } from '../../../src/constants/error-codes';
+
+// Mock the logger module
+jest.mock('../../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+const PROFILE_ID = '0f8c2d4e-6a1b-4c3d-8e9f-a0b1c2d3e4f5';
+
+// Helper function to create mock match feedback
+const createMockFeedback = (overrides: Partial<MatchFeedback> = {}): MatchFeedback => ({
+  id: 'feedback-1',
+  matchSessionId: 'session-1',
+  clientId: 'client-1',
+  providerId: 'provider-1',
+  rank: 1,
+  decision: MatchDecision.ACCEPTED,
+  reason: '',
+  recordedById: 'case-manager-1',
+  bookingId: null,
+  reviewId: null,
+  createdAt: new Date('2024-06-01'),
+  updatedAt: new Date('2024-06-01'),
+  ...overrides
+});
+
+// Helper function to create a recorded session where the experienced provider ranked
+// second but was the one chosen
+const createMockSession = (overrides: Partial<MatchSessionWithFeedback> = {}): MatchSessionWithFeedback => ({
+  id: 'session-1',
+  clientId: 'client-1',
+  requestedById: 'case-manager-1',
+  criteria: {
+    clientId: 'client-1',
+    serviceTypes: [ServiceType.PHYSICAL_THERAPY],
+    location: null,
+    distance: null,
+    availability: null,
+    insurance: null,
+    genderPreference: null,
+    languagePreference: null,
+    experienceLevel: null,
+    additionalPreferences: {}
+  },
+  matchingProfileId: null,
+  results: [
+    {
+      providerId: 'provider-nearby',
+      rank: 1,
+      compatibilityScore: 0.6,
+      distance: 2,
+      scoreBreakdown: [
+        { name: MatchFactorName.LOCATION_PROXIMITY, score: 1, weight: 0.7, contribution: 0.6 },
+        { name: MatchFactorName.EXPERIENCE, score: 0.2, weight: 0.5, contribution: 0.1 }
+      ]
+    },
+    {
+      providerId: 'provider-experienced',
+      rank: 2,
+      compatibilityScore: 0.5,
+      distance: 20,
+      scoreBreakdown: [
+        { name: MatchFactorName.LOCATION_PROXIMITY, score: 0.3, weight: 0.7, contribution: 0.2 },
+        { name: MatchFactorName.EXPERIENCE, score: 1, weight: 0.5, contribution: 0.4 }
+      ]
+    }
+  ],
+  createdAt: new Date('2024-06-01'),
+  feedback: [
+    createMockFeedback({ providerId: 'provider-nearby', rank: 1, decision: MatchDecision.REJECTED, reason: 'Too new' }),
+    createMockFeedback({ providerId: 'provider-experienced', rank: 2, bookingId: 'booking-1' })
+  ],
+  ...overrides
+});
+
+describe('ranking metrics', () => {
+  const relevance = new Map([['a', 1], ['c', 2]]);
+
+  it('calculates the share of relevant items in the top k', () => {
+    expect(precisionAtK(['a', 'b', 'c'], relevance, 2)).toBe(0.5);
+    expect(precisionAtK(['a', 'b', 'c'], relevance, 3)).toBeCloseTo(2 / 3, 10);
+  });
+
+  it('scores the ideal ranking at 1 and penalizes relevant items ranked lower', () => {
+    expect(ndcgAtK(['c', 'a', 'b'], relevance, 3)).toBeCloseTo(1, 10);
+    expect(ndcgAtK(['b', 'a', 'c'], relevance, 3)).toBeLessThan(1);
+  });
+
+  it('counts relevant items missing from the ranking in the ideal ranking', () => {
+    expect(ndcgAtK(['a'], new Map([['a', 1], ['z', 1]]), 2)).toBeLessThan(1);
+  });
+});
+
+describe('getRelevanceGrades', () => {
+  it('grades booked matches above accepted ones and lets the latest decision win', () => {
+    const grades = getRelevanceGrades([
+      createMockFeedback({ providerId: 'provider-1', decision: MatchDecision.ACCEPTED }),
+      createMockFeedback({ providerId: 'provider-1', decision: MatchDecision.REJECTED }),
+      createMockFeedback({ providerId: 'provider-2', decision: MatchDecision.OVERRIDDEN, bookingId: 'booking-1' })
+    ]);
+
+    expect(grades.get('provider-1')).toBe(0);
+    expect(grades.get('provider-2')).toBe(2);
+  });
+});
+
+describe('MatchEvaluationService', () => {
+  let service: MatchEvaluationService;
+  let mockFeedbackRepository: jest.Mocked<MatchFeedbackRepository>;
+  let mockProfileRepository: jest.Mocked<MatchingProfileRepository>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockFeedbackRepository = {
+      findSessionsWithFeedback: jest.fn().mockResolvedValue([createMockSession()])
+    } as unknown as jest.Mocked<MatchFeedbackRepository>;
+
+    mockProfileRepository = {
+      findById: jest.fn().mockResolvedValue({
+        id: PROFILE_ID,
+        name: 'Experience first',
+        description: '',
+        weights: { [MatchFactorName.LOCATION_PROXIMITY]: 0.1, [MatchFactorName.EXPERIENCE]: 1 },
+        filters: {},
+        serviceTypeOverrides: {},
+        isDefault: false,
+        createdById: 'admin-1',
+        createdAt: new Date('2024-01-01'),
+        updatedAt: new Date('2024-01-01')
+      } as MatchingProfile)
+    } as unknown as jest.Mocked<MatchingProfileRepository>;
+
+    service = new MatchEvaluationService(mockFeedbackRepository, mockProfileRepository);
+  });
+
+  it('scores a candidate that ranks the chosen provider first above the recorded ranking', async () => {
+    const report = await service.evaluateProfiles({ profileIds: [PROFILE_ID], k: 1 });
+
+    expect(report.sessionCount).toBe(1);
+    expect(report.baseline).toMatchObject({ profileId: null, precisionAtK: 0, ndcgAtK: 0 });
+    expect(report.candidates).toEqual([
+      { profileId: PROFILE_ID, profileName: 'Experience first', precisionAtK: 1, ndcgAtK: 1 }
+    ]);
+  });
+
+  it('skips sessions where every provider was rejected', async () => {
+    mockFeedbackRepository.findSessionsWithFeedback.mockResolvedValue([
+      createMockSession({ feedback: [createMockFeedback({ providerId: 'provider-nearby', decision: MatchDecision.REJECTED })] })
+    ]);
+
+    const report = await service.evaluateProfiles({ profileIds: [PROFILE_ID], k: 3 });
+
+    expect(report.sessionCount).toBe(0);
+    expect(report.skippedSessionCount).toBe(1);
+  });
+
+  it('passes the date range to the repository', async () => {
+    const startDate = new Date('2024-01-01');
+    const endDate = new Date('2024-06-30');
+
+    await service.evaluateProfiles({ profileIds: [PROFILE_ID], k: 5, startDate, endDate });
+
+    expect(mockFeedbackRepository.findSessionsWithFeedback).toHaveBeenCalledWith(startDate, endDate);
+  });
+
+  it('rejects unknown profiles and invalid cutoffs', async () => {
+    mockProfileRepository.findById.mockResolvedValueOnce(null);
+
+    await expect(service.evaluateProfiles({ profileIds: ['missing'], k: 5 }))
+      .rejects.toMatchObject({ code: ErrorCodes.NOT_FOUND });
+    await expect(service.evaluateProfiles({ profileIds: [PROFILE_ID], k: 0 }))
+      .rejects.toMatchObject({ code: ErrorCodes.VALIDATION_ERROR });
+  });
+});
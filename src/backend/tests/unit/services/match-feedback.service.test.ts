@@ -0,0 +1,196 @@
+import { MatchFeedbackService } from '../../../src/services/match-feedback.service';
+import { MatchFeedbackRepository } from '../../../src/repositories/match-feedback.repository';
+import {
+  MatchDecision,
+  MatchFeedback,
+  MatchSession,
+  ProviderMatch,
+  ProviderMatchingCriteria
+} from '../../../src/types/provider.types';
+import { ServiceType } from '../../../src/constants/service-types';
+import { ErrorCodes } from '../../../src/constants/error-codes';
+import { Roles } from '../../../src/constants/roles';
+
+// Mock the logger module
+jest.mock('../../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+const CLIENT_ID = 'client-123';
+const CASE_MANAGER_ID = 'case-manager-123';
+const SESSION_ID = '3a7c9e1f-5b2d-4f6a-8c0e-2d4f6a8b0c1e';
+
+// Helper function to create matching criteria
+const createCriteria = (overrides: Partial<ProviderMatchingCriteria> = {}): ProviderMatchingCriteria => ({
+  clientId: CLIENT_ID,
+  serviceTypes: [ServiceType.PHYSICAL_THERAPY],
+  location: null,
+  distance: null,
+  availability: null,
+  insurance: null,
+  genderPreference: null,
+  languagePreference: null,
+  experienceLevel: null,
+  additionalPreferences: {},
+  ...overrides
+});
+
+// Helper function to create a mock match session with two ranked providers
+const createMockSession = (overrides: Partial<MatchSession> = {}): MatchSession => ({
+  id: SESSION_ID,
+  clientId: CLIENT_ID,
+  requestedById: CASE_MANAGER_ID,
+  criteria: createCriteria(),
+  matchingProfileId: null,
+  results: [
+    { providerId: 'provider-1', rank: 1, compatibilityScore: 0.9, distance: null, scoreBreakdown: [] },
+    { providerId: 'provider-2', rank: 2, compatibilityScore: 0.7, distance: null, scoreBreakdown: [] }
+  ],
+  createdAt: new Date('2024-06-01'),
+  ...overrides
+});
+
+describe('MatchFeedbackService', () => {
+  let service: MatchFeedbackService;
+  let mockRepository: jest.Mocked<MatchFeedbackRepository>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockRepository = {
+      createSession: jest.fn().mockImplementation(async (data) => ({ ...data, id: SESSION_ID, createdAt: new Date() })),
+      findSessionById: jest.fn().mockResolvedValue(createMockSession()),
+      createFeedback: jest.fn().mockImplementation(async (data) => ({
+        ...data,
+        id: 'feedback-1',
+        bookingId: null,
+        reviewId: null,
+        createdAt: new Date(),
+        updatedAt: new Date()
+      })),
+      findFeedbackBySession: jest.fn().mockResolvedValue([]),
+      linkLatestFeedback: jest.fn().mockResolvedValue(null)
+    } as unknown as jest.Mocked<MatchFeedbackRepository>;
+
+    service = new MatchFeedbackService(mockRepository);
+  });
+
+  describe('recordSession', () => {
+    it('records each match by provider user ID in ranked order with its score breakdown', async () => {
+      const breakdown = [{ name: 'serviceMatch', score: 1, weight: 0.8, contribution: 0.9 }];
+      const matches = [
+        { provider: { userId: 'provider-1' }, compatibilityScore: 0.9, distance: 3, matchingProfile: { id: 'profile-1' }, scoreBreakdown: breakdown },
+        { provider: { userId: 'provider-2' }, compatibilityScore: 0.7, distance: null, matchingProfile: { id: 'profile-1' }, scoreBreakdown: [] }
+      ] as unknown as ProviderMatch[];
+
+      await service.recordSession(createCriteria(), matches, CASE_MANAGER_ID);
+
+      expect(mockRepository.createSession).toHaveBeenCalledWith(expect.objectContaining({
+        clientId: CLIENT_ID,
+        requestedById: CASE_MANAGER_ID,
+        matchingProfileId: 'profile-1',
+        results: [
+          { providerId: 'provider-1', rank: 1, compatibilityScore: 0.9, distance: 3, scoreBreakdown: breakdown },
+          { providerId: 'provider-2', rank: 2, compatibilityScore: 0.7, distance: null, scoreBreakdown: [] }
+        ]
+      }));
+    });
+  });
+
+  describe('recordFeedback', () => {
+    it('records an accepted match with its rank', async () => {
+      const feedback = await service.recordFeedback(
+        SESSION_ID,
+        { providerId: 'provider-2', decision: MatchDecision.ACCEPTED },
+        CLIENT_ID,
+        Roles.CLIENT
+      );
+
+      expect(feedback).toMatchObject({
+        matchSessionId: SESSION_ID,
+        clientId: CLIENT_ID,
+        providerId: 'provider-2',
+        rank: 2,
+        decision: MatchDecision.ACCEPTED,
+        reason: '',
+        recordedById: CLIENT_ID
+      });
+    });
+
+    it('requires a reason to reject a match', async () => {
+      await expect(service.recordFeedback(
+        SESSION_ID,
+        { providerId: 'provider-1', decision: MatchDecision.REJECTED, reason: '   ' },
+        CASE_MANAGER_ID,
+        Roles.CASE_MANAGER
+      )).rejects.toMatchObject({ code: ErrorCodes.VALIDATION_ERROR });
+
+      expect(mockRepository.createFeedback).not.toHaveBeenCalled();
+    });
+
+    it('records an override of a provider outside the results without a rank', async () => {
+      const feedback = await service.recordFeedback(
+        SESSION_ID,
+        { providerId: 'provider-9', decision: MatchDecision.OVERRIDDEN, reason: 'Client has worked with this provider before' },
+        CASE_MANAGER_ID,
+        Roles.CASE_MANAGER
+      );
+
+      expect(feedback).toMatchObject({ providerId: 'provider-9', rank: null, decision: MatchDecision.OVERRIDDEN });
+    });
+
+    it('requires the override:matching permission to override a match', async () => {
+      await expect(service.recordFeedback(
+        SESSION_ID,
+        { providerId: 'provider-2', decision: MatchDecision.OVERRIDDEN, reason: 'Closer to home' },
+        CLIENT_ID,
+        Roles.CLIENT
+      )).rejects.toMatchObject({ code: ErrorCodes.FORBIDDEN });
+    });
+
+    it('requires an override to record providers that were not matched', async () => {
+      await expect(service.recordFeedback(
+        SESSION_ID,
+        { providerId: 'provider-9', decision: MatchDecision.ACCEPTED },
+        CASE_MANAGER_ID,
+        Roles.CASE_MANAGER
+      )).rejects.toMatchObject({ code: ErrorCodes.VALIDATION_ERROR });
+    });
+
+    it('prevents clients from recording feedback on another client\'s matches', async () => {
+      await expect(service.recordFeedback(
+        SESSION_ID,
+        { providerId: 'provider-1', decision: MatchDecision.ACCEPTED },
+        'client-456',
+        Roles.CLIENT
+      )).rejects.toMatchObject({ code: ErrorCodes.FORBIDDEN });
+    });
+
+    it('returns not found for a missing session', async () => {
+      mockRepository.findSessionById.mockResolvedValue(null);
+
+      await expect(service.recordFeedback(
+        SESSION_ID,
+        { providerId: 'provider-1', decision: MatchDecision.ACCEPTED },
+        CASE_MANAGER_ID,
+        Roles.CASE_MANAGER
+      )).rejects.toMatchObject({ code: ErrorCodes.NOT_FOUND });
+    });
+  });
+
+  describe('linkBooking', () => {
+    it('links the booking to the latest accepted or overridden match for the client and provider', async () => {
+      mockRepository.linkLatestFeedback.mockResolvedValue({ id: 'feedback-1', bookingId: 'booking-1' } as MatchFeedback);
+
+      const feedback = await service.linkBooking('booking-1', CLIENT_ID, 'provider-1');
+
+      expect(mockRepository.linkLatestFeedback).toHaveBeenCalledWith('bookingId', 'booking-1', CLIENT_ID, 'provider-1');
+      expect(feedback?.bookingId).toBe('booking-1');
+    });
+  });
+});
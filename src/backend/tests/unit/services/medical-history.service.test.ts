@@ -0,0 +1,345 @@
+import { MedicalHistoryService } from '../../../src/services/medical-history.service';
+import { MedicalHistoryRepository } from '../../../src/repositories/medical-history.repository';
+import { ClientProfileRepository } from '../../../src/repositories/client-profile.repository';
+import { UserRepository } from '../../../src/repositories/user.repository';
+import { CaseManagerProfileRepository } from '../../../src/repositories/case-manager-profile.repository';
+import { invalidateUserCache } from '../../../src/cache/user.cache';
+import { ClientProfile, MedicalInformation } from '../../../src/types/user.types';
+import { FhirBundle, FhirPatient } from '../../../src/types/fhir.types';
+import {
+  MedicalHistoryConflict,
+  MedicalHistoryConflictResolution,
+  MedicalHistoryConflictStatus
+} from '../../../src/types/medical-history.types';
+import { ErrorCodes } from '../../../src/constants/error-codes';
+import { Roles } from '../../../src/constants/roles';
+
+// Mock the logger module
+jest.mock('../../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+// Mock the user cache so no Redis connection is needed
+jest.mock('../../../src/cache/user.cache', () => ({
+  invalidateUserCache: jest.fn().mockResolvedValue(undefined)
+}));
+
+const CLIENT_ID = 'client-123';
+const PROFILE_ID = 'profile-123';
+const CASE_MANAGER_ID = 'case-manager-789';
+const SNOMED = 'http://snomed.info/sct';
+
+// Helper function to create a mock client profile
+const createMockProfile = (medicalInformation: MedicalInformation | null, overrides: Partial<ClientProfile> = {}): ClientProfile => ({
+  id: PROFILE_ID,
+  userId: CLIENT_ID,
+  dateOfBirth: new Date('1980-04-12T00:00:00Z'),
+  gender: null,
+  address: null,
+  phone: null,
+  timezone: 'UTC',
+  emergencyContact: null,
+  medicalInformation,
+  insurance: null,
+  preferences: null,
+  createdAt: new Date('2024-01-01'),
+  updatedAt: new Date('2024-01-01'),
+  ...overrides
+});
+
+// Helper function to create a bundle for the client with the given clinical resources
+const createBundle = (resources: Record<string, any>[], patient: Record<string, any> = {}): FhirBundle => ({
+  resourceType: 'Bundle',
+  id: 'bundle-1',
+  type: 'collection',
+  entry: [
+    {
+      fullUrl: 'urn:uuid:patient-1',
+      resource: {
+        resourceType: 'Patient',
+        id: 'p1',
+        name: [{ use: 'official', family: 'Doe', given: ['Jane'] }],
+        gender: 'female',
+        birthDate: '1980-04-12',
+        ...patient
+      } as FhirPatient
+    },
+    ...resources.map(resource => ({ resource: resource as any }))
+  ]
+});
+
+const condition = (id: string, code: string, display: string, clinicalStatus = 'active'): Record<string, any> => ({
+  resourceType: 'Condition',
+  id,
+  clinicalStatus: { coding: [{ code: clinicalStatus }] },
+  code: { coding: [{ system: SNOMED, code, display }] },
+  subject: { reference: 'Patient/p1' }
+});
+
+describe('MedicalHistoryService', () => {
+  let medicalHistoryRepository: MedicalHistoryRepository;
+  let clientProfileRepository: ClientProfileRepository;
+  let userRepository: UserRepository;
+  let caseManagerProfileRepository: CaseManagerProfileRepository;
+  let medicalHistoryService: MedicalHistoryService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    medicalHistoryRepository = {
+      saveImport: jest.fn().mockImplementation(async (_profileId, _update, data, conflicts) => ({
+        import: { ...data, createdAt: new Date() },
+        conflicts: conflicts.map((conflict: any, index: number) => ({
+          ...conflict,
+          id: `conflict-${index}`,
+          importId: data.id,
+          status: MedicalHistoryConflictStatus.PENDING
+        }))
+      })),
+      findConflicts: jest.fn().mockResolvedValue([]),
+      findConflictById: jest.fn(),
+      resolveConflict: jest.fn().mockImplementation(async (id, resolution) => ({ id, clientId: CLIENT_ID, ...resolution }))
+    } as unknown as MedicalHistoryRepository;
+
+    clientProfileRepository = {
+      findByUserId: jest.fn().mockResolvedValue(createMockProfile({
+        conditions: ['Type 2 diabetes'],
+        allergies: [],
+        medications: [],
+        notes: ''
+      }))
+    } as unknown as ClientProfileRepository;
+
+    userRepository = {
+      findById: jest.fn().mockResolvedValue({ id: CLIENT_ID, role: Roles.CLIENT, firstName: 'Jane', lastName: 'Doe' })
+    } as unknown as UserRepository;
+
+    caseManagerProfileRepository = {
+      findByUserId: jest.fn().mockResolvedValue({ userId: CASE_MANAGER_ID, assignedClients: [CLIENT_ID] })
+    } as unknown as CaseManagerProfileRepository;
+
+    medicalHistoryService = new MedicalHistoryService(
+      medicalHistoryRepository,
+      clientProfileRepository,
+      userRepository,
+      caseManagerProfileRepository
+    );
+  });
+
+  describe('importMedicalHistory', () => {
+    it('should add new conditions, allergies and medications with provenance', async () => {
+      const bundle = createBundle([
+        condition('c1', '38341003', 'Hypertension'),
+        {
+          resourceType: 'AllergyIntolerance',
+          id: 'a1',
+          criticality: 'high',
+          code: { text: 'Penicillin' },
+          patient: { reference: 'urn:uuid:patient-1' }
+        },
+        {
+          resourceType: 'MedicationStatement',
+          id: 'm1',
+          status: 'active',
+          medicationCodeableConcept: { text: 'Lisinopril 10 mg' },
+          subject: { reference: 'Patient/p1' },
+          dosage: [{ text: 'Once daily' }]
+        }
+      ]);
+
+      const result = await medicalHistoryService.importMedicalHistory(CLIENT_ID, bundle, CASE_MANAGER_ID, Roles.CASE_MANAGER);
+
+      expect(result.medicalInformation.conditions).toEqual(['Type 2 diabetes', 'Hypertension']);
+      expect(result.medicalInformation.allergies).toEqual(['Penicillin']);
+      expect(result.medicalInformation.medications).toEqual(['Lisinopril 10 mg']);
+      expect(result.medicalInformation.records).toContainEqual(expect.objectContaining({
+        category: 'allergy',
+        display: 'Penicillin',
+        detail: 'high',
+        source: expect.objectContaining({
+          system: 'fhir',
+          reference: 'AllergyIntolerance/a1',
+          importId: result.import.id,
+          recordedById: CASE_MANAGER_ID
+        })
+      }));
+      expect(result.import).toMatchObject({ clientId: CLIENT_ID, bundleId: 'bundle-1', addedCount: 3, conflictCount: 0 });
+      expect(result.conflicts).toEqual([]);
+      expect(medicalHistoryRepository.saveImport).toHaveBeenCalledWith(
+        PROFILE_ID,
+        expect.objectContaining({ gender: 'female', medicalInformation: result.medicalInformation }),
+        expect.any(Object),
+        []
+      );
+      expect(invalidateUserCache).toHaveBeenCalledWith(CLIENT_ID);
+    });
+
+    it('should keep entries the profile already lists and record the import as their provenance', async () => {
+      const bundle = createBundle([condition('c1', '44054006', 'type 2 diabetes')]);
+
+      const result = await medicalHistoryService.importMedicalHistory(CLIENT_ID, bundle, CASE_MANAGER_ID, Roles.CASE_MANAGER);
+
+      expect(result.medicalInformation.conditions).toEqual(['Type 2 diabetes']);
+      expect(result.medicalInformation.records).toHaveLength(1);
+      expect(result.import).toMatchObject({ addedCount: 0, unchangedCount: 1 });
+    });
+
+    it('should raise a conflict instead of removing a current entry the bundle marks as resolved', async () => {
+      const bundle = createBundle([condition('c1', '44054006', 'Type 2 diabetes', 'resolved')]);
+
+      const result = await medicalHistoryService.importMedicalHistory(CLIENT_ID, bundle, CASE_MANAGER_ID, Roles.CASE_MANAGER);
+
+      expect(result.medicalInformation.conditions).toEqual(['Type 2 diabetes']);
+      expect(result.conflicts).toEqual([
+        expect.objectContaining({
+          clientId: CLIENT_ID,
+          category: 'condition',
+          field: 'status',
+          existingValue: 'active',
+          importedValue: 'resolved',
+          status: MedicalHistoryConflictStatus.PENDING
+        })
+      ]);
+    });
+
+    it('should raise conflicts for differing demographics', async () => {
+      const bundle = createBundle([condition('c1', '38341003', 'Hypertension')], {
+        name: [{ family: 'Smith', given: ['John'] }],
+        birthDate: '1975-01-01'
+      });
+
+      const result = await medicalHistoryService.importMedicalHistory(CLIENT_ID, bundle, CASE_MANAGER_ID, Roles.CASE_MANAGER);
+
+      expect(result.conflicts.map(conflict => conflict.field)).toEqual(['dateOfBirth', 'name']);
+      expect(result.conflicts[0]).toMatchObject({ existingValue: '1980-04-12', importedValue: '1975-01-01' });
+    });
+
+    it('should skip resources about other patients, entered in error or of unsupported types', async () => {
+      const bundle = createBundle([
+        { ...condition('c1', '38341003', 'Hypertension'), subject: { reference: 'Patient/other' } },
+        { ...condition('c2', '195967001', 'Asthma'), verificationStatus: { coding: [{ code: 'entered-in-error' }] } },
+        { resourceType: 'Observation', id: 'o1' }
+      ]);
+
+      const result = await medicalHistoryService.importMedicalHistory(CLIENT_ID, bundle, CASE_MANAGER_ID, Roles.CASE_MANAGER);
+
+      expect(result.skipped.map(skipped => skipped.reference)).toEqual(['Condition/c1', 'Condition/c2', 'Observation/o1']);
+      expect(result.medicalInformation.conditions).toEqual(['Type 2 diabetes']);
+    });
+
+    it('should reject bundles without importable resources', async () => {
+      const bundle: FhirBundle = { resourceType: 'Bundle', type: 'collection', entry: [{ resource: { resourceType: 'Observation' } }] };
+
+      await expect(
+        medicalHistoryService.importMedicalHistory(CLIENT_ID, bundle, CASE_MANAGER_ID, Roles.CASE_MANAGER)
+      ).rejects.toMatchObject({ code: ErrorCodes.VALIDATION_ERROR });
+    });
+
+    it('should reject case managers the client is not assigned to', async () => {
+      (caseManagerProfileRepository.findByUserId as jest.Mock).mockResolvedValue({ userId: CASE_MANAGER_ID, assignedClients: [] });
+
+      await expect(
+        medicalHistoryService.importMedicalHistory(CLIENT_ID, createBundle([]), CASE_MANAGER_ID, Roles.CASE_MANAGER)
+      ).rejects.toMatchObject({ code: ErrorCodes.FORBIDDEN });
+      expect(medicalHistoryRepository.saveImport).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resolveConflict', () => {
+    const createConflict = (overrides: Partial<MedicalHistoryConflict> = {}): MedicalHistoryConflict => ({
+      id: 'conflict-1',
+      importId: 'import-1',
+      clientId: CLIENT_ID,
+      category: 'condition',
+      field: 'status',
+      description: 'Condition/c1 lists Type 2 diabetes as resolved but the profile lists it as current',
+      existingValue: 'active',
+      importedValue: 'resolved',
+      record: {
+        category: 'condition',
+        display: 'Type 2 diabetes',
+        code: '44054006',
+        codeSystem: SNOMED,
+        status: 'resolved',
+        active: false,
+        onsetDate: null,
+        detail: null,
+        source: { system: 'fhir', reference: 'Condition/c1', importId: 'import-1', recordedById: CASE_MANAGER_ID, recordedAt: new Date() }
+      },
+      status: MedicalHistoryConflictStatus.PENDING,
+      resolvedById: null,
+      resolvedAt: null,
+      resolutionNote: null,
+      createdAt: new Date(),
+      ...overrides
+    });
+
+    it('should apply the imported status when the imported value is accepted', async () => {
+      (medicalHistoryRepository.findConflictById as jest.Mock).mockResolvedValue(createConflict());
+
+      const resolved = await medicalHistoryService.resolveConflict(
+        CLIENT_ID,
+        'conflict-1',
+        { resolution: MedicalHistoryConflictResolution.ACCEPT_IMPORTED },
+        CASE_MANAGER_ID,
+        Roles.CASE_MANAGER
+      );
+
+      expect(resolved.status).toBe(MedicalHistoryConflictStatus.ACCEPTED);
+      const profileUpdate = (medicalHistoryRepository.resolveConflict as jest.Mock).mock.calls[0][3];
+      expect(profileUpdate.medicalInformation.conditions).toEqual([]);
+      expect(profileUpdate.medicalInformation.records).toEqual([expect.objectContaining({ display: 'Type 2 diabetes', active: false })]);
+    });
+
+    it('should leave the profile unchanged when the existing value is kept', async () => {
+      (medicalHistoryRepository.findConflictById as jest.Mock).mockResolvedValue(createConflict());
+
+      const resolved = await medicalHistoryService.resolveConflict(
+        CLIENT_ID,
+        'conflict-1',
+        { resolution: MedicalHistoryConflictResolution.KEEP_EXISTING, note: 'Still being treated' },
+        CASE_MANAGER_ID,
+        Roles.CASE_MANAGER
+      );
+
+      expect(resolved).toMatchObject({ status: MedicalHistoryConflictStatus.REJECTED, resolutionNote: 'Still being treated' });
+      expect((medicalHistoryRepository.resolveConflict as jest.Mock).mock.calls[0][3]).toBeUndefined();
+      expect(invalidateUserCache).not.toHaveBeenCalled();
+    });
+
+    it('should reject conflicts that were already resolved', async () => {
+      (medicalHistoryRepository.findConflictById as jest.Mock).mockResolvedValue(
+        createConflict({ status: MedicalHistoryConflictStatus.REJECTED })
+      );
+
+      await expect(
+        medicalHistoryService.resolveConflict(
+          CLIENT_ID,
+          'conflict-1',
+          { resolution: MedicalHistoryConflictResolution.ACCEPT_IMPORTED },
+          CASE_MANAGER_ID,
+          Roles.CASE_MANAGER
+        )
+      ).rejects.toMatchObject({ code: ErrorCodes.CONFLICT });
+    });
+
+    it('should not resolve conflicts of another client', async () => {
+      (medicalHistoryRepository.findConflictById as jest.Mock).mockResolvedValue(createConflict({ clientId: 'client-999' }));
+
+      await expect(
+        medicalHistoryService.resolveConflict(
+          CLIENT_ID,
+          'conflict-1',
+          { resolution: MedicalHistoryConflictResolution.ACCEPT_IMPORTED },
+          CASE_MANAGER_ID,
+          Roles.CASE_MANAGER
+        )
+      ).rejects.toMatchObject({ code: ErrorCodes.NOT_FOUND });
+    });
+  });
+});
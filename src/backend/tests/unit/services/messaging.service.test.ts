@@ -0,0 +1,313 @@
+import { MessagingService, MESSAGE_EVENTS } from '../../../src/services/messaging.service';
+import { MessageRepository } from '../../../src/repositories/message.repository';
+import { BookingRepository } from '../../../src/repositories/booking.repository';
+import { CaseManagerProfileRepository } from '../../../src/repositories/case-manager-profile.repository';
+import { UserRepository } from '../../../src/repositories/user.repository';
+import { NotificationService } from '../../../src/services/notifications.service';
+import { BlobStorageService } from '../../../src/services/storage/blob-storage.service';
+import { Conversation, ConversationParticipant, Message } from '../../../src/models/message.model';
+import { Roles } from '../../../src/constants/roles';
+import { ErrorCodes } from '../../../src/constants/error-codes';
+import { NOTIFICATION_TYPES } from '../../../src/constants/notification-types';
+
+// Mock the service modules that are replaced by test doubles
+jest.mock('../../../src/services/notifications.service', () => ({ NotificationService: jest.fn() }));
+jest.mock('../../../src/services/email/email.service', () => ({ EmailService: jest.fn() }));
+jest.mock('../../../src/services/storage/blob-storage.service', () => ({ BlobStorageService: jest.fn() }));
+
+// Mock file name sanitization, which pulls in ESM-only file type detection
+jest.mock('../../../src/utils/file-processor', () => ({
+  sanitizeFileName: jest.fn((fileName: string) => fileName.replace(/[^\w.-]/g, '_'))
+}));
+
+// Mock the logger module
+jest.mock('../../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+const CLIENT_ID = 'client-123';
+const PROVIDER_ID = 'provider-456';
+const CASE_MANAGER_ID = 'case-manager-789';
+const CONVERSATION_ID = 'conversation-123';
+
+// Helper function to create a mock conversation for testing
+const createMockConversation = (overrides: Partial<Conversation> = {}): Conversation => ({
+  id: CONVERSATION_ID,
+  clientId: CLIENT_ID,
+  subject: 'Therapy schedule',
+  createdById: CASE_MANAGER_ID,
+  lastMessageAt: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides
+});
+
+// Helper function to create a mock participant for testing
+const createParticipant = (userId: string, role: Roles): ConversationParticipant => ({
+  conversationId: CONVERSATION_ID,
+  userId,
+  role,
+  joinedAt: new Date()
+});
+
+// Helper function to create a mock message for testing
+const createMockMessage = (overrides: Partial<Message> = {}): Message => ({
+  id: 'message-123',
+  conversationId: CONVERSATION_ID,
+  senderId: CASE_MANAGER_ID,
+  body: 'Hello',
+  attachments: [],
+  receipts: [],
+  createdAt: new Date(),
+  ...overrides
+});
+
+describe('MessagingService', () => {
+  let messageRepository: MessageRepository;
+  let bookingRepository: BookingRepository;
+  let caseManagerProfileRepository: CaseManagerProfileRepository;
+  let userRepository: UserRepository;
+  let notificationService: NotificationService;
+  let storageService: BlobStorageService;
+  let messagingService: MessagingService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    messageRepository = {
+      createConversation: jest.fn().mockResolvedValue(createMockConversation()),
+      findConversationById: jest.fn().mockResolvedValue(createMockConversation()),
+      findParticipants: jest.fn().mockResolvedValue([
+        createParticipant(CASE_MANAGER_ID, Roles.CASE_MANAGER),
+        createParticipant(CLIENT_ID, Roles.CLIENT)
+      ]),
+      findConversationsForUser: jest.fn(),
+      createMessage: jest.fn().mockImplementation(async data => createMockMessage({
+        senderId: data.senderId,
+        body: data.body,
+        attachments: data.attachments.map((attachment: any, index: number) => ({
+          id: `attachment-${index}`,
+          messageId: 'message-123',
+          createdAt: new Date(),
+          ...attachment
+        }))
+      })),
+      findMessages: jest.fn().mockResolvedValue([]),
+      findAttachment: jest.fn(),
+      markAsRead: jest.fn().mockResolvedValue(['message-123']),
+      countUnread: jest.fn().mockResolvedValue(0)
+    } as unknown as MessageRepository;
+
+    bookingRepository = {
+      hasBookingBetween: jest.fn().mockResolvedValue(false)
+    } as unknown as BookingRepository;
+
+    caseManagerProfileRepository = {
+      findByUserId: jest.fn().mockResolvedValue({ userId: CASE_MANAGER_ID, assignedClients: [CLIENT_ID] })
+    } as unknown as CaseManagerProfileRepository;
+
+    userRepository = {
+      findById: jest.fn().mockImplementation(async (id: string) => ({
+        id,
+        role: id === PROVIDER_ID ? Roles.PROVIDER : id === CLIENT_ID ? Roles.CLIENT : Roles.CASE_MANAGER
+      }))
+    } as unknown as UserRepository;
+
+    notificationService = {
+      createNotification: jest.fn().mockImplementation(async data => ({ id: `notification-${data.userId}`, ...data })),
+      sendNotification: jest.fn().mockResolvedValue([])
+    } as unknown as NotificationService;
+
+    storageService = {
+      uploadFile: jest.fn().mockResolvedValue({ storageUrl: 'other-documents/client-123/report.pdf' }),
+      generateSignedUrl: jest.fn().mockResolvedValue('https://storage.example.com/signed')
+    } as unknown as BlobStorageService;
+
+    messagingService = new MessagingService(
+      messageRepository,
+      bookingRepository,
+      caseManagerProfileRepository,
+      userRepository,
+      notificationService,
+      storageService
+    );
+  });
+
+  describe('createConversation', () => {
+    it('should create a conversation between a case manager and an assigned client', async () => {
+      const listener = jest.fn();
+      messagingService.on(MESSAGE_EVENTS.CONVERSATION_CREATED, listener);
+
+      const result = await messagingService.createConversation(
+        { clientId: CLIENT_ID, participantIds: [], subject: 'Therapy schedule', body: null },
+        CASE_MANAGER_ID,
+        Roles.CASE_MANAGER
+      );
+
+      expect(messageRepository.createConversation).toHaveBeenCalledWith(
+        { clientId: CLIENT_ID, subject: 'Therapy schedule', createdById: CASE_MANAGER_ID },
+        [
+          { userId: CASE_MANAGER_ID, role: Roles.CASE_MANAGER },
+          { userId: CLIENT_ID, role: Roles.CLIENT }
+        ]
+      );
+      expect(result.lastMessage).toBeNull();
+      expect(listener).toHaveBeenCalledWith(expect.objectContaining({ participantIds: [CASE_MANAGER_ID, CLIENT_ID] }));
+    });
+
+    it('should reject a case manager the client is not assigned to', async () => {
+      (caseManagerProfileRepository.findByUserId as jest.Mock).mockResolvedValue({ assignedClients: ['other-client'] });
+
+      await expect(messagingService.createConversation(
+        { clientId: CLIENT_ID, participantIds: [], subject: null, body: null },
+        CASE_MANAGER_ID,
+        Roles.CASE_MANAGER
+      )).rejects.toMatchObject({ code: ErrorCodes.FORBIDDEN });
+
+      expect(messageRepository.createConversation).not.toHaveBeenCalled();
+    });
+
+    it('should reject a provider participant the client has never booked', async () => {
+      await expect(messagingService.createConversation(
+        { clientId: CLIENT_ID, participantIds: [PROVIDER_ID], subject: null, body: null },
+        CLIENT_ID,
+        Roles.CLIENT
+      )).rejects.toMatchObject({ code: ErrorCodes.FORBIDDEN });
+
+      expect(bookingRepository.hasBookingBetween).toHaveBeenCalledWith(PROVIDER_ID, CLIENT_ID);
+    });
+
+    it('should allow a provider the client has booked', async () => {
+      (bookingRepository.hasBookingBetween as jest.Mock).mockResolvedValue(true);
+
+      await messagingService.createConversation(
+        { clientId: CLIENT_ID, participantIds: [], subject: null, body: null },
+        PROVIDER_ID,
+        Roles.PROVIDER
+      );
+
+      expect(messageRepository.createConversation).toHaveBeenCalled();
+    });
+
+    it('should not let clients start conversations about other clients', async () => {
+      await expect(messagingService.createConversation(
+        { clientId: 'other-client', participantIds: [CASE_MANAGER_ID], subject: null, body: null },
+        CLIENT_ID,
+        Roles.CLIENT
+      )).rejects.toMatchObject({ code: ErrorCodes.FORBIDDEN });
+    });
+  });
+
+  describe('sendMessage', () => {
+    it('should store attachments, deliver the message and notify other participants', async () => {
+      const listener = jest.fn();
+      messagingService.on(MESSAGE_EVENTS.MESSAGE_SENT, listener);
+
+      const message = await messagingService.sendMessage(
+        CONVERSATION_ID,
+        {
+          body: ' See attached ',
+          attachments: [{ fileName: 'lab report.pdf', mimeType: 'application/pdf', size: 4, buffer: Buffer.from('test') }]
+        },
+        CASE_MANAGER_ID,
+        Roles.CASE_MANAGER
+      );
+
+      expect(storageService.uploadFile).toHaveBeenCalledWith(
+        expect.any(Buffer), CLIENT_ID, expect.any(String), 'other', 'application/pdf'
+      );
+      expect(message.body).toBe('See attached');
+      expect(message.attachments[0].storageUrl).toBe('other-documents/client-123/report.pdf');
+      expect(listener).toHaveBeenCalledWith({ message, participantIds: [CASE_MANAGER_ID, CLIENT_ID] });
+
+      expect(notificationService.createNotification).toHaveBeenCalledTimes(1);
+      expect(notificationService.createNotification).toHaveBeenCalledWith(expect.objectContaining({
+        userId: CLIENT_ID,
+        type: NOTIFICATION_TYPES.MESSAGE_RECEIVED,
+        data: { conversationId: CONVERSATION_ID, messageId: message.id, senderId: CASE_MANAGER_ID }
+      }));
+      expect((notificationService.createNotification as jest.Mock).mock.calls[0][0].message).not.toContain('See attached');
+      expect(notificationService.sendNotification).toHaveBeenCalledWith(expect.objectContaining({ id: `notification-${CLIENT_ID}` }));
+    });
+
+    it('should reject users who are not participants', async () => {
+      (bookingRepository.hasBookingBetween as jest.Mock).mockResolvedValue(true);
+
+      await expect(
+        messagingService.sendMessage(CONVERSATION_ID, { body: 'Hello' }, PROVIDER_ID, Roles.PROVIDER)
+      ).rejects.toMatchObject({ code: ErrorCodes.FORBIDDEN });
+
+      expect(messageRepository.createMessage).not.toHaveBeenCalled();
+    });
+
+    it('should reject participants whose care relationship has ended', async () => {
+      (caseManagerProfileRepository.findByUserId as jest.Mock).mockResolvedValue({ assignedClients: [] });
+
+      await expect(
+        messagingService.sendMessage(CONVERSATION_ID, { body: 'Hello' }, CASE_MANAGER_ID, Roles.CASE_MANAGER)
+      ).rejects.toMatchObject({ code: ErrorCodes.FORBIDDEN });
+    });
+
+    it('should reject empty messages', async () => {
+      await expect(
+        messagingService.sendMessage(CONVERSATION_ID, { body: '   ' }, CASE_MANAGER_ID, Roles.CASE_MANAGER)
+      ).rejects.toMatchObject({ code: ErrorCodes.VALIDATION_ERROR });
+    });
+
+    it('should still send the message when notification delivery fails', async () => {
+      (notificationService.sendNotification as jest.Mock).mockRejectedValue(new Error('SMTP unavailable'));
+
+      await expect(
+        messagingService.sendMessage(CONVERSATION_ID, { body: 'Hello' }, CASE_MANAGER_ID, Roles.CASE_MANAGER)
+      ).resolves.toMatchObject({ body: 'Hello' });
+    });
+  });
+
+  describe('markAsRead', () => {
+    it('should record receipts and broadcast them to participants', async () => {
+      const listener = jest.fn();
+      messagingService.on(MESSAGE_EVENTS.MESSAGES_READ, listener);
+
+      const result = await messagingService.markAsRead(CONVERSATION_ID, CLIENT_ID, Roles.CLIENT);
+
+      expect(messageRepository.markAsRead).toHaveBeenCalledWith(CONVERSATION_ID, CLIENT_ID, expect.any(Date));
+      expect(result.messageIds).toEqual(['message-123']);
+      expect(listener).toHaveBeenCalledWith(expect.objectContaining({
+        userId: CLIENT_ID,
+        messageIds: ['message-123'],
+        participantIds: [CASE_MANAGER_ID, CLIENT_ID]
+      }));
+    });
+  });
+
+  describe('getAttachmentUrl', () => {
+    it('should return a short-lived signed URL for an attachment in the conversation', async () => {
+      (messageRepository.findAttachment as jest.Mock).mockResolvedValue({
+        id: 'attachment-1',
+        storageUrl: 'other-documents/client-123/report.pdf',
+        mimeType: 'application/pdf'
+      });
+
+      const url = await messagingService.getAttachmentUrl(CONVERSATION_ID, 'attachment-1', CLIENT_ID, Roles.CLIENT);
+
+      expect(url).toBe('https://storage.example.com/signed');
+      expect(storageService.generateSignedUrl).toHaveBeenCalledWith(
+        'other-documents/client-123/report.pdf',
+        expect.objectContaining({ expiresIn: 300 })
+      );
+    });
+
+    it('should return not found for attachments outside the conversation', async () => {
+      (messageRepository.findAttachment as jest.Mock).mockResolvedValue(null);
+
+      await expect(
+        messagingService.getAttachmentUrl(CONVERSATION_ID, 'attachment-1', CLIENT_ID, Roles.CLIENT)
+      ).rejects.toMatchObject({ code: ErrorCodes.NOT_FOUND });
+    });
+  });
+});
@@ -0,0 +1,350 @@
+import { PaymentProcessingService } from '../../../src/services/payment/payment-processing.service';
+import { stripeService } from '../../../src/integrations/stripe';
+import { ServicesPlanRepository } from '../../../src/repositories/services-plan.repository';
+import { WebhookEventRepository } from '../../../src/repositories/webhook-event.repository';
+import { BookingRepository } from '../../../src/repositories/booking.repository';
+import { CaseManagerProfileRepository } from '../../../src/repositories/case-manager-profile.repository';
+import { NotificationService } from '../../../src/services/notifications.service';
+import { ServicesPlan, ServiceItem } from '../../../src/types/services-plan.types';
+import { BookingStatus } from '../../../src/models/booking.model';
+import { PaymentStatus } from '../../../src/constants/payment-statuses';
+import { PlanStatus } from '../../../src/constants/plan-statuses';
+import { ServiceType } from '../../../src/constants/service-types';
+import { Roles } from '../../../src/constants/roles';
+import { ErrorCodes } from '../../../src/constants/error-codes';
+import { NOTIFICATION_TYPES } from '../../../src/constants/notification-types';
+
+// Mock the Stripe integration so no requests leave the test
+jest.mock('../../../src/integrations/stripe', () => ({
+  stripeService: {
+    createPaymentIntent: jest.fn(),
+    retrievePaymentIntent: jest.fn(),
+    cancelPaymentIntent: jest.fn(),
+    createRefund: jest.fn(),
+    constructWebhookEvent: jest.fn()
+  }
+}));
+
+// Mock the service modules that are replaced by test doubles
+jest.mock('../../../src/services/notifications.service', () => ({ NotificationService: jest.fn() }));
+jest.mock('../../../src/services/email/email.service', () => ({ EmailService: jest.fn() }));
+
+// Mock the logger module
+jest.mock('../../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+const CLIENT_ID = 'client-123';
+const CASE_MANAGER_ID = 'case-manager-789';
+const PLAN_ID = 'services-plan-123';
+const PAYMENT_INTENT_ID = 'pi_123';
+
+// Helper function to create a mock service item for testing
+const createMockServiceItem = (overrides: Partial<ServiceItem> = {}): ServiceItem => ({
+  id: 'service-item-1',
+  servicesPlanId: PLAN_ID,
+  serviceType: ServiceType.PHYSICAL_THERAPY,
+  providerId: 'provider-456',
+  description: 'Physical therapy',
+  frequency: '2x weekly',
+  duration: '8 weeks',
+  estimatedCost: 120,
+  status: 'scheduled',
+  paymentStatus: PaymentStatus.UNPAID,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides
+});
+
+// Helper function to create a mock services plan for testing
+const createMockServicesPlan = (serviceItems: ServiceItem[]): ServicesPlan => ({
+  id: PLAN_ID,
+  clientId: CLIENT_ID,
+  carePlanId: null,
+  createdById: CASE_MANAGER_ID,
+  title: 'Rehabilitation services',
+  description: 'Services following hip surgery',
+  needsAssessmentId: 'assessment-123',
+  status: PlanStatus.ACTIVE,
+  estimatedCost: 0,
+  approvedById: null,
+  approvedAt: null,
+  serviceItems,
+  fundingSources: [],
+  createdAt: new Date(),
+  updatedAt: new Date()
+});
+
+// Helper function to create a mock Stripe payment intent for testing
+const createMockPaymentIntent = (overrides: Record<string, any> = {}): any => ({
+  id: PAYMENT_INTENT_ID,
+  amount: 12000,
+  status: 'succeeded',
+  client_secret: 'pi_123_secret',
+  metadata: {
+    services_plan_id: PLAN_ID,
+    client_id: CLIENT_ID,
+    service_item_ids: '["service-item-1"]'
+  },
+  ...overrides
+});
+
+// Helper function to create a mock Stripe event for testing
+const createMockEvent = (type: string, object: any): any => ({
+  id: 'evt_123',
+  type,
+  data: { object }
+});
+
+describe('PaymentProcessingService', () => {
+  let servicesPlanRepository: ServicesPlanRepository;
+  let webhookEventRepository: WebhookEventRepository;
+  let notificationService: NotificationService;
+  let bookingRepository: BookingRepository;
+  let caseManagerProfileRepository: CaseManagerProfileRepository;
+  let paymentService: PaymentProcessingService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    servicesPlanRepository = {
+      findById: jest.fn().mockResolvedValue(createMockServicesPlan([createMockServiceItem()])),
+      findServiceItemById: jest.fn().mockResolvedValue(createMockServiceItem()),
+      updateServiceItemPaymentStatus: jest.fn().mockResolvedValue(1)
+    } as unknown as ServicesPlanRepository;
+
+    webhookEventRepository = {
+      claim: jest.fn().mockResolvedValue(true),
+      markProcessed: jest.fn().mockResolvedValue(undefined),
+      release: jest.fn().mockResolvedValue(undefined)
+    } as unknown as WebhookEventRepository;
+
+    notificationService = {
+      createNotification: jest.fn().mockResolvedValue({ id: 'notification-123' }),
+      sendNotification: jest.fn().mockResolvedValue(true)
+    } as unknown as NotificationService;
+
+    bookingRepository = {
+      findById: jest.fn()
+    } as unknown as BookingRepository;
+
+    caseManagerProfileRepository = {
+      findByUserId: jest.fn().mockResolvedValue({ userId: CASE_MANAGER_ID, assignedClients: [CLIENT_ID] })
+    } as unknown as CaseManagerProfileRepository;
+
+    (stripeService.createPaymentIntent as jest.Mock).mockResolvedValue(createMockPaymentIntent({ status: 'requires_payment_method' }));
+    (stripeService.retrievePaymentIntent as jest.Mock).mockResolvedValue(createMockPaymentIntent());
+
+    paymentService = new PaymentProcessingService(
+      servicesPlanRepository,
+      webhookEventRepository,
+      notificationService,
+      bookingRepository,
+      caseManagerProfileRepository
+    );
+  });
+
+  describe('createServiceItemsPaymentIntent', () => {
+    it('creates a payment intent for the client\'s service items and marks them pending', async () => {
+      const result = await paymentService.createServiceItemsPaymentIntent(
+        { servicesPlanId: PLAN_ID, serviceItemIds: ['service-item-1'] },
+        CLIENT_ID,
+        Roles.CLIENT
+      );
+
+      expect(result).toEqual({ clientSecret: 'pi_123_secret', paymentIntentId: PAYMENT_INTENT_ID, amount: 12000 });
+      expect(stripeService.createPaymentIntent).toHaveBeenCalledWith(
+        12000,
+        'usd',
+        expect.objectContaining({ services_plan_id: PLAN_ID, client_id: CLIENT_ID, service_item_ids: '["service-item-1"]' }),
+        undefined
+      );
+      expect(servicesPlanRepository.updateServiceItemPaymentStatus).toHaveBeenCalledWith(
+        PLAN_ID,
+        ['service-item-1'],
+        PaymentStatus.PENDING
+      );
+    });
+
+    it('charges only the items awaiting payment when no items are specified', async () => {
+      (servicesPlanRepository.findById as jest.Mock).mockResolvedValue(createMockServicesPlan([
+        createMockServiceItem(),
+        createMockServiceItem({ id: 'service-item-2', paymentStatus: PaymentStatus.PAID }),
+        createMockServiceItem({ id: 'service-item-3', estimatedCost: 30.5, paymentStatus: PaymentStatus.PAYMENT_FAILED })
+      ]));
+
+      const result = await paymentService.createServiceItemsPaymentIntent({ servicesPlanId: PLAN_ID }, CLIENT_ID, Roles.CLIENT);
+
+      expect(result.amount).toBe(15050);
+      expect(servicesPlanRepository.updateServiceItemPaymentStatus).toHaveBeenCalledWith(
+        PLAN_ID,
+        ['service-item-1', 'service-item-3'],
+        PaymentStatus.PENDING
+      );
+    });
+
+    it('rejects service items that are already paid', async () => {
+      (servicesPlanRepository.findById as jest.Mock).mockResolvedValue(
+        createMockServicesPlan([createMockServiceItem({ paymentStatus: PaymentStatus.PAID })])
+      );
+
+      await expect(paymentService.createServiceItemsPaymentIntent(
+        { servicesPlanId: PLAN_ID, serviceItemIds: ['service-item-1'] },
+        CLIENT_ID,
+        Roles.CLIENT
+      )).rejects.toMatchObject({ code: ErrorCodes.VALIDATION_ERROR });
+
+      expect(stripeService.createPaymentIntent).not.toHaveBeenCalled();
+    });
+
+    it('rejects users without a care relationship with the client', async () => {
+      await expect(paymentService.createServiceItemsPaymentIntent(
+        { servicesPlanId: PLAN_ID },
+        'other-client',
+        Roles.CLIENT
+      )).rejects.toMatchObject({ code: ErrorCodes.FORBIDDEN });
+
+      expect(stripeService.createPaymentIntent).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('createBookingPaymentIntent', () => {
+    it('charges the booking\'s service item and records the booking in the metadata', async () => {
+      (bookingRepository.findById as jest.Mock).mockResolvedValue({
+        id: 'booking-123',
+        clientId: CLIENT_ID,
+        serviceItemId: 'service-item-1',
+        status: BookingStatus.SCHEDULED
+      });
+
+      await paymentService.createBookingPaymentIntent('booking-123', CASE_MANAGER_ID, Roles.CASE_MANAGER);
+
+      expect(stripeService.createPaymentIntent).toHaveBeenCalledWith(
+        12000,
+        'usd',
+        expect.objectContaining({ booking_id: 'booking-123', service_item_ids: '["service-item-1"]' }),
+        undefined
+      );
+    });
+
+    it('rejects bookings that are not linked to a service item', async () => {
+      (bookingRepository.findById as jest.Mock).mockResolvedValue({
+        id: 'booking-123',
+        clientId: CLIENT_ID,
+        serviceItemId: null,
+        status: BookingStatus.SCHEDULED
+      });
+
+      await expect(paymentService.createBookingPaymentIntent('booking-123', CLIENT_ID, Roles.CLIENT))
+        .rejects.toMatchObject({ code: ErrorCodes.VALIDATION_ERROR });
+    });
+  });
+
+  describe('assertPaymentAccess', () => {
+    it('allows case managers assigned to the paying client', async () => {
+      await expect(paymentService.assertPaymentAccess(PAYMENT_INTENT_ID, CASE_MANAGER_ID, Roles.CASE_MANAGER))
+        .resolves.toBeUndefined();
+    });
+
+    it('hides payment intents that were not created for a services plan', async () => {
+      (stripeService.retrievePaymentIntent as jest.Mock).mockResolvedValue(createMockPaymentIntent({ metadata: {} }));
+
+      await expect(paymentService.assertPaymentAccess(PAYMENT_INTENT_ID, CLIENT_ID, Roles.CLIENT))
+        .rejects.toMatchObject({ code: ErrorCodes.NOT_FOUND });
+    });
+  });
+
+  describe('processPayment', () => {
+    it('marks the service items as paid and notifies the client', async () => {
+      const result = await paymentService.processPayment(PAYMENT_INTENT_ID);
+
+      expect(result).toEqual({ success: true, servicesPlanId: PLAN_ID, status: PaymentStatus.PAID });
+      expect(servicesPlanRepository.updateServiceItemPaymentStatus).toHaveBeenCalledWith(
+        PLAN_ID,
+        ['service-item-1'],
+        PaymentStatus.PAID
+      );
+      expect(notificationService.createNotification).toHaveBeenCalledWith(expect.objectContaining({
+        userId: CLIENT_ID,
+        type: NOTIFICATION_TYPES.PAYMENT_PROCESSED
+      }));
+    });
+
+    it('does not notify again when the payment was already recorded', async () => {
+      (servicesPlanRepository.updateServiceItemPaymentStatus as jest.Mock).mockResolvedValue(0);
+
+      await paymentService.processPayment(PAYMENT_INTENT_ID);
+
+      expect(notificationService.createNotification).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('handleWebhook', () => {
+    it('processes succeeded payments once and marks the event processed', async () => {
+      (stripeService.constructWebhookEvent as jest.Mock).mockResolvedValue(
+        createMockEvent('payment_intent.succeeded', createMockPaymentIntent())
+      );
+
+      const payload = Buffer.from('{}');
+      const result = await paymentService.handleWebhook(payload, 'signature');
+
+      expect(stripeService.constructWebhookEvent).toHaveBeenCalledWith(payload, 'signature');
+      expect(webhookEventRepository.claim).toHaveBeenCalledWith('stripe', 'evt_123', 'payment_intent.succeeded');
+      expect(servicesPlanRepository.updateServiceItemPaymentStatus).toHaveBeenCalledWith(
+        PLAN_ID,
+        ['service-item-1'],
+        PaymentStatus.PAID
+      );
+      expect(webhookEventRepository.markProcessed).toHaveBeenCalledWith('stripe', 'evt_123');
+      expect(result).toMatchObject({ success: true, event: 'payment_intent.succeeded' });
+    });
+
+    it('skips events that were already processed', async () => {
+      (stripeService.constructWebhookEvent as jest.Mock).mockResolvedValue(
+        createMockEvent('payment_intent.succeeded', createMockPaymentIntent())
+      );
+      (webhookEventRepository.claim as jest.Mock).mockResolvedValue(false);
+
+      const result = await paymentService.handleWebhook('{}', 'signature');
+
+      expect(result.duplicate).toBe(true);
+      expect(stripeService.retrievePaymentIntent).not.toHaveBeenCalled();
+      expect(servicesPlanRepository.updateServiceItemPaymentStatus).not.toHaveBeenCalled();
+    });
+
+    it('marks failed payments and notifies the client', async () => {
+      (stripeService.constructWebhookEvent as jest.Mock).mockResolvedValue(
+        createMockEvent('payment_intent.payment_failed', createMockPaymentIntent({ status: 'requires_payment_method' }))
+      );
+
+      await paymentService.handleWebhook('{}', 'signature');
+
+      expect(servicesPlanRepository.updateServiceItemPaymentStatus).toHaveBeenCalledWith(
+        PLAN_ID,
+        ['service-item-1'],
+        PaymentStatus.PAYMENT_FAILED
+      );
+      expect(notificationService.createNotification).toHaveBeenCalledWith(expect.objectContaining({
+        userId: CLIENT_ID,
+        type: NOTIFICATION_TYPES.PAYMENT_FAILED
+      }));
+    });
+
+    it('releases the event when processing fails so a retry is processed', async () => {
+      (stripeService.constructWebhookEvent as jest.Mock).mockResolvedValue(
+        createMockEvent('payment_intent.succeeded', createMockPaymentIntent())
+      );
+      (servicesPlanRepository.updateServiceItemPaymentStatus as jest.Mock).mockRejectedValue(new Error('Database unavailable'));
+
+      await expect(paymentService.handleWebhook('{}', 'signature')).rejects.toThrow('Database unavailable');
+
+      expect(webhookEventRepository.release).toHaveBeenCalledWith('stripe', 'evt_123');
+      expect(webhookEventRepository.markProcessed).not.toHaveBeenCalled();
+    });
+  });
+});
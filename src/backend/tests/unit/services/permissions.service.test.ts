@@ -0,0 +1,155 @@
+import { PermissionService, getRolePermissions } from '../../../src/services/permissions.service';
+import { AdminProfileRepository } from '../../../src/repositories/admin-profile.repository';
+import { Roles, RolePermissions, NonInheritedPermissions } from '../../../src/constants/roles';
+
+// Mock the logger module
+jest.mock('../../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+const ADMIN_ID = 'admin-123';
+const CASE_MANAGER_ID = 'case-manager-456';
+
+// Permission that no role holds by default and can only be granted to administrators
+const GRANTED_PERMISSION = 'manage:billing';
+
+describe('getRolePermissions', () => {
+  it('should include the default permissions of every authenticated user', () => {
+    expect(getRolePermissions(Roles.CLIENT)).toEqual(expect.arrayContaining([
+      'view:own-profile',
+      'edit:own-profile',
+      'view:own-documents'
+    ]));
+  });
+
+  it('should include permissions inherited through the role hierarchy', () => {
+    const permissions = getRolePermissions(Roles.CASE_MANAGER);
+
+    expect(permissions).toEqual(expect.arrayContaining([
+      'edit:care-plans',
+      'update:service-status',
+      'view:own-care-plans'
+    ]));
+    expect(permissions).not.toContain('delete:records');
+  });
+
+  it('should not grant permissions of roles higher in the hierarchy', () => {
+    const permissions = getRolePermissions(Roles.CLIENT);
+
+    expect(permissions).toContain('view:own-care-plans');
+    expect(permissions).not.toContain('edit:care-plans');
+    expect(permissions).not.toContain('manage:availability');
+  });
+
+  it('should give administrators every inheritable role permission without duplicates', () => {
+    const permissions = getRolePermissions(Roles.ADMINISTRATOR);
+
+    Object.values(RolePermissions).flat()
+      .filter(permission => !NonInheritedPermissions.includes(permission))
+      .forEach(permission => {
+        expect(permissions).toContain(permission);
+      });
+    expect(new Set(permissions).size).toBe(permissions.length);
+  });
+
+  it('should not pass non-inherited permissions up the role hierarchy', () => {
+    expect(getRolePermissions(Roles.PROVIDER)).not.toContain('make:payments');
+    expect(getRolePermissions(Roles.PROVIDER)).not.toContain('schedule:appointments');
+    expect(getRolePermissions(Roles.PROVIDER)).toContain('reschedule:appointments');
+    expect(getRolePermissions(Roles.ADMINISTRATOR)).not.toContain('upload:own-documents');
+    expect(getRolePermissions(Roles.CASE_MANAGER)).not.toContain('rate:providers');
+
+    expect(getRolePermissions(Roles.CLIENT)).toEqual(expect.arrayContaining(['make:payments', 'schedule:appointments']));
+    expect(getRolePermissions(Roles.CASE_MANAGER)).toEqual(expect.arrayContaining(['make:payments', 'upload:own-documents']));
+    expect(getRolePermissions(Roles.ADMINISTRATOR)).toEqual(expect.arrayContaining(['make:payments', 'schedule:appointments']));
+  });
+});
+
+describe('PermissionService', () => {
+  let adminProfileRepository: AdminProfileRepository;
+  let permissionService: PermissionService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    adminProfileRepository = {
+      findByUserId: jest.fn().mockResolvedValue({
+        id: 'profile-123',
+        userId: ADMIN_ID,
+        permissions: [GRANTED_PERMISSION]
+      })
+    } as unknown as AdminProfileRepository;
+
+    permissionService = new PermissionService(adminProfileRepository);
+  });
+
+  describe('getEffectivePermissions', () => {
+    it('should add permissions granted on the admin profile', async () => {
+      const permissions = await permissionService.getEffectivePermissions(ADMIN_ID, Roles.ADMINISTRATOR);
+
+      expect(permissions).toContain(GRANTED_PERMISSION);
+      expect(permissions).toContain('view:audit-logs');
+      expect(adminProfileRepository.findByUserId).toHaveBeenCalledWith(ADMIN_ID);
+    });
+
+    it('should fall back to role permissions when the admin has no profile', async () => {
+      (adminProfileRepository.findByUserId as jest.Mock).mockResolvedValue(null);
+
+      const permissions = await permissionService.getEffectivePermissions(ADMIN_ID, Roles.ADMINISTRATOR);
+
+      expect(permissions).toEqual(getRolePermissions(Roles.ADMINISTRATOR));
+    });
+
+    it('should not look up grants for other roles', async () => {
+      const permissions = await permissionService.getEffectivePermissions(CASE_MANAGER_ID, Roles.CASE_MANAGER);
+
+      expect(permissions).toEqual(getRolePermissions(Roles.CASE_MANAGER));
+      expect(adminProfileRepository.findByUserId).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('hasPermissions', () => {
+    it('should allow permissions held by the role without loading the admin profile', async () => {
+      await expect(
+        permissionService.hasPermissions(ADMIN_ID, Roles.ADMINISTRATOR, ['edit:care-plans', 'view:audit-logs'])
+      ).resolves.toBe(true);
+      expect(adminProfileRepository.findByUserId).not.toHaveBeenCalled();
+    });
+
+    it('should allow permissions granted to an administrator', async () => {
+      await expect(
+        permissionService.hasPermissions(ADMIN_ID, Roles.ADMINISTRATOR, [GRANTED_PERMISSION])
+      ).resolves.toBe(true);
+    });
+
+    it('should deny an administrator permissions that were not granted', async () => {
+      (adminProfileRepository.findByUserId as jest.Mock).mockResolvedValue({
+        id: 'profile-123',
+        userId: ADMIN_ID,
+        permissions: []
+      });
+
+      await expect(
+        permissionService.hasPermissions(ADMIN_ID, Roles.ADMINISTRATOR, [GRANTED_PERMISSION])
+      ).resolves.toBe(false);
+    });
+
+    it('should require every permission', async () => {
+      await expect(
+        permissionService.hasPermissions(CASE_MANAGER_ID, Roles.CASE_MANAGER, ['edit:care-plans', 'delete:records'])
+      ).resolves.toBe(false);
+    });
+
+    it('should never grant extra permissions to non-administrators', async () => {
+      await expect(
+        permissionService.hasPermissions(CASE_MANAGER_ID, Roles.CASE_MANAGER, [GRANTED_PERMISSION])
+      ).resolves.toBe(false);
+      expect(adminProfileRepository.findByUserId).not.toHaveBeenCalled();
+    });
+  });
+});
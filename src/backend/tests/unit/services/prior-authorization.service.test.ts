@@ -0,0 +1,325 @@
+import {
+  PriorAuthorizationService,
+  allocateAuthorizedUnits,
+  summarizePriorAuthorization
+} from '../../../src/services/prior-authorization.service';
+import { PriorAuthorizationRepository } from '../../../src/repositories/prior-authorization.repository';
+import { ServicesPlanRepository } from '../../../src/repositories/services-plan.repository';
+import { BookingRepository } from '../../../src/repositories/booking.repository';
+import { DocumentRepository } from '../../../src/repositories/document.repository';
+import { CaseManagerProfileRepository } from '../../../src/repositories/case-manager-profile.repository';
+import { NotificationService } from '../../../src/services/notifications.service';
+import { IAuditService } from '../../../src/interfaces/audit.interface';
+import {
+  PriorAuthorization,
+  PriorAuthorizationAlert,
+  PriorAuthorizationStatus
+} from '../../../src/types/prior-authorization.types';
+import { NOTIFICATION_TYPES } from '../../../src/constants/notification-types';
+import { ErrorCodes } from '../../../src/constants/error-codes';
+import { generateMockServicesPlan } from '../../fixtures/services-plans.fixture';
+
+// Mock the logger module
+jest.mock('../../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+const USER_ID = 'case-manager-123';
+const PLAN_ID = 'services-plan-1234-5678';
+const SERVICE_ITEM_ID = 'service-item-1234-5678';
+const FUNDING_SOURCE_ID = 'funding-source-1234-5678';
+
+// Helper function to get the ISO date a number of days from today
+const isoDaysFromToday = (days: number): string =>
+  new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+// Helper function to create a mock prior authorization for testing
+const createMockAuthorization = (overrides: Partial<PriorAuthorization> = {}): PriorAuthorization => ({
+  id: 'prior-auth-1',
+  servicesPlanId: PLAN_ID,
+  serviceItemId: SERVICE_ITEM_ID,
+  fundingSourceId: FUNDING_SOURCE_ID,
+  createdById: USER_ID,
+  authNumber: 'PA-1001',
+  approvedUnits: 10,
+  startDate: isoDaysFromToday(-30),
+  endDate: isoDaysFromToday(60),
+  status: PriorAuthorizationStatus.APPROVED,
+  documentIds: [],
+  notes: null,
+  lowUnitsAlertedAt: null,
+  expiryAlertedAt: null,
+  createdAt: new Date('2024-01-01T00:00:00.000Z'),
+  updatedAt: new Date('2024-01-01T00:00:00.000Z'),
+  ...overrides
+});
+
+describe('summarizePriorAuthorization', () => {
+  const today = '2024-06-01';
+
+  it('alerts when few units remain or the authorization ends soon', () => {
+    const summary = summarizePriorAuthorization(
+      createMockAuthorization({ startDate: '2024-01-01', endDate: '2024-06-10' }),
+      8,
+      today
+    );
+
+    expect(summary).toMatchObject({ usedUnits: 8, remainingUnits: 2, daysUntilExpiry: 9 });
+    expect(summary.alerts).toEqual([PriorAuthorizationAlert.LOW_UNITS, PriorAuthorizationAlert.EXPIRING]);
+  });
+
+  it('does not alert on authorizations that are not approved or have ended', () => {
+    const pending = summarizePriorAuthorization(
+      createMockAuthorization({ status: PriorAuthorizationStatus.PENDING, endDate: '2024-06-10' }),
+      10,
+      today
+    );
+    const ended = summarizePriorAuthorization(createMockAuthorization({ endDate: '2024-05-31' }), 10, today);
+
+    expect(pending.alerts).toEqual([]);
+    expect(ended).toMatchObject({ remainingUnits: 0, daysUntilExpiry: -1, alerts: [] });
+  });
+});
+
+describe('allocateAuthorizedUnits', () => {
+  const authorizations = [
+    { id: 'first', authNumber: 'PA-1', startDate: '2024-01-01', endDate: '2024-03-31', remainingUnits: 1 },
+    { id: 'second', authNumber: 'PA-2', startDate: '2024-03-01', endDate: '2024-06-30', remainingUnits: 1 }
+  ];
+
+  it('draws on the authorization ending soonest first', () => {
+    expect(allocateAuthorizedUnits(authorizations, ['2024-03-15', '2024-03-20'])).toEqual([]);
+  });
+
+  it('reports units beyond the authorized units and dates no authorization covers', () => {
+    const shortfalls = allocateAuthorizedUnits(authorizations, ['2024-02-01', '2024-02-08', '2024-07-01']);
+
+    expect(shortfalls).toEqual([
+      { priorAuthorizationId: 'first', authNumber: 'PA-1', requestedUnits: 1, remainingUnits: 1 },
+      { priorAuthorizationId: null, authNumber: null, requestedUnits: 1, remainingUnits: 0 }
+    ]);
+  });
+});
+
+describe('PriorAuthorizationService', () => {
+  let service: PriorAuthorizationService;
+  let mockPriorAuthorizationRepository: jest.Mocked<PriorAuthorizationRepository>;
+  let mockServicesPlanRepository: jest.Mocked<ServicesPlanRepository>;
+  let mockBookingRepository: jest.Mocked<BookingRepository>;
+  let mockDocumentRepository: jest.Mocked<DocumentRepository>;
+  let mockCaseManagerProfileRepository: jest.Mocked<CaseManagerProfileRepository>;
+  let mockNotificationService: jest.Mocked<NotificationService>;
+  let mockAuditService: jest.Mocked<IAuditService>;
+
+  beforeEach(() => {
+    mockPriorAuthorizationRepository = {
+      create: jest.fn().mockImplementation(data => Promise.resolve(createMockAuthorization(data))),
+      findById: jest.fn().mockResolvedValue(createMockAuthorization()),
+      findByServicesPlanId: jest.fn(),
+      findByServiceItemId: jest.fn().mockResolvedValue([]),
+      findApprovedCurrent: jest.fn().mockResolvedValue([]),
+      update: jest.fn().mockImplementation((id, data) => Promise.resolve(createMockAuthorization({ ...data, id }))),
+      markAlerted: jest.fn()
+    } as any;
+
+    mockServicesPlanRepository = {
+      findById: jest.fn().mockResolvedValue(generateMockServicesPlan()),
+      findServiceItemById: jest.fn().mockResolvedValue({ id: SERVICE_ITEM_ID, servicesPlanId: PLAN_ID })
+    } as any;
+
+    mockBookingRepository = {
+      countUnitsBookedBetween: jest.fn().mockResolvedValue(0)
+    } as any;
+
+    mockDocumentRepository = {
+      findById: jest.fn().mockResolvedValue({ id: 'document-1' })
+    } as any;
+
+    mockCaseManagerProfileRepository = {
+      findByAssignedClient: jest.fn().mockResolvedValue([{ userId: USER_ID }])
+    } as any;
+
+    mockNotificationService = {
+      createNotification: jest.fn().mockImplementation(data => Promise.resolve({ ...data, id: 'notification-1' })),
+      sendNotification: jest.fn()
+    } as any;
+
+    mockAuditService = {
+      record: jest.fn()
+    } as any;
+
+    service = new PriorAuthorizationService(
+      mockPriorAuthorizationRepository,
+      mockServicesPlanRepository,
+      mockBookingRepository,
+      mockDocumentRepository,
+      mockCaseManagerProfileRepository,
+      mockNotificationService,
+      mockAuditService
+    );
+  });
+
+  describe('createPriorAuthorization', () => {
+    const data = {
+      serviceItemId: SERVICE_ITEM_ID,
+      fundingSourceId: FUNDING_SOURCE_ID,
+      authNumber: 'PA-1001',
+      approvedUnits: 24,
+      startDate: '2024-01-01',
+      endDate: '2024-06-30',
+      documentIds: ['document-1']
+    };
+
+    it('records a pending authorization for a service item of the plan', async () => {
+      const authorization = await service.createPriorAuthorization(PLAN_ID, data, USER_ID);
+
+      expect(mockPriorAuthorizationRepository.create).toHaveBeenCalledWith(expect.objectContaining({
+        servicesPlanId: PLAN_ID,
+        serviceItemId: SERVICE_ITEM_ID,
+        status: PriorAuthorizationStatus.PENDING,
+        documentIds: ['document-1'],
+        notes: null,
+        createdById: USER_ID
+      }));
+      expect(authorization).toMatchObject({ usedUnits: 0, remainingUnits: 24 });
+    });
+
+    it('rejects service items of other plans', async () => {
+      await expect(
+        service.createPriorAuthorization(PLAN_ID, { ...data, serviceItemId: 'service-item-other' }, USER_ID)
+      ).rejects.toMatchObject({ code: ErrorCodes.VALIDATION_ERROR });
+
+      expect(mockPriorAuthorizationRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('rejects documents that do not exist', async () => {
+      mockDocumentRepository.findById.mockResolvedValue(null);
+
+      await expect(
+        service.createPriorAuthorization(PLAN_ID, data, USER_ID)
+      ).rejects.toMatchObject({ code: ErrorCodes.VALIDATION_ERROR, details: { documentIds: ['document-1'] } });
+    });
+  });
+
+  describe('updatePriorAuthorization', () => {
+    it('clears the low units alert when the approved units change', async () => {
+      const alertedAt = new Date('2024-05-01T00:00:00.000Z');
+      mockPriorAuthorizationRepository.findById.mockResolvedValue(
+        createMockAuthorization({ lowUnitsAlertedAt: alertedAt, expiryAlertedAt: alertedAt })
+      );
+
+      await service.updatePriorAuthorization(PLAN_ID, 'prior-auth-1', { approvedUnits: 20 });
+
+      expect(mockPriorAuthorizationRepository.update).toHaveBeenCalledWith('prior-auth-1', expect.objectContaining({
+        approvedUnits: 20,
+        lowUnitsAlertedAt: null,
+        expiryAlertedAt: alertedAt
+      }));
+    });
+
+    it('rejects authorizations of other plans', async () => {
+      mockPriorAuthorizationRepository.findById.mockResolvedValue(createMockAuthorization({ servicesPlanId: 'other-plan' }));
+
+      await expect(
+        service.updatePriorAuthorization(PLAN_ID, 'prior-auth-1', { status: PriorAuthorizationStatus.APPROVED })
+      ).rejects.toMatchObject({ code: ErrorCodes.NOT_FOUND });
+    });
+  });
+
+  describe('checkAuthorizedUnits', () => {
+    it('does not require authorization for service items without any', async () => {
+      const check = await service.checkAuthorizedUnits(SERVICE_ITEM_ID, [new Date()]);
+
+      expect(check).toEqual({ required: false, authorized: true, shortfalls: [] });
+    });
+
+    it('reports bookings beyond the remaining units', async () => {
+      mockPriorAuthorizationRepository.findByServiceItemId.mockResolvedValue([createMockAuthorization()]);
+      mockBookingRepository.countUnitsBookedBetween.mockResolvedValue(9);
+
+      const check = await service.checkAuthorizedUnits(SERVICE_ITEM_ID, [new Date(), new Date()], ['booking-1']);
+
+      expect(mockBookingRepository.countUnitsBookedBetween).toHaveBeenCalledWith(
+        SERVICE_ITEM_ID,
+        expect.any(Date),
+        expect.any(Date),
+        ['booking-1']
+      );
+      expect(check).toEqual({
+        required: true,
+        authorized: false,
+        shortfalls: [{ priorAuthorizationId: 'prior-auth-1', authNumber: 'PA-1001', requestedUnits: 1, remainingUnits: 1 }]
+      });
+    });
+
+    it('does not count units of authorizations that are not approved', async () => {
+      mockPriorAuthorizationRepository.findByServiceItemId.mockResolvedValue([
+        createMockAuthorization({ status: PriorAuthorizationStatus.PENDING })
+      ]);
+
+      const check = await service.checkAuthorizedUnits(SERVICE_ITEM_ID, [new Date()]);
+
+      expect(check.authorized).toBe(false);
+      expect(check.shortfalls[0]).toMatchObject({ priorAuthorizationId: null, requestedUnits: 1 });
+    });
+  });
+
+  describe('recordOverride', () => {
+    it('records the reason and shortfalls in the audit trail', async () => {
+      const check = {
+        required: true,
+        authorized: false,
+        shortfalls: [{ priorAuthorizationId: 'prior-auth-1', authNumber: 'PA-1001', requestedUnits: 1, remainingUnits: 0 }]
+      };
+
+      await service.recordOverride(SERVICE_ITEM_ID, check, 'Renewal approved by phone', USER_ID, 'case_manager');
+
+      expect(mockAuditService.record).toHaveBeenCalledWith(expect.objectContaining({
+        actorId: USER_ID,
+        resourceId: PLAN_ID,
+        metadata: {
+          priorAuthorizationOverride: { serviceItemId: SERVICE_ITEM_ID, reason: 'Renewal approved by phone', shortfalls: check.shortfalls }
+        }
+      }));
+    });
+  });
+
+  describe('sendAlerts', () => {
+    it('alerts case managers once to authorizations low on units', async () => {
+      mockPriorAuthorizationRepository.findApprovedCurrent.mockResolvedValue([
+        createMockAuthorization(),
+        createMockAuthorization({ id: 'prior-auth-2', lowUnitsAlertedAt: new Date() })
+      ]);
+      mockBookingRepository.countUnitsBookedBetween.mockResolvedValue(9);
+
+      const alerted = await service.sendAlerts();
+
+      expect(alerted).toBe(1);
+      expect(mockNotificationService.createNotification).toHaveBeenCalledTimes(1);
+      expect(mockNotificationService.createNotification).toHaveBeenCalledWith(expect.objectContaining({
+        userId: USER_ID,
+        type: NOTIFICATION_TYPES.PRIOR_AUTHORIZATION_LOW_UNITS,
+        data: expect.objectContaining({ priorAuthorizationId: 'prior-auth-1', remainingUnits: 1 })
+      }));
+      expect(mockPriorAuthorizationRepository.markAlerted).toHaveBeenCalledWith('prior-auth-1', { lowUnitsAlertedAt: expect.any(Date) });
+    });
+
+    it('alerts case managers to authorizations that end soon', async () => {
+      mockPriorAuthorizationRepository.findApprovedCurrent.mockResolvedValue([
+        createMockAuthorization({ endDate: isoDaysFromToday(7) })
+      ]);
+
+      await service.sendAlerts();
+
+      expect(mockNotificationService.createNotification).toHaveBeenCalledWith(expect.objectContaining({
+        type: NOTIFICATION_TYPES.PRIOR_AUTHORIZATION_EXPIRING
+      }));
+      expect(mockPriorAuthorizationRepository.markAlerted).toHaveBeenCalledWith('prior-auth-1', { expiryAlertedAt: expect.any(Date) });
+    });
+  });
+});
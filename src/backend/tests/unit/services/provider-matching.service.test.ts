@@ -0,0 +1,243 @@
+import { ProviderMatchingService, DEFAULT_MATCH_FACTOR_WEIGHTS } from '../../../src/services/ai/provider-matching.service';
+import { ProviderProfileRepository } from '../../../src/repositories/provider-profile.repository';
+import { ProviderAvailabilityRepository } from '../../../src/repositories/provider-availability.repository';
+import { ClientProfileRepository } from '../../../src/repositories/client-profile.repository';
+import { MatchingProfileRepository } from '../../../src/repositories/matching-profile.repository';
+import { OpenAIService } from '../../../src/integrations/openai';
+import {
+  MatchFactorName,
+  MatchingProfile,
+  ProviderMatchingCriteria,
+  ProviderProfile
+} from '../../../src/types/provider.types';
+import { ClientProfile } from '../../../src/types/user.types';
+import { ServiceType } from '../../../src/constants/service-types';
+import { ErrorCodes } from '../../../src/constants/error-codes';
+
+// Mock the logger module
+jest.mock('../../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+const CLIENT_ID = '6c1a3b7e-2f4d-4e8a-9b0c-1d2e3f4a5b6c';
+const PROFILE_ID = '0f8c2d4e-6a1b-4c3d-8e9f-a0b1c2d3e4f5';
+
+// Helper function to create a mock provider profile
+const createMockProvider = (overrides: Partial<ProviderProfile> = {}): ProviderProfile => ({
+  id: 'provider-profile-1',
+  userId: 'provider-1',
+  organizationName: 'Bright Steps Therapy',
+  licenseNumber: null,
+  licenseExpiration: null,
+  serviceTypes: [ServiceType.PHYSICAL_THERAPY],
+  bio: null,
+  specializations: ['pediatrics'],
+  insuranceAccepted: ['medicaid'],
+  address: null,
+  phone: null,
+  timezone: 'UTC',
+  averageRating: 4.5,
+  reviewCount: 40,
+  createdAt: new Date('2024-01-01'),
+  updatedAt: new Date('2024-01-01'),
+  ...overrides
+});
+
+// Helper function to create a mock matching profile
+const createMockMatchingProfile = (overrides: Partial<MatchingProfile> = {}): MatchingProfile => ({
+  id: PROFILE_ID,
+  name: 'Pediatric therapy',
+  description: '',
+  weights: { [MatchFactorName.SPECIALIZATION_MATCH]: 1 },
+  filters: {},
+  serviceTypeOverrides: {},
+  isDefault: false,
+  createdById: 'admin-1',
+  createdAt: new Date('2024-01-01'),
+  updatedAt: new Date('2024-01-01'),
+  ...overrides
+});
+
+// Helper function to create matching criteria
+const createCriteria = (overrides: Partial<ProviderMatchingCriteria> = {}): ProviderMatchingCriteria => ({
+  clientId: CLIENT_ID,
+  serviceTypes: [ServiceType.PHYSICAL_THERAPY],
+  location: null,
+  distance: null,
+  availability: null,
+  insurance: null,
+  genderPreference: null,
+  languagePreference: null,
+  experienceLevel: null,
+  additionalPreferences: {},
+  ...overrides
+});
+
+describe('ProviderMatchingService', () => {
+  let service: ProviderMatchingService;
+  let mockProviderRepository: jest.Mocked<ProviderProfileRepository>;
+  let mockClientRepository: jest.Mocked<ClientProfileRepository>;
+  let mockMatchingProfileRepository: jest.Mocked<MatchingProfileRepository>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockProviderRepository = {
+      findProvidersWithServiceType: jest.fn().mockResolvedValue([createMockProvider()])
+    } as unknown as jest.Mocked<ProviderProfileRepository>;
+
+    mockClientRepository = {
+      findByUserId: jest.fn().mockResolvedValue({
+        userId: CLIENT_ID,
+        medicalInformation: { conditions: ['pediatrics'], allergies: [], medications: [], notes: '' }
+      } as unknown as ClientProfile)
+    } as unknown as jest.Mocked<ClientProfileRepository>;
+
+    mockMatchingProfileRepository = {
+      findById: jest.fn().mockResolvedValue(null),
+      findDefault: jest.fn().mockResolvedValue(null)
+    } as unknown as jest.Mocked<MatchingProfileRepository>;
+
+    service = new ProviderMatchingService(
+      mockProviderRepository,
+      {} as ProviderAvailabilityRepository,
+      mockClientRepository,
+      {} as OpenAIService,
+      mockMatchingProfileRepository
+    );
+  });
+
+  describe('resolveMatchingProfile', () => {
+    it('uses the built-in weights when no profile is requested or set as default', async () => {
+      const profile = await service.resolveMatchingProfile(createCriteria());
+
+      expect(profile).toEqual({
+        id: null,
+        name: 'Built-in defaults',
+        serviceType: null,
+        weights: DEFAULT_MATCH_FACTOR_WEIGHTS,
+        filters: {}
+      });
+    });
+
+    it('falls back to the default profile when none is requested', async () => {
+      mockMatchingProfileRepository.findDefault.mockResolvedValue(createMockMatchingProfile({ isDefault: true }));
+
+      const profile = await service.resolveMatchingProfile(createCriteria());
+
+      expect(profile.id).toBe(PROFILE_ID);
+      expect(profile.weights[MatchFactorName.SPECIALIZATION_MATCH]).toBe(1);
+      expect(profile.weights[MatchFactorName.SERVICE_MATCH]).toBe(DEFAULT_MATCH_FACTOR_WEIGHTS.serviceMatch);
+    });
+
+    it('applies the override for the primary requested service type', async () => {
+      mockMatchingProfileRepository.findById.mockResolvedValue(createMockMatchingProfile({
+        filters: { minRating: 3 },
+        serviceTypeOverrides: {
+          [ServiceType.PHYSICAL_THERAPY]: {
+            weights: { [MatchFactorName.EXPERIENCE]: 0.9 },
+            filters: { minReviewCount: 10 }
+          }
+        }
+      }));
+
+      const profile = await service.resolveMatchingProfile(createCriteria({ matchingProfileId: PROFILE_ID }));
+
+      expect(profile.serviceType).toBe(ServiceType.PHYSICAL_THERAPY);
+      expect(profile.weights[MatchFactorName.EXPERIENCE]).toBe(0.9);
+      expect(profile.weights[MatchFactorName.SPECIALIZATION_MATCH]).toBe(1);
+      expect(profile.filters).toEqual({ minRating: 3, minReviewCount: 10 });
+    });
+
+    it('rejects a requested profile that does not exist', async () => {
+      await expect(service.resolveMatchingProfile(createCriteria({ matchingProfileId: PROFILE_ID })))
+        .rejects.toMatchObject({ code: ErrorCodes.NOT_FOUND });
+    });
+  });
+
+  describe('matchProviders', () => {
+    it('returns the profile used and a breakdown whose contributions sum to the score', async () => {
+      mockMatchingProfileRepository.findById.mockResolvedValue(createMockMatchingProfile());
+
+      const [match] = await service.matchProviders(createCriteria({ matchingProfileId: PROFILE_ID }));
+
+      expect(match.matchingProfile).toEqual({ id: PROFILE_ID, name: 'Pediatric therapy', serviceType: null });
+
+      const specialization = match.scoreBreakdown.find(entry => entry.name === MatchFactorName.SPECIALIZATION_MATCH);
+      expect(specialization).toMatchObject({ score: 1, weight: 1 });
+
+      const total = match.scoreBreakdown.reduce((sum, entry) => sum + entry.contribution, 0);
+      expect(total).toBeCloseTo(match.compatibilityScore, 10);
+    });
+
+    it('excludes providers that fail the profile\'s hard filters', async () => {
+      mockProviderRepository.findProvidersWithServiceType.mockResolvedValue([
+        createMockProvider(),
+        createMockProvider({ id: 'provider-profile-2', userId: 'provider-2', specializations: ['geriatrics'] }),
+        createMockProvider({ id: 'provider-profile-3', userId: 'provider-3', averageRating: 2.5 })
+      ]);
+      mockMatchingProfileRepository.findById.mockResolvedValue(createMockMatchingProfile({
+        filters: { minRating: 4, requiredSpecializations: ['pediatrics'] }
+      }));
+
+      const matches = await service.matchProviders(createCriteria({ matchingProfileId: PROFILE_ID }));
+
+      expect(matches.map(match => match.provider.userId)).toEqual(['provider-1']);
+    });
+
+    it('excludes geocoded providers beyond the profile\'s maximum distance', async () => {
+      mockProviderRepository.findProvidersWithServiceType.mockResolvedValue([
+        createMockProvider({ address: { latitude: 40.0, longitude: -75.0 } as any }),
+        createMockProvider({ id: 'provider-profile-2', userId: 'provider-2', address: { latitude: 41.0, longitude: -75.0 } as any })
+      ]);
+      mockMatchingProfileRepository.findDefault.mockResolvedValue(createMockMatchingProfile({
+        isDefault: true,
+        filters: { maxDistance: 25 }
+      }));
+      jest.spyOn(service, 'calculateLocationFactor').mockReturnValue({
+        name: MatchFactorName.LOCATION_PROXIMITY,
+        score: 1,
+        weight: 0.7,
+        description: ''
+      });
+
+      const matches = await service.matchProviders(createCriteria({
+        location: { latitude: 40.0, longitude: -75.0 } as any,
+        distance: 50
+      }));
+
+      expect(matches).toHaveLength(1);
+      expect(matches[0].provider.userId).toBe('provider-1');
+      expect(matches[0].distance).toBe(0);
+    });
+
+    it('excludes providers without coordinates when the profile has a maximum distance', async () => {
+      mockProviderRepository.findProvidersWithServiceType.mockResolvedValue([
+        createMockProvider({ address: { latitude: 40.0, longitude: -75.0 } as any }),
+        createMockProvider({ id: 'provider-profile-2', userId: 'provider-2', address: null })
+      ]);
+      mockMatchingProfileRepository.findDefault.mockResolvedValue(createMockMatchingProfile({
+        isDefault: true,
+        filters: { maxDistance: 25 }
+      }));
+      jest.spyOn(service, 'calculateLocationFactor').mockReturnValue({
+        name: MatchFactorName.LOCATION_PROXIMITY,
+        score: 1,
+        weight: 0.7,
+        description: ''
+      });
+
+      const matches = await service.matchProviders(createCriteria({
+        location: { latitude: 40.0, longitude: -75.0 } as any,
+        distance: 50
+      }));
+
+      expect(matches.map(match => match.provider.userId)).toEqual(['provider-1']);
+    });
+  });
+});
@@ -3,6 +3,9 @@ import { ProviderProfileRepository } from '../../../src/repositories/provider-pr
 import { ProviderAvailabilityRepository } from '../../../src/repositories/provider-availability.repository';
 import { ProviderMatchingService } from '../../../src/services/ai/provider-matching.service';
 import { CalendarIntegrationService } from '../../../src/services/calendar/calendar-integration.service';
+import { CaseManagerProfileRepository } from '../../../src/repositories/case-manager-profile.repository';
+import { ProviderMatchingCriteria } from '../../../src/types/provider.types';
+import { Roles } from '../../../src/constants/roles';
 import { ServiceType } from '../../../src/constants/service-types';
 import { errorFactory } from '../../../src/utils/error-handler';
 import { validateReviewSubmission } from '../../../src/utils/validation';
@@ -18,7 +21,8 @@ jest.mock('../../../src/utils/error-handler', () => ({
   errorFactory: {
     createNotFoundError: jest.fn(),
     createValidationError: jest.fn(),
-    createServiceError: jest.fn()
+    createServiceError: jest.fn(),
+    createForbiddenError: jest.fn()
   }
 }));
 
@@ -27,6 +31,7 @@ jest.mock('../../../src/utils/logger', () => ({
   logger: {
     info: jest.fn(),
     error: jest.fn(),
+    warn: jest.fn(),
     debug: jest.fn()
   }
 }));
@@ -149,7 +154,50 @@ describe('ProvidersService', () => {
   });
 
   describe('matchProviders', () => {
-    // Add test cases for matchProviders method
+    const criteria = { clientId: 'client-123', serviceTypes: [ServiceType.PHYSICAL_THERAPY] } as unknown as ProviderMatchingCriteria;
+    let caseManagerProfileRepository: CaseManagerProfileRepository;
+
+    beforeEach(() => {
+      caseManagerProfileRepository = {
+        findByUserId: jest.fn().mockResolvedValue({ assignedClients: ['client-123'] })
+      } as unknown as CaseManagerProfileRepository;
+      providersService = new ProvidersService(
+        providerRepository,
+        availabilityRepository,
+        providerMatchingService,
+        calendarService,
+        undefined,
+        undefined,
+        caseManagerProfileRepository
+      );
+      (providerMatchingService.matchProviders as jest.Mock).mockResolvedValue([]);
+      (errorFactory.createForbiddenError as jest.Mock).mockImplementation((message: string) => new Error(message));
+    });
+
+    it('should match providers for a case manager\'s assigned client', async () => {
+      await providersService.matchProviders(criteria, 'case-manager-1', Roles.CASE_MANAGER);
+
+      expect(caseManagerProfileRepository.findByUserId).toHaveBeenCalledWith('case-manager-1');
+      expect(providerMatchingService.matchProviders).toHaveBeenCalledWith(criteria);
+    });
+
+    it('should not match providers for a client the case manager is not assigned to', async () => {
+      (caseManagerProfileRepository.findByUserId as jest.Mock).mockResolvedValue({ assignedClients: ['client-456'] });
+
+      await expect(providersService.matchProviders(criteria, 'case-manager-1', Roles.CASE_MANAGER))
+        .rejects
+        .toThrow('You do not have permission to match providers for this client');
+
+      expect(providerMatchingService.matchProviders).not.toHaveBeenCalled();
+    });
+
+    it('should only let clients match for themselves and never providers', async () => {
+      await expect(providersService.matchProviders(criteria, 'client-456', Roles.CLIENT)).rejects.toThrow();
+      await expect(providersService.matchProviders(criteria, 'provider-1', Roles.PROVIDER)).rejects.toThrow();
+      await providersService.matchProviders(criteria, 'client-123', Roles.CLIENT);
+
+      expect(providerMatchingService.matchProviders).toHaveBeenCalledTimes(1);
+    });
   });
 
   describe('getProviderReviews', () => {
@@ -0,0 +1,242 @@
+import {
+  RateScheduleService,
+  applyRate,
+  billedUnitsPerVisit,
+  selectRateSchedule
+} from '../../../src/services/rate-schedule.service';
+import { RateScheduleRepository } from '../../../src/repositories/rate-schedule.repository';
+import { ClientProfileRepository } from '../../../src/repositories/client-profile.repository';
+import { RateLookup, RateSchedule, RateUnit } from '../../../src/types/rate-schedule.types';
+import { ServiceType } from '../../../src/constants/service-types';
+import { ErrorCodes } from '../../../src/constants/error-codes';
+import { FundingSourceType } from '../../../src/models/funding-source.model';
+import { CadencePeriod } from '../../../src/types/services-plan.types';
+import { generateMockFundingSource, generateMockServiceItem, generateMockServicesPlan } from '../../fixtures/services-plans.fixture';
+
+// Mock the logger module
+jest.mock('../../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+const PROVIDER_ID = 'provider-123';
+const ADMIN_ID = 'admin-123';
+
+// Helper function to create a mock rate schedule
+const createMockSchedule = (overrides: Partial<RateSchedule> = {}): RateSchedule => ({
+  id: 'rate-schedule-1',
+  serviceType: ServiceType.PHYSICAL_THERAPY,
+  fundingSourceType: null,
+  region: null,
+  providerId: null,
+  unit: RateUnit.PER_VISIT,
+  rate: 100,
+  effectiveFrom: '2024-01-01',
+  effectiveTo: null,
+  createdById: ADMIN_ID,
+  createdAt: new Date(Date.UTC(2024, 0, 1)),
+  updatedAt: new Date(Date.UTC(2024, 0, 1)),
+  ...overrides
+});
+
+const lookup: RateLookup = {
+  serviceType: ServiceType.PHYSICAL_THERAPY,
+  fundingSourceType: FundingSourceType.MEDICAID,
+  region: 'CA',
+  providerId: PROVIDER_ID,
+  date: '2024-06-03'
+};
+
+describe('selectRateSchedule', () => {
+  it('prefers a provider rate over a funding source rate over a regional rate', () => {
+    const regional = createMockSchedule({ id: 'regional', region: 'CA' });
+    const medicaid = createMockSchedule({ id: 'medicaid', fundingSourceType: FundingSourceType.MEDICAID, region: 'CA' });
+    const provider = createMockSchedule({ id: 'provider', providerId: PROVIDER_ID });
+
+    expect(selectRateSchedule([regional, medicaid, provider], lookup)?.id).toBe('provider');
+    expect(selectRateSchedule([regional, medicaid], lookup)?.id).toBe('medicaid');
+    expect(selectRateSchedule([createMockSchedule({ id: 'default' }), regional], lookup)?.id).toBe('regional');
+  });
+
+  it('ignores schedules scoped elsewhere or not in effect on the date', () => {
+    const candidates = [
+      createMockSchedule({ id: 'other-region', region: 'NY' }),
+      createMockSchedule({ id: 'medicare', fundingSourceType: FundingSourceType.MEDICARE }),
+      createMockSchedule({ id: 'expired', effectiveTo: '2024-05-31' }),
+      createMockSchedule({ id: 'future', effectiveFrom: '2024-07-01' })
+    ];
+
+    expect(selectRateSchedule(candidates, lookup)).toBeNull();
+  });
+
+  it('uses the most recently effective of equally specific schedules', () => {
+    const older = createMockSchedule({ id: 'older', effectiveTo: '2024-12-31' });
+    const newer = createMockSchedule({ id: 'newer', effectiveFrom: '2024-04-01' });
+
+    expect(selectRateSchedule([older, newer], lookup)?.id).toBe('newer');
+  });
+});
+
+describe('billedUnitsPerVisit', () => {
+  it('bills a visit of the default duration in the rate unit', () => {
+    // Speech therapy visits last 45 minutes; home health aide visits last 120
+    expect(billedUnitsPerVisit(RateUnit.PER_15_MINUTES, ServiceType.SPEECH_THERAPY)).toBe(3);
+    expect(billedUnitsPerVisit(RateUnit.PER_HOUR, ServiceType.SPEECH_THERAPY)).toBe(0.75);
+    expect(billedUnitsPerVisit(RateUnit.PER_HOUR, ServiceType.HOME_HEALTH_AIDE)).toBe(2);
+    expect(billedUnitsPerVisit(RateUnit.PER_DAY, ServiceType.HOME_HEALTH_AIDE)).toBe(1);
+  });
+
+  it('bills a visit of the item\'s own session length when it has one', () => {
+    expect(billedUnitsPerVisit(RateUnit.PER_15_MINUTES, ServiceType.SPEECH_THERAPY, 30)).toBe(2);
+    expect(billedUnitsPerVisit(RateUnit.PER_HOUR, ServiceType.HOME_HEALTH_AIDE, 50)).toBe(1);
+    expect(billedUnitsPerVisit(RateUnit.PER_VISIT, ServiceType.HOME_HEALTH_AIDE, 50)).toBe(1);
+  });
+
+  it('prices a visit at the rate times the units billed', () => {
+    const applied = applyRate(createMockSchedule({ unit: RateUnit.PER_15_MINUTES, rate: 22.5 }));
+
+    expect(applied).toMatchObject({ rateScheduleId: 'rate-schedule-1', billedUnitsPerVisit: 4, costPerVisit: 90 });
+  });
+});
+
+describe('RateScheduleService', () => {
+  let service: RateScheduleService;
+  let mockRateScheduleRepository: jest.Mocked<RateScheduleRepository>;
+  let mockClientProfileRepository: jest.Mocked<ClientProfileRepository>;
+
+  beforeEach(() => {
+    mockRateScheduleRepository = {
+      create: jest.fn(),
+      findById: jest.fn(),
+      findAll: jest.fn(),
+      findCandidates: jest.fn(),
+      findSameScope: jest.fn().mockResolvedValue([]),
+      update: jest.fn(),
+      delete: jest.fn()
+    } as any;
+
+    mockClientProfileRepository = {
+      findByUserId: jest.fn()
+    } as any;
+
+    service = new RateScheduleService(mockRateScheduleRepository, mockClientProfileRepository);
+  });
+
+  it('creates a schedule with an unset scope applying everywhere', async () => {
+    const schedule = createMockSchedule();
+    mockRateScheduleRepository.create.mockResolvedValue(schedule);
+
+    await service.createRateSchedule({
+      serviceType: ServiceType.PHYSICAL_THERAPY,
+      unit: RateUnit.PER_VISIT,
+      rate: 100,
+      effectiveFrom: '2024-01-01'
+    }, ADMIN_ID);
+
+    expect(mockRateScheduleRepository.create).toHaveBeenCalledWith({
+      serviceType: ServiceType.PHYSICAL_THERAPY,
+      fundingSourceType: null,
+      region: null,
+      providerId: null,
+      unit: RateUnit.PER_VISIT,
+      rate: 100,
+      effectiveFrom: '2024-01-01',
+      effectiveTo: null
+    }, ADMIN_ID);
+  });
+
+  it('rejects a schedule overlapping another with the same scope', async () => {
+    mockRateScheduleRepository.findSameScope.mockResolvedValue([createMockSchedule({ effectiveTo: '2024-06-30' })]);
+
+    await expect(service.createRateSchedule({
+      serviceType: ServiceType.PHYSICAL_THERAPY,
+      unit: RateUnit.PER_VISIT,
+      rate: 110,
+      effectiveFrom: '2024-06-01'
+    }, ADMIN_ID)).rejects.toMatchObject({ code: ErrorCodes.CONFLICT });
+
+    expect(mockRateScheduleRepository.create).not.toHaveBeenCalled();
+  });
+
+  it('allows a schedule to be ended so that a new rate can take over', async () => {
+    const schedule = createMockSchedule();
+    mockRateScheduleRepository.findById.mockResolvedValue(schedule);
+    mockRateScheduleRepository.findSameScope.mockResolvedValue([schedule]);
+    mockRateScheduleRepository.update.mockResolvedValue({ ...schedule, effectiveTo: '2024-06-30' });
+
+    await service.updateRateSchedule(schedule.id, { effectiveTo: '2024-06-30' });
+
+    expect(mockRateScheduleRepository.update).toHaveBeenCalledWith(schedule.id, expect.objectContaining({
+      effectiveFrom: '2024-01-01',
+      effectiveTo: '2024-06-30'
+    }));
+  });
+
+  it('throws a not found error for unknown schedules', async () => {
+    mockRateScheduleRepository.findById.mockResolvedValue(null);
+
+    await expect(service.deleteRateSchedule('missing')).rejects.toMatchObject({ code: ErrorCodes.NOT_FOUND });
+    expect(mockRateScheduleRepository.delete).not.toHaveBeenCalled();
+  });
+
+  it('resolves rates for plan items from the primary funding source and client region', async () => {
+    const plan = generateMockServicesPlan({
+      serviceItems: [
+        generateMockServiceItem({ serviceType: ServiceType.PHYSICAL_THERAPY, providerId: PROVIDER_ID, cadence: null }),
+        generateMockServiceItem({ id: 'service-item-2345-6789', serviceType: ServiceType.TRANSPORTATION, providerId: null, cadence: null })
+      ],
+      fundingSources: [
+        generateMockFundingSource({ type: FundingSourceType.PRIVATE_PAY, coverageAmount: 200 }),
+        generateMockFundingSource({ type: FundingSourceType.MEDICAID, coverageAmount: 3000 })
+      ]
+    });
+    mockClientProfileRepository.findByUserId.mockResolvedValue({ address: { state: 'ca' } } as any);
+    mockRateScheduleRepository.findCandidates.mockResolvedValue([
+      createMockSchedule({ fundingSourceType: FundingSourceType.MEDICAID, region: 'CA', effectiveFrom: '2000-01-01' })
+    ]);
+
+    const rates = await service.resolveRates(plan);
+
+    expect(mockRateScheduleRepository.findCandidates).toHaveBeenCalledWith(
+      [ServiceType.PHYSICAL_THERAPY, ServiceType.TRANSPORTATION],
+      FundingSourceType.MEDICAID,
+      'CA',
+      [PROVIDER_ID]
+    );
+    expect(Object.keys(rates)).toEqual(['service-item-1234-5678']);
+    expect(rates['service-item-1234-5678']).toMatchObject({ rateScheduleId: 'rate-schedule-1', costPerVisit: 100 });
+  });
+
+  it('prices time-based rates per session of the length the item\'s cadence gives', async () => {
+    const plan = generateMockServicesPlan({
+      serviceItems: [
+        generateMockServiceItem({
+          serviceType: ServiceType.PHYSICAL_THERAPY,
+          providerId: PROVIDER_ID,
+          cadence: {
+            unitsPerPeriod: 2,
+            period: CadencePeriod.WEEK,
+            periodInterval: 1,
+            startDate: null,
+            endDate: null,
+            periodCount: 8,
+            sessionMinutes: 90
+          }
+        })
+      ],
+      fundingSources: []
+    });
+    mockClientProfileRepository.findByUserId.mockResolvedValue(null);
+    mockRateScheduleRepository.findCandidates.mockResolvedValue([
+      createMockSchedule({ unit: RateUnit.PER_15_MINUTES, rate: 20, effectiveFrom: '2000-01-01' })
+    ]);
+
+    const rates = await service.resolveRates(plan);
+
+    expect(rates['service-item-1234-5678']).toMatchObject({ billedUnitsPerVisit: 6, costPerVisit: 120 });
+  });
+});
@@ -0,0 +1,325 @@
+import { Queue } from 'bull';
+import { ReminderService, parseSmsReply } from '../../../src/services/reminder.service';
+import { BookingReminderRepository } from '../../../src/repositories/booking-reminder.repository';
+import { BookingRepository } from '../../../src/repositories/booking.repository';
+import { ClientProfileRepository } from '../../../src/repositories/client-profile.repository';
+import { UserRepository } from '../../../src/repositories/user.repository';
+import { EmailService } from '../../../src/services/email/email.service';
+import { smsService } from '../../../src/services/sms/sms.service';
+import { twilioService } from '../../../src/integrations/twilio';
+import { IBookingService } from '../../../src/interfaces/booking.interface';
+import { parseReminderRules } from '../../../src/config/reminders';
+import { Booking, BookingStatus } from '../../../src/models/booking.model';
+import { BookingReminder, ReminderResponse, ReminderRule } from '../../../src/types/reminder.types';
+import { ErrorCodes } from '../../../src/constants/error-codes';
+import { Roles } from '../../../src/constants/roles';
+import { generateMockBooking } from '../../fixtures/bookings.fixture';
+
+// Mock the logger module
+jest.mock('../../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+// The bookings service pulls in the whole booking stack
+jest.mock('../../../src/services/bookings.service', () => ({
+  createBookingsService: jest.fn()
+}));
+
+// The email service sends through SendGrid
+jest.mock('../../../src/services/email/email.service', () => ({
+  EmailService: jest.fn()
+}));
+
+// SMS is sent and verified through Twilio
+jest.mock('../../../src/services/sms/sms.service', () => ({
+  smsService: {}
+}));
+
+jest.mock('../../../src/integrations/twilio', () => ({
+  twilioService: {}
+}));
+
+const CLIENT_ID = 'client-123';
+const CLIENT_PHONE = '+15551234567';
+const HOUR = 60 * 60 * 1000;
+
+const RULES: ReminderRule[] = [
+  { offsetMinutes: 48 * 60, channel: 'email' },
+  { offsetMinutes: 2 * 60, channel: 'sms' }
+];
+
+// A booking three days out, before any reminder is due
+const UPCOMING_BOOKING: Partial<Booking> = {
+  startTime: new Date(Date.now() + 72 * HOUR),
+  endTime: new Date(Date.now() + 73 * HOUR)
+};
+
+// Helper function to create a mock SMS reminder
+const createMockReminder = (overrides: Partial<BookingReminder> = {}): BookingReminder => ({
+  id: 'reminder-1',
+  bookingId: 'booking-1',
+  clientId: CLIENT_ID,
+  channel: 'sms',
+  recipient: CLIENT_PHONE,
+  offsetMinutes: 120,
+  appointmentTime: new Date(Date.now() + 2 * HOUR),
+  sentAt: new Date(),
+  response: null,
+  respondedAt: null,
+  ...overrides
+});
+
+// Helper function to create an inbound SMS webhook
+const createSmsWebhook = (body: string) => ({
+  body: { From: CLIENT_PHONE, Body: body },
+  headers: { 'x-twilio-signature': 'signature', host: 'api.revolucare.com' },
+  timestamp: Date.now()
+});
+
+describe('parseReminderRules', () => {
+  it('reads hour and minute offsets, earliest reminder first', () => {
+    expect(parseReminderRules('30m:sms, 48h:email')).toEqual([
+      { offsetMinutes: 2880, channel: 'email' },
+      { offsetMinutes: 30, channel: 'sms' }
+    ]);
+  });
+
+  it('rejects malformed rules', () => {
+    expect(() => parseReminderRules('48h:fax')).toThrow('Invalid appointment reminder rule "48h:fax"');
+    expect(() => parseReminderRules('0h:sms')).toThrow();
+  });
+});
+
+describe('parseSmsReply', () => {
+  it('reads confirmations and cancellations regardless of case and punctuation', () => {
+    expect(parseSmsReply(' c ')).toBe(ReminderResponse.CONFIRMED);
+    expect(parseSmsReply('Yes!')).toBe(ReminderResponse.CONFIRMED);
+    expect(parseSmsReply('x')).toBe(ReminderResponse.CANCELLED);
+    expect(parseSmsReply('See you then')).toBeNull();
+  });
+});
+
+describe('ReminderService', () => {
+  let service: ReminderService;
+  let mockBookingReminderRepository: jest.Mocked<BookingReminderRepository>;
+  let mockBookingRepository: jest.Mocked<BookingRepository>;
+  let mockClientProfileRepository: jest.Mocked<ClientProfileRepository>;
+  let mockUserRepository: jest.Mocked<UserRepository>;
+  let mockBookingsService: jest.Mocked<IBookingService>;
+  let mockEmailService: jest.Mocked<EmailService>;
+  let mockSmsService: jest.Mocked<typeof smsService>;
+  let mockTwilioService: jest.Mocked<typeof twilioService>;
+  let mockJob: { remove: jest.Mock };
+  let mockQueue: jest.Mocked<Queue>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockBookingReminderRepository = {
+      create: jest.fn().mockImplementation(async (reminder) => createMockReminder(reminder)),
+      findLatestSmsReminder: jest.fn().mockResolvedValue(createMockReminder()),
+      recordResponse: jest.fn()
+    } as unknown as jest.Mocked<BookingReminderRepository>;
+
+    mockBookingRepository = {
+      findById: jest.fn().mockResolvedValue(generateMockBooking(UPCOMING_BOOKING)),
+      confirm: jest.fn()
+    } as unknown as jest.Mocked<BookingRepository>;
+
+    mockClientProfileRepository = {
+      findByUserId: jest.fn().mockResolvedValue({ userId: CLIENT_ID, phone: CLIENT_PHONE, timezone: 'America/Denver' })
+    } as unknown as jest.Mocked<ClientProfileRepository>;
+
+    mockUserRepository = {
+      findById: jest.fn().mockImplementation(async (id) => ({
+        id,
+        email: `${id}@example.com`,
+        firstName: 'Jane',
+        lastName: 'Smith'
+      }))
+    } as unknown as jest.Mocked<UserRepository>;
+
+    mockBookingsService = {
+      cancelBooking: jest.fn()
+    } as unknown as jest.Mocked<IBookingService>;
+
+    mockEmailService = {
+      deliverNotification: jest.fn().mockResolvedValue([{ success: true, channel: 'email', error: null }])
+    } as unknown as jest.Mocked<EmailService>;
+
+    mockSmsService = {
+      sendNotification: jest.fn().mockResolvedValue({ success: true, messageId: 'SM123' })
+    } as unknown as jest.Mocked<typeof smsService>;
+
+    mockTwilioService = {
+      validateWebhook: jest.fn().mockResolvedValue(true)
+    } as unknown as jest.Mocked<typeof twilioService>;
+
+    mockJob = { remove: jest.fn() };
+    mockQueue = {
+      add: jest.fn(),
+      getJob: jest.fn().mockResolvedValue(mockJob)
+    } as unknown as jest.Mocked<Queue>;
+
+    service = new ReminderService(
+      mockBookingReminderRepository,
+      mockBookingRepository,
+      mockClientProfileRepository,
+      mockUserRepository,
+      mockBookingsService,
+      mockEmailService,
+      mockSmsService,
+      mockTwilioService,
+      RULES,
+      mockQueue
+    );
+  });
+
+  describe('scheduleReminders', () => {
+    it('queues a delayed job for each rule, keyed by booking and rule', async () => {
+      const booking = generateMockBooking(UPCOMING_BOOKING);
+      mockBookingRepository.findById.mockResolvedValue(booking);
+
+      const queued = await service.scheduleReminders(['booking-1']);
+
+      expect(queued).toBe(2);
+      expect(mockQueue.add).toHaveBeenCalledWith(
+        'reminder:send',
+        { bookingId: 'booking-1', rule: RULES[0] },
+        expect.objectContaining({ jobId: 'reminder:booking-1:email:2880' })
+      );
+      const smsDelay = mockQueue.add.mock.calls[1][2]?.delay as number;
+      const expectedDelay = booking.startTime.getTime() - 2 * HOUR - Date.now();
+      expect(Math.abs(smsDelay - expectedDelay)).toBeLessThan(1000);
+    });
+
+    it('skips reminders whose send time has already passed', async () => {
+      mockBookingRepository.findById.mockResolvedValue(generateMockBooking({ ...UPCOMING_BOOKING, startTime: new Date(Date.now() + 5 * HOUR) }));
+
+      const queued = await service.scheduleReminders(['booking-1']);
+
+      expect(queued).toBe(1);
+      expect(mockQueue.add).toHaveBeenCalledWith(
+        'reminder:send',
+        expect.objectContaining({ rule: RULES[1] }),
+        expect.any(Object)
+      );
+    });
+
+    it('does not queue reminders for bookings that are no longer scheduled', async () => {
+      mockBookingRepository.findById.mockResolvedValue(generateMockBooking({ ...UPCOMING_BOOKING, status: BookingStatus.CANCELLED }));
+
+      await expect(service.scheduleReminders(['booking-1'])).resolves.toBe(0);
+      expect(mockQueue.add).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('cancelReminders', () => {
+    it('removes the queued job of each rule', async () => {
+      await service.cancelReminders('booking-1');
+
+      expect(mockQueue.getJob).toHaveBeenCalledWith('reminder:booking-1:email:2880');
+      expect(mockQueue.getJob).toHaveBeenCalledWith('reminder:booking-1:sms:120');
+      expect(mockJob.remove).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('sendReminder', () => {
+    it('texts the client the appointment time in their timezone and records the reminder', async () => {
+      mockBookingRepository.findById.mockResolvedValue(generateMockBooking({ ...UPCOMING_BOOKING,
+        startTime: new Date(Date.UTC(2030, 5, 3, 20, 0))
+      }));
+
+      const sent = await service.sendReminder({ bookingId: 'booking-1', rule: RULES[1] });
+
+      expect(sent).toBe(true);
+      expect(mockSmsService.sendNotification).toHaveBeenCalledWith(CLIENT_PHONE, 'appointment_reminder', {
+        date: 'Mon, Jun 3',
+        time: '2:00 PM MDT',
+        provider: 'Jane Smith'
+      });
+      expect(mockBookingReminderRepository.create).toHaveBeenCalledWith(expect.objectContaining({
+        bookingId: 'booking-1',
+        channel: 'sms',
+        recipient: CLIENT_PHONE,
+        offsetMinutes: 120
+      }));
+    });
+
+    it('emails the client for email rules', async () => {
+      await service.sendReminder({ bookingId: 'booking-1', rule: RULES[0] });
+
+      expect(mockEmailService.deliverNotification).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: CLIENT_ID, type: 'appointment_reminder', channels: ['email'] }),
+        { recipient: `${CLIENT_ID}@example.com` }
+      );
+      expect(mockSmsService.sendNotification).not.toHaveBeenCalled();
+    });
+
+    it('skips bookings that are no longer scheduled', async () => {
+      mockBookingRepository.findById.mockResolvedValue(generateMockBooking({ ...UPCOMING_BOOKING, status: BookingStatus.RESCHEDULED }));
+
+      await expect(service.sendReminder({ bookingId: 'booking-1', rule: RULES[1] })).resolves.toBe(false);
+      expect(mockSmsService.sendNotification).not.toHaveBeenCalled();
+      expect(mockBookingReminderRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('throws when delivery fails so the queue retries', async () => {
+      mockSmsService.sendNotification.mockResolvedValue({ success: false, error: 'Carrier unavailable' });
+
+      await expect(service.sendReminder({ bookingId: 'booking-1', rule: RULES[1] }))
+        .rejects.toMatchObject({ code: ErrorCodes.NOTIFICATION_ERROR });
+      expect(mockBookingReminderRepository.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('handleSmsReply', () => {
+    it('confirms the booking of the latest reminder sent to the number', async () => {
+      const reply = await service.handleSmsReply(createSmsWebhook('C'));
+
+      expect(mockBookingReminderRepository.findLatestSmsReminder).toHaveBeenCalledWith(CLIENT_PHONE, expect.any(Date));
+      expect(mockBookingRepository.confirm).toHaveBeenCalledWith('booking-1', expect.any(Date));
+      expect(mockBookingReminderRepository.recordResponse)
+        .toHaveBeenCalledWith('reminder-1', ReminderResponse.CONFIRMED, expect.any(Date));
+      expect(reply).toContain('is confirmed');
+    });
+
+    it('cancels the booking as the client', async () => {
+      const reply = await service.handleSmsReply(createSmsWebhook('X'));
+
+      expect(mockBookingsService.cancelBooking)
+        .toHaveBeenCalledWith('booking-1', expect.any(String), CLIENT_ID, Roles.CLIENT);
+      expect(mockBookingRepository.confirm).not.toHaveBeenCalled();
+      expect(reply).toContain('has been cancelled');
+    });
+
+    it('explains the replies it understands', async () => {
+      const reply = await service.handleSmsReply(createSmsWebhook('Running late'));
+
+      expect(reply).toContain('Reply C to confirm or X to cancel');
+      expect(mockBookingReminderRepository.findLatestSmsReminder).not.toHaveBeenCalled();
+    });
+
+    it('does not change bookings that are no longer scheduled', async () => {
+      mockBookingRepository.findById.mockResolvedValue(generateMockBooking({ ...UPCOMING_BOOKING, status: BookingStatus.CANCELLED }));
+
+      const reply = await service.handleSmsReply(createSmsWebhook('C'));
+
+      expect(reply).toContain('can no longer be changed by text');
+      expect(mockBookingRepository.confirm).not.toHaveBeenCalled();
+    });
+
+    it('rejects requests without a valid Twilio signature', async () => {
+      mockTwilioService.validateWebhook.mockResolvedValue(false);
+
+      await expect(service.handleSmsReply(createSmsWebhook('X')))
+        .rejects.toMatchObject({ code: ErrorCodes.UNAUTHORIZED });
+      expect(mockBookingsService.cancelBooking).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,318 @@
+import { Queue } from 'bull';
+import {
+  ReportScheduleService,
+  calculateNextRunAt,
+  getReportingRange
+} from '../../../src/services/report-schedule.service';
+import { ReportScheduleRepository } from '../../../src/repositories/report-schedule.repository';
+import { IAnalyticsService } from '../../../src/interfaces/analytics.interface';
+import { EmailService } from '../../../src/services/email/email.service';
+import { ReportSchedule } from '../../../src/types/analytics.types';
+import { deliverScheduledReportJob } from '../../../src/queue/jobs/analytics.job';
+import { ErrorCodes } from '../../../src/constants/error-codes';
+import { Roles } from '../../../src/constants/roles';
+
+// Mock the logger module
+jest.mock('../../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+const OWNER_ID = 'case-manager-123';
+const OTHER_USER_ID = 'case-manager-456';
+
+// Helper function to create a mock report schedule
+const createMockSchedule = (overrides: Partial<ReportSchedule> = {}): ReportSchedule => ({
+  id: 'schedule-1',
+  definition: {
+    name: 'Weekly Outcomes',
+    description: 'Care plan outcomes for program leadership',
+    categories: ['care_plan'],
+    metrics: ['goal_achievement'],
+    period: 'weekly',
+    filters: {}
+  },
+  frequency: 'weekly',
+  dayOfWeek: 1,
+  dayOfMonth: null,
+  hour: 8,
+  recipients: ['leadership@example.com'],
+  format: 'pdf',
+  isActive: true,
+  nextRunAt: new Date('2024-06-10T08:00:00Z'),
+  lastRunAt: null,
+  lastError: null,
+  createdById: OWNER_ID,
+  createdAt: new Date('2024-06-01'),
+  updatedAt: new Date('2024-06-01'),
+  ...overrides
+});
+
+describe('calculateNextRunAt', () => {
+  it('returns the next matching weekday at the scheduled hour', () => {
+    // 2024-06-05 is a Wednesday; the next Monday is 2024-06-10
+    const next = calculateNextRunAt(
+      { frequency: 'weekly', dayOfWeek: 1, dayOfMonth: null, hour: 8 },
+      new Date('2024-06-05T12:00:00Z')
+    );
+
+    expect(next).toEqual(new Date('2024-06-10T08:00:00Z'));
+  });
+
+  it('moves a weekly schedule on a full week from its own delivery time', () => {
+    const next = calculateNextRunAt(
+      { frequency: 'weekly', dayOfWeek: 1, dayOfMonth: null, hour: 8 },
+      new Date('2024-06-10T08:00:00Z')
+    );
+
+    expect(next).toEqual(new Date('2024-06-17T08:00:00Z'));
+  });
+
+  it('rolls monthly schedules over into the next month and year', () => {
+    const next = calculateNextRunAt(
+      { frequency: 'monthly', dayOfWeek: null, dayOfMonth: 1, hour: 6 },
+      new Date('2024-12-01T06:00:00Z')
+    );
+
+    expect(next).toEqual(new Date('2025-01-01T06:00:00Z'));
+  });
+
+  it('runs quarterly schedules in the first month of each quarter', () => {
+    const next = calculateNextRunAt(
+      { frequency: 'quarterly', dayOfWeek: null, dayOfMonth: 5, hour: 9 },
+      new Date('2024-05-20T00:00:00Z')
+    );
+
+    expect(next).toEqual(new Date('2024-07-05T09:00:00Z'));
+  });
+});
+
+describe('getReportingRange', () => {
+  it('covers the seven days before a weekly delivery', () => {
+    const range = getReportingRange('weekly', new Date('2024-06-10T08:00:00Z'));
+
+    expect(range.startDate).toEqual(new Date('2024-06-03T00:00:00Z'));
+    expect(range.endDate).toEqual(new Date('2024-06-09T23:59:59.999Z'));
+  });
+
+  it('covers the previous calendar quarter for a quarterly delivery', () => {
+    const range = getReportingRange('quarterly', new Date('2024-07-05T09:00:00Z'));
+
+    expect(range.startDate).toEqual(new Date('2024-04-01T00:00:00Z'));
+    expect(range.endDate).toEqual(new Date('2024-06-30T23:59:59.999Z'));
+  });
+});
+
+describe('ReportScheduleService', () => {
+  let service: ReportScheduleService;
+  let mockRepository: jest.Mocked<ReportScheduleRepository>;
+  let mockAnalyticsService: jest.Mocked<IAnalyticsService>;
+  let mockEmailService: jest.Mocked<EmailService>;
+  let mockQueue: jest.Mocked<Queue>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockRepository = {
+      create: jest.fn().mockImplementation(async (data) => ({ ...createMockSchedule(), ...data })),
+      findById: jest.fn(),
+      findAll: jest.fn().mockResolvedValue([]),
+      findDue: jest.fn().mockResolvedValue([]),
+      update: jest.fn().mockImplementation(async (id, data) => ({ ...createMockSchedule({ id }), ...data })),
+      delete: jest.fn().mockResolvedValue(undefined)
+    } as unknown as jest.Mocked<ReportScheduleRepository>;
+
+    mockAnalyticsService = {
+      renderReport: jest.fn().mockResolvedValue({
+        fileName: 'Weekly_Outcomes_20240610T080000000Z.pdf',
+        contentType: 'application/pdf',
+        content: Buffer.from('%PDF-1.4'),
+        metricCount: 1
+      })
+    } as unknown as jest.Mocked<IAnalyticsService>;
+
+    mockEmailService = {
+      deliverNotification: jest.fn().mockResolvedValue([{ success: true, channel: 'email', error: null }])
+    } as unknown as jest.Mocked<EmailService>;
+
+    mockQueue = {
+      add: jest.fn().mockResolvedValue({})
+    } as unknown as jest.Mocked<Queue>;
+
+    service = new ReportScheduleService(mockRepository, mockAnalyticsService, mockEmailService, mockQueue);
+  });
+
+  describe('createSchedule', () => {
+    it('saves the schedule with its first delivery time', async () => {
+      const schedule = await service.createSchedule(
+        {
+          definition: createMockSchedule().definition,
+          frequency: 'monthly',
+          dayOfMonth: 1,
+          hour: 8,
+          recipients: ['leadership@example.com'],
+          format: 'csv'
+        },
+        OWNER_ID
+      );
+
+      expect(mockRepository.create).toHaveBeenCalledWith(expect.objectContaining({
+        frequency: 'monthly',
+        dayOfWeek: null,
+        dayOfMonth: 1,
+        isActive: true,
+        createdById: OWNER_ID
+      }));
+      expect(schedule.nextRunAt.getUTCDate()).toBe(1);
+      expect(schedule.nextRunAt.getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it('rejects a weekly schedule without a day of the week', async () => {
+      await expect(service.createSchedule(
+        {
+          definition: createMockSchedule().definition,
+          frequency: 'weekly',
+          hour: 8,
+          recipients: ['leadership@example.com'],
+          format: 'pdf'
+        },
+        OWNER_ID
+      )).rejects.toMatchObject({ code: ErrorCodes.VALIDATION_ERROR });
+
+      expect(mockRepository.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('schedule access', () => {
+    it('only lists the user\'s own schedules for non-administrators', async () => {
+      await service.getSchedules(OWNER_ID, Roles.CASE_MANAGER);
+      await service.getSchedules(OWNER_ID, Roles.ADMINISTRATOR);
+
+      expect(mockRepository.findAll).toHaveBeenNthCalledWith(1, OWNER_ID);
+      expect(mockRepository.findAll).toHaveBeenNthCalledWith(2, undefined);
+    });
+
+    it('prevents users from changing schedules they did not create', async () => {
+      mockRepository.findById.mockResolvedValue(createMockSchedule());
+
+      await expect(service.deleteSchedule('schedule-1', OTHER_USER_ID, Roles.CASE_MANAGER))
+        .rejects.toMatchObject({ code: ErrorCodes.FORBIDDEN });
+
+      expect(mockRepository.delete).not.toHaveBeenCalled();
+    });
+
+    it('returns not found for a missing schedule', async () => {
+      mockRepository.findById.mockResolvedValue(null);
+
+      await expect(service.getScheduleById('missing', OWNER_ID, Roles.CASE_MANAGER))
+        .rejects.toMatchObject({ code: ErrorCodes.NOT_FOUND });
+    });
+  });
+
+  describe('updateSchedule', () => {
+    it('recalculates the next delivery when the timing changes', async () => {
+      mockRepository.findById.mockResolvedValue(createMockSchedule());
+
+      await service.updateSchedule('schedule-1', { frequency: 'quarterly', dayOfMonth: 2 }, OWNER_ID, Roles.CASE_MANAGER);
+
+      const update = mockRepository.update.mock.calls[0][1];
+      expect(update).toMatchObject({ frequency: 'quarterly', dayOfWeek: null, dayOfMonth: 2, hour: 8 });
+      expect(update.nextRunAt!.getUTCMonth() % 3).toBe(0);
+    });
+
+    it('leaves the next delivery alone when only recipients change', async () => {
+      mockRepository.findById.mockResolvedValue(createMockSchedule());
+
+      await service.updateSchedule('schedule-1', { recipients: ['new@example.com'] }, OWNER_ID, Roles.CASE_MANAGER);
+
+      expect(mockRepository.update).toHaveBeenCalledWith('schedule-1', { recipients: ['new@example.com'] });
+    });
+  });
+
+  describe('enqueueDueSchedules', () => {
+    it('queues one delivery job per due schedule keyed by its delivery slot', async () => {
+      mockRepository.findDue.mockResolvedValue([createMockSchedule()]);
+
+      const queued = await service.enqueueDueSchedules(new Date('2024-06-10T08:05:00Z'));
+
+      expect(queued).toBe(1);
+      expect(mockQueue.add).toHaveBeenCalledWith(
+        deliverScheduledReportJob.name,
+        { scheduleId: 'schedule-1', runAt: '2024-06-10T08:00:00.000Z' },
+        expect.objectContaining({ jobId: 'schedule-1:2024-06-10T08:00:00.000Z' })
+      );
+    });
+  });
+
+  describe('deliverScheduledReport', () => {
+    const runAt = new Date('2024-06-10T08:00:00Z');
+
+    it('emails the report for the last reporting range and advances the schedule', async () => {
+      mockRepository.findById.mockResolvedValue(createMockSchedule());
+
+      await service.deliverScheduledReport('schedule-1', runAt);
+
+      expect(mockAnalyticsService.renderReport).toHaveBeenCalledWith(expect.objectContaining({
+        name: 'Weekly Outcomes',
+        format: 'pdf',
+        startDate: new Date('2024-06-03T00:00:00Z'),
+        endDate: new Date('2024-06-09T23:59:59.999Z')
+      }));
+      expect(mockEmailService.deliverNotification).toHaveBeenCalledWith(
+        expect.objectContaining({ channels: ['email'] }),
+        expect.objectContaining({
+          recipient: ['leadership@example.com'],
+          attachments: [expect.objectContaining({
+            filename: 'Weekly_Outcomes_20240610T080000000Z.pdf',
+            content: Buffer.from('%PDF-1.4').toString('base64')
+          })]
+        })
+      );
+      expect(mockRepository.update).toHaveBeenCalledWith('schedule-1', {
+        lastRunAt: runAt,
+        lastError: null,
+        nextRunAt: new Date('2024-06-17T08:00:00Z')
+      });
+    });
+
+    it('skips a delivery slot that has already been delivered', async () => {
+      mockRepository.findById.mockResolvedValue(createMockSchedule({ nextRunAt: new Date('2024-06-17T08:00:00Z') }));
+
+      await service.deliverScheduledReport('schedule-1', runAt);
+
+      expect(mockAnalyticsService.renderReport).not.toHaveBeenCalled();
+      expect(mockEmailService.deliverNotification).not.toHaveBeenCalled();
+    });
+
+    it('records the error and rethrows when the email is not delivered', async () => {
+      mockRepository.findById.mockResolvedValue(createMockSchedule());
+      mockEmailService.deliverNotification.mockResolvedValue([
+        { success: false, channel: 'email', error: 'SendGrid unavailable' } as any
+      ]);
+
+      await expect(service.deliverScheduledReport('schedule-1', runAt)).rejects.toThrow('SendGrid unavailable');
+
+      expect(mockRepository.update).toHaveBeenCalledTimes(1);
+      expect(mockRepository.update).toHaveBeenCalledWith('schedule-1', { lastError: 'SendGrid unavailable' });
+    });
+
+    it('advances the schedule when the final attempt fails', async () => {
+      mockRepository.findById.mockResolvedValue(createMockSchedule());
+      mockEmailService.deliverNotification.mockResolvedValue([
+        { success: false, channel: 'email', error: 'SendGrid unavailable' } as any
+      ]);
+
+      await expect(service.deliverScheduledReport('schedule-1', runAt, true)).rejects.toThrow('SendGrid unavailable');
+
+      expect(mockRepository.update).toHaveBeenCalledTimes(1);
+      expect(mockRepository.update).toHaveBeenCalledWith('schedule-1', {
+        lastError: 'SendGrid unavailable',
+        nextRunAt: new Date('2024-06-17T08:00:00Z')
+      });
+    });
+  });
+});
@@ -8,10 +8,37 @@ import { PlanStatus } from '../../../src/constants/plan-statuses';
 import { ServiceType } from '../../../src/constants/service-types';
 import { AIModelType } from '../../../src/types/ai.types';
 import { errorFactory } from '../../../src/utils/error-handler';
-import { ServicesPlan, NeedsAssessment, CreateNeedsAssessmentDTO, CreateServicesPlanDTO, UpdateServicesPlanDTO, ServicesPlanFilterParams } from '../../../src/types/services-plan.types';
-import { mockServicesPlans, mockNeedsAssessments, mockServiceItems, mockFundingSources, generateMockCreateNeedsAssessmentDTO, generateMockCreateServicesPlanDTO, generateMockUpdateServicesPlanDTO } from '../../fixtures/services-plans.fixture';
+import { ServicesPlan, NeedsAssessment, CreateNeedsAssessmentDTO, CreateServicesPlanDTO, UpdateServicesPlanDTO, ServicesPlanFilterParams, CadencePeriod, ServiceCadence } from '../../../src/types/services-plan.types';
+import { BookingRepository } from '../../../src/repositories/booking.repository';
+import { IRateScheduleService } from '../../../src/interfaces/rate-schedule.interface';
+import { AppliedRate, RateUnit } from '../../../src/types/rate-schedule.types';
+import { AssessmentInstrumentCode, AssessmentRiskLevel, ScoreTrendDirection } from '../../../src/types/assessment-instrument.types';
+import { mockServicesPlans, mockNeedsAssessments, mockServiceItems, mockFundingSources, generateMockCreateNeedsAssessmentDTO, generateMockCreateServicesPlanDTO, generateMockUpdateServicesPlanDTO, generateMockServicesPlan, generateMockServiceItem, generateMockNeedsAssessment } from '../../fixtures/services-plans.fixture';
 import { mockCarePlans } from '../../fixtures/care-plans.fixture';
 
+// Helper function to create a weekly cadence
+const createCadence = (overrides: Partial<ServiceCadence> = {}): ServiceCadence => ({
+  unitsPerPeriod: 1,
+  period: CadencePeriod.WEEK,
+  periodInterval: 1,
+  startDate: null,
+  endDate: null,
+  periodCount: null,
+  sessionMinutes: null,
+  ...overrides
+});
+
+// GAD-7 answers scoring 11 (moderate anxiety)
+const gad7Responses = {
+  nervous: 2,
+  uncontrolled_worry: 2,
+  excessive_worry: 2,
+  relaxing: 1,
+  restless: 1,
+  irritable: 2,
+  afraid: 1
+};
+
 /**
  * Creates mock repositories and services for testing
  * @returns Object containing mocked repositories and services
@@ -87,6 +114,16 @@ const createMockRepositories = () => {
     request: jest.fn(),
   } as any;
 
+  // Create mock BookingRepository with jest.fn() for counting delivered units
+  const mockBookingRepository: jest.Mocked<BookingRepository> = {
+    countCompletedByServiceItem: jest.fn(),
+  } as any;
+
+  // Create mock RateScheduleService with jest.fn() for pricing service items
+  const mockRateScheduleService: jest.Mocked<IRateScheduleService> = {
+    resolveRates: jest.fn().mockResolvedValue({}),
+  } as any;
+
   return {
     mockServicesPlanRepository,
     mockNeedsAssessmentRepository,
@@ -94,6 +131,8 @@ const createMockRepositories = () => {
     mockCarePlanService,
     mockPaymentProcessingService,
     mockOpenAIService,
+    mockBookingRepository,
+    mockRateScheduleService,
   };
 };
 
@@ -105,6 +144,8 @@ describe('ServicesPlanService', () => {
   let mockCarePlanService: jest.Mocked<CarePlanService>;
   let mockPaymentProcessingService: jest.Mocked<PaymentProcessingService>;
   let mockOpenAIService: jest.Mocked<OpenAIService>;
+  let mockBookingRepository: jest.Mocked<BookingRepository>;
+  let mockRateScheduleService: jest.Mocked<IRateScheduleService>;
 
   beforeEach(() => {
     const {
@@ -114,6 +155,8 @@ describe('ServicesPlanService', () => {
       mockCarePlanService: carePlanSvc,
       mockPaymentProcessingService: paymentProcessingSvc,
       mockOpenAIService: openAISvc,
+      mockBookingRepository: bookingRepo,
+      mockRateScheduleService: rateScheduleSvc,
     } = createMockRepositories();
 
     mockServicesPlanRepository = servicesPlanRepo;
@@ -122,6 +165,8 @@ describe('ServicesPlanService', () => {
     mockCarePlanService = carePlanSvc;
     mockPaymentProcessingService = paymentProcessingSvc;
     mockOpenAIService = openAISvc;
+    mockBookingRepository = bookingRepo;
+    mockRateScheduleService = rateScheduleSvc;
 
     servicesPlanService = new ServicesPlanService(
       mockServicesPlanRepository,
@@ -129,7 +174,9 @@ describe('ServicesPlanService', () => {
       mockProviderMatchingService,
       mockCarePlanService,
       mockPaymentProcessingService,
-      mockOpenAIService
+      mockOpenAIService,
+      mockBookingRepository,
+      mockRateScheduleService
     );
   });
 
@@ -140,7 +187,11 @@ describe('ServicesPlanService', () => {
 
     const createdNeedsAssessment = await servicesPlanService.createNeedsAssessment(mockCreateNeedsAssessmentDTO, 'user-id');
 
-    expect(mockNeedsAssessmentRepository.create).toHaveBeenCalledWith(mockCreateNeedsAssessmentDTO, 'user-id');
+    expect(mockNeedsAssessmentRepository.create).toHaveBeenCalledWith(
+      { ...mockCreateNeedsAssessmentDTO, instrumentResponses: [] },
+      'user-id',
+      []
+    );
     expect(createdNeedsAssessment).toEqual(mockCreatedNeedsAssessment);
   });
 
@@ -170,6 +221,73 @@ describe('ServicesPlanService', () => {
     expect(needsAssessments).toEqual(mockNeedsAssessments);
   });
 
+  it('should score instrument responses and store the scores with the assessment', async () => {
+    const mockCreateNeedsAssessmentDTO = generateMockCreateNeedsAssessmentDTO({
+      instrumentResponses: [{ instrumentCode: AssessmentInstrumentCode.GAD_7, responses: gad7Responses }]
+    });
+    mockNeedsAssessmentRepository.create.mockResolvedValue(mockNeedsAssessments[0]);
+
+    await servicesPlanService.createNeedsAssessment(mockCreateNeedsAssessmentDTO, 'user-id');
+
+    expect(mockNeedsAssessmentRepository.create).toHaveBeenCalledWith(
+      {
+        ...mockCreateNeedsAssessmentDTO,
+        instrumentResponses: [{ instrumentCode: AssessmentInstrumentCode.GAD_7, version: 1, responses: gad7Responses }]
+      },
+      'user-id',
+      [{
+        instrumentCode: AssessmentInstrumentCode.GAD_7,
+        version: 1,
+        score: 11,
+        maxScore: 21,
+        band: 'Moderate anxiety',
+        riskLevel: AssessmentRiskLevel.MODERATE,
+        alerts: []
+      }]
+    );
+  });
+
+  it('should reject instrument responses that do not match the instrument', async () => {
+    const mockCreateNeedsAssessmentDTO = generateMockCreateNeedsAssessmentDTO({
+      instrumentResponses: [{ instrumentCode: AssessmentInstrumentCode.GAD_7, responses: { ...gad7Responses, afraid: 5 } }]
+    });
+
+    await expect(servicesPlanService.createNeedsAssessment(mockCreateNeedsAssessmentDTO, 'user-id'))
+      .rejects.toMatchObject({ message: 'Invalid responses to Generalized Anxiety Disorder Scale (GAD-7)' });
+    expect(mockNeedsAssessmentRepository.create).not.toHaveBeenCalled();
+  });
+
+  it('should trend instrument scores across a client\'s needs assessments', async () => {
+    const phq9Score = (score: number, band: string) => ({
+      instrumentCode: AssessmentInstrumentCode.PHQ_9,
+      version: 1,
+      score,
+      maxScore: 27,
+      band,
+      riskLevel: AssessmentRiskLevel.LOW,
+      alerts: []
+    });
+    mockNeedsAssessmentRepository.findByClientId.mockResolvedValue([
+      generateMockNeedsAssessment({ id: 'latest', scores: [phq9Score(6, 'Mild depression')], createdAt: new Date('2023-04-15T00:00:00.000Z') }),
+      generateMockNeedsAssessment({ id: 'earliest', scores: [phq9Score(12, 'Moderate depression')] })
+    ]);
+
+    const trends = await servicesPlanService.getAssessmentScoreTrends('client-id');
+
+    expect(trends).toHaveLength(1);
+    expect(trends[0].points.map(point => point.needsAssessmentId)).toEqual(['earliest', 'latest']);
+    expect(trends[0]).toMatchObject({ change: -6, direction: ScoreTrendDirection.IMPROVING });
+  });
+
+  it('should describe assessment instruments with the JSON schema of their responses', () => {
+    const instrument = servicesPlanService.getAssessmentInstrument(AssessmentInstrumentCode.KATZ_ADL);
+
+    expect(instrument.version).toBe(1);
+    expect(instrument.schema.required).toEqual(['bathing', 'dressing', 'toileting', 'transferring', 'continence', 'feeding']);
+    expect(() => servicesPlanService.getAssessmentInstrument(AssessmentInstrumentCode.KATZ_ADL, 99))
+      .toThrow('Assessment instrument not found');
+  });
+
   it('should create a services plan', async () => {
     const mockCreateServicesPlanDTO = generateMockCreateServicesPlanDTO();
     const mockCreatedServicesPlan = mockServicesPlans[0];
@@ -180,7 +298,14 @@ describe('ServicesPlanService', () => {
 
     const createdServicesPlan = await servicesPlanService.createServicesPlan(mockCreateServicesPlanDTO, 'user-id');
 
-    expect(mockServicesPlanRepository.create).toHaveBeenCalledWith(mockCreateServicesPlanDTO, 'user-id');
+    expect(mockServicesPlanRepository.create).toHaveBeenCalledWith({
+      ...mockCreateServicesPlanDTO,
+      serviceItems: [
+        { ...mockCreateServicesPlanDTO.serviceItems[0], cadence: createCadence({ unitsPerPeriod: 2, periodCount: 12 }) },
+        { ...mockCreateServicesPlanDTO.serviceItems[1], cadence: createCadence({ periodCount: 8 }) },
+        { ...mockCreateServicesPlanDTO.serviceItems[2], cadence: createCadence({ periodCount: 12 }) }
+      ]
+    }, 'user-id');
     expect(createdServicesPlan).toEqual(mockCreatedServicesPlan);
   });
 
@@ -219,7 +344,14 @@ describe('ServicesPlanService', () => {
 
     const updatedServicesPlan = await servicesPlanService.updateServicesPlan('plan-id', mockUpdateServicesPlanDTO);
 
-    expect(mockServicesPlanRepository.update).toHaveBeenCalledWith('plan-id', mockUpdateServicesPlanDTO);
+    expect(mockServicesPlanRepository.update).toHaveBeenCalledWith('plan-id', {
+      ...mockUpdateServicesPlanDTO,
+      serviceItems: [
+        { ...mockUpdateServicesPlanDTO.serviceItems[0], cadence: createCadence({ unitsPerPeriod: 3, periodCount: 12 }) },
+        { ...mockUpdateServicesPlanDTO.serviceItems[1], cadence: createCadence({ periodCount: 12 }) },
+        { ...mockUpdateServicesPlanDTO.serviceItems[2], cadence: createCadence({ period: CadencePeriod.MONTH, periodCount: 3 }) }
+      ]
+    });
     expect(updatedServicesPlan).toEqual(mockUpdatedServicesPlan);
   });
 
@@ -244,4 +376,88 @@ describe('ServicesPlanService', () => {
     expect(mockServicesPlanRepository.delete).toHaveBeenCalledWith('plan-id');
     expect(result).toBe(true);
   });
-});
\ No newline at end of file
+
+  it('should price service items with a unit cost per planned unit', async () => {
+    const mockCreateServicesPlanDTO = generateMockCreateServicesPlanDTO();
+    mockServicesPlanRepository.create.mockResolvedValue(mockServicesPlans[0]);
+    mockNeedsAssessmentRepository.findById.mockResolvedValue(mockNeedsAssessments[0]);
+    mockCarePlanService.getCarePlanById.mockResolvedValue(mockCarePlans[0]);
+
+    await servicesPlanService.createServicesPlan({
+      ...mockCreateServicesPlanDTO,
+      serviceItems: [{ ...mockCreateServicesPlanDTO.serviceItems[0], unitCost: 150 }]
+    }, 'user-id');
+
+    expect(mockServicesPlanRepository.create).toHaveBeenCalledWith(expect.objectContaining({
+      serviceItems: [expect.objectContaining({ unitCost: 150, estimatedCost: 3600 })]
+    }), 'user-id');
+  });
+
+  it('should estimate costs from planned units where items have a unit cost', async () => {
+    mockServicesPlanRepository.findById.mockResolvedValue(generateMockServicesPlan({
+      serviceItems: [
+        generateMockServiceItem({ cadence: createCadence({ unitsPerPeriod: 2, periodCount: 12 }), unitCost: 150 }),
+        generateMockServiceItem({ id: 'service-item-2345-6789', cadence: null, estimatedCost: 1200 })
+      ]
+    }));
+
+    const estimate = await servicesPlanService.estimateCosts('plan-id');
+
+    expect(estimate.totalCost).toBe(4800);
+    expect(estimate.serviceBreakdown).toEqual([
+      expect.objectContaining({ serviceItemId: 'service-item-1234-5678', plannedUnits: 24, unitCost: 150, cost: 3600 }),
+      expect.objectContaining({ serviceItemId: 'service-item-2345-6789', plannedUnits: null, unitCost: null, cost: 1200 })
+    ]);
+  });
+
+  it('should price items without a unit cost at the rate schedule that applies to them', async () => {
+    const appliedRate: AppliedRate = {
+      rateScheduleId: 'rate-schedule-1',
+      fundingSourceType: null,
+      region: 'CA',
+      providerId: null,
+      unit: RateUnit.PER_15_MINUTES,
+      rate: 30,
+      effectiveFrom: '2024-01-01',
+      effectiveTo: null,
+      billedUnitsPerVisit: 4,
+      costPerVisit: 120
+    };
+    mockServicesPlanRepository.findById.mockResolvedValue(generateMockServicesPlan({
+      serviceItems: [
+        generateMockServiceItem({ cadence: createCadence({ unitsPerPeriod: 2, periodCount: 12 }) }),
+        generateMockServiceItem({ id: 'service-item-2345-6789', cadence: createCadence({ periodCount: 10 }), unitCost: 90 })
+      ]
+    }));
+    mockRateScheduleService.resolveRates.mockResolvedValue({
+      'service-item-1234-5678': appliedRate,
+      'service-item-2345-6789': { ...appliedRate, rateScheduleId: 'rate-schedule-2' }
+    });
+
+    const estimate = await servicesPlanService.estimateCosts('plan-id');
+
+    expect(estimate.serviceBreakdown).toEqual([
+      expect.objectContaining({ serviceItemId: 'service-item-1234-5678', unitCost: 120, appliedRate, cost: 2880 }),
+      // The item's own unit cost takes precedence over the fee tables
+      expect.objectContaining({ serviceItemId: 'service-item-2345-6789', unitCost: 90, appliedRate: null, cost: 900 })
+    ]);
+  });
+
+  it('should compare planned units with completed bookings', async () => {
+    mockServicesPlanRepository.findById.mockResolvedValue(generateMockServicesPlan({
+      serviceItems: [
+        generateMockServiceItem({ cadence: createCadence({ unitsPerPeriod: 2, periodCount: 12 }) }),
+        generateMockServiceItem({ id: 'service-item-2345-6789', cadence: createCadence({ startDate: '2024-06-03' }) })
+      ]
+    }));
+    mockBookingRepository.countCompletedByServiceItem.mockResolvedValue({ 'service-item-1234-5678': 5 });
+
+    const utilization = await servicesPlanService.getServiceItemUtilization('plan-id');
+
+    expect(mockBookingRepository.countCompletedByServiceItem).toHaveBeenCalledWith(['service-item-1234-5678', 'service-item-2345-6789']);
+    expect(utilization).toEqual([
+      expect.objectContaining({ serviceItemId: 'service-item-1234-5678', plannedUnits: 24, deliveredUnits: 5, remainingUnits: 19 }),
+      expect.objectContaining({ serviceItemId: 'service-item-2345-6789', plannedUnits: null, deliveredUnits: 0, remainingUnits: null })
+    ]);
+  });
+});
@@ -0,0 +1,486 @@
+import {
+  WaitlistService,
+  estimateWaitDays,
+  matchesWaitlistPreferences
+} from '../../../src/services/waitlist.service';
+import { WaitlistRepository } from '../../../src/repositories/waitlist.repository';
+import { BookingRepository } from '../../../src/repositories/booking.repository';
+import { ProviderAvailabilityRepository } from '../../../src/repositories/provider-availability.repository';
+import { ProviderProfileRepository } from '../../../src/repositories/provider-profile.repository';
+import { ClientProfileRepository } from '../../../src/repositories/client-profile.repository';
+import { CaseManagerProfileRepository } from '../../../src/repositories/case-manager-profile.repository';
+import { NotificationService } from '../../../src/services/notifications.service';
+import { IBookingService } from '../../../src/interfaces/booking.interface';
+import {
+  WaitlistEntry,
+  WaitlistEntryStatus,
+  WaitlistOffer,
+  WaitlistOfferStatus,
+  WaitlistPreferences
+} from '../../../src/types/waitlist.types';
+import { DayOfWeek, TimeSlot } from '../../../src/types/provider.types';
+import { Booking, BookingStatus } from '../../../src/models/booking.model';
+import { ServiceType } from '../../../src/constants/service-types';
+import { ErrorCodes } from '../../../src/constants/error-codes';
+import { Roles } from '../../../src/constants/roles';
+
+// Mock the logger module
+jest.mock('../../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+const PROVIDER_ID = 'provider-123';
+const CLIENT_ID = 'client-123';
+const CASE_MANAGER_ID = 'case-manager-123';
+
+// Saturday 1 June 2024, 09:00 UTC
+const NOW = new Date(Date.UTC(2024, 5, 1, 9, 0));
+
+// Helper function to create waitlist preferences
+const createPreferences = (overrides: Partial<WaitlistPreferences> = {}): WaitlistPreferences => ({
+  daysOfWeek: [],
+  timeWindows: [],
+  maxDistance: null,
+  ...overrides
+});
+
+// Helper function to create a mock waitlist entry
+const createMockEntry = (overrides: Partial<WaitlistEntry> = {}): WaitlistEntry => ({
+  id: 'entry-1',
+  providerId: PROVIDER_ID,
+  clientId: CLIENT_ID,
+  serviceType: ServiceType.PHYSICAL_THERAPY,
+  preferences: createPreferences(),
+  priority: 0,
+  status: WaitlistEntryStatus.WAITING,
+  notes: null,
+  createdById: CLIENT_ID,
+  createdAt: new Date(Date.UTC(2024, 4, 1)),
+  updatedAt: new Date(Date.UTC(2024, 4, 1)),
+  ...overrides
+});
+
+// Helper function to create a mock waitlist offer for Monday 3 June, 10:00-11:00
+const createMockOffer = (overrides: Partial<WaitlistOffer> = {}): WaitlistOffer => ({
+  id: 'offer-1',
+  entryId: 'entry-1',
+  providerId: PROVIDER_ID,
+  clientId: CLIENT_ID,
+  serviceType: ServiceType.PHYSICAL_THERAPY,
+  startTime: new Date(Date.UTC(2024, 5, 3, 10, 0)),
+  endTime: new Date(Date.UTC(2024, 5, 3, 11, 0)),
+  status: WaitlistOfferStatus.PENDING,
+  expiresAt: new Date(Date.UTC(2099, 0, 1)),
+  bookingId: null,
+  respondedAt: null,
+  createdAt: NOW,
+  updatedAt: NOW,
+  ...overrides
+});
+
+// Helper function to create an open time slot
+const createSlot = (startTime: Date, endTime: Date): TimeSlot => ({
+  id: `slot-${startTime.getTime()}`,
+  providerId: PROVIDER_ID,
+  startTime,
+  endTime,
+  serviceType: ServiceType.PHYSICAL_THERAPY,
+  isBooked: false,
+  bookingId: null
+});
+
+describe('matchesWaitlistPreferences', () => {
+  const mondayMorning = { startTime: new Date(Date.UTC(2024, 5, 3, 10, 0)), endTime: new Date(Date.UTC(2024, 5, 3, 11, 0)) };
+
+  it('accepts any slot when the client has no preferences', () => {
+    expect(matchesWaitlistPreferences(mondayMorning, createPreferences())).toBe(true);
+  });
+
+  it('requires the slot to fall on a preferred day', () => {
+    expect(matchesWaitlistPreferences(mondayMorning, createPreferences({ daysOfWeek: [DayOfWeek.MONDAY] }))).toBe(true);
+    expect(matchesWaitlistPreferences(mondayMorning, createPreferences({ daysOfWeek: [DayOfWeek.TUESDAY] }))).toBe(false);
+  });
+
+  it('requires the whole slot to fit in a preferred time window', () => {
+    expect(matchesWaitlistPreferences(mondayMorning, createPreferences({
+      timeWindows: [{ startTime: '09:00', endTime: '12:00' }]
+    }))).toBe(true);
+    expect(matchesWaitlistPreferences(mondayMorning, createPreferences({
+      timeWindows: [{ startTime: '10:30', endTime: '17:00' }]
+    }))).toBe(false);
+  });
+
+  it('reads days and time windows in the client\'s timezone', () => {
+    // 02:00-03:00 UTC on Monday is 22:00-23:00 on Sunday in New York
+    const lateSunday = { startTime: new Date(Date.UTC(2024, 5, 3, 2, 0)), endTime: new Date(Date.UTC(2024, 5, 3, 3, 0)) };
+
+    expect(matchesWaitlistPreferences(lateSunday, createPreferences({
+      daysOfWeek: [DayOfWeek.SUNDAY],
+      timeWindows: [{ startTime: '21:00', endTime: '23:00' }]
+    }), 'America/New_York')).toBe(true);
+    expect(matchesWaitlistPreferences(lateSunday, createPreferences({
+      daysOfWeek: [DayOfWeek.MONDAY]
+    }), 'America/New_York')).toBe(false);
+  });
+
+  it('keeps a client\'s time window at the same local time across a DST change', () => {
+    const window = createPreferences({ timeWindows: [{ startTime: '09:00', endTime: '10:00' }] });
+
+    // 09:00 in New York is 14:00 UTC before the March change and 13:00 UTC after it
+    expect(matchesWaitlistPreferences(
+      { startTime: new Date(Date.UTC(2030, 2, 8, 14, 0)), endTime: new Date(Date.UTC(2030, 2, 8, 15, 0)) },
+      window,
+      'America/New_York'
+    )).toBe(true);
+    expect(matchesWaitlistPreferences(
+      { startTime: new Date(Date.UTC(2030, 2, 11, 13, 0)), endTime: new Date(Date.UTC(2030, 2, 11, 14, 0)) },
+      window,
+      'America/New_York'
+    )).toBe(true);
+    expect(matchesWaitlistPreferences(
+      { startTime: new Date(Date.UTC(2030, 2, 11, 14, 0)), endTime: new Date(Date.UTC(2030, 2, 11, 15, 0)) },
+      window,
+      'America/New_York'
+    )).toBe(false);
+  });
+});
+
+describe('estimateWaitDays', () => {
+  it('spreads the queue over the provider\'s recent booking rate', () => {
+    // 14 bookings in 28 days is one every two days
+    expect(estimateWaitDays(3, 14, 28)).toBe(6);
+  });
+
+  it('returns null when the provider has taken no recent bookings', () => {
+    expect(estimateWaitDays(1, 0, 28)).toBeNull();
+  });
+});
+
+describe('WaitlistService', () => {
+  let service: WaitlistService;
+  let mockWaitlistRepository: jest.Mocked<WaitlistRepository>;
+  let mockBookingRepository: jest.Mocked<BookingRepository>;
+  let mockAvailabilityRepository: jest.Mocked<ProviderAvailabilityRepository>;
+  let mockProviderProfileRepository: jest.Mocked<ProviderProfileRepository>;
+  let mockClientProfileRepository: jest.Mocked<ClientProfileRepository>;
+  let mockCaseManagerProfileRepository: jest.Mocked<CaseManagerProfileRepository>;
+  let mockNotificationService: jest.Mocked<NotificationService>;
+  let mockBookingService: jest.Mocked<IBookingService>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockWaitlistRepository = {
+      createEntry: jest.fn().mockImplementation(async (data) => createMockEntry({ ...data, id: 'entry-new' })),
+      findEntryById: jest.fn().mockResolvedValue(null),
+      findEntries: jest.fn().mockResolvedValue([]),
+      findQueue: jest.fn().mockResolvedValue([]),
+      findActiveEntry: jest.fn().mockResolvedValue(null),
+      updateEntryStatus: jest.fn(),
+      createOffer: jest.fn().mockImplementation(async (data) => createMockOffer({ ...data, id: `offer-${data.entryId}` })),
+      findOfferById: jest.fn().mockResolvedValue(createMockOffer()),
+      findOffers: jest.fn().mockResolvedValue([]),
+      findLapsedOffers: jest.fn().mockResolvedValue([]),
+      closeOffer: jest.fn().mockImplementation(async (id, status, _entryStatus, bookingId = null) =>
+        createMockOffer({ id, status, bookingId }))
+    } as unknown as jest.Mocked<WaitlistRepository>;
+
+    mockBookingRepository = {
+      checkForConflicts: jest.fn().mockResolvedValue(false),
+      countCreatedSince: jest.fn().mockResolvedValue(14)
+    } as unknown as jest.Mocked<BookingRepository>;
+
+    mockAvailabilityRepository = {
+      findAvailableTimeSlots: jest.fn().mockResolvedValue([])
+    } as unknown as jest.Mocked<ProviderAvailabilityRepository>;
+
+    mockProviderProfileRepository = {
+      findByUserId: jest.fn().mockResolvedValue({
+        userId: PROVIDER_ID,
+        serviceTypes: [ServiceType.PHYSICAL_THERAPY],
+        address: null
+      })
+    } as unknown as jest.Mocked<ProviderProfileRepository>;
+
+    mockClientProfileRepository = {
+      findByUserId: jest.fn().mockResolvedValue({ userId: CLIENT_ID, address: null })
+    } as unknown as jest.Mocked<ClientProfileRepository>;
+
+    mockCaseManagerProfileRepository = {
+      findByUserId: jest.fn().mockResolvedValue({ userId: CASE_MANAGER_ID, assignedClients: [CLIENT_ID] })
+    } as unknown as jest.Mocked<CaseManagerProfileRepository>;
+
+    mockNotificationService = {
+      createNotification: jest.fn().mockResolvedValue({ id: 'notification-1' }),
+      sendNotification: jest.fn().mockResolvedValue([])
+    } as unknown as jest.Mocked<NotificationService>;
+
+    mockBookingService = {
+      createBooking: jest.fn().mockResolvedValue({ id: 'booking-1' })
+    } as unknown as jest.Mocked<IBookingService>;
+
+    service = new WaitlistService(
+      mockWaitlistRepository,
+      mockBookingRepository,
+      mockAvailabilityRepository,
+      mockProviderProfileRepository,
+      mockClientProfileRepository,
+      mockCaseManagerProfileRepository,
+      mockNotificationService,
+      mockBookingService
+    );
+  });
+
+  describe('joinWaitlist', () => {
+    it('adds a client at the default priority and returns their estimated wait', async () => {
+      mockWaitlistRepository.findQueue.mockResolvedValue([
+        createMockEntry({ id: 'entry-ahead', clientId: 'client-456' }),
+        createMockEntry({ id: 'entry-new' })
+      ]);
+
+      const entry = await service.joinWaitlist(
+        { providerId: PROVIDER_ID, clientId: CLIENT_ID, serviceType: ServiceType.PHYSICAL_THERAPY, priority: 50 },
+        CLIENT_ID,
+        Roles.CLIENT
+      );
+
+      expect(mockWaitlistRepository.createEntry).toHaveBeenCalledWith(expect.objectContaining({
+        priority: 0,
+        preferences: createPreferences(),
+        createdById: CLIENT_ID
+      }));
+      expect(entry.estimate).toEqual({
+        providerId: PROVIDER_ID,
+        serviceType: ServiceType.PHYSICAL_THERAPY,
+        position: 2,
+        bookingsPerWeek: 3.5,
+        estimatedWaitDays: 4
+      });
+    });
+
+    it('lets case managers set the priority of an assigned client', async () => {
+      await service.joinWaitlist(
+        { providerId: PROVIDER_ID, clientId: CLIENT_ID, serviceType: ServiceType.PHYSICAL_THERAPY, priority: 50 },
+        CASE_MANAGER_ID,
+        Roles.CASE_MANAGER
+      );
+
+      expect(mockWaitlistRepository.createEntry).toHaveBeenCalledWith(expect.objectContaining({ priority: 50 }));
+    });
+
+    it('rejects a client already waiting for the provider and service type', async () => {
+      mockWaitlistRepository.findActiveEntry.mockResolvedValue(createMockEntry());
+
+      await expect(service.joinWaitlist(
+        { providerId: PROVIDER_ID, clientId: CLIENT_ID, serviceType: ServiceType.PHYSICAL_THERAPY },
+        CLIENT_ID,
+        Roles.CLIENT
+      )).rejects.toMatchObject({ code: ErrorCodes.CONFLICT });
+    });
+
+    it('prevents clients from adding other clients to a waitlist', async () => {
+      await expect(service.joinWaitlist(
+        { providerId: PROVIDER_ID, clientId: 'client-456', serviceType: ServiceType.PHYSICAL_THERAPY },
+        CLIENT_ID,
+        Roles.CLIENT
+      )).rejects.toMatchObject({ code: ErrorCodes.FORBIDDEN });
+
+      expect(mockWaitlistRepository.createEntry).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('offerOpenSlots', () => {
+    const mondaySlot = createSlot(new Date(Date.UTC(2024, 5, 3, 10, 0)), new Date(Date.UTC(2024, 5, 3, 11, 0)));
+
+    it('offers an open slot to the highest-priority client whose preferences it suits', async () => {
+      mockWaitlistRepository.findQueue.mockResolvedValue([
+        createMockEntry({ id: 'entry-tuesdays', clientId: 'client-a', priority: 10, preferences: createPreferences({ daysOfWeek: [DayOfWeek.TUESDAY] }) }),
+        createMockEntry({ id: 'entry-mornings', clientId: 'client-b', priority: 5, preferences: createPreferences({ timeWindows: [{ startTime: '08:00', endTime: '12:00' }] }) }),
+        createMockEntry({ id: 'entry-any', clientId: 'client-c', priority: 0 })
+      ]);
+      mockAvailabilityRepository.findAvailableTimeSlots.mockResolvedValue([mondaySlot]);
+
+      const offers = await service.offerOpenSlots(PROVIDER_ID, NOW);
+
+      expect(offers).toHaveLength(1);
+      expect(mockWaitlistRepository.createOffer).toHaveBeenCalledWith({
+        entryId: 'entry-mornings',
+        providerId: PROVIDER_ID,
+        clientId: 'client-b',
+        serviceType: ServiceType.PHYSICAL_THERAPY,
+        startTime: mondaySlot.startTime,
+        endTime: mondaySlot.endTime,
+        expiresAt: new Date(NOW.getTime() + 24 * 60 * 60 * 1000)
+      });
+      expect(mockNotificationService.sendNotification).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not hold a slot past its start time', async () => {
+      const soonSlot = createSlot(new Date(Date.UTC(2024, 5, 1, 15, 0)), new Date(Date.UTC(2024, 5, 1, 16, 0)));
+      mockWaitlistRepository.findQueue.mockResolvedValue([createMockEntry()]);
+      mockAvailabilityRepository.findAvailableTimeSlots.mockResolvedValue([soonSlot]);
+
+      await service.offerOpenSlots(PROVIDER_ID, NOW);
+
+      expect(mockWaitlistRepository.createOffer).toHaveBeenCalledWith(expect.objectContaining({
+        expiresAt: soonSlot.startTime
+      }));
+    });
+
+    it('does not offer a client a slot they were already offered', async () => {
+      mockWaitlistRepository.findQueue.mockResolvedValue([createMockEntry()]);
+      mockAvailabilityRepository.findAvailableTimeSlots.mockResolvedValue([mondaySlot]);
+      mockWaitlistRepository.findOffers.mockResolvedValue([
+        createMockOffer({ entryId: 'entry-1', status: WaitlistOfferStatus.DECLINED })
+      ]);
+
+      const offers = await service.offerOpenSlots(PROVIDER_ID, NOW);
+
+      expect(offers).toEqual([]);
+      expect(mockWaitlistRepository.createOffer).not.toHaveBeenCalled();
+    });
+
+    it('skips clients outside their maximum travel distance', async () => {
+      mockWaitlistRepository.findQueue.mockResolvedValue([
+        createMockEntry({ preferences: createPreferences({ maxDistance: 5 }) })
+      ]);
+      mockAvailabilityRepository.findAvailableTimeSlots.mockResolvedValue([mondaySlot]);
+      mockProviderProfileRepository.findByUserId.mockResolvedValue({
+        userId: PROVIDER_ID,
+        address: { latitude: 40.7128, longitude: -74.006 }
+      } as any);
+      mockClientProfileRepository.findByUserId.mockResolvedValue({
+        userId: CLIENT_ID,
+        address: { latitude: 40.0583, longitude: -74.4057 }
+      } as any);
+
+      const offers = await service.offerOpenSlots(PROVIDER_ID, NOW);
+
+      expect(offers).toEqual([]);
+    });
+
+    it('matches time windows in each client\'s own timezone', async () => {
+      mockWaitlistRepository.findQueue.mockResolvedValue([
+        createMockEntry({ id: 'entry-west', clientId: 'client-west', priority: 10, preferences: createPreferences({ timeWindows: [{ startTime: '08:00', endTime: '12:00' }] }) }),
+        createMockEntry({ id: 'entry-east', clientId: 'client-east', priority: 5, preferences: createPreferences({ timeWindows: [{ startTime: '05:00', endTime: '08:00' }] }) })
+      ]);
+      mockAvailabilityRepository.findAvailableTimeSlots.mockResolvedValue([mondaySlot]);
+      mockClientProfileRepository.findByUserId.mockImplementation(async (userId: string) => ({
+        userId,
+        address: null,
+        timezone: userId === 'client-west' ? 'America/Los_Angeles' : 'America/New_York'
+      }) as any);
+
+      await service.offerOpenSlots(PROVIDER_ID, NOW);
+
+      // 10:00-11:00 UTC is 03:00 in Los Angeles and 06:00 in New York
+      expect(mockWaitlistRepository.createOffer).toHaveBeenCalledTimes(1);
+      expect(mockWaitlistRepository.createOffer).toHaveBeenCalledWith(expect.objectContaining({ entryId: 'entry-east' }));
+    });
+  });
+
+  describe('ensureSlotNotHeld', () => {
+    it('rejects bookings that overlap a slot held for another client', async () => {
+      mockWaitlistRepository.findOffers.mockResolvedValue([createMockOffer()]);
+
+      await expect(service.ensureSlotNotHeld(
+        PROVIDER_ID,
+        'client-456',
+        new Date(Date.UTC(2024, 5, 3, 10, 30)),
+        new Date(Date.UTC(2024, 5, 3, 11, 30))
+      )).rejects.toMatchObject({ code: ErrorCodes.CONFLICT });
+    });
+
+    it('allows the client the slot is held for to book it', async () => {
+      mockWaitlistRepository.findOffers.mockResolvedValue([createMockOffer()]);
+
+      await expect(service.ensureSlotNotHeld(
+        PROVIDER_ID,
+        CLIENT_ID,
+        new Date(Date.UTC(2024, 5, 3, 10, 0)),
+        new Date(Date.UTC(2024, 5, 3, 11, 0))
+      )).resolves.toBeUndefined();
+    });
+  });
+
+  describe('acceptOffer', () => {
+    it('books the held slot and links the booking to the offer', async () => {
+      const offer = await service.acceptOffer('offer-1', CLIENT_ID, Roles.CLIENT);
+
+      expect(mockBookingService.createBooking).toHaveBeenCalledWith(
+        expect.objectContaining({
+          clientId: CLIENT_ID,
+          providerId: PROVIDER_ID,
+          serviceType: ServiceType.PHYSICAL_THERAPY,
+          startTime: new Date(Date.UTC(2024, 5, 3, 10, 0)),
+          endTime: new Date(Date.UTC(2024, 5, 3, 11, 0))
+        }),
+        CLIENT_ID,
+        Roles.CLIENT
+      );
+      expect(offer).toMatchObject({ status: WaitlistOfferStatus.ACCEPTED, bookingId: 'booking-1' });
+    });
+
+    it('expires a lapsed offer instead of booking it', async () => {
+      mockWaitlistRepository.findOfferById.mockResolvedValue(createMockOffer({ expiresAt: new Date(2020, 0, 1) }));
+
+      await expect(service.acceptOffer('offer-1', CLIENT_ID, Roles.CLIENT))
+        .rejects.toMatchObject({ code: ErrorCodes.CONFLICT });
+
+      expect(mockWaitlistRepository.closeOffer).toHaveBeenCalledWith(
+        'offer-1',
+        WaitlistOfferStatus.EXPIRED,
+        WaitlistEntryStatus.WAITING
+      );
+      expect(mockBookingService.createBooking).not.toHaveBeenCalled();
+    });
+
+    it('prevents clients from accepting another client\'s offer', async () => {
+      await expect(service.acceptOffer('offer-1', 'client-456', Roles.CLIENT))
+        .rejects.toMatchObject({ code: ErrorCodes.FORBIDDEN });
+    });
+  });
+
+  describe('recordBooking', () => {
+    it('accepts the offer held for the booking\'s client and window', async () => {
+      mockWaitlistRepository.findOffers.mockResolvedValue([createMockOffer()]);
+      const booking = {
+        id: 'booking-1',
+        clientId: CLIENT_ID,
+        providerId: PROVIDER_ID,
+        startTime: new Date(Date.UTC(2024, 5, 3, 10, 0)),
+        endTime: new Date(Date.UTC(2024, 5, 3, 11, 0)),
+        status: BookingStatus.SCHEDULED
+      } as Booking;
+
+      await service.recordBooking(booking);
+
+      expect(mockWaitlistRepository.closeOffer).toHaveBeenCalledWith(
+        'offer-1',
+        WaitlistOfferStatus.ACCEPTED,
+        WaitlistEntryStatus.BOOKED,
+        'booking-1'
+      );
+    });
+  });
+
+  describe('expireOffers', () => {
+    it('expires lapsed offers and offers their slots to the next clients', async () => {
+      mockWaitlistRepository.findLapsedOffers.mockResolvedValue([
+        createMockOffer({ id: 'offer-1' }),
+        createMockOffer({ id: 'offer-2', entryId: 'entry-2' })
+      ]);
+
+      const expired = await service.expireOffers(NOW);
+
+      expect(expired).toBe(2);
+      expect(mockWaitlistRepository.findQueue).toHaveBeenCalledTimes(1);
+      expect(mockWaitlistRepository.findQueue).toHaveBeenCalledWith(PROVIDER_ID);
+    });
+  });
+});
@@ -0,0 +1,128 @@
+import {
+  buildInstrumentSchema,
+  buildScoreTrends,
+  scoreInstrument,
+  validateInstrumentResponses
+} from '../../../src/utils/assessment-scoring';
+import { ASSESSMENT_INSTRUMENTS, getAssessmentInstrument } from '../../../src/constants/assessment-instruments';
+import {
+  AssessmentInstrument,
+  AssessmentInstrumentCode,
+  AssessmentRiskLevel,
+  InstrumentScore,
+  ScoreTrendDirection
+} from '../../../src/types/assessment-instrument.types';
+import { generateMockNeedsAssessment } from '../../fixtures/services-plans.fixture';
+
+const phq9 = getAssessmentInstrument(AssessmentInstrumentCode.PHQ_9) as AssessmentInstrument;
+const katz = getAssessmentInstrument(AssessmentInstrumentCode.KATZ_ADL) as AssessmentInstrument;
+const steadi = getAssessmentInstrument(AssessmentInstrumentCode.STEADI_FALL_RISK) as AssessmentInstrument;
+
+// Helper function to answer every item of an instrument with the same value
+const answerAll = (instrument: AssessmentInstrument, value: number): Record<string, number> =>
+  Object.fromEntries(instrument.items.map(item => [item.id, value]));
+
+// Helper function to create a stored score
+const createScore = (overrides: Partial<InstrumentScore> = {}): InstrumentScore => ({
+  instrumentCode: AssessmentInstrumentCode.KATZ_ADL,
+  version: 1,
+  score: 4,
+  maxScore: 6,
+  band: 'Moderate functional impairment',
+  riskLevel: AssessmentRiskLevel.MODERATE,
+  alerts: [],
+  ...overrides
+});
+
+describe('assessment instruments', () => {
+  it('have score bands covering every possible score', () => {
+    ASSESSMENT_INSTRUMENTS.forEach(instrument => {
+      const maxScore = scoreInstrument(instrument, Object.fromEntries(instrument.items.map(item =>
+        [item.id, Math.max(...item.options.map(option => option.value))]
+      ))).maxScore;
+
+      for (let score = 0; score <= maxScore; score++) {
+        expect(instrument.bands.filter(band => score >= band.min && score <= band.max)).toHaveLength(1);
+      }
+    });
+  });
+});
+
+describe('buildInstrumentSchema', () => {
+  it('requires every item and lists the answers each item accepts', () => {
+    const schema = buildInstrumentSchema(steadi);
+
+    expect(schema.required).toHaveLength(12);
+    expect(schema.additionalProperties).toBe(false);
+    expect(schema.properties.fallen.oneOf).toEqual([{ const: 0, title: 'No' }, { const: 2, title: 'Yes' }]);
+  });
+});
+
+describe('validateInstrumentResponses', () => {
+  it('accepts a complete set of answers', () => {
+    expect(validateInstrumentResponses(phq9, answerAll(phq9, 1))).toEqual([]);
+  });
+
+  it('reports missing, unaccepted and unknown answers', () => {
+    const { sleep: _sleep, ...responses } = answerAll(phq9, 1);
+
+    expect(validateInstrumentResponses(phq9, { ...responses, mood: 4, pain: 1 })).toEqual([
+      'mood: 4 is not an accepted answer',
+      'sleep: answer is required',
+      'pain: not an item of phq_9 version 1'
+    ]);
+  });
+});
+
+describe('scoreInstrument', () => {
+  it('sums the answers and places the total in its band', () => {
+    expect(scoreInstrument(phq9, { ...answerAll(phq9, 2), self_harm: 0 })).toEqual({
+      instrumentCode: AssessmentInstrumentCode.PHQ_9,
+      version: 1,
+      score: 16,
+      maxScore: 27,
+      band: 'Moderately severe depression',
+      riskLevel: AssessmentRiskLevel.HIGH,
+      alerts: []
+    });
+  });
+
+  it('raises an alert for critical items answered above zero whatever the total', () => {
+    const score = scoreInstrument(phq9, { ...answerAll(phq9, 0), self_harm: 1 });
+
+    expect(score.riskLevel).toBe(AssessmentRiskLevel.LOW);
+    expect(score.alerts).toEqual(['self_harm']);
+  });
+
+  it('scores weighted answers by their points', () => {
+    const score = scoreInstrument(steadi, { ...answerAll(steadi, 0), fallen: 2, walking_aid: 2 });
+
+    expect(score).toMatchObject({ score: 4, maxScore: 14, riskLevel: AssessmentRiskLevel.MODERATE });
+  });
+});
+
+describe('buildScoreTrends', () => {
+  it('orders scores oldest first and compares the latest with the one before', () => {
+    const trends = buildScoreTrends([
+      generateMockNeedsAssessment({ id: 'third', scores: [createScore({ score: 2 })], createdAt: new Date('2023-09-01') }),
+      generateMockNeedsAssessment({ id: 'first', scores: [createScore({ score: 5 })], createdAt: new Date('2023-01-01') }),
+      generateMockNeedsAssessment({ id: 'second', scores: [createScore({ score: 4 })], createdAt: new Date('2023-05-01') })
+    ]);
+
+    expect(trends).toHaveLength(1);
+    expect(trends[0].name).toBe(katz.name);
+    expect(trends[0].points.map(point => point.needsAssessmentId)).toEqual(['first', 'second', 'third']);
+    // Falling Katz scores mean the client is losing independence
+    expect(trends[0]).toMatchObject({ change: -2, direction: ScoreTrendDirection.WORSENING });
+  });
+
+  it('leaves the change unset until an instrument has been administered twice', () => {
+    const trends = buildScoreTrends([
+      generateMockNeedsAssessment({ scores: [createScore({ instrumentCode: AssessmentInstrumentCode.GAD_7, score: 8 })] }),
+      generateMockNeedsAssessment({ scores: [] })
+    ]);
+
+    expect(trends).toHaveLength(1);
+    expect(trends[0]).toMatchObject({ change: null, direction: null });
+  });
+});
@@ -0,0 +1,48 @@
+import {
+  formatWithOffset,
+  getTimeZoneOffset,
+  isValidTimeZone,
+  zonedTimeToUtc
+} from '../../../src/utils/date-time';
+
+const NEW_YORK = 'America/New_York';
+
+describe('zonedTimeToUtc', () => {
+  it('converts wall-clock times using the offset in force on the day', () => {
+    expect(zonedTimeToUtc(2030, 3, 8, 9, 0, NEW_YORK)).toEqual(new Date(Date.UTC(2030, 2, 8, 14, 0)));
+    expect(zonedTimeToUtc(2030, 3, 11, 9, 0, NEW_YORK)).toEqual(new Date(Date.UTC(2030, 2, 11, 13, 0)));
+  });
+
+  it('moves a time skipped when clocks spring forward past the gap', () => {
+    // 02:30 does not exist on 10 March 2030 in New York, so it becomes 03:30 EDT
+    expect(zonedTimeToUtc(2030, 3, 10, 2, 30, NEW_YORK)).toEqual(new Date(Date.UTC(2030, 2, 10, 7, 30)));
+  });
+
+  it('resolves a time repeated when clocks fall back to its first occurrence', () => {
+    // 01:30 happens twice on 3 November 2030 in New York, first in EDT
+    expect(zonedTimeToUtc(2030, 11, 3, 1, 30, NEW_YORK)).toEqual(new Date(Date.UTC(2030, 10, 3, 5, 30)));
+  });
+});
+
+describe('getTimeZoneOffset', () => {
+  it('returns the offset either side of a DST change', () => {
+    expect(getTimeZoneOffset(new Date(Date.UTC(2030, 2, 10, 6, 59)), NEW_YORK)).toBe(-300);
+    expect(getTimeZoneOffset(new Date(Date.UTC(2030, 2, 10, 7, 0)), NEW_YORK)).toBe(-240);
+  });
+});
+
+describe('formatWithOffset', () => {
+  it('writes the local time with the offset in force at that instant', () => {
+    expect(formatWithOffset(new Date(Date.UTC(2030, 2, 8, 14, 0)), NEW_YORK)).toBe('2030-03-08T09:00:00-05:00');
+    expect(formatWithOffset(new Date(Date.UTC(2030, 2, 11, 13, 0)), NEW_YORK)).toBe('2030-03-11T09:00:00-04:00');
+    expect(formatWithOffset(new Date(Date.UTC(2030, 2, 11, 3, 30)), 'Asia/Kolkata')).toBe('2030-03-11T09:00:00+05:30');
+    expect(formatWithOffset(new Date(Date.UTC(2030, 2, 11, 9, 0)), 'UTC')).toBe('2030-03-11T09:00:00+00:00');
+  });
+});
+
+describe('isValidTimeZone', () => {
+  it('accepts IANA timezone names and rejects anything else', () => {
+    expect(isValidTimeZone('America/Chicago')).toBe(true);
+    expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false);
+  });
+});
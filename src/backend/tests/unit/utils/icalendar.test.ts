@@ -0,0 +1,88 @@
+import {
+  ICalendarMethod,
+  buildCalendar,
+  escapeText,
+  foldLine,
+  formatDateTime
+} from '../../../src/utils/icalendar';
+
+const unfold = (calendar: string): string => calendar.replace(/\r\n /g, '');
+
+describe('escapeText', () => {
+  it('escapes characters with meaning in iCalendar text', () => {
+    expect(escapeText('Back; side, door\\gate\nRing twice')).toBe('Back\\; side\\, door\\\\gate\\nRing twice');
+  });
+});
+
+describe('formatDateTime', () => {
+  it('writes UTC date-times without separators or milliseconds', () => {
+    expect(formatDateTime(new Date(Date.UTC(2024, 5, 1, 9, 5, 30, 250)))).toBe('20240601T090530Z');
+  });
+});
+
+describe('foldLine', () => {
+  it('leaves short lines alone', () => {
+    expect(foldLine('SUMMARY:Visit')).toBe('SUMMARY:Visit');
+  });
+
+  it('folds long lines at 75 octets without splitting multi-byte characters', () => {
+    const line = `DESCRIPTION:${'é'.repeat(60)}`;
+
+    const folded = foldLine(line).split('\r\n');
+
+    expect(folded.length).toBeGreaterThan(1);
+    for (const part of folded) {
+      expect(Buffer.byteLength(part, 'utf8')).toBeLessThanOrEqual(75);
+    }
+    expect(folded.slice(1).every(part => part.startsWith(' '))).toBe(true);
+    expect(unfold(folded.join('\r\n'))).toBe(line);
+  });
+});
+
+describe('buildCalendar', () => {
+  const event = {
+    uid: 'booking-1@revolucare.com',
+    start: new Date(Date.UTC(2024, 5, 3, 14, 0)),
+    end: new Date(Date.UTC(2024, 5, 3, 15, 0)),
+    summary: 'Revolucare appointment',
+    status: 'CONFIRMED' as const,
+    sequence: 0
+  };
+
+  it('writes a feed with its name and refresh interval', () => {
+    const calendar = buildCalendar([event], {
+      method: ICalendarMethod.PUBLISH,
+      name: 'Revolucare appointments',
+      refreshIntervalMinutes: 60,
+      timestamp: new Date(Date.UTC(2024, 5, 1, 9, 0))
+    });
+
+    expect(calendar.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n')).toBe(true);
+    expect(calendar.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(calendar).toContain('METHOD:PUBLISH\r\n');
+    expect(calendar).toContain('X-WR-CALNAME:Revolucare appointments\r\n');
+    expect(calendar).toContain('REFRESH-INTERVAL;VALUE=DURATION:PT60M\r\n');
+    expect(calendar).toContain('UID:booking-1@revolucare.com\r\n');
+    expect(calendar).toContain('DTSTAMP:20240601T090000Z\r\n');
+    expect(calendar).toContain('DTSTART:20240603T140000Z\r\nDTEND:20240603T150000Z\r\n');
+  });
+
+  it('writes the organizer and attendees of an invitation', () => {
+    const calendar = unfold(buildCalendar(
+      [{
+        ...event,
+        status: 'CANCELLED',
+        sequence: 1,
+        organizer: { name: 'Revolucare', email: 'notifications@revolucare.com' },
+        attendees: ['client@example.com']
+      }],
+      { method: ICalendarMethod.CANCEL }
+    ));
+
+    expect(calendar).toContain('METHOD:CANCEL\r\n');
+    expect(calendar).toContain('STATUS:CANCELLED\r\nSEQUENCE:1\r\n');
+    expect(calendar).toContain('ORGANIZER;CN=Revolucare:mailto:notifications@revolucare.com\r\n');
+    expect(calendar).toContain('ATTENDEE;ROLE=REQ-PARTICIPANT;PARTSTAT=ACCEPTED:mailto:client@example.com\r\n');
+    expect(calendar).not.toContain('X-WR-CALNAME');
+  });
+});
@@ -0,0 +1,107 @@
+import { countPlannedUnits, parseCadence, parseFrequency, parseSessionLength } from '../../../src/utils/service-cadence';
+import { CadencePeriod, ServiceCadence } from '../../../src/types/services-plan.types';
+
+// Helper function to create a cadence
+const createCadence = (overrides: Partial<ServiceCadence> = {}): ServiceCadence => ({
+  unitsPerPeriod: 1,
+  period: CadencePeriod.WEEK,
+  periodInterval: 1,
+  startDate: null,
+  endDate: null,
+  periodCount: null,
+  sessionMinutes: null,
+  ...overrides
+});
+
+describe('parseFrequency', () => {
+  it.each([
+    ['3x weekly', { unitsPerPeriod: 3, period: CadencePeriod.WEEK, periodInterval: 1 }],
+    ['2 times per week', { unitsPerPeriod: 2, period: CadencePeriod.WEEK, periodInterval: 1 }],
+    ['Weekly', { unitsPerPeriod: 1, period: CadencePeriod.WEEK, periodInterval: 1 }],
+    ['twice a month', { unitsPerPeriod: 2, period: CadencePeriod.MONTH, periodInterval: 1 }],
+    ['daily', { unitsPerPeriod: 1, period: CadencePeriod.DAY, periodInterval: 1 }],
+    ['biweekly', { unitsPerPeriod: 1, period: CadencePeriod.WEEK, periodInterval: 2 }],
+    ['every 3 days', { unitsPerPeriod: 1, period: CadencePeriod.DAY, periodInterval: 3 }]
+  ])('reads "%s"', (text, expected) => {
+    expect(parseFrequency(text)).toEqual(expected);
+  });
+
+  it('reads ranges as their upper bound', () => {
+    expect(parseFrequency('2-3x weekly')).toEqual({ unitsPerPeriod: 3, period: CadencePeriod.WEEK, periodInterval: 1 });
+  });
+
+  it.each([
+    ['45 minutes twice weekly', 2],
+    ['60 min sessions, 3x per week', 3],
+    ['2 hours 3 times a week', 3],
+    ['1.5 hour visits weekly', 1],
+    ['4 visits per month', 4]
+  ])('reads only the count in "%s"', (text, unitsPerPeriod) => {
+    expect(parseFrequency(text)).toEqual(expect.objectContaining({ unitsPerPeriod }));
+  });
+
+  it('returns null when the text names no period', () => {
+    expect(parseFrequency('as needed')).toBeNull();
+  });
+});
+
+describe('parseSessionLength', () => {
+  it.each([
+    ['45 minutes twice weekly', 45],
+    ['60 min sessions, 3x per week', 60],
+    ['2 hours 3 times a week', 120],
+    ['1.5 hour visits weekly', 90],
+    ['30-minute check-in daily', 30]
+  ])('reads the session length in "%s"', (text, minutes) => {
+    expect(parseSessionLength(text)).toBe(minutes);
+  });
+
+  it('returns null when the text names no session length', () => {
+    expect(parseSessionLength('3x weekly')).toBeNull();
+  });
+});
+
+describe('parseCadence', () => {
+  it('converts a length of time into periods of the frequency', () => {
+    expect(parseCadence('3x weekly', '8 weeks')).toEqual(createCadence({ unitsPerPeriod: 3, periodCount: 8 }));
+    expect(parseCadence('1x weekly', '3 months')).toEqual(createCadence({ periodCount: 13 }));
+  });
+
+  it('reads a number of sessions as the periods needed to deliver them', () => {
+    expect(parseCadence('2x weekly', '12 sessions')).toEqual(createCadence({ unitsPerPeriod: 2, periodCount: 6 }));
+  });
+
+  it('keeps the session length named in the frequency', () => {
+    expect(parseCadence('45 minutes twice weekly', '8 weeks'))
+      .toEqual(createCadence({ unitsPerPeriod: 2, periodCount: 8, sessionMinutes: 45 }));
+  });
+
+  it('leaves ongoing services unbounded', () => {
+    expect(parseCadence('Weekly', 'ongoing', '2024-06-03')).toEqual(createCadence({ startDate: '2024-06-03' }));
+  });
+
+  it('returns null when either text cannot be read', () => {
+    expect(parseCadence('as needed', '8 weeks')).toBeNull();
+    expect(parseCadence('3x weekly', 'until discharge')).toBeNull();
+  });
+});
+
+describe('countPlannedUnits', () => {
+  it('multiplies the units per period by the period count', () => {
+    expect(countPlannedUnits(createCadence({ unitsPerPeriod: 3, periodCount: 8 }))).toBe(24);
+  });
+
+  it('counts the periods between the start and end dates', () => {
+    const cadence = createCadence({ unitsPerPeriod: 2, startDate: '2024-06-03', endDate: '2024-07-29' });
+
+    expect(countPlannedUnits(cadence)).toBe(16);
+  });
+
+  it('counts every other week for fortnightly services', () => {
+    expect(countPlannedUnits(createCadence({ periodInterval: 2, startDate: '2024-06-03', endDate: '2024-07-29' }))).toBe(4);
+  });
+
+  it('returns null for ongoing services', () => {
+    expect(countPlannedUnits(createCadence({ startDate: '2024-06-03' }))).toBeNull();
+  });
+});
@@ -0,0 +1,134 @@
+import { build270, parse271 } from '../../../src/utils/x12';
+import { EligibilityInquiry, EligibilityStatus } from '../../../src/types/eligibility.types';
+
+const ISA = 'ISA*00*          *00*          *ZZ*CLEARINGHOUSE  *ZZ*REVOLUCARE     *240603*0900*^*00501*000000042*0*T*:~';
+
+// Builds a 271 interchange around the given transaction segments
+const build271 = (...segments: string[]): string => [
+  ISA,
+  'GS*HB*CLEARINGHOUSE*REVOLUCARE*20240603*0900*42*X*005010X279A1~',
+  'ST*271*0001*005010X279A1~',
+  'BHT*0022*11*TRACE123*20240603*0900~',
+  'HL*1**20*1~',
+  'NM1*PR*2*ACME HEALTH*****PI*ACME01~',
+  'HL*2*1*21*1~',
+  'NM1*1P*2*REVOLUCARE*****XX*1234567893~',
+  'HL*3*2*22*0~',
+  'TRN*2*TRACE123*9REVOLUCAR~',
+  ...segments,
+  'SE*20*0001~',
+  'GE*1*42~',
+  'IEA*1*000000042~'
+].join('\n');
+
+const inquiry: EligibilityInquiry = {
+  controlNumber: '42',
+  traceNumber: 'TRACE123',
+  payerName: 'Acme Health',
+  payerId: 'ACME01',
+  providerName: 'Revolucare',
+  providerNpi: '1234567893',
+  subscriber: {
+    firstName: 'Jane',
+    lastName: "O'Neil*Smith",
+    memberId: 'W123456789',
+    groupNumber: 'GRP-100',
+    dateOfBirth: '1948-02-29'
+  },
+  serviceDate: '2024-06-03',
+  serviceTypeCodes: ['30']
+};
+
+describe('build270', () => {
+  const x12 = build270(inquiry, {
+    senderId: 'revolucare',
+    receiverId: 'clearinghouse',
+    usageIndicator: 'T',
+    timestamp: new Date(Date.UTC(2024, 5, 3, 9, 0))
+  });
+  const segments = x12.split('~\n');
+
+  it('writes a fixed-width interchange header', () => {
+    expect(segments[0]).toBe('ISA*00*          *00*          *ZZ*REVOLUCARE     *ZZ*CLEARINGHOUSE  *240603*0900*^*00501*000000042*0*T*:');
+    expect(`${segments[0]}~`).toHaveLength(106);
+  });
+
+  it('asks about the subscriber as of the service date', () => {
+    expect(segments).toEqual(expect.arrayContaining([
+      'NM1*PR*2*ACME HEALTH*****PI*ACME01',
+      "NM1*IL*1*O'NEIL SMITH*JANE****MI*W123456789",
+      'REF*6P*GRP-100',
+      'DMG*D8*19480229',
+      'DTP*291*D8*20240603',
+      'EQ*30'
+    ]));
+  });
+
+  it('counts the transaction set segments and closes the envelopes', () => {
+    const stIndex = segments.findIndex(segment => segment.startsWith('ST*'));
+    const seIndex = segments.findIndex(segment => segment.startsWith('SE*'));
+
+    expect(segments[seIndex]).toBe(`SE*${seIndex - stIndex + 1}*0001`);
+    expect(segments.slice(-2)).toEqual(['GE*1*42', 'IEA*1*000000042~']);
+  });
+});
+
+describe('parse271', () => {
+  it('reads active coverage with copays, coinsurance, deductibles and remaining visits', () => {
+    const result = parse271(build271(
+      'NM1*IL*1*SMITH*JANE****MI*W123456789~',
+      'REF*6P*GRP-100~',
+      'DTP*291*RD8*20240101-20241231~',
+      'EB*1*IND*30**GOLD PPO~',
+      'EB*B*IND*42^98****25*****Y~',
+      'EB*A*IND*42***27**.2****Y~',
+      'EB*C*IND*30***23*1500*****Y~',
+      'EB*C*IND*30***29*400*****Y~',
+      'EB*F*IND*42***29***VS*12~',
+      'EB*F*IND*98***29***VS*8~',
+      'MSG*PRIOR AUTHORIZATION REQUIRED FOR HOME HEALTH~'
+    ));
+
+    expect(result).toMatchObject({
+      status: EligibilityStatus.ACTIVE,
+      traceNumber: 'TRACE123',
+      payerName: 'ACME HEALTH',
+      memberId: 'W123456789',
+      groupNumber: 'GRP-100',
+      planName: 'GOLD PPO',
+      coverageStartDate: '2024-01-01',
+      coverageEndDate: '2024-12-31',
+      remainingVisits: 8,
+      messages: ['PRIOR AUTHORIZATION REQUIRED FOR HOME HEALTH']
+    });
+    expect(result.copays).toEqual([expect.objectContaining({ serviceTypeCodes: ['42', '98'], amount: 25, inNetwork: true })]);
+    expect(result.coinsurance).toEqual([expect.objectContaining({ percent: 0.2 })]);
+    expect(result.deductibles.map(deductible => [deductible.timePeriod, deductible.amount])).toEqual([['23', 1500], ['29', 400]]);
+  });
+
+  it('reports inactive coverage', () => {
+    const result = parse271(build271('NM1*IL*1*SMITH*JANE****MI*W123456789~', 'EB*6**30~'));
+
+    expect(result.status).toBe(EligibilityStatus.INACTIVE);
+  });
+
+  it('reports rejected inquiries as errors', () => {
+    const result = parse271(build271('NM1*IL*1*SMITH*JANE****MI*W123456789~', 'AAA*N**75*C~'));
+
+    expect(result.status).toBe(EligibilityStatus.ERROR);
+    expect(result.rejections).toEqual([{ code: '75', description: 'Subscriber/insured not found', followUpAction: 'C' }]);
+  });
+
+  it('reads interchanges with other delimiters', () => {
+    const x12 = build271('EB*1*IND*30**SILVER HMO~')
+      .replace(/\*/g, '|')
+      .replace(/~\n?/g, '!');
+
+    expect(parse271(x12)).toMatchObject({ status: EligibilityStatus.ACTIVE, planName: 'SILVER HMO' });
+  });
+
+  it('rejects anything other than a 271 interchange', () => {
+    expect(() => parse271('not x12')).toThrow('not an X12 interchange');
+    expect(() => parse271(build271().replace('ST*271', 'ST*999'))).toThrow('not an X12 271 transaction');
+  });
+});